@@ -0,0 +1,13 @@
+-- Credit and daily limits per customer. A NULL limit means the customer has
+-- none. New cheques over a limit are refused unless an admin overrides them.
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS credit_limit NUMERIC(12, 2);
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS daily_limit NUMERIC(12, 2);
+
+ALTER TABLE customers DROP CONSTRAINT IF EXISTS customers_limits_check;
+ALTER TABLE customers ADD CONSTRAINT customers_limits_check
+    CHECK ((credit_limit IS NULL OR credit_limit >= 0) AND (daily_limit IS NULL OR daily_limit >= 0));
+
+-- Summing each customer's outstanding and same-day cheques
+CREATE INDEX IF NOT EXISTS cheque_transactions_customer_date_idx
+    ON cheque_transactions (customer_id, date);
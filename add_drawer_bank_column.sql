@@ -0,0 +1,4 @@
+-- Bank the cheque is drawn on, used together with cheque number, amount,
+-- customer and date to detect cheques that were entered twice
+ALTER TABLE cheque_transactions
+ADD COLUMN IF NOT EXISTS drawer_bank VARCHAR(100);
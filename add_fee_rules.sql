@@ -0,0 +1,31 @@
+-- Fee rules with amount brackets, flat fees and minimums, plus per-transaction
+-- fee overrides. Fees are now calculated by the application from these rules,
+-- so the trigger that recomputed them from a single percentage is dropped.
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'fee_bracket_mode') THEN
+        CREATE TYPE fee_bracket_mode AS ENUM ('bracket', 'tiered');
+    END IF;
+END
+$$;
+
+ALTER TABLE fee_schedules
+    ADD COLUMN IF NOT EXISTS flat_fee NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS min_fee NUMERIC(10, 2),
+    ADD COLUMN IF NOT EXISTS brackets JSONB,
+    ADD COLUMN IF NOT EXISTS bracket_mode fee_bracket_mode NOT NULL DEFAULT 'bracket';
+
+ALTER TABLE cheque_transactions
+    ADD COLUMN IF NOT EXISTS customer_fee_override NUMERIC(10, 2),
+    ADD COLUMN IF NOT EXISTS vendor_fee_override NUMERIC(10, 2),
+    ADD COLUMN IF NOT EXISTS fee_override_reason TEXT;
+
+ALTER TABLE cheque_transactions
+    DROP CONSTRAINT IF EXISTS cheque_transactions_fee_override_reason_check;
+ALTER TABLE cheque_transactions
+    ADD CONSTRAINT cheque_transactions_fee_override_reason_check
+    CHECK ((customer_fee_override IS NULL AND vendor_fee_override IS NULL) OR COALESCE(fee_override_reason, '') <> '');
+
+DROP TRIGGER IF EXISTS calculate_transaction_fields_on_insert ON public.cheque_transactions;
+DROP TRIGGER IF EXISTS calculate_transaction_fields_on_update ON public.cheque_transactions;
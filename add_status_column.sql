@@ -2,11 +2,11 @@
 DO $$
 BEGIN
     IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'transaction_status') THEN
-        CREATE TYPE transaction_status AS ENUM ('pending', 'completed', 'cancelled');
+        CREATE TYPE transaction_status AS ENUM ('pending', 'deposited', 'cleared', 'paid_out', 'settled', 'returned', 'void');
     END IF;
 END
 $$;
 
 -- Add the status column if it doesn't exist
 ALTER TABLE cheque_transactions
-ADD COLUMN IF NOT EXISTS status transaction_status DEFAULT 'pending';
\ No newline at end of file
+ADD COLUMN IF NOT EXISTS status transaction_status DEFAULT 'pending';
@@ -0,0 +1,20 @@
+-- Indexes behind the transaction list's search, filters and keyset paging.
+-- The date index matches the default "newest first" order, so each page is a
+-- short index range scan however deep the paging goes.
+
+CREATE INDEX IF NOT EXISTS cheque_transactions_date_idx
+    ON cheque_transactions ((coalesce(date, '0001-01-01'::date)) DESC, transaction_id)
+    WHERE deleted_at IS NULL;
+
+-- Cheque number prefix search
+CREATE INDEX IF NOT EXISTS cheque_transactions_cheque_number_idx
+    ON cheque_transactions (lower(cheque_number) text_pattern_ops)
+    WHERE deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS cheque_transactions_customer_idx
+    ON cheque_transactions (customer_id)
+    WHERE deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS cheque_transactions_vendor_idx
+    ON cheque_transactions (vendor_id)
+    WHERE deleted_at IS NULL;
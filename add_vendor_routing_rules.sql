@@ -0,0 +1,20 @@
+-- Vendor routing rules used to recommend a vendor for each cheque. A NULL rule
+-- means the vendor has none: any volume, any cheque size, any drawer bank.
+-- Capacities count cheques dated on the day, or Monday to Sunday for the week.
+
+ALTER TABLE vendors ADD COLUMN IF NOT EXISTS daily_capacity NUMERIC(12, 2);
+ALTER TABLE vendors ADD COLUMN IF NOT EXISTS weekly_capacity NUMERIC(12, 2);
+ALTER TABLE vendors ADD COLUMN IF NOT EXISTS min_cheque_amount NUMERIC(12, 2);
+ALTER TABLE vendors ADD COLUMN IF NOT EXISTS max_cheque_amount NUMERIC(12, 2);
+ALTER TABLE vendors ADD COLUMN IF NOT EXISTS accepted_banks JSONB;
+
+ALTER TABLE vendors DROP CONSTRAINT IF EXISTS vendors_routing_check;
+ALTER TABLE vendors ADD CONSTRAINT vendors_routing_check CHECK (
+    (daily_capacity IS NULL OR daily_capacity >= 0) AND
+    (weekly_capacity IS NULL OR weekly_capacity >= 0) AND
+    (min_cheque_amount IS NULL OR max_cheque_amount IS NULL OR min_cheque_amount <= max_cheque_amount)
+);
+
+-- Summing each vendor's cheques for the day and week
+CREATE INDEX IF NOT EXISTS cheque_transactions_vendor_date_idx
+    ON cheque_transactions (vendor_id, date);
@@ -0,0 +1,21 @@
+-- Seed the transaction_payments ledger from the legacy scalar columns so the
+-- derived paid_to_customer / received_from_vendor / profit_withdrawn values
+-- stay the same after the switch. Run once, after drizzle-kit push.
+
+INSERT INTO transaction_payments (transaction_id, type, amount, date, method, note)
+SELECT transaction_id, 'payout', paid_to_customer, date, 'legacy', 'Opening balance'
+FROM cheque_transactions
+WHERE COALESCE(paid_to_customer, 0) > 0
+  AND NOT EXISTS (SELECT 1 FROM transaction_payments tp WHERE tp.transaction_id = cheque_transactions.transaction_id AND tp.type = 'payout');
+
+INSERT INTO transaction_payments (transaction_id, type, amount, date, method, note)
+SELECT transaction_id, 'vendor_receipt', received_from_vendor, date, 'legacy', 'Opening balance'
+FROM cheque_transactions
+WHERE COALESCE(received_from_vendor, 0) > 0
+  AND NOT EXISTS (SELECT 1 FROM transaction_payments tp WHERE tp.transaction_id = cheque_transactions.transaction_id AND tp.type = 'vendor_receipt');
+
+INSERT INTO transaction_payments (transaction_id, type, amount, date, method, note)
+SELECT transaction_id, 'profit_withdrawal', profit_withdrawn, date, 'legacy', 'Opening balance'
+FROM cheque_transactions
+WHERE COALESCE(profit_withdrawn, 0) > 0
+  AND NOT EXISTS (SELECT 1 FROM transaction_payments tp WHERE tp.transaction_id = cheque_transactions.transaction_id AND tp.type = 'profit_withdrawal');
@@ -9,6 +9,8 @@ import Customers from "@/pages/Customers";
 import Vendors from "@/pages/Vendors";
 import Reports from "@/pages/Reports";
 import Documents from "@/pages/Documents";
+import Reconciliation from "@/pages/Reconciliation";
+import Approvals from "@/pages/Approvals";
 import Settings from "@/pages/Settings";
 import ProfilePage from "@/pages/profile-page";
 import EditTransaction from "@/pages/EditTransaction";
@@ -29,6 +31,8 @@ function Router() {
       <ProtectedRoute path="/customers" component={Customers} />
       <ProtectedRoute path="/vendors" component={Vendors} />
       <ProtectedRoute path="/reports" component={Reports} />
+      <ProtectedRoute path="/reconciliation" component={Reconciliation} />
+      <ProtectedRoute path="/approvals" component={Approvals} />
       <ProtectedRoute path="/documents" component={Documents} />
       <ProtectedRoute path="/settings" component={Settings} />
       <ProtectedRoute path="/profile" component={ProfilePage} />
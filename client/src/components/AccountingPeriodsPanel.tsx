@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { History, Lock, LockOpen } from "lucide-react";
+import { format, subMonths } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import useAccountingPeriods from "@/hooks/useAccountingPeriods";
+import AuditHistory from "@/components/AuditHistory";
+
+function formatPeriod(period: string): string {
+  return format(new Date(`${period}-01T00:00:00`), "MMMM yyyy");
+}
+
+function formatWhen(value: Date | string | null, username: string | null): string {
+  if (!value) return "—";
+  return `${format(new Date(value), "MMM d, yyyy h:mm a")}${username ? ` by ${username}` : ""}`;
+}
+
+export default function AccountingPeriodsPanel() {
+  const { user } = useAuth();
+  const [period, setPeriod] = useState(format(subMonths(new Date(), 1), "yyyy-MM"));
+  const [historyPeriod, setHistoryPeriod] = useState<string | null>(null);
+  const { periods, closePeriod, reopenPeriod } = useAccountingPeriods();
+  const isSuperuser = user?.role === "superuser";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Accounting Periods</CardTitle>
+        <CardDescription>
+          Close a month once it has been reported. Transactions dated in a closed month can't be edited or deleted,
+          deposits can't be recorded in it and its fees can't be recalculated. Only a superuser can reopen it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center space-x-2">
+          <Input
+            type="month"
+            value={period}
+            max={format(new Date(), "yyyy-MM")}
+            onChange={(e) => setPeriod(e.target.value)}
+            className="w-48"
+          />
+          <Button onClick={() => closePeriod.mutate(period)} disabled={!period || closePeriod.isPending}>
+            <Lock className="mr-1 h-4 w-4" /> Close Period
+          </Button>
+        </div>
+
+        {periods.isLoading ? (
+          <p className="text-sm text-gray-500">Loading periods...</p>
+        ) : !periods.data || periods.data.length === 0 ? (
+          <p className="text-sm text-gray-500">No periods have been closed yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Period</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Closed</TableHead>
+                <TableHead>Reopened</TableHead>
+                <TableHead className="w-48"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {periods.data.map((item) => (
+                <TableRow key={item.period}>
+                  <TableCell className="font-medium">{formatPeriod(item.period)}</TableCell>
+                  <TableCell>
+                    <Badge
+                      variant="outline"
+                      className={item.status === "closed" ? "bg-gray-100 text-gray-800" : "bg-green-100 text-green-800"}
+                    >
+                      {item.status === "closed" ? "Closed" : "Open"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">{formatWhen(item.closed_at, item.closed_by_username)}</TableCell>
+                  <TableCell className="text-sm">{formatWhen(item.reopened_at, item.reopened_by_username)}</TableCell>
+                  <TableCell className="space-x-2 text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setHistoryPeriod(historyPeriod === item.period ? null : item.period)}
+                    >
+                      <History className="mr-1 h-4 w-4" /> History
+                    </Button>
+                    {item.status === "closed" && isSuperuser && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => reopenPeriod.mutate(item.period)}
+                        disabled={reopenPeriod.isPending}
+                      >
+                        <LockOpen className="mr-1 h-4 w-4" /> Reopen
+                      </Button>
+                    )}
+                    {item.status === "open" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => closePeriod.mutate(item.period)}
+                        disabled={closePeriod.isPending}
+                      >
+                        <Lock className="mr-1 h-4 w-4" /> Close
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {historyPeriod && <AuditHistory entity="period" entityId={historyPeriod} />}
+      </CardContent>
+    </Card>
+  );
+}
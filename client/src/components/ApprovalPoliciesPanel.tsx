@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import useApprovals, { APPROVAL_ACTION_LABELS } from "@/hooks/useApprovals";
+import { APPROVAL_ACTIONS, type ApprovalAction, type User } from "@shared/schema";
+
+const ROLES: User["role"][] = ["user", "admin", "superuser"];
+
+export default function ApprovalPoliciesPanel() {
+  const [name, setName] = useState("");
+  const [action, setAction] = useState<ApprovalAction>("create");
+  const [minAmount, setMinAmount] = useState("");
+  const [roles, setRoles] = useState<User["role"][]>(["user"]);
+  const { policies, createPolicy, updatePolicy, deletePolicy } = useApprovals("pending");
+
+  const toggleRole = (role: User["role"], checked: boolean) =>
+    setRoles(checked ? [...roles, role] : roles.filter((item) => item !== role));
+
+  const handleCreate = () => {
+    createPolicy.mutate(
+      { name, action, min_amount: minAmount || null, roles },
+      { onSuccess: () => { setName(""); setMinAmount(""); } },
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Approval Policies</CardTitle>
+        <CardDescription>
+          An action matching a policy waits for an admin other than the person who took it. Leave the amount empty to
+          hold back every such action, and pick no roles to apply the policy to everyone.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Policy name" className="w-48" />
+          <Select value={action} onValueChange={(value) => setAction(value as ApprovalAction)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {APPROVAL_ACTIONS.map((item) => (
+                <SelectItem key={item} value={item}>{APPROVAL_ACTION_LABELS[item]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            value={minAmount}
+            onChange={(e) => setMinAmount(e.target.value)}
+            placeholder="From amount"
+            className="w-36"
+          />
+          {ROLES.map((role) => (
+            <div key={role} className="flex items-center space-x-1">
+              <Checkbox
+                id={`policy-role-${role}`}
+                checked={roles.includes(role)}
+                onCheckedChange={(checked) => toggleRole(role, checked === true)}
+              />
+              <Label htmlFor={`policy-role-${role}`} className="capitalize">{role}</Label>
+            </div>
+          ))}
+          <Button onClick={handleCreate} disabled={!name.trim() || createPolicy.isPending}>
+            <Plus className="mr-1 h-4 w-4" /> Add Policy
+          </Button>
+        </div>
+
+        {policies.isLoading ? (
+          <p className="text-sm text-gray-500">Loading policies...</p>
+        ) : !policies.data || policies.data.length === 0 ? (
+          <p className="text-sm text-gray-500">No approval policies yet, so every action is applied straight away.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead className="text-right">From amount</TableHead>
+                <TableHead>Roles</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="w-16"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {policies.data.map((policy) => (
+                <TableRow key={policy.policy_id}>
+                  <TableCell className="font-medium">{policy.name}</TableCell>
+                  <TableCell>{APPROVAL_ACTION_LABELS[policy.action]}</TableCell>
+                  <TableCell className="text-right">{policy.min_amount ? `$${policy.min_amount}` : "Any"}</TableCell>
+                  <TableCell className="capitalize">{policy.roles.length > 0 ? policy.roles.join(", ") : "Everyone"}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={policy.active}
+                      disabled={updatePolicy.isPending}
+                      onCheckedChange={(active) => updatePolicy.mutate({ id: policy.policy_id, policy: { active } })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-500"
+                      disabled={deletePolicy.isPending}
+                      onClick={() => deletePolicy.mutate(policy.policy_id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
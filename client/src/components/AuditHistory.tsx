@@ -0,0 +1,137 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { RotateCcw } from "lucide-react";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import useAuditTrail from "@/hooks/useAuditTrail";
+import { AuditAction, AuditChannel, AuditEntity } from "@shared/schema";
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  revert: "Reverted",
+  restore: "Restored",
+  purge: "Permanently deleted",
+  close: "Closed",
+  reopen: "Reopened",
+};
+
+const RECORD_MESSAGES: Record<Exclude<AuditAction, "update" | "revert">, string> = {
+  create: "Record created",
+  delete: "Record moved to trash",
+  restore: "Record restored from trash",
+  purge: "Record permanently deleted",
+  close: "Period closed",
+  reopen: "Period reopened",
+};
+
+const CHANNEL_LABELS: Record<AuditChannel, string> = {
+  web: "Web",
+  ai: "AI Assistant",
+  telegram: "Telegram",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+interface AuditHistoryProps<T> {
+  entity: AuditEntity;
+  entityId: number | string;
+  onReverted?: (record: T) => void;
+}
+
+export default function AuditHistory<T = unknown>({ entity, entityId, onReverted }: AuditHistoryProps<T>) {
+  const { user } = useAuth();
+  const { entries, revert } = useAuditTrail<T>(entity, entityId);
+  const history = entries.data;
+
+  // Deposits change through their allocations and periods are closed and
+  // reopened instead, so neither can be reverted
+  const canRevert = entity !== "deposit" && entity !== "period" && (user?.role === "admin" || user?.role === "superuser");
+
+  const handleRevert = (auditId: number) => {
+    revert.mutate(auditId, {
+      onSuccess: (record) => onReverted?.(record),
+    });
+  };
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <h4 className="font-medium">History</h4>
+
+      {entries.isLoading ? (
+        <p className="text-sm text-gray-500">Loading history...</p>
+      ) : !history || history.length === 0 ? (
+        <p className="text-sm text-gray-500">No changes recorded.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>When</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>By</TableHead>
+              <TableHead>Changes</TableHead>
+              {canRevert && <TableHead className="w-24"></TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {history.map((entry, index) => (
+              <TableRow key={entry.audit_id}>
+                <TableCell className="whitespace-nowrap">
+                  {entry.created_at ? format(new Date(entry.created_at), "MMM d, yyyy HH:mm") : "-"}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline">{ACTION_LABELS[entry.action]}</Badge>
+                  {entry.reverted_audit_id && (
+                    <span className="ml-1 text-xs text-gray-500">to #{entry.reverted_audit_id}</span>
+                  )}
+                </TableCell>
+                <TableCell className="whitespace-nowrap">
+                  {entry.username || "System"}
+                  <span className="block text-xs text-gray-500">{CHANNEL_LABELS[entry.channel]}</span>
+                </TableCell>
+                <TableCell>
+                  {entry.action !== "update" && entry.action !== "revert" ? (
+                    <span className="text-sm text-gray-500">
+                      {RECORD_MESSAGES[entry.action]}
+                    </span>
+                  ) : (
+                    <ul className="space-y-1 text-sm">
+                      {entry.changes.map((change) => (
+                        <li key={change.field}>
+                          <span className="font-medium">{change.field}</span>:{" "}
+                          <span className="text-gray-500">{formatValue(change.before)}</span> → {formatValue(change.after)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </TableCell>
+                {canRevert && (
+                  <TableCell>
+                    {/* The newest entry is the current version */}
+                    {index > 0 && entry.snapshot && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRevert(entry.audit_id)}
+                        disabled={revert.isPending}
+                      >
+                        <RotateCcw className="mr-1 h-4 w-4" />
+                        Revert
+                      </Button>
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
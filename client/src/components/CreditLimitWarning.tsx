@@ -0,0 +1,48 @@
+import { ShieldAlert } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { CreditLimitCheck } from "@shared/schema";
+
+const LIMIT_LABELS = {
+  credit: "Credit limit",
+  daily: "Daily limit",
+};
+
+interface CreditLimitWarningProps {
+  check: CreditLimitCheck;
+  onOverride: () => void;
+  onCancel: () => void;
+  isSubmitting?: boolean;
+}
+
+export default function CreditLimitWarning({ check, onOverride, onCancel, isSubmitting }: CreditLimitWarningProps) {
+  return (
+    <Alert className="border-red-300 bg-red-50">
+      <ShieldAlert className="h-4 w-4 text-red-600" />
+      <AlertTitle>This cheque would take the customer over their limits</AlertTitle>
+      <AlertDescription>
+        <ul className="mt-2 space-y-1 text-sm">
+          {check.breaches.map((breach) => (
+            <li key={breach.limit}>
+              <span className="font-medium">{LIMIT_LABELS[breach.limit]} ${breach.limit_amount}</span>
+              {" "}— ${breach.current} now, ${breach.projected} with this cheque
+            </li>
+          ))}
+        </ul>
+        {!check.can_override && (
+          <p className="mt-2 text-xs text-gray-600">Only an admin can create a cheque over a customer's limits.</p>
+        )}
+        <div className="mt-3 flex justify-end space-x-2">
+          <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+            Go Back
+          </Button>
+          {check.can_override && (
+            <Button type="button" variant="destructive" size="sm" onClick={onOverride} disabled={isSubmitting}>
+              Override Limit
+            </Button>
+          )}
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
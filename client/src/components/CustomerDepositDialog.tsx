@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from "@/components/ui/form";
 import { Button } from "@/components/ui/button";
@@ -7,15 +8,18 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
+import { ChevronDown, ChevronRight, Undo2 } from "lucide-react";
 import useDeposits from "@/hooks/useDeposits";
-import { Customer } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { Customer, ChequeTransaction, CustomerDepositWithAllocations, TransactionSearchResult } from "@shared/schema";
 
 const depositSchema = z.object({
   customer_id: z.string().min(1, "Customer is required"),
   amount: z.string().refine(
     (val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0,
     "Amount must be a positive number"
-  )
+  ),
+  mode: z.enum(["auto", "manual"])
 });
 
 type DepositFormValues = z.infer<typeof depositSchema>;
@@ -27,37 +31,83 @@ interface CustomerDepositDialogProps {
   selectedCustomerId?: number | null;
 }
 
+// Amount still owed to the customer on a transaction
+function outstandingOf(transaction: ChequeTransaction): number {
+  const netPayable = parseFloat(transaction.net_payable_to_customer || "0");
+  const paid = parseFloat(transaction.paid_to_customer || "0");
+  return Math.max(Math.round((netPayable - paid) * 100) / 100, 0);
+}
+
 export default function CustomerDepositDialog({
   isOpen,
   onOpenChange,
   customers,
   selectedCustomerId
 }: CustomerDepositDialogProps) {
-  const { createDeposit } = useDeposits();
+  const [manualAmounts, setManualAmounts] = useState<Record<number, string>>({});
+  const [expandedDepositId, setExpandedDepositId] = useState<number | null>(null);
   
   const form = useForm<DepositFormValues>({
     resolver: zodResolver(depositSchema),
-    defaultValues: {
+    values: {
       customer_id: selectedCustomerId ? String(selectedCustomerId) : "",
-      amount: ""
+      amount: "",
+      mode: "auto"
     }
   });
   
+  const customerId = form.watch("customer_id") ? parseInt(form.watch("customer_id")) : null;
+  const mode = form.watch("mode");
+  
+  const { deposits, createDeposit } = useDeposits(customerId);
+  
+  // Unpaid transactions the deposit can be applied to, oldest first like the automatic allocation
+  const openParams = { customer_id: String(customerId ?? ""), outstanding_customer: "true", sort: "date:asc", limit: "200" };
+  const { data: openTransactions = [] } = useQuery<TransactionSearchResult["transactions"]>({
+    queryKey: ["/api/transactions", "outstanding_customer", openParams],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/transactions?${new URLSearchParams(openParams)}`, undefined);
+      const result: TransactionSearchResult = await response.json();
+      return result.transactions;
+    },
+    enabled: isOpen && !!customerId,
+  });
+  
+  const manualTotal = Object.values(manualAmounts).reduce((sum, val) => sum + (parseFloat(val) || 0), 0);
+  
   const handleSubmit = async (data: DepositFormValues) => {
+    const allocations = Object.entries(manualAmounts)
+      .filter(([, amount]) => parseFloat(amount) > 0)
+      .map(([transactionId, amount]) => ({ transaction_id: parseInt(transactionId), amount }));
+    
+    if (data.mode === "manual") {
+      if (allocations.length === 0) {
+        form.setError("mode", { message: "Enter an amount for at least one transaction" });
+        return;
+      }
+      if (manualTotal > parseFloat(data.amount) + 0.001) {
+        form.setError("mode", { message: "Allocations exceed the deposit amount" });
+        return;
+      }
+    }
+    
     createDeposit.mutate({
       customer_id: parseInt(data.customer_id),
-      amount: parseFloat(data.amount) as any // Type casting to solve type mismatch
+      amount: data.amount,
+      mode: data.mode,
+      allocations: data.mode === "manual" ? allocations : undefined
     }, {
-      onSuccess: () => {
-        onOpenChange(false);
-        form.reset();
+      onSuccess: (deposit) => {
+        setManualAmounts({});
+        setExpandedDepositId(deposit.deposit_id);
+        form.reset({ customer_id: data.customer_id, amount: "", mode: "auto" });
       }
     });
   };
   
   return (
     <Dialog open={isOpen} onOpenChange={onOpenChange}>
-      <DialogContent>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Add Customer Deposit</DialogTitle>
         </DialogHeader>
@@ -71,7 +121,11 @@ export default function CustomerDepositDialog({
                   <FormLabel>Customer</FormLabel>
                   <Select
                     value={field.value}
-                    onValueChange={field.onChange}
+                    onValueChange={(value) => {
+                      field.onChange(value);
+                      setManualAmounts({});
+                      setExpandedDepositId(null);
+                    }}
                     defaultValue={field.value}
                   >
                     <FormControl>
@@ -104,6 +158,61 @@ export default function CustomerDepositDialog({
                 </FormItem>
               )}
             />
+            <FormField
+              control={form.control}
+              name="mode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Allocation</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="auto">Oldest unpaid transactions first</SelectItem>
+                      <SelectItem value="manual">Choose transactions</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            {mode === "manual" && (
+              <div className="rounded-md border p-3">
+                {openTransactions.length > 0 ? (
+                  <div className="space-y-2">
+                    {openTransactions.map((transaction) => (
+                      <div key={transaction.transaction_id} className="flex items-center justify-between gap-2 text-sm">
+                        <div>
+                          <span className="font-medium">#{transaction.cheque_number}</span>
+                          <span className="ml-2 text-gray-500">{transaction.date}</span>
+                          <span className="ml-2 text-gray-500">owed ${outstandingOf(transaction).toFixed(2)}</span>
+                        </div>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max={outstandingOf(transaction)}
+                          placeholder="0.00"
+                          className="w-28"
+                          value={manualAmounts[transaction.transaction_id] || ""}
+                          onChange={(e) => setManualAmounts({ ...manualAmounts, [transaction.transaction_id]: e.target.value })}
+                        />
+                      </div>
+                    ))}
+                    <p className="pt-1 text-right text-xs text-gray-500">
+                      Allocating ${manualTotal.toFixed(2)}
+                    </p>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">No unpaid transactions for this customer</p>
+                )}
+              </div>
+            )}
+            
             <DialogFooter>
               <Button 
                 type="button" 
@@ -119,7 +228,107 @@ export default function CustomerDepositDialog({
             </DialogFooter>
           </form>
         </Form>
+        
+        {customerId && (
+          <div className="mt-2 border-t pt-4">
+            <h4 className="mb-2 text-sm font-medium text-gray-900">Deposits</h4>
+            {deposits.isLoading ? (
+              <p className="text-sm text-gray-500">Loading deposits...</p>
+            ) : deposits.data && deposits.data.length > 0 ? (
+              <ul className="space-y-2">
+                {deposits.data.map((deposit) => (
+                  <li key={deposit.deposit_id} className="text-sm">
+                    <button
+                      type="button"
+                      className="flex w-full items-center justify-between text-left"
+                      onClick={() => setExpandedDepositId(expandedDepositId === deposit.deposit_id ? null : deposit.deposit_id)}
+                    >
+                      <span className="flex items-center">
+                        {expandedDepositId === deposit.deposit_id ? <ChevronDown className="mr-1 h-4 w-4" /> : <ChevronRight className="mr-1 h-4 w-4" />}
+                        <span className="font-medium">${parseFloat(deposit.amount).toFixed(2)}</span>
+                        <span className="ml-2 text-gray-500">{deposit.date}</span>
+                      </span>
+                      <span className={`text-xs ${deposit.fully_allocated ? "text-green-600" : "text-amber-600"}`}>
+                        {deposit.fully_allocated ? "Fully allocated" : "Partially allocated"}
+                      </span>
+                    </button>
+                    {expandedDepositId === deposit.deposit_id && (
+                      <DepositAllocations depositId={deposit.deposit_id} />
+                    )}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">No deposits recorded</p>
+            )}
+          </div>
+        )}
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
+
+interface DepositAllocationsProps {
+  depositId: number;
+}
+
+// Cheque number of a transaction a deposit was applied to, which may since have been paid in full
+function AllocatedCheque({ transactionId }: { transactionId: number }) {
+  const { data: transaction } = useQuery<ChequeTransaction>({
+    queryKey: [`/api/transactions/${transactionId}`],
+  });
+  return <span>Cheque #{transaction?.cheque_number ?? transactionId}</span>;
+}
+
+// Allocation breakdown for a single deposit, with reversal and re-allocation
+function DepositAllocations({ depositId }: DepositAllocationsProps) {
+  const { allocateDeposit, reverseAllocation } = useDeposits();
+  const { data: deposit, isLoading } = useQuery<CustomerDepositWithAllocations>({
+    queryKey: [`/api/deposits/${depositId}`],
+  });
+  
+  if (isLoading || !deposit) {
+    return <p className="ml-5 mt-1 text-xs text-gray-500">Loading allocations...</p>;
+  }
+  
+  return (
+    <div className="ml-5 mt-1 space-y-1 rounded-md bg-gray-50 p-2">
+      {deposit.allocations.length > 0 ? (
+        deposit.allocations.map((allocation) => (
+          <div key={allocation.allocation_id} className="flex items-center justify-between text-xs">
+            <AllocatedCheque transactionId={allocation.transaction_id} />
+            <span className="flex items-center">
+              ${parseFloat(allocation.amount).toFixed(2)}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="ml-1 h-6 w-6"
+                title="Reverse allocation"
+                onClick={() => reverseAllocation.mutate(allocation.allocation_id)}
+                disabled={reverseAllocation.isPending}
+              >
+                <Undo2 className="h-3 w-3" />
+              </Button>
+            </span>
+          </div>
+        ))
+      ) : (
+        <p className="text-xs text-gray-500">Not applied to any transactions</p>
+      )}
+      <div className="flex items-center justify-between border-t pt-1 text-xs">
+        <span className="text-gray-500">Unallocated: ${parseFloat(deposit.unallocated).toFixed(2)}</span>
+        {parseFloat(deposit.unallocated) > 0 && (
+          <Button
+            variant="link"
+            size="sm"
+            className="h-6 px-0 text-xs"
+            onClick={() => allocateDeposit.mutate({ depositId, mode: "auto" })}
+            disabled={allocateDeposit.isPending}
+          >
+            Allocate oldest first
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
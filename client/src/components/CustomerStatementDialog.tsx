@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download, FileText } from "lucide-react";
+import { format, startOfMonth } from "date-fns";
+import useCustomerStatement, { customerStatementUrl } from "@/hooks/useCustomerStatement";
+import type { Customer } from "@shared/schema";
+
+interface CustomerStatementDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  customer: Customer | null;
+}
+
+function formatMoney(value: string): string {
+  const amount = parseFloat(value);
+  return `${amount < 0 ? "-" : ""}$${Math.abs(amount).toFixed(2)}`;
+}
+
+export default function CustomerStatementDialog({ isOpen, onOpenChange, customer }: CustomerStatementDialogProps) {
+  const [startDate, setStartDate] = useState(format(startOfMonth(new Date()), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const period = { start_date: startDate, end_date: endDate };
+  const isValid = !!startDate && !!endDate && startDate <= endDate;
+  const { data: statement, isLoading, isError } = useCustomerStatement(isOpen ? customer?.customer_id : undefined, period);
+
+  const openPdf = (download: boolean) => {
+    if (!customer) return;
+    window.open(customerStatementUrl(customer.customer_id, period, download), "_blank");
+  };
+
+  const figures: [string, string][] = statement ? [
+    ["Opening balance", formatMoney(statement.opening_balance)],
+    ["Cheques", `${statement.totals.cheque_count} for ${formatMoney(statement.totals.cheque_amount)}`],
+    ["Fees", formatMoney(statement.totals.customer_fees)],
+    ["Deposits and payouts", formatMoney(String(parseFloat(statement.totals.deposits) + parseFloat(statement.totals.payouts)))],
+    ["Returned cheques", formatMoney(statement.totals.returns)],
+    ["Closing balance", formatMoney(statement.closing_balance)],
+  ] : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Statement for {customer?.customer_name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="statement-start">From</Label>
+            <Input id="statement-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="statement-end">To</Label>
+            <Input id="statement-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          </div>
+        </div>
+
+        {!isValid ? (
+          <p className="text-sm text-red-500">The end date must not be before the start date</p>
+        ) : isLoading ? (
+          <p className="text-sm text-gray-500">Loading statement...</p>
+        ) : isError ? (
+          <p className="text-sm text-red-500">Failed to load the statement</p>
+        ) : statement && (
+          <div className="space-y-1 rounded-md bg-gray-50 p-3 text-sm">
+            {figures.map(([label, value]) => (
+              <div key={label} className="flex justify-between">
+                <span className="text-gray-500">{label}</span>
+                <span className="font-medium">{value}</span>
+              </div>
+            ))}
+            <p className="pt-1 text-xs text-gray-500">
+              {statement.lines.length} entr{statement.lines.length === 1 ? "y" : "ies"}. A positive balance is owed to the customer.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" disabled={!isValid || !customer} onClick={() => openPdf(true)}>
+            <Download className="mr-1 h-4 w-4" /> Download
+          </Button>
+          <Button disabled={!isValid || !customer} onClick={() => openPdf(false)}>
+            <FileText className="mr-1 h-4 w-4" /> View PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
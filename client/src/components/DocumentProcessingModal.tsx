@@ -4,6 +4,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 
 interface DocumentProcessingModalProps {
@@ -13,6 +14,8 @@ interface DocumentProcessingModalProps {
 
 export default function DocumentProcessingModal({ isOpen, onClose }: DocumentProcessingModalProps) {
   const [file, setFile] = useState<File | null>(null);
+  // Kept with the transaction alongside the front; only the front is read
+  const [backFile, setBackFile] = useState<File | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [extractOptions, setExtractOptions] = useState({
     extractChequeNumber: true,
@@ -103,6 +106,9 @@ export default function DocumentProcessingModal({ isOpen, onClose }: DocumentPro
     try {
       const formData = new FormData();
       formData.append("document", file);
+      if (backFile) {
+        formData.append("back", backFile);
+      }
       
       // Determine which endpoint to use based on the file type
       const isAIChequeProcessingEnabled = true; // Set to true to use AI processing 
@@ -172,6 +178,7 @@ export default function DocumentProcessingModal({ isOpen, onClose }: DocumentPro
 
   const resetForm = () => {
     setFile(null);
+    setBackFile(null);
     setExtractOptions({
       extractChequeNumber: true,
       extractAmount: true,
@@ -240,6 +247,16 @@ export default function DocumentProcessingModal({ isOpen, onClose }: DocumentPro
           )}
         </div>
 
+        <div className="mt-4 space-y-2">
+          <Label htmlFor="back-upload">Back of cheque (optional)</Label>
+          <Input
+            id="back-upload"
+            type="file"
+            accept="image/jpeg,image/png"
+            onChange={(e) => setBackFile(e.target.files?.[0] ?? null)}
+          />
+        </div>
+
         <div className="mt-4">
           <p className="mb-2 text-sm font-medium">Processing Options</p>
           <div className="flex flex-wrap gap-4">
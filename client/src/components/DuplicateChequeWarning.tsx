@@ -0,0 +1,41 @@
+import { AlertTriangle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { format } from "date-fns";
+import { DuplicateChequeMatch } from "@shared/schema";
+
+interface DuplicateChequeWarningProps {
+  duplicates: DuplicateChequeMatch[];
+  onOverride: () => void;
+  onCancel: () => void;
+  isSubmitting?: boolean;
+}
+
+export default function DuplicateChequeWarning({ duplicates, onOverride, onCancel, isSubmitting }: DuplicateChequeWarningProps) {
+  return (
+    <Alert className="border-yellow-300 bg-yellow-50">
+      <AlertTriangle className="h-4 w-4 text-yellow-600" />
+      <AlertTitle>This cheque may already have been entered</AlertTitle>
+      <AlertDescription>
+        <ul className="mt-2 space-y-1 text-sm">
+          {duplicates.map(({ transaction, reasons }) => (
+            <li key={transaction.transaction_id}>
+              <span className="font-medium">Transaction #{transaction.transaction_id}</span>
+              {" "}— cheque #{transaction.cheque_number}, ${parseFloat(transaction.cheque_amount).toFixed(2)}
+              {transaction.date ? `, ${format(new Date(transaction.date), "MMM d, yyyy")}` : ""}
+              <span className="block text-xs text-gray-500">{reasons.join(", ")}</span>
+            </li>
+          ))}
+        </ul>
+        <div className="mt-3 flex justify-end space-x-2">
+          <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+            Go Back
+          </Button>
+          <Button type="button" variant="destructive" size="sm" onClick={onOverride} disabled={isSubmitting}>
+            Create Anyway
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
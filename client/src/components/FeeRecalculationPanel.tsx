@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { format, startOfMonth } from "date-fns";
+import useCustomers from "@/hooks/useCustomers";
+import useVendors from "@/hooks/useVendors";
+import useFeeRecalculation from "@/hooks/useFeeRecalculation";
+import { FeeParty, FeeRecalculationRequest, Customer, Vendor } from "@shared/schema";
+
+function formatMoney(value: string | null): string {
+  return `$${parseFloat(value || "0").toFixed(2)}`;
+}
+
+function impactClass(value: string): string {
+  const amount = parseFloat(value);
+  return amount > 0 ? "text-green-600" : amount < 0 ? "text-red-600" : "text-gray-500";
+}
+
+export default function FeeRecalculationPanel() {
+  const [party, setParty] = useState<FeeParty>("customer");
+  const [partyId, setPartyId] = useState("");
+  const [dateFrom, setDateFrom] = useState(format(startOfMonth(new Date()), "yyyy-MM-dd"));
+  const [dateTo, setDateTo] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [previewedRequest, setPreviewedRequest] = useState<FeeRecalculationRequest | null>(null);
+
+  const { data: customers } = useCustomers();
+  const { data: vendors } = useVendors();
+  const { history, preview, apply } = useFeeRecalculation();
+
+  const customerList = (Array.isArray(customers) ? customers : []) as Customer[];
+  const vendorList = (Array.isArray(vendors) ? vendors : []) as Vendor[];
+
+  const request: FeeRecalculationRequest = { party, party_id: partyId, date_from: dateFrom, date_to: dateTo };
+  const requestChanged = JSON.stringify(request) !== JSON.stringify(previewedRequest);
+
+  const handlePreview = () => {
+    preview.mutate(request, {
+      onSuccess: () => setPreviewedRequest(request)
+    });
+  };
+
+  const handleApply = () => {
+    if (!previewedRequest) return;
+    apply.mutate(previewedRequest, {
+      onSuccess: () => {
+        setPreviewedRequest(null);
+        preview.reset();
+      }
+    });
+  };
+
+  const partyName = (recalculation: { customer_id: number | null; vendor_id: string | null }) =>
+    recalculation.customer_id !== null
+      ? customerList.find(c => c.customer_id === recalculation.customer_id)?.customer_name || `Customer #${recalculation.customer_id}`
+      : vendorList.find(v => v.vendor_id === recalculation.vendor_id)?.vendor_name || recalculation.vendor_id;
+
+  const result = !requestChanged ? preview.data : undefined;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Fee Recalculation</CardTitle>
+          <CardDescription>
+            Recalculate stored fees and profit with the fee rules in force on each transaction's date.
+            Correct the customer's or vendor's fee schedule first, then preview and apply.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+            <div className="space-y-2">
+              <Label>Recalculate For</Label>
+              <Select value={party} onValueChange={(value) => { setParty(value as FeeParty); setPartyId(""); }}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="customer">Customer</SelectItem>
+                  <SelectItem value="vendor">Vendor</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{party === "customer" ? "Customer" : "Vendor"}</Label>
+              <Select value={partyId} onValueChange={setPartyId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={`Select a ${party}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {party === "customer"
+                    ? customerList.map((customer) => (
+                        <SelectItem key={customer.customer_id} value={customer.customer_id.toString()}>
+                          {customer.customer_name}
+                        </SelectItem>
+                      ))
+                    : vendorList.map((vendor) => (
+                        <SelectItem key={vendor.vendor_id} value={vendor.vendor_id}>
+                          {vendor.vendor_name}
+                        </SelectItem>
+                      ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recalculation-from">From</Label>
+              <Input id="recalculation-from" type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recalculation-to">To</Label>
+              <Input id="recalculation-to" type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={handlePreview} disabled={!partyId || !dateFrom || !dateTo || preview.isPending}>
+              {preview.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Preview
+            </Button>
+            <Button onClick={handleApply} disabled={!result || result.changed_count === 0 || apply.isPending}>
+              {apply.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Apply to {result?.changed_count ?? 0} Transaction(s)
+            </Button>
+          </div>
+
+          {result && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-4 rounded-md bg-gray-50 p-4 text-sm md:grid-cols-4">
+                <div>
+                  <span className="text-gray-500">Transactions:</span>
+                  <span className="ml-2 font-medium">{result.transaction_count} ({result.changed_count} changed)</span>
+                </div>
+                <div>
+                  <span className="text-gray-500">Profit Before:</span>
+                  <span className="ml-2 font-medium">{formatMoney(result.profit_before)}</span>
+                </div>
+                <div>
+                  <span className="text-gray-500">Profit After:</span>
+                  <span className="ml-2 font-medium">{formatMoney(result.profit_after)}</span>
+                </div>
+                <div>
+                  <span className="text-gray-500">Profit Impact:</span>
+                  <span className={`ml-2 font-medium ${impactClass(result.profit_impact)}`}>{formatMoney(result.profit_impact)}</span>
+                </div>
+              </div>
+
+              {result.lines.length > 0 ? (
+                <div className="max-h-96 overflow-y-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Transaction</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead className="text-right">Customer Fee</TableHead>
+                        <TableHead className="text-right">Vendor Fee</TableHead>
+                        <TableHead className="text-right">Profit</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.lines.map((line) => (
+                        <TableRow key={line.transaction_id} className={line.changed ? "" : "text-gray-400"}>
+                          <TableCell>#{line.transaction_id} (cheque {line.cheque_number})</TableCell>
+                          <TableCell>{line.date || "—"}</TableCell>
+                          <TableCell className="text-right">{formatMoney(line.cheque_amount)}</TableCell>
+                          <TableCell className="text-right">
+                            {formatMoney(line.before.customer_fee)} → {formatMoney(line.after.customer_fee)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatMoney(line.before.vendor_fee)} → {formatMoney(line.after.vendor_fee)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatMoney(line.before.profit)} → {formatMoney(line.after.profit)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No transactions in this range</p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recalculation History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {history.isLoading ? (
+            <p className="text-sm text-gray-500">Loading recalculations...</p>
+          ) : history.data && history.data.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Applied</TableHead>
+                  <TableHead>For</TableHead>
+                  <TableHead>Range</TableHead>
+                  <TableHead className="text-right">Transactions</TableHead>
+                  <TableHead className="text-right">Profit Impact</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.data.map((recalculation) => {
+                  const impact = (parseFloat(recalculation.profit_after) - parseFloat(recalculation.profit_before)).toFixed(2);
+                  return (
+                    <TableRow key={recalculation.recalculation_id}>
+                      <TableCell>{recalculation.created_at ? format(new Date(recalculation.created_at), "MMM d, yyyy h:mm a") : "—"}</TableCell>
+                      <TableCell>{partyName(recalculation)}</TableCell>
+                      <TableCell>{recalculation.date_from} – {recalculation.date_to}</TableCell>
+                      <TableCell className="text-right">{recalculation.transaction_count}</TableCell>
+                      <TableCell className={`text-right ${impactClass(impact)}`}>{formatMoney(impact)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-gray-500">No fee recalculations yet</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
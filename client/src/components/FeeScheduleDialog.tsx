@@ -0,0 +1,325 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm, useFieldArray } from "react-hook-form";
+import { z } from "zod";
+import { format, addDays } from "date-fns";
+import { Plus, Trash2 } from "lucide-react";
+import useFeeSchedules from "@/hooks/useFeeSchedules";
+import { FeeParty, FeeSchedule } from "@shared/schema";
+import { describeFeeRule } from "@shared/fee-engine";
+
+const amountField = z.string().refine(
+  (val) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0,
+  "Amount must be zero or more"
+);
+
+const scheduleSchema = z.object({
+  fee_percentage: z.string().refine(
+    (val) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0 && parseFloat(val) <= 100,
+    "Fee percentage must be between 0 and 100"
+  ),
+  flat_fee: amountField.or(z.literal("")),
+  min_fee: amountField.or(z.literal("")),
+  bracket_mode: z.enum(["bracket", "tiered"]),
+  brackets: z.array(z.object({
+    up_to: amountField,
+    fee_percentage: z.string().refine(
+      (val) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0 && parseFloat(val) <= 100,
+      "Fee percentage must be between 0 and 100"
+    )
+  })),
+  effective_from: z.string().min(1, "Effective from is required"),
+  effective_to: z.string().optional(),
+  note: z.string().optional()
+}).refine((data) => !data.effective_to || data.effective_to >= data.effective_from, {
+  message: "Effective to must not be before effective from",
+  path: ["effective_to"]
+}).refine((data) => data.brackets.every((b, i) => i === 0 || parseFloat(b.up_to) > parseFloat(data.brackets[i - 1].up_to)), {
+  message: "Bracket limits must increase",
+  path: ["brackets"]
+});
+
+type ScheduleFormValues = z.infer<typeof scheduleSchema>;
+
+interface FeeScheduleDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  party: FeeParty;
+  partyId?: number | string;
+  partyName?: string;
+}
+
+type Period = "past" | "current" | "upcoming";
+
+function periodOf(schedule: FeeSchedule, today: string): Period {
+  if (schedule.effective_from > today) return "upcoming";
+  if (schedule.effective_to !== null && schedule.effective_to < today) return "past";
+  return "current";
+}
+
+const PERIOD_STYLES: Record<Period, string> = {
+  past: "border-gray-200 text-gray-500",
+  current: "border-green-300 bg-green-50",
+  upcoming: "border-blue-300 bg-blue-50"
+};
+
+export default function FeeScheduleDialog({
+  isOpen,
+  onOpenChange,
+  party,
+  partyId,
+  partyName
+}: FeeScheduleDialogProps) {
+  const { schedules, createSchedule, deleteSchedule } = useFeeSchedules(party, partyId);
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const form = useForm<ScheduleFormValues>({
+    resolver: zodResolver(scheduleSchema),
+    defaultValues: {
+      fee_percentage: "",
+      flat_fee: "",
+      min_fee: "",
+      bracket_mode: "bracket",
+      brackets: [],
+      effective_from: format(addDays(new Date(), 1), "yyyy-MM-dd"),
+      effective_to: "",
+      note: ""
+    }
+  });
+
+  const brackets = useFieldArray({ control: form.control, name: "brackets" });
+
+  const handleSubmit = (data: ScheduleFormValues) => {
+    createSchedule.mutate({
+      fee_percentage: data.fee_percentage,
+      flat_fee: data.flat_fee || "0",
+      min_fee: data.min_fee || null,
+      bracket_mode: data.bracket_mode,
+      brackets: data.brackets.length > 0 ? data.brackets : null,
+      effective_from: data.effective_from,
+      effective_to: data.effective_to || null,
+      note: data.note || null
+    }, {
+      onSuccess: () => {
+        form.reset({ ...data, fee_percentage: "", flat_fee: "", min_fee: "", brackets: [], effective_to: "", note: "" });
+      }
+    });
+  };
+
+  // Newest first so upcoming changes are at the top
+  const timeline = [...(schedules.data || [])].sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Fee Schedule{partyName ? ` - ${partyName}` : ""}</DialogTitle>
+        </DialogHeader>
+
+        <div>
+          <h4 className="mb-2 text-sm font-medium text-gray-900">Rate Timeline</h4>
+          {schedules.isLoading ? (
+            <p className="text-sm text-gray-500">Loading fee schedule...</p>
+          ) : timeline.length > 0 ? (
+            <ol className="max-h-64 space-y-2 overflow-y-auto border-l-2 border-gray-200 pl-4">
+              {timeline.map((schedule) => {
+                const period = periodOf(schedule, today);
+                return (
+                  <li key={schedule.schedule_id} className={`flex items-center justify-between rounded-md border p-2 text-sm ${PERIOD_STYLES[period]}`}>
+                    <div>
+                      <span className="font-medium">{describeFeeRule(schedule)}</span>
+                      <span className="block">
+                        {schedule.effective_from} → {schedule.effective_to || "onwards"}
+                      </span>
+                      <span className="ml-2 text-xs uppercase">{period}</span>
+                      {schedule.note && <span className="block text-xs text-gray-500">{schedule.note}</span>}
+                    </div>
+                    {period === "upcoming" && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Remove rate change"
+                        onClick={() => deleteSchedule.mutate(schedule.schedule_id)}
+                        disabled={deleteSchedule.isPending}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          ) : (
+            <p className="text-sm text-gray-500">No fee schedule recorded</p>
+          )}
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4 border-t pt-4">
+            <h4 className="text-sm font-medium text-gray-900">Schedule a Rate Change</h4>
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="fee_percentage"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Fee %</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" step="0.01" min="0" max="100" placeholder="0.00" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="effective_from"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Effective From</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="effective_to"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Effective To</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="flat_fee"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Flat Fee ($)</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" step="0.01" min="0" placeholder="0.00" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="min_fee"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum Fee ($)</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" step="0.01" min="0" placeholder="None" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="bracket_mode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Brackets Apply</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="bracket">To whole amount</SelectItem>
+                        <SelectItem value="tiered">Per tier</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <FormLabel>Amount Brackets</FormLabel>
+                <Button type="button" variant="outline" size="sm" onClick={() => brackets.append({ up_to: "", fee_percentage: "" })}>
+                  <Plus className="mr-1 h-4 w-4" /> Add Bracket
+                </Button>
+              </div>
+              {brackets.fields.map((bracket, index) => (
+                <div key={bracket.id} className="grid grid-cols-[1fr_1fr_auto] items-start gap-2">
+                  <FormField
+                    control={form.control}
+                    name={`brackets.${index}.up_to`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input {...field} type="number" step="0.01" min="0" placeholder="Up to ($)" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`brackets.${index}.fee_percentage`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input {...field} type="number" step="0.01" min="0" max="100" placeholder="Fee %" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="button" variant="ghost" size="icon" title="Remove bracket" onClick={() => brackets.remove(index)}>
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              ))}
+              {form.formState.errors.brackets?.message && (
+                <p className="text-sm font-medium text-destructive">{form.formState.errors.brackets.message}</p>
+              )}
+            </div>
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="Reason for the change (optional)" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <p className="text-xs text-gray-500">
+              Leave "Effective To" empty to keep the rate until the next scheduled change. Amounts above the last bracket use the base Fee %. Fees are calculated with the rule in force on each transaction's date.
+            </p>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Close
+              </Button>
+              <Button type="submit" disabled={createSchedule.isPending || partyId === undefined}>
+                {createSchedule.isPending ? "Scheduling..." : "Schedule Change"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
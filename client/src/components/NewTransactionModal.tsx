@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -10,15 +10,29 @@ import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import useCustomers from "@/hooks/useCustomers";
 import useVendors from "@/hooks/useVendors";
+import useFeePreview from "@/hooks/useFeePreview";
+import useVendorRecommendations from "@/hooks/useVendorRecommendations";
+import { describeFeeRule } from "@shared/fee-engine";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
+import { heldForApproval, sentForApprovalMessage } from "@/hooks/useApprovals";
 import { format } from "date-fns";
+import { CreditLimitCheck, DuplicateChequeMatch } from "@shared/schema";
+import DuplicateChequeWarning from "@/components/DuplicateChequeWarning";
+import CreditLimitWarning from "@/components/CreditLimitWarning";
+import VendorRecommendations from "@/components/VendorRecommendations";
 
 interface NewTransactionModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+// Fee entered in place of the one computed from the fee rule
+const feeOverrideField = z.string().refine(
+  (val) => val === "" || (!isNaN(parseFloat(val)) && parseFloat(val) >= 0),
+  "Fee override must be zero or more"
+).optional();
+
 const transactionSchema = z.object({
   date: z.string(),
   customer_id: z.string().min(1, "Customer is required"),
@@ -28,19 +42,22 @@ const transactionSchema = z.object({
     "Amount must be a positive number"
   ),
   vendor_id: z.string().min(1, "Vendor is required"),
-  status: z.string().default("pending"),
+  drawer_bank: z.string().optional(),
+  customer_fee_override: feeOverrideField,
+  vendor_fee_override: feeOverrideField,
+  fee_override_reason: z.string().optional(),
+}).refine((data) => !(data.customer_fee_override || data.vendor_fee_override) || !!data.fee_override_reason?.trim(), {
+  message: "A reason is required when overriding a fee",
+  path: ["fee_override_reason"]
 });
 
 type TransactionFormValues = z.infer<typeof transactionSchema>;
 
 export default function NewTransactionModal({ isOpen, onClose }: NewTransactionModalProps) {
-  const [previewCalculations, setPreviewCalculations] = useState({
-    customerFee: 0,
-    netPayableToCustomer: 0,
-    vendorFee: 0,
-    amountFromVendor: 0,
-    estimatedProfit: 0,
-  });
+  const [duplicates, setDuplicates] = useState<DuplicateChequeMatch[] | null>(null);
+  const [limitCheck, setLimitCheck] = useState<CreditLimitCheck | null>(null);
+  const [duplicateOverridden, setDuplicateOverridden] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   
   const { toast } = useToast();
   const { data: customers, isLoading: isLoadingCustomers } = useCustomers();
@@ -52,7 +69,10 @@ export default function NewTransactionModal({ isOpen, onClose }: NewTransactionM
     cheque_number: "",
     cheque_amount: "",
     vendor_id: "",
-    status: "pending",
+    drawer_bank: "",
+    customer_fee_override: "",
+    vendor_fee_override: "",
+    fee_override_reason: "",
   };
 
   const form = useForm<TransactionFormValues>({
@@ -60,82 +80,62 @@ export default function NewTransactionModal({ isOpen, onClose }: NewTransactionM
     defaultValues,
   });
 
-  // Setup a subscription to watch form changes
-  useEffect(() => {
-    // Subscribe to form changes
-    const subscription = form.watch((value, { name }) => {
-      // Only recalculate if relevant fields change
-      if (['customer_id', 'vendor_id', 'cheque_amount'].includes(name || '')) {
-        const formValues = form.getValues();
-        const customerId = parseInt(formValues.customer_id || '0');
-        const vendorId = formValues.vendor_id;
-        const chequeAmount = parseFloat(formValues.cheque_amount || '0');
-        
-        if (!customerId || !vendorId || isNaN(chequeAmount) || chequeAmount <= 0) {
-          setPreviewCalculations({
-            customerFee: 0,
-            netPayableToCustomer: 0,
-            vendorFee: 0,
-            amountFromVendor: 0,
-            estimatedProfit: 0,
-          });
-          return;
-        }
-        
-        // Find the customer and vendor
-        const customer = Array.isArray(customers) 
-          ? customers.find(c => c.customer_id === customerId) 
-          : null;
-        const vendor = Array.isArray(vendors)
-          ? vendors.find(v => v.vendor_id === vendorId)
-          : null;
-          
-        if (!customer || !vendor) return;
-        
-        // Calculate fees
-        const customerFeePercentage = parseFloat(customer.fee_percentage?.toString() || '0');
-        const vendorFeePercentage = parseFloat(vendor.fee_percentage?.toString() || '0');
-        
-        const customerFee = chequeAmount * (customerFeePercentage / 100);
-        const netPayableToCustomer = chequeAmount - customerFee;
-        const vendorFee = chequeAmount * (vendorFeePercentage / 100);
-        const amountFromVendor = chequeAmount - vendorFee;
-        const estimatedProfit = customerFee - vendorFee;
-        
-        setPreviewCalculations({
-          customerFee,
-          netPayableToCustomer,
-          vendorFee,
-          amountFromVendor,
-          estimatedProfit,
-        });
-      }
-    });
-    
-    return () => subscription.unsubscribe();
-  }, [form, customers, vendors]);
+  const watchedValues = form.watch();
+  const { rates: feeRates, breakdown } = useFeePreview({
+    customerId: parseInt(watchedValues.customer_id) || undefined,
+    vendorId: watchedValues.vendor_id || undefined,
+    date: watchedValues.date,
+    chequeAmount: watchedValues.cheque_amount,
+    customer_fee_override: watchedValues.customer_fee_override,
+    vendor_fee_override: watchedValues.vendor_fee_override,
+  });
 
-  const onSubmit = async (data: TransactionFormValues) => {
-    try {
-      // Convert form data to match API expectations
-      const apiData = {
-        ...data,
-        customer_id: parseInt(data.customer_id),
-        cheque_amount: data.cheque_amount,
-        date: new Date(data.date),
-      };
+  const { data: recommendations = [] } = useVendorRecommendations({
+    customerId: parseInt(watchedValues.customer_id) || undefined,
+    chequeAmount: watchedValues.cheque_amount,
+    date: watchedValues.date,
+    drawerBank: watchedValues.drawer_bank,
+  });
+
+  const toApiData = (data: TransactionFormValues) => ({
+    ...data,
+    customer_id: parseInt(data.customer_id),
+    cheque_amount: data.cheque_amount,
+    date: new Date(data.date),
+    drawer_bank: data.drawer_bank || null,
+    customer_fee_override: data.customer_fee_override || null,
+    vendor_fee_override: data.vendor_fee_override || null,
+    fee_override_reason: data.fee_override_reason || null,
+  });
 
-      await apiRequest("POST", "/api/transactions", apiData);
+  const handleClose = () => {
+    form.reset(defaultValues);
+    setDuplicates(null);
+    setLimitCheck(null);
+    setDuplicateOverridden(false);
+    onClose();
+  };
+
+  const createTransaction = async (data: TransactionFormValues, overrideDuplicate: boolean, overrideLimits = false) => {
+    try {
+      setIsSubmitting(true);
+      const response = await apiRequest("POST", "/api/transactions", {
+        ...toApiData(data),
+        override_duplicate: overrideDuplicate,
+        override_limits: overrideLimits,
+      });
+      const approval = await heldForApproval(response);
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers/exposure"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vendors/recommendations"] });
       
       toast({
         title: "Success",
-        description: "Transaction created successfully",
+        description: approval ? sentForApprovalMessage(approval) : "Transaction created successfully",
       });
       
-      form.reset(defaultValues);
-      onClose();
+      handleClose();
     } catch (error) {
       console.error("Error creating transaction:", error);
       toast({
@@ -143,17 +143,54 @@ export default function NewTransactionModal({ isOpen, onClose }: NewTransactionM
         description: "Failed to create transaction",
         variant: "destructive",
       });
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
+  const checkLimitsAndCreate = async (data: TransactionFormValues, overrideDuplicate: boolean) => {
+    try {
+      // See whether the cheque would take the customer over a limit
+      const response = await apiRequest("POST", "/api/transactions/credit-check", toApiData(data));
+      const check: CreditLimitCheck = await response.json();
+      
+      if (check.breaches.length > 0) {
+        setDuplicateOverridden(overrideDuplicate);
+        setLimitCheck(check);
+        return;
+      }
+    } catch (error) {
+      console.error("Error checking credit limits:", error);
+    }
+    
+    // Without a warning the server still refuses cheques over a limit
+    await createTransaction(data, overrideDuplicate);
+  };
+
+  const onSubmit = async (data: TransactionFormValues) => {
+    try {
+      // Look for the same cheque before creating it
+      const response = await apiRequest("POST", "/api/transactions/duplicates", toApiData(data));
+      const matches: DuplicateChequeMatch[] = await response.json();
+      
+      if (matches.length > 0) {
+        setDuplicates(matches);
+        return;
+      }
+    } catch (error) {
+      console.error("Error checking for duplicate cheques:", error);
+    }
+    
+    await checkLimitsAndCreate(data, false);
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={(open) => {
       if (!open) {
-        form.reset(defaultValues);
-        onClose();
+        handleClose();
       }
     }}>
-      <DialogContent className="sm:max-w-2xl">
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
         <DialogHeader>
           <DialogTitle>New Transaction</DialogTitle>
         </DialogHeader>
@@ -250,7 +287,7 @@ export default function NewTransactionModal({ isOpen, onClose }: NewTransactionM
                     <FormLabel>Vendor</FormLabel>
                     <Select
                       onValueChange={field.onChange}
-                      defaultValue={field.value}
+                      value={field.value}
                     >
                       <FormControl>
                         <SelectTrigger>
@@ -278,62 +315,126 @@ export default function NewTransactionModal({ isOpen, onClose }: NewTransactionM
               
               <FormField
                 control={form.control}
-                name="status"
+                name="drawer_bank"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Status</FormLabel>
-                    <Select
-                      onValueChange={field.onChange}
-                      defaultValue={field.value}
-                    >
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select status" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        <SelectItem value="pending">Pending</SelectItem>
-                        <SelectItem value="completed">Completed</SelectItem>
-                        <SelectItem value="bounced">Bounced</SelectItem>
-                      </SelectContent>
-                    </Select>
+                    <FormLabel>Drawer Bank</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Bank the cheque is drawn on (optional)" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+              <FormField
+                control={form.control}
+                name="customer_fee_override"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Customer Fee Override</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" placeholder="Use fee rule" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={form.control}
+                name="vendor_fee_override"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vendor Fee Override</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" placeholder="Use fee rule" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={form.control}
+                name="fee_override_reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Override Reason</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Required when overriding a fee" {...field} />
+                    </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
             </div>
             
+            <VendorRecommendations
+              recommendations={recommendations}
+              selectedVendorId={watchedValues.vendor_id}
+              onSelect={(vendorId) => form.setValue("vendor_id", vendorId, { shouldValidate: true })}
+            />
+            
             <div className="rounded-md bg-gray-50 p-4">
               <h4 className="font-medium">Fee Calculation Preview</h4>
+              {feeRates.data && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Customer rule: {describeFeeRule(feeRates.data.customer_rule)} · Vendor rule: {describeFeeRule(feeRates.data.vendor_rule)}
+                </p>
+              )}
               <div className="mt-3 grid grid-cols-2 gap-4 text-sm">
                 <div>
                   <span className="text-gray-500">Customer Fee:</span>
-                  <span className="ml-2 font-medium">${previewCalculations.customerFee.toFixed(2)}</span>
+                  <span className="ml-2 font-medium">${breakdown?.customer_fee ?? "0.00"}{breakdown?.customer_fee_source === "override" && " (override)"}</span>
                 </div>
                 <div>
                   <span className="text-gray-500">Net Payable to Customer:</span>
-                  <span className="ml-2 font-medium">${previewCalculations.netPayableToCustomer.toFixed(2)}</span>
+                  <span className="ml-2 font-medium">${breakdown?.net_payable_to_customer ?? "0.00"}</span>
                 </div>
                 <div>
                   <span className="text-gray-500">Vendor Fee:</span>
-                  <span className="ml-2 font-medium">${previewCalculations.vendorFee.toFixed(2)}</span>
+                  <span className="ml-2 font-medium">${breakdown?.vendor_fee ?? "0.00"}{breakdown?.vendor_fee_source === "override" && " (override)"}</span>
                 </div>
                 <div>
                   <span className="text-gray-500">Amount from Vendor:</span>
-                  <span className="ml-2 font-medium">${previewCalculations.amountFromVendor.toFixed(2)}</span>
+                  <span className="ml-2 font-medium">${breakdown?.amount_to_receive_from_vendor ?? "0.00"}</span>
                 </div>
                 <div>
                   <span className="text-gray-500">Estimated Profit:</span>
-                  <span className="ml-2 font-medium text-green-600">${previewCalculations.estimatedProfit.toFixed(2)}</span>
+                  <span className="ml-2 font-medium text-green-600">${breakdown?.profit ?? "0.00"}</span>
                 </div>
               </div>
             </div>
             
+            {duplicates && duplicates.length > 0 && (
+              <DuplicateChequeWarning
+                duplicates={duplicates}
+                isSubmitting={isSubmitting}
+                onCancel={() => setDuplicates(null)}
+                onOverride={() => {
+                  setDuplicates(null);
+                  checkLimitsAndCreate(form.getValues(), true);
+                }}
+              />
+            )}
+            
+            {limitCheck && (
+              <CreditLimitWarning
+                check={limitCheck}
+                isSubmitting={isSubmitting}
+                onCancel={() => setLimitCheck(null)}
+                onOverride={() => createTransaction(form.getValues(), duplicateOverridden, true)}
+              />
+            )}
+            
             <DialogFooter>
-              <Button type="button" variant="outline" onClick={onClose}>
+              <Button type="button" variant="outline" onClick={handleClose}>
                 Cancel
               </Button>
-              <Button type="submit">
+              <Button type="submit" disabled={isSubmitting || !!duplicates || !!limitCheck}>
                 Create Transaction
               </Button>
             </DialogFooter>
@@ -0,0 +1,185 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ChequeTransaction } from "@shared/schema";
+
+const RETURN_REASONS = [
+  "Insufficient funds",
+  "Stop payment",
+  "Account closed",
+  "Signature irregular",
+  "Stale dated",
+  "Other",
+];
+
+const returnSchema = z.object({
+  reason: z.string().min(1, "Return reason is required"),
+  details: z.string().optional(),
+  return_date: z.string().min(1, "Return date is required"),
+  chargeback_fee: z.string().refine(
+    (val) => val === "" || (!isNaN(parseFloat(val)) && parseFloat(val) >= 0),
+    "Chargeback fee must be zero or more"
+  ),
+}).refine(data => data.reason !== "Other" || !!data.details, {
+  message: "Describe the return reason",
+  path: ["details"],
+});
+
+type ReturnFormValues = z.infer<typeof returnSchema>;
+
+interface ReturnChequeDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  transaction: ChequeTransaction;
+}
+
+export default function ReturnChequeDialog({ isOpen, onOpenChange, transaction }: ReturnChequeDialogProps) {
+  const { toast } = useToast();
+  
+  const form = useForm<ReturnFormValues>({
+    resolver: zodResolver(returnSchema),
+    defaultValues: {
+      reason: "",
+      details: "",
+      return_date: format(new Date(), "yyyy-MM-dd"),
+      chargeback_fee: "",
+    },
+  });
+  
+  const reason = form.watch("reason");
+  const paidOut = parseFloat(transaction.paid_to_customer || "0");
+  
+  const returnCheque = useMutation({
+    mutationFn: async (data: ReturnFormValues) => {
+      const response = await apiRequest("POST", `/api/transactions/${transaction.transaction_id}/return`, {
+        reason: data.reason === "Other" ? data.details : data.details ? `${data.reason}: ${data.details}` : data.reason,
+        return_date: data.return_date,
+        chargeback_fee: data.chargeback_fee || "0",
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/transactions/${transaction.transaction_id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/customer-return-counts"] });
+      
+      toast({
+        title: "Cheque returned",
+        description: `Cheque #${transaction.cheque_number} has been marked as returned`,
+      });
+      
+      form.reset();
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to return cheque",
+      });
+    },
+  });
+  
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Return Cheque #{transaction.cheque_number}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => returnCheque.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Return Reason</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a reason" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {RETURN_REASONS.map((option) => (
+                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="details"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{reason === "Other" ? "Reason" : "Details (optional)"}</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="return_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Return Date</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="chargeback_fee"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Bank Chargeback</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" step="0.01" min="0" placeholder="0.00" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="rounded-md bg-red-50 p-3 text-sm text-red-800">
+              <p>The vendor receivable and fees on this cheque will be reversed.</p>
+              {paidOut > 0 && (
+                <p className="mt-1">
+                  ${paidOut.toFixed(2)} already paid out will be owed back by the customer, plus any chargeback.
+                </p>
+              )}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={returnCheque.isPending}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="destructive" disabled={returnCheque.isPending}>
+                {returnCheque.isPending ? "Returning..." : "Return Cheque"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
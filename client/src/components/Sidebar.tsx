@@ -1,4 +1,4 @@
-import { Home, Users, Building, Settings, FileText, BarChart4, User } from "lucide-react";
+import { Home, Users, Building, Settings, FileText, BarChart4, User, Landmark, ShieldCheck } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 
@@ -11,6 +11,8 @@ export default function Sidebar() {
     { name: "Customers", icon: Users, path: "/customers" },
     { name: "Vendors", icon: Building, path: "/vendors" },
     { name: "Reports", icon: BarChart4, path: "/reports" },
+    { name: "Reconciliation", icon: Landmark, path: "/reconciliation" },
+    { name: "Approvals", icon: ShieldCheck, path: "/approvals" },
     { name: "Documents", icon: FileText, path: "/documents" },
     { name: "Settings", icon: Settings, path: "/settings" },
   ];
@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { Download, FileText, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import useTransactionAttachments, { attachmentUrl } from "@/hooks/useTransactionAttachments";
+import { type AttachmentKind, type TransactionAttachment } from "@shared/schema";
+
+const KIND_LABELS: Record<AttachmentKind, string> = {
+  front: "Front",
+  back: "Back",
+  document: "Document",
+};
+
+function Thumbnail({ attachment, className }: { attachment: TransactionAttachment; className: string }) {
+  return (
+    <a
+      href={attachmentUrl(attachment)}
+      target="_blank"
+      rel="noreferrer"
+      title={`${KIND_LABELS[attachment.kind]}: ${attachment.file_name}`}
+      className={`flex items-center justify-center overflow-hidden rounded border border-gray-200 bg-gray-50 ${className}`}
+    >
+      {attachment.content_type.startsWith("image/") ? (
+        <img src={attachmentUrl(attachment, { thumbnail: true })} alt={attachment.file_name} className="h-full w-full object-cover" />
+      ) : (
+        <FileText className="h-5 w-5 text-gray-400" />
+      )}
+    </a>
+  );
+}
+
+interface TransactionAttachmentsProps {
+  transactionId: number;
+  // A row of small thumbnails for list cards instead of the full panel
+  compact?: boolean;
+  editable?: boolean;
+}
+
+export default function TransactionAttachments({ transactionId, compact = false, editable = false }: TransactionAttachmentsProps) {
+  const [kind, setKind] = useState<AttachmentKind>("front");
+  const { attachments, upload, remove } = useTransactionAttachments(transactionId);
+  const items = attachments.data ?? [];
+
+  if (compact) {
+    if (items.length === 0) return null;
+    return (
+      <div className="mt-2 flex space-x-1">
+        {items.map((attachment) => (
+          <Thumbnail key={attachment.attachment_id} attachment={attachment} className="h-10 w-16" />
+        ))}
+      </div>
+    );
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    upload.mutate({ file, kind: file.type === "application/pdf" ? "document" : kind });
+    e.target.value = "";
+  };
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <h4 className="font-medium">Cheque Images</h4>
+
+      {attachments.isLoading ? (
+        <p className="text-sm text-gray-500">Loading attachments...</p>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-gray-500">No cheque images attached</p>
+      ) : (
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-3">
+          {items.map((attachment) => (
+            <div key={attachment.attachment_id} className="space-y-1">
+              <Thumbnail attachment={attachment} className="h-28 w-full" />
+              <div className="flex items-center justify-between text-xs">
+                <span className="truncate text-gray-600">{KIND_LABELS[attachment.kind]}</span>
+                <div className="flex">
+                  <Button variant="ghost" size="icon" className="h-6 w-6" asChild>
+                    <a href={attachmentUrl(attachment, { download: true })} title="Download">
+                      <Download className="h-3 w-3" />
+                    </a>
+                  </Button>
+                  {editable && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 text-red-500"
+                      title="Remove"
+                      disabled={remove.isPending}
+                      onClick={() => remove.mutate(attachment.attachment_id)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editable && (
+        <div className="flex items-center space-x-2">
+          <Select value={kind} onValueChange={(value) => setKind(value as AttachmentKind)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="front">Front</SelectItem>
+              <SelectItem value="back">Back</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type="file"
+            accept="image/jpeg,image/png,image/tiff,image/webp,application/pdf"
+            onChange={handleFileChange}
+            disabled={upload.isPending}
+          />
+          {upload.isPending && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+        </div>
+      )}
+    </div>
+  );
+}
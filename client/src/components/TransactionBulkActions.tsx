@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { Download, Loader2, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import useBulkTransactions from "@/hooks/useBulkTransactions";
+import useVendors from "@/hooks/useVendors";
+import { type BulkTransactionAction, type BulkTransactionResult, type Vendor } from "@shared/schema";
+import { TRANSACTION_STATUSES, TRANSACTION_STATUS_LABELS } from "@shared/transaction-status";
+
+// Returns are recorded one cheque at a time through the return dialog
+const BULK_STATUSES = TRANSACTION_STATUSES.filter((status) => status !== "returned");
+
+const ACTION_LABELS: Record<BulkTransactionAction["action"], string> = {
+  set_status: "Status change",
+  record_vendor_receipt: "Vendor receipt",
+  reassign_vendor: "Vendor reassignment",
+  delete: "Delete",
+};
+
+interface TransactionBulkActionsProps {
+  selectedIds: number[];
+  onClearSelection: () => void;
+  // Called with the ids that were changed so they can be deselected
+  onApplied: (succeeded: number[]) => void;
+}
+
+export default function TransactionBulkActions({ selectedIds, onClearSelection, onApplied }: TransactionBulkActionsProps) {
+  // Kept after the selection is cleared so the failures stay visible
+  const [lastResult, setLastResult] = useState<BulkTransactionResult | null>(null);
+  const { bulk, exportCsv } = useBulkTransactions();
+  const { data: vendors } = useVendors();
+
+  const apply = (request: BulkTransactionAction) => {
+    setLastResult(null);
+    bulk.mutate(request, {
+      onSuccess: (result) => {
+        setLastResult(result);
+        onApplied(result.succeeded);
+      },
+    });
+  };
+
+  const busy = bulk.isPending || exportCsv.isPending;
+  const hasFailures = lastResult !== null && lastResult.failed.length > 0;
+
+  if (selectedIds.length === 0 && !hasFailures) {
+    return null;
+  }
+
+  return (
+    <div className="border-b border-gray-200 bg-blue-50 px-4 py-2">
+      {selectedIds.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium">{selectedIds.length} selected</span>
+          <Select
+            value=""
+            onValueChange={(status) => apply({ action: "set_status", transaction_ids: selectedIds, status } as BulkTransactionAction)}
+            disabled={busy}
+          >
+            <SelectTrigger className="h-8 w-36 bg-white">
+              <SelectValue placeholder="Set status" />
+            </SelectTrigger>
+            <SelectContent>
+              {BULK_STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {TRANSACTION_STATUS_LABELS[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value=""
+            onValueChange={(vendorId) => apply({ action: "reassign_vendor", transaction_ids: selectedIds, vendor_id: vendorId })}
+            disabled={busy}
+          >
+            <SelectTrigger className="h-8 w-40 bg-white">
+              <SelectValue placeholder="Reassign vendor" />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.isArray(vendors) &&
+                vendors.map((vendor: Vendor) => (
+                  <SelectItem key={vendor.vendor_id} value={vendor.vendor_id}>
+                    {vendor.vendor_name}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            className="bg-white"
+            disabled={busy}
+            onClick={() => apply({ action: "record_vendor_receipt", transaction_ids: selectedIds })}
+          >
+            Record Vendor Receipt
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="bg-white"
+            disabled={busy}
+            onClick={() => exportCsv.mutate(selectedIds)}
+          >
+            <Download className="mr-1 h-4 w-4" />
+            Export
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="bg-white text-red-500"
+            disabled={busy}
+            onClick={() => apply({ action: "delete", transaction_ids: selectedIds })}
+          >
+            <Trash2 className="mr-1 h-4 w-4" />
+            Delete
+          </Button>
+          {busy && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+          <Button variant="ghost" size="sm" onClick={onClearSelection} disabled={busy}>
+            Clear
+          </Button>
+        </div>
+      )}
+
+      {lastResult && hasFailures && (
+        <div className="mt-2 rounded-md border border-red-200 bg-white p-2 text-xs">
+          <div className="mb-1 flex items-center justify-between">
+            <span className="font-medium text-red-600">
+              {ACTION_LABELS[lastResult.action]} failed for {lastResult.failed.length} transaction(s)
+            </span>
+            <Button variant="ghost" size="icon" className="h-5 w-5" onClick={() => setLastResult(null)}>
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+          <ul className="space-y-0.5 text-gray-600">
+            {lastResult.failed.map(({ transaction_id, error }) => (
+              <li key={transaction_id}>
+                Transaction #{transaction_id}: {error}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
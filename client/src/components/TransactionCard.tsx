@@ -1,27 +1,43 @@
 import { useState } from "react";
 import { Edit, File, MoreVertical, Printer } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import type { TransactionWithDetails } from "@shared/schema";
+import { TRANSACTION_STATUS_LABELS, canTransition, isTransactionStatus, type TransactionStatus } from "@shared/transaction-status";
 import { format } from "date-fns";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
+import { heldForApproval, sentForApprovalMessage } from "@/hooks/useApprovals";
 import { useLocation } from "wouter";
+import ReturnChequeDialog from "@/components/ReturnChequeDialog";
+import TransactionAttachments from "@/components/TransactionAttachments";
+import TransactionTags, { TagBadge } from "@/components/TransactionTags";
+import TransactionComments from "@/components/TransactionComments";
 
-// Extend the TransactionWithDetails type to include status
-interface EnhancedTransaction extends TransactionWithDetails {
-  status?: string;
-}
+const STATUS_BADGE_CLASSES: Record<TransactionStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  deposited: 'bg-blue-100 text-blue-800',
+  cleared: 'bg-indigo-100 text-indigo-800',
+  paid_out: 'bg-purple-100 text-purple-800',
+  settled: 'bg-green-100 text-green-800',
+  returned: 'bg-red-100 text-red-800',
+  void: 'bg-gray-100 text-gray-600'
+};
 
 interface TransactionCardProps {
-  transaction: EnhancedTransaction;
+  transaction: TransactionWithDetails;
+  selected?: boolean;
+  // Shows a checkbox for picking the card for bulk actions
+  onSelectedChange?: (selected: boolean) => void;
 }
 
-export default function TransactionCard({ transaction }: TransactionCardProps) {
+export default function TransactionCard({ transaction, selected = false, onSelectedChange }: TransactionCardProps) {
   const [showDetailsModal, setShowDetailsModal] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showReturnDialog, setShowReturnDialog] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const { toast } = useToast();
   const [, navigate] = useLocation();
@@ -93,7 +109,8 @@ export default function TransactionCard({ transaction }: TransactionCardProps) {
   const handleDelete = async () => {
     try {
       setIsDeleting(true);
-      await apiRequest("DELETE", `/api/transactions/${transaction.transaction_id}`);
+      const response = await apiRequest("DELETE", `/api/transactions/${transaction.transaction_id}`);
+      const approval = await heldForApproval(response);
       
       // Invalidate queries to refresh the data
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
@@ -101,7 +118,7 @@ export default function TransactionCard({ transaction }: TransactionCardProps) {
       
       toast({
         title: "Success",
-        description: "Transaction deleted successfully",
+        description: approval ? sentForApprovalMessage(approval) : "Transaction deleted successfully",
       });
       
       setShowDeleteConfirm(false);
@@ -118,22 +135,26 @@ export default function TransactionCard({ transaction }: TransactionCardProps) {
   };
 
   return (
-    <div className="bg-white p-4 hover:bg-gray-50">
+    <div className={`p-4 hover:bg-gray-50 ${selected ? "bg-blue-50" : "bg-white"}`}>
       <div className="flex items-start justify-between">
         <div className="flex items-start space-x-3">
+          {onSelectedChange && (
+            <Checkbox
+              className="mt-3"
+              checked={selected}
+              onCheckedChange={(value) => onSelectedChange(value === true)}
+              aria-label={`Select cheque #${transaction.cheque_number}`}
+            />
+          )}
           <div className="flex h-10 w-10 items-center justify-center rounded-full bg-blue-100 text-primary">
             <File className="h-5 w-5" />
           </div>
           <div>
             <div className="flex items-center">
               <p className="font-medium">{transaction.customer?.customer_name || `Customer #${transaction.customer_id}`}</p>
-              {transaction.status && (
-                <span className={`ml-2 rounded-full px-2 py-0.5 text-xs ${
-                  transaction.status === 'completed' ? 'bg-green-100 text-green-800' :
-                  transaction.status === 'bounced' ? 'bg-red-100 text-red-800' :
-                  'bg-yellow-100 text-yellow-800'
-                }`}>
-                  {transaction.status.charAt(0).toUpperCase() + transaction.status.slice(1)}
+              {isTransactionStatus(transaction.status) && (
+                <span className={`ml-2 rounded-full px-2 py-0.5 text-xs ${STATUS_BADGE_CLASSES[transaction.status]}`}>
+                  {TRANSACTION_STATUS_LABELS[transaction.status]}
                 </span>
               )}
             </div>
@@ -148,6 +169,14 @@ export default function TransactionCard({ transaction }: TransactionCardProps) {
                 Vendor: {transaction.vendor?.vendor_name || transaction.vendor_id}
               </span>
             </div>
+            {transaction.tags && transaction.tags.length > 0 && (
+              <div className="mt-1 flex flex-wrap gap-1">
+                {transaction.tags.map((tag) => (
+                  <TagBadge key={tag.tag_id} tag={tag} />
+                ))}
+              </div>
+            )}
+            <TransactionAttachments transactionId={transaction.transaction_id} compact />
           </div>
         </div>
         <div className="text-right">
@@ -183,6 +212,9 @@ export default function TransactionCard({ transaction }: TransactionCardProps) {
             <DropdownMenuContent align="end">
               <DropdownMenuItem onClick={handleViewDetails}>View Details</DropdownMenuItem>
               <DropdownMenuItem onClick={handlePrint}>Print</DropdownMenuItem>
+              {canTransition(transaction.status, 'returned') && (
+                <DropdownMenuItem onClick={() => setShowReturnDialog(true)}>Return Cheque</DropdownMenuItem>
+              )}
               <DropdownMenuItem 
                 onClick={() => setShowDeleteConfirm(true)} 
                 className="text-red-500"
@@ -196,7 +228,7 @@ export default function TransactionCard({ transaction }: TransactionCardProps) {
 
       {/* Transaction Details Modal */}
       <Dialog open={showDetailsModal} onOpenChange={setShowDetailsModal}>
-        <DialogContent className="sm:max-w-md">
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-md">
           <DialogHeader>
             <DialogTitle>Transaction Details</DialogTitle>
           </DialogHeader>
@@ -235,6 +267,9 @@ export default function TransactionCard({ transaction }: TransactionCardProps) {
                 <p className="font-medium text-green-600">${parseFloat(transaction.profit?.toString() || "0").toFixed(2)}</p>
               </div>
             </div>
+            <TransactionTags transactionId={transaction.transaction_id} editable />
+            <TransactionAttachments transactionId={transaction.transaction_id} />
+            <TransactionComments transactionId={transaction.transaction_id} />
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowDetailsModal(false)}>
@@ -247,6 +282,13 @@ export default function TransactionCard({ transaction }: TransactionCardProps) {
         </DialogContent>
       </Dialog>
 
+      {/* Return Cheque Modal */}
+      <ReturnChequeDialog
+        isOpen={showReturnDialog}
+        onOpenChange={setShowReturnDialog}
+        transaction={transaction}
+      />
+
       {/* Delete Confirmation Modal */}
       <Dialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
         <DialogContent className="sm:max-w-md">
@@ -256,7 +298,7 @@ export default function TransactionCard({ transaction }: TransactionCardProps) {
           <div className="space-y-4">
             <p>Are you sure you want to delete this transaction?</p>
             <p className="font-medium">Cheque #{transaction.cheque_number} - ${parseFloat(transaction.cheque_amount?.toString() || "0").toFixed(2)}</p>
-            <p className="text-gray-500 text-sm">This action cannot be undone.</p>
+            <p className="text-gray-500 text-sm">It will be moved to the trash, where it can be restored from Settings.</p>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowDeleteConfirm(false)} disabled={isDeleting}>
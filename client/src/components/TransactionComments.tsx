@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
+import useTransactionComments from "@/hooks/useTransactionComments";
+import { type AuditChannel } from "@shared/schema";
+
+const CHANNEL_LABELS: Record<AuditChannel, string> = {
+  web: "",
+  ai: " via AI assistant",
+  telegram: " via Telegram",
+};
+
+interface TransactionCommentsProps {
+  transactionId: number;
+}
+
+export default function TransactionComments({ transactionId }: TransactionCommentsProps) {
+  const [body, setBody] = useState("");
+  const { user } = useAuth();
+  const { comments, addComment, removeComment } = useTransactionComments(transactionId);
+  const isAdmin = user?.role === "superuser" || user?.role === "admin";
+
+  const handleAdd = () => {
+    if (!body.trim()) return;
+    addComment.mutate(body.trim(), {
+      onSuccess: () => setBody(""),
+    });
+  };
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <h4 className="font-medium">Notes</h4>
+
+      {comments.isLoading ? (
+        <p className="text-sm text-gray-500">Loading notes...</p>
+      ) : !comments.data || comments.data.length === 0 ? (
+        <p className="text-sm text-gray-500">No notes yet</p>
+      ) : (
+        <ul className="space-y-3">
+          {comments.data.map((comment) => (
+            <li key={comment.comment_id} className="text-sm">
+              <div className="flex items-center justify-between text-xs text-gray-500">
+                <span>
+                  <span className="font-medium text-gray-700">{comment.username || "System"}</span>
+                  {CHANNEL_LABELS[comment.channel]}
+                  {comment.created_at && ` · ${format(new Date(comment.created_at), "MMM d, yyyy HH:mm")}`}
+                </span>
+                {(isAdmin || comment.user_id === user?.user_id) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 text-red-500"
+                    title="Delete note"
+                    disabled={removeComment.isPending}
+                    onClick={() => removeComment.mutate(comment.comment_id)}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+              <p className="whitespace-pre-wrap">{comment.body}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2">
+        <Textarea
+          value={body}
+          maxLength={2000}
+          rows={2}
+          placeholder="Add a note, e.g. customer asked to hold payout"
+          onChange={(e) => setBody(e.target.value)}
+        />
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleAdd} disabled={!body.trim() || addComment.isPending}>
+            {addComment.isPending ? "Adding..." : "Add Note"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { type TransactionSearchFilters } from "@/hooks/useTransactionSearch";
+import useTags from "@/hooks/useTags";
+import { TRANSACTION_STATUSES, TRANSACTION_STATUS_LABELS } from "@shared/transaction-status";
+
+// Sort orders offered in the list, as sent to the server
+export const SORT_OPTIONS = [
+  { value: "date:desc", label: "Newest first" },
+  { value: "date:asc", label: "Oldest first" },
+  { value: "cheque_amount:desc", label: "Largest amount" },
+  { value: "cheque_amount:asc", label: "Smallest amount" },
+  { value: "customer_name:asc,date:desc", label: "Customer A–Z" },
+  { value: "vendor_name:asc,date:desc", label: "Vendor A–Z" },
+  { value: "cheque_number:asc", label: "Cheque number" },
+  { value: "profit:desc", label: "Most profit" },
+];
+
+// Select items can't have an empty value
+const ALL_STATUSES = "__all__";
+const ALL_TAGS = "__all__";
+
+interface TransactionFiltersProps {
+  filters: TransactionSearchFilters;
+  onChange: (filters: TransactionSearchFilters) => void;
+}
+
+export default function TransactionFilters({ filters, onChange }: TransactionFiltersProps) {
+  const { tags } = useTags();
+  const update = (changes: TransactionSearchFilters) => onChange({ ...filters, ...changes });
+
+  return (
+    <div className="grid grid-cols-2 gap-3 border-b border-gray-200 bg-gray-50 px-4 py-3 text-sm md:grid-cols-4">
+      <div className="space-y-1">
+        <Label className="text-xs">Sort</Label>
+        <Select value={filters.sort ?? SORT_OPTIONS[0].value} onValueChange={(sort) => update({ sort })}>
+          <SelectTrigger className="h-8 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SORT_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">Status</Label>
+        <Select
+          value={filters.status?.[0] ?? ALL_STATUSES}
+          onValueChange={(status) => update({ status: status === ALL_STATUSES ? undefined : [status] })}
+        >
+          <SelectTrigger className="h-8 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_STATUSES}>All statuses</SelectItem>
+            {TRANSACTION_STATUSES.map((status) => (
+              <SelectItem key={status} value={status}>
+                {TRANSACTION_STATUS_LABELS[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">Tag</Label>
+        <Select
+          value={filters.tag_ids?.[0]?.toString() ?? ALL_TAGS}
+          onValueChange={(tagId) => update({ tag_ids: tagId === ALL_TAGS ? undefined : [parseInt(tagId)] })}
+        >
+          <SelectTrigger className="h-8 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_TAGS}>All tags</SelectItem>
+            {(tags.data ?? []).map((tag) => (
+              <SelectItem key={tag.tag_id} value={tag.tag_id.toString()}>
+                {tag.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">From</Label>
+        <Input
+          type="date"
+          className="h-8 bg-white"
+          value={filters.date_from ?? ""}
+          onChange={(e) => update({ date_from: e.target.value || undefined })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">To</Label>
+        <Input
+          type="date"
+          className="h-8 bg-white"
+          value={filters.date_to ?? ""}
+          onChange={(e) => update({ date_to: e.target.value || undefined })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">Min Amount</Label>
+        <Input
+          type="number"
+          min="0"
+          step="0.01"
+          className="h-8 bg-white"
+          value={filters.min_amount ?? ""}
+          onChange={(e) => update({ min_amount: e.target.value || undefined })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">Max Amount</Label>
+        <Input
+          type="number"
+          min="0"
+          step="0.01"
+          className="h-8 bg-white"
+          value={filters.max_amount ?? ""}
+          onChange={(e) => update({ max_amount: e.target.value || undefined })}
+        />
+      </div>
+      <div className="flex flex-col justify-end space-y-1">
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="outstanding-customer"
+            checked={filters.outstanding_customer ?? false}
+            onCheckedChange={(value) => update({ outstanding_customer: value === true })}
+          />
+          <Label htmlFor="outstanding-customer" className="text-xs">Owed to customer</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="outstanding-vendor"
+            checked={filters.outstanding_vendor ?? false}
+            onCheckedChange={(value) => update({ outstanding_vendor: value === true })}
+          />
+          <Label htmlFor="outstanding-vendor" className="text-xs">Due from vendor</Label>
+        </div>
+      </div>
+      <div className="flex items-end">
+        <Button variant="ghost" size="sm" onClick={() => onChange({})}>
+          Reset Filters
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, Loader2 } from "lucide-react";
+import useTransactionImport from "@/hooks/useTransactionImport";
+import {
+  TRANSACTION_IMPORT_FIELDS,
+  TransactionImportField,
+  TransactionImportMapping,
+  TransactionImportPreview,
+  TransactionImportRow,
+} from "@shared/schema";
+
+const FIELD_LABELS: Record<TransactionImportField, string> = {
+  date: "Date",
+  customer: "Customer (name or ID)",
+  vendor: "Vendor (name or ID)",
+  cheque_number: "Cheque Number",
+  cheque_amount: "Cheque Amount",
+  drawer_bank: "Drawer Bank",
+  status: "Status",
+  customer_fee_override: "Customer Fee Override",
+  vendor_fee_override: "Vendor Fee Override",
+  fee_override_reason: "Fee Override Reason",
+};
+
+// Select items can't have an empty value
+const NOT_MAPPED = "__none__";
+
+function isDuplicate(row: TransactionImportRow): boolean {
+  return row.duplicates.length > 0 || row.duplicate_of_row !== null;
+}
+
+// Why a row won't be imported as it stands
+function rowProblems(row: TransactionImportRow): string[] {
+  const problems = [...row.errors];
+  if (row.duplicate_of_row !== null) {
+    problems.push(`Possible duplicate of row ${row.duplicate_of_row}`);
+  }
+  for (const { transaction, reasons } of row.duplicates) {
+    problems.push(`Possible duplicate of transaction #${transaction.transaction_id} (${reasons.join(", ")})`);
+  }
+  for (const breach of row.limit_breaches) {
+    const limit = breach.limit === "credit" ? "credit limit" : "daily limit";
+    problems.push(`Over the customer's ${limit} of $${breach.limit_amount} ($${breach.projected} with this row)`);
+  }
+  return problems;
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Download the rows that weren't (or won't be) imported with what is wrong with each
+function downloadErrorReport(headers: string[], rows: TransactionImportRow[]) {
+  const lines = [
+    ["Row", ...headers, "Problems"],
+    ...rows.map((row) => [row.row_number, ...headers.map((header) => row.values[header] ?? ""), rowProblems(row).join("; ")]),
+  ].map((line) => line.map(csvField).join(","));
+
+  const blob = new Blob([lines.join("\r\n")], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "import-errors.csv";
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+interface TransactionImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function TransactionImportWizard({ isOpen, onClose }: TransactionImportWizardProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [overrideLimits, setOverrideLimits] = useState(false);
+  // Kept while a changed mapping is being re-checked
+  const [checked, setChecked] = useState<TransactionImportPreview | null>(null);
+  const { preview, commit } = useTransactionImport();
+
+  const result = commit.data;
+
+  const reset = () => {
+    setFile(null);
+    setIncludeDuplicates(false);
+    setOverrideLimits(false);
+    setChecked(null);
+    preview.reset();
+    commit.reset();
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    if (!selectedFile) return;
+    setFile(selectedFile);
+    setChecked(null);
+    commit.reset();
+    preview.mutate({ file: selectedFile }, { onSuccess: setChecked });
+  };
+
+  const handleMappingChange = (field: TransactionImportField, header: string) => {
+    if (!file || !checked) return;
+    const mapping: TransactionImportMapping = { ...checked.mapping, [field]: header === NOT_MAPPED ? undefined : header };
+    preview.mutate({ file, mapping }, { onSuccess: setChecked });
+  };
+
+  const handleImport = () => {
+    if (!file || !checked) return;
+    commit.mutate({ file, mapping: checked.mapping, includeDuplicates, overrideLimits });
+  };
+
+  const importCount = checked
+    ? checked.valid_count + (includeDuplicates ? checked.duplicate_count : 0) + (overrideLimits ? checked.over_limit_count : 0)
+    : 0;
+  const problemRows = checked
+    ? checked.rows.filter((row) => row.errors.length > 0 || isDuplicate(row) || row.limit_breaches.length > 0)
+    : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Import Transactions</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or XLSX sheet with a header row. Check the column mapping and the rows below, then import the rows
+            that passed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Imported <span className="font-medium">{result.imported.length}</span> transaction(s).
+              {result.pending_approval.length > 0 && ` ${result.pending_approval.length} row(s) were sent for approval.`}
+              {result.skipped.length > 0 && ` ${result.skipped.length} row(s) were skipped.`}
+            </p>
+            {result.skipped.length > 0 && checked && (
+              <Button variant="outline" onClick={() => downloadErrorReport(checked.headers, result.skipped)}>
+                <Download className="mr-2 h-4 w-4" />
+                Download Skipped Rows
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">Spreadsheet</Label>
+              <Input id="import-file" type="file" accept=".csv,.xlsx" onChange={handleFileChange} />
+            </div>
+
+            {preview.isPending && (
+              <div className="flex items-center text-sm text-gray-500">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Checking rows...
+              </div>
+            )}
+
+            {checked && (
+              <>
+                <div className="space-y-2">
+                  <h4 className="font-medium">Column Mapping</h4>
+                  <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+                    {TRANSACTION_IMPORT_FIELDS.map((field) => (
+                      <div key={field} className="space-y-1">
+                        <Label className="text-xs">{FIELD_LABELS[field]}</Label>
+                        <Select
+                          value={checked.mapping[field] ?? NOT_MAPPED}
+                          onValueChange={(header) => handleMappingChange(field, header)}
+                          disabled={preview.isPending}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                            {checked.headers.filter((header) => header !== "").map((header) => (
+                              <SelectItem key={header} value={header}>
+                                {header}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-4 gap-4 rounded-md bg-gray-50 p-4 text-sm">
+                  <div>
+                    <span className="text-gray-500">Ready:</span>
+                    <span className="ml-2 font-medium text-green-600">{checked.valid_count}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-500">Possible duplicates:</span>
+                    <span className="ml-2 font-medium text-amber-600">{checked.duplicate_count}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-500">Over limits:</span>
+                    <span className="ml-2 font-medium text-amber-600">{checked.over_limit_count}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-500">With errors:</span>
+                    <span className="ml-2 font-medium text-red-600">{checked.error_count}</span>
+                  </div>
+                </div>
+
+                <div className="max-h-80 overflow-y-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Row</TableHead>
+                        <TableHead>Cheque</TableHead>
+                        <TableHead>Customer</TableHead>
+                        <TableHead>Vendor</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead>Check</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {checked.rows.map((row) => {
+                        const valueOf = (field: TransactionImportField) => {
+                          const header = checked.mapping[field];
+                          return header ? row.values[header] || "—" : "—";
+                        };
+                        return (
+                          <TableRow key={row.row_number}>
+                            <TableCell>{row.row_number}</TableCell>
+                            <TableCell>{valueOf("cheque_number")}</TableCell>
+                            <TableCell>{valueOf("customer")}</TableCell>
+                            <TableCell>{valueOf("vendor")}</TableCell>
+                            <TableCell className="text-right">{valueOf("cheque_amount")}</TableCell>
+                            <TableCell>
+                              {row.errors.length === 0 && !isDuplicate(row) && row.limit_breaches.length === 0 ? (
+                                <Badge variant="outline" className="text-green-600">OK</Badge>
+                              ) : (
+                                <ul className="space-y-1 text-xs">
+                                  {rowProblems(row).map((problem) => (
+                                    <li key={problem} className={row.errors.includes(problem) ? "text-red-600" : "text-amber-600"}>
+                                      {problem}
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {checked.duplicate_count > 0 && (
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="include-duplicates"
+                      checked={includeDuplicates}
+                      onCheckedChange={(value) => setIncludeDuplicates(value === true)}
+                    />
+                    <Label htmlFor="include-duplicates">Import possible duplicates too</Label>
+                  </div>
+                )}
+
+                {checked.over_limit_count > 0 && (checked.can_override_limits ? (
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="override-limits"
+                      checked={overrideLimits}
+                      onCheckedChange={(value) => setOverrideLimits(value === true)}
+                    />
+                    <Label htmlFor="override-limits">Import rows over their customer's limits too</Label>
+                  </div>
+                ) : (
+                  <p className="text-sm text-amber-600">
+                    Rows over their customer's limits will be skipped. Only an admin can import them.
+                  </p>
+                ))}
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {result ? (
+            <Button onClick={handleClose}>Done</Button>
+          ) : (
+            <>
+              {checked && problemRows.length > 0 && (
+                <Button variant="outline" onClick={() => downloadErrorReport(checked.headers, problemRows)}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Download Error Report
+                </Button>
+              )}
+              <Button variant="outline" onClick={handleClose}>
+                Cancel
+              </Button>
+              <Button onClick={handleImport} disabled={!checked || importCount === 0 || preview.isPending || commit.isPending}>
+                {commit.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import {importCount} Transaction(s)
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
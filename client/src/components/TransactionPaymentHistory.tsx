@@ -0,0 +1,215 @@
+import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Trash2 } from "lucide-react";
+import useTransactionPayments from "@/hooks/useTransactionPayments";
+import { ChequeTransaction, TransactionPaymentType } from "@shared/schema";
+
+const PAYMENT_TYPE_LABELS: Record<TransactionPaymentType, string> = {
+  payout: "Payout to customer",
+  vendor_receipt: "Received from vendor",
+  profit_withdrawal: "Profit withdrawal",
+};
+
+const paymentSchema = z.object({
+  type: z.enum(["payout", "vendor_receipt", "profit_withdrawal"]),
+  amount: z.string().refine(
+    (val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0,
+    "Amount must be a positive number"
+  ),
+  date: z.string().min(1, "Date is required"),
+  method: z.string().optional(),
+  note: z.string().optional(),
+});
+
+type PaymentFormValues = z.infer<typeof paymentSchema>;
+
+interface TransactionPaymentHistoryProps {
+  transaction: ChequeTransaction;
+}
+
+export default function TransactionPaymentHistory({ transaction }: TransactionPaymentHistoryProps) {
+  const { payments, recordPayment, deletePayment } = useTransactionPayments(transaction.transaction_id);
+  
+  const form = useForm<PaymentFormValues>({
+    resolver: zodResolver(paymentSchema),
+    defaultValues: {
+      type: "payout",
+      amount: "",
+      date: format(new Date(), "yyyy-MM-dd"),
+      method: "",
+      note: "",
+    },
+  });
+  
+  const onSubmit = (data: PaymentFormValues) => {
+    recordPayment.mutate({
+      type: data.type,
+      amount: data.amount,
+      date: data.date,
+      method: data.method || null,
+      note: data.note || null,
+    }, {
+      onSuccess: () => {
+        form.reset({ ...form.getValues(), amount: "", note: "" });
+      }
+    });
+  };
+  
+  const totals = (payments.data || []).reduce((acc, payment) => {
+    acc[payment.type] = (acc[payment.type] || 0) + parseFloat(payment.amount);
+    return acc;
+  }, {} as Partial<Record<TransactionPaymentType, number>>);
+  
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div>
+        <h4 className="font-medium">Payment History</h4>
+        <div className="mt-2 grid grid-cols-3 gap-4 text-sm">
+          {(Object.keys(PAYMENT_TYPE_LABELS) as TransactionPaymentType[]).map((type) => (
+            <div key={type}>
+              <span className="text-gray-500">{PAYMENT_TYPE_LABELS[type]}:</span>
+              <span className="ml-2 font-medium">${(totals[type] || 0).toFixed(2)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+      
+      {payments.isLoading ? (
+        <p className="text-sm text-gray-500">Loading payments...</p>
+      ) : payments.data && payments.data.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Method</TableHead>
+              <TableHead>Note</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {payments.data.map((payment) => {
+              const fromAllocation = !!(payment.deposit_allocation_id || payment.vendor_payment_allocation_id);
+              return (
+                <TableRow key={payment.payment_id}>
+                  <TableCell>{payment.date}</TableCell>
+                  <TableCell>{PAYMENT_TYPE_LABELS[payment.type]}</TableCell>
+                  <TableCell>{payment.method || "-"}</TableCell>
+                  <TableCell className="text-gray-500">{payment.note || ""}</TableCell>
+                  <TableCell className="text-right font-medium">${parseFloat(payment.amount).toFixed(2)}</TableCell>
+                  <TableCell className="w-10">
+                    {!fromAllocation && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deletePayment.mutate(payment.payment_id)}
+                        disabled={deletePayment.isPending}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      ) : (
+        <p className="text-sm text-gray-500">No payments recorded</p>
+      )}
+      
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-1 gap-3 md:grid-cols-5">
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>Type</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {(Object.keys(PAYMENT_TYPE_LABELS) as TransactionPaymentType[]).map((type) => (
+                      <SelectItem key={type} value={type}>{PAYMENT_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="amount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Amount</FormLabel>
+                <FormControl>
+                  <Input {...field} type="number" step="0.01" min="0.01" placeholder="0.00" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>Date</FormLabel>
+                <FormControl>
+                  <Input {...field} type="date" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="method"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>Method</FormLabel>
+                <FormControl>
+                  <Input {...field} placeholder="Cash, e-transfer..." />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="note"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>Note</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="flex items-end">
+            <Button type="submit" className="w-full" disabled={recordPayment.isPending}>
+              {recordPayment.isPending ? "Saving..." : "Record"}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { useQuery } from "@tanstack/react-query";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { format } from "date-fns";
+import { TransactionStatusChangeWithUser } from "@shared/schema";
+import { TRANSACTION_STATUS_LABELS } from "@shared/transaction-status";
+
+interface TransactionStatusHistoryProps {
+  transactionId: number;
+}
+
+export default function TransactionStatusHistory({ transactionId }: TransactionStatusHistoryProps) {
+  const { data: history, isLoading } = useQuery<TransactionStatusChangeWithUser[]>({
+    queryKey: [`/api/transactions/${transactionId}/status-history`],
+  });
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <h4 className="font-medium">Status History</h4>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading status history...</p>
+      ) : !history || history.length === 0 ? (
+        <p className="text-sm text-gray-500">No status changes recorded.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>When</TableHead>
+              <TableHead>Change</TableHead>
+              <TableHead>By</TableHead>
+              <TableHead>Note</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {history.map((change) => (
+              <TableRow key={change.history_id}>
+                <TableCell>{change.changed_at ? format(new Date(change.changed_at), "MMM d, yyyy HH:mm") : "-"}</TableCell>
+                <TableCell>
+                  {change.from_status
+                    ? `${TRANSACTION_STATUS_LABELS[change.from_status]} → ${TRANSACTION_STATUS_LABELS[change.to_status]}`
+                    : `Created as ${TRANSACTION_STATUS_LABELS[change.to_status]}`}
+                </TableCell>
+                <TableCell>{change.username || "System"}</TableCell>
+                <TableCell className="text-gray-500">{change.note || ""}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
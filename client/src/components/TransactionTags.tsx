@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Loader2, Tag as TagIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import useTags from "@/hooks/useTags";
+import useTransactionTags from "@/hooks/useTransactionTags";
+import { type Tag } from "@shared/schema";
+
+const DEFAULT_TAG_COLOR = "#6b7280";
+
+export function TagBadge({ tag }: { tag: Tag }) {
+  return (
+    <span
+      className="inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium text-white"
+      style={{ backgroundColor: tag.color }}
+    >
+      {tag.name}
+    </span>
+  );
+}
+
+interface TransactionTagsProps {
+  transactionId: number;
+  editable?: boolean;
+}
+
+export default function TransactionTags({ transactionId, editable = false }: TransactionTagsProps) {
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState(DEFAULT_TAG_COLOR);
+  const { tags, createTag } = useTags();
+  const { transactionTags, setTags } = useTransactionTags(transactionId);
+  const current = transactionTags.data ?? [];
+  const currentIds = current.map((tag) => tag.tag_id);
+
+  const toggle = (tagId: number, checked: boolean) => {
+    setTags.mutate(checked ? [...currentIds, tagId] : currentIds.filter((id) => id !== tagId));
+  };
+
+  const handleCreate = () => {
+    const name = newName.trim();
+    if (!name) return;
+    createTag.mutate({ name, color: newColor }, {
+      onSuccess: (tag) => {
+        setNewName("");
+        setTags.mutate([...currentIds, tag.tag_id]);
+      },
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {current.map((tag) => (
+        <TagBadge key={tag.tag_id} tag={tag} />
+      ))}
+      {!editable && current.length === 0 && <span className="text-sm text-gray-500">No tags</span>}
+      {editable && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="h-6 px-2 text-xs">
+              <TagIcon className="mr-1 h-3 w-3" />
+              {current.length === 0 ? "Add tags" : "Edit tags"}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 space-y-3" align="start">
+            {(tags.data ?? []).length === 0 ? (
+              <p className="text-sm text-gray-500">No tags yet</p>
+            ) : (
+              <div className="max-h-48 space-y-2 overflow-y-auto">
+                {(tags.data ?? []).map((tag) => (
+                  <label key={tag.tag_id} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={currentIds.includes(tag.tag_id)}
+                      disabled={setTags.isPending}
+                      onCheckedChange={(value) => toggle(tag.tag_id, value === true)}
+                    />
+                    <TagBadge tag={tag} />
+                  </label>
+                ))}
+              </div>
+            )}
+            <div className="flex items-center space-x-2 border-t pt-3">
+              <input
+                type="color"
+                value={newColor}
+                onChange={(e) => setNewColor(e.target.value)}
+                className="h-8 w-8 cursor-pointer rounded border"
+                title="Tag colour"
+              />
+              <Input
+                value={newName}
+                maxLength={50}
+                placeholder="New tag"
+                className="h-8"
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleCreate();
+                  }
+                }}
+              />
+              <Button size="sm" className="h-8" onClick={handleCreate} disabled={!newName.trim() || createTag.isPending}>
+                {createTag.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : "Add"}
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { ReactNode } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import useTrash from "@/hooks/useTrash";
+import { TrashEntity } from "@shared/schema";
+
+function formatDeletedAt(value: Date | string | null): string {
+  return value ? format(new Date(value), "MMM d, yyyy h:mm a") : "—";
+}
+
+interface TrashRow {
+  id: number | string;
+  label: ReactNode;
+  detail: ReactNode;
+  deletedAt: Date | string | null;
+}
+
+interface TrashSectionProps {
+  title: string;
+  entity: TrashEntity;
+  rows: TrashRow[];
+  canPurge: boolean;
+}
+
+function TrashSection({ title, entity, rows, canPurge }: TrashSectionProps) {
+  const { restore, purge } = useTrash();
+  const busy = restore.isPending || purge.isPending;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium">{title}</h4>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">Nothing in the trash</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Record</TableHead>
+              <TableHead>Details</TableHead>
+              <TableHead>Deleted</TableHead>
+              <TableHead className="w-56"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.id}>
+                <TableCell>{row.label}</TableCell>
+                <TableCell>{row.detail}</TableCell>
+                <TableCell className="whitespace-nowrap">{formatDeletedAt(row.deletedAt)}</TableCell>
+                <TableCell className="space-x-2 text-right">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => restore.mutate({ entity, id: row.id })}
+                    disabled={busy}
+                  >
+                    <RotateCcw className="mr-1 h-4 w-4" />
+                    Restore
+                  </Button>
+                  {canPurge && (
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => purge.mutate({ entity, id: row.id })}
+                      disabled={busy}
+                    >
+                      <Trash2 className="mr-1 h-4 w-4" />
+                      Purge
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
+
+export default function TrashPanel() {
+  const { user } = useAuth();
+  const { trash } = useTrash();
+  const canPurge = user?.role === "superuser";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Trash</CardTitle>
+        <CardDescription>
+          Deleted transactions, customers and vendors are kept here until they are restored.
+          {canPurge && " Purging deletes a record for good once nothing else refers to it."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {trash.isLoading ? (
+          <p className="text-sm text-gray-500">Loading trash...</p>
+        ) : (
+          <>
+            <TrashSection
+              title="Transactions"
+              entity="transaction"
+              canPurge={canPurge}
+              rows={(trash.data?.transactions || []).map((transaction) => ({
+                id: transaction.transaction_id,
+                label: `#${transaction.transaction_id} (cheque ${transaction.cheque_number})`,
+                detail: `$${parseFloat(transaction.cheque_amount || "0").toFixed(2)} on ${transaction.date || "—"}`,
+                deletedAt: transaction.deleted_at,
+              }))}
+            />
+            <TrashSection
+              title="Customers"
+              entity="customer"
+              canPurge={canPurge}
+              rows={(trash.data?.customers || []).map((customer) => ({
+                id: customer.customer_id,
+                label: customer.customer_name,
+                detail: customer.contact_info || "—",
+                deletedAt: customer.deleted_at,
+              }))}
+            />
+            <TrashSection
+              title="Vendors"
+              entity="vendor"
+              canPurge={canPurge}
+              rows={(trash.data?.vendors || []).map((vendor) => ({
+                id: vendor.vendor_id,
+                label: vendor.vendor_name,
+                detail: vendor.contact_info || "—",
+                deletedAt: vendor.deleted_at,
+              }))}
+            />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
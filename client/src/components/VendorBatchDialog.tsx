@@ -0,0 +1,304 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { FileText, Plus, Trash2, X } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import useVendorBatches, { batchManifestUrl } from "@/hooks/useVendorBatches";
+import { apiRequest } from "@/lib/queryClient";
+import { type TransactionSearchResult, type Vendor, type VendorBatchDetails, type VendorBatchStatus } from "@shared/schema";
+
+const STATUS_LABELS: Record<VendorBatchStatus, string> = {
+  open: "Open",
+  delivered: "Delivered",
+  partially_received: "Partially received",
+  received: "Received",
+};
+
+const STATUS_CLASSES: Record<VendorBatchStatus, string> = {
+  open: "bg-blue-100 text-blue-800",
+  delivered: "bg-amber-100 text-amber-800",
+  partially_received: "bg-orange-100 text-orange-800",
+  received: "bg-green-100 text-green-800",
+};
+
+// Statuses of cheques that can still be handed to the vendor
+const BATCHABLE_STATUSES = "pending,deposited,cleared,paid_out,settled";
+
+const today = () => new Date().toISOString().split("T")[0];
+
+// The vendor's cheques that aren't in a batch yet
+function useUnbatchedTransactions(vendorId: string | undefined, enabled: boolean) {
+  const params = { vendor_id: vendorId ?? "", status: BATCHABLE_STATUSES, sort: "date:asc", limit: "200" };
+  return useQuery<TransactionSearchResult["transactions"]>({
+    queryKey: ["/api/transactions", "unbatched", params],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/transactions?${new URLSearchParams(params)}`, undefined);
+      const result: TransactionSearchResult = await response.json();
+      return result.transactions.filter((transaction) => transaction.batch_id === null);
+    },
+    enabled: !!vendorId && enabled,
+  });
+}
+
+interface BatchPanelProps {
+  batch: VendorBatchDetails;
+  actions: ReturnType<typeof useVendorBatches>;
+  onDeleted: () => void;
+}
+
+function BatchPanel({ batch, actions, onDeleted }: BatchPanelProps) {
+  const [selected, setSelected] = useState<number[]>([]);
+  const [receiptAmount, setReceiptAmount] = useState("");
+  const [receiptDate, setReceiptDate] = useState(today());
+  const isOpen = batch.status === "open";
+  const unbatched = useUnbatchedTransactions(batch.vendor_id, isOpen);
+  const { updateBatch, deleteBatch, addTransactions, removeTransactions, recordReceipt } = actions;
+
+  const toggle = (transactionId: number, checked: boolean) => {
+    setSelected((current) => checked ? [...current, transactionId] : current.filter((id) => id !== transactionId));
+  };
+
+  const handleAdd = () => {
+    addTransactions.mutate({ id: batch.batch_id, transactionIds: selected }, {
+      onSuccess: () => setSelected([]),
+    });
+  };
+
+  const handleReceipt = () => {
+    recordReceipt.mutate({ id: batch.batch_id, data: { amount: receiptAmount, date: receiptDate } }, {
+      onSuccess: () => setReceiptAmount(""),
+    });
+  };
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium">Batch #{batch.batch_id} · {batch.batch_date}</h4>
+        <Badge variant="outline" className={STATUS_CLASSES[batch.status]}>{STATUS_LABELS[batch.status]}</Badge>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-sm">
+        <div>
+          <p className="text-gray-500">Cheques</p>
+          <p className="font-medium">{batch.transaction_count} · ${batch.cheque_total}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Expected</p>
+          <p className="font-medium">${batch.expected_total}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Received</p>
+          <p className="font-medium">${batch.received_total}</p>
+        </div>
+      </div>
+
+      {batch.transactions.length === 0 ? (
+        <p className="text-sm text-gray-500">No cheques in this batch</p>
+      ) : (
+        <ul className="max-h-48 space-y-1 overflow-y-auto text-sm">
+          {batch.transactions.map((transaction) => (
+            <li key={transaction.transaction_id} className="flex items-center justify-between">
+              <span>
+                <span className="font-medium">#{transaction.cheque_number}</span>
+                <span className="ml-2 text-gray-500">{transaction.customer_name}</span>
+              </span>
+              <span className="flex items-center">
+                ${transaction.cheque_amount}
+                {isOpen && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    title="Remove from batch"
+                    disabled={removeTransactions.isPending}
+                    onClick={() => removeTransactions.mutate({ id: batch.batch_id, transactionIds: [transaction.transaction_id] })}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isOpen && (
+        <div className="space-y-2 border-t pt-3">
+          <p className="text-sm font-medium">Add cheques</p>
+          {unbatched.isLoading ? (
+            <p className="text-sm text-gray-500">Loading cheques...</p>
+          ) : !unbatched.data || unbatched.data.length === 0 ? (
+            <p className="text-sm text-gray-500">Every cheque for this vendor is already in a batch</p>
+          ) : (
+            <>
+              <ul className="max-h-40 space-y-1 overflow-y-auto text-sm">
+                {unbatched.data.map((transaction) => (
+                  <li key={transaction.transaction_id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`batch-add-${transaction.transaction_id}`}
+                      checked={selected.includes(transaction.transaction_id)}
+                      onCheckedChange={(value) => toggle(transaction.transaction_id, value === true)}
+                    />
+                    <Label htmlFor={`batch-add-${transaction.transaction_id}`} className="flex-1 font-normal">
+                      #{transaction.cheque_number} · {transaction.customer.customer_name} · {transaction.date}
+                    </Label>
+                    <span>${transaction.cheque_amount}</span>
+                  </li>
+                ))}
+              </ul>
+              <Button size="sm" onClick={handleAdd} disabled={selected.length === 0 || addTransactions.isPending}>
+                Add {selected.length > 0 ? selected.length : ""} to batch
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+
+      {!isOpen && (
+        <div className="space-y-2 border-t pt-3">
+          <p className="text-sm font-medium">Record receipt</p>
+          <div className="flex items-center space-x-2">
+            <Input type="date" value={receiptDate} onChange={(e) => setReceiptDate(e.target.value)} className="w-40" />
+            <Input
+              type="number"
+              step="0.01"
+              min="0.01"
+              placeholder="0.00"
+              value={receiptAmount}
+              onChange={(e) => setReceiptAmount(e.target.value)}
+            />
+            <Button
+              size="sm"
+              onClick={handleReceipt}
+              disabled={!(parseFloat(receiptAmount) > 0) || recordReceipt.isPending}
+            >
+              Record
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500">Receipts are spread across the batch's cheques, oldest first.</p>
+          {batch.receipts.length > 0 && (
+            <ul className="space-y-1 text-sm">
+              {batch.receipts.map((receipt) => (
+                <li key={receipt.payment_id}>
+                  <span className="font-medium">${receipt.amount}</span>
+                  <span className="ml-2 text-gray-500">{receipt.date}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 border-t pt-3">
+        <Button variant="outline" size="sm" asChild>
+          <a href={batchManifestUrl(batch.batch_id)} target="_blank" rel="noreferrer">
+            <FileText className="mr-1 h-4 w-4" /> Manifest
+          </a>
+        </Button>
+        {batch.status === "open" && (
+          <Button
+            size="sm"
+            disabled={batch.transaction_count === 0 || updateBatch.isPending}
+            onClick={() => updateBatch.mutate({ id: batch.batch_id, data: { status: "delivered" } })}
+          >
+            Mark Delivered
+          </Button>
+        )}
+        {batch.status === "delivered" && batch.receipts.length === 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={updateBatch.isPending}
+            onClick={() => updateBatch.mutate({ id: batch.batch_id, data: { status: "open" } })}
+          >
+            Reopen
+          </Button>
+        )}
+        {batch.receipts.length === 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-red-500"
+            disabled={deleteBatch.isPending}
+            onClick={() => deleteBatch.mutate(batch.batch_id, { onSuccess: onDeleted })}
+          >
+            <Trash2 className="mr-1 h-4 w-4" /> Delete
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface VendorBatchDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  vendor: Vendor | null;
+}
+
+export default function VendorBatchDialog({ isOpen, onOpenChange, vendor }: VendorBatchDialogProps) {
+  const [batchId, setBatchId] = useState<number | null>(null);
+  const [batchDate, setBatchDate] = useState(today());
+  const actions = useVendorBatches(vendor?.vendor_id, batchId);
+  const { batches, batch, createBatch } = actions;
+
+  const handleCreate = () => {
+    if (!vendor) return;
+    createBatch.mutate({ vendor_id: vendor.vendor_id, batch_date: batchDate }, {
+      onSuccess: (created) => setBatchId(created.batch_id),
+    });
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setBatchId(null);
+    onOpenChange(open);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Cheque Batches{vendor ? ` - ${vendor.vendor_name}` : ""}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center space-x-2">
+          <Select
+            value={batchId ? batchId.toString() : ""}
+            onValueChange={(value) => setBatchId(parseInt(value))}
+            disabled={!batches.data || batches.data.length === 0}
+          >
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder={batches.isLoading ? "Loading batches..." : "Select a batch"} />
+            </SelectTrigger>
+            <SelectContent>
+              {batches.data?.map((item) => (
+                <SelectItem key={item.batch_id} value={item.batch_id.toString()}>
+                  #{item.batch_id} · {item.batch_date} · {STATUS_LABELS[item.status]} · {item.transaction_count} cheques · ${item.cheque_total}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input type="date" value={batchDate} onChange={(e) => setBatchDate(e.target.value)} className="w-40" />
+          <Button onClick={handleCreate} disabled={!vendor || createBatch.isPending}>
+            <Plus className="mr-1 h-4 w-4" /> New
+          </Button>
+        </div>
+
+        {batchId && batch.data ? (
+          <BatchPanel key={batch.data.batch_id} batch={batch.data} actions={actions} onDeleted={() => setBatchId(null)} />
+        ) : batchId && batch.isLoading ? (
+          <p className="text-sm text-gray-500">Loading batch...</p>
+        ) : (
+          <p className="text-sm text-gray-500">
+            Gather the cheques handed to this vendor together into a batch, then record what the vendor pays for it.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
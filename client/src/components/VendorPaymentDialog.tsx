@@ -0,0 +1,162 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Trash2 } from "lucide-react";
+import useVendorPayments from "@/hooks/useVendorPayments";
+import { Vendor } from "@shared/schema";
+
+const paymentSchema = z.object({
+  date: z.string().min(1, "Date is required"),
+  amount: z.string().refine(
+    (val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0,
+    "Amount must be a positive number"
+  ),
+  notes: z.string().optional()
+});
+
+type PaymentFormValues = z.infer<typeof paymentSchema>;
+
+interface VendorPaymentDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  vendor: Vendor | null;
+}
+
+export default function VendorPaymentDialog({
+  isOpen,
+  onOpenChange,
+  vendor
+}: VendorPaymentDialogProps) {
+  const { payments, createPayment, deletePayment } = useVendorPayments(vendor?.vendor_id);
+  
+  const form = useForm<PaymentFormValues>({
+    resolver: zodResolver(paymentSchema),
+    defaultValues: {
+      date: new Date().toISOString().split("T")[0],
+      amount: "",
+      notes: ""
+    }
+  });
+  
+  const handleSubmit = async (data: PaymentFormValues) => {
+    if (!vendor) return;
+    
+    createPayment.mutate({
+      vendor_id: vendor.vendor_id,
+      date: data.date,
+      amount: data.amount,
+      notes: data.notes || null
+    }, {
+      onSuccess: () => {
+        form.reset({ date: data.date, amount: "", notes: "" });
+      }
+    });
+  };
+  
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Vendor Payments{vendor ? ` - ${vendor.vendor_name}` : ""}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount Received</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" step="0.01" min="0.01" placeholder="0.00" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} rows={2} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <p className="text-xs text-gray-500">
+              Payments are applied to this vendor's oldest open transactions first.
+            </p>
+            <DialogFooter>
+              <Button 
+                type="button" 
+                variant="outline" 
+                onClick={() => onOpenChange(false)}
+                disabled={createPayment.isPending}
+              >
+                Close
+              </Button>
+              <Button type="submit" disabled={createPayment.isPending || !vendor}>
+                {createPayment.isPending ? "Recording..." : "Record Payment"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+        
+        <div className="mt-2 border-t pt-4">
+          <h4 className="mb-2 text-sm font-medium text-gray-900">Recent Payments</h4>
+          {payments.isLoading ? (
+            <p className="text-sm text-gray-500">Loading payments...</p>
+          ) : payments.data && payments.data.length > 0 ? (
+            <ul className="max-h-48 space-y-2 overflow-y-auto">
+              {payments.data.map((payment) => (
+                <li key={payment.payment_id} className="flex items-center justify-between text-sm">
+                  <div>
+                    <span className="font-medium">${parseFloat(payment.amount).toFixed(2)}</span>
+                    <span className="ml-2 text-gray-500">{payment.date}</span>
+                    <span className={`ml-2 text-xs ${payment.fully_allocated ? "text-green-600" : "text-amber-600"}`}>
+                      {payment.fully_allocated ? "Fully allocated" : "Partially allocated"}
+                    </span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deletePayment.mutate(payment.payment_id)}
+                    disabled={deletePayment.isPending}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500">No payments recorded</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,59 @@
+import { Sparkles } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { type VendorRecommendation } from "@shared/schema";
+
+interface VendorRecommendationsProps {
+  recommendations: VendorRecommendation[];
+  selectedVendorId?: string;
+  onSelect: (vendorId: string) => void;
+}
+
+export default function VendorRecommendations({ recommendations, selectedVendorId, onSelect }: VendorRecommendationsProps) {
+  if (recommendations.length === 0) return null;
+
+  const eligible = recommendations.filter((recommendation) => recommendation.eligible);
+  const selected = recommendations.find((recommendation) => recommendation.vendor_id === selectedVendorId);
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <h4 className="flex items-center font-medium">
+        <Sparkles className="mr-2 h-4 w-4 text-primary" />
+        Suggested Vendors
+      </h4>
+
+      {eligible.length === 0 ? (
+        <p className="text-sm text-gray-500">No vendor's routing rules allow this cheque.</p>
+      ) : (
+        <ul className="space-y-1 text-sm">
+          {eligible.slice(0, 5).map((recommendation, index) => (
+            <li key={recommendation.vendor_id} className="flex items-center justify-between">
+              <span>
+                <span className="font-medium">{recommendation.vendor_name}</span>
+                <span className="ml-2 text-gray-500">
+                  Profit ${recommendation.profit}
+                  {index === 0 ? " (best)" : ` ($${Math.abs(parseFloat(recommendation.profit_difference)).toFixed(2)} less)`}
+                </span>
+              </span>
+              {recommendation.vendor_id === selectedVendorId ? (
+                <span className="text-xs text-green-600">Selected</span>
+              ) : (
+                <Button type="button" variant="ghost" size="sm" className="h-7" onClick={() => onSelect(recommendation.vendor_id)}>
+                  Use
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selected && !selected.eligible && (
+        <Alert className="border-yellow-300 bg-yellow-50">
+          <AlertDescription className="text-sm">
+            {selected.vendor_name} can't normally take this cheque: {selected.reasons.join("; ")}.
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
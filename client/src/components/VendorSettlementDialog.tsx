@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, FileSpreadsheet, FileText } from "lucide-react";
+import { format, startOfMonth } from "date-fns";
+import useVendorSettlements, { vendorSettlementUrl } from "@/hooks/useVendorSettlements";
+import type { Vendor } from "@shared/schema";
+
+interface VendorSettlementDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  vendor: Vendor | null;
+}
+
+// Matches VENDOR_OVERDUE_DAYS on the server
+const DEFAULT_OVERDUE_DAYS = 14;
+
+function formatMoney(value: string): string {
+  const amount = parseFloat(value);
+  return `${amount < 0 ? "-" : ""}$${Math.abs(amount).toFixed(2)}`;
+}
+
+export default function VendorSettlementDialog({ isOpen, onOpenChange, vendor }: VendorSettlementDialogProps) {
+  const [startDate, setStartDate] = useState(format(startOfMonth(new Date()), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [overdueDays, setOverdueDays] = useState(String(DEFAULT_OVERDUE_DAYS));
+  const period = { start_date: startDate, end_date: endDate };
+  const days = Math.max(parseInt(overdueDays) || 0, 0);
+  const isValid = !!startDate && !!endDate && startDate <= endDate;
+  const { settlement } = useVendorSettlements(period, isOpen ? vendor?.vendor_id : undefined, days);
+  const data = settlement.data;
+
+  const open = (fileFormat: "pdf" | "csv", download = false) => {
+    if (!vendor) return;
+    window.open(vendorSettlementUrl(vendor.vendor_id, period, fileFormat, days, download), "_blank");
+  };
+
+  const figures: [string, string, boolean?][] = data ? [
+    ["Opening balance", formatMoney(data.opening_balance)],
+    ["Cheques submitted", `${data.totals.cheque_count} for ${formatMoney(data.totals.cheque_amount)}`],
+    ["Vendor fees", formatMoney(data.totals.vendor_fees)],
+    ["Expected", formatMoney(data.totals.expected)],
+    ["Received in period", formatMoney(data.totals.receipts)],
+    ["Variance", formatMoney(data.totals.variance), parseFloat(data.totals.variance) < 0],
+    ["Closing balance owed", formatMoney(data.closing_balance)],
+  ] : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Settlement for {vendor?.vendor_name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="settlement-start">From</Label>
+            <Input id="settlement-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="settlement-end">To</Label>
+            <Input id="settlement-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="settlement-overdue">Overdue after (days)</Label>
+            <Input
+              id="settlement-overdue"
+              type="number"
+              min="0"
+              max="365"
+              value={overdueDays}
+              onChange={(e) => setOverdueDays(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {!isValid ? (
+          <p className="text-sm text-red-500">The end date must not be before the start date</p>
+        ) : settlement.isLoading ? (
+          <p className="text-sm text-gray-500">Loading settlement...</p>
+        ) : settlement.isError ? (
+          <p className="text-sm text-red-500">Failed to load the settlement</p>
+        ) : data && (
+          <div className="space-y-4">
+            <div className="space-y-1 rounded-md bg-gray-50 p-3 text-sm">
+              {figures.map(([label, value, isBehind]) => (
+                <div key={label} className="flex justify-between">
+                  <span className="text-gray-500">{label}</span>
+                  <span className={isBehind ? "font-medium text-red-600" : "font-medium"}>{value}</span>
+                </div>
+              ))}
+            </div>
+
+            {data.overdue.length > 0 && (
+              <div>
+                <p className="mb-2 text-sm font-medium text-red-600">
+                  {data.totals.overdue_count} cheque{data.totals.overdue_count === 1 ? "" : "s"} unpaid for over {data.overdue_days} days,{" "}
+                  {formatMoney(data.totals.overdue_amount)} overdue
+                </p>
+                <div className="max-h-48 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Cheque</TableHead>
+                        <TableHead>Customer</TableHead>
+                        <TableHead className="text-right">Outstanding</TableHead>
+                        <TableHead className="text-right">Days</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {data.overdue.map((cheque) => (
+                        <TableRow key={cheque.transaction_id}>
+                          <TableCell>{cheque.date}</TableCell>
+                          <TableCell>{cheque.cheque_number}</TableCell>
+                          <TableCell>{cheque.customer_name}</TableCell>
+                          <TableCell className="text-right">{formatMoney(cheque.outstanding)}</TableCell>
+                          <TableCell className="text-right">{cheque.days_outstanding}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" disabled={!isValid || !vendor} onClick={() => open("csv")}>
+            <FileSpreadsheet className="mr-1 h-4 w-4" /> CSV
+          </Button>
+          <Button variant="outline" disabled={!isValid || !vendor} onClick={() => open("pdf", true)}>
+            <Download className="mr-1 h-4 w-4" /> Download PDF
+          </Button>
+          <Button disabled={!isValid || !vendor} onClick={() => open("pdf")}>
+            <FileText className="mr-1 h-4 w-4" /> View PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
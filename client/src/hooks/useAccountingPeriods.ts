@@ -0,0 +1,59 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { type AccountingPeriod, type AccountingPeriodWithUsers } from "@shared/schema";
+
+export default function useAccountingPeriods() {
+  const { toast } = useToast();
+
+  // Fetch the months that have been closed, newest first
+  const periods = useQuery<AccountingPeriodWithUsers[]>({
+    queryKey: ["/api/accounting-periods"],
+  });
+
+  // Closing and reopening are recorded in the period's history too
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/accounting-periods"] });
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/audit/period/") });
+  };
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const closePeriod = useMutation({
+    mutationFn: async (period: string): Promise<AccountingPeriod> => {
+      const response = await apiRequest("POST", `/api/accounting-periods/${period}/close`, undefined);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Success",
+        description: "Period closed successfully",
+      });
+    },
+    onError: onError("Failed to close period"),
+  });
+
+  const reopenPeriod = useMutation({
+    mutationFn: async (period: string): Promise<AccountingPeriod> => {
+      const response = await apiRequest("POST", `/api/accounting-periods/${period}/reopen`, undefined);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Success",
+        description: "Period reopened successfully",
+      });
+    },
+    onError: onError("Failed to reopen period"),
+  });
+
+  return { periods, closePeriod, reopenPeriod };
+}
@@ -0,0 +1,134 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  type ApprovalAction,
+  type ApprovalPolicy,
+  type ApprovalRequestWithUsers,
+  type ApprovalStatus,
+  type InsertApprovalPolicy,
+  type UpdateApprovalPolicy,
+} from "@shared/schema";
+
+export const APPROVAL_ACTION_LABELS: Record<ApprovalAction, string> = {
+  create: "New transaction",
+  delete: "Delete transaction",
+  fee_override: "Fee override",
+  payout: "Payout",
+};
+
+const refreshApprovals = () =>
+  queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/approvals") });
+
+// The approval request an action was sent to instead of being applied, if the
+// server held it back (202). The approval queue is refreshed when it was.
+export async function heldForApproval(response: Response): Promise<ApprovalRequestWithUsers | undefined> {
+  if (response.status !== 202) return undefined;
+  const body: { approval: ApprovalRequestWithUsers } = await response.json();
+  refreshApprovals();
+  return body.approval;
+}
+
+// The toast text for an action that was sent for approval
+export function sentForApprovalMessage(approval: ApprovalRequestWithUsers): string {
+  return `Sent for approval as request #${approval.approval_id}. It will be applied once an admin approves it.`;
+}
+
+export default function useApprovals(status: ApprovalStatus) {
+  const { toast } = useToast();
+
+  // Fetch the requests with the status; admins see everyone's
+  const requests = useQuery<ApprovalRequestWithUsers[]>({
+    queryKey: [`/api/approvals?status=${status}`],
+  });
+
+  const policies = useQuery<ApprovalPolicy[]>({
+    queryKey: ["/api/approval-policies"],
+  });
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  // An approved request changes the transaction it holds
+  const approve = useMutation({
+    mutationFn: async (id: number): Promise<ApprovalRequestWithUsers> => {
+      const response = await apiRequest("POST", `/api/approvals/${id}/approve`, undefined);
+      return response.json();
+    },
+    onSuccess: (request) => {
+      refreshApprovals();
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/summary"] });
+      if (request.transaction_id) {
+        queryClient.invalidateQueries({ queryKey: [`/api/transactions/${request.transaction_id}/payments`] });
+      }
+      toast({
+        title: "Success",
+        description: `Request #${request.approval_id} approved and applied`,
+      });
+    },
+    onError: onError("Failed to approve request"),
+  });
+
+  const reject = useMutation({
+    mutationFn: async ({ id, note }: { id: number; note?: string }): Promise<ApprovalRequestWithUsers> => {
+      const response = await apiRequest("POST", `/api/approvals/${id}/reject`, { note });
+      return response.json();
+    },
+    onSuccess: (request) => {
+      refreshApprovals();
+      toast({
+        title: "Success",
+        description: `Request #${request.approval_id} rejected`,
+      });
+    },
+    onError: onError("Failed to reject request"),
+  });
+
+  const createPolicy = useMutation({
+    mutationFn: async (policy: InsertApprovalPolicy): Promise<ApprovalPolicy> => {
+      const response = await apiRequest("POST", "/api/approval-policies", policy);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/approval-policies"] });
+      toast({
+        title: "Success",
+        description: "Approval policy created successfully",
+      });
+    },
+    onError: onError("Failed to create approval policy"),
+  });
+
+  const updatePolicy = useMutation({
+    mutationFn: async ({ id, policy }: { id: number; policy: UpdateApprovalPolicy }): Promise<ApprovalPolicy> => {
+      const response = await apiRequest("PATCH", `/api/approval-policies/${id}`, policy);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/approval-policies"] });
+    },
+    onError: onError("Failed to update approval policy"),
+  });
+
+  const deletePolicy = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/approval-policies/${id}`, undefined);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/approval-policies"] });
+      toast({
+        title: "Success",
+        description: "Approval policy deleted successfully",
+      });
+    },
+    onError: onError("Failed to delete approval policy"),
+  });
+
+  return { requests, policies, approve, reject, createPolicy, updatePolicy, deletePolicy };
+}
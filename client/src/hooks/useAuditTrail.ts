@@ -0,0 +1,52 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { type AuditEntity, type AuditEntryWithUser } from "@shared/schema";
+
+// Lists the records of each kind so they can be refreshed after a revert
+const LIST_QUERY_KEYS: Record<AuditEntity, string> = {
+  transaction: "/api/transactions",
+  customer: "/api/customers",
+  vendor: "/api/vendors",
+  deposit: "/api/deposits",
+  period: "/api/accounting-periods",
+};
+
+export default function useAuditTrail<T = unknown>(entity: AuditEntity, entityId: number | string) {
+  const { toast } = useToast();
+  const queryKey = [`/api/audit/${entity}/${entityId}`];
+  
+  // Fetch the record's history, newest first
+  const entries = useQuery<AuditEntryWithUser[]>({
+    queryKey,
+  });
+  
+  const revert = useMutation({
+    mutationFn: async (auditId: number): Promise<T> => {
+      const response = await apiRequest("POST", `/api/audit/${auditId}/revert`, undefined);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: [LIST_QUERY_KEYS[entity]] });
+      queryClient.invalidateQueries({ queryKey: ["/api/summary"] });
+      if (entity === "transaction") {
+        queryClient.invalidateQueries({ queryKey: [`/api/transactions/${entityId}/status-history`] });
+      }
+      
+      toast({
+        title: "Success",
+        description: "Record reverted to the selected version",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revert record",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  return { entries, revert };
+}
@@ -0,0 +1,115 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { type BankStatementDetails, type BankStatementMatch, type BankStatementSummary } from "@shared/schema";
+
+// Statements are sent as multipart uploads, so this can't go through apiRequest
+async function postStatement(file: File): Promise<BankStatementDetails> {
+  const formData = new FormData();
+  formData.append("file", file);
+
+  const response = await fetch("/api/bank-statements", {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || response.statusText);
+  }
+  return response.json();
+}
+
+export default function useBankStatements(statementId?: number | null) {
+  const { toast } = useToast();
+
+  // Fetch uploaded statements with how far each has been reconciled
+  const statements = useQuery<BankStatementSummary[]>({
+    queryKey: ["/api/bank-statements"],
+  });
+
+  // Fetch the selected statement with its lines and match candidates
+  const statement = useQuery<BankStatementDetails>({
+    queryKey: [`/api/bank-statements/${statementId}`],
+    enabled: !!statementId,
+  });
+
+  // Matching records vendor receipts and customer payments, so their figures move too
+  const invalidate = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/bank-statements") });
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/vendor-batches") });
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/vendor-payments") });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/summary"] });
+  };
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const upload = useMutation({
+    mutationFn: postStatement,
+    onSuccess: (imported) => {
+      invalidate();
+      toast({
+        title: "Success",
+        description: `Imported ${imported.line_count} statement lines, ${imported.matched_count} matched automatically`,
+      });
+    },
+    onError: onError("Failed to import bank statement"),
+  });
+
+  const deleteStatement = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/bank-statements/${id}`, undefined);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Success",
+        description: "Bank statement deleted successfully",
+      });
+    },
+    onError: onError("Failed to delete bank statement"),
+  });
+
+  const matchLine = useMutation({
+    mutationFn: async ({ lineId, match }: { lineId: number; match: BankStatementMatch }): Promise<BankStatementDetails> => {
+      const response = await apiRequest("POST", `/api/bank-statements/lines/${lineId}/match`, match);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Success",
+        description: "Statement line matched successfully",
+      });
+    },
+    onError: onError("Failed to match statement line"),
+  });
+
+  const unmatchLine = useMutation({
+    mutationFn: async (lineId: number): Promise<BankStatementDetails> => {
+      const response = await apiRequest("DELETE", `/api/bank-statements/lines/${lineId}/match`, undefined);
+      return response.json();
+    },
+    onSuccess: invalidate,
+    onError: onError("Failed to unmatch statement line"),
+  });
+
+  const ignoreLine = useMutation({
+    mutationFn: async (lineId: number): Promise<BankStatementDetails> => {
+      const response = await apiRequest("POST", `/api/bank-statements/lines/${lineId}/ignore`, undefined);
+      return response.json();
+    },
+    onSuccess: invalidate,
+    onError: onError("Failed to ignore statement line"),
+  });
+
+  return { statements, statement, upload, deleteStatement, matchLine, unmatchLine, ignoreLine };
+}
@@ -0,0 +1,66 @@
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { type BulkTransactionAction, type BulkTransactionResult } from "@shared/schema";
+
+// Download the selected transactions as a CSV file
+async function downloadTransactions(transactionIds: number[]) {
+  const response = await apiRequest("POST", "/api/transactions/export", { transaction_ids: transactionIds });
+  const blob = await response.blob();
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "transactions.csv";
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function useBulkTransactions() {
+  const { toast } = useToast();
+
+  const bulk = useMutation({
+    mutationFn: async (request: BulkTransactionAction): Promise<BulkTransactionResult> => {
+      const response = await apiRequest("POST", "/api/transactions/bulk", request);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/summary"] });
+      if (result.action === "delete") {
+        queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      }
+
+      if (result.pending_approval.length > 0) {
+        queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/approvals") });
+      }
+
+      toast({
+        title: result.failed.length > 0 ? "Partly applied" : "Success",
+        description: `Updated ${result.succeeded.length} transaction(s)` +
+          (result.pending_approval.length > 0 ? `, ${result.pending_approval.length} sent for approval` : "") +
+          (result.failed.length > 0 ? `, ${result.failed.length} failed` : ""),
+        variant: result.failed.length > 0 && result.succeeded.length === 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to apply bulk action",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const exportCsv = useMutation({
+    mutationFn: downloadTransactions,
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to export transactions",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return { bulk, exportCsv };
+}
@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import type { CustomerStatement, StatementPeriod } from "@shared/schema";
+
+function statementQuery(period: StatementPeriod): string {
+  return new URLSearchParams({ start_date: period.start_date, end_date: period.end_date }).toString();
+}
+
+// The statement's PDF, opened in the browser or saved when download is set
+export function customerStatementUrl(customerId: number, period: StatementPeriod, download = false): string {
+  return `/api/customers/${customerId}/statement/pdf?${statementQuery(period)}${download ? "&download=true" : ""}`;
+}
+
+export default function useCustomerStatement(customerId: number | undefined, period: StatementPeriod) {
+  // Fetch the statement's figures for the date range
+  return useQuery<CustomerStatement>({
+    queryKey: [`/api/customers/${customerId}/statement?${statementQuery(period)}`],
+    enabled: !!customerId && !!period.start_date && !!period.end_date && period.start_date <= period.end_date,
+  });
+}
@@ -1,24 +1,48 @@
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { type InsertCustomerDeposit } from "@shared/schema";
+import {
+  type InsertCustomerDeposit,
+  type AllocateDeposit,
+  type CustomerDeposit,
+  type CustomerDepositWithAllocations
+} from "@shared/schema";
 
-export default function useDeposits() {
+type CreateDepositInput = InsertCustomerDeposit & Partial<AllocateDeposit>;
+
+// Note about the payouts an approval policy held back, if any
+function heldPayoutsNote(deposit: CustomerDepositWithAllocations): string {
+  const held = deposit.pending_approval?.length ?? 0;
+  return held > 0 ? ` ${held} payout(s) were sent for approval and will be made once approved.` : "";
+}
+
+export default function useDeposits(customerId?: number | null) {
   const { toast } = useToast();
   
+  // Fetch the deposits for a customer
+  const deposits = useQuery<CustomerDeposit[]>({
+    queryKey: [`/api/deposits?customerId=${customerId}`],
+    enabled: !!customerId,
+  });
+  
+  const invalidate = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/deposits") });
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/transactions") });
+    queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/summary"] });
+  };
+  
   const createDeposit = useMutation({
-    mutationFn: async (data: InsertCustomerDeposit) => {
+    mutationFn: async (data: CreateDepositInput): Promise<CustomerDepositWithAllocations> => {
       const response = await apiRequest("POST", "/api/deposits", data);
       return response.json();
     },
-    onSuccess: () => {
-      // Invalidate relevant queries
-      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/summary"] });
+    onSuccess: (deposit) => {
+      invalidate();
       
       toast({
         title: "Success",
-        description: "Customer deposit added successfully",
+        description: `Customer deposit added successfully.${heldPayoutsNote(deposit)}`,
       });
     },
     onError: (error) => {
@@ -29,6 +53,52 @@ export default function useDeposits() {
       });
     },
   });
+  
+  const allocateDeposit = useMutation({
+    mutationFn: async ({ depositId, ...data }: AllocateDeposit & { depositId: number }): Promise<CustomerDepositWithAllocations> => {
+      const response = await apiRequest("POST", `/api/deposits/${depositId}/allocations`, data);
+      return response.json();
+    },
+    onSuccess: (deposit) => {
+      invalidate();
+      
+      const note = heldPayoutsNote(deposit);
+      if (note) {
+        toast({
+          title: "Sent for approval",
+          description: note.trim(),
+        });
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to allocate deposit",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const reverseAllocation = useMutation({
+    mutationFn: async (allocationId: number) => {
+      await apiRequest("DELETE", `/api/deposits/allocations/${allocationId}`, undefined);
+    },
+    onSuccess: () => {
+      invalidate();
+      
+      toast({
+        title: "Success",
+        description: "Allocation reversed",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reverse allocation",
+        variant: "destructive",
+      });
+    },
+  });
 
-  return { createDeposit };
-}
\ No newline at end of file
+  return { deposits, createDeposit, allocateDeposit, reverseAllocation };
+}
@@ -0,0 +1,41 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { calculateFeeBreakdown, parseCents, type FeeBreakdown, type FeeOverrides } from "@shared/fee-engine";
+import { type FeeRates } from "@shared/schema";
+
+interface FeePreviewInput extends FeeOverrides {
+  customerId?: number;
+  vendorId?: string;
+  date?: string;
+  chequeAmount?: string;
+}
+
+export default function useFeePreview({ customerId, vendorId, date, chequeAmount, ...overrides }: FeePreviewInput) {
+  const params = new URLSearchParams({
+    customerId: String(customerId ?? ""),
+    vendorId: vendorId ?? "",
+    ...(date ? { date } : {})
+  });
+
+  // Fetch the fee rules in force on the transaction date
+  const rates = useQuery<FeeRates>({
+    queryKey: [`/api/fee-rates?${params.toString()}`],
+    enabled: !!customerId && !!vendorId,
+  });
+
+  const { customer_fee_override, vendor_fee_override } = overrides;
+
+  // Same engine the server uses, so the preview matches what gets saved
+  const breakdown = useMemo<FeeBreakdown | null>(() => {
+    if (!rates.data || parseCents(chequeAmount) <= 0) {
+      return null;
+    }
+
+    return calculateFeeBreakdown(chequeAmount!, rates.data.customer_rule, rates.data.vendor_rule, {
+      customer_fee_override: customer_fee_override || null,
+      vendor_fee_override: vendor_fee_override || null,
+    });
+  }, [rates.data, chequeAmount, customer_fee_override, vendor_fee_override]);
+
+  return { rates, breakdown };
+}
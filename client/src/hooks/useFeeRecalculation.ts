@@ -0,0 +1,53 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { type FeeRecalculation, type FeeRecalculationPreview, type FeeRecalculationRequest } from "@shared/schema";
+
+export default function useFeeRecalculation() {
+  const { toast } = useToast();
+
+  // Fetch past recalculations
+  const history = useQuery<FeeRecalculation[]>({
+    queryKey: ["/api/fee-recalculations"],
+  });
+
+  const preview = useMutation({
+    mutationFn: async (data: FeeRecalculationRequest): Promise<FeeRecalculationPreview> => {
+      const response = await apiRequest("POST", "/api/fee-recalculations/preview", data);
+      return response.json();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to preview fee recalculation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const apply = useMutation({
+    mutationFn: async (data: FeeRecalculationRequest): Promise<FeeRecalculation> => {
+      const response = await apiRequest("POST", "/api/fee-recalculations", data);
+      return response.json();
+    },
+    onSuccess: (recalculation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/fee-recalculations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/summary"] });
+
+      toast({
+        title: "Success",
+        description: `Fees recalculated on ${recalculation.transaction_count} transaction(s)`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to apply fee recalculation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return { history, preview, apply };
+}
@@ -0,0 +1,66 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { type FeeParty, type FeeSchedule, type InsertFeeSchedule } from "@shared/schema";
+
+export default function useFeeSchedules(party: FeeParty, partyId?: number | string) {
+  const { toast } = useToast();
+  const url = `/api/${party === "customer" ? "customers" : "vendors"}/${partyId}/fee-schedules`;
+  
+  // Fetch the party's rate timeline
+  const schedules = useQuery<FeeSchedule[]>({
+    queryKey: [url],
+    enabled: partyId !== undefined,
+  });
+  
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [url] });
+    // Fee previews use the rules in force on a date
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/fee-rates") });
+  };
+  
+  const createSchedule = useMutation({
+    mutationFn: async (data: InsertFeeSchedule): Promise<FeeSchedule> => {
+      const response = await apiRequest("POST", url, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      
+      toast({
+        title: "Success",
+        description: "Rate change scheduled successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to schedule rate change",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const deleteSchedule = useMutation({
+    mutationFn: async (scheduleId: number) => {
+      await apiRequest("DELETE", `/api/fee-schedules/${scheduleId}`, undefined);
+    },
+    onSuccess: () => {
+      invalidate();
+      
+      toast({
+        title: "Success",
+        description: "Rate change removed successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove rate change",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return { schedules, createSchedule, deleteSchedule };
+}
@@ -0,0 +1,32 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { type InsertTag, type Tag } from "@shared/schema";
+
+export default function useTags() {
+  const { toast } = useToast();
+
+  // Fetch every tag, by name
+  const tags = useQuery<Tag[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  const createTag = useMutation({
+    mutationFn: async (tag: InsertTag): Promise<Tag> => {
+      const response = await apiRequest("POST", "/api/tags", tag);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create tag",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return { tags, createTag };
+}
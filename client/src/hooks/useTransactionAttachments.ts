@@ -0,0 +1,83 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { type AttachmentKind, type TransactionAttachment } from "@shared/schema";
+
+type AttachmentUpload = { file: File; kind?: AttachmentKind };
+
+// Where an attachment's file is served; images without a thumbnail are served whole
+export function attachmentUrl(attachment: TransactionAttachment, options: { thumbnail?: boolean; download?: boolean } = {}): string {
+  const params = new URLSearchParams();
+  if (options.thumbnail) params.append("thumbnail", "true");
+  if (options.download) params.append("download", "true");
+  const query = params.toString();
+  return `/api/transactions/${attachment.transaction_id}/attachments/${attachment.attachment_id}/content${query ? `?${query}` : ""}`;
+}
+
+export default function useTransactionAttachments(transactionId: number) {
+  const { toast } = useToast();
+  const queryKey = [`/api/transactions/${transactionId}/attachments`];
+
+  // Fetch the cheque images and scans of the transaction
+  const attachments = useQuery<TransactionAttachment[]>({
+    queryKey,
+  });
+
+  // Files are sent as multipart uploads, so this can't go through apiRequest
+  const upload = useMutation({
+    mutationFn: async ({ file, kind }: AttachmentUpload): Promise<TransactionAttachment> => {
+      const formData = new FormData();
+      formData.append("file", file);
+      if (kind) {
+        formData.append("kind", kind);
+      }
+
+      const response = await fetch(`/api/transactions/${transactionId}/attachments`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || response.statusText);
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: "Success",
+        description: "File attached",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to attach file",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: async (attachmentId: number) => {
+      await apiRequest("DELETE", `/api/transactions/${transactionId}/attachments/${attachmentId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: "Success",
+        description: "Attachment removed",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove attachment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return { attachments, upload, remove };
+}
@@ -0,0 +1,53 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { type TransactionComment, type TransactionCommentWithUser } from "@shared/schema";
+
+export default function useTransactionComments(transactionId: number) {
+  const { toast } = useToast();
+  const queryKey = [`/api/transactions/${transactionId}/comments`];
+
+  // Fetch the comment thread of the transaction, oldest first
+  const comments = useQuery<TransactionCommentWithUser[]>({
+    queryKey,
+  });
+
+  const addComment = useMutation({
+    mutationFn: async (body: string): Promise<TransactionComment> => {
+      const response = await apiRequest("POST", `/api/transactions/${transactionId}/comments`, { body });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add comment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeComment = useMutation({
+    mutationFn: async (commentId: number) => {
+      await apiRequest("DELETE", `/api/transactions/${transactionId}/comments/${commentId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: "Success",
+        description: "Comment deleted",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete comment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return { comments, addComment, removeComment };
+}
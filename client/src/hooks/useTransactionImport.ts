@@ -0,0 +1,75 @@
+import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { type TransactionImportMapping, type TransactionImportPreview, type TransactionImportResult } from "@shared/schema";
+
+type ImportRequest = {
+  file: File;
+  mapping?: TransactionImportMapping;
+  includeDuplicates?: boolean;
+  overrideLimits?: boolean;
+};
+
+// Sheets are sent as multipart uploads, so these can't go through apiRequest
+async function postSheet<T>(url: string, { file, mapping, includeDuplicates, overrideLimits }: ImportRequest): Promise<T> {
+  const formData = new FormData();
+  formData.append("file", file);
+  if (mapping) {
+    formData.append("mapping", JSON.stringify(mapping));
+  }
+  if (includeDuplicates !== undefined) {
+    formData.append("include_duplicates", String(includeDuplicates));
+  }
+  if (overrideLimits !== undefined) {
+    formData.append("override_limits", String(overrideLimits));
+  }
+
+  const response = await fetch(url, {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || response.statusText);
+  }
+  return response.json();
+}
+
+export default function useTransactionImport() {
+  const { toast } = useToast();
+
+  const preview = useMutation({
+    mutationFn: (data: ImportRequest) => postSheet<TransactionImportPreview>("/api/transactions/import/preview", data),
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to check import file",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const commit = useMutation({
+    mutationFn: (data: ImportRequest) => postSheet<TransactionImportResult>("/api/transactions/import", data),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/summary"] });
+
+      toast({
+        title: "Success",
+        description: `Imported ${result.imported.length} transaction(s)`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import transactions",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return { preview, commit };
+}
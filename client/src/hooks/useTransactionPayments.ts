@@ -0,0 +1,67 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { heldForApproval, sentForApprovalMessage } from "@/hooks/useApprovals";
+import { type ApprovalRequestWithUsers, type InsertTransactionPayment, type TransactionPayment } from "@shared/schema";
+
+export default function useTransactionPayments(transactionId: number) {
+  const { toast } = useToast();
+  
+  // Fetch the payment history of the transaction
+  const payments = useQuery<TransactionPayment[]>({
+    queryKey: [`/api/transactions/${transactionId}/payments`],
+  });
+  
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/transactions/${transactionId}/payments`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/transactions/${transactionId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/summary"] });
+  };
+  
+  const recordPayment = useMutation({
+    mutationFn: async (data: InsertTransactionPayment): Promise<TransactionPayment | ApprovalRequestWithUsers> => {
+      const response = await apiRequest("POST", `/api/transactions/${transactionId}/payments`, data);
+      // A large payout may be sent for approval instead
+      return (await heldForApproval(response)) ?? response.json();
+    },
+    onSuccess: (result) => {
+      invalidate();
+      
+      toast({
+        title: "Success",
+        description: "approval_id" in result ? sentForApprovalMessage(result) : "Payment recorded successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record payment",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const deletePayment = useMutation({
+    mutationFn: async (paymentId: number) => {
+      await apiRequest("DELETE", `/api/transaction-payments/${paymentId}`, undefined);
+    },
+    onSuccess: () => {
+      invalidate();
+      
+      toast({
+        title: "Success",
+        description: "Payment deleted successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete payment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return { payments, recordPayment, deletePayment };
+}
@@ -0,0 +1,48 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { TransactionSearchResult } from "@shared/schema";
+
+// Filters for the transaction list, sent as the query string of GET /api/transactions
+export interface TransactionSearchFilters {
+  q?: string;
+  cheque_number?: string;
+  customer_id?: number;
+  vendor_id?: string;
+  status?: string[];
+  date_from?: string;
+  date_to?: string;
+  min_amount?: string;
+  max_amount?: string;
+  outstanding_customer?: boolean;
+  outstanding_vendor?: boolean;
+  tag_ids?: number[];
+  sort?: string;
+  limit?: number;
+}
+
+function toQueryString(filters: TransactionSearchFilters, cursor: string | null): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value === undefined || value === "" || value === false || (Array.isArray(value) && value.length === 0)) {
+      continue;
+    }
+    params.append(key, Array.isArray(value) ? value.join(",") : String(value));
+  }
+  if (cursor) {
+    params.append("cursor", cursor);
+  }
+  return params.toString();
+}
+
+// Pages through the transaction list; fetchNextPage loads the page after the last one
+export default function useTransactionSearch(filters: TransactionSearchFilters = {}) {
+  return useInfiniteQuery({
+    queryKey: ["/api/transactions", filters],
+    queryFn: async ({ pageParam }): Promise<TransactionSearchResult> => {
+      const response = await apiRequest("GET", `/api/transactions?${toQueryString(filters, pageParam)}`);
+      return response.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.next_cursor,
+  });
+}
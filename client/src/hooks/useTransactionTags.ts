@@ -0,0 +1,35 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { type Tag } from "@shared/schema";
+
+export default function useTransactionTags(transactionId: number) {
+  const { toast } = useToast();
+  const queryKey = [`/api/transactions/${transactionId}/tags`];
+
+  const transactionTags = useQuery<Tag[]>({
+    queryKey,
+  });
+
+  // Replace the transaction's tags with the given ones
+  const setTags = useMutation({
+    mutationFn: async (tagIds: number[]): Promise<Tag[]> => {
+      const response = await apiRequest("PUT", `/api/transactions/${transactionId}/tags`, { tag_ids: tagIds });
+      return response.json();
+    },
+    onSuccess: (tags) => {
+      queryClient.setQueryData(queryKey, tags);
+      // The transaction list shows each transaction's tags
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update tags",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return { transactionTags, setTags };
+}
@@ -1,10 +1,9 @@
 import { useQuery } from "@tanstack/react-query";
-import type { ChequeTransaction, TransactionWithDetails, BusinessSummary } from "@shared/schema";
+import type { TransactionSearchResult, TransactionWithDetails, BusinessSummary } from "@shared/schema";
 
 interface UseTransactionsOptions {
   id?: number;
   limit?: number;
-  offset?: number;
   customerId?: number;
   vendorId?: string;
   status?: string;
@@ -33,16 +32,12 @@ export default function useTransactions(options: UseTransactionsOptions = {}) {
     queryParams.append('limit', options.limit.toString());
   }
   
-  if (options.offset) {
-    queryParams.append('offset', options.offset.toString());
-  }
-  
   if (options.customerId) {
-    queryParams.append('customerId', options.customerId.toString());
+    queryParams.append('customer_id', options.customerId.toString());
   }
   
   if (options.vendorId) {
-    queryParams.append('vendorId', options.vendorId);
+    queryParams.append('vendor_id', options.vendorId);
   }
   
   if (options.status) {
@@ -52,8 +47,8 @@ export default function useTransactions(options: UseTransactionsOptions = {}) {
   const queryString = queryParams.toString();
   const endpoint = `/api/transactions${queryString ? `?${queryString}` : ''}`;
   
-  // Fetch transactions list with optional filters
-  return useQuery<TransactionWithDetails[]>({
+  // Fetch the first page of the transaction list with optional filters
+  return useQuery<TransactionSearchResult>({
     queryKey: [endpoint],
   });
 }
@@ -0,0 +1,67 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { type Trash, type TrashEntity } from "@shared/schema";
+
+type TrashItem = { entity: TrashEntity; id: number | string };
+
+// Lists that change when a record leaves or returns from the trash
+function invalidateTrashedLists() {
+  queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/summary"] });
+}
+
+export default function useTrash() {
+  const { toast } = useToast();
+
+  // Fetch the soft-deleted records
+  const trash = useQuery<Trash>({
+    queryKey: ["/api/trash"],
+  });
+
+  const restore = useMutation({
+    mutationFn: async ({ entity, id }: TrashItem) => {
+      const response = await apiRequest("POST", `/api/trash/${entity}/${id}/restore`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateTrashedLists();
+      toast({
+        title: "Success",
+        description: "Record restored",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore record",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const purge = useMutation({
+    mutationFn: async ({ entity, id }: TrashItem) => {
+      await apiRequest("DELETE", `/api/trash/${entity}/${id}`);
+    },
+    onSuccess: () => {
+      invalidateTrashedLists();
+      toast({
+        title: "Success",
+        description: "Record permanently deleted",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to permanently delete record",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return { trash, restore, purge };
+}
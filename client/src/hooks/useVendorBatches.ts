@@ -0,0 +1,127 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  type InsertVendorBatch,
+  type UpdateVendorBatch,
+  type VendorBatchDetails,
+  type VendorBatchReceipt,
+  type VendorBatchWithTotals,
+  type VendorPaymentWithAllocations
+} from "@shared/schema";
+
+// The printable manifest of a batch, opened in a new tab
+export function batchManifestUrl(batchId: number): string {
+  return `/api/vendor-batches/${batchId}/manifest`;
+}
+
+export default function useVendorBatches(vendorId?: string, batchId?: number | null) {
+  const { toast } = useToast();
+
+  // Fetch the vendor's batches with their totals, newest first
+  const batches = useQuery<VendorBatchWithTotals[]>({
+    queryKey: [`/api/vendor-batches?vendorId=${vendorId}`],
+    enabled: !!vendorId,
+  });
+
+  // Fetch the selected batch with its cheques and receipts
+  const batch = useQuery<VendorBatchDetails>({
+    queryKey: [`/api/vendor-batches/${batchId}`],
+    enabled: !!batchId,
+  });
+
+  // Receipts and batch changes move the vendor's figures too
+  const invalidate = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/vendor-batches") });
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/vendor-payments") });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/summary"] });
+  };
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createBatch = useMutation({
+    mutationFn: async (data: InsertVendorBatch): Promise<VendorBatchDetails> => {
+      const response = await apiRequest("POST", "/api/vendor-batches", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Success",
+        description: "Batch created successfully",
+      });
+    },
+    onError: onError("Failed to create batch"),
+  });
+
+  const updateBatch = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: UpdateVendorBatch }): Promise<VendorBatchDetails> => {
+      const response = await apiRequest("PATCH", `/api/vendor-batches/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Success",
+        description: "Batch updated successfully",
+      });
+    },
+    onError: onError("Failed to update batch"),
+  });
+
+  const deleteBatch = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/vendor-batches/${id}`, undefined);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Success",
+        description: "Batch deleted successfully",
+      });
+    },
+    onError: onError("Failed to delete batch"),
+  });
+
+  const addTransactions = useMutation({
+    mutationFn: async ({ id, transactionIds }: { id: number; transactionIds: number[] }): Promise<VendorBatchDetails> => {
+      const response = await apiRequest("POST", `/api/vendor-batches/${id}/transactions`, { transaction_ids: transactionIds });
+      return response.json();
+    },
+    onSuccess: invalidate,
+    onError: onError("Failed to add cheques to the batch"),
+  });
+
+  const removeTransactions = useMutation({
+    mutationFn: async ({ id, transactionIds }: { id: number; transactionIds: number[] }): Promise<VendorBatchDetails> => {
+      const response = await apiRequest("DELETE", `/api/vendor-batches/${id}/transactions`, { transaction_ids: transactionIds });
+      return response.json();
+    },
+    onSuccess: invalidate,
+    onError: onError("Failed to remove cheques from the batch"),
+  });
+
+  const recordReceipt = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: VendorBatchReceipt }): Promise<VendorPaymentWithAllocations> => {
+      const response = await apiRequest("POST", `/api/vendor-batches/${id}/receipts`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Success",
+        description: "Batch receipt recorded successfully",
+      });
+    },
+    onError: onError("Failed to record batch receipt"),
+  });
+
+  return { batches, batch, createBatch, updateBatch, deleteBatch, addTransactions, removeTransactions, recordReceipt };
+}
@@ -0,0 +1,64 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { type InsertVendorPayment, type VendorPayment } from "@shared/schema";
+
+export default function useVendorPayments(vendorId?: string) {
+  const { toast } = useToast();
+  
+  // Fetch payments, optionally for a single vendor
+  const payments = useQuery<VendorPayment[]>({
+    queryKey: vendorId ? [`/api/vendor-payments?vendorId=${vendorId}`] : ["/api/vendor-payments"],
+  });
+  
+  const invalidate = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/vendor-payments") });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/summary"] });
+  };
+  
+  const createPayment = useMutation({
+    mutationFn: async (data: InsertVendorPayment) => {
+      const response = await apiRequest("POST", "/api/vendor-payments", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      
+      toast({
+        title: "Success",
+        description: "Vendor payment recorded successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record vendor payment",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const deletePayment = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/vendor-payments/${id}`, undefined);
+    },
+    onSuccess: () => {
+      invalidate();
+      
+      toast({
+        title: "Success",
+        description: "Vendor payment deleted successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete vendor payment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return { payments, createPayment, deletePayment };
+}
@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+import { parseCents } from "@shared/fee-engine";
+import { type VendorRecommendation } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+interface VendorRecommendationInput {
+  customerId?: number;
+  chequeAmount?: string;
+  date?: string;
+  drawerBank?: string;
+}
+
+export default function useVendorRecommendations({ customerId, chequeAmount, date, drawerBank }: VendorRecommendationInput) {
+  const request = {
+    customer_id: customerId,
+    cheque_amount: chequeAmount,
+    date,
+    drawer_bank: drawerBank || null,
+  };
+
+  // Rank the vendors once the customer and amount are known
+  return useQuery<VendorRecommendation[]>({
+    queryKey: ["/api/vendors/recommendations", request],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/vendors/recommendations", request);
+      return await response.json();
+    },
+    enabled: !!customerId && parseCents(chequeAmount) > 0,
+    staleTime: 30 * 1000,
+  });
+}
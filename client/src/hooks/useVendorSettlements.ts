@@ -0,0 +1,38 @@
+import { useQuery } from "@tanstack/react-query";
+import type { StatementPeriod, VendorSettlement, VendorSettlementSummary } from "@shared/schema";
+
+function settlementQuery(period: StatementPeriod, overdueDays?: number): string {
+  const params = new URLSearchParams({ start_date: period.start_date, end_date: period.end_date });
+  if (overdueDays !== undefined) params.set("overdue_days", String(overdueDays));
+  return params.toString();
+}
+
+// The settlement as a PDF remittance report (opened in the browser unless
+// download is set) or as a CSV
+export function vendorSettlementUrl(
+  vendorId: string,
+  period: StatementPeriod,
+  format: "pdf" | "csv",
+  overdueDays?: number,
+  download = false,
+): string {
+  return `/api/vendors/${vendorId}/settlement/${format}?${settlementQuery(period, overdueDays)}${download ? "&download=true" : ""}`;
+}
+
+export default function useVendorSettlements(period: StatementPeriod, vendorId?: string, overdueDays?: number) {
+  const isValid = !!period.start_date && !!period.end_date && period.start_date <= period.end_date;
+
+  // Every vendor's figures, to flag overdue balances
+  const summaries = useQuery<VendorSettlementSummary[]>({
+    queryKey: [`/api/reports/vendor-settlements?${settlementQuery(period, overdueDays)}`],
+    enabled: isValid && !vendorId,
+  });
+
+  // One vendor's settlement with its cheques and receipts
+  const settlement = useQuery<VendorSettlement>({
+    queryKey: [`/api/vendors/${vendorId}/settlement?${settlementQuery(period, overdueDays)}`],
+    enabled: isValid && !!vendorId,
+  });
+
+  return { summaries, settlement };
+}
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Check, X } from "lucide-react";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import useApprovals, { APPROVAL_ACTION_LABELS } from "@/hooks/useApprovals";
+import ApprovalPoliciesPanel from "@/components/ApprovalPoliciesPanel";
+import { type ApprovalRequestWithUsers, type ApprovalStatus } from "@shared/schema";
+
+const STATUS_LABELS: Record<ApprovalStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+const CHANNEL_LABELS: Record<ApprovalRequestWithUsers["channel"], string> = {
+  web: "Web",
+  ai: "AI assistant",
+  telegram: "Telegram",
+};
+
+const TABS: ApprovalStatus[] = ["pending", "approved", "rejected"];
+
+function formatWhen(value: Date | string | null, username: string | null): string {
+  if (!value) return "—";
+  return `${format(new Date(value), "MMM d, yyyy h:mm a")}${username ? ` by ${username}` : ""}`;
+}
+
+export default function Approvals() {
+  const { user } = useAuth();
+  const [selectedTab, setSelectedTab] = useState<ApprovalStatus>("pending");
+  const [rejecting, setRejecting] = useState<ApprovalRequestWithUsers | null>(null);
+  const [note, setNote] = useState("");
+  const { requests, approve, reject } = useApprovals(selectedTab);
+  const isApprover = user?.role === "superuser" || user?.role === "admin";
+
+  const handleReject = () => {
+    if (!rejecting) return;
+    reject.mutate(
+      { id: rejecting.approval_id, note: note.trim() || undefined },
+      { onSuccess: () => { setRejecting(null); setNote(""); } },
+    );
+  };
+
+  return (
+    <div className="container mx-auto max-w-6xl p-4">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Approvals</h1>
+        <p className="text-gray-500">
+          {isApprover
+            ? "Large cheques, deletions, fee overrides and payouts waiting for a second person"
+            : "Your changes waiting for an admin's approval"}
+        </p>
+      </div>
+
+      <Tabs value={selectedTab} onValueChange={(value) => setSelectedTab(value as ApprovalStatus)} className="mb-6">
+        <TabsList className="mb-6 grid w-full max-w-md grid-cols-3">
+          {TABS.map((status) => (
+            <TabsTrigger key={status} value={status}>{STATUS_LABELS[status]}</TabsTrigger>
+          ))}
+        </TabsList>
+
+        <TabsContent value={selectedTab}>
+          <Card>
+            <CardHeader>
+              <CardTitle>{STATUS_LABELS[selectedTab]} Requests</CardTitle>
+              <CardDescription>
+                {selectedTab === "pending"
+                  ? "Approving a request applies the change as the requester's. Nobody can decide their own request."
+                  : "Requests that have been decided"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {requests.isLoading ? (
+                <p className="text-sm text-gray-500">Loading requests...</p>
+              ) : !requests.data || requests.data.length === 0 ? (
+                <p className="text-sm text-gray-500">No {STATUS_LABELS[selectedTab].toLowerCase()} requests</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>#</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Details</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Requested</TableHead>
+                      {selectedTab !== "pending" && <TableHead>Decided</TableHead>}
+                      {selectedTab === "pending" && isApprover && <TableHead />}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {requests.data.map((request) => (
+                      <TableRow key={request.approval_id}>
+                        <TableCell>{request.approval_id}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{APPROVAL_ACTION_LABELS[request.action]}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <p>{request.summary}</p>
+                          {request.decision_note && <p className="text-xs text-gray-500">Reason: {request.decision_note}</p>}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-right">${request.amount}</TableCell>
+                        <TableCell className="text-sm">
+                          {formatWhen(request.created_at, request.requested_by_username)}
+                          <p className="text-xs text-gray-500">{CHANNEL_LABELS[request.channel]}</p>
+                        </TableCell>
+                        {selectedTab !== "pending" && (
+                          <TableCell className="text-sm">{formatWhen(request.decided_at, request.decided_by_username)}</TableCell>
+                        )}
+                        {selectedTab === "pending" && isApprover && (
+                          <TableCell className="space-x-2 whitespace-nowrap text-right">
+                            {request.requested_by !== user?.user_id && (
+                              <>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  disabled={approve.isPending}
+                                  onClick={() => approve.mutate(request.approval_id)}
+                                >
+                                  <Check className="mr-1 h-3 w-3" /> Approve
+                                </Button>
+                                <Button size="sm" variant="ghost" className="text-red-500" onClick={() => setRejecting(request)}>
+                                  <X className="mr-1 h-3 w-3" /> Reject
+                                </Button>
+                              </>
+                            )}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {isApprover && <ApprovalPoliciesPanel />}
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject request #{rejecting?.approval_id}</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-600">{rejecting?.summary}</p>
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Reason (sent to the requester)"
+            maxLength={500}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={handleReject} disabled={reject.isPending}>Reject</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
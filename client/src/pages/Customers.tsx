@@ -1,18 +1,29 @@
 import { useState } from "react";
-import { Plus, Search, Edit, Trash2, Wallet } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Plus, Search, Edit, Trash2, Wallet, CalendarClock, FileText } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from "@/components/ui/form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import useCustomers from "@/hooks/useCustomers";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import CustomerDepositDialog from "@/components/CustomerDepositDialog";
+import FeeScheduleDialog from "@/components/FeeScheduleDialog";
+import CustomerStatementDialog from "@/components/CustomerStatementDialog";
+import type { Customer, CustomerExposure } from "@shared/schema";
+
+const limitField = z.string().refine(
+  (val) => val === "" || (!isNaN(parseFloat(val)) && parseFloat(val) >= 0),
+  "Limit must be zero or more"
+);
 
 const customerSchema = z.object({
   customer_name: z.string().min(2, "Name must be at least 2 characters"),
@@ -21,20 +32,63 @@ const customerSchema = z.object({
     (val) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0,
     "Fee percentage must be a number greater than or equal to 0"
   ),
+  // Blank for no limit
+  credit_limit: limitField,
+  daily_limit: limitField,
 });
 
 type CustomerFormValues = z.infer<typeof customerSchema>;
 
+const emptyCustomer: CustomerFormValues = {
+  customer_name: "",
+  contact_info: "",
+  fee_percentage: "0.00",
+  credit_limit: "",
+  daily_limit: "",
+};
+
+function LimitUsage({ label, used, limit, utilization }: { label: string; used: string; limit: string | null; utilization: number | null }) {
+  if (limit === null || utilization === null) return null;
+  const percent = Math.round(utilization * 100);
+  return (
+    <div className="mt-2">
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>{label}</span>
+        <span className={percent >= 100 ? "font-medium text-red-600" : percent >= 80 ? "font-medium text-yellow-600" : ""}>
+          ${parseFloat(used).toFixed(2)} / ${parseFloat(limit).toFixed(2)}
+        </span>
+      </div>
+      <Progress value={Math.min(percent, 100)} className="h-1.5" />
+    </div>
+  );
+}
+
 export default function Customers() {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isDepositDialogOpen, setIsDepositDialogOpen] = useState(false);
   const [currentCustomerId, setCurrentCustomerId] = useState<number | null>(null);
+  const [scheduleCustomer, setScheduleCustomer] = useState<Customer | null>(null);
+  const [statementCustomer, setStatementCustomer] = useState<Customer | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   
   const { toast } = useToast();
+  const { user } = useAuth();
+  const canSetLimits = user?.role === "admin" || user?.role === "superuser";
   const { data: customers = [], isLoading, isError } = useCustomers();
+  
+  // Returned cheque counts per customer
+  const { data: returnCounts = [] } = useQuery<{ customer_id: number; return_count: number | string; total_owed_by_customer: string }[]>({
+    queryKey: ["/api/reports/customer-return-counts"],
+  });
+  const returnCountMap = new Map(returnCounts.map(r => [r.customer_id, r]));
+
+  // How much of each customer's credit and daily limits is in use
+  const { data: exposures = [] } = useQuery<CustomerExposure[]>({
+    queryKey: ["/api/customers/exposure"],
+  });
+  const exposureMap = new Map(exposures.map(e => [e.customer_id, e]));
 
   // Cast to proper type to avoid TypeScript errors
   const customersArray = customers as any[];
@@ -44,16 +98,16 @@ export default function Customers() {
 
   const form = useForm<CustomerFormValues>({
     resolver: zodResolver(customerSchema),
-    defaultValues: {
-      customer_name: "",
-      contact_info: "",
-      fee_percentage: "0.00",
-    },
+    defaultValues: emptyCustomer,
   });
 
+  // Only admins may set limits, so the fields are left out for everyone else
+  const toApiData = ({ credit_limit, daily_limit, ...data }: CustomerFormValues) =>
+    canSetLimits ? { ...data, credit_limit, daily_limit } : data;
+
   const handleAddCustomer = async (data: CustomerFormValues) => {
     try {
-      await apiRequest("POST", "/api/customers", data);
+      await apiRequest("POST", "/api/customers", toApiData(data));
       queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
       setIsAddDialogOpen(false);
       form.reset();
@@ -74,8 +128,10 @@ export default function Customers() {
     if (!currentCustomerId) return;
     
     try {
-      await apiRequest("PATCH", `/api/customers/${currentCustomerId}`, data);
+      await apiRequest("PATCH", `/api/customers/${currentCustomerId}`, toApiData(data));
       queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${currentCustomerId}/fee-schedules`] });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/fee-rates") });
       setIsEditDialogOpen(false);
       form.reset();
       toast({
@@ -105,7 +161,7 @@ export default function Customers() {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to delete customer. Customer may have existing transactions.",
+        description: "Failed to delete customer.",
         variant: "destructive",
       });
     }
@@ -117,6 +173,8 @@ export default function Customers() {
       customer_name: customer.customer_name,
       contact_info: customer.contact_info || "",
       fee_percentage: customer.fee_percentage.toString(),
+      credit_limit: customer.credit_limit ?? "",
+      daily_limit: customer.daily_limit ?? "",
     });
     setIsEditDialogOpen(true);
   };
@@ -131,11 +189,7 @@ export default function Customers() {
       <div className="mb-6 flex items-center justify-between">
         <h1 className="text-2xl font-bold text-gray-900">Customers</h1>
         <Button onClick={() => {
-          form.reset({
-            customer_name: "",
-            contact_info: "",
-            fee_percentage: "0.00",
-          });
+          form.reset(emptyCustomer);
           setIsAddDialogOpen(true);
         }}>
           <Plus className="mr-2 h-4 w-4" />
@@ -176,6 +230,29 @@ export default function Customers() {
                     <p className="mt-2 text-sm">
                       <span className="font-medium">Fee:</span> {customer.fee_percentage}%
                     </p>
+                    {Number(returnCountMap.get(customer.customer_id)?.return_count || 0) > 0 && (
+                      <p className="text-sm text-red-600">
+                        <span className="font-medium">Returned cheques:</span> {returnCountMap.get(customer.customer_id)!.return_count}
+                        {parseFloat(returnCountMap.get(customer.customer_id)!.total_owed_by_customer) > 0 &&
+                          ` (owes $${parseFloat(returnCountMap.get(customer.customer_id)!.total_owed_by_customer).toFixed(2)})`}
+                      </p>
+                    )}
+                    {exposureMap.has(customer.customer_id) && (
+                      <>
+                        <LimitUsage
+                          label="Credit used"
+                          used={exposureMap.get(customer.customer_id)!.outstanding}
+                          limit={exposureMap.get(customer.customer_id)!.credit_limit}
+                          utilization={exposureMap.get(customer.customer_id)!.credit_utilization}
+                        />
+                        <LimitUsage
+                          label="Today's cheques"
+                          used={exposureMap.get(customer.customer_id)!.daily_volume}
+                          limit={exposureMap.get(customer.customer_id)!.daily_limit}
+                          utilization={exposureMap.get(customer.customer_id)!.daily_utilization}
+                        />
+                      </>
+                    )}
                   </div>
                   <div className="flex space-x-2">
                     <Button 
@@ -189,6 +266,12 @@ export default function Customers() {
                     >
                       <Wallet className="h-4 w-4 text-green-500" />
                     </Button>
+                    <Button variant="ghost" size="icon" title="Fee schedule" onClick={() => setScheduleCustomer(customer)}>
+                      <CalendarClock className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" title="Statement" onClick={() => setStatementCustomer(customer)}>
+                      <FileText className="h-4 w-4" />
+                    </Button>
                     <Button variant="ghost" size="icon" onClick={() => openEditDialog(customer)}>
                       <Edit className="h-4 w-4" />
                     </Button>
@@ -254,6 +337,36 @@ export default function Customers() {
                   </FormItem>
                 )}
               />
+              {canSetLimits && (
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="credit_limit"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Credit Limit</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="number" step="0.01" min="0" placeholder="No limit" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="daily_limit"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Daily Limit</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="number" step="0.01" min="0" placeholder="No limit" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={() => setIsAddDialogOpen(false)}>
                   Cancel
@@ -312,6 +425,36 @@ export default function Customers() {
                   </FormItem>
                 )}
               />
+              {canSetLimits && (
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="credit_limit"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Credit Limit</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="number" step="0.01" min="0" placeholder="No limit" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="daily_limit"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Daily Limit</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="number" step="0.01" min="0" placeholder="No limit" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={() => setIsEditDialogOpen(false)}>
                   Cancel
@@ -329,7 +472,7 @@ export default function Customers() {
           <DialogHeader>
             <DialogTitle>Confirm Deletion</DialogTitle>
           </DialogHeader>
-          <p>Are you sure you want to delete this customer? This action cannot be undone.</p>
+          <p>Are you sure you want to delete this customer? It will be moved to the trash, where it can be restored from Settings.</p>
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => setIsDeleteDialogOpen(false)}>
               Cancel
@@ -348,6 +491,22 @@ export default function Customers() {
         customers={customersArray}
         selectedCustomerId={currentCustomerId}
       />
+
+      {/* Fee Schedule Dialog */}
+      <FeeScheduleDialog
+        isOpen={scheduleCustomer !== null}
+        onOpenChange={(open) => !open && setScheduleCustomer(null)}
+        party="customer"
+        partyId={scheduleCustomer?.customer_id}
+        partyName={scheduleCustomer?.customer_name}
+      />
+
+      {/* Customer Statement Dialog */}
+      <CustomerStatementDialog
+        isOpen={statementCustomer !== null}
+        onOpenChange={(open) => !open && setStatementCustomer(null)}
+        customer={statementCustomer}
+      />
     </div>
   );
 }
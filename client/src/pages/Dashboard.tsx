@@ -1,14 +1,19 @@
-import { useState } from "react";
-import { Calendar, Search, Filter, Plus } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Calendar, Search, Filter, Plus, Upload } from "lucide-react";
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import TransactionCard from "@/components/TransactionCard";
 import SummaryCard from "@/components/SummaryCard";
 import ChatInterface from "@/components/ChatInterface";
 import DocumentProcessingModal from "@/components/DocumentProcessingModal";
 import NewTransactionModal from "@/components/NewTransactionModal";
+import TransactionImportWizard from "@/components/TransactionImportWizard";
+import TransactionBulkActions from "@/components/TransactionBulkActions";
+import TransactionFilters from "@/components/TransactionFilters";
 import useTransactions from "@/hooks/useTransactions";
+import useTransactionSearch, { type TransactionSearchFilters } from "@/hooks/useTransactionSearch";
 import { useToast } from "@/hooks/use-toast";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { BusinessSummary } from "@shared/schema";
@@ -16,22 +21,61 @@ import { BusinessSummary } from "@shared/schema";
 export default function Dashboard() {
   const [showDocModal, setShowDocModal] = useState(false);
   const [showNewTransactionModal, setShowNewTransactionModal] = useState(false);
+  const [showImportWizard, setShowImportWizard] = useState(false);
   const [showMobileChat, setShowMobileChat] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [showFilters, setShowFilters] = useState(false);
+  const [filters, setFilters] = useState<TransactionSearchFilters>({});
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
   const isMobile = useIsMobile();
   const { toast } = useToast();
 
-  const { data: transactions, isLoading, isError } = useTransactions();
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const {
+    data,
+    isLoading,
+    isError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useTransactionSearch({ ...filters, q: debouncedSearch || undefined });
   const { data: summary, isLoading: isSummaryLoading } = useTransactions({ summary: true }) as { data: BusinessSummary | undefined, isLoading: boolean };
 
-  const filteredTransactions = Array.isArray(transactions) 
-    ? transactions.filter(
-        (transaction) =>
-          transaction.cheque_number?.includes(searchQuery) ||
-          transaction.vendor?.vendor_name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          transaction.customer?.customer_name?.toLowerCase().includes(searchQuery.toLowerCase())
-      )
-    : [];
+  const filteredTransactions = data?.pages.flatMap((page) => page.transactions) ?? [];
+  const totalTransactions = data?.pages[0]?.total ?? 0;
+  const hasFilters = Object.values(filters).some((value) => value !== undefined && value !== false);
+
+  // Only act on selected transactions that are still listed
+  const selectedTransactionIds = filteredTransactions
+    .map((transaction) => transaction.transaction_id)
+    .filter((id) => selectedIds.has(id));
+  const allSelected = filteredTransactions.length > 0 && selectedTransactionIds.length === filteredTransactions.length;
+
+  const setSelected = (transactionId: number, selected: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (selected) {
+        next.add(transactionId);
+      } else {
+        next.delete(transactionId);
+      }
+      return next;
+    });
+  };
+
+  const handleSelectAll = (selected: boolean) => {
+    setSelectedIds(selected ? new Set(filteredTransactions.map((transaction) => transaction.transaction_id)) : new Set());
+  };
+
+  const handleBulkApplied = (succeeded: number[]) => {
+    setSelectedIds((current) => new Set(Array.from(current).filter((id) => !succeeded.includes(id))));
+  };
 
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSearchQuery(e.target.value);
@@ -71,16 +115,29 @@ export default function Dashboard() {
                 <Search className="absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-500" />
               </div>
               <Button
-                variant="outline"
+                variant={showFilters || hasFilters ? "secondary" : "outline"}
                 size="icon"
                 className="p-1.5"
+                title="Filter and sort"
+                onClick={() => setShowFilters(!showFilters)}
               >
                 <Filter className="h-4 w-4 text-gray-500" />
               </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                className="p-1.5"
+                title="Import transactions"
+                onClick={() => setShowImportWizard(true)}
+              >
+                <Upload className="h-4 w-4 text-gray-500" />
+              </Button>
             </div>
           </div>
         </div>
 
+        {showFilters && <TransactionFilters filters={filters} onChange={setFilters} />}
+
         {/* Summary Cards */}
         <div className="grid grid-cols-1 gap-4 p-4 sm:grid-cols-2 lg:grid-cols-3">
           <SummaryCard
@@ -103,6 +160,28 @@ export default function Dashboard() {
           />
         </div>
 
+        {/* Bulk Actions */}
+        {filteredTransactions.length > 0 && (
+          <div className="flex items-center space-x-2 border-b border-gray-200 bg-white px-4 py-2">
+            <Checkbox
+              id="select-all-transactions"
+              checked={allSelected}
+              onCheckedChange={(value) => handleSelectAll(value === true)}
+            />
+            <label htmlFor="select-all-transactions" className="text-sm text-gray-500">
+              Select all
+            </label>
+            <span className="flex-1 text-right text-xs text-gray-500">
+              Showing {filteredTransactions.length} of {totalTransactions}
+            </span>
+          </div>
+        )}
+        <TransactionBulkActions
+          selectedIds={selectedTransactionIds}
+          onClearSelection={() => setSelectedIds(new Set())}
+          onApplied={handleBulkApplied}
+        />
+
         {/* Transaction List */}
         <div className="flex-1 overflow-y-auto">
           <div className="divide-y divide-gray-200">
@@ -124,6 +203,8 @@ export default function Dashboard() {
                 <TransactionCard
                   key={transaction.transaction_id}
                   transaction={transaction}
+                  selected={selectedIds.has(transaction.transaction_id)}
+                  onSelectedChange={(selected) => setSelected(transaction.transaction_id, selected)}
                 />
               ))
             ) : (
@@ -134,6 +215,13 @@ export default function Dashboard() {
               </div>
             )}
           </div>
+          {hasNextPage && (
+            <div className="flex justify-center border-t border-gray-200 p-4">
+              <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                {isFetchingNextPage ? "Loading..." : "Load More"}
+              </Button>
+            </div>
+          )}
         </div>
       </div>
 
@@ -171,6 +259,12 @@ export default function Dashboard() {
         isOpen={showNewTransactionModal}
         onClose={() => setShowNewTransactionModal(false)}
       />
+
+      {/* Spreadsheet Import Wizard */}
+      <TransactionImportWizard
+        isOpen={showImportWizard}
+        onClose={() => setShowImportWizard(false)}
+      />
     </div>
   );
 }
@@ -10,12 +10,28 @@ import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import useCustomers from "@/hooks/useCustomers";
 import useVendors from "@/hooks/useVendors";
+import useFeePreview from "@/hooks/useFeePreview";
+import { describeFeeRule } from "@shared/fee-engine";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
+import { heldForApproval, sentForApprovalMessage } from "@/hooks/useApprovals";
 import { format } from "date-fns";
 import { ChequeTransaction } from "@shared/schema";
+import TransactionPaymentHistory from "@/components/TransactionPaymentHistory";
+import TransactionStatusHistory from "@/components/TransactionStatusHistory";
+import TransactionAttachments from "@/components/TransactionAttachments";
+import TransactionTags from "@/components/TransactionTags";
+import TransactionComments from "@/components/TransactionComments";
+import AuditHistory from "@/components/AuditHistory";
+import { TRANSACTION_STATUS_LABELS, editableTransitions, isTransactionStatus } from "@shared/transaction-status";
 import { Loader2 } from "lucide-react";
 
+// Fee entered in place of the one computed from the fee rule
+const feeOverrideField = z.string().refine(
+  (val) => val === "" || (!isNaN(parseFloat(val)) && parseFloat(val) >= 0),
+  "Fee override must be zero or more"
+).optional();
+
 const transactionSchema = z.object({
   date: z.string(),
   customer_id: z.string().min(1, "Customer is required"),
@@ -25,7 +41,14 @@ const transactionSchema = z.object({
     "Amount must be a positive number"
   ),
   vendor_id: z.string().min(1, "Vendor is required"),
+  drawer_bank: z.string().optional(),
+  customer_fee_override: feeOverrideField,
+  vendor_fee_override: feeOverrideField,
+  fee_override_reason: z.string().optional(),
   status: z.string().default("pending"),
+}).refine((data) => !(data.customer_fee_override || data.vendor_fee_override) || !!data.fee_override_reason?.trim(), {
+  message: "A reason is required when overriding a fee",
+  path: ["fee_override_reason"]
 });
 
 type TransactionFormValues = z.infer<typeof transactionSchema>;
@@ -36,14 +59,6 @@ export default function EditTransaction() {
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(true);
   const [transaction, setTransaction] = useState<ChequeTransaction | null>(null);
-  const [previewCalculations, setPreviewCalculations] = useState({
-    customerFee: 0,
-    netPayableToCustomer: 0,
-    vendorFee: 0,
-    amountFromVendor: 0,
-    estimatedProfit: 0,
-  });
-  
   const { data: customers, isLoading: isLoadingCustomers } = useCustomers();
   const { data: vendors, isLoading: isLoadingVendors } = useVendors();
 
@@ -53,6 +68,10 @@ export default function EditTransaction() {
     cheque_number: "",
     cheque_amount: "",
     vendor_id: "",
+    drawer_bank: "",
+    customer_fee_override: "",
+    vendor_fee_override: "",
+    fee_override_reason: "",
     status: "pending",
   };
 
@@ -61,6 +80,30 @@ export default function EditTransaction() {
     defaultValues,
   });
 
+  // Show a transaction in the form
+  const populateForm = (transactionData: ChequeTransaction) => {
+    setTransaction(transactionData);
+    
+    // Format date for the form
+    const formattedDate = transactionData.date 
+      ? format(new Date(transactionData.date), "yyyy-MM-dd") 
+      : format(new Date(), "yyyy-MM-dd");
+    
+    // Set form values
+    form.reset({
+      date: formattedDate,
+      customer_id: transactionData.customer_id.toString(),
+      cheque_number: transactionData.cheque_number,
+      cheque_amount: transactionData.cheque_amount?.toString() || "",
+      vendor_id: transactionData.vendor_id,
+      drawer_bank: transactionData.drawer_bank || "",
+      customer_fee_override: transactionData.customer_fee_override || "",
+      vendor_fee_override: transactionData.vendor_fee_override || "",
+      fee_override_reason: transactionData.fee_override_reason || "",
+      status: transactionData.status || "pending",
+    });
+  };
+
   // Fetch transaction data when component mounts
   useEffect(() => {
     if (!match || !params) {
@@ -83,23 +126,7 @@ export default function EditTransaction() {
           throw new Error("Failed to fetch transaction");
         }
         
-        const transactionData = await response.json();
-        setTransaction(transactionData);
-        
-        // Format date for the form
-        const formattedDate = transactionData.date 
-          ? format(new Date(transactionData.date), "yyyy-MM-dd") 
-          : format(new Date(), "yyyy-MM-dd");
-        
-        // Set form values
-        form.reset({
-          date: formattedDate,
-          customer_id: transactionData.customer_id.toString(),
-          cheque_number: transactionData.cheque_number,
-          cheque_amount: transactionData.cheque_amount?.toString() || "",
-          vendor_id: transactionData.vendor_id,
-          status: transactionData.status || "pending",
-        });
+        populateForm(await response.json());
       } catch (error) {
         console.error("Error fetching transaction:", error);
         toast({
@@ -116,60 +143,15 @@ export default function EditTransaction() {
     fetchTransaction();
   }, [match, params, navigate, toast, form]);
 
-  // Setup a subscription to watch form changes
-  useEffect(() => {
-    // Subscribe to form changes
-    const subscription = form.watch((value, { name }) => {
-      // Only recalculate if relevant fields change
-      if (['customer_id', 'vendor_id', 'cheque_amount'].includes(name || '')) {
-        const formValues = form.getValues();
-        const customerId = parseInt(formValues.customer_id || '0');
-        const vendorId = formValues.vendor_id;
-        const chequeAmount = parseFloat(formValues.cheque_amount || '0');
-        
-        if (!customerId || !vendorId || isNaN(chequeAmount) || chequeAmount <= 0) {
-          setPreviewCalculations({
-            customerFee: 0,
-            netPayableToCustomer: 0,
-            vendorFee: 0,
-            amountFromVendor: 0,
-            estimatedProfit: 0,
-          });
-          return;
-        }
-        
-        // Find the customer and vendor
-        const customer = Array.isArray(customers) 
-          ? customers.find(c => c.customer_id === customerId) 
-          : null;
-        const vendor = Array.isArray(vendors)
-          ? vendors.find(v => v.vendor_id === vendorId)
-          : null;
-          
-        if (!customer || !vendor) return;
-        
-        // Calculate fees
-        const customerFeePercentage = parseFloat(customer.fee_percentage?.toString() || '0');
-        const vendorFeePercentage = parseFloat(vendor.fee_percentage?.toString() || '0');
-        
-        const customerFee = chequeAmount * (customerFeePercentage / 100);
-        const netPayableToCustomer = chequeAmount - customerFee;
-        const vendorFee = chequeAmount * (vendorFeePercentage / 100);
-        const amountFromVendor = chequeAmount - vendorFee;
-        const estimatedProfit = customerFee - vendorFee;
-        
-        setPreviewCalculations({
-          customerFee,
-          netPayableToCustomer,
-          vendorFee,
-          amountFromVendor,
-          estimatedProfit,
-        });
-      }
-    });
-    
-    return () => subscription.unsubscribe();
-  }, [form, customers, vendors]);
+  const watchedValues = form.watch();
+  const { rates: feeRates, breakdown } = useFeePreview({
+    customerId: parseInt(watchedValues.customer_id) || undefined,
+    vendorId: watchedValues.vendor_id || undefined,
+    date: watchedValues.date,
+    chequeAmount: watchedValues.cheque_amount,
+    customer_fee_override: watchedValues.customer_fee_override,
+    vendor_fee_override: watchedValues.vendor_fee_override,
+  });
 
   const onSubmit = async (data: TransactionFormValues) => {
     if (!transaction) return;
@@ -181,20 +163,24 @@ export default function EditTransaction() {
         customer_id: parseInt(data.customer_id),
         cheque_amount: data.cheque_amount,
         date: new Date(data.date),
-        // Calculate estimated profit and customer fee
-        profit: previewCalculations.estimatedProfit,
-        customer_fee: previewCalculations.customerFee
+        drawer_bank: data.drawer_bank || null,
+        customer_fee_override: data.customer_fee_override || null,
+        vendor_fee_override: data.vendor_fee_override || null,
+        fee_override_reason: data.fee_override_reason || null,
       };
 
-      await apiRequest("PATCH", `/api/transactions/${transaction.transaction_id}`, apiData);
+      const response = await apiRequest("PATCH", `/api/transactions/${transaction.transaction_id}`, apiData);
+      const approval = await heldForApproval(response);
       
       // Invalidate queries to refresh the data
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/summary"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/transactions/${transaction.transaction_id}/status-history`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/audit/transaction/${transaction.transaction_id}`] });
       
       toast({
         title: "Success",
-        description: "Transaction updated successfully",
+        description: approval ? sentForApprovalMessage(approval) : "Transaction updated successfully",
       });
       
       navigate("/");
@@ -203,11 +189,19 @@ export default function EditTransaction() {
       toast({
         variant: "destructive",
         title: "Error",
-        description: "Failed to update transaction",
+        description: error instanceof Error && error.message.startsWith("409")
+          ? "This status change is not allowed"
+          : "Failed to update transaction",
       });
     }
   };
 
+  const currentStatus = transaction?.status || "pending";
+  const statusOptions = [
+    ...(isTransactionStatus(currentStatus) ? [currentStatus] : []),
+    ...editableTransitions(currentStatus),
+  ];
+
   if (isLoading || !transaction) {
     return (
       <div className="container mx-auto flex h-[70vh] items-center justify-center">
@@ -311,6 +305,20 @@ export default function EditTransaction() {
                 )}
               />
               
+              <FormField
+                control={form.control}
+                name="drawer_bank"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Drawer Bank</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Bank the cheque is drawn on (optional)" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
               <FormField
                 control={form.control}
                 name="vendor_id"
@@ -361,9 +369,12 @@ export default function EditTransaction() {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="pending">Pending</SelectItem>
-                        <SelectItem value="completed">Completed</SelectItem>
-                        <SelectItem value="bounced">Bounced</SelectItem>
+                        {/* Current status plus the ones it can legally move to */}
+                        {statusOptions.map((status) => (
+                          <SelectItem key={status} value={status}>
+                            {TRANSACTION_STATUS_LABELS[status]}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -372,28 +383,77 @@ export default function EditTransaction() {
               />
             </div>
             
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+              <FormField
+                control={form.control}
+                name="customer_fee_override"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Customer Fee Override</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" placeholder="Use fee rule" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={form.control}
+                name="vendor_fee_override"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vendor Fee Override</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" placeholder="Use fee rule" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={form.control}
+                name="fee_override_reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Override Reason</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Required when overriding a fee" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            
             <div className="rounded-md bg-gray-50 p-4">
               <h4 className="font-medium">Fee Calculation Preview</h4>
+              {feeRates.data && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Customer rule: {describeFeeRule(feeRates.data.customer_rule)} · Vendor rule: {describeFeeRule(feeRates.data.vendor_rule)}
+                </p>
+              )}
               <div className="mt-3 grid grid-cols-2 gap-4 text-sm">
                 <div>
                   <span className="text-gray-500">Customer Fee:</span>
-                  <span className="ml-2 font-medium">${previewCalculations.customerFee.toFixed(2)}</span>
+                  <span className="ml-2 font-medium">${breakdown?.customer_fee ?? "0.00"}{breakdown?.customer_fee_source === "override" && " (override)"}</span>
                 </div>
                 <div>
                   <span className="text-gray-500">Net Payable to Customer:</span>
-                  <span className="ml-2 font-medium">${previewCalculations.netPayableToCustomer.toFixed(2)}</span>
+                  <span className="ml-2 font-medium">${breakdown?.net_payable_to_customer ?? "0.00"}</span>
                 </div>
                 <div>
                   <span className="text-gray-500">Vendor Fee:</span>
-                  <span className="ml-2 font-medium">${previewCalculations.vendorFee.toFixed(2)}</span>
+                  <span className="ml-2 font-medium">${breakdown?.vendor_fee ?? "0.00"}{breakdown?.vendor_fee_source === "override" && " (override)"}</span>
                 </div>
                 <div>
                   <span className="text-gray-500">Amount from Vendor:</span>
-                  <span className="ml-2 font-medium">${previewCalculations.amountFromVendor.toFixed(2)}</span>
+                  <span className="ml-2 font-medium">${breakdown?.amount_to_receive_from_vendor ?? "0.00"}</span>
                 </div>
                 <div>
                   <span className="text-gray-500">Estimated Profit:</span>
-                  <span className="ml-2 font-medium text-green-600">${previewCalculations.estimatedProfit.toFixed(2)}</span>
+                  <span className="ml-2 font-medium text-green-600">${breakdown?.profit ?? "0.00"}</span>
                 </div>
               </div>
             </div>
@@ -408,6 +468,25 @@ export default function EditTransaction() {
             </div>
           </form>
         </Form>
+        
+        <div className="space-y-2 rounded-md border p-4">
+          <h4 className="font-medium">Tags</h4>
+          <TransactionTags transactionId={transaction.transaction_id} editable />
+        </div>
+        
+        <TransactionComments transactionId={transaction.transaction_id} />
+        
+        <TransactionAttachments transactionId={transaction.transaction_id} editable />
+        
+        <TransactionPaymentHistory transaction={transaction} />
+        
+        <TransactionStatusHistory transactionId={transaction.transaction_id} />
+        
+        <AuditHistory<ChequeTransaction>
+          entity="transaction"
+          entityId={transaction.transaction_id}
+          onReverted={populateForm}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,219 @@
+import { useRef, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, EyeOff, Trash2, Undo2, Upload } from "lucide-react";
+import useBankStatements from "@/hooks/useBankStatements";
+import { type BankMatchType, type BankStatementLineWithMatches, type ReconciliationStatus } from "@shared/schema";
+
+const MATCH_TYPE_LABELS: Record<BankMatchType, string> = {
+  transaction: "Cheque",
+  batch: "Batch",
+  vendor_payment: "Vendor payment",
+  customer_deposit: "Customer deposit",
+};
+
+const STATUS_LABELS: Record<ReconciliationStatus, string> = {
+  matched: "Matched",
+  suggested: "Suggested",
+  unmatched: "Unmatched",
+  ignored: "Ignored",
+};
+
+const STATUS_CLASSES: Record<ReconciliationStatus, string> = {
+  matched: "bg-green-100 text-green-800",
+  suggested: "bg-amber-100 text-amber-800",
+  unmatched: "bg-gray-100 text-gray-800",
+  ignored: "bg-slate-100 text-slate-500",
+};
+
+const TABS: ReconciliationStatus[] = ["suggested", "unmatched", "matched", "ignored"];
+
+interface LineRowProps {
+  line: BankStatementLineWithMatches;
+  actions: ReturnType<typeof useBankStatements>;
+}
+
+function LineRow({ line, actions }: LineRowProps) {
+  const { matchLine, unmatchLine, ignoreLine } = actions;
+  const busy = matchLine.isPending || unmatchLine.isPending || ignoreLine.isPending;
+  const isCredit = parseFloat(line.amount) > 0;
+
+  return (
+    <TableRow>
+      <TableCell className="whitespace-nowrap">{line.date}</TableCell>
+      <TableCell>
+        <p>{line.description || "-"}</p>
+        {line.reference && <p className="text-xs text-gray-500">Ref {line.reference}</p>}
+      </TableCell>
+      <TableCell className={`whitespace-nowrap text-right font-medium ${isCredit ? "text-green-700" : "text-red-600"}`}>
+        ${line.amount}
+      </TableCell>
+      <TableCell>
+        {line.reconciliation_status === "matched" ? (
+          <span className="text-sm">{line.match_description}</span>
+        ) : line.candidates.length > 0 ? (
+          <ul className="space-y-1">
+            {line.candidates.map((candidate) => (
+              <li key={`${candidate.match_type}-${candidate.id}`} className="flex items-center justify-between space-x-2 text-sm">
+                <span>
+                  <Badge variant="outline" className="mr-2">{MATCH_TYPE_LABELS[candidate.match_type]}</Badge>
+                  {candidate.description}
+                  <span className="ml-2 text-gray-500">
+                    {candidate.date} · ${candidate.amount}
+                    {candidate.memo_match ? " · named in memo" : ""}
+                  </span>
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={busy || line.reconciliation_status === "ignored"}
+                  onClick={() => matchLine.mutate({ lineId: line.line_id, match: { match_type: candidate.match_type, id: candidate.id } })}
+                >
+                  <Check className="mr-1 h-3 w-3" /> Confirm
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <span className="text-sm text-gray-500">{isCredit ? "Nothing matches this amount" : "No customer deposit matches this amount"}</span>
+        )}
+      </TableCell>
+      <TableCell className="whitespace-nowrap text-right">
+        {line.reconciliation_status === "matched" || line.reconciliation_status === "ignored" ? (
+          <Button size="sm" variant="ghost" disabled={busy} onClick={() => unmatchLine.mutate(line.line_id)}>
+            <Undo2 className="mr-1 h-3 w-3" /> {line.reconciliation_status === "matched" ? "Unmatch" : "Restore"}
+          </Button>
+        ) : (
+          <Button size="sm" variant="ghost" disabled={busy} onClick={() => ignoreLine.mutate(line.line_id)}>
+            <EyeOff className="mr-1 h-3 w-3" /> Ignore
+          </Button>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export default function Reconciliation() {
+  const [statementId, setStatementId] = useState<number | null>(null);
+  const [selectedTab, setSelectedTab] = useState<ReconciliationStatus>("suggested");
+  const fileInput = useRef<HTMLInputElement>(null);
+  const actions = useBankStatements(statementId);
+  const { statements, statement, upload, deleteStatement } = actions;
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    upload.mutate(file, {
+      onSuccess: (imported) => setStatementId(imported.statement_id),
+    });
+  };
+
+  const lines = statement.data?.lines ?? [];
+  const countOf = (status: ReconciliationStatus) => lines.filter((line) => line.reconciliation_status === status).length;
+
+  return (
+    <div className="container mx-auto max-w-6xl p-4">
+      <div className="mb-6 flex flex-col space-y-4 md:flex-row md:items-center md:justify-between md:space-y-0">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Reconciliation</h1>
+          <p className="text-gray-500">Match bank statement lines to vendor receipts and customer deposits</p>
+        </div>
+        <div>
+          <input ref={fileInput} type="file" accept=".csv,.ofx,.qfx" className="hidden" onChange={handleFile} />
+          <Button onClick={() => fileInput.current?.click()} disabled={upload.isPending} className="flex items-center">
+            <Upload className="mr-2 h-4 w-4" />
+            {upload.isPending ? "Importing..." : "Import Statement"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="mb-6 flex items-center space-x-2">
+        <Select
+          value={statementId ? statementId.toString() : ""}
+          onValueChange={(value) => setStatementId(parseInt(value))}
+          disabled={!statements.data || statements.data.length === 0}
+        >
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder={statements.isLoading ? "Loading statements..." : "Select a statement"} />
+          </SelectTrigger>
+          <SelectContent>
+            {statements.data?.map((item) => (
+              <SelectItem key={item.statement_id} value={item.statement_id.toString()}>
+                {item.file_name}
+                {item.start_date ? ` · ${item.start_date} to ${item.end_date}` : ""}
+                {` · ${item.matched_count + item.ignored_count}/${item.line_count} reconciled`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {statement.data && statement.data.matched_count === 0 && (
+          <Button
+            variant="ghost"
+            className="text-red-500"
+            disabled={deleteStatement.isPending}
+            onClick={() => deleteStatement.mutate(statement.data.statement_id, { onSuccess: () => setStatementId(null) })}
+          >
+            <Trash2 className="mr-1 h-4 w-4" /> Delete
+          </Button>
+        )}
+      </div>
+
+      {!statementId ? (
+        <p className="text-sm text-gray-500">
+          Import a CSV or OFX statement from your bank, or pick one you have imported already.
+        </p>
+      ) : statement.isLoading || !statement.data ? (
+        <p className="text-sm text-gray-500">Loading statement...</p>
+      ) : (
+        <Tabs value={selectedTab} onValueChange={(value) => setSelectedTab(value as ReconciliationStatus)}>
+          <TabsList className="mb-6 grid w-full max-w-lg grid-cols-4">
+            {TABS.map((status) => (
+              <TabsTrigger key={status} value={status}>
+                {STATUS_LABELS[status]} ({countOf(status)})
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          <TabsContent value={selectedTab}>
+            <Card>
+              <CardHeader>
+                <CardTitle>{statement.data.file_name}</CardTitle>
+                <CardDescription>
+                  {statement.data.account ? `Account ${statement.data.account} · ` : ""}
+                  <Badge variant="outline" className={STATUS_CLASSES[selectedTab]}>{STATUS_LABELS[selectedTab]}</Badge>
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {countOf(selectedTab) === 0 ? (
+                  <p className="text-sm text-gray-500">No {STATUS_LABELS[selectedTab].toLowerCase()} lines</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Description</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead>{selectedTab === "matched" ? "Matched to" : "Candidates"}</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {lines
+                        .filter((line) => line.reconciliation_status === selectedTab)
+                        .map((line) => <LineRow key={line.line_id} line={line} actions={actions} />)}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import { useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { CustomerExposure } from "@shared/schema";
 
 // Add hooks for each report type
 function useCustomerBalances() {
@@ -71,6 +72,25 @@ function useProfitByCustomer() {
   });
 }
 
+function useCustomersNearLimit() {
+  return useQuery<CustomerExposure[]>({
+    queryKey: ['/api/reports/customer-exposure'],
+    queryFn: async () => {
+      try {
+        const response = await fetch('/api/reports/customer-exposure');
+        if (!response.ok) {
+          throw new Error(`Error fetching customer exposure: ${response.statusText}`);
+        }
+        const data = await response.json();
+        return data || [];
+      } catch (error) {
+        console.error("Error fetching customer exposure:", error);
+        return [];
+      }
+    }
+  });
+}
+
 function useProfitByVendor() {
   return useQuery<any[]>({
     queryKey: ['/api/reports/profit-by-vendor'],
@@ -208,6 +228,7 @@ export default function Reports() {
   const { data: customerBalances, isLoading: customerBalancesLoading } = useCustomerBalances();
   const { data: vendorBalances, isLoading: vendorBalancesLoading } = useVendorBalances();
   const { data: profitByCustomer, isLoading: profitByCustomerLoading } = useProfitByCustomer();
+  const { data: customersNearLimit, isLoading: customersNearLimitLoading } = useCustomersNearLimit();
   const { data: profitByVendor, isLoading: profitByVendorLoading } = useProfitByVendor();
   const { data: profitSummary, isLoading: profitSummaryLoading } = useProfitSummary(profitPeriod);
   const { data: outstandingBalances, isLoading: outstandingBalancesLoading } = useOutstandingBalances();
@@ -553,6 +574,51 @@ export default function Reports() {
             </CardContent>
           </Card>
           
+          <div className="mt-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Customers Near Their Limits</CardTitle>
+                <CardDescription>Customers using 80% or more of their credit or daily limit</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {customersNearLimitLoading ? (
+                  <p>Loading customer limits...</p>
+                ) : customersNearLimit && customersNearLimit.length > 0 ? (
+                  <div className="overflow-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Customer</TableHead>
+                          <TableHead>Outstanding</TableHead>
+                          <TableHead>Credit Limit</TableHead>
+                          <TableHead>Today's Cheques</TableHead>
+                          <TableHead>Daily Limit</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {customersNearLimit.map((item) => (
+                          <TableRow key={item.customer_id}>
+                            <TableCell className="font-medium">{item.customer_name}</TableCell>
+                            <TableCell>${parseFloat(item.outstanding).toFixed(2)}</TableCell>
+                            <TableCell>
+                              {item.credit_limit === null ? "None" : `$${parseFloat(item.credit_limit).toFixed(2)} (${Math.round((item.credit_utilization ?? 0) * 100)}%)`}
+                            </TableCell>
+                            <TableCell>${parseFloat(item.daily_volume).toFixed(2)}</TableCell>
+                            <TableCell>
+                              {item.daily_limit === null ? "None" : `$${parseFloat(item.daily_limit).toFixed(2)} (${Math.round((item.daily_utilization ?? 0) * 100)}%)`}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                ) : (
+                  <p>No customers are near their limits</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+          
           <div className="mt-6">
             <Card>
               <CardHeader>
@@ -711,7 +777,7 @@ export default function Reports() {
                           <TableCell>{item.vendor_name}</TableCell>
                           <TableCell>
                             <span className={`px-2 py-1 rounded-full text-xs 
-                              ${(item.status === 'completed' || item.status === 'Completed') ? 'bg-green-100 text-green-800' : 
+                              ${(item.status === 'settled' || item.status === 'completed' || item.status === 'Completed') ? 'bg-green-100 text-green-800' : 
                                 (item.status === 'pending' || item.status === 'Pending') ? 'bg-yellow-100 text-yellow-800' : 
                                 'bg-red-100 text-red-800'}`}>
                               {typeof item.status === 'string' ? 
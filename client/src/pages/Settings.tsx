@@ -33,6 +33,9 @@ import {
 } from "@/components/ui/table";
 import { Loader2, Plus, Pencil, Trash2, Shield } from "lucide-react";
 import { InsertUser } from "@shared/schema";
+import FeeRecalculationPanel from "@/components/FeeRecalculationPanel";
+import TrashPanel from "@/components/TrashPanel";
+import AccountingPeriodsPanel from "@/components/AccountingPeriodsPanel";
 
 // Create our own User interface to match backend structure
 interface AppUser {
@@ -373,6 +376,9 @@ export default function Settings() {
     { value: "appearance", label: "Appearance" },
     { value: "notifications", label: "Notifications" },
     ...(isAdminOrSuperuser ? [{ value: "users", label: "User Management" }] : []),
+    ...(isAdminOrSuperuser ? [{ value: "fees", label: "Fee Recalculation" }] : []),
+    ...(isAdminOrSuperuser ? [{ value: "periods", label: "Periods" }] : []),
+    { value: "trash", label: "Trash" },
     { value: "advanced", label: "Advanced" }
   ];
   
@@ -826,6 +832,22 @@ export default function Settings() {
           </TabsContent>
         )}
         
+        {isAdminOrSuperuser && (
+          <TabsContent value="fees">
+            <FeeRecalculationPanel />
+          </TabsContent>
+        )}
+        
+        {isAdminOrSuperuser && (
+          <TabsContent value="periods">
+            <AccountingPeriodsPanel />
+          </TabsContent>
+        )}
+        
+        <TabsContent value="trash">
+          <TrashPanel />
+        </TabsContent>
+        
         <TabsContent value="advanced">
           <Card>
             <CardHeader>
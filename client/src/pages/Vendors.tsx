@@ -1,18 +1,30 @@
 import { useState } from "react";
-import { Plus, Search, Edit, Trash2 } from "lucide-react";
+import { Plus, Search, Edit, Trash2, DollarSign, CalendarClock, Package, FileText } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from "@/components/ui/form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useForm } from "react-hook-form";
+import { useForm, type Control } from "react-hook-form";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import useVendors from "@/hooks/useVendors";
+import VendorPaymentDialog from "@/components/VendorPaymentDialog";
+import VendorBatchDialog from "@/components/VendorBatchDialog";
+import FeeScheduleDialog from "@/components/FeeScheduleDialog";
+import VendorSettlementDialog from "@/components/VendorSettlementDialog";
+import useVendorSettlements from "@/hooks/useVendorSettlements";
+import type { Vendor, VendorSettlementSummary } from "@shared/schema";
+import { format, startOfMonth } from "date-fns";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 
+const amountField = z.string().refine(
+  (val) => val === "" || (!isNaN(parseFloat(val)) && parseFloat(val) >= 0),
+  "Amount must be zero or more"
+);
+
 const vendorSchema = z.object({
   vendor_name: z.string().min(2, "Name must be at least 2 characters"),
   contact_info: z.string().optional(),
@@ -20,19 +32,105 @@ const vendorSchema = z.object({
     (val) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0,
     "Fee percentage must be a number greater than or equal to 0"
   ),
+  // Routing rules, blank for none
+  daily_capacity: amountField,
+  weekly_capacity: amountField,
+  min_cheque_amount: amountField,
+  max_cheque_amount: amountField,
+  accepted_banks: z.string(), // Comma-separated
+}).refine((data) => !data.min_cheque_amount || !data.max_cheque_amount || parseFloat(data.min_cheque_amount) <= parseFloat(data.max_cheque_amount), {
+  message: "Maximum can't be less than the minimum",
+  path: ["max_cheque_amount"]
 });
 
 type VendorFormValues = z.infer<typeof vendorSchema>;
 
+const emptyVendor: VendorFormValues = {
+  vendor_name: "",
+  contact_info: "",
+  fee_percentage: "0.00",
+  daily_capacity: "",
+  weekly_capacity: "",
+  min_cheque_amount: "",
+  max_cheque_amount: "",
+  accepted_banks: "",
+};
+
+const ROUTING_FIELDS = [
+  { name: "daily_capacity", label: "Daily Capacity" },
+  { name: "weekly_capacity", label: "Weekly Capacity" },
+  { name: "min_cheque_amount", label: "Minimum Cheque" },
+  { name: "max_cheque_amount", label: "Maximum Cheque" },
+] as const;
+
+function RoutingFields({ control }: { control: Control<VendorFormValues> }) {
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <h4 className="font-medium">Routing Rules</h4>
+      <div className="grid grid-cols-2 gap-4">
+        {ROUTING_FIELDS.map(({ name, label }) => (
+          <FormField
+            key={name}
+            control={control}
+            name={name}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{label}</FormLabel>
+                <FormControl>
+                  <Input {...field} type="number" step="0.01" min="0" placeholder="No limit" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+      </div>
+      <FormField
+        control={control}
+        name="accepted_banks"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Accepted Banks</FormLabel>
+            <FormControl>
+              <Input {...field} placeholder="Any bank (or a comma-separated list)" />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
+
+function OverdueBalance({ totals }: { totals?: VendorSettlementSummary["totals"] }) {
+  if (!totals || totals.overdue_count === 0) return null;
+  return (
+    <p className="mt-2 text-sm font-medium text-red-600">
+      Overdue: ${totals.overdue_amount} on {totals.overdue_count} cheque{totals.overdue_count === 1 ? "" : "s"}
+    </p>
+  );
+}
+
 export default function Vendors() {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [currentVendorId, setCurrentVendorId] = useState<string | null>(null);
+  const [paymentVendor, setPaymentVendor] = useState<Vendor | null>(null);
+  const [batchVendor, setBatchVendor] = useState<Vendor | null>(null);
+  const [scheduleVendor, setScheduleVendor] = useState<Vendor | null>(null);
+  const [settlementVendor, setSettlementVendor] = useState<Vendor | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   
   const { toast } = useToast();
   const { data: vendors, isLoading, isError } = useVendors();
+  
+  // This month's settlement figures, to flag vendors with overdue balances
+  const { summaries } = useVendorSettlements({
+    start_date: format(startOfMonth(new Date()), "yyyy-MM-dd"),
+    end_date: format(new Date(), "yyyy-MM-dd"),
+  });
+  const overdueByVendor = new Map((summaries.data ?? []).map((summary) => [summary.vendor.vendor_id, summary.totals]));
 
   const filteredVendors = vendors?.filter(
     (vendor) => vendor.vendor_name.toLowerCase().includes(searchQuery.toLowerCase())
@@ -40,16 +138,17 @@ export default function Vendors() {
 
   const form = useForm<VendorFormValues>({
     resolver: zodResolver(vendorSchema),
-    defaultValues: {
-      vendor_name: "",
-      contact_info: "",
-      fee_percentage: "0.00",
-    },
+    defaultValues: emptyVendor,
+  });
+
+  const toApiData = ({ accepted_banks, ...data }: VendorFormValues) => ({
+    ...data,
+    accepted_banks: accepted_banks.split(",").map((bank) => bank.trim()).filter(Boolean),
   });
 
   const handleAddVendor = async (data: VendorFormValues) => {
     try {
-      await apiRequest("POST", "/api/vendors", data);
+      await apiRequest("POST", "/api/vendors", toApiData(data));
       queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
       setIsAddDialogOpen(false);
       form.reset();
@@ -70,8 +169,10 @@ export default function Vendors() {
     if (!currentVendorId) return;
     
     try {
-      await apiRequest("PATCH", `/api/vendors/${currentVendorId}`, data);
+      await apiRequest("PATCH", `/api/vendors/${currentVendorId}`, toApiData(data));
       queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/vendors/${currentVendorId}/fee-schedules`] });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/fee-rates") });
       setIsEditDialogOpen(false);
       form.reset();
       toast({
@@ -101,7 +202,7 @@ export default function Vendors() {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to delete vendor. Vendor may have existing transactions.",
+        description: "Failed to delete vendor.",
         variant: "destructive",
       });
     }
@@ -113,6 +214,11 @@ export default function Vendors() {
       vendor_name: vendor.vendor_name,
       contact_info: vendor.contact_info || "",
       fee_percentage: vendor.fee_percentage.toString(),
+      daily_capacity: vendor.daily_capacity ?? "",
+      weekly_capacity: vendor.weekly_capacity ?? "",
+      min_cheque_amount: vendor.min_cheque_amount ?? "",
+      max_cheque_amount: vendor.max_cheque_amount ?? "",
+      accepted_banks: (vendor.accepted_banks ?? []).join(", "),
     });
     setIsEditDialogOpen(true);
   };
@@ -127,11 +233,7 @@ export default function Vendors() {
       <div className="mb-6 flex items-center justify-between">
         <h1 className="text-2xl font-bold text-gray-900">Vendors</h1>
         <Button onClick={() => {
-          form.reset({
-            vendor_name: "",
-            contact_info: "",
-            fee_percentage: "0.00",
-          });
+          form.reset(emptyVendor);
           setIsAddDialogOpen(true);
         }}>
           <Plus className="mr-2 h-4 w-4" />
@@ -175,8 +277,41 @@ export default function Vendors() {
                     <p className="text-sm">
                       <span className="font-medium">Fee:</span> {vendor.fee_percentage}%
                     </p>
+                    {(vendor.daily_capacity || vendor.weekly_capacity) && (
+                      <p className="text-sm">
+                        <span className="font-medium">Capacity:</span>{" "}
+                        {[
+                          vendor.daily_capacity && `$${vendor.daily_capacity}/day`,
+                          vendor.weekly_capacity && `$${vendor.weekly_capacity}/week`,
+                        ].filter(Boolean).join(", ")}
+                      </p>
+                    )}
+                    {(vendor.min_cheque_amount || vendor.max_cheque_amount) && (
+                      <p className="text-sm">
+                        <span className="font-medium">Cheques:</span>{" "}
+                        {vendor.min_cheque_amount ? `$${vendor.min_cheque_amount}` : "Any"} – {vendor.max_cheque_amount ? `$${vendor.max_cheque_amount}` : "any"}
+                      </p>
+                    )}
+                    {vendor.accepted_banks && vendor.accepted_banks.length > 0 && (
+                      <p className="text-sm">
+                        <span className="font-medium">Banks:</span> {vendor.accepted_banks.join(", ")}
+                      </p>
+                    )}
+                    <OverdueBalance totals={overdueByVendor.get(vendor.vendor_id)} />
                   </div>
                   <div className="flex space-x-2">
+                    <Button variant="ghost" size="icon" title="Vendor payments" onClick={() => setPaymentVendor(vendor)}>
+                      <DollarSign className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" title="Cheque batches" onClick={() => setBatchVendor(vendor)}>
+                      <Package className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" title="Fee schedule" onClick={() => setScheduleVendor(vendor)}>
+                      <CalendarClock className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" title="Settlement" onClick={() => setSettlementVendor(vendor)}>
+                      <FileText className="h-4 w-4" />
+                    </Button>
                     <Button variant="ghost" size="icon" onClick={() => openEditDialog(vendor)}>
                       <Edit className="h-4 w-4" />
                     </Button>
@@ -197,7 +332,7 @@ export default function Vendors() {
 
       {/* Add Vendor Dialog */}
       <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Add New Vendor</DialogTitle>
           </DialogHeader>
@@ -242,6 +377,7 @@ export default function Vendors() {
                   </FormItem>
                 )}
               />
+              <RoutingFields control={form.control} />
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={() => setIsAddDialogOpen(false)}>
                   Cancel
@@ -255,7 +391,7 @@ export default function Vendors() {
 
       {/* Edit Vendor Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Vendor</DialogTitle>
           </DialogHeader>
@@ -300,6 +436,7 @@ export default function Vendors() {
                   </FormItem>
                 )}
               />
+              <RoutingFields control={form.control} />
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={() => setIsEditDialogOpen(false)}>
                   Cancel
@@ -311,13 +448,43 @@ export default function Vendors() {
         </DialogContent>
       </Dialog>
 
+      {/* Vendor Payments Dialog */}
+      <VendorPaymentDialog
+        isOpen={paymentVendor !== null}
+        onOpenChange={(open) => !open && setPaymentVendor(null)}
+        vendor={paymentVendor}
+      />
+
+      {/* Cheque Batches Dialog */}
+      <VendorBatchDialog
+        isOpen={batchVendor !== null}
+        onOpenChange={(open) => !open && setBatchVendor(null)}
+        vendor={batchVendor}
+      />
+
+      {/* Fee Schedule Dialog */}
+      <FeeScheduleDialog
+        isOpen={scheduleVendor !== null}
+        onOpenChange={(open) => !open && setScheduleVendor(null)}
+        party="vendor"
+        partyId={scheduleVendor?.vendor_id}
+        partyName={scheduleVendor?.vendor_name}
+      />
+
+      {/* Vendor Settlement Dialog */}
+      <VendorSettlementDialog
+        isOpen={settlementVendor !== null}
+        onOpenChange={(open) => !open && setSettlementVendor(null)}
+        vendor={settlementVendor}
+      />
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Confirm Deletion</DialogTitle>
           </DialogHeader>
-          <p>Are you sure you want to delete this vendor? This action cannot be undone.</p>
+          <p>Are you sure you want to delete this vendor? It will be moved to the trash, where it can be restored from Settings.</p>
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => setIsDeleteDialogOpen(false)}>
               Cancel
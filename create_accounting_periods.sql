@@ -0,0 +1,24 @@
+-- Accounting periods that have been closed. Nothing dated in a closed month can
+-- be edited, deleted, deposited or recalculated until a superuser reopens it.
+-- Closing and reopening are recorded in the audit trail against the period.
+
+ALTER TYPE audit_entity ADD VALUE IF NOT EXISTS 'period';
+ALTER TYPE audit_action ADD VALUE IF NOT EXISTS 'close';
+ALTER TYPE audit_action ADD VALUE IF NOT EXISTS 'reopen';
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'accounting_period_status') THEN
+        CREATE TYPE accounting_period_status AS ENUM ('closed', 'open');
+    END IF;
+END
+$$;
+
+CREATE TABLE IF NOT EXISTS accounting_periods (
+    period VARCHAR(7) PRIMARY KEY,
+    status accounting_period_status NOT NULL DEFAULT 'closed',
+    closed_by INTEGER REFERENCES users(user_id),
+    closed_at TIMESTAMP DEFAULT NOW(),
+    reopened_by INTEGER REFERENCES users(user_id),
+    reopened_at TIMESTAMP
+);
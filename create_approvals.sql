@@ -0,0 +1,47 @@
+-- Maker-checker approvals. An approval policy holds back new cheques,
+-- deletions, fee overrides or payouts from the given roles (everyone when
+-- empty) from min_amount up (any amount when null). Held-back actions wait in
+-- approval_requests until an admin other than the requester approves them,
+-- which applies the stored payload, or rejects them.
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'approval_action') THEN
+        CREATE TYPE approval_action AS ENUM ('create', 'delete', 'fee_override', 'payout');
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'approval_status') THEN
+        CREATE TYPE approval_status AS ENUM ('pending', 'approved', 'rejected');
+    END IF;
+END
+$$;
+
+CREATE TABLE IF NOT EXISTS approval_policies (
+    policy_id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    action approval_action NOT NULL,
+    min_amount NUMERIC(12, 2),
+    roles JSONB NOT NULL DEFAULT '[]'::jsonb,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS approval_requests (
+    approval_id SERIAL PRIMARY KEY,
+    policy_id INTEGER REFERENCES approval_policies(policy_id) ON DELETE SET NULL,
+    action approval_action NOT NULL,
+    transaction_id INTEGER REFERENCES cheque_transactions(transaction_id),
+    amount NUMERIC(12, 2) NOT NULL,
+    summary TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status approval_status NOT NULL DEFAULT 'pending',
+    requested_by INTEGER REFERENCES users(user_id),
+    channel audit_channel NOT NULL DEFAULT 'web',
+    decided_by INTEGER REFERENCES users(user_id),
+    decided_at TIMESTAMP,
+    decision_note TEXT,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS approval_requests_status_idx ON approval_requests (status, approval_id DESC);
+CREATE INDEX IF NOT EXISTS approval_requests_requested_by_idx ON approval_requests (requested_by);
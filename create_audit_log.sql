@@ -0,0 +1,33 @@
+-- Audit trail of creates, updates and deletes on transactions, customers,
+-- vendors and deposits: who made the change, through which channel, the
+-- fields that changed and the record as it was afterwards. Entries are kept
+-- after the record is deleted, so entity_id has no foreign key.
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'audit_entity') THEN
+        CREATE TYPE audit_entity AS ENUM ('transaction', 'customer', 'vendor', 'deposit');
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'audit_action') THEN
+        CREATE TYPE audit_action AS ENUM ('create', 'update', 'delete', 'revert');
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'audit_channel') THEN
+        CREATE TYPE audit_channel AS ENUM ('web', 'ai', 'telegram');
+    END IF;
+END
+$$;
+
+CREATE TABLE IF NOT EXISTS audit_log (
+    audit_id SERIAL PRIMARY KEY,
+    entity_type audit_entity NOT NULL,
+    entity_id VARCHAR(50) NOT NULL,
+    action audit_action NOT NULL,
+    channel audit_channel NOT NULL DEFAULT 'web',
+    user_id INTEGER REFERENCES users(user_id),
+    changes JSONB NOT NULL,
+    snapshot JSONB,
+    reverted_audit_id INTEGER REFERENCES audit_log(audit_id),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log (entity_type, entity_id, created_at);
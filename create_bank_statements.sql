@@ -0,0 +1,56 @@
+-- Bank statements imported from CSV or OFX files, and their lines. A line is
+-- matched to a cheque, a delivered batch, a vendor payment or a customer
+-- deposit. Matching a cheque or batch records the vendor receipt the line paid,
+-- kept in transaction_payment_id or vendor_payment_id so unmatching can take
+-- it back out.
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'bank_statement_format') THEN
+        CREATE TYPE bank_statement_format AS ENUM ('csv', 'ofx');
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'bank_line_status') THEN
+        CREATE TYPE bank_line_status AS ENUM ('unmatched', 'matched', 'ignored');
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'bank_match_type') THEN
+        CREATE TYPE bank_match_type AS ENUM ('transaction', 'batch', 'vendor_payment', 'customer_deposit');
+    END IF;
+END
+$$;
+
+CREATE TABLE IF NOT EXISTS bank_statements (
+    statement_id SERIAL PRIMARY KEY,
+    file_name VARCHAR(255) NOT NULL,
+    format bank_statement_format NOT NULL,
+    account VARCHAR(100),
+    start_date DATE,
+    end_date DATE,
+    user_id INTEGER REFERENCES users(user_id),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS bank_statement_lines (
+    line_id SERIAL PRIMARY KEY,
+    statement_id INTEGER NOT NULL REFERENCES bank_statements(statement_id),
+    date DATE NOT NULL,
+    amount NUMERIC(12, 2) NOT NULL,
+    description TEXT,
+    reference VARCHAR(100),
+    status bank_line_status NOT NULL DEFAULT 'unmatched',
+    match_type bank_match_type,
+    transaction_id INTEGER REFERENCES cheque_transactions(transaction_id),
+    batch_id INTEGER REFERENCES vendor_batches(batch_id),
+    vendor_payment_id INTEGER REFERENCES vendor_payments(payment_id),
+    deposit_id INTEGER REFERENCES customer_deposits(deposit_id),
+    transaction_payment_id INTEGER REFERENCES transaction_payments(payment_id),
+    matched_by INTEGER REFERENCES users(user_id),
+    matched_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS bank_statement_lines_statement_idx ON bank_statement_lines (statement_id);
+CREATE INDEX IF NOT EXISTS bank_statement_lines_reference_idx ON bank_statement_lines (reference);
+CREATE INDEX IF NOT EXISTS bank_statement_lines_transaction_idx ON bank_statement_lines (transaction_id);
+CREATE INDEX IF NOT EXISTS bank_statement_lines_batch_idx ON bank_statement_lines (batch_id);
+CREATE INDEX IF NOT EXISTS bank_statement_lines_vendor_payment_idx ON bank_statement_lines (vendor_payment_id);
+CREATE INDEX IF NOT EXISTS bank_statement_lines_deposit_idx ON bank_statement_lines (deposit_id);
@@ -0,0 +1,20 @@
+-- Audit of fee recalculations applied after a customer's or vendor's rates
+-- were corrected. changes holds the before and after fee columns of every
+-- transaction that was updated.
+
+CREATE TABLE IF NOT EXISTS fee_recalculations (
+    recalculation_id SERIAL PRIMARY KEY,
+    party_type fee_party NOT NULL,
+    customer_id INTEGER REFERENCES customers(customer_id),
+    vendor_id VARCHAR(20) REFERENCES vendors(vendor_id),
+    date_from DATE NOT NULL,
+    date_to DATE NOT NULL,
+    transaction_count INTEGER NOT NULL,
+    profit_before NUMERIC(12, 2) NOT NULL,
+    profit_after NUMERIC(12, 2) NOT NULL,
+    changes JSONB NOT NULL,
+    user_id INTEGER REFERENCES users(user_id),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fee_recalculations_created_at ON fee_recalculations (created_at);
@@ -0,0 +1,114 @@
+-- Effective-dated fee schedules for customers and vendors. Fees are computed
+-- from the rate in force on the transaction date instead of the current
+-- fee_percentage, which is only used when no schedule covers the date.
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'fee_party') THEN
+        CREATE TYPE fee_party AS ENUM ('customer', 'vendor');
+    END IF;
+END
+$$;
+
+CREATE TABLE IF NOT EXISTS fee_schedules (
+    schedule_id SERIAL PRIMARY KEY,
+    party_type fee_party NOT NULL,
+    customer_id INTEGER REFERENCES customers(customer_id),
+    vendor_id VARCHAR(20) REFERENCES vendors(vendor_id),
+    fee_percentage NUMERIC(5, 2) NOT NULL,
+    effective_from DATE NOT NULL,
+    effective_to DATE,
+    note TEXT,
+    user_id INTEGER REFERENCES users(user_id),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fee_schedules_customer ON fee_schedules (customer_id, effective_from);
+CREATE INDEX IF NOT EXISTS idx_fee_schedules_vendor ON fee_schedules (vendor_id, effective_from);
+
+-- Every existing customer and vendor starts with its current rate
+INSERT INTO fee_schedules (party_type, customer_id, fee_percentage, effective_from)
+SELECT 'customer', c.customer_id, c.fee_percentage, DATE '2000-01-01'
+FROM customers c
+WHERE NOT EXISTS (SELECT 1 FROM fee_schedules s WHERE s.customer_id = c.customer_id);
+
+INSERT INTO fee_schedules (party_type, vendor_id, fee_percentage, effective_from)
+SELECT 'vendor', v.vendor_id, v.fee_percentage, DATE '2000-01-01'
+FROM vendors v
+WHERE NOT EXISTS (SELECT 1 FROM fee_schedules s WHERE s.vendor_id = v.vendor_id);
+
+-- Rate in force on a date, falling back to the party's fee_percentage
+CREATE OR REPLACE FUNCTION customer_fee_percentage_on(p_customer_id INTEGER, p_date DATE)
+RETURNS DECIMAL(5, 2)
+LANGUAGE sql STABLE
+AS $$
+    SELECT COALESCE(
+        (SELECT s.fee_percentage FROM fee_schedules s
+         WHERE s.customer_id = p_customer_id
+           AND s.effective_from <= p_date
+           AND (s.effective_to IS NULL OR s.effective_to >= p_date)
+         ORDER BY s.effective_from DESC
+         LIMIT 1),
+        (SELECT c.fee_percentage FROM customers c WHERE c.customer_id = p_customer_id)
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION vendor_fee_percentage_on(p_vendor_id VARCHAR, p_date DATE)
+RETURNS DECIMAL(5, 2)
+LANGUAGE sql STABLE
+AS $$
+    SELECT COALESCE(
+        (SELECT s.fee_percentage FROM fee_schedules s
+         WHERE s.vendor_id = p_vendor_id
+           AND s.effective_from <= p_date
+           AND (s.effective_to IS NULL OR s.effective_to >= p_date)
+         ORDER BY s.effective_from DESC
+         LIMIT 1),
+        (SELECT v.fee_percentage FROM vendors v WHERE v.vendor_id = p_vendor_id)
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.calculate_transaction_fields() RETURNS trigger
+    LANGUAGE plpgsql
+    AS $$
+DECLARE
+    customer_fee_percentage DECIMAL(5, 2);
+    vendor_fee_percentage DECIMAL(5, 2);
+BEGIN
+    -- Get customer fee percentage in force on the transaction date
+    customer_fee_percentage := customer_fee_percentage_on(NEW.customer_id, COALESCE(NEW.date, CURRENT_DATE));
+
+    -- Calculate customer fee and net payable
+    NEW.customer_fee := NEW.cheque_amount * (customer_fee_percentage / 100);
+    NEW.net_payable_to_customer := NEW.cheque_amount - NEW.customer_fee;
+
+    -- If vendor ID is provided, calculate vendor-related fields
+    IF NEW.vendor_id IS NOT NULL THEN
+        -- Get vendor fee percentage in force on the transaction date
+        vendor_fee_percentage := vendor_fee_percentage_on(NEW.vendor_id, COALESCE(NEW.date, CURRENT_DATE));
+
+        -- Calculate vendor fee, amount to receive, and profit
+        NEW.vendor_fee := NEW.cheque_amount * (vendor_fee_percentage / 100);
+        NEW.amount_to_receive_from_vendor := NEW.cheque_amount - NEW.vendor_fee;
+        NEW.profit := NEW.cheque_amount * ((customer_fee_percentage - vendor_fee_percentage) / 100);
+    ELSE
+        -- Clear vendor-related fields if no vendor
+        NEW.vendor_fee := NULL;
+        NEW.amount_to_receive_from_vendor := NULL;
+        NEW.profit := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Moving a transaction to another date can change the rate that applies
+DROP TRIGGER IF EXISTS calculate_transaction_fields_on_update ON public.cheque_transactions;
+CREATE TRIGGER calculate_transaction_fields_on_update
+    BEFORE UPDATE OF customer_id, cheque_amount, vendor_id, date ON public.cheque_transactions
+    FOR EACH ROW
+    WHEN ((old.customer_id IS DISTINCT FROM new.customer_id)
+       OR (old.cheque_amount IS DISTINCT FROM new.cheque_amount)
+       OR ((old.vendor_id)::text IS DISTINCT FROM (new.vendor_id)::text)
+       OR (old.date IS DISTINCT FROM new.date))
+    EXECUTE FUNCTION public.calculate_transaction_fields();
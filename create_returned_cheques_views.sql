@@ -0,0 +1,39 @@
+-- Report views for returned (bounced) cheques. Run after drizzle-kit push has
+-- created the cheque_returns table.
+
+-- One row per returned cheque, with what the return reversed and what the customer owes
+CREATE OR REPLACE VIEW returned_cheques AS
+SELECT
+    r.return_id,
+    ct.transaction_id,
+    ct.date,
+    r.return_date,
+    ct.cheque_number,
+    ct.cheque_amount,
+    ct.customer_id,
+    c.customer_name,
+    ct.vendor_id,
+    v.vendor_name,
+    r.reason,
+    r.chargeback_fee,
+    r.customer_debt,
+    r.customer_debt + r.chargeback_fee AS total_owed_by_customer,
+    r.vendor_receivable_reversed,
+    r.profit_reversed
+FROM cheque_returns r
+JOIN cheque_transactions ct ON ct.transaction_id = r.transaction_id
+JOIN customers c ON c.customer_id = ct.customer_id
+JOIN vendors v ON v.vendor_id = ct.vendor_id;
+
+-- Returned cheque count and debt per customer
+CREATE OR REPLACE VIEW customer_return_counts AS
+SELECT
+    c.customer_id,
+    c.customer_name,
+    COUNT(r.return_id) AS return_count,
+    COALESCE(SUM(CASE WHEN r.return_id IS NOT NULL THEN ct.cheque_amount END), 0) AS total_returned,
+    COALESCE(SUM(r.customer_debt + r.chargeback_fee), 0) AS total_owed_by_customer
+FROM customers c
+LEFT JOIN cheque_transactions ct ON ct.customer_id = c.customer_id
+LEFT JOIN cheque_returns r ON r.transaction_id = ct.transaction_id
+GROUP BY c.customer_id, c.customer_name;
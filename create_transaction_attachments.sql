@@ -0,0 +1,28 @@
+-- Cheque images and scans kept with transactions. The files themselves are in
+-- the file store (local disk under ./uploads by default) at storage_key.
+-- Files sent to the AI assistant or the Telegram bot are saved with their
+-- conversation_id and linked once the chat creates the transaction.
+
+CREATE TYPE attachment_kind AS ENUM ('front', 'back', 'document');
+
+CREATE TABLE IF NOT EXISTS transaction_attachments (
+    attachment_id SERIAL PRIMARY KEY,
+    transaction_id INTEGER REFERENCES cheque_transactions(transaction_id),
+    conversation_id VARCHAR(100),
+    kind attachment_kind NOT NULL,
+    file_name VARCHAR(255) NOT NULL,
+    content_type VARCHAR(100) NOT NULL,
+    size INTEGER NOT NULL,
+    storage_key VARCHAR(255) NOT NULL,
+    thumbnail_key VARCHAR(255),
+    user_id INTEGER REFERENCES users(user_id),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS transaction_attachments_transaction_idx
+    ON transaction_attachments (transaction_id);
+
+-- Files waiting for their chat to create a transaction
+CREATE INDEX IF NOT EXISTS transaction_attachments_pending_idx
+    ON transaction_attachments (conversation_id, created_at)
+    WHERE transaction_id IS NULL;
@@ -0,0 +1,35 @@
+-- Comment threads and colour-coded tags on transactions. Comments record who
+-- left them and whether it was through the web app, the AI assistant or the
+-- Telegram bot (audit_channel comes from create_audit_log.sql).
+
+CREATE TABLE IF NOT EXISTS transaction_comments (
+    comment_id SERIAL PRIMARY KEY,
+    transaction_id INTEGER NOT NULL REFERENCES cheque_transactions(transaction_id),
+    body TEXT NOT NULL,
+    user_id INTEGER REFERENCES users(user_id),
+    channel audit_channel NOT NULL DEFAULT 'web',
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS transaction_comments_transaction_idx
+    ON transaction_comments (transaction_id, created_at);
+
+CREATE TABLE IF NOT EXISTS tags (
+    tag_id SERIAL PRIMARY KEY,
+    name VARCHAR(50) NOT NULL UNIQUE,
+    color VARCHAR(7) NOT NULL DEFAULT '#6b7280',
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Tag names are unique regardless of case
+CREATE UNIQUE INDEX IF NOT EXISTS tags_name_lower_idx ON tags (lower(name));
+
+CREATE TABLE IF NOT EXISTS transaction_tags (
+    transaction_id INTEGER NOT NULL REFERENCES cheque_transactions(transaction_id),
+    tag_id INTEGER NOT NULL REFERENCES tags(tag_id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (transaction_id, tag_id)
+);
+
+-- Filtering the transaction list by tag
+CREATE INDEX IF NOT EXISTS transaction_tags_tag_idx ON transaction_tags (tag_id);
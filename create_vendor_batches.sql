@@ -0,0 +1,30 @@
+-- Batches of cheques handed to a vendor together. A receipt recorded against a
+-- batch is a vendor payment with batch_id set, allocated only to the batch's
+-- cheques. Once delivered, a batch's status follows what has been received.
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'vendor_batch_status') THEN
+        CREATE TYPE vendor_batch_status AS ENUM ('open', 'delivered', 'partially_received', 'received');
+    END IF;
+END
+$$;
+
+CREATE TABLE IF NOT EXISTS vendor_batches (
+    batch_id SERIAL PRIMARY KEY,
+    vendor_id VARCHAR(20) NOT NULL REFERENCES vendors(vendor_id),
+    batch_date DATE DEFAULT CURRENT_DATE,
+    status vendor_batch_status NOT NULL DEFAULT 'open',
+    notes TEXT,
+    user_id INTEGER REFERENCES users(user_id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS vendor_batches_vendor_idx ON vendor_batches (vendor_id, batch_date);
+
+ALTER TABLE cheque_transactions ADD COLUMN IF NOT EXISTS batch_id INTEGER REFERENCES vendor_batches(batch_id);
+ALTER TABLE vendor_payments ADD COLUMN IF NOT EXISTS batch_id INTEGER REFERENCES vendor_batches(batch_id);
+
+CREATE INDEX IF NOT EXISTS cheque_transactions_batch_idx ON cheque_transactions (batch_id);
+CREATE INDEX IF NOT EXISTS vendor_payments_batch_idx ON vendor_payments (batch_id);
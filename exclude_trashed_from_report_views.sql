@@ -0,0 +1,264 @@
+-- Leave trashed transactions out of the report views, along with trashed
+-- customers and vendors in the views that report on them. Run after
+-- add_soft_delete.sql. Each view keeps its columns so CREATE OR REPLACE works.
+
+CREATE OR REPLACE VIEW business_summary AS
+SELECT
+    (SELECT COUNT(*) FROM cheque_transactions WHERE deleted_at IS NULL) AS total_transactions,
+    (SELECT COUNT(DISTINCT customer_id) FROM customers WHERE deleted_at IS NULL) AS total_customers,
+    (SELECT COUNT(DISTINCT vendor_id) FROM vendors WHERE deleted_at IS NULL) AS total_vendors,
+    (SELECT COALESCE(SUM(cheque_amount), 0) FROM cheque_transactions WHERE deleted_at IS NULL) AS total_cheque_amount,
+    (SELECT COALESCE(SUM(net_payable_to_customer), 0) FROM cheque_transactions WHERE deleted_at IS NULL) AS total_payable_to_customers,
+    (SELECT COALESCE(SUM(paid_to_customer), 0) FROM cheque_transactions WHERE deleted_at IS NULL) AS total_paid_to_customers,
+    (SELECT COALESCE(SUM(net_payable_to_customer - paid_to_customer), 0) FROM cheque_transactions WHERE deleted_at IS NULL) AS total_outstanding_to_customers,
+    (SELECT COALESCE(SUM(amount_to_receive_from_vendor), 0) FROM cheque_transactions WHERE vendor_id IS NOT NULL AND deleted_at IS NULL) AS total_receivable_from_vendors,
+    (SELECT COALESCE(SUM(received_from_vendor), 0) FROM cheque_transactions WHERE deleted_at IS NULL) AS total_received_from_vendors,
+    (SELECT COALESCE(SUM(amount_to_receive_from_vendor - received_from_vendor), 0) FROM cheque_transactions WHERE vendor_id IS NOT NULL AND deleted_at IS NULL) AS total_outstanding_from_vendors,
+    (SELECT COALESCE(SUM(profit), 0) FROM cheque_transactions WHERE deleted_at IS NULL) AS total_potential_profit,
+    (SELECT COALESCE(SUM(profit_withdrawn), 0) FROM cheque_transactions WHERE deleted_at IS NULL) AS total_realized_profit,
+    (SELECT COALESCE(SUM(profit - profit_withdrawn), 0) FROM cheque_transactions WHERE deleted_at IS NULL) AS total_unrealized_profit;
+
+CREATE OR REPLACE VIEW customer_balances AS
+SELECT
+    c.customer_id,
+    c.customer_name,
+    SUM(ct.net_payable_to_customer) AS total_owed,
+    SUM(ct.paid_to_customer) AS total_paid,
+    SUM(ct.net_payable_to_customer - ct.paid_to_customer) AS remaining_balance
+FROM customers c
+JOIN cheque_transactions ct ON ct.customer_id = c.customer_id AND ct.deleted_at IS NULL
+WHERE c.deleted_at IS NULL
+GROUP BY c.customer_id, c.customer_name;
+
+CREATE OR REPLACE VIEW customer_deposit_allocations_detail AS
+SELECT
+    cda.allocation_id,
+    cd.deposit_id,
+    cd.date AS deposit_date,
+    c.customer_name,
+    cd.amount AS total_deposit_amount,
+    cda.amount AS allocated_amount,
+    ct.transaction_id,
+    ct.cheque_number,
+    ct.date AS transaction_date,
+    ct.cheque_amount,
+    ct.net_payable_to_customer,
+    ct.paid_to_customer,
+    ct.net_payable_to_customer - ct.paid_to_customer AS remaining_balance
+FROM customer_deposit_allocations cda
+JOIN customer_deposits cd ON cd.deposit_id = cda.deposit_id
+JOIN customers c ON c.customer_id = cd.customer_id
+JOIN cheque_transactions ct ON ct.transaction_id = cda.transaction_id
+WHERE ct.deleted_at IS NULL AND c.deleted_at IS NULL
+ORDER BY cd.date DESC, cda.allocation_id;
+
+CREATE OR REPLACE VIEW customer_detailed_transactions AS
+SELECT
+    c.customer_id,
+    c.customer_name,
+    ct.transaction_id,
+    ct.date,
+    ct.cheque_number,
+    ct.cheque_amount,
+    c.fee_percentage,
+    ct.customer_fee,
+    ct.net_payable_to_customer,
+    ct.paid_to_customer,
+    ct.net_payable_to_customer - ct.paid_to_customer AS remaining_balance,
+    CASE
+        WHEN ct.net_payable_to_customer <= ct.paid_to_customer THEN 'Fully Paid'
+        WHEN ct.paid_to_customer > 0 THEN 'Partially Paid'
+        ELSE 'Pending'
+    END AS payment_status
+FROM customers c
+JOIN cheque_transactions ct ON ct.customer_id = c.customer_id
+WHERE ct.deleted_at IS NULL AND c.deleted_at IS NULL
+ORDER BY c.customer_name, ct.date;
+
+CREATE OR REPLACE VIEW daily_profit_summary AS
+SELECT
+    ct.date,
+    SUM(ct.profit) AS total_potential_profit,
+    SUM(ct.profit_withdrawn) AS total_realized_profit,
+    SUM(ct.profit - ct.profit_withdrawn) AS unrealized_profit,
+    COUNT(DISTINCT ct.transaction_id) AS transaction_count
+FROM cheque_transactions ct
+WHERE ct.deleted_at IS NULL
+GROUP BY ct.date
+ORDER BY ct.date;
+
+CREATE OR REPLACE VIEW weekly_profit_summary AS
+SELECT
+    date_trunc('week', ct.date::timestamp with time zone) AS week,
+    SUM(ct.profit) AS total_potential_profit,
+    SUM(ct.profit_withdrawn) AS total_realized_profit,
+    SUM(ct.profit - ct.profit_withdrawn) AS unrealized_profit,
+    COUNT(DISTINCT ct.transaction_id) AS transaction_count
+FROM cheque_transactions ct
+WHERE ct.deleted_at IS NULL
+GROUP BY date_trunc('week', ct.date::timestamp with time zone)
+ORDER BY date_trunc('week', ct.date::timestamp with time zone);
+
+CREATE OR REPLACE VIEW monthly_profit_summary AS
+SELECT
+    date_trunc('month', ct.date::timestamp with time zone) AS month,
+    SUM(ct.profit) AS total_potential_profit,
+    SUM(ct.profit_withdrawn) AS total_realized_profit,
+    SUM(ct.profit - ct.profit_withdrawn) AS unrealized_profit,
+    COUNT(DISTINCT ct.transaction_id) AS transaction_count
+FROM cheque_transactions ct
+WHERE ct.deleted_at IS NULL
+GROUP BY date_trunc('month', ct.date::timestamp with time zone)
+ORDER BY date_trunc('month', ct.date::timestamp with time zone);
+
+CREATE OR REPLACE VIEW outstanding_balances AS
+SELECT
+    'Customer Balance' AS balance_type,
+    c.customer_name AS name,
+    SUM(ct.net_payable_to_customer - ct.paid_to_customer) AS outstanding_amount
+FROM customers c
+JOIN cheque_transactions ct ON ct.customer_id = c.customer_id
+WHERE ct.net_payable_to_customer > ct.paid_to_customer AND ct.deleted_at IS NULL AND c.deleted_at IS NULL
+GROUP BY c.customer_name
+UNION ALL
+SELECT
+    'Vendor Balance' AS balance_type,
+    v.vendor_name AS name,
+    SUM(ct.amount_to_receive_from_vendor - ct.received_from_vendor) AS outstanding_amount
+FROM vendors v
+JOIN cheque_transactions ct ON ct.vendor_id = v.vendor_id
+WHERE ct.amount_to_receive_from_vendor > ct.received_from_vendor AND ct.deleted_at IS NULL AND v.deleted_at IS NULL
+GROUP BY v.vendor_name
+ORDER BY 1, 3 DESC;
+
+CREATE OR REPLACE VIEW profit_by_customer AS
+SELECT
+    c.customer_id,
+    c.customer_name,
+    SUM(ct.profit) AS total_potential_profit,
+    SUM(ct.profit_withdrawn) AS total_realized_profit,
+    SUM(ct.profit - ct.profit_withdrawn) AS unrealized_profit,
+    COUNT(DISTINCT ct.transaction_id) AS transaction_count
+FROM customers c
+JOIN cheque_transactions ct ON ct.customer_id = c.customer_id
+WHERE ct.deleted_at IS NULL AND c.deleted_at IS NULL
+GROUP BY c.customer_id, c.customer_name
+ORDER BY SUM(ct.profit) DESC;
+
+CREATE OR REPLACE VIEW profit_by_vendor AS
+SELECT
+    v.vendor_id,
+    v.vendor_name,
+    SUM(ct.profit) AS total_potential_profit,
+    SUM(ct.profit_withdrawn) AS total_realized_profit,
+    SUM(ct.profit - ct.profit_withdrawn) AS unrealized_profit,
+    COUNT(DISTINCT ct.transaction_id) AS transaction_count
+FROM vendors v
+JOIN cheque_transactions ct ON ct.vendor_id = v.vendor_id
+WHERE ct.deleted_at IS NULL AND v.deleted_at IS NULL
+GROUP BY v.vendor_id, v.vendor_name
+ORDER BY SUM(ct.profit) DESC;
+
+-- The original joined every customer and vendor to every cheque; each cheque
+-- now gets its own
+CREATE OR REPLACE VIEW transaction_status_report AS
+SELECT
+    ct.transaction_id,
+    ct.date,
+    c.customer_name,
+    ct.cheque_number,
+    ct.cheque_amount,
+    ct.net_payable_to_customer,
+    ct.paid_to_customer,
+    ct.net_payable_to_customer - ct.paid_to_customer AS remaining_to_customer,
+    CASE
+        WHEN ct.net_payable_to_customer <= ct.paid_to_customer THEN 'Fully Paid'
+        WHEN ct.paid_to_customer > 0 THEN 'Partially Paid'
+        ELSE 'Pending'
+    END AS customer_payment_status,
+    v.vendor_name,
+    ct.amount_to_receive_from_vendor,
+    ct.received_from_vendor,
+    ct.amount_to_receive_from_vendor - ct.received_from_vendor AS remaining_from_vendor,
+    CASE
+        WHEN ct.amount_to_receive_from_vendor <= ct.received_from_vendor THEN 'Fully Received'
+        WHEN ct.received_from_vendor > 0 THEN 'Partially Received'
+        ELSE 'Pending'
+    END AS vendor_payment_status,
+    ct.profit,
+    ct.profit_withdrawn,
+    ct.profit - ct.profit_withdrawn AS unrealized_profit,
+    CASE
+        WHEN ct.profit <= ct.profit_withdrawn THEN 'Fully Realized'
+        WHEN ct.profit_withdrawn > 0 THEN 'Partially Realized'
+        ELSE 'Unrealized'
+    END AS profit_status,
+    CASE
+        WHEN ct.net_payable_to_customer <= ct.paid_to_customer
+            AND (ct.amount_to_receive_from_vendor IS NULL OR ct.amount_to_receive_from_vendor <= ct.received_from_vendor)
+            AND (ct.profit IS NULL OR ct.profit <= ct.profit_withdrawn) THEN 'Completed'
+        WHEN ct.paid_to_customer > 0 OR ct.received_from_vendor > 0 OR ct.profit_withdrawn > 0 THEN 'In Progress'
+        ELSE 'New'
+    END AS overall_status
+FROM cheque_transactions ct
+JOIN customers c ON c.customer_id = ct.customer_id
+LEFT JOIN vendors v ON v.vendor_id = ct.vendor_id
+WHERE ct.deleted_at IS NULL
+ORDER BY ct.date DESC, ct.transaction_id;
+
+CREATE OR REPLACE VIEW vendor_balances AS
+SELECT
+    v.vendor_id,
+    v.vendor_name,
+    SUM(ct.amount_to_receive_from_vendor) AS total_to_receive,
+    SUM(ct.received_from_vendor) AS total_received,
+    SUM(ct.amount_to_receive_from_vendor - ct.received_from_vendor) AS pending_amount
+FROM vendors v
+JOIN cheque_transactions ct ON ct.vendor_id = v.vendor_id
+WHERE ct.deleted_at IS NULL AND v.deleted_at IS NULL
+GROUP BY v.vendor_id, v.vendor_name;
+
+CREATE OR REPLACE VIEW vendor_detailed_transactions AS
+SELECT
+    v.vendor_id,
+    v.vendor_name,
+    ct.transaction_id,
+    ct.date,
+    ct.cheque_number,
+    ct.cheque_amount,
+    v.fee_percentage,
+    ct.vendor_fee,
+    ct.amount_to_receive_from_vendor,
+    ct.received_from_vendor,
+    ct.amount_to_receive_from_vendor - ct.received_from_vendor AS remaining_balance,
+    CASE
+        WHEN ct.amount_to_receive_from_vendor <= ct.received_from_vendor THEN 'Fully Received'
+        WHEN ct.received_from_vendor > 0 THEN 'Partially Received'
+        ELSE 'Pending'
+    END AS payment_status
+FROM vendors v
+JOIN cheque_transactions ct ON ct.vendor_id = v.vendor_id
+WHERE ct.deleted_at IS NULL AND v.deleted_at IS NULL
+ORDER BY v.vendor_name, ct.date;
+
+CREATE OR REPLACE VIEW vendor_payment_allocations_detail AS
+SELECT
+    vpa.allocation_id,
+    vp.payment_id,
+    vp.date AS payment_date,
+    v.vendor_name,
+    vp.amount AS total_payment_amount,
+    vpa.amount AS allocated_amount,
+    ct.transaction_id,
+    ct.cheque_number,
+    ct.date AS transaction_date,
+    ct.cheque_amount,
+    ct.amount_to_receive_from_vendor,
+    ct.received_from_vendor,
+    ct.amount_to_receive_from_vendor - ct.received_from_vendor AS remaining_balance
+FROM vendor_payment_allocations vpa
+JOIN vendor_payments vp ON vp.payment_id = vpa.payment_id
+JOIN vendors v ON v.vendor_id = vp.vendor_id
+JOIN cheque_transactions ct ON ct.transaction_id = vpa.transaction_id
+WHERE ct.deleted_at IS NULL AND v.deleted_at IS NULL
+ORDER BY vp.date DESC, vpa.allocation_id;
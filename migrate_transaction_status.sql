@@ -0,0 +1,46 @@
+-- Move existing databases to the transaction status lifecycle
+-- (pending, deposited, cleared, paid_out, settled, returned, void) and
+-- create the status history table. Old values are mapped as:
+--   completed -> settled, cancelled -> void, bounced -> returned
+
+BEGIN;
+
+ALTER TYPE transaction_status RENAME TO transaction_status_old;
+
+CREATE TYPE transaction_status AS ENUM ('pending', 'deposited', 'cleared', 'paid_out', 'settled', 'returned', 'void');
+
+ALTER TABLE cheque_transactions ALTER COLUMN status DROP DEFAULT;
+
+ALTER TABLE cheque_transactions
+ALTER COLUMN status TYPE transaction_status USING (
+    CASE status::text
+        WHEN 'completed' THEN 'settled'
+        WHEN 'cancelled' THEN 'void'
+        WHEN 'bounced' THEN 'returned'
+        ELSE status::text
+    END
+)::transaction_status;
+
+ALTER TABLE cheque_transactions ALTER COLUMN status SET DEFAULT 'pending';
+
+DROP TYPE transaction_status_old;
+
+CREATE TABLE IF NOT EXISTS transaction_status_history (
+    history_id SERIAL PRIMARY KEY,
+    transaction_id INTEGER NOT NULL REFERENCES cheque_transactions(transaction_id),
+    from_status transaction_status,
+    to_status transaction_status NOT NULL,
+    user_id INTEGER REFERENCES users(user_id),
+    note TEXT,
+    changed_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Start the history of existing transactions at their current status
+INSERT INTO transaction_status_history (transaction_id, from_status, to_status, note, changed_at)
+SELECT ct.transaction_id, NULL, COALESCE(ct.status, 'pending'), 'Status at migration', COALESCE(ct.updated_at, ct.created_at, NOW())
+FROM cheque_transactions ct
+WHERE NOT EXISTS (
+    SELECT 1 FROM transaction_status_history h WHERE h.transaction_id = ct.transaction_id
+);
+
+COMMIT;
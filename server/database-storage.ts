@@ -1,23 +1,100 @@
 import { 
   customers, vendors, chequeTransactions,
-  customerDeposits, vendorPayments, aiMessages,
-  users, userConversations, telegramUsers,
+  customerDeposits, depositAllocations, transactionPayments, chequeReturns, transactionStatusHistory, feeSchedules, vendorPayments, vendorPaymentAllocations, vendorBatches, aiMessages,
+  bankStatements, bankStatementLines, accountingPeriods, approvalPolicies, approvalRequests,
+  feeRecalculations, auditLog, transactionAttachments, transactionComments, tags, transactionTags, users, userConversations, telegramUsers,
+  insertTransactionSchema, insertCustomerSchema, insertVendorSchema, insertTransactionPaymentSchema,
   type Customer, type Vendor, type ChequeTransaction, 
   type CustomerDeposit, type VendorPayment, type AIMessage,
   type User, type UserConversation, type TelegramUser,
   type InsertCustomer, type InsertVendor, type InsertTransaction, 
   type InsertCustomerDeposit, type InsertVendorPayment, type InsertAIMessage,
   type InsertUser, type InsertUserConversation, type UpdateUser, type InsertTelegramUser,
-  type TransactionWithDetails, type BusinessSummary
+  type TransactionWithDetails, type BusinessSummary,
+  type VendorPaymentWithAllocations, type CustomerDepositWithAllocations,
+  type DepositAllocation, type AllocateDeposit,
+  type TransactionPayment, type InsertTransactionPayment,
+  type ChequeReturn, type InsertChequeReturn,
+  type TransactionStatusChangeWithUser,
+  type DuplicateChequeCheck, type DuplicateChequeMatch,
+  type FeeSchedule, type FeeParty, type FeeRates, type InsertFeeSchedule,
+  type FeeRecalculation, type FeeRecalculationPreview, type FeeRecalculationRequest,
+  type AuditActor, type AuditAction, type AuditEntity, type AuditEntry, type AuditEntryWithUser,
+  type Trash,
+  type BulkTransactionAction, type BulkTransactionResult,
+  type TransactionSearchQuery, type TransactionSearchResult,
+  type TransactionAttachment, type InsertTransactionAttachment, type TransactionSort, type TransactionSortField,
+  type TransactionComment, type TransactionCommentWithUser, type InsertTransactionComment,
+  type Tag, type InsertTag, type UpdateTag,
+  type CreateTransactionOptions, type CreditLimitBreach, type CustomerExposure,
+  type VendorRecommendation, type VendorRecommendationRequest, type VendorVolume,
+  type VendorBatch, type VendorBatchDetails, type VendorBatchReceipt, type VendorBatchWithTotals,
+  type InsertVendorBatch, type UpdateVendorBatch,
+  type BankMatchType, type BankStatementLine, type BankStatementMatch, type BankStatementSummary, type BankStatementDetails,
+  type AccountingPeriod, type AccountingPeriodWithUsers,
+  type ApprovalAction, type ApprovalDetails, type ApprovalPolicy, type ApprovalRequest, type ApprovalRequestWithUsers, type ApprovalStatus,
+  type InsertApprovalPolicy, type UpdateApprovalPolicy,
+  type CustomerStatement, type StatementPeriod, type VendorSettlement
 } from "@shared/schema";
 
 import { db } from "./db";
 import { pool } from "./db";
-import { eq, and, desc, sql, count, sum } from "drizzle-orm";
+import { eq, and, or, asc, desc, sql, count, sum, gt, gte, lt, lte, ilike, inArray, notInArray, isNull, isNotNull, getTableColumns, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import { IStorage } from "./storage";
+import { allocateOldestFirst, allocateManually, outstandingAmount, toCents, fromCents } from "./services/allocation";
+import { computeReturnReversal } from "./services/cheque-returns";
+import { assertInitialStatus, assertStatusEdit, assertStatusTransition } from "./services/transaction-status";
+import { findDuplicateCheques, normalizeChequeNumber } from "./services/duplicate-cheques";
+import { FEE_SCHEDULE_START, planScheduleAddition, planScheduleRemoval, ruleOf, ruleOnDate, scheduleCovers, toDateString } from "./services/fee-schedules";
+import { affectsFees, calculateTransactionFees } from "./services/fee-rules";
+import { percentageRule } from "@shared/fee-engine";
+import { assertFeesUnchanged, buildRecalculationPreview, hasFrozenFees, isRecalculable } from "./services/fee-recalculation";
+import { buildAuditEntry, revertValues, webActor } from "./services/audit";
+import { assertPurgeable, TrashError } from "./services/trash";
+import { bulkFailureMessage, emptyBulkResult, vendorReceiptFor } from "./services/bulk-transactions";
+import { decodeSearchCursor, encodeSearchCursor, escapeLikePattern, NO_DATE, sqlSortValue, withTieBreaker, type SortValue } from "./services/transaction-search";
+import { CreditLimitError, EXCLUDED_EXPOSURE_STATUSES, exposureOf, findLimitBreaches, limitOverrideNote, summarizeExposure, totalExposure, type ExposureAmounts, type ExposureFields } from "./services/credit-limits";
+import { rankVendors, weekOf } from "./services/vendor-routing";
+import { assertBatchable, assertBatchOpen, assertBatchReceivable, assertBatchStatusChange, batchStatusOf, VendorBatchError } from "./services/vendor-batches";
+import { assertClosable, assertPeriodsOpen, assertReopenable } from "./services/accounting-periods";
+import { assertDecidable, depositPayoutDetails, heldPayouts, matchApprovalPolicy, payoutDepositId } from "./services/approvals";
+import { buildCustomerStatement } from "./services/customer-statements";
+import { buildVendorSettlement } from "./services/vendor-settlements";
+import { autoMatchLines, checkMatch, matchColumns, matchingWindow, ReconciliationError, receiptFromLine, toReconciliationLine, type ParsedBankStatement, type ReconciliationTargets } from "./services/bank-reconciliation";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 
+// Transaction handle passed to db.transaction() callbacks
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// What each transaction sort field orders by, with missing values filled in
+// the same way as sortValueOf so cursors compare like the ORDER BY
+const TRANSACTION_SORT_EXPRESSIONS: Record<TransactionSortField, SQL> = {
+  date: sql`coalesce(${chequeTransactions.date}, ${NO_DATE}::date)`,
+  cheque_amount: sql`coalesce(${chequeTransactions.cheque_amount}, 0)`,
+  cheque_number: sql`${chequeTransactions.cheque_number}`,
+  customer_name: sql`${customers.customer_name}`,
+  vendor_name: sql`${vendors.vendor_name}`,
+  profit: sql`coalesce(${chequeTransactions.profit}, 0)`,
+  status: sql`coalesce(${chequeTransactions.status}::text, 'pending')`,
+  transaction_id: sql`${chequeTransactions.transaction_id}`
+};
+
+// Rows that sort after the cursor position: later on the first sort field,
+// or level on it and later on the next one, and so on
+function afterCursorCondition(sort: TransactionSort[], after: SortValue[]): SQL {
+  const branches = sort.map(({ field, direction }, i) => {
+    const level = sort.slice(0, i).map(({ field: earlier }, j) =>
+      eq(TRANSACTION_SORT_EXPRESSIONS[earlier], sqlSortValue(earlier, after[j]))
+    );
+    const expression = TRANSACTION_SORT_EXPRESSIONS[field];
+    const value = sqlSortValue(field, after[i]);
+    return and(...level, direction === 'asc' ? gt(expression, value) : lt(expression, value))!;
+  });
+  return or(...branches)!;
+}
+
 export class DatabaseStorage implements IStorage {
   // Initialize session store using PostgreSQL
   sessionStore: session.Store;
@@ -39,21 +116,29 @@ export class DatabaseStorage implements IStorage {
     status?: string;
   }): Promise<ChequeTransaction[]> {
     try {
-      let baseQuery = db.select().from(chequeTransactions);
+      // Later .where() calls replace earlier ones, so collect the filters
+      const conditions: SQL[] = [isNull(chequeTransactions.deleted_at)];
       
-      // Apply filters individually instead of using and()
       if (options?.customerId) {
-        baseQuery = baseQuery.where(eq(chequeTransactions.customer_id, options.customerId));
+        conditions.push(eq(chequeTransactions.customer_id, options.customerId));
       }
 
       if (options?.vendorId) {
-        baseQuery = baseQuery.where(eq(chequeTransactions.vendor_id, options.vendorId));
+        conditions.push(eq(chequeTransactions.vendor_id, options.vendorId));
       }
 
       if (options?.status) {
-        baseQuery = baseQuery.where(eq(chequeTransactions.status, options.status));
+        conditions.push(eq(chequeTransactions.status, options.status as NonNullable<ChequeTransaction['status']>));
       }
 
+      // Order by latest first
+      let baseQuery = db
+        .select()
+        .from(chequeTransactions)
+        .where(and(...conditions))
+        .orderBy(desc(chequeTransactions.date))
+        .$dynamic();
+
       // Apply pagination
       if (options?.limit) {
         baseQuery = baseQuery.limit(options.limit);
@@ -63,9 +148,6 @@ export class DatabaseStorage implements IStorage {
         baseQuery = baseQuery.offset(options.offset || 0);
       }
 
-      // Order by latest first
-      baseQuery = baseQuery.orderBy(desc(chequeTransactions.date));
-
       return await baseQuery;
     } catch (error) {
       console.error("Error fetching transactions:", error);
@@ -73,284 +155,3018 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getTransaction(id: number): Promise<ChequeTransaction | undefined> {
-    const [transaction] = await db
-      .select()
-      .from(chequeTransactions)
-      .where(eq(chequeTransactions.transaction_id, id));
+  async searchTransactions(query: TransactionSearchQuery): Promise<TransactionSearchResult> {
+    const sort = withTieBreaker(query.sort);
+    const conditions: SQL[] = [isNull(chequeTransactions.deleted_at)];
+
+    if (query.q) {
+      const text = escapeLikePattern(query.q);
+      conditions.push(or(
+        ilike(customers.customer_name, `%${text}%`),
+        ilike(vendors.vendor_name, `%${text}%`),
+        ilike(chequeTransactions.cheque_number, `${text}%`)
+      )!);
+    }
+    if (query.cheque_number) {
+      // Written to use the lower(cheque_number) prefix index
+      conditions.push(sql`lower(${chequeTransactions.cheque_number}) like ${`${escapeLikePattern(query.cheque_number.toLowerCase())}%`}`);
+    }
+    if (query.customer_id) {
+      conditions.push(eq(chequeTransactions.customer_id, query.customer_id));
+    }
+    if (query.vendor_id) {
+      conditions.push(eq(chequeTransactions.vendor_id, query.vendor_id));
+    }
+    if (query.status) {
+      conditions.push(inArray(TRANSACTION_SORT_EXPRESSIONS.status, query.status));
+    }
+    if (query.date_from) {
+      conditions.push(gte(TRANSACTION_SORT_EXPRESSIONS.date, query.date_from));
+    }
+    if (query.date_to) {
+      conditions.push(lte(TRANSACTION_SORT_EXPRESSIONS.date, query.date_to));
+    }
+    if (query.min_amount) {
+      conditions.push(gte(chequeTransactions.cheque_amount, query.min_amount));
+    }
+    if (query.max_amount) {
+      conditions.push(lte(chequeTransactions.cheque_amount, query.max_amount));
+    }
+    if (query.outstanding_customer) {
+      conditions.push(sql`coalesce(${chequeTransactions.net_payable_to_customer}, 0) - coalesce(${chequeTransactions.paid_to_customer}, 0) > 0`);
+    }
+    if (query.outstanding_vendor) {
+      conditions.push(sql`coalesce(${chequeTransactions.amount_to_receive_from_vendor}, 0) - coalesce(${chequeTransactions.received_from_vendor}, 0) > 0`);
+    }
+    if (query.tag_ids) {
+      conditions.push(inArray(
+        chequeTransactions.transaction_id,
+        db.select({ transaction_id: transactionTags.transaction_id })
+          .from(transactionTags)
+          .where(inArray(transactionTags.tag_id, query.tag_ids))
+      ));
+    }
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(chequeTransactions)
+      .innerJoin(customers, eq(chequeTransactions.customer_id, customers.customer_id))
+      .innerJoin(vendors, eq(chequeTransactions.vendor_id, vendors.vendor_id))
+      .where(and(...conditions));
+
+    const pageConditions = query.cursor
+      ? [...conditions, afterCursorCondition(sort, decodeSearchCursor(sort, query.cursor))]
+      : conditions;
+
+    // One extra row tells whether there is another page
+    const rows: TransactionWithDetails[] = await db
+      .select({
+        ...getTableColumns(chequeTransactions),
+        customer: {
+          customer_name: customers.customer_name
+        },
+        vendor: {
+          vendor_name: vendors.vendor_name
+        }
+      })
+      .from(chequeTransactions)
+      .innerJoin(customers, eq(chequeTransactions.customer_id, customers.customer_id))
+      .innerJoin(vendors, eq(chequeTransactions.vendor_id, vendors.vendor_id))
+      .where(and(...pageConditions))
+      .orderBy(...sort.map(({ field, direction }) =>
+        direction === 'asc' ? asc(TRANSACTION_SORT_EXPRESSIONS[field]) : desc(TRANSACTION_SORT_EXPRESSIONS[field])
+      ))
+      .limit(query.limit + 1);
+
+    const page = rows.slice(0, query.limit);
+    const pageTags = await this.tagsOfTransactions(page.map(t => t.transaction_id));
+    const transactions = page.map(t => ({ ...t, tags: pageTags.get(t.transaction_id) ?? [] }));
+    return {
+      transactions,
+      total,
+      next_cursor: rows.length > query.limit ? encodeSearchCursor(sort, transactions[transactions.length - 1]) : null
+    };
+  }
+
+  async getTransaction(id: number): Promise<ChequeTransaction | undefined> {
+    const [transaction] = await db
+      .select()
+      .from(chequeTransactions)
+      .where(and(eq(chequeTransactions.transaction_id, id), isNull(chequeTransactions.deleted_at)));
+    
+    return transaction;
+  }
+
+  async getTransactionWithDetails(id: number): Promise<TransactionWithDetails | undefined> {
+    const result = await db
+      .select({
+        ...chequeTransactions,
+        customer: {
+          customer_name: customers.customer_name
+        },
+        vendor: {
+          vendor_name: vendors.vendor_name
+        }
+      })
+      .from(chequeTransactions)
+      .leftJoin(customers, eq(chequeTransactions.customer_id, customers.customer_id))
+      .leftJoin(vendors, eq(chequeTransactions.vendor_id, vendors.vendor_id))
+      .where(and(eq(chequeTransactions.transaction_id, id), isNull(chequeTransactions.deleted_at)));
+    
+    if (result.length === 0) return undefined;
+    return result[0] as unknown as TransactionWithDetails;
+  }
+
+  async createTransaction(
+    transaction: InsertTransaction,
+    actor: AuditActor = webActor(),
+    options: CreateTransactionOptions = {}
+  ): Promise<ChequeTransaction> {
+    return await db.transaction(async (tx) => this.insertWithinLimits(tx, transaction, actor, options));
+  }
+
+  // Insert a transaction that fits its customer's limits, or whose breach an
+  // admin has overridden, noting the override on the transaction
+  private async insertWithinLimits(
+    tx: DbTransaction,
+    transaction: InsertTransaction,
+    actor: AuditActor,
+    options: CreateTransactionOptions
+  ): Promise<ChequeTransaction> {
+    // Lock the customer so two cheques can't both fit under the same limit
+    await tx
+      .select({ customer_id: customers.customer_id })
+      .from(customers)
+      .where(eq(customers.customer_id, transaction.customer_id))
+      .for("update");
+    
+    // Cheques over the customer's limits need an admin override
+    const breaches = await this.findCreditLimitBreaches(tx, transaction);
+    if (breaches.length > 0 && !options.override_limits) {
+      throw new CreditLimitError(breaches);
+    }
+    
+    const result = await this.insertTransaction(tx, transaction, actor);
+    if (breaches.length > 0) {
+      await tx.insert(transactionComments).values({
+        transaction_id: result.transaction_id,
+        body: limitOverrideNote(breaches),
+        user_id: actor.user_id,
+        channel: actor.channel
+      });
+    }
+    return result;
+  }
+
+  async checkCreditLimits(transaction: InsertTransaction): Promise<CreditLimitBreach[]> {
+    return await db.transaction(async (tx) => this.findCreditLimitBreaches(tx, transaction));
+  }
+
+  // The limits a new cheque would take its customer over
+  private async findCreditLimitBreaches(tx: DbTransaction, transaction: InsertTransaction): Promise<CreditLimitBreach[]> {
+    const [customer] = await tx
+      .select()
+      .from(customers)
+      .where(and(eq(customers.customer_id, transaction.customer_id), isNull(customers.deleted_at)));
+    if (!customer || (customer.credit_limit === null && customer.daily_limit === null)) {
+      return [];
+    }
+    
+    const rates = await this.getFeeRates(transaction.customer_id, transaction.vendor_id, transaction.date);
+    const fees = calculateTransactionFees(transaction.cheque_amount, rates.customer_rule, rates.vendor_rule, transaction);
+    const date = toDateString(transaction.date);
+    const current = (await this.exposureAmounts(tx, date, customer.customer_id)).get(customer.customer_id);
+    const added = exposureOf({ ...transaction, ...fees, date, received_from_vendor: null, status: transaction.status ?? null }, date);
+    return findLimitBreaches(customer, current ?? { outstanding: 0, daily_volume: 0 }, added);
+  }
+
+  // Exposure and daily volume of every customer with open transactions, or just one
+  private async exposureAmounts(tx: DbTransaction | typeof db, date: string, customerId?: number): Promise<Map<number, ExposureAmounts>> {
+    const conditions: SQL[] = [
+      isNull(chequeTransactions.deleted_at),
+      notInArray(TRANSACTION_SORT_EXPRESSIONS.status, EXCLUDED_EXPOSURE_STATUSES)
+    ];
+    if (customerId !== undefined) {
+      conditions.push(eq(chequeTransactions.customer_id, customerId));
+    }
+    
+    const rows = await tx
+      .select({
+        customer_id: chequeTransactions.customer_id,
+        outstanding: sql<string>`coalesce(sum(greatest(coalesce(${chequeTransactions.amount_to_receive_from_vendor}, 0) - coalesce(${chequeTransactions.received_from_vendor}, 0), 0)), 0)`,
+        daily_volume: sql<string>`coalesce(sum(${chequeTransactions.cheque_amount}) filter (where ${chequeTransactions.date} = ${date}), 0)`
+      })
+      .from(chequeTransactions)
+      .where(and(...conditions))
+      .groupBy(chequeTransactions.customer_id);
+    
+    return new Map(rows.map(row => [row.customer_id, { outstanding: toCents(row.outstanding), daily_volume: toCents(row.daily_volume) }]));
+  }
+
+  async checkImportLimits(transactions: InsertTransaction[]): Promise<CreditLimitBreach[][]> {
+    // Rows count towards the limits of the rows below them
+    const earlier: (ExposureFields & { customer_id: number })[] = [];
+    const breaches: CreditLimitBreach[][] = [];
+    for (const transaction of transactions) {
+      const customer = await this.getCustomer(transaction.customer_id);
+      if (!customer || (customer.credit_limit === null && customer.daily_limit === null)) {
+        breaches.push([]);
+        continue;
+      }
+      
+      const rates = await this.getFeeRates(transaction.customer_id, transaction.vendor_id, transaction.date);
+      const fees = calculateTransactionFees(transaction.cheque_amount, rates.customer_rule, rates.vendor_rule, transaction);
+      const date = toDateString(transaction.date);
+      const row = { ...transaction, ...fees, date, received_from_vendor: null, status: transaction.status ?? null };
+      const saved = (await this.exposureAmounts(db, date, customer.customer_id)).get(customer.customer_id);
+      const unsaved = totalExposure(earlier.filter(t => t.customer_id === customer.customer_id), date);
+      const current = {
+        outstanding: (saved?.outstanding ?? 0) + unsaved.outstanding,
+        daily_volume: (saved?.daily_volume ?? 0) + unsaved.daily_volume
+      };
+      breaches.push(findLimitBreaches(customer, current, exposureOf(row, date)));
+      earlier.push(row);
+    }
+    return breaches;
+  }
+
+  async importTransactions(
+    transactions: InsertTransaction[],
+    actor: AuditActor = webActor(),
+    options: CreateTransactionOptions = {}
+  ): Promise<ChequeTransaction[]> {
+    // All rows or none; each is checked against its customer's limits with
+    // the rows above it already saved
+    return await db.transaction(async (tx) => {
+      const imported: ChequeTransaction[] = [];
+      for (const transaction of transactions) {
+        imported.push(await this.insertWithinLimits(tx, transaction, actor, options));
+      }
+      return imported;
+    });
+  }
+
+  // Insert a transaction with its fees, first status and audit entry
+  private async insertTransaction(tx: DbTransaction, transaction: InsertTransaction, actor: AuditActor): Promise<ChequeTransaction> {
+    await this.assertActiveParties(tx, transaction.customer_id, transaction.vendor_id);
+    const status = assertInitialStatus(transaction.status);
+    assertPeriodsOpen(await this.closedPeriods(tx), [transaction.date], "transactions can't be entered in it");
+    
+    // Calculate fees and profit from the rules in force on the transaction date
+    const rates = await this.getFeeRates(transaction.customer_id, transaction.vendor_id, transaction.date);
+    const fees = calculateTransactionFees(transaction.cheque_amount, rates.customer_rule, rates.vendor_rule, transaction);
+    
+    const [result] = await tx
+      .insert(chequeTransactions)
+      .values({ ...transaction, ...fees, status })
+      .returning();
+    
+    await this.recordStatusChange(tx, result.transaction_id, null, status, actor.user_id ?? undefined);
+    await this.recordAudit(tx, 'transaction', result.transaction_id, 'create', null, result, actor);
+    return result;
+  }
+
+  // Make sure a transaction's customer and vendor exist and aren't in the trash
+  private async assertActiveParties(tx: DbTransaction, customerId: number, vendorId: string): Promise<void> {
+    const [customer] = await tx
+      .select({ customer_id: customers.customer_id })
+      .from(customers)
+      .where(and(eq(customers.customer_id, customerId), isNull(customers.deleted_at)));
+    if (!customer) {
+      throw new Error("Customer not found");
+    }
+    
+    const [vendor] = await tx
+      .select({ vendor_id: vendors.vendor_id })
+      .from(vendors)
+      .where(and(eq(vendors.vendor_id, vendorId), isNull(vendors.deleted_at)));
+    if (!vendor) {
+      throw new Error("Vendor not found");
+    }
+  }
+
+  async updateTransaction(id: number, transaction: Partial<InsertTransaction>, actor: AuditActor = webActor()): Promise<ChequeTransaction | undefined> {
+    return await db.transaction(async (tx) => this.applyTransactionUpdate(tx, id, transaction, actor));
+  }
+
+  // Update a transaction, recalculating its fees and recording the status change and audit entry
+  private async applyTransactionUpdate(
+    tx: DbTransaction,
+    id: number,
+    transaction: Partial<InsertTransaction>,
+    actor: AuditActor
+  ): Promise<ChequeTransaction | undefined> {
+    const [existing] = await tx
+      .select()
+      .from(chequeTransactions)
+      .where(and(eq(chequeTransactions.transaction_id, id), isNull(chequeTransactions.deleted_at)))
+      .for("update");
+    
+    if (!existing) {
+      return undefined;
+    }
+    
+    assertPeriodsOpen(await this.closedPeriods(tx), [existing.date, transaction.date], "transactions dated in it can't be changed");
+    
+    const statusChanged = !!transaction.status && transaction.status !== existing.status;
+    if (statusChanged) {
+      assertStatusEdit(existing.status, transaction.status!);
+    }
+    
+    // A batch only holds its vendor's cheques
+    if (transaction.vendor_id && transaction.vendor_id !== existing.vendor_id && existing.batch_id !== null) {
+      throw new VendorBatchError(`Remove the cheque from batch #${existing.batch_id} before changing its vendor`);
+    }
+    
+    // Recalculate fees and profit if necessary; returned and void cheques keep theirs
+    let fees = {};
+    if (hasFrozenFees(existing)) {
+      assertFeesUnchanged(existing, transaction);
+    } else if (affectsFees(transaction) || transaction.fee_override_reason !== undefined) {
+      const merged = { ...existing, ...transaction };
+      await this.assertActiveParties(tx, merged.customer_id, merged.vendor_id);
+      const rates = await this.getFeeRates(merged.customer_id, merged.vendor_id, merged.date);
+      fees = calculateTransactionFees(merged.cheque_amount, rates.customer_rule, rates.vendor_rule, merged);
+    }
+    
+    const [result] = await tx
+      .update(chequeTransactions)
+      .set({ ...transaction, ...fees })
+      .where(eq(chequeTransactions.transaction_id, id))
+      .returning();
+    
+    if (statusChanged) {
+      await this.recordStatusChange(tx, id, existing.status, transaction.status!, actor.user_id ?? undefined);
+    }
+    
+    await this.recordAudit(tx, 'transaction', id, 'update', existing, result, actor);
+    return result;
+  }
+
+  async deleteTransaction(id: number, actor: AuditActor = webActor()): Promise<boolean> {
+    return await db.transaction(async (tx) => this.trashTransaction(tx, id, actor));
+  }
+
+  // Move a transaction to the trash
+  private async trashTransaction(tx: DbTransaction, id: number, actor: AuditActor): Promise<boolean> {
+    const [existing] = await tx
+      .select()
+      .from(chequeTransactions)
+      .where(and(eq(chequeTransactions.transaction_id, id), isNull(chequeTransactions.deleted_at)))
+      .for("update");
+    
+    if (!existing) return false;
+    
+    assertPeriodsOpen(await this.closedPeriods(tx), [existing.date], "transactions dated in it can't be deleted");
+    
+    await tx
+      .update(chequeTransactions)
+      .set({ deleted_at: new Date() })
+      .where(eq(chequeTransactions.transaction_id, id));
+    
+    await this.recordAudit(tx, 'transaction', id, 'delete', existing, null, actor);
+    return true;
+  }
+
+  async bulkUpdateTransactions(request: BulkTransactionAction, actor: AuditActor = webActor()): Promise<BulkTransactionResult> {
+    if (request.action === 'reassign_vendor' && !(await this.getVendor(request.vendor_id))) {
+      throw new Error("Vendor not found");
+    }
+    
+    return await db.transaction(async (tx) => {
+      const result = emptyBulkResult(request);
+      for (const id of request.transaction_ids) {
+        try {
+          // A savepoint per transaction lets the rest go through when one fails
+          await tx.transaction(async (savepoint) => this.applyBulkAction(savepoint, id, request, actor));
+          result.succeeded.push(id);
+        } catch (error) {
+          result.failed.push({ transaction_id: id, error: bulkFailureMessage(error) });
+        }
+      }
+      return result;
+    });
+  }
+
+  // Apply a bulk action to one transaction
+  private async applyBulkAction(tx: DbTransaction, id: number, request: BulkTransactionAction, actor: AuditActor): Promise<void> {
+    switch (request.action) {
+      case 'set_status':
+      case 'reassign_vendor': {
+        const changes = request.action === 'set_status' ? { status: request.status } : { vendor_id: request.vendor_id };
+        if (!(await this.applyTransactionUpdate(tx, id, changes, actor))) {
+          throw new Error("Transaction not found");
+        }
+        return;
+      }
+      case 'record_vendor_receipt': {
+        const [transaction] = await tx
+          .select()
+          .from(chequeTransactions)
+          .where(and(eq(chequeTransactions.transaction_id, id), isNull(chequeTransactions.deleted_at)))
+          .for("update");
+        if (!transaction) {
+          throw new Error("Transaction not found");
+        }
+        await this.insertTransactionPayment(tx, id, vendorReceiptFor(transaction, request), actor.user_id ?? undefined);
+        return;
+      }
+      case 'delete':
+        if (!(await this.trashTransaction(tx, id, actor))) {
+          throw new Error("Transaction not found");
+        }
+        return;
+    }
+  }
+
+  async getTransactionStatusHistory(transactionId: number): Promise<TransactionStatusChangeWithUser[]> {
+    return await db
+      .select({
+        history_id: transactionStatusHistory.history_id,
+        transaction_id: transactionStatusHistory.transaction_id,
+        from_status: transactionStatusHistory.from_status,
+        to_status: transactionStatusHistory.to_status,
+        user_id: transactionStatusHistory.user_id,
+        note: transactionStatusHistory.note,
+        changed_at: transactionStatusHistory.changed_at,
+        username: users.username
+      })
+      .from(transactionStatusHistory)
+      .leftJoin(users, eq(transactionStatusHistory.user_id, users.user_id))
+      .where(eq(transactionStatusHistory.transaction_id, transactionId))
+      .orderBy(asc(transactionStatusHistory.changed_at), asc(transactionStatusHistory.history_id));
+  }
+  
+  // Attachment methods
+  async getTransactionAttachments(transactionId: number): Promise<TransactionAttachment[]> {
+    return await db
+      .select()
+      .from(transactionAttachments)
+      .where(eq(transactionAttachments.transaction_id, transactionId))
+      .orderBy(asc(transactionAttachments.attachment_id));
+  }
+  
+  async getAttachment(id: number): Promise<TransactionAttachment | undefined> {
+    const [attachment] = await db
+      .select()
+      .from(transactionAttachments)
+      .where(eq(transactionAttachments.attachment_id, id));
+    return attachment;
+  }
+  
+  async createAttachment(attachment: InsertTransactionAttachment): Promise<TransactionAttachment> {
+    const [newAttachment] = await db
+      .insert(transactionAttachments)
+      .values(attachment)
+      .returning();
+    return newAttachment;
+  }
+  
+  async linkConversationAttachments(conversationId: string, transactionId: number, since: Date): Promise<TransactionAttachment[]> {
+    return await db
+      .update(transactionAttachments)
+      .set({ transaction_id: transactionId })
+      .where(and(
+        eq(transactionAttachments.conversation_id, conversationId),
+        isNull(transactionAttachments.transaction_id),
+        gte(transactionAttachments.created_at, since)
+      ))
+      .returning();
+  }
+  
+  async deleteAttachment(id: number): Promise<boolean> {
+    const result = await db
+      .delete(transactionAttachments)
+      .where(eq(transactionAttachments.attachment_id, id))
+      .returning();
+    return result.length > 0;
+  }
+  
+  // Comment methods
+  async getTransactionComments(transactionId: number): Promise<TransactionCommentWithUser[]> {
+    return await db
+      .select({
+        ...getTableColumns(transactionComments),
+        username: users.username
+      })
+      .from(transactionComments)
+      .leftJoin(users, eq(transactionComments.user_id, users.user_id))
+      .where(eq(transactionComments.transaction_id, transactionId))
+      .orderBy(asc(transactionComments.created_at), asc(transactionComments.comment_id));
+  }
+  
+  async getTransactionComment(id: number): Promise<TransactionComment | undefined> {
+    const [comment] = await db
+      .select()
+      .from(transactionComments)
+      .where(eq(transactionComments.comment_id, id));
+    return comment;
+  }
+  
+  async createTransactionComment(transactionId: number, comment: InsertTransactionComment, actor: AuditActor): Promise<TransactionComment> {
+    if (!await this.getTransaction(transactionId)) {
+      throw new Error("Transaction not found");
+    }
+    
+    const [newComment] = await db
+      .insert(transactionComments)
+      .values({
+        transaction_id: transactionId,
+        body: comment.body,
+        user_id: actor.user_id,
+        channel: actor.channel
+      })
+      .returning();
+    return newComment;
+  }
+  
+  async deleteTransactionComment(id: number): Promise<boolean> {
+    const result = await db
+      .delete(transactionComments)
+      .where(eq(transactionComments.comment_id, id))
+      .returning();
+    return result.length > 0;
+  }
+  
+  // Tag methods
+  private async tagsOfTransactions(transactionIds: number[]): Promise<Map<number, Tag[]>> {
+    const byTransaction = new Map<number, Tag[]>();
+    if (transactionIds.length === 0) {
+      return byTransaction;
+    }
+    
+    const rows = await db
+      .select({ transaction_id: transactionTags.transaction_id, tag: getTableColumns(tags) })
+      .from(transactionTags)
+      .innerJoin(tags, eq(transactionTags.tag_id, tags.tag_id))
+      .where(inArray(transactionTags.transaction_id, transactionIds))
+      .orderBy(asc(tags.name));
+    for (const row of rows) {
+      byTransaction.set(row.transaction_id, [...(byTransaction.get(row.transaction_id) ?? []), row.tag]);
+    }
+    return byTransaction;
+  }
+  
+  private async assertTagNameFree(name: string, exceptId?: number) {
+    const conditions: SQL[] = [sql`lower(${tags.name}) = ${name.toLowerCase()}`];
+    if (exceptId !== undefined) {
+      conditions.push(sql`${tags.tag_id} <> ${exceptId}`);
+    }
+    const [taken] = await db.select({ tag_id: tags.tag_id }).from(tags).where(and(...conditions));
+    if (taken) {
+      throw new Error("A tag with this name already exists");
+    }
+  }
+  
+  async getTags(): Promise<Tag[]> {
+    return await db.select().from(tags).orderBy(asc(tags.name));
+  }
+  
+  async createTag(tag: InsertTag): Promise<Tag> {
+    await this.assertTagNameFree(tag.name);
+    const [newTag] = await db.insert(tags).values(tag).returning();
+    return newTag;
+  }
+  
+  async updateTag(id: number, tag: UpdateTag): Promise<Tag | undefined> {
+    if (tag.name !== undefined) {
+      await this.assertTagNameFree(tag.name, id);
+    }
+    if (Object.keys(tag).length === 0) {
+      const [existing] = await db.select().from(tags).where(eq(tags.tag_id, id));
+      return existing;
+    }
+    
+    const [updated] = await db
+      .update(tags)
+      .set(tag)
+      .where(eq(tags.tag_id, id))
+      .returning();
+    return updated;
+  }
+  
+  async deleteTag(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(transactionTags).where(eq(transactionTags.tag_id, id));
+      const result = await tx.delete(tags).where(eq(tags.tag_id, id)).returning();
+      return result.length > 0;
+    });
+  }
+  
+  async getTransactionTags(transactionId: number): Promise<Tag[]> {
+    return (await this.tagsOfTransactions([transactionId])).get(transactionId) ?? [];
+  }
+  
+  async setTransactionTags(transactionId: number, tagIds: number[]): Promise<Tag[]> {
+    const wanted = Array.from(new Set(tagIds));
+    
+    await db.transaction(async (tx) => {
+      const [transaction] = await tx
+        .select({ transaction_id: chequeTransactions.transaction_id })
+        .from(chequeTransactions)
+        .where(and(eq(chequeTransactions.transaction_id, transactionId), isNull(chequeTransactions.deleted_at)))
+        .for("update");
+      if (!transaction) {
+        throw new Error("Transaction not found");
+      }
+      
+      if (wanted.length > 0) {
+        const found = await tx.select({ tag_id: tags.tag_id }).from(tags).where(inArray(tags.tag_id, wanted));
+        if (found.length < wanted.length) {
+          throw new Error("Tag not found");
+        }
+      }
+      
+      const removed = wanted.length > 0
+        ? and(eq(transactionTags.transaction_id, transactionId), notInArray(transactionTags.tag_id, wanted))
+        : eq(transactionTags.transaction_id, transactionId);
+      await tx.delete(transactionTags).where(removed);
+      if (wanted.length > 0) {
+        await tx
+          .insert(transactionTags)
+          .values(wanted.map(tagId => ({ transaction_id: transactionId, tag_id: tagId })))
+          .onConflictDoNothing();
+      }
+    });
+    
+    return await this.getTransactionTags(transactionId);
+  }
+  
+  async findDuplicateTransactions(candidate: DuplicateChequeCheck): Promise<DuplicateChequeMatch[]> {
+    // Narrow down in SQL to the same (normalized) cheque number or the same
+    // customer and amount, then let the shared rules decide
+    const normalizedNumber = sql`ltrim(upper(regexp_replace(${chequeTransactions.cheque_number}, '[^A-Za-z0-9]', '', 'g')), '0')`;
+    const candidates = await db
+      .select()
+      .from(chequeTransactions)
+      .where(and(
+        isNull(chequeTransactions.deleted_at),
+        sql`(${normalizedNumber} = ${normalizeChequeNumber(candidate.cheque_number)} OR (${chequeTransactions.customer_id} = ${candidate.customer_id} AND ${chequeTransactions.cheque_amount} = ${candidate.cheque_amount}))`
+      ));
+    
+    return findDuplicateCheques(candidate, candidates);
+  }
+  
+  // Append an entry to the status history
+  private async recordStatusChange(
+    tx: DbTransaction,
+    transactionId: number,
+    fromStatus: ChequeTransaction['status'],
+    toStatus: NonNullable<ChequeTransaction['status']>,
+    userId?: number,
+    note?: string
+  ): Promise<void> {
+    await tx.insert(transactionStatusHistory).values({
+      transaction_id: transactionId,
+      from_status: fromStatus,
+      to_status: toStatus,
+      user_id: userId ?? null,
+      note: note ?? null
+    });
+  }
+
+  // Transaction payment ledger methods
+  async getTransactionPayments(transactionId: number): Promise<TransactionPayment[]> {
+    return await db
+      .select()
+      .from(transactionPayments)
+      .where(eq(transactionPayments.transaction_id, transactionId))
+      .orderBy(asc(transactionPayments.date), asc(transactionPayments.payment_id));
+  }
+
+  async createTransactionPayment(transactionId: number, payment: InsertTransactionPayment, userId?: number): Promise<TransactionPayment> {
+    try {
+      const transaction = await this.getTransaction(transactionId);
+      if (!transaction) {
+        throw new Error("Transaction not found");
+      }
+      
+      return await db.transaction(async (tx) => this.insertTransactionPayment(tx, transactionId, payment, userId));
+    } catch (error) {
+      console.error("Error recording transaction payment:", error);
+      throw error;
+    }
+  }
+
+  // Append a payment to the ledger and update the transaction's totals
+  private async insertTransactionPayment(
+    tx: DbTransaction,
+    transactionId: number,
+    payment: InsertTransactionPayment,
+    userId?: number
+  ): Promise<TransactionPayment> {
+    // A payment without a date is recorded today
+    assertPeriodsOpen(await this.closedPeriods(tx), [payment.date || toDateString()], "payments can't be recorded in it");
+    
+    const [result] = await tx
+      .insert(transactionPayments)
+      .values({
+        ...payment,
+        transaction_id: transactionId,
+        user_id: userId ?? null
+      })
+      .returning();
+    
+    await this.syncPaymentTotals(tx, transactionId);
+    return result;
+  }
+
+  async deleteTransactionPayment(paymentId: number): Promise<boolean> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [payment] = await tx
+          .select()
+          .from(transactionPayments)
+          .where(eq(transactionPayments.payment_id, paymentId));
+        
+        if (!payment) return false;
+        
+        if (payment.deposit_allocation_id || payment.vendor_payment_allocation_id) {
+          throw new Error("Payment is managed by an allocation");
+        }
+        
+        assertPeriodsOpen(await this.closedPeriods(tx), [payment.date], "payments dated in it can't be removed");
+        
+        await this.releaseStatementLines(tx, eq(bankStatementLines.transaction_payment_id, paymentId));
+        await tx
+          .delete(transactionPayments)
+          .where(eq(transactionPayments.payment_id, paymentId));
+        
+        await this.syncPaymentTotals(tx, payment.transaction_id);
+        return true;
+      });
+    } catch (error) {
+      console.error(`Error deleting transaction payment with ID ${paymentId}:`, error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Re-derive paid_to_customer, received_from_vendor and profit_withdrawn
+   * for a transaction from its payment events
+   */
+  private async syncPaymentTotals(tx: DbTransaction, transactionId: number): Promise<void> {
+    const totalOf = (type: TransactionPayment['type']) => sql`(
+      SELECT COALESCE(SUM(${transactionPayments.amount}), 0)
+      FROM ${transactionPayments}
+      WHERE ${transactionPayments.transaction_id} = ${transactionId}
+        AND ${transactionPayments.type} = ${type}
+    )`;
+    
+    await tx
+      .update(chequeTransactions)
+      .set({
+        paid_to_customer: totalOf('payout'),
+        received_from_vendor: totalOf('vendor_receipt'),
+        profit_withdrawn: totalOf('profit_withdrawal'),
+        updated_at: new Date()
+      })
+      .where(eq(chequeTransactions.transaction_id, transactionId));
+  }
+
+  // Returned cheque methods
+  async getChequeReturn(transactionId: number): Promise<ChequeReturn | undefined> {
+    const [chequeReturn] = await db
+      .select()
+      .from(chequeReturns)
+      .where(eq(chequeReturns.transaction_id, transactionId));
+    
+    return chequeReturn;
+  }
+
+  async returnCheque(transactionId: number, details: InsertChequeReturn, userId?: number): Promise<ChequeReturn> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [transaction] = await tx
+          .select()
+          .from(chequeTransactions)
+          .where(and(eq(chequeTransactions.transaction_id, transactionId), isNull(chequeTransactions.deleted_at)))
+          .for("update");
+        
+        if (!transaction) {
+          throw new Error("Transaction not found");
+        }
+        
+        const [existing] = await tx
+          .select()
+          .from(chequeReturns)
+          .where(eq(chequeReturns.transaction_id, transactionId));
+        
+        if (existing) {
+          throw new Error("Cheque has already been returned");
+        }
+        
+        assertPeriodsOpen(await this.closedPeriods(tx), [transaction.date, details.return_date], "cheques dated in it can't be returned and returns can't be recorded in it");
+        assertStatusTransition(transaction.status, "returned");
+        const { transactionUpdate, ...reversal } = computeReturnReversal(transaction);
+        
+        const [result] = await tx
+          .insert(chequeReturns)
+          .values({
+            transaction_id: transactionId,
+            return_date: details.return_date,
+            reason: details.reason,
+            chargeback_fee: details.chargeback_fee || "0.00",
+            ...reversal,
+            user_id: userId ?? null
+          })
+          .returning();
+        
+        const [returnedTransaction] = await tx
+          .update(chequeTransactions)
+          .set({ ...transactionUpdate, updated_at: new Date() })
+          .where(eq(chequeTransactions.transaction_id, transactionId))
+          .returning();
+        
+        await this.recordStatusChange(tx, transactionId, transaction.status, "returned", userId, details.reason);
+        await this.recordAudit(tx, 'transaction', transactionId, 'update', transaction, returnedTransaction, webActor(userId));
+        
+        return result;
+      });
+    } catch (error) {
+      console.error(`Error returning cheque for transaction ${transactionId}:`, error);
+      throw error;
+    }
+  }
+
+  // Customer methods
+  async getCustomers(): Promise<Customer[]> {
+    return await db.select().from(customers).where(isNull(customers.deleted_at));
+  }
+
+  async getCustomer(id: number): Promise<Customer | undefined> {
+    const [customer] = await db
+      .select()
+      .from(customers)
+      .where(and(eq(customers.customer_id, id), isNull(customers.deleted_at)));
+    
+    return customer;
+  }
+
+  async createCustomer(customer: InsertCustomer, actor: AuditActor = webActor()): Promise<Customer> {
+    return await db.transaction(async (tx) => {
+      const [result] = await tx
+        .insert(customers)
+        .values(customer)
+        .returning();
+      
+      await tx.insert(feeSchedules).values({
+        party_type: 'customer',
+        customer_id: result.customer_id,
+        fee_percentage: result.fee_percentage,
+        effective_from: FEE_SCHEDULE_START
+      });
+      
+      await this.recordAudit(tx, 'customer', result.customer_id, 'create', null, result, actor);
+      return result;
+    });
+  }
+
+  async updateCustomer(id: number, customer: Partial<InsertCustomer>, actor: AuditActor = webActor()): Promise<Customer | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(customers)
+        .where(and(eq(customers.customer_id, id), isNull(customers.deleted_at)))
+        .for("update");
+      
+      if (!existing) return undefined;
+      
+      const [result] = await tx
+        .update(customers)
+        .set(customer)
+        .where(eq(customers.customer_id, id))
+        .returning();
+      
+      if (customer.fee_percentage !== undefined && toCents(customer.fee_percentage) !== toCents(existing.fee_percentage)) {
+        await this.recordRateChange(tx, 'customer', id, customer.fee_percentage);
+      }
+      
+      await this.recordAudit(tx, 'customer', id, 'update', existing, result, actor);
+      return result;
+    });
+  }
+
+  async getCustomerExposures(date: string = toDateString()): Promise<CustomerExposure[]> {
+    const [allCustomers, amounts] = await Promise.all([this.getCustomers(), this.exposureAmounts(db, date)]);
+    return allCustomers.map(customer =>
+      summarizeExposure(customer, amounts.get(customer.customer_id) ?? { outstanding: 0, daily_volume: 0 }, date)
+    );
+  }
+
+  async getCustomerExposure(customerId: number, date: string = toDateString()): Promise<CustomerExposure | undefined> {
+    const customer = await this.getCustomer(customerId);
+    if (!customer) {
+      return undefined;
+    }
+    const amounts = (await this.exposureAmounts(db, date, customerId)).get(customerId);
+    return summarizeExposure(customer, amounts ?? { outstanding: 0, daily_volume: 0 }, date);
+  }
+
+  async deleteCustomer(id: number, actor: AuditActor = webActor()): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      // The customer's transactions and fee schedules are kept for when it is restored
+      const [deleted] = await tx
+        .update(customers)
+        .set({ deleted_at: new Date() })
+        .where(and(eq(customers.customer_id, id), isNull(customers.deleted_at)))
+        .returning();
+      
+      if (!deleted) return false;
+      
+      await this.recordAudit(tx, 'customer', id, 'delete', { ...deleted, deleted_at: null }, null, actor);
+      return true;
+    });
+  }
+
+  // Vendor methods
+  async getVendors(): Promise<Vendor[]> {
+    return await db.select().from(vendors).where(isNull(vendors.deleted_at));
+  }
+
+  async getVendor(id: string): Promise<Vendor | undefined> {
+    const [vendor] = await db
+      .select()
+      .from(vendors)
+      .where(and(eq(vendors.vendor_id, id), isNull(vendors.deleted_at)));
+    
+    return vendor;
+  }
+
+  async createVendor(vendor: InsertVendor, actor: AuditActor = webActor()): Promise<Vendor> {
+    return await db.transaction(async (tx) => {
+      const [result] = await tx
+        .insert(vendors)
+        .values(vendor)
+        .returning();
+      
+      await tx.insert(feeSchedules).values({
+        party_type: 'vendor',
+        vendor_id: result.vendor_id,
+        fee_percentage: result.fee_percentage,
+        effective_from: FEE_SCHEDULE_START
+      });
+      
+      await this.recordAudit(tx, 'vendor', result.vendor_id, 'create', null, result, actor);
+      return result;
+    });
+  }
+
+  async updateVendor(id: string, vendor: Partial<InsertVendor>, actor: AuditActor = webActor()): Promise<Vendor | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(vendors)
+        .where(and(eq(vendors.vendor_id, id), isNull(vendors.deleted_at)))
+        .for("update");
+      
+      if (!existing) return undefined;
+      
+      const [result] = await tx
+        .update(vendors)
+        .set(vendor)
+        .where(eq(vendors.vendor_id, id))
+        .returning();
+      
+      if (vendor.fee_percentage !== undefined && toCents(vendor.fee_percentage) !== toCents(existing.fee_percentage)) {
+        await this.recordRateChange(tx, 'vendor', id, vendor.fee_percentage);
+      }
+      
+      await this.recordAudit(tx, 'vendor', id, 'update', existing, result, actor);
+      return result;
+    });
+  }
+
+  async getVendorVolumes(date: string = toDateString()): Promise<VendorVolume[]> {
+    const week = weekOf(date);
+    const rows = await db
+      .select({
+        vendor_id: chequeTransactions.vendor_id,
+        daily_volume: sql<string>`coalesce(sum(${chequeTransactions.cheque_amount}) filter (where ${chequeTransactions.date} = ${date}), 0)`,
+        weekly_volume: sql<string>`coalesce(sum(${chequeTransactions.cheque_amount}), 0)`
+      })
+      .from(chequeTransactions)
+      .where(and(
+        isNull(chequeTransactions.deleted_at),
+        notInArray(TRANSACTION_SORT_EXPRESSIONS.status, EXCLUDED_EXPOSURE_STATUSES),
+        gte(chequeTransactions.date, week.start),
+        lte(chequeTransactions.date, week.end)
+      ))
+      .groupBy(chequeTransactions.vendor_id);
+    
+    return rows.map(row => ({
+      vendor_id: row.vendor_id,
+      daily_volume: fromCents(toCents(row.daily_volume)),
+      weekly_volume: fromCents(toCents(row.weekly_volume))
+    }));
+  }
+
+  async recommendVendors(request: VendorRecommendationRequest): Promise<VendorRecommendation[]> {
+    const date = toDateString(request.date);
+    const volumes = new Map((await this.getVendorVolumes(date)).map(volume => [volume.vendor_id, volume]));
+    const candidates = await Promise.all((await this.getVendors()).map(async vendor => ({
+      vendor,
+      rates: await this.getFeeRates(request.customer_id, vendor.vendor_id, date),
+      volume: volumes.get(vendor.vendor_id)
+    })));
+    return rankVendors(request, candidates);
+  }
+
+  async deleteVendor(id: string, actor: AuditActor = webActor()): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      // The vendor's transactions and fee schedules are kept for when it is restored
+      const [deleted] = await tx
+        .update(vendors)
+        .set({ deleted_at: new Date() })
+        .where(and(eq(vendors.vendor_id, id), isNull(vendors.deleted_at)))
+        .returning();
+      
+      if (!deleted) return false;
+      
+      await this.recordAudit(tx, 'vendor', id, 'delete', { ...deleted, deleted_at: null }, null, actor);
+      return true;
+    });
+  }
+
+  // Fee schedule methods
+  async getFeeSchedules(party: FeeParty, partyId: number | string): Promise<FeeSchedule[]> {
+    return await this.selectFeeSchedules(db, party, partyId);
+  }
+
+  async createFeeSchedule(party: FeeParty, partyId: number | string, schedule: InsertFeeSchedule, userId?: number): Promise<FeeSchedule> {
+    const exists = party === 'customer'
+      ? await this.getCustomer(partyId as number)
+      : await this.getVendor(partyId as string);
+    if (!exists) {
+      throw new Error(party === 'customer' ? "Customer not found" : "Vendor not found");
+    }
+    
+    return await db.transaction(async (tx) => {
+      const existing = await this.selectFeeSchedules(tx, party, partyId, true);
+      const plan = planScheduleAddition(existing, schedule);
+      
+      for (const adjustment of plan.adjustments) {
+        await tx
+          .update(feeSchedules)
+          .set({ effective_to: adjustment.effective_to })
+          .where(eq(feeSchedules.schedule_id, adjustment.schedule_id));
+      }
+      
+      const [result] = await tx
+        .insert(feeSchedules)
+        .values({
+          ...this.partyColumns(party, partyId),
+          fee_percentage: schedule.fee_percentage,
+          flat_fee: schedule.flat_fee ?? "0",
+          min_fee: schedule.min_fee ?? null,
+          brackets: schedule.brackets ?? null,
+          bracket_mode: schedule.bracket_mode ?? 'bracket',
+          effective_from: schedule.effective_from,
+          effective_to: plan.effective_to,
+          note: schedule.note ?? null,
+          user_id: userId ?? null
+        })
+        .returning();
+      
+      if (plan.continuation) {
+        await tx.insert(feeSchedules).values({
+          ...this.partyColumns(party, partyId),
+          ...plan.continuation,
+          user_id: userId ?? null
+        });
+      }
+      
+      return result;
+    });
+  }
+
+  async deleteFeeSchedule(scheduleId: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [schedule] = await tx
+        .select()
+        .from(feeSchedules)
+        .where(eq(feeSchedules.schedule_id, scheduleId));
+      
+      if (!schedule) return false;
+      
+      const partyId = schedule.party_type === 'customer' ? schedule.customer_id! : schedule.vendor_id!;
+      const existing = await this.selectFeeSchedules(tx, schedule.party_type, partyId, true);
+      const plan = planScheduleRemoval(existing, scheduleId);
+      
+      await tx.delete(feeSchedules).where(eq(feeSchedules.schedule_id, scheduleId));
+      for (const adjustment of plan.adjustments) {
+        await tx
+          .update(feeSchedules)
+          .set({ effective_to: adjustment.effective_to })
+          .where(eq(feeSchedules.schedule_id, adjustment.schedule_id));
+      }
+      
+      return true;
+    });
+  }
+
+  async getFeeRates(customerId: number, vendorId: string, date?: string | Date | null): Promise<FeeRates> {
+    const [customer, vendor, customerSchedules, vendorSchedules] = await Promise.all([
+      this.getCustomer(customerId),
+      this.getVendor(vendorId),
+      this.getFeeSchedules('customer', customerId),
+      this.getFeeSchedules('vendor', vendorId)
+    ]);
+    
+    const customerRule = ruleOnDate(customerSchedules, date, customer?.fee_percentage ?? 0);
+    const vendorRule = ruleOnDate(vendorSchedules, date, vendor?.fee_percentage ?? 0);
+    
+    return {
+      customer_fee_percentage: customerRule.fee_percentage,
+      vendor_fee_percentage: vendorRule.fee_percentage,
+      customer_rule: customerRule,
+      vendor_rule: vendorRule
+    };
+  }
+
+  private partyColumns(party: FeeParty, partyId: number | string) {
+    return party === 'customer'
+      ? { party_type: party, customer_id: partyId as number }
+      : { party_type: party, vendor_id: partyId as string };
+  }
+
+  private async selectFeeSchedules(executor: typeof db | DbTransaction, party: FeeParty, partyId: number | string, forUpdate = false): Promise<FeeSchedule[]> {
+    const query = executor
+      .select()
+      .from(feeSchedules)
+      .where(party === 'customer' ? eq(feeSchedules.customer_id, partyId as number) : eq(feeSchedules.vendor_id, partyId as string))
+      .orderBy(asc(feeSchedules.effective_from));
+    
+    return forUpdate ? await query.for("update") : await query;
+  }
+
+  // A rate edited on the customer/vendor itself applies from today onwards,
+  // keeping the flat fee, minimum and brackets of the rule it replaces
+  private async recordRateChange(tx: DbTransaction, party: FeeParty, partyId: number | string, feePercentage: string): Promise<void> {
+    const today = toDateString();
+    const existing = await this.selectFeeSchedules(tx, party, partyId, true);
+    const startingToday = existing.find(s => s.effective_from === today);
+    
+    if (startingToday) {
+      await tx
+        .update(feeSchedules)
+        .set({ fee_percentage: feePercentage })
+        .where(eq(feeSchedules.schedule_id, startingToday.schedule_id));
+      return;
+    }
+    
+    const current = existing.find(s => scheduleCovers(s, today));
+    const rule = current ? ruleOf(current) : percentageRule(feePercentage);
+    const plan = planScheduleAddition(existing, { effective_from: today });
+    for (const adjustment of plan.adjustments) {
+      await tx
+        .update(feeSchedules)
+        .set({ effective_to: adjustment.effective_to })
+        .where(eq(feeSchedules.schedule_id, adjustment.schedule_id));
+    }
+    
+    await tx.insert(feeSchedules).values({
+      ...this.partyColumns(party, partyId),
+      ...rule,
+      fee_percentage: feePercentage,
+      effective_from: today,
+      effective_to: plan.effective_to,
+      note: "Rate changed"
+    });
+  }
+
+  // Fee recalculation
+  async previewFeeRecalculation(request: FeeRecalculationRequest): Promise<FeeRecalculationPreview> {
+    return await this.buildFeeRecalculation(db, request);
+  }
+
+  async applyFeeRecalculation(request: FeeRecalculationRequest, userId?: number): Promise<FeeRecalculation> {
+    return await db.transaction(async (tx) => {
+      // Lock the rows so the applied numbers are the ones just previewed
+      const preview = await this.buildFeeRecalculation(tx, request, true);
+      const changes = preview.lines.filter(line => line.changed);
+      assertPeriodsOpen(await this.closedPeriods(tx), changes.map(line => line.date), "fees dated in it can't be recalculated");
+      
+      for (const line of changes) {
+        const [before] = await tx
+          .select()
+          .from(chequeTransactions)
+          .where(eq(chequeTransactions.transaction_id, line.transaction_id));
+        const [after] = await tx
+          .update(chequeTransactions)
+          .set({ ...line.after, updated_at: new Date() })
+          .where(eq(chequeTransactions.transaction_id, line.transaction_id))
+          .returning();
+        await this.recordAudit(tx, 'transaction', line.transaction_id, 'update', before, after, webActor(userId));
+      }
+      
+      const [result] = await tx
+        .insert(feeRecalculations)
+        .values({
+          ...this.partyColumns(request.party, request.party === 'customer' ? parseInt(request.party_id) : request.party_id),
+          date_from: request.date_from,
+          date_to: request.date_to,
+          transaction_count: changes.length,
+          profit_before: preview.profit_before,
+          profit_after: preview.profit_after,
+          changes,
+          user_id: userId ?? null
+        })
+        .returning();
+      
+      return result;
+    });
+  }
+
+  async getFeeRecalculations(): Promise<FeeRecalculation[]> {
+    return await db
+      .select()
+      .from(feeRecalculations)
+      .orderBy(desc(feeRecalculations.created_at), desc(feeRecalculations.recalculation_id));
+  }
+
+  private async buildFeeRecalculation(executor: typeof db | DbTransaction, request: FeeRecalculationRequest, forUpdate = false): Promise<FeeRecalculationPreview> {
+    const exists = request.party === 'customer'
+      ? await this.getCustomer(parseInt(request.party_id))
+      : await this.getVendor(request.party_id);
+    if (!exists) {
+      throw new Error(request.party === 'customer' ? "Customer not found" : "Vendor not found");
+    }
+    
+    const query = executor
+      .select()
+      .from(chequeTransactions)
+      .where(and(
+        isNull(chequeTransactions.deleted_at),
+        request.party === 'customer'
+          ? eq(chequeTransactions.customer_id, parseInt(request.party_id))
+          : eq(chequeTransactions.vendor_id, request.party_id),
+        gte(chequeTransactions.date, request.date_from),
+        lte(chequeTransactions.date, request.date_to)
+      ));
+    const transactions = (forUpdate ? await query.for("update") : await query).filter(t => isRecalculable(request, t));
+    
+    // Transactions on the same day with the same counterparty share their rules
+    const ratesByKey = new Map<string, Promise<FeeRates>>();
+    const recalculated = await Promise.all(transactions.map(async transaction => {
+      const key = `${transaction.customer_id}|${transaction.vendor_id}|${toDateString(transaction.date)}`;
+      if (!ratesByKey.has(key)) {
+        ratesByKey.set(key, this.getFeeRates(transaction.customer_id, transaction.vendor_id, transaction.date));
+      }
+      const rates = await ratesByKey.get(key)!;
+      return {
+        transaction,
+        after: calculateTransactionFees(transaction.cheque_amount, rates.customer_rule, rates.vendor_rule, transaction)
+      };
+    }));
+    
+    return buildRecalculationPreview(recalculated);
+  }
+
+  // Audit trail
+  async getAuditEntries(entity: AuditEntity, entityId: number | string): Promise<AuditEntryWithUser[]> {
+    const entries = await db
+      .select({
+        entry: auditLog,
+        username: users.username
+      })
+      .from(auditLog)
+      .leftJoin(users, eq(auditLog.user_id, users.user_id))
+      .where(and(eq(auditLog.entity_type, entity), eq(auditLog.entity_id, String(entityId))))
+      .orderBy(desc(auditLog.created_at), desc(auditLog.audit_id));
+    
+    return entries.map(({ entry, username }) => ({ ...entry, username }));
+  }
+
+  async getAuditEntry(auditId: number): Promise<AuditEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(auditLog)
+      .where(eq(auditLog.audit_id, auditId));
+    
+    return entry;
+  }
+
+  async revertAuditEntry(auditId: number, actor: AuditActor): Promise<ChequeTransaction | Customer | Vendor | undefined> {
+    const entry = await this.getAuditEntry(auditId);
+    if (!entry) return undefined;
+    
+    const values = revertValues(entry);
+    const revertActor = { ...actor, revert_of: entry.audit_id };
+    switch (entry.entity_type) {
+      case 'transaction':
+        return this.updateTransaction(parseInt(entry.entity_id), insertTransactionSchema.partial().parse(values), revertActor);
+      case 'customer':
+        return this.updateCustomer(parseInt(entry.entity_id), insertCustomerSchema.partial().parse(values), revertActor);
+      case 'vendor':
+        return this.updateVendor(entry.entity_id, insertVendorSchema.partial().parse(values), revertActor);
+      default:
+        return undefined;
+    }
+  }
+
+  // Append an entry to the audit trail unless an update changed nothing
+  private async recordAudit(
+    tx: DbTransaction,
+    entity: AuditEntity,
+    entityId: number | string,
+    action: Exclude<AuditAction, 'revert'>,
+    before: object | null,
+    after: object | null,
+    actor: AuditActor
+  ): Promise<void> {
+    const entry = buildAuditEntry(entity, entityId, action, before, after, actor);
+    if (entry) {
+      await tx.insert(auditLog).values(entry);
+    }
+  }
+
+  // Trash
+  async getTrash(): Promise<Trash> {
+    const [trashedTransactions, trashedCustomers, trashedVendors] = await Promise.all([
+      db.select().from(chequeTransactions).where(isNotNull(chequeTransactions.deleted_at)).orderBy(desc(chequeTransactions.deleted_at)),
+      db.select().from(customers).where(isNotNull(customers.deleted_at)).orderBy(desc(customers.deleted_at)),
+      db.select().from(vendors).where(isNotNull(vendors.deleted_at)).orderBy(desc(vendors.deleted_at))
+    ]);
+    
+    return { transactions: trashedTransactions, customers: trashedCustomers, vendors: trashedVendors };
+  }
+  
+  async restoreTransaction(id: number, actor: AuditActor = webActor()): Promise<ChequeTransaction | undefined> {
+    return await db.transaction(async (tx) => {
+      const [transaction] = await tx
+        .select()
+        .from(chequeTransactions)
+        .where(and(eq(chequeTransactions.transaction_id, id), isNotNull(chequeTransactions.deleted_at)))
+        .for("update");
+      
+      if (!transaction) return undefined;
+      
+      const [customer] = await tx
+        .select()
+        .from(customers)
+        .where(and(eq(customers.customer_id, transaction.customer_id), isNull(customers.deleted_at)));
+      const [vendor] = await tx
+        .select()
+        .from(vendors)
+        .where(and(eq(vendors.vendor_id, transaction.vendor_id), isNull(vendors.deleted_at)));
+      if (!customer || !vendor) {
+        throw new TrashError("Restore this transaction's customer and vendor first");
+      }
+      
+      assertPeriodsOpen(await this.closedPeriods(tx), [transaction.date], "transactions dated in it can't be restored");
+      
+      const [result] = await tx
+        .update(chequeTransactions)
+        .set({ deleted_at: null, updated_at: new Date() })
+        .where(eq(chequeTransactions.transaction_id, id))
+        .returning();
+      
+      await this.recordAudit(tx, 'transaction', id, 'restore', null, result, actor);
+      return result;
+    });
+  }
+  
+  async restoreCustomer(id: number, actor: AuditActor = webActor()): Promise<Customer | undefined> {
+    return await db.transaction(async (tx) => {
+      const [result] = await tx
+        .update(customers)
+        .set({ deleted_at: null, updated_at: new Date() })
+        .where(and(eq(customers.customer_id, id), isNotNull(customers.deleted_at)))
+        .returning();
+      
+      if (!result) return undefined;
+      
+      await this.recordAudit(tx, 'customer', id, 'restore', null, result, actor);
+      return result;
+    });
+  }
+  
+  async restoreVendor(id: string, actor: AuditActor = webActor()): Promise<Vendor | undefined> {
+    return await db.transaction(async (tx) => {
+      const [result] = await tx
+        .update(vendors)
+        .set({ deleted_at: null, updated_at: new Date() })
+        .where(and(eq(vendors.vendor_id, id), isNotNull(vendors.deleted_at)))
+        .returning();
+      
+      if (!result) return undefined;
+      
+      await this.recordAudit(tx, 'vendor', id, 'restore', null, result, actor);
+      return result;
+    });
+  }
+  
+  async purgeTransaction(id: number, actor: AuditActor = webActor()): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [transaction] = await tx
+        .select()
+        .from(chequeTransactions)
+        .where(and(eq(chequeTransactions.transaction_id, id), isNotNull(chequeTransactions.deleted_at)))
+        .for("update");
+      
+      if (!transaction) return false;
+      
+      const [[payments], [returns], [depositAllocationCount], [vendorAllocationCount], [pendingApprovals]] = await Promise.all([
+        tx.select({ value: count() }).from(transactionPayments).where(eq(transactionPayments.transaction_id, id)),
+        tx.select({ value: count() }).from(chequeReturns).where(eq(chequeReturns.transaction_id, id)),
+        tx.select({ value: count() }).from(depositAllocations).where(eq(depositAllocations.transaction_id, id)),
+        tx.select({ value: count() }).from(vendorPaymentAllocations).where(eq(vendorPaymentAllocations.transaction_id, id)),
+        tx.select({ value: count() }).from(approvalRequests).where(and(
+          eq(approvalRequests.transaction_id, id),
+          eq(approvalRequests.status, 'pending')
+        ))
+      ]);
+      assertPurgeable("transaction", {
+        "payment(s)": payments.value,
+        "return(s)": returns.value,
+        "deposit allocation(s)": depositAllocationCount.value,
+        "vendor payment allocation(s)": vendorAllocationCount.value,
+        "pending approval request(s)": pendingApprovals.value
+      });
+      
+      // Decided requests stay in the approval history without the cheque
+      await tx
+        .update(approvalRequests)
+        .set({ transaction_id: null })
+        .where(eq(approvalRequests.transaction_id, id));
+      await tx.delete(transactionStatusHistory).where(eq(transactionStatusHistory.transaction_id, id));
+      await tx.delete(transactionAttachments).where(eq(transactionAttachments.transaction_id, id));
+      await tx.delete(transactionComments).where(eq(transactionComments.transaction_id, id));
+      await tx.delete(transactionTags).where(eq(transactionTags.transaction_id, id));
+      await tx.delete(chequeTransactions).where(eq(chequeTransactions.transaction_id, id));
+      
+      await this.recordAudit(tx, 'transaction', id, 'purge', transaction, null, actor);
+      return true;
+    });
+  }
+  
+  async purgeCustomer(id: number, actor: AuditActor = webActor()): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [customer] = await tx
+        .select()
+        .from(customers)
+        .where(and(eq(customers.customer_id, id), isNotNull(customers.deleted_at)))
+        .for("update");
+      
+      if (!customer) return false;
+      
+      const [[transactionCount], [deposits], [recalculations]] = await Promise.all([
+        tx.select({ value: count() }).from(chequeTransactions).where(eq(chequeTransactions.customer_id, id)),
+        tx.select({ value: count() }).from(customerDeposits).where(eq(customerDeposits.customer_id, id)),
+        tx.select({ value: count() }).from(feeRecalculations).where(eq(feeRecalculations.customer_id, id))
+      ]);
+      assertPurgeable("customer", {
+        "transaction(s)": transactionCount.value,
+        "deposit(s)": deposits.value,
+        "fee recalculation(s)": recalculations.value
+      });
+      
+      await tx.delete(feeSchedules).where(eq(feeSchedules.customer_id, id));
+      await tx.delete(customers).where(eq(customers.customer_id, id));
+      
+      await this.recordAudit(tx, 'customer', id, 'purge', customer, null, actor);
+      return true;
+    });
+  }
+  
+  async purgeVendor(id: string, actor: AuditActor = webActor()): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [vendor] = await tx
+        .select()
+        .from(vendors)
+        .where(and(eq(vendors.vendor_id, id), isNotNull(vendors.deleted_at)))
+        .for("update");
+      
+      if (!vendor) return false;
+      
+      const [[transactionCount], [payments], [recalculations]] = await Promise.all([
+        tx.select({ value: count() }).from(chequeTransactions).where(eq(chequeTransactions.vendor_id, id)),
+        tx.select({ value: count() }).from(vendorPayments).where(eq(vendorPayments.vendor_id, id)),
+        tx.select({ value: count() }).from(feeRecalculations).where(eq(feeRecalculations.vendor_id, id))
+      ]);
+      assertPurgeable("vendor", {
+        "transaction(s)": transactionCount.value,
+        "payment(s)": payments.value,
+        "fee recalculation(s)": recalculations.value
+      });
+      
+      await tx.delete(feeSchedules).where(eq(feeSchedules.vendor_id, id));
+      await tx.delete(vendors).where(eq(vendors.vendor_id, id));
+      
+      await this.recordAudit(tx, 'vendor', id, 'purge', vendor, null, actor);
+      return true;
+    });
+  }
+
+  // Business summary
+  async getBusinessSummary(): Promise<BusinessSummary> {
+    try {
+      // Due to TypeScript errors with ORM, we'll use direct SQL for all queries
+      // This is a cleaner approach and avoids potential SQL syntax issues
+      const { pool } = await import('./db');
+      
+      // Get transaction count
+      const transactionCountSQL = "SELECT COUNT(*) FROM cheque_transactions WHERE deleted_at IS NULL";
+      const transactionCountResult = await pool.query(transactionCountSQL);
+      const totalTransactions = parseInt(transactionCountResult.rows[0].count) || 0;
+      
+      // Get total amount
+      const totalAmountSQL = "SELECT SUM(cheque_amount) FROM cheque_transactions WHERE deleted_at IS NULL";
+      const totalAmountResult = await pool.query(totalAmountSQL);
+      const totalAmount = totalAmountResult.rows[0].sum 
+        ? parseFloat(totalAmountResult.rows[0].sum).toFixed(2) 
+        : "0.00";
+        
+      // Get total profit
+      const totalProfitSQL = "SELECT SUM(profit) FROM cheque_transactions WHERE deleted_at IS NULL";
+      const totalProfitResult = await pool.query(totalProfitSQL);
+      const totalProfit = totalProfitResult.rows[0].sum 
+        ? parseFloat(totalProfitResult.rows[0].sum).toFixed(2) 
+        : "0.00";
+      
+      // Get outstanding balance (all transactions where received_from_vendor < amount_to_receive_from_vendor)
+      const outstandingBalanceSQL = "SELECT SUM(amount_to_receive_from_vendor - received_from_vendor) FROM cheque_transactions WHERE deleted_at IS NULL AND amount_to_receive_from_vendor > received_from_vendor";
+      const outstandingBalanceSQLResult = await pool.query(outstandingBalanceSQL);
+      const outstandingBalance = outstandingBalanceSQLResult.rows[0].sum 
+        ? parseFloat(outstandingBalanceSQLResult.rows[0].sum).toFixed(2) 
+        : "0.00";
+  
+      // Get pending transactions (where received_from_vendor < amount_to_receive_from_vendor)
+      const pendingCountSQL = "SELECT COUNT(*) FROM cheque_transactions WHERE deleted_at IS NULL AND amount_to_receive_from_vendor > received_from_vendor";
+      const pendingCountResult = await pool.query(pendingCountSQL);
+      const pendingTransactions = parseInt(pendingCountResult.rows[0].count) || 0;
+  
+      // Get completed transactions (where received_from_vendor >= amount_to_receive_from_vendor)
+      const completedCountSQL = "SELECT COUNT(*) FROM cheque_transactions WHERE deleted_at IS NULL AND amount_to_receive_from_vendor <= received_from_vendor";
+      const completedCountResult = await pool.query(completedCountSQL);
+      const completedTransactions = parseInt(completedCountResult.rows[0].count) || 0;
+  
+      return {
+        totalTransactions,
+        totalAmount,
+        totalProfit,
+        outstandingBalance,
+        pendingTransactions,
+        completedTransactions
+      };
+    } catch (error) {
+      console.error("Error in getBusinessSummary:", error);
+      
+      // Return default values if there's an error to prevent app crashes
+      return {
+        totalTransactions: 0,
+        totalAmount: "0.00",
+        totalProfit: "0.00",
+        outstandingBalance: "0.00",
+        pendingTransactions: 0,
+        completedTransactions: 0
+      };
+    }
+  }
+
+  // Reports methods
+  async getReportData(
+    reportName: string, 
+    filters?: { customerId?: number; vendorId?: string; startDate?: string; endDate?: string }
+  ): Promise<any[]> {
+    try {
+      const { pool } = await import('./db');
+      
+      let query = `SELECT * FROM ${reportName}`;
+      const queryParams: any[] = [];
+      
+      // Apply filters if provided
+      if (filters) {
+        const whereConditions: string[] = [];
+        
+        if (filters.customerId) {
+          whereConditions.push(`customer_id = $${queryParams.length + 1}`);
+          queryParams.push(filters.customerId);
+        }
+        
+        if (filters.vendorId) {
+          whereConditions.push(`vendor_id = $${queryParams.length + 1}`);
+          queryParams.push(filters.vendorId);
+        }
+        
+        if (filters.startDate) {
+          whereConditions.push(`date >= $${queryParams.length + 1}`);
+          queryParams.push(filters.startDate);
+        }
+        
+        if (filters.endDate) {
+          whereConditions.push(`date <= $${queryParams.length + 1}`);
+          queryParams.push(filters.endDate);
+        }
+        
+        if (whereConditions.length > 0) {
+          query += ` WHERE ${whereConditions.join(' AND ')}`;
+        }
+      }
+      
+      const result = await pool.query(query, queryParams);
+      return result.rows;
+    } catch (error) {
+      console.error(`Error retrieving report data from ${reportName}:`, error);
+      return []; // Return empty array instead of throwing to prevent app crashes
+    }
+  }
+
+  // Customer Deposits methods
+  async getCustomerDeposits(customerId?: number): Promise<CustomerDeposit[]> {
+    try {
+      const query = db.select().from(customerDeposits);
+      
+      if (customerId) {
+        return await query
+          .where(eq(customerDeposits.customer_id, customerId))
+          .orderBy(desc(customerDeposits.date), desc(customerDeposits.deposit_id));
+      }
+      
+      return await query.orderBy(desc(customerDeposits.date), desc(customerDeposits.deposit_id));
+    } catch (error) {
+      console.error("Error retrieving customer deposits:", error);
+      return [];
+    }
+  }
+
+  async getCustomerDeposit(id: number): Promise<CustomerDepositWithAllocations | undefined> {
+    const [deposit] = await db
+      .select()
+      .from(customerDeposits)
+      .where(eq(customerDeposits.deposit_id, id));
+    
+    if (!deposit) return undefined;
+    
+    const allocations = await db
+      .select()
+      .from(depositAllocations)
+      .where(eq(depositAllocations.deposit_id, id))
+      .orderBy(asc(depositAllocations.allocation_id));
+    
+    const allocated = allocations.reduce((sum, a) => sum + toCents(a.amount), 0);
+    
+    return {
+      ...deposit,
+      allocations,
+      unallocated: fromCents(toCents(deposit.amount) - allocated)
+    };
+  }
+
+  async createCustomerDeposit(deposit: InsertCustomerDeposit, allocation: AllocateDeposit = { mode: 'auto' }, actor: AuditActor = webActor()): Promise<CustomerDepositWithAllocations> {
+    try {
+      // Verify customer exists
+      const customer = await this.getCustomer(deposit.customer_id);
+      if (!customer) {
+        throw new Error("Customer not found");
+      }
+      
+      const { depositId, requested } = await db.transaction(async (tx) => {
+        // A deposit without a date is recorded today
+        const date = deposit.date || toDateString(new Date());
+        assertPeriodsOpen(await this.closedPeriods(tx), [date], "deposits can't be recorded in it");
+        
+        const [result] = await tx
+          .insert(customerDeposits)
+          .values({
+            customer_id: deposit.customer_id,
+            amount: deposit.amount,
+            date,
+            notes: deposit.notes ?? null
+          })
+          .returning();
+        
+        const requested = await this.applyDepositAllocation(tx, result, allocation, actor);
+        await this.recordAudit(tx, 'deposit', result.deposit_id, 'create', null, (await this.depositVersion(tx, result.deposit_id))!, actor);
+        return { depositId: result.deposit_id, requested };
+      });
+      
+      return { ...(await this.getCustomerDeposit(depositId))!, pending_approval: await this.approvalRequestsById(requested) };
+    } catch (error) {
+      console.error("Error creating customer deposit:", error);
+      throw error;
+    }
+  }
+
+  async allocateCustomerDeposit(id: number, allocation: AllocateDeposit, actor: AuditActor = webActor()): Promise<CustomerDepositWithAllocations | undefined> {
+    try {
+      const requested = await db.transaction(async (tx) => {
+        const [deposit] = await tx
+          .select()
+          .from(customerDeposits)
+          .where(eq(customerDeposits.deposit_id, id))
+          .for("update");
+        
+        if (!deposit) return undefined;
+        
+        assertPeriodsOpen(await this.closedPeriods(tx), [deposit.date], "deposits dated in it can't be allocated");
+        
+        const before = await this.depositVersion(tx, id);
+        const requested = await this.applyDepositAllocation(tx, deposit, allocation, actor);
+        await this.recordAudit(tx, 'deposit', id, 'update', before!, (await this.depositVersion(tx, id))!, actor);
+        return requested;
+      });
+      
+      if (!requested) return undefined;
+      const deposit = await this.getCustomerDeposit(id);
+      return deposit && { ...deposit, pending_approval: await this.approvalRequestsById(requested) };
+    } catch (error) {
+      console.error(`Error allocating customer deposit with ID ${id}:`, error);
+      throw error;
+    }
+  }
+
+  async reverseDepositAllocation(allocationId: number, actor: AuditActor = webActor()): Promise<boolean> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [allocation] = await tx
+          .select()
+          .from(depositAllocations)
+          .where(eq(depositAllocations.allocation_id, allocationId));
+        
+        if (!allocation) return false;
+        
+        const before = await this.depositVersion(tx, allocation.deposit_id);
+        assertPeriodsOpen(await this.closedPeriods(tx), [before?.date], "deposits dated in it can't be reallocated");
+        await this.releaseDepositAllocations(tx, [allocation]);
+        await this.refreshDepositAllocatedFlag(tx, allocation.deposit_id);
+        await this.recordAudit(tx, 'deposit', allocation.deposit_id, 'update', before!, (await this.depositVersion(tx, allocation.deposit_id))!, actor);
+        return true;
+      });
+    } catch (error) {
+      console.error(`Error reversing deposit allocation with ID ${allocationId}:`, error);
+      throw error;
+    }
+  }
+
+  async deleteCustomerDeposit(id: number, actor: AuditActor = webActor()): Promise<boolean> {
+    try {
+      return await db.transaction(async (tx) => {
+        const before = await this.depositVersion(tx, id);
+        if (!before) return false;
+        
+        assertPeriodsOpen(await this.closedPeriods(tx), [before.date], "deposits dated in it can't be deleted");
+        
+        const allocations = await tx
+          .select()
+          .from(depositAllocations)
+          .where(eq(depositAllocations.deposit_id, id));
+        
+        await this.releaseDepositAllocations(tx, allocations);
+        await this.releaseStatementLines(tx, eq(bankStatementLines.deposit_id, id));
+        
+        await tx
+          .delete(customerDeposits)
+          .where(eq(customerDeposits.deposit_id, id));
+        
+        await this.recordAudit(tx, 'deposit', id, 'delete', before, null, actor);
+        return true;
+      });
+    } catch (error) {
+      console.error(`Error deleting customer deposit with ID ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  // A deposit as recorded in the audit trail, with what is still unallocated
+  private async depositVersion(tx: DbTransaction, id: number): Promise<(CustomerDeposit & { unallocated: string }) | undefined> {
+    const [deposit] = await tx
+      .select()
+      .from(customerDeposits)
+      .where(eq(customerDeposits.deposit_id, id));
+    
+    if (!deposit) return undefined;
+    
+    const allocations = await tx
+      .select()
+      .from(depositAllocations)
+      .where(eq(depositAllocations.deposit_id, id));
+    
+    const allocated = allocations.reduce((sum, a) => sum + toCents(a.amount), 0);
+    return { ...deposit, unallocated: fromCents(toCents(deposit.amount) - allocated) };
+  }
+  
+  /**
+   * Apply the unallocated part of a deposit to the customer's unpaid transactions,
+   * either oldest first or to the transactions the user picked. Payouts an
+   * approval policy holds back are sent for approval instead, and what they
+   * would pay stays set aside on the deposit and the cheque until they are decided.
+   * @param approvedRequestId The request being approved, when applying a held payout
+   * @returns The ids of the approval requests sent
+   */
+  private async applyDepositAllocation(
+    tx: DbTransaction,
+    deposit: CustomerDeposit,
+    allocation: AllocateDeposit,
+    actor: AuditActor,
+    approvedRequestId?: number
+  ): Promise<number[]> {
+    const existing = await tx
+      .select()
+      .from(depositAllocations)
+      .where(eq(depositAllocations.deposit_id, deposit.deposit_id));
+    
+    const allocated = existing.reduce((sum, a) => sum + toCents(a.amount), 0);
+    const held = heldPayouts(
+      (await this.pendingPayouts(tx)).filter(request => request.approval_id !== approvedRequestId),
+      deposit.deposit_id
+    );
+    const available = fromCents(toCents(deposit.amount) - allocated - held.fromDeposit);
+    
+    const openTransactions = await tx
+      .select()
+      .from(chequeTransactions)
+      .where(and(
+        eq(chequeTransactions.customer_id, deposit.customer_id),
+        isNull(chequeTransactions.deleted_at),
+        sql`COALESCE(${chequeTransactions.paid_to_customer}, 0) < COALESCE(${chequeTransactions.net_payable_to_customer}, 0)`
+      ))
+      .orderBy(asc(chequeTransactions.date), asc(chequeTransactions.transaction_id))
+      .for("update");
+    
+    const openBalances = openTransactions
+      .map(t => ({
+        transaction_id: t.transaction_id,
+        date: t.date,
+        outstanding: outstandingAmount(t.net_payable_to_customer, fromCents(toCents(t.paid_to_customer) + (held.byTransaction.get(t.transaction_id) ?? 0)))
+      }))
+      .filter(b => toCents(b.outstanding) > 0);
+    
+    const { allocations } = allocation.mode === 'manual'
+      ? allocateManually(available, allocation.allocations || [], openBalances)
+      : allocateOldestFirst(available, openBalances);
+    
+    // Each allocation pays the customer out, which a policy may hold back
+    const requester = actor.user_id ? await this.getUser(actor.user_id) : undefined;
+    const policies = await this.getApprovalPolicies();
+    const requested: number[] = [];
+    for (const line of allocations) {
+      const policy = approvedRequestId === undefined
+        ? matchApprovalPolicy(policies, 'payout', line.amount, requester?.role)
+        : undefined;
+      if (policy) {
+        const transaction = openTransactions.find(t => t.transaction_id === line.transaction_id)!;
+        requested.push(await this.insertApprovalRequest(tx, policy, 'payout', depositPayoutDetails(deposit.deposit_id, transaction, line.amount), actor));
+        continue;
+      }
+      
+      const [created] = await tx
+        .insert(depositAllocations)
+        .values({
+          deposit_id: deposit.deposit_id,
+          transaction_id: line.transaction_id,
+          amount: line.amount
+        })
+        .returning();
+      
+      await tx
+        .insert(transactionPayments)
+        .values({
+          transaction_id: line.transaction_id,
+          type: 'payout',
+          amount: line.amount,
+          date: deposit.date,
+          method: 'deposit',
+          note: `Deposit #${deposit.deposit_id}`,
+          deposit_allocation_id: created.allocation_id
+        });
+      
+      await this.syncPaymentTotals(tx, line.transaction_id);
+    }
+    
+    await this.refreshDepositAllocatedFlag(tx, deposit.deposit_id);
+    return requested;
+  }
+  
+  // Payouts waiting for approval
+  private async pendingPayouts(tx: DbTransaction): Promise<ApprovalRequest[]> {
+    return await tx
+      .select()
+      .from(approvalRequests)
+      .where(and(eq(approvalRequests.action, 'payout'), eq(approvalRequests.status, 'pending')));
+  }
+  
+  /**
+   * Take deposit allocations back off their transactions and remove them
+   */
+  private async releaseDepositAllocations(tx: DbTransaction, allocations: DepositAllocation[]): Promise<void> {
+    for (const allocation of allocations) {
+      await tx
+        .delete(transactionPayments)
+        .where(eq(transactionPayments.deposit_allocation_id, allocation.allocation_id));
+      
+      await tx
+        .delete(depositAllocations)
+        .where(eq(depositAllocations.allocation_id, allocation.allocation_id));
+      
+      await this.syncPaymentTotals(tx, allocation.transaction_id);
+    }
+  }
+  
+  /**
+   * Keep fully_allocated in step with the deposit's allocations
+   */
+  private async refreshDepositAllocatedFlag(tx: DbTransaction, depositId: number): Promise<void> {
+    await tx
+      .update(customerDeposits)
+      .set({
+        fully_allocated: sql`COALESCE((SELECT SUM(${depositAllocations.amount}) FROM ${depositAllocations} WHERE ${depositAllocations.deposit_id} = ${depositId}), 0) >= ${customerDeposits.amount}`,
+        updated_at: new Date()
+      })
+      .where(eq(customerDeposits.deposit_id, depositId));
+  }
+
+  // Vendor Payments methods
+  async getVendorPayments(vendorId?: string): Promise<VendorPayment[]> {
+    try {
+      const query = db.select().from(vendorPayments);
+      
+      if (vendorId) {
+        return await query
+          .where(eq(vendorPayments.vendor_id, vendorId))
+          .orderBy(desc(vendorPayments.date), desc(vendorPayments.payment_id));
+      }
+      
+      return await query.orderBy(desc(vendorPayments.date), desc(vendorPayments.payment_id));
+    } catch (error) {
+      console.error("Error retrieving vendor payments:", error);
+      return [];
+    }
+  }
+
+  async getVendorPayment(id: number): Promise<VendorPaymentWithAllocations | undefined> {
+    const [payment] = await db
+      .select()
+      .from(vendorPayments)
+      .where(eq(vendorPayments.payment_id, id));
+    
+    if (!payment) return undefined;
+    
+    const allocations = await db
+      .select()
+      .from(vendorPaymentAllocations)
+      .where(eq(vendorPaymentAllocations.payment_id, id))
+      .orderBy(asc(vendorPaymentAllocations.allocation_id));
+    
+    return { ...payment, allocations };
+  }
+
+  async createVendorPayment(payment: InsertVendorPayment): Promise<VendorPaymentWithAllocations> {
+    try {
+      // Verify vendor exists
+      const vendor = await this.getVendor(payment.vendor_id);
+      if (!vendor) {
+        throw new Error("Vendor not found");
+      }
+      
+      const paymentId = await db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(vendorPayments)
+          .values(payment)
+          .returning();
+        
+        await this.allocateVendorPayment(tx, created);
+        return created.payment_id;
+      });
+      
+      return (await this.getVendorPayment(paymentId))!;
+    } catch (error) {
+      console.error("Error creating vendor payment:", error);
+      throw error;
+    }
+  }
+
+  async updateVendorPayment(id: number, payment: Partial<InsertVendorPayment>): Promise<VendorPaymentWithAllocations | undefined> {
+    try {
+      if (payment.vendor_id) {
+        const vendor = await this.getVendor(payment.vendor_id);
+        if (!vendor) {
+          throw new Error("Vendor not found");
+        }
+      }
+      
+      const updated = await db.transaction(async (tx) => {
+        if (payment.vendor_id) {
+          const [existing] = await tx.select().from(vendorPayments).where(eq(vendorPayments.payment_id, id));
+          if (existing && existing.batch_id !== null && existing.vendor_id !== payment.vendor_id) {
+            throw new VendorBatchError("A batch receipt stays with the batch's vendor");
+          }
+        }
+        
+        // Re-run the allocation when anything affecting it changed
+        const needsReallocation = payment.amount !== undefined || payment.vendor_id !== undefined || payment.date !== undefined;
+        
+        if (needsReallocation) {
+          await this.releaseVendorPaymentAllocations(tx, id);
+        }
+        
+        const [result] = await tx
+          .update(vendorPayments)
+          .set({ ...payment, updated_at: new Date() })
+          .where(eq(vendorPayments.payment_id, id))
+          .returning();
+        
+        if (result && needsReallocation) {
+          await this.allocateVendorPayment(tx, result);
+        }
+        
+        return result;
+      });
+      
+      if (!updated) return undefined;
+      return this.getVendorPayment(id);
+    } catch (error) {
+      console.error(`Error updating vendor payment with ID ${id}:`, error);
+      throw error;
+    }
+  }
+
+  async deleteVendorPayment(id: number): Promise<boolean> {
+    try {
+      return await db.transaction(async (tx) => {
+        await this.releaseVendorPaymentAllocations(tx, id);
+        await this.releaseStatementLines(tx, eq(bankStatementLines.vendor_payment_id, id));
+        
+        const result = await tx
+          .delete(vendorPayments)
+          .where(eq(vendorPayments.payment_id, id))
+          .returning();
+        
+        return result.length > 0;
+      });
+    } catch (error) {
+      console.error(`Error deleting vendor payment with ID ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  // Vendor batch methods
+  
+  // Batches with the totals of their cheques, newest first
+  private async batchesWithTotals(executor: DbTransaction | typeof db, condition?: SQL): Promise<VendorBatchWithTotals[]> {
+    const rows = await executor
+      .select({
+        batch: vendorBatches,
+        vendor_name: vendors.vendor_name,
+        transaction_count: sql<number>`count(${chequeTransactions.transaction_id})::int`,
+        cheque_total: sql<string>`coalesce(sum(${chequeTransactions.cheque_amount}), 0)`,
+        expected_total: sql<string>`coalesce(sum(${chequeTransactions.amount_to_receive_from_vendor}), 0)`,
+        received_total: sql<string>`coalesce(sum(${chequeTransactions.received_from_vendor}), 0)`
+      })
+      .from(vendorBatches)
+      .innerJoin(vendors, eq(vendors.vendor_id, vendorBatches.vendor_id))
+      .leftJoin(chequeTransactions, and(
+        eq(chequeTransactions.batch_id, vendorBatches.batch_id),
+        isNull(chequeTransactions.deleted_at)
+      ))
+      .where(condition)
+      .groupBy(vendorBatches.batch_id, vendors.vendor_name)
+      .orderBy(desc(vendorBatches.batch_date), desc(vendorBatches.batch_id));
+    
+    return rows.map(row => ({
+      ...row.batch,
+      status: batchStatusOf(row.batch.status, toCents(row.expected_total), toCents(row.received_total)),
+      vendor_name: row.vendor_name,
+      transaction_count: Number(row.transaction_count),
+      cheque_total: fromCents(toCents(row.cheque_total)),
+      expected_total: fromCents(toCents(row.expected_total)),
+      received_total: fromCents(toCents(row.received_total))
+    }));
+  }
+
+  async getVendorBatches(vendorId?: string): Promise<VendorBatchWithTotals[]> {
+    return await this.batchesWithTotals(db, vendorId ? eq(vendorBatches.vendor_id, vendorId) : undefined);
+  }
+
+  async getVendorBatch(id: number): Promise<VendorBatchDetails | undefined> {
+    const [batch] = await this.batchesWithTotals(db, eq(vendorBatches.batch_id, id));
+    if (!batch) {
+      return undefined;
+    }
+    
+    const transactions = await db
+      .select({ ...getTableColumns(chequeTransactions), customer_name: customers.customer_name })
+      .from(chequeTransactions)
+      .innerJoin(customers, eq(customers.customer_id, chequeTransactions.customer_id))
+      .where(and(eq(chequeTransactions.batch_id, id), isNull(chequeTransactions.deleted_at)))
+      .orderBy(asc(chequeTransactions.date), asc(chequeTransactions.transaction_id));
+    
+    const receipts = await db
+      .select()
+      .from(vendorPayments)
+      .where(eq(vendorPayments.batch_id, id))
+      .orderBy(asc(vendorPayments.date), asc(vendorPayments.payment_id));
+    
+    return { ...batch, transactions, receipts };
+  }
+
+  async createVendorBatch(batch: InsertVendorBatch, userId?: number): Promise<VendorBatchDetails> {
+    const batchId = await db.transaction(async (tx) => {
+      const [vendor] = await tx
+        .select()
+        .from(vendors)
+        .where(and(eq(vendors.vendor_id, batch.vendor_id), isNull(vendors.deleted_at)));
+      if (!vendor) {
+        throw new Error("Vendor not found");
+      }
+      
+      const { transaction_ids: transactionIds, ...values } = batch;
+      const [created] = await tx
+        .insert(vendorBatches)
+        .values({ ...values, status: 'open', user_id: userId ?? null })
+        .returning();
+      
+      await this.assignBatchTransactions(tx, created, transactionIds ?? []);
+      return created.batch_id;
+    });
+    
+    return (await this.getVendorBatch(batchId))!;
+  }
+
+  // Put cheques in a batch, refusing them all if any can't go in
+  private async assignBatchTransactions(tx: DbTransaction, batch: VendorBatch, transactionIds: number[]): Promise<void> {
+    if (transactionIds.length === 0) return;
+    
+    const transactions = await tx
+      .select()
+      .from(chequeTransactions)
+      .where(and(inArray(chequeTransactions.transaction_id, transactionIds), isNull(chequeTransactions.deleted_at)))
+      .for("update");
+    
+    const byId = new Map(transactions.map(t => [t.transaction_id, t]));
+    for (const transactionId of transactionIds) {
+      const transaction = byId.get(transactionId);
+      if (!transaction) {
+        throw new VendorBatchError(`Transaction #${transactionId} not found`);
+      }
+      assertBatchable(batch, transaction);
+    }
+    
+    await tx
+      .update(chequeTransactions)
+      .set({ batch_id: batch.batch_id, updated_at: new Date() })
+      .where(inArray(chequeTransactions.transaction_id, transactionIds));
+  }
+
+  // Lock a batch for a change
+  private async lockVendorBatch(tx: DbTransaction, id: number): Promise<VendorBatch> {
+    const [batch] = await tx
+      .select()
+      .from(vendorBatches)
+      .where(eq(vendorBatches.batch_id, id))
+      .for("update");
+    if (!batch) {
+      throw new Error("Vendor batch not found");
+    }
+    return batch;
+  }
+
+  private async hasBatchReceipts(tx: DbTransaction, id: number): Promise<boolean> {
+    const [receipt] = await tx
+      .select({ payment_id: vendorPayments.payment_id })
+      .from(vendorPayments)
+      .where(eq(vendorPayments.batch_id, id))
+      .limit(1);
+    return !!receipt;
+  }
+
+  async updateVendorBatch(id: number, batch: UpdateVendorBatch): Promise<VendorBatchDetails | undefined> {
+    const updated = await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(vendorBatches)
+        .where(eq(vendorBatches.batch_id, id))
+        .for("update");
+      if (!existing) {
+        return undefined;
+      }
+      
+      const [current] = await this.batchesWithTotals(tx, eq(vendorBatches.batch_id, id));
+      assertBatchStatusChange(current, batch, await this.hasBatchReceipts(tx, id));
+      
+      const [result] = await tx
+        .update(vendorBatches)
+        .set({ ...batch, updated_at: new Date() })
+        .where(eq(vendorBatches.batch_id, id))
+        .returning();
+      return result;
+    });
+    
+    if (!updated) return undefined;
+    return this.getVendorBatch(id);
+  }
+
+  async deleteVendorBatch(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(vendorBatches)
+        .where(eq(vendorBatches.batch_id, id))
+        .for("update");
+      if (!existing) {
+        return false;
+      }
+      
+      if (await this.hasBatchReceipts(tx, id)) {
+        throw new VendorBatchError("Delete the batch's receipts before deleting the batch");
+      }
+      
+      // The cheques go back to being unbatched
+      await tx
+        .update(chequeTransactions)
+        .set({ batch_id: null, updated_at: new Date() })
+        .where(eq(chequeTransactions.batch_id, id));
+      
+      await tx.delete(vendorBatches).where(eq(vendorBatches.batch_id, id));
+      return true;
+    });
+  }
+
+  async addBatchTransactions(id: number, transactionIds: number[]): Promise<VendorBatchDetails> {
+    await db.transaction(async (tx) => {
+      const batch = await this.lockVendorBatch(tx, id);
+      assertBatchOpen(batch);
+      await this.assignBatchTransactions(tx, batch, transactionIds);
+    });
+    
+    return (await this.getVendorBatch(id))!;
+  }
+
+  async removeBatchTransactions(id: number, transactionIds: number[]): Promise<VendorBatchDetails> {
+    await db.transaction(async (tx) => {
+      const batch = await this.lockVendorBatch(tx, id);
+      assertBatchOpen(batch);
+      
+      await tx
+        .update(chequeTransactions)
+        .set({ batch_id: null, updated_at: new Date() })
+        .where(and(eq(chequeTransactions.batch_id, id), inArray(chequeTransactions.transaction_id, transactionIds)));
+    });
+    
+    return (await this.getVendorBatch(id))!;
+  }
+
+  async recordBatchReceipt(id: number, receipt: VendorBatchReceipt): Promise<VendorPaymentWithAllocations> {
+    const paymentId = await db.transaction(async (tx) => (await this.insertBatchReceipt(tx, id, receipt)).payment_id);
+    return (await this.getVendorPayment(paymentId))!;
+  }
+
+  // Record a batch receipt as a vendor payment spread across the batch's cheques
+  private async insertBatchReceipt(tx: DbTransaction, id: number, receipt: VendorBatchReceipt): Promise<VendorPayment> {
+    const batch = await this.lockVendorBatch(tx, id);
+    const [totals] = await this.batchesWithTotals(tx, eq(vendorBatches.batch_id, id));
+    assertBatchReceivable(totals);
+    
+    const [created] = await tx
+      .insert(vendorPayments)
+      .values({
+        vendor_id: batch.vendor_id,
+        date: receipt.date || toDateString(),
+        amount: receipt.amount,
+        notes: receipt.notes ?? `Batch #${id}`,
+        batch_id: id
+      })
+      .returning();
+    
+    await this.allocateVendorPayment(tx, created);
+    
+    // Keep the stored status in step with what has now been received
+    const [received] = await this.batchesWithTotals(tx, eq(vendorBatches.batch_id, id));
+    await tx
+      .update(vendorBatches)
+      .set({
+        status: batchStatusOf(batch.status, toCents(received.expected_total), toCents(received.received_total)),
+        updated_at: new Date()
+      })
+      .where(eq(vendorBatches.batch_id, id));
+    
+    return created;
+  }
+
+  /**
+   * Apply a vendor payment to the vendor's open transactions, oldest first,
+   * and record an allocation row for each transaction it touches
+   */
+  private async allocateVendorPayment(tx: DbTransaction, payment: VendorPayment): Promise<void> {
+    assertPeriodsOpen(await this.closedPeriods(tx), [payment.date], "vendor payments can't be recorded in it");
+    
+    const openTransactions = await tx
+      .select()
+      .from(chequeTransactions)
+      .where(and(
+        eq(chequeTransactions.vendor_id, payment.vendor_id),
+        isNull(chequeTransactions.deleted_at),
+        // A batch receipt only goes to the batch's cheques
+        payment.batch_id !== null ? eq(chequeTransactions.batch_id, payment.batch_id) : undefined,
+        sql`COALESCE(${chequeTransactions.received_from_vendor}, 0) < COALESCE(${chequeTransactions.amount_to_receive_from_vendor}, 0)`
+      ))
+      .orderBy(asc(chequeTransactions.date), asc(chequeTransactions.transaction_id))
+      .for("update");
+    
+    const { allocations, unallocated } = allocateOldestFirst(
+      payment.amount,
+      openTransactions.map(t => ({
+        transaction_id: t.transaction_id,
+        date: t.date,
+        outstanding: outstandingAmount(t.amount_to_receive_from_vendor, t.received_from_vendor)
+      }))
+    );
+    
+    for (const allocation of allocations) {
+      const [created] = await tx
+        .insert(vendorPaymentAllocations)
+        .values({
+          payment_id: payment.payment_id,
+          transaction_id: allocation.transaction_id,
+          amount: allocation.amount
+        })
+        .returning();
+      
+      await tx
+        .insert(transactionPayments)
+        .values({
+          transaction_id: allocation.transaction_id,
+          type: 'vendor_receipt',
+          amount: allocation.amount,
+          date: payment.date,
+          method: 'vendor_payment',
+          note: `Vendor payment #${payment.payment_id}`,
+          vendor_payment_allocation_id: created.allocation_id
+        });
+      
+      await this.syncPaymentTotals(tx, allocation.transaction_id);
+    }
+    
+    await tx
+      .update(vendorPayments)
+      .set({ fully_allocated: toCents(unallocated) === 0 })
+      .where(eq(vendorPayments.payment_id, payment.payment_id));
+  }
+  
+  /**
+   * Undo everything a vendor payment applied to its transactions
+   */
+  private async releaseVendorPaymentAllocations(tx: DbTransaction, paymentId: number): Promise<void> {
+    const [payment] = await tx
+      .select({ date: vendorPayments.date })
+      .from(vendorPayments)
+      .where(eq(vendorPayments.payment_id, paymentId));
+    assertPeriodsOpen(await this.closedPeriods(tx), [payment?.date], "vendor payments dated in it can't be changed or removed");
+    
+    const allocations = await tx
+      .select()
+      .from(vendorPaymentAllocations)
+      .where(eq(vendorPaymentAllocations.payment_id, paymentId));
+    
+    for (const allocation of allocations) {
+      await tx
+        .delete(transactionPayments)
+        .where(eq(transactionPayments.vendor_payment_allocation_id, allocation.allocation_id));
+    }
+    
+    await tx
+      .delete(vendorPaymentAllocations)
+      .where(eq(vendorPaymentAllocations.payment_id, paymentId));
+    
+    for (const allocation of allocations) {
+      await this.syncPaymentTotals(tx, allocation.transaction_id);
+    }
+  }
+
+  // Bank reconciliation methods
+  
+  // Statements with how far they have been reconciled, newest first
+  private async statementSummaries(executor: DbTransaction | typeof db, condition?: SQL): Promise<BankStatementSummary[]> {
+    const rows = await executor
+      .select({
+        statement: bankStatements,
+        line_count: sql<number>`count(${bankStatementLines.line_id})::int`,
+        matched_count: sql<number>`count(*) filter (where ${bankStatementLines.status} = 'matched')::int`,
+        ignored_count: sql<number>`count(*) filter (where ${bankStatementLines.status} = 'ignored')::int`
+      })
+      .from(bankStatements)
+      .leftJoin(bankStatementLines, eq(bankStatementLines.statement_id, bankStatements.statement_id))
+      .where(condition)
+      .groupBy(bankStatements.statement_id)
+      .orderBy(desc(bankStatements.statement_id));
+    
+    return rows.map(row => ({
+      ...row.statement,
+      line_count: Number(row.line_count),
+      matched_count: Number(row.matched_count),
+      ignored_count: Number(row.ignored_count)
+    }));
+  }
+
+  /**
+   * What statement lines can still be matched to: everything that could match
+   * a statement's period, or just the record a line is being matched to
+   */
+  private async reconciliationTargets(
+    executor: DbTransaction | typeof db,
+    scope: { period?: { start: string; end: string } | null; match?: BankStatementMatch } = {}
+  ): Promise<ReconciliationTargets> {
+    const window = scope.period ? matchingWindow(scope.period.start, scope.period.end) : null;
+    const wanted = (type: BankMatchType) => !scope.match || scope.match.match_type === type;
+    const onlyMatch = (column: typeof chequeTransactions.transaction_id | typeof vendorBatches.batch_id | typeof vendorPayments.payment_id | typeof customerDeposits.deposit_id) =>
+      scope.match ? eq(column, scope.match.id) : undefined;
+    const matchedLines = and(eq(bankStatementLines.status, 'matched'), isNotNull(bankStatementLines.vendor_payment_id));
+    const matchedDepositLines = and(eq(bankStatementLines.status, 'matched'), isNotNull(bankStatementLines.deposit_id));
+    
+    const transactions = wanted('transaction') ? await executor
+      .select({ ...getTableColumns(chequeTransactions), customer_name: customers.customer_name, vendor_name: vendors.vendor_name })
+      .from(chequeTransactions)
+      .innerJoin(customers, eq(customers.customer_id, chequeTransactions.customer_id))
+      .innerJoin(vendors, eq(vendors.vendor_id, chequeTransactions.vendor_id))
+      .where(and(
+        isNull(chequeTransactions.deleted_at),
+        sql`COALESCE(${chequeTransactions.received_from_vendor}, 0) < COALESCE(${chequeTransactions.amount_to_receive_from_vendor}, 0)`,
+        onlyMatch(chequeTransactions.transaction_id),
+        window ? gte(chequeTransactions.date, window.expected_from) : undefined,
+        window ? lte(chequeTransactions.date, window.to) : undefined
+      )) : [];
+    
+    const batches = wanted('batch') ? await this.batchesWithTotals(executor, and(
+      sql`${vendorBatches.status} <> 'open'`,
+      onlyMatch(vendorBatches.batch_id),
+      window ? gte(vendorBatches.batch_date, window.expected_from) : undefined,
+      window ? lte(vendorBatches.batch_date, window.to) : undefined
+    )) : [];
+    
+    const payments = wanted('vendor_payment') ? await executor
+      .select({ ...getTableColumns(vendorPayments), vendor_name: vendors.vendor_name })
+      .from(vendorPayments)
+      .innerJoin(vendors, eq(vendors.vendor_id, vendorPayments.vendor_id))
+      .where(and(
+        notInArray(vendorPayments.payment_id, executor.select({ id: sql<number>`${bankStatementLines.vendor_payment_id}` }).from(bankStatementLines).where(matchedLines)),
+        onlyMatch(vendorPayments.payment_id),
+        window ? gte(vendorPayments.date, window.recorded_from) : undefined,
+        window ? lte(vendorPayments.date, window.to) : undefined
+      )) : [];
+    
+    const deposits = wanted('customer_deposit') ? await executor
+      .select({ ...getTableColumns(customerDeposits), customer_name: customers.customer_name })
+      .from(customerDeposits)
+      .innerJoin(customers, eq(customers.customer_id, customerDeposits.customer_id))
+      .where(and(
+        notInArray(customerDeposits.deposit_id, executor.select({ id: sql<number>`${bankStatementLines.deposit_id}` }).from(bankStatementLines).where(matchedDepositLines)),
+        onlyMatch(customerDeposits.deposit_id),
+        window ? gte(customerDeposits.date, window.recorded_from) : undefined,
+        window ? lte(customerDeposits.date, window.to) : undefined
+      )) : [];
+    
+    return { transactions, batches, vendorPayments: payments, deposits };
+  }
+
+  private async lockStatementLine(tx: DbTransaction, lineId: number): Promise<BankStatementLine> {
+    const [line] = await tx
+      .select()
+      .from(bankStatementLines)
+      .where(eq(bankStatementLines.line_id, lineId))
+      .for("update");
+    if (!line) {
+      throw new Error("Statement line not found");
+    }
+    return line;
+  }
+
+  // Put lines matched to something being deleted back up for matching
+  private async releaseStatementLines(tx: DbTransaction, matchedTo: SQL): Promise<void> {
+    await tx
+      .update(bankStatementLines)
+      .set({ ...matchColumns(null), status: 'unmatched', matched_by: null, matched_at: null })
+      .where(and(eq(bankStatementLines.status, 'matched'), matchedTo));
+  }
+
+  async getBankStatements(): Promise<BankStatementSummary[]> {
+    return await this.statementSummaries(db);
+  }
+
+  async getBankStatement(id: number): Promise<BankStatementDetails | undefined> {
+    const [statement] = await this.statementSummaries(db, eq(bankStatements.statement_id, id));
+    if (!statement) {
+      return undefined;
+    }
+    
+    const lines = await db
+      .select()
+      .from(bankStatementLines)
+      .where(eq(bankStatementLines.statement_id, id))
+      .orderBy(asc(bankStatementLines.date), asc(bankStatementLines.line_id));
+    
+    const period = statement.start_date && statement.end_date ? { start: statement.start_date, end: statement.end_date } : null;
+    const targets = await this.reconciliationTargets(db, { period });
+    return { ...statement, lines: lines.map(line => toReconciliationLine(line, targets)) };
+  }
+
+  async importBankStatement(fileName: string, parsed: ParsedBankStatement, userId?: number): Promise<BankStatementDetails> {
+    const statementId = await db.transaction(async (tx) => {
+      // A line the bank gave a reference is only imported once
+      const lineKey = (line: Pick<BankStatementLine, 'date' | 'amount' | 'reference'>) =>
+        `${line.date}|${toCents(line.amount)}|${line.reference}`;
+      const references = Array.from(new Set(parsed.lines.map(line => line.reference).filter((reference): reference is string => !!reference)));
+      const imported = references.length === 0 ? [] : await tx
+        .select({ date: bankStatementLines.date, amount: bankStatementLines.amount, reference: bankStatementLines.reference })
+        .from(bankStatementLines)
+        .where(inArray(bankStatementLines.reference, references));
+      const known = new Set(imported.map(lineKey));
+      const lines = parsed.lines.filter(line => !line.reference || !known.has(lineKey(line)));
+      if (lines.length === 0) {
+        throw new ReconciliationError("Every line of this statement has already been imported");
+      }
+      
+      const [statement] = await tx
+        .insert(bankStatements)
+        .values({
+          file_name: fileName,
+          format: parsed.format,
+          account: parsed.account,
+          start_date: parsed.start_date,
+          end_date: parsed.end_date,
+          user_id: userId ?? null
+        })
+        .returning();
+      
+      const period = parsed.start_date && parsed.end_date ? { start: parsed.start_date, end: parsed.end_date } : null;
+      const matches = autoMatchLines(lines, await this.reconciliationTargets(tx, { period }));
+      const values = lines.map((line, index) => ({
+        statement_id: statement.statement_id,
+        date: line.date,
+        amount: line.amount,
+        description: line.description,
+        reference: line.reference,
+        status: matches[index] ? 'matched' as const : 'unmatched' as const,
+        ...matchColumns(matches[index]),
+        matched_at: matches[index] ? new Date() : null
+      }));
+      
+      // Keep each insert well inside Postgres' limit on query parameters
+      for (let start = 0; start < values.length; start += 1000) {
+        await tx.insert(bankStatementLines).values(values.slice(start, start + 1000));
+      }
+      return statement.statement_id;
+    });
+    
+    return (await this.getBankStatement(statementId))!;
+  }
+
+  async deleteBankStatement(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [statement] = await tx
+        .select()
+        .from(bankStatements)
+        .where(eq(bankStatements.statement_id, id))
+        .for("update");
+      if (!statement) {
+        return false;
+      }
+      
+      const [matched] = await tx
+        .select({ value: count() })
+        .from(bankStatementLines)
+        .where(and(eq(bankStatementLines.statement_id, id), eq(bankStatementLines.status, 'matched')));
+      if (matched.value > 0) {
+        throw new ReconciliationError("Unmatch the statement's lines before deleting it");
+      }
+      
+      await tx.delete(bankStatementLines).where(eq(bankStatementLines.statement_id, id));
+      await tx.delete(bankStatements).where(eq(bankStatements.statement_id, id));
+      return true;
+    });
+  }
+
+  async matchStatementLine(lineId: number, match: BankStatementMatch, userId?: number): Promise<BankStatementDetails> {
+    const statementId = await db.transaction(async (tx) => {
+      const line = await this.lockStatementLine(tx, lineId);
+      checkMatch(line, match, await this.reconciliationTargets(tx, { match }));
+      
+      // Matching a cheque or batch records the vendor receipt the line paid
+      const columns = matchColumns(match);
+      const receipt = receiptFromLine(line);
+      if (match.match_type === 'transaction') {
+        const payment = await this.insertTransactionPayment(tx, match.id, {
+          type: 'vendor_receipt',
+          amount: receipt.amount,
+          date: receipt.date,
+          method: 'bank_statement',
+          note: receipt.note
+        }, userId);
+        columns.transaction_payment_id = payment.payment_id;
+      } else if (match.match_type === 'batch') {
+        const payment = await this.insertBatchReceipt(tx, match.id, { amount: receipt.amount, date: receipt.date, notes: receipt.note });
+        columns.vendor_payment_id = payment.payment_id;
+      }
+      
+      await tx
+        .update(bankStatementLines)
+        .set({ ...columns, status: 'matched', matched_by: userId ?? null, matched_at: new Date() })
+        .where(eq(bankStatementLines.line_id, lineId));
+      return line.statement_id;
+    });
     
-    return transaction;
+    return (await this.getBankStatement(statementId))!;
   }
 
-  async getTransactionWithDetails(id: number): Promise<TransactionWithDetails | undefined> {
-    const result = await db
-      .select({
-        ...chequeTransactions,
-        customer: {
-          customer_name: customers.customer_name
-        },
-        vendor: {
-          vendor_name: vendors.vendor_name
-        }
-      })
-      .from(chequeTransactions)
-      .leftJoin(customers, eq(chequeTransactions.customer_id, customers.customer_id))
-      .leftJoin(vendors, eq(chequeTransactions.vendor_id, vendors.vendor_id))
-      .where(eq(chequeTransactions.transaction_id, id));
+  async unmatchStatementLine(lineId: number): Promise<BankStatementDetails> {
+    const statementId = await db.transaction(async (tx) => {
+      const line = await this.lockStatementLine(tx, lineId);
+      if (line.status === 'unmatched') {
+        throw new ReconciliationError("The line isn't matched or ignored");
+      }
+      
+      await tx
+        .update(bankStatementLines)
+        .set({ ...matchColumns(null), status: 'unmatched', matched_by: null, matched_at: null })
+        .where(eq(bankStatementLines.line_id, lineId));
+      
+      // Take back the vendor receipt matching recorded
+      if (line.match_type === 'transaction' && line.transaction_payment_id !== null && line.transaction_id !== null) {
+        await tx.delete(transactionPayments).where(eq(transactionPayments.payment_id, line.transaction_payment_id));
+        await this.syncPaymentTotals(tx, line.transaction_id);
+      } else if (line.match_type === 'batch' && line.vendor_payment_id !== null) {
+        await this.releaseVendorPaymentAllocations(tx, line.vendor_payment_id);
+        await tx.delete(vendorPayments).where(eq(vendorPayments.payment_id, line.vendor_payment_id));
+      }
+      return line.statement_id;
+    });
     
-    if (result.length === 0) return undefined;
-    return result[0] as unknown as TransactionWithDetails;
+    return (await this.getBankStatement(statementId))!;
   }
 
-  async createTransaction(transaction: InsertTransaction): Promise<ChequeTransaction> {
-    const [result] = await db
-      .insert(chequeTransactions)
-      .values(transaction)
-      .returning();
+  async ignoreStatementLine(lineId: number): Promise<BankStatementDetails> {
+    const statementId = await db.transaction(async (tx) => {
+      const line = await this.lockStatementLine(tx, lineId);
+      if (line.status === 'matched') {
+        throw new ReconciliationError("Unmatch the line before ignoring it");
+      }
+      
+      await tx
+        .update(bankStatementLines)
+        .set({ status: 'ignored' })
+        .where(eq(bankStatementLines.line_id, lineId));
+      return line.statement_id;
+    });
     
-    return result;
+    return (await this.getBankStatement(statementId))!;
   }
 
-  async updateTransaction(id: number, transaction: Partial<InsertTransaction>): Promise<ChequeTransaction | undefined> {
-    const [result] = await db
-      .update(chequeTransactions)
-      .set(transaction)
-      .where(eq(chequeTransactions.transaction_id, id))
-      .returning();
-    
-    return result;
+  // Accounting period methods
+  async getAccountingPeriods(): Promise<AccountingPeriodWithUsers[]> {
+    const closer = alias(users, "closer");
+    const reopener = alias(users, "reopener");
+    return await db
+      .select({
+        ...getTableColumns(accountingPeriods),
+        closed_by_username: closer.username,
+        reopened_by_username: reopener.username
+      })
+      .from(accountingPeriods)
+      .leftJoin(closer, eq(accountingPeriods.closed_by, closer.user_id))
+      .leftJoin(reopener, eq(accountingPeriods.reopened_by, reopener.user_id))
+      .orderBy(desc(accountingPeriods.period));
   }
 
-  async deleteTransaction(id: number): Promise<boolean> {
-    const result = await db
-      .delete(chequeTransactions)
-      .where(eq(chequeTransactions.transaction_id, id))
-      .returning();
-    
-    return result.length > 0;
+  async closeAccountingPeriod(period: string, actor: AuditActor = webActor()): Promise<AccountingPeriod> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(accountingPeriods)
+        .where(eq(accountingPeriods.period, period))
+        .for("update");
+      assertClosable(period, existing, toDateString());
+      
+      const values = { status: 'closed' as const, closed_by: actor.user_id, closed_at: new Date() };
+      const [closed] = existing
+        ? await tx.update(accountingPeriods).set(values).where(eq(accountingPeriods.period, period)).returning()
+        : await tx.insert(accountingPeriods).values({ period, ...values }).returning();
+      
+      await this.recordAudit(tx, 'period', period, 'close', existing ?? null, closed, actor);
+      return closed;
+    });
   }
 
-  // Customer methods
-  async getCustomers(): Promise<Customer[]> {
-    return await db.select().from(customers);
+  async reopenAccountingPeriod(period: string, actor: AuditActor = webActor()): Promise<AccountingPeriod> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(accountingPeriods)
+        .where(eq(accountingPeriods.period, period))
+        .for("update");
+      assertReopenable(period, existing);
+      
+      const [reopened] = await tx
+        .update(accountingPeriods)
+        .set({ status: 'open', reopened_by: actor.user_id, reopened_at: new Date() })
+        .where(eq(accountingPeriods.period, period))
+        .returning();
+      
+      await this.recordAudit(tx, 'period', period, 'reopen', existing, reopened, actor);
+      return reopened;
+    });
   }
 
-  async getCustomer(id: number): Promise<Customer | undefined> {
-    const [customer] = await db
+  // The months that are closed, as YYYY-MM
+  private async closedPeriods(executor: DbTransaction | typeof db): Promise<string[]> {
+    const closed = await executor
+      .select({ period: accountingPeriods.period })
+      .from(accountingPeriods)
+      .where(eq(accountingPeriods.status, 'closed'));
+    return closed.map(row => row.period);
+  }
+
+  // Approval methods
+  async getApprovalPolicies(): Promise<ApprovalPolicy[]> {
+    return await db
       .select()
-      .from(customers)
-      .where(eq(customers.customer_id, id));
-    
-    return customer;
+      .from(approvalPolicies)
+      .orderBy(asc(approvalPolicies.action), asc(approvalPolicies.policy_id));
   }
 
-  async createCustomer(customer: InsertCustomer): Promise<Customer> {
+  async createApprovalPolicy(policy: InsertApprovalPolicy): Promise<ApprovalPolicy> {
     const [result] = await db
-      .insert(customers)
-      .values(customer)
+      .insert(approvalPolicies)
+      .values({ ...policy, roles: policy.roles ?? [] })
       .returning();
-    
     return result;
   }
 
-  async updateCustomer(id: number, customer: Partial<InsertCustomer>): Promise<Customer | undefined> {
+  async updateApprovalPolicy(id: number, policy: UpdateApprovalPolicy): Promise<ApprovalPolicy | undefined> {
     const [result] = await db
-      .update(customers)
-      .set(customer)
-      .where(eq(customers.customer_id, id))
+      .update(approvalPolicies)
+      .set({ ...policy, updated_at: new Date() })
+      .where(eq(approvalPolicies.policy_id, id))
       .returning();
-    
     return result;
   }
 
-  async deleteCustomer(id: number): Promise<boolean> {
-    const result = await db
-      .delete(customers)
-      .where(eq(customers.customer_id, id))
-      .returning();
-    
-    return result.length > 0;
-  }
-
-  // Vendor methods
-  async getVendors(): Promise<Vendor[]> {
-    return await db.select().from(vendors);
+  async deleteApprovalPolicy(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(approvalPolicies)
+      .where(eq(approvalPolicies.policy_id, id))
+      .returning({ policy_id: approvalPolicies.policy_id });
+    return deleted.length > 0;
   }
 
-  async getVendor(id: string): Promise<Vendor | undefined> {
-    const [vendor] = await db
-      .select()
-      .from(vendors)
-      .where(eq(vendors.vendor_id, id));
+  async submitForApproval(
+    action: ApprovalAction,
+    details: ApprovalDetails,
+    actor: AuditActor = webActor()
+  ): Promise<ApprovalRequestWithUsers | undefined> {
+    const requester = actor.user_id ? await this.getUser(actor.user_id) : undefined;
+    const policy = matchApprovalPolicy(await this.getApprovalPolicies(), action, details.amount, requester?.role);
+    if (!policy) {
+      return undefined;
+    }
     
-    return vendor;
+    // A cheque waiting to be deleted only needs one request
+    if (action === 'delete' && details.transaction_id) {
+      const [pending] = await db
+        .select({ approval_id: approvalRequests.approval_id })
+        .from(approvalRequests)
+        .where(and(
+          eq(approvalRequests.action, 'delete'),
+          eq(approvalRequests.status, 'pending'),
+          eq(approvalRequests.transaction_id, details.transaction_id)
+        ));
+      if (pending) {
+        return await this.getApprovalRequest(pending.approval_id);
+      }
+    }
+    
+    return await this.getApprovalRequest(await this.insertApprovalRequest(db, policy, action, details, actor));
   }
 
-  async createVendor(vendor: InsertVendor): Promise<Vendor> {
-    const [result] = await db
-      .insert(vendors)
-      .values(vendor)
+  // Add a request to the approval queue under the policy that holds it back
+  private async insertApprovalRequest(
+    executor: DbTransaction | typeof db,
+    policy: ApprovalPolicy,
+    action: ApprovalAction,
+    details: ApprovalDetails,
+    actor: AuditActor
+  ): Promise<number> {
+    const [request] = await executor
+      .insert(approvalRequests)
+      .values({
+        policy_id: policy.policy_id,
+        action,
+        transaction_id: details.transaction_id ?? null,
+        amount: details.amount,
+        summary: details.summary,
+        payload: details.payload,
+        requested_by: actor.user_id,
+        channel: actor.channel
+      })
       .returning();
-    
-    return result;
+    return request.approval_id;
   }
 
-  async updateVendor(id: string, vendor: Partial<InsertVendor>): Promise<Vendor | undefined> {
-    const [result] = await db
-      .update(vendors)
-      .set(vendor)
-      .where(eq(vendors.vendor_id, id))
-      .returning();
-    
-    return result;
+  // Requests in the approval queue, in the order given
+  private async approvalRequestsById(ids: number[]): Promise<ApprovalRequestWithUsers[]> {
+    const requests: ApprovalRequestWithUsers[] = [];
+    for (const id of ids) {
+      requests.push((await this.getApprovalRequest(id))!);
+    }
+    return requests;
   }
 
-  async deleteVendor(id: string): Promise<boolean> {
-    const result = await db
-      .delete(vendors)
-      .where(eq(vendors.vendor_id, id))
-      .returning();
+  // Allocate an approved payout from the deposit it was held back from
+  private async applyHeldDepositPayout(tx: DbTransaction, depositId: number, request: ApprovalRequest, requester: AuditActor): Promise<void> {
+    const [deposit] = await tx
+      .select()
+      .from(customerDeposits)
+      .where(eq(customerDeposits.deposit_id, depositId))
+      .for("update");
+    if (!deposit) {
+      throw new Error("Customer deposit not found");
+    }
     
-    return result.length > 0;
+    assertPeriodsOpen(await this.closedPeriods(tx), [deposit.date], "deposits dated in it can't be allocated");
+    
+    const before = await this.depositVersion(tx, depositId);
+    await this.applyDepositAllocation(tx, deposit, {
+      mode: 'manual',
+      allocations: [{ transaction_id: request.transaction_id!, amount: request.amount }]
+    }, requester, request.approval_id);
+    await this.recordAudit(tx, 'deposit', depositId, 'update', before!, (await this.depositVersion(tx, depositId))!, requester);
   }
 
-  // Business summary
-  async getBusinessSummary(): Promise<BusinessSummary> {
-    try {
-      // Due to TypeScript errors with ORM, we'll use direct SQL for all queries
-      // This is a cleaner approach and avoids potential SQL syntax issues
-      const { pool } = await import('./db');
-      
-      // Get transaction count
-      const transactionCountSQL = "SELECT COUNT(*) FROM cheque_transactions";
-      const transactionCountResult = await pool.query(transactionCountSQL);
-      const totalTransactions = parseInt(transactionCountResult.rows[0].count) || 0;
-      
-      // Get total amount
-      const totalAmountSQL = "SELECT SUM(cheque_amount) FROM cheque_transactions";
-      const totalAmountResult = await pool.query(totalAmountSQL);
-      const totalAmount = totalAmountResult.rows[0].sum 
-        ? parseFloat(totalAmountResult.rows[0].sum).toFixed(2) 
-        : "0.00";
-        
-      // Get total profit
-      const totalProfitSQL = "SELECT SUM(profit) FROM cheque_transactions";
-      const totalProfitResult = await pool.query(totalProfitSQL);
-      const totalProfit = totalProfitResult.rows[0].sum 
-        ? parseFloat(totalProfitResult.rows[0].sum).toFixed(2) 
-        : "0.00";
-      
-      // Get outstanding balance (all transactions where received_from_vendor < amount_to_receive_from_vendor)
-      const outstandingBalanceSQL = "SELECT SUM(amount_to_receive_from_vendor - received_from_vendor) FROM cheque_transactions WHERE amount_to_receive_from_vendor > received_from_vendor";
-      const outstandingBalanceSQLResult = await pool.query(outstandingBalanceSQL);
-      const outstandingBalance = outstandingBalanceSQLResult.rows[0].sum 
-        ? parseFloat(outstandingBalanceSQLResult.rows[0].sum).toFixed(2) 
-        : "0.00";
-  
-      // Get pending transactions (where received_from_vendor < amount_to_receive_from_vendor)
-      const pendingCountSQL = "SELECT COUNT(*) FROM cheque_transactions WHERE amount_to_receive_from_vendor > received_from_vendor";
-      const pendingCountResult = await pool.query(pendingCountSQL);
-      const pendingTransactions = parseInt(pendingCountResult.rows[0].count) || 0;
-  
-      // Get completed transactions (where received_from_vendor >= amount_to_receive_from_vendor)
-      const completedCountSQL = "SELECT COUNT(*) FROM cheque_transactions WHERE amount_to_receive_from_vendor <= received_from_vendor";
-      const completedCountResult = await pool.query(completedCountSQL);
-      const completedTransactions = parseInt(completedCountResult.rows[0].count) || 0;
-  
-      return {
-        totalTransactions,
-        totalAmount,
-        totalProfit,
-        outstandingBalance,
-        pendingTransactions,
-        completedTransactions
-      };
-    } catch (error) {
-      console.error("Error in getBusinessSummary:", error);
-      
-      // Return default values if there's an error to prevent app crashes
-      return {
-        totalTransactions: 0,
-        totalAmount: "0.00",
-        totalProfit: "0.00",
-        outstandingBalance: "0.00",
-        pendingTransactions: 0,
-        completedTransactions: 0
-      };
+  async getApprovalRequests(filters: { status?: ApprovalStatus; requestedBy?: number } = {}): Promise<ApprovalRequestWithUsers[]> {
+    const conditions: SQL[] = [];
+    if (filters.status) {
+      conditions.push(eq(approvalRequests.status, filters.status));
+    }
+    if (filters.requestedBy !== undefined) {
+      conditions.push(eq(approvalRequests.requested_by, filters.requestedBy));
     }
+    
+    return await this.approvalRequestsQuery()
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(approvalRequests.approval_id));
   }
 
-  // Reports methods
-  async getReportData(
-    reportName: string, 
-    filters?: { customerId?: number; vendorId?: string; startDate?: string; endDate?: string }
-  ): Promise<any[]> {
-    try {
-      const { pool } = await import('./db');
-      
-      let query = `SELECT * FROM ${reportName}`;
-      const queryParams: any[] = [];
+  async getApprovalRequest(id: number): Promise<ApprovalRequestWithUsers | undefined> {
+    const [request] = await this.approvalRequestsQuery()
+      .where(eq(approvalRequests.approval_id, id));
+    return request;
+  }
+
+  async approveApprovalRequest(id: number, actor: AuditActor = webActor()): Promise<ApprovalRequestWithUsers> {
+    // The change and the decision are saved together, so a change that fails
+    // leaves the request pending
+    await db.transaction(async (tx) => {
+      const request = await this.lockApprovalRequest(tx, id);
+      assertDecidable(request, actor.user_id);
       
-      // Apply filters if provided
-      if (filters) {
-        const whereConditions: string[] = [];
-        
-        if (filters.customerId) {
-          whereConditions.push(`customer_id = $${queryParams.length + 1}`);
-          queryParams.push(filters.customerId);
-        }
-        
-        if (filters.vendorId) {
-          whereConditions.push(`vendor_id = $${queryParams.length + 1}`);
-          queryParams.push(filters.vendorId);
-        }
-        
-        if (filters.startDate) {
-          whereConditions.push(`date >= $${queryParams.length + 1}`);
-          queryParams.push(filters.startDate);
-        }
-        
-        if (filters.endDate) {
-          whereConditions.push(`date <= $${queryParams.length + 1}`);
-          queryParams.push(filters.endDate);
+      // The change is applied as the requester's, through the channel they used
+      const requester: AuditActor = { user_id: request.requested_by, channel: request.channel };
+      let transactionId = request.transaction_id;
+      switch (request.action) {
+        case 'create': {
+          const { override_limits, ...transaction } = request.payload;
+          const created = await this.insertWithinLimits(tx, insertTransactionSchema.parse(transaction), requester, { override_limits: override_limits === true });
+          transactionId = created.transaction_id;
+          break;
         }
-        
-        if (whereConditions.length > 0) {
-          query += ` WHERE ${whereConditions.join(' AND ')}`;
+        case 'delete':
+          if (!(await this.trashTransaction(tx, request.transaction_id!, requester))) {
+            throw new Error("Transaction not found");
+          }
+          break;
+        case 'fee_override':
+          if (!(await this.applyTransactionUpdate(tx, request.transaction_id!, insertTransactionSchema.partial().parse(request.payload), requester))) {
+            throw new Error("Transaction not found");
+          }
+          break;
+        case 'payout': {
+          // A payout held back from a deposit is allocated from that deposit
+          const depositId = payoutDepositId(request);
+          if (depositId !== undefined) {
+            await this.applyHeldDepositPayout(tx, depositId, request, requester);
+            break;
+          }
+          
+          const [transaction] = await tx
+            .select({ transaction_id: chequeTransactions.transaction_id })
+            .from(chequeTransactions)
+            .where(and(eq(chequeTransactions.transaction_id, request.transaction_id!), isNull(chequeTransactions.deleted_at)))
+            .for("update");
+          if (!transaction) {
+            throw new Error("Transaction not found");
+          }
+          await this.insertTransactionPayment(tx, transaction.transaction_id, insertTransactionPaymentSchema.parse(request.payload), request.requested_by ?? undefined);
+          break;
         }
       }
       
-      const result = await pool.query(query, queryParams);
-      return result.rows;
-    } catch (error) {
-      console.error(`Error retrieving report data from ${reportName}:`, error);
-      return []; // Return empty array instead of throwing to prevent app crashes
-    }
+      await tx
+        .update(approvalRequests)
+        .set({ transaction_id: transactionId, status: 'approved', decided_by: actor.user_id, decided_at: new Date() })
+        .where(eq(approvalRequests.approval_id, id));
+    });
+    
+    return (await this.getApprovalRequest(id))!;
   }
 
-  // Customer Deposits methods
-  async createCustomerDeposit(deposit: InsertCustomerDeposit): Promise<CustomerDeposit> {
-    try {
-      // Verify customer exists
-      const customer = await this.getCustomer(deposit.customer_id);
-      if (!customer) {
-        throw new Error("Customer not found");
-      }
-      
-      // Insert the deposit - only include customer_id and amount as specified
-      const [result] = await db
-        .insert(customerDeposits)
-        .values({
-          customer_id: deposit.customer_id,
-          amount: deposit.amount
-        })
-        .returning();
+  async rejectApprovalRequest(id: number, actor: AuditActor = webActor(), note?: string): Promise<ApprovalRequestWithUsers> {
+    await db.transaction(async (tx) => {
+      const request = await this.lockApprovalRequest(tx, id);
+      assertDecidable(request, actor.user_id);
       
-      return result;
-    } catch (error) {
-      console.error("Error creating customer deposit:", error);
-      throw error;
+      await tx
+        .update(approvalRequests)
+        .set({ status: 'rejected', decided_by: actor.user_id, decided_at: new Date(), decision_note: note || null })
+        .where(eq(approvalRequests.approval_id, id));
+    });
+    
+    return (await this.getApprovalRequest(id))!;
+  }
+
+  // Approval requests with who asked for and decided them
+  private approvalRequestsQuery() {
+    const requester = alias(users, "requester");
+    const decider = alias(users, "decider");
+    return db
+      .select({
+        ...getTableColumns(approvalRequests),
+        requested_by_username: requester.username,
+        decided_by_username: decider.username
+      })
+      .from(approvalRequests)
+      .leftJoin(requester, eq(approvalRequests.requested_by, requester.user_id))
+      .leftJoin(decider, eq(approvalRequests.decided_by, decider.user_id))
+      .$dynamic();
+  }
+
+  // Lock a request so two admins can't decide it at once
+  private async lockApprovalRequest(tx: DbTransaction, id: number): Promise<ApprovalRequest> {
+    const [request] = await tx
+      .select()
+      .from(approvalRequests)
+      .where(eq(approvalRequests.approval_id, id))
+      .for("update");
+    if (!request) {
+      throw new Error("Approval request not found");
     }
+    return request;
+  }
+
+  // Customer statements and vendor settlements
+  async getCustomerStatement(customerId: number, period: StatementPeriod): Promise<CustomerStatement | undefined> {
+    const customer = await this.getCustomer(customerId);
+    if (!customer) return undefined;
+    
+    // All of the customer's activity, since what is dated before the range makes up the opening balance
+    const transactions = await db
+      .select()
+      .from(chequeTransactions)
+      .where(and(eq(chequeTransactions.customer_id, customerId), isNull(chequeTransactions.deleted_at)));
+    const ids = transactions.map(t => t.transaction_id);
+    
+    const [deposits, payouts, returns] = await Promise.all([
+      db.select().from(customerDeposits).where(eq(customerDeposits.customer_id, customerId)),
+      ids.length === 0 ? Promise.resolve([]) : db
+        .select()
+        .from(transactionPayments)
+        .where(and(
+          inArray(transactionPayments.transaction_id, ids),
+          eq(transactionPayments.type, 'payout'),
+          isNull(transactionPayments.deposit_allocation_id)
+        )),
+      ids.length === 0 ? Promise.resolve([]) : db
+        .select()
+        .from(chequeReturns)
+        .where(inArray(chequeReturns.transaction_id, ids))
+    ]);
+    
+    return buildCustomerStatement(customer, { transactions, deposits, payouts, returns }, period);
+  }
+  
+  async getVendorSettlement(vendorId: string, period: StatementPeriod, overdueDays?: number): Promise<VendorSettlement | undefined> {
+    const vendor = await this.getVendor(vendorId);
+    if (!vendor) return undefined;
+    
+    // All of the vendor's cheques, since what is owed from before the range makes up the opening balance
+    const transactions = await db
+      .select({ ...getTableColumns(chequeTransactions), customer_name: customers.customer_name })
+      .from(chequeTransactions)
+      .innerJoin(customers, eq(chequeTransactions.customer_id, customers.customer_id))
+      .where(and(eq(chequeTransactions.vendor_id, vendorId), isNull(chequeTransactions.deleted_at)));
+    const ids = transactions.map(t => t.transaction_id);
+    
+    const [payments, receipts] = await Promise.all([
+      db.select().from(vendorPayments).where(eq(vendorPayments.vendor_id, vendorId)),
+      ids.length === 0 ? Promise.resolve([]) : db
+        .select()
+        .from(transactionPayments)
+        .where(and(
+          inArray(transactionPayments.transaction_id, ids),
+          eq(transactionPayments.type, 'vendor_receipt'),
+          isNull(transactionPayments.vendor_payment_allocation_id)
+        ))
+    ]);
+    
+    return buildVendorSettlement(vendor, { transactions, payments, receipts }, period, overdueDays);
   }
 
   // AI Assistant methods
@@ -575,6 +3391,14 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
+  async getTelegramUsersByUserIds(userIds: number[]): Promise<TelegramUser[]> {
+    if (userIds.length === 0) return [];
+    return await db
+      .select()
+      .from(telegramUsers)
+      .where(inArray(telegramUsers.user_id, userIds));
+  }
+  
   async createTelegramUser(telegramUser: InsertTelegramUser): Promise<TelegramUser> {
     try {
       const [result] = await db
@@ -36,7 +36,7 @@ pool.query('SELECT NOW()', (err, res) => {
  */
 export async function getCustomers() {
   try {
-    const result = await pool.query('SELECT * FROM customers');
+    const result = await pool.query('SELECT * FROM customers WHERE deleted_at IS NULL');
     return result.rows;
   } catch (error) {
     console.error('Error fetching customers:', error);
@@ -49,7 +49,7 @@ export async function getCustomers() {
  */
 export async function getVendors() {
   try {
-    const result = await pool.query('SELECT * FROM vendors');
+    const result = await pool.query('SELECT * FROM vendors WHERE deleted_at IS NULL');
     return result.rows;
   } catch (error) {
     console.error('Error fetching vendors:', error);
@@ -62,7 +62,7 @@ export async function getVendors() {
  */
 export async function getTransactions() {
   try {
-    const result = await pool.query('SELECT * FROM cheque_transactions ORDER BY date DESC');
+    const result = await pool.query('SELECT * FROM cheque_transactions WHERE deleted_at IS NULL ORDER BY date DESC');
     return result.rows;
   } catch (error) {
     console.error('Error fetching transactions:', error);
@@ -94,20 +94,20 @@ export async function getBusinessSummary() {
     }
 
     // Get total transactions
-    const transactionCountResult = await pool.query('SELECT COUNT(*) FROM cheque_transactions');
+    const transactionCountResult = await pool.query('SELECT COUNT(*) FROM cheque_transactions WHERE deleted_at IS NULL');
     const totalTransactions = parseInt(transactionCountResult.rows[0].count) || 0;
 
     // Get total amount
-    const totalAmountResult = await pool.query('SELECT SUM(cheque_amount) FROM cheque_transactions');
+    const totalAmountResult = await pool.query('SELECT SUM(cheque_amount) FROM cheque_transactions WHERE deleted_at IS NULL');
     const totalAmount = totalAmountResult.rows[0].sum ? parseFloat(totalAmountResult.rows[0].sum).toFixed(2) : "0.00";
 
     // Get total profit
-    const totalProfitResult = await pool.query('SELECT SUM(profit) FROM cheque_transactions');
+    const totalProfitResult = await pool.query('SELECT SUM(profit) FROM cheque_transactions WHERE deleted_at IS NULL');
     const totalProfit = totalProfitResult.rows[0].sum ? parseFloat(totalProfitResult.rows[0].sum).toFixed(2) : "0.00";
 
     // Get outstanding balance (using net_payable_to_customer - paid_to_customer)
     const outstandingBalanceResult = await pool.query(
-      "SELECT SUM(net_payable_to_customer - COALESCE(paid_to_customer, 0)) FROM cheque_transactions"
+      "SELECT SUM(net_payable_to_customer - COALESCE(paid_to_customer, 0)) FROM cheque_transactions WHERE deleted_at IS NULL"
     );
     const outstandingBalance = outstandingBalanceResult.rows[0].sum 
       ? parseFloat(outstandingBalanceResult.rows[0].sum).toFixed(2)
@@ -118,13 +118,13 @@ export async function getBusinessSummary() {
     try {
       // Get "pending" transaction count (using status column)
       const pendingStatusCountResult = await pool.query(
-        "SELECT COUNT(*) FROM cheque_transactions WHERE status = $1", ['pending']
+        "SELECT COUNT(*) FROM cheque_transactions WHERE deleted_at IS NULL AND status = $1", ['pending']
       );
       const pendingTransactions = parseInt(pendingStatusCountResult.rows[0].count) || 0;
 
-      // Get "completed" transaction count (using status column)
+      // Get "completed" (settled) transaction count (using status column)
       const completedStatusCountResult = await pool.query(
-        "SELECT COUNT(*) FROM cheque_transactions WHERE status = $1", ['completed']
+        "SELECT COUNT(*) FROM cheque_transactions WHERE deleted_at IS NULL AND status = $1", ['settled']
       );
       const completedTransactions = parseInt(completedStatusCountResult.rows[0].count) || 0;
 
@@ -142,13 +142,13 @@ export async function getBusinessSummary() {
 
     // Fallback: Get "pending" transaction count (not fully paid to customer)
     const pendingCountResult = await pool.query(
-      "SELECT COUNT(*) FROM cheque_transactions WHERE net_payable_to_customer > COALESCE(paid_to_customer, 0)"
+      "SELECT COUNT(*) FROM cheque_transactions WHERE deleted_at IS NULL AND net_payable_to_customer > COALESCE(paid_to_customer, 0)"
     );
     const pendingTransactions = parseInt(pendingCountResult.rows[0].count) || 0;
 
     // Get "completed" transaction count (fully paid to customer)
     const completedCountResult = await pool.query(
-      "SELECT COUNT(*) FROM cheque_transactions WHERE net_payable_to_customer <= COALESCE(paid_to_customer, 0)"
+      "SELECT COUNT(*) FROM cheque_transactions WHERE deleted_at IS NULL AND net_payable_to_customer <= COALESCE(paid_to_customer, 0)"
     );
     const completedTransactions = parseInt(completedCountResult.rows[0].count) || 0;
 
@@ -4,18 +4,75 @@ import { storage } from "./storage";
 import { z } from "zod";
 import { 
   insertTransactionSchema, 
+  duplicateChequeCheckSchema,
   insertCustomerSchema, 
   insertVendorSchema, 
+  checkChequeAmountRange,
+  vendorRecommendationRequestSchema,
   userConversations, 
   insertCustomerDepositSchema,
+  allocateDepositSchema,
+  insertVendorPaymentSchema,
+  insertTransactionPaymentSchema,
+  insertChequeReturnSchema,
+  insertFeeScheduleSchema,
+  feeRecalculationRequestSchema,
+  auditEntityEnum,
+  trashEntitySchema,
+  transactionImportMappingSchema,
+  bulkTransactionActionSchema,
+  transactionExportSchema,
+  transactionSearchSchema,
+  attachmentKindSchema,
+  insertTransactionCommentSchema,
+  insertTagSchema,
+  updateTagSchema,
+  transactionTagsSchema,
+  insertVendorBatchSchema,
+  updateVendorBatchSchema,
+  vendorBatchTransactionsSchema,
+  vendorBatchReceiptSchema,
+  bankStatementMatchSchema,
+  accountingPeriodKeySchema,
+  approvalStatusEnum,
+  insertApprovalPolicySchema,
+  updateApprovalPolicySchema,
+  approvalDecisionSchema,
+  statementPeriodSchema,
+  type ApprovalAction,
+  type ApprovalDetails,
+  type AuditActor,
+  type BulkTransactionResult,
+  type CustomerDepositWithAllocations,
+  type TransactionAttachment,
+  type TransactionImportPreview,
+  type TransactionImportResult,
+  type CreditLimitCheck,
   type User
 } from "@shared/schema";
 import OpenAI from "openai";
 import multer from "multer";
 import { processDocument } from "./services/documentProcessor";
-import { sendTelegramMessage } from "./services/telegram";
+import { notifyApprovers, notifyRequester, sendTelegramMessage } from "./services/telegram";
 import { generateAIResponse, processChequeDocument } from "./services/openai";
-import { setupAuth, requireAuth } from "./auth";
+import { setupAuth, requireAuth, requireRole } from "./auth";
+import { AllocationError } from "./services/allocation";
+import { StatusTransitionError } from "./services/transaction-status";
+import { FeeScheduleError, toDateString } from "./services/fee-schedules";
+import { FeeRuleError } from "./services/fee-rules";
+import { AuditError, webActor } from "./services/audit";
+import { TrashError } from "./services/trash";
+import { addLimitBreaches, buildImportPreview, readSpreadsheet, suggestImportMapping, TransactionImportError } from "./services/transaction-import";
+import { emptyBulkResult, transactionsToCsv } from "./services/bulk-transactions";
+import { TransactionSearchError } from "./services/transaction-search";
+import { AttachmentError, readAttachment, removeAttachmentFiles, saveAttachment } from "./services/attachments";
+import { canOverrideLimits, CreditLimitError, isNearLimit, NEAR_LIMIT_RATIO } from "./services/credit-limits";
+import { renderBatchManifest, VendorBatchError } from "./services/vendor-batches";
+import { parseBankStatement, ReconciliationError } from "./services/bank-reconciliation";
+import { AccountingPeriodError } from "./services/accounting-periods";
+import { approvalDetails, ApprovalError, canApprove, isFeeOverride, matchApprovalPolicy } from "./services/approvals";
+import { customerStatementFileName, renderCustomerStatementPdf } from "./services/customer-statements";
+import { renderVendorSettlementPdf, summarizeVendorSettlement, VENDOR_OVERDUE_DAYS, vendorSettlementFileName, vendorSettlementToCsv } from "./services/vendor-settlements";
 import { registerUserRoutes } from "./user-routes";
 import { registerReportRoutes } from "./report-routes";
 import { db } from "./db";
@@ -180,291 +237,2114 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get(`${apiRouter}/reports/returned-cheques`, async (req, res) => {
+    try {
+      const customerId = req.query.customerId ? Number(req.query.customerId) : undefined;
+      const results = await storage.getReportData("returned_cheques", { customerId });
+      res.json(results);
+    } catch (error) {
+      console.error("Error retrieving returned cheques report:", error);
+      res.status(500).json({ error: "Failed to retrieve returned cheques report" });
+    }
+  });
+
+  // Customers using at least ?threshold (default 0.8) of their credit or daily limit, closest first
+  app.get(`${apiRouter}/reports/customer-exposure`, requireAuth, async (req, res) => {
+    try {
+      const threshold = z.coerce.number().min(0).max(10).default(NEAR_LIMIT_RATIO).parse(req.query.threshold);
+      const exposures = await storage.getCustomerExposures();
+      const utilizationOf = (exposure: typeof exposures[number]) =>
+        Math.max(exposure.credit_utilization ?? 0, exposure.daily_utilization ?? 0);
+      res.json(exposures
+        .filter(exposure => isNearLimit(exposure, threshold))
+        .sort((a, b) => utilizationOf(b) - utilizationOf(a)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error retrieving customer exposure report:", error);
+      res.status(500).json({ error: "Failed to retrieve customer exposure report" });
+    }
+  });
+
+  app.get(`${apiRouter}/reports/customer-return-counts`, async (req, res) => {
+    try {
+      const results = await storage.getReportData("customer_return_counts");
+      res.json(results);
+    } catch (error) {
+      console.error("Error retrieving customer return counts report:", error);
+      res.status(500).json({ error: "Failed to retrieve customer return counts report" });
+    }
+  });
+
   // Get all transactions
   app.get(`${apiRouter}/transactions`, async (req, res) => {
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
-      const offset = req.query.offset ? parseInt(req.query.offset as string) : undefined;
-      const customerId = req.query.customerId ? parseInt(req.query.customerId as string) : undefined;
-      const vendorId = req.query.vendorId as string | undefined;
-      const status = req.query.status as string | undefined;
+      const query = transactionSearchSchema.parse(req.query);
+      const result = await storage.searchTransactions(query);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof TransactionSearchError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error getting transactions:", error);
+      res.status(500).json({ message: "Failed to get transactions" });
+    }
+  });
+
+  // Get transaction by ID
+  app.get(`${apiRouter}/transactions/:id`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const transaction = await storage.getTransactionWithDetails(id);
+      
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      res.json(transaction);
+    } catch (error) {
+      console.error("Error getting transaction:", error);
+      res.status(500).json({ message: "Failed to get transaction" });
+    }
+  });
+
+  // Check whether a cheque has already been entered
+  app.post(`${apiRouter}/transactions/duplicates`, async (req, res) => {
+    try {
+      const validatedData = duplicateChequeCheckSchema.parse(req.body);
+      const duplicates = await storage.findDuplicateTransactions(validatedData);
+      res.json(duplicates);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error checking for duplicate cheques:", error);
+      res.status(500).json({ message: "Failed to check for duplicate cheques" });
+    }
+  });
+
+  // Check whether a cheque would take its customer over a credit or daily limit
+  app.post(`${apiRouter}/transactions/credit-check`, async (req, res) => {
+    try {
+      const validatedData = insertTransactionSchema.parse(req.body);
+      const result: CreditLimitCheck = {
+        breaches: await storage.checkCreditLimits(validatedData),
+        can_override: canOverrideLimits(req.user as User | undefined)
+      };
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof FeeRuleError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error checking credit limits:", error);
+      res.status(500).json({ message: "Failed to check credit limits" });
+    }
+  });
+
+  // Read an uploaded sheet and check its rows against the current customers,
+  // vendors and transactions. Without a mapping one is guessed from the headers.
+  const previewTransactionImport = async (req: Request): Promise<TransactionImportPreview> => {
+    if (!req.file) {
+      throw new TransactionImportError("No file uploaded");
+    }
+    
+    const sheet = await readSpreadsheet(req.file.buffer, req.file.originalname);
+    const mapping = req.body.mapping
+      ? transactionImportMappingSchema.parse(JSON.parse(req.body.mapping))
+      : suggestImportMapping(sheet.headers);
+    
+    const [customers, vendors, transactions] = await Promise.all([
+      storage.getCustomers(),
+      storage.getVendors(),
+      storage.getTransactions()
+    ]);
+    const preview = buildImportPreview(sheet, mapping, customers, vendors, transactions);
+    const breaches = await storage.checkImportLimits(preview.rows.flatMap(row => row.transaction ? [row.transaction] : []));
+    return addLimitBreaches(preview, breaches, canOverrideLimits(req.user as User | undefined));
+  };
+
+  // Check a CSV or XLSX sheet of transactions before importing it
+  app.post(`${apiRouter}/transactions/import/preview`, requireAuth, upload.single('file'), async (req, res) => {
+    try {
+      const preview = await previewTransactionImport(req);
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof TransactionImportError || error instanceof SyntaxError || error instanceof FeeRuleError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error previewing transaction import:", error);
+      res.status(500).json({ message: "Failed to check import file" });
+    }
+  });
+
+  // Import the rows of a sheet that passed the checks, all in one go.
+  // Possible duplicates are skipped unless include_duplicates is "true", and
+  // rows over their customer's limits unless an admin sends override_limits.
+  app.post(`${apiRouter}/transactions/import`, requireAuth, upload.single('file'), async (req, res) => {
+    try {
+      const currentUser = req.user as User;
+      const overrideLimits = req.body.override_limits === "true";
+      if (overrideLimits && !canOverrideLimits(currentUser)) {
+        return res.status(403).json({ message: "Only an admin can override customer limits" });
+      }
+      
+      const preview = await previewTransactionImport(req);
+      const includeDuplicates = req.body.include_duplicates === "true";
+      const accepted = preview.rows.filter(row =>
+        row.transaction &&
+        (includeDuplicates || (row.duplicates.length === 0 && row.duplicate_of_row === null)) &&
+        (overrideLimits || row.limit_breaches.length === 0)
+      );
+      
+      const actor = webActor(currentUser.user_id);
+      
+      // New cheques an approval policy holds back wait in the queue; the rest are imported
+      const policies = await storage.getApprovalPolicies();
+      const held = accepted.filter(row => matchApprovalPolicy(policies, 'create', row.transaction!.cheque_amount, currentUser.role));
+      const toImport = accepted.filter(row => !held.includes(row));
+      const imported = toImport.length > 0
+        ? await storage.importTransactions(toImport.map(row => row.transaction!), actor, { override_limits: overrideLimits })
+        : [];
+      
+      // Held rows are only sent for approval once the import has gone through,
+      // so a failed import leaves nothing in the queue
+      const pendingApproval: TransactionImportResult['pending_approval'] = [];
+      for (const row of held) {
+        const approval = await holdForApproval('create', approvalDetails('create', row.transaction!, { ...row.transaction!, override_limits: overrideLimits }), actor);
+        if (approval) {
+          pendingApproval.push({ row_number: row.row_number, approval_id: approval.approval_id });
+        }
+      }
+      res.status(201).json({
+        imported,
+        skipped: preview.rows.filter(row => !accepted.includes(row)),
+        pending_approval: pendingApproval
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof TransactionImportError || error instanceof SyntaxError || error instanceof StatusTransitionError ||
+          error instanceof FeeRuleError || error instanceof AccountingPeriodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof CreditLimitError) {
+        return res.status(409).json({
+          message: error.message,
+          limit_breaches: error.breaches,
+          can_override: canOverrideLimits(req.user as User | undefined)
+        });
+      }
+      console.error("Error importing transactions:", error);
+      res.status(500).json({ message: "Failed to import transactions" });
+    }
+  });
+
+  // Apply one action to many transactions; each that can't be changed is
+  // reported back without stopping the others
+  app.post(`${apiRouter}/transactions/bulk`, requireAuth, async (req, res) => {
+    try {
+      const validatedData = bulkTransactionActionSchema.parse(req.body);
+      const currentUser = req.user as User;
+      const actor = webActor(currentUser.user_id);
+      
+      // Deletions an approval policy holds back wait in the queue; the rest go ahead
+      const pendingApproval: BulkTransactionResult['pending_approval'] = [];
+      if (validatedData.action === 'delete') {
+        for (const id of validatedData.transaction_ids) {
+          const transaction = await storage.getTransaction(id);
+          const approval = transaction && await holdForApproval('delete', approvalDetails('delete', transaction), actor);
+          if (approval) {
+            pendingApproval.push({ transaction_id: id, approval_id: approval.approval_id });
+          }
+        }
+      }
+      
+      const request = {
+        ...validatedData,
+        transaction_ids: validatedData.transaction_ids.filter(id => !pendingApproval.some(pending => pending.transaction_id === id))
+      };
+      const result = request.transaction_ids.length > 0
+        ? await storage.bulkUpdateTransactions(request, actor)
+        : emptyBulkResult(request);
+      res.json({ ...result, pending_approval: pendingApproval });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof Error && error.message === "Vendor not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error applying bulk action:", error);
+      res.status(500).json({ message: "Failed to apply bulk action" });
+    }
+  });
+
+  // Export the selected transactions as CSV
+  app.post(`${apiRouter}/transactions/export`, requireAuth, async (req, res) => {
+    try {
+      const { transaction_ids } = transactionExportSchema.parse(req.body);
+      const transactions = await Promise.all(transaction_ids.map(id => storage.getTransactionWithDetails(id)));
+      
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", 'attachment; filename="transactions.csv"');
+      res.send(transactionsToCsv(transactions.filter(transaction => transaction !== undefined)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error exporting transactions:", error);
+      res.status(500).json({ message: "Failed to export transactions" });
+    }
+  });
+
+  // Send an action for approval if a policy holds it back, letting the admins
+  // on Telegram know. Returns the request, or undefined to go ahead with it.
+  async function holdForApproval(action: ApprovalAction, details: ApprovalDetails, actor: AuditActor) {
+    const approval = await storage.submitForApproval(action, details, actor);
+    if (approval) {
+      notifyApprovers(approval).catch(error => console.error("Error notifying approvers:", error));
+    }
+    return approval;
+  }
+
+  // Let approvers know about the payouts held back when a deposit was allocated
+  function notifyHeldPayouts(deposit: CustomerDepositWithAllocations) {
+    for (const approval of deposit.pending_approval ?? []) {
+      notifyApprovers(approval).catch(error => console.error("Error notifying approvers:", error));
+    }
+  }
+
+  // Create transaction
+  app.post(`${apiRouter}/transactions`, async (req, res) => {
+    try {
+      const validatedData = insertTransactionSchema.parse(req.body);
+      
+      // Possible duplicates must be explicitly overridden
+      if (req.body.override_duplicate !== true) {
+        const duplicates = await storage.findDuplicateTransactions(validatedData);
+        if (duplicates.length > 0) {
+          return res.status(409).json({ message: "This cheque may already have been entered", duplicates });
+        }
+      }
+      
+      const currentUser = req.user as User;
+      const overrideLimits = req.body.override_limits === true;
+      if (overrideLimits && !canOverrideLimits(currentUser)) {
+        return res.status(403).json({ message: "Only an admin can override customer limits" });
+      }
+      
+      const actor = webActor(currentUser?.user_id);
+      
+      // A cheque held for approval is checked against the limits now, while
+      // the requester can still change it or override them
+      if (!overrideLimits) {
+        const breaches = await storage.checkCreditLimits(validatedData);
+        if (breaches.length > 0) {
+          throw new CreditLimitError(breaches);
+        }
+      }
+      const approval = await holdForApproval('create', approvalDetails('create', validatedData, { ...validatedData, override_limits: overrideLimits }), actor);
+      if (approval) {
+        return res.status(202).json({ message: "Sent for approval", approval });
+      }
+      
+      const transaction = await storage.createTransaction(validatedData, actor, { override_limits: overrideLimits });
+      res.status(201).json(transaction);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof StatusTransitionError || error instanceof FeeRuleError || error instanceof AccountingPeriodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof CreditLimitError) {
+        return res.status(409).json({
+          message: error.message,
+          limit_breaches: error.breaches,
+          can_override: canOverrideLimits(req.user as User | undefined)
+        });
+      }
+      if (error instanceof Error && (error.message === "Customer not found" || error.message === "Vendor not found")) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error creating transaction:", error);
+      res.status(500).json({ message: "Failed to create transaction" });
+    }
+  });
+
+  // Update transaction
+  app.patch(`${apiRouter}/transactions/:id`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertTransactionSchema.partial().parse(req.body);
+      const currentUser = req.user as User;
+      const actor = webActor(currentUser?.user_id);
+      
+      // Setting a fee override may need a second person's approval; the whole
+      // edit waits with it
+      const existing = await storage.getTransaction(id);
+      if (existing && isFeeOverride(existing, validatedData)) {
+        const approval = await holdForApproval(
+          'fee_override',
+          approvalDetails('fee_override', { ...existing, ...validatedData, transaction_id: id }, validatedData),
+          actor
+        );
+        if (approval) {
+          return res.status(202).json({ message: "Sent for approval", approval });
+        }
+      }
+      
+      const transaction = await storage.updateTransaction(id, validatedData, actor);
+      
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      res.json(transaction);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof StatusTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof FeeRuleError || error instanceof VendorBatchError || error instanceof AccountingPeriodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Error && (error.message === "Customer not found" || error.message === "Vendor not found")) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error updating transaction:", error);
+      res.status(500).json({ message: "Failed to update transaction" });
+    }
+  });
+
+  // Delete transaction
+  app.delete(`${apiRouter}/transactions/:id`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const currentUser = req.user as User;
+      const actor = webActor(currentUser?.user_id);
+      
+      const existing = await storage.getTransaction(id);
+      const approval = existing && await holdForApproval('delete', approvalDetails('delete', existing), actor);
+      if (approval) {
+        return res.status(202).json({ message: "Sent for approval", approval });
+      }
+      
+      const success = await storage.deleteTransaction(id, actor);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof AccountingPeriodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error deleting transaction:", error);
+      res.status(500).json({ message: "Failed to delete transaction" });
+    }
+  });
+
+  // Get the status history of a transaction
+  app.get(`${apiRouter}/transactions/:id/status-history`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const history = await storage.getTransactionStatusHistory(id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error getting transaction status history:", error);
+      res.status(500).json({ message: "Failed to get transaction status history" });
+    }
+  });
+
+  // Get the return details of a returned cheque
+  app.get(`${apiRouter}/transactions/:id/return`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const chequeReturn = await storage.getChequeReturn(id);
+      
+      if (!chequeReturn) {
+        return res.status(404).json({ message: "Cheque has not been returned" });
+      }
+      
+      res.json(chequeReturn);
+    } catch (error) {
+      console.error("Error getting cheque return:", error);
+      res.status(500).json({ message: "Failed to get cheque return" });
+    }
+  });
+
+  // Mark a cheque as returned by the bank
+  app.post(`${apiRouter}/transactions/:id/return`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertChequeReturnSchema.parse(req.body);
+      const currentUser = req.user as User;
+      const chequeReturn = await storage.returnCheque(id, validatedData, currentUser?.user_id);
+      res.status(201).json(chequeReturn);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof Error && error.message === "Transaction not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === "Cheque has already been returned") {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof StatusTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof AccountingPeriodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error returning cheque:", error);
+      res.status(500).json({ message: "Failed to return cheque" });
+    }
+  });
+
+  // Get the payment history of a transaction
+  app.get(`${apiRouter}/transactions/:id/payments`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const payments = await storage.getTransactionPayments(id);
+      res.json(payments);
+    } catch (error) {
+      console.error("Error getting transaction payments:", error);
+      res.status(500).json({ message: "Failed to get transaction payments" });
+    }
+  });
+
+  // Record a payout, vendor receipt or profit withdrawal against a transaction
+  app.post(`${apiRouter}/transactions/:id/payments`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertTransactionPaymentSchema.parse(req.body);
+      const currentUser = req.user as User;
+      
+      // Large payouts may need a second person's approval
+      if (validatedData.type === 'payout') {
+        const transaction = await storage.getTransaction(id);
+        const approval = transaction && await holdForApproval(
+          'payout',
+          approvalDetails('payout', transaction, validatedData, validatedData.amount),
+          webActor(currentUser.user_id)
+        );
+        if (approval) {
+          return res.status(202).json({ message: "Sent for approval", approval });
+        }
+      }
+      
+      const payment = await storage.createTransactionPayment(id, validatedData, currentUser?.user_id);
+      res.status(201).json(payment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof Error && error.message === "Transaction not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof AccountingPeriodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error recording transaction payment:", error);
+      res.status(500).json({ message: "Failed to record transaction payment" });
+    }
+  });
+
+  // Attachment of the transaction in the URL, if it is one of its attachments.
+  // Trashed transactions' attachments are hidden along with the transaction.
+  async function transactionAttachment(req: Request): Promise<TransactionAttachment | undefined> {
+    const transaction = await storage.getTransaction(parseInt(req.params.id));
+    if (!transaction) return undefined;
+    const attachment = await storage.getAttachment(parseInt(req.params.attachmentId));
+    return attachment?.transaction_id === transaction.transaction_id ? attachment : undefined;
+  }
+
+  // Get the cheque images and scans of a transaction
+  app.get(`${apiRouter}/transactions/:id/attachments`, requireAuth, async (req, res) => {
+    try {
+      const transaction = await storage.getTransaction(parseInt(req.params.id));
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      const attachments = await storage.getTransactionAttachments(transaction.transaction_id);
+      res.json(attachments);
+    } catch (error) {
+      console.error("Error getting transaction attachments:", error);
+      res.status(500).json({ message: "Failed to get attachments" });
+    }
+  });
+
+  // Attach a cheque image or scan to a transaction
+  app.post(`${apiRouter}/transactions/:id/attachments`, requireAuth, upload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      const transaction = await storage.getTransaction(parseInt(req.params.id));
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      const kind = attachmentKindSchema.optional().parse(req.body.kind || undefined);
+      const currentUser = req.user as User;
+      const attachment = await saveAttachment(
+        { buffer: req.file.buffer, file_name: req.file.originalname, content_type: req.file.mimetype },
+        { kind, transaction_id: transaction.transaction_id, user_id: currentUser.user_id }
+      );
+      res.status(201).json(attachment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof AttachmentError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error attaching file:", error);
+      res.status(500).json({ message: "Failed to attach file" });
+    }
+  });
+
+  // Get an attachment's file; ?thumbnail=true for the preview, ?download=true to save it
+  app.get(`${apiRouter}/transactions/:id/attachments/:attachmentId/content`, requireAuth, async (req, res) => {
+    try {
+      const attachment = await transactionAttachment(req);
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      
+      const { data, content_type } = await readAttachment(attachment, req.query.thumbnail === 'true');
+      if (req.query.download === 'true') {
+        res.attachment(attachment.file_name);
+      }
+      res.setHeader("Content-Type", content_type);
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      res.send(data);
+    } catch (error) {
+      console.error("Error reading attachment:", error);
+      res.status(500).json({ message: "Failed to read attachment" });
+    }
+  });
+
+  // Remove an attachment from a transaction
+  app.delete(`${apiRouter}/transactions/:id/attachments/:attachmentId`, requireAuth, async (req, res) => {
+    try {
+      const attachment = await transactionAttachment(req);
+      if (!attachment || !(await storage.deleteAttachment(attachment.attachment_id))) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      
+      await removeAttachmentFiles(attachment).catch(error => console.error("Error removing attachment files:", error));
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting attachment:", error);
+      res.status(500).json({ message: "Failed to delete attachment" });
+    }
+  });
+
+  // Get the comments left on a transaction, oldest first
+  app.get(`${apiRouter}/transactions/:id/comments`, requireAuth, async (req, res) => {
+    try {
+      const transaction = await storage.getTransaction(parseInt(req.params.id));
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      const comments = await storage.getTransactionComments(transaction.transaction_id);
+      res.json(comments);
+    } catch (error) {
+      console.error("Error getting transaction comments:", error);
+      res.status(500).json({ message: "Failed to get comments" });
+    }
+  });
+
+  // Leave a comment on a transaction
+  app.post(`${apiRouter}/transactions/:id/comments`, requireAuth, async (req, res) => {
+    try {
+      const comment = insertTransactionCommentSchema.parse(req.body);
+      const currentUser = req.user as User;
+      const newComment = await storage.createTransactionComment(parseInt(req.params.id), comment, webActor(currentUser.user_id));
+      res.status(201).json(newComment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof Error && error.message === "Transaction not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error creating transaction comment:", error);
+      res.status(500).json({ message: "Failed to add comment" });
+    }
+  });
+
+  // Delete a comment; only its author or an admin can
+  app.delete(`${apiRouter}/transactions/:id/comments/:commentId`, requireAuth, async (req, res) => {
+    try {
+      const transaction = await storage.getTransaction(parseInt(req.params.id));
+      const comment = await storage.getTransactionComment(parseInt(req.params.commentId));
+      if (!transaction || comment?.transaction_id !== transaction.transaction_id) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      
+      const currentUser = req.user as User;
+      if (comment.user_id !== currentUser.user_id && currentUser.role !== 'superuser' && currentUser.role !== 'admin') {
+        return res.status(403).json({ message: "Only the author or an admin can delete this comment" });
+      }
+      
+      await storage.deleteTransactionComment(comment.comment_id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting transaction comment:", error);
+      res.status(500).json({ message: "Failed to delete comment" });
+    }
+  });
+
+  // Get the tags on a transaction
+  app.get(`${apiRouter}/transactions/:id/tags`, requireAuth, async (req, res) => {
+    try {
+      const transaction = await storage.getTransaction(parseInt(req.params.id));
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      const transactionTags = await storage.getTransactionTags(transaction.transaction_id);
+      res.json(transactionTags);
+    } catch (error) {
+      console.error("Error getting transaction tags:", error);
+      res.status(500).json({ message: "Failed to get tags" });
+    }
+  });
+
+  // Replace the tags on a transaction
+  app.put(`${apiRouter}/transactions/:id/tags`, requireAuth, async (req, res) => {
+    try {
+      const { tag_ids } = transactionTagsSchema.parse(req.body);
+      const transactionTags = await storage.setTransactionTags(parseInt(req.params.id), tag_ids);
+      res.json(transactionTags);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof Error && error.message === "Transaction not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === "Tag not found") {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error setting transaction tags:", error);
+      res.status(500).json({ message: "Failed to set tags" });
+    }
+  });
+
+  // Get all tags
+  app.get(`${apiRouter}/tags`, requireAuth, async (req, res) => {
+    try {
+      const allTags = await storage.getTags();
+      res.json(allTags);
+    } catch (error) {
+      console.error("Error getting tags:", error);
+      res.status(500).json({ message: "Failed to get tags" });
+    }
+  });
+
+  // Create a tag
+  app.post(`${apiRouter}/tags`, requireAuth, async (req, res) => {
+    try {
+      const tag = insertTagSchema.parse(req.body);
+      const newTag = await storage.createTag(tag);
+      res.status(201).json(newTag);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof Error && error.message === "A tag with this name already exists") {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error creating tag:", error);
+      res.status(500).json({ message: "Failed to create tag" });
+    }
+  });
+
+  // Rename or recolour a tag
+  app.patch(`${apiRouter}/tags/:id`, requireRole(['superuser', 'admin']), async (req, res) => {
+    try {
+      const tag = updateTagSchema.parse(req.body);
+      const updatedTag = await storage.updateTag(parseInt(req.params.id), tag);
+      if (!updatedTag) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      res.json(updatedTag);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof Error && error.message === "A tag with this name already exists") {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error updating tag:", error);
+      res.status(500).json({ message: "Failed to update tag" });
+    }
+  });
+
+  // Delete a tag, removing it from every transaction
+  app.delete(`${apiRouter}/tags/:id`, requireRole(['superuser', 'admin']), async (req, res) => {
+    try {
+      const success = await storage.deleteTag(parseInt(req.params.id));
+      if (!success) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting tag:", error);
+      res.status(500).json({ message: "Failed to delete tag" });
+    }
+  });
+
+  // Delete a manually recorded transaction payment
+  app.delete(`${apiRouter}/transaction-payments/:id`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteTransactionPayment(id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Transaction payment not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof Error && error.message === "Payment is managed by an allocation") {
+        return res.status(400).json({ message: "This payment came from a deposit or vendor payment; reverse that allocation instead" });
+      }
+      if (error instanceof AccountingPeriodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error deleting transaction payment:", error);
+      res.status(500).json({ message: "Failed to delete transaction payment" });
+    }
+  });
+
+  // Get all customers
+  app.get(`${apiRouter}/customers`, async (req, res) => {
+    try {
+      const customers = await storage.getCustomers();
+      res.json(customers);
+    } catch (error) {
+      console.error("Error getting customers:", error);
+      res.status(500).json({ message: "Failed to get customers" });
+    }
+  });
+
+  // How much of each customer's credit and daily limits is in use
+  app.get(`${apiRouter}/customers/exposure`, requireAuth, async (req, res) => {
+    try {
+      const exposures = await storage.getCustomerExposures();
+      res.json(exposures);
+    } catch (error) {
+      console.error("Error getting customer exposure:", error);
+      res.status(500).json({ message: "Failed to get customer exposure" });
+    }
+  });
+
+  // Get customer by ID
+  app.get(`${apiRouter}/customers/:id`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const customer = await storage.getCustomer(id);
+      
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      
+      res.json(customer);
+    } catch (error) {
+      console.error("Error getting customer:", error);
+      res.status(500).json({ message: "Failed to get customer" });
+    }
+  });
+
+  // Create customer
+  app.post(`${apiRouter}/customers`, async (req, res) => {
+    try {
+      const validatedData = insertCustomerSchema.parse(req.body);
+      const currentUser = req.user as User;
+      if ((validatedData.credit_limit != null || validatedData.daily_limit != null) && !canOverrideLimits(currentUser)) {
+        return res.status(403).json({ message: "Only an admin can set customer limits" });
+      }
+      const customer = await storage.createCustomer(validatedData, webActor(currentUser?.user_id));
+      res.status(201).json(customer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating customer:", error);
+      res.status(500).json({ message: "Failed to create customer" });
+    }
+  });
+
+  // Update customer
+  app.patch(`${apiRouter}/customers/:id`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertCustomerSchema.partial().parse(req.body);
+      const currentUser = req.user as User;
+      if ((validatedData.credit_limit !== undefined || validatedData.daily_limit !== undefined) && !canOverrideLimits(currentUser)) {
+        // Sending back the limits a customer already has isn't a change
+        const existing = await storage.getCustomer(id);
+        const changesLimit = (limit: string | null | undefined, current: string | null) =>
+          limit !== undefined && (limit === null || current === null ? limit !== current : parseFloat(limit) !== parseFloat(current));
+        const changesLimits = !!existing && (
+          changesLimit(validatedData.credit_limit, existing.credit_limit) ||
+          changesLimit(validatedData.daily_limit, existing.daily_limit)
+        );
+        if (changesLimits) {
+          return res.status(403).json({ message: "Only an admin can change customer limits" });
+        }
+      }
+      const customer = await storage.updateCustomer(id, validatedData, webActor(currentUser?.user_id));
+      
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      
+      res.json(customer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating customer:", error);
+      res.status(500).json({ message: "Failed to update customer" });
+    }
+  });
+
+  // Delete customer
+  app.delete(`${apiRouter}/customers/:id`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const currentUser = req.user as User;
+      const success = await storage.deleteCustomer(id, webActor(currentUser?.user_id));
+      
+      if (!success) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting customer:", error);
+      res.status(500).json({ message: "Failed to delete customer" });
+    }
+  });
+  
+  // Get customer deposits (optionally for a single customer)
+  app.get(`${apiRouter}/deposits`, async (req, res) => {
+    try {
+      const customerId = req.query.customerId ? parseInt(req.query.customerId as string) : undefined;
+      const deposits = await storage.getCustomerDeposits(customerId);
+      res.json(deposits);
+    } catch (error) {
+      console.error("Error getting customer deposits:", error);
+      res.status(500).json({ message: "Failed to get customer deposits" });
+    }
+  });
+
+  // Get customer deposit by ID, including its allocations
+  app.get(`${apiRouter}/deposits/:id`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deposit = await storage.getCustomerDeposit(id);
+      
+      if (!deposit) {
+        return res.status(404).json({ message: "Customer deposit not found" });
+      }
+      
+      res.json(deposit);
+    } catch (error) {
+      console.error("Error getting customer deposit:", error);
+      res.status(500).json({ message: "Failed to get customer deposit" });
+    }
+  });
+
+  // Create customer deposit and allocate it (oldest first by default, or manually)
+  app.post(`${apiRouter}/deposits`, requireAuth, async (req, res) => {
+    try {
+      const { mode, allocations, ...depositData } = req.body;
+      const validatedData = insertCustomerDepositSchema.parse(depositData);
+      const allocation = allocateDepositSchema.parse({ mode, allocations });
+      const currentUser = req.user as User;
+      const deposit = await storage.createCustomerDeposit(validatedData, allocation, webActor(currentUser?.user_id));
+      notifyHeldPayouts(deposit);
+      res.status(201).json(deposit);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof AllocationError || error instanceof AccountingPeriodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating customer deposit:", error);
+      res.status(500).json({ message: "Failed to create customer deposit" });
+    }
+  });
+
+  // Allocate the unallocated remainder of a deposit
+  app.post(`${apiRouter}/deposits/:id/allocations`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const allocation = allocateDepositSchema.parse(req.body);
+      const currentUser = req.user as User;
+      const deposit = await storage.allocateCustomerDeposit(id, allocation, webActor(currentUser?.user_id));
+      
+      if (!deposit) {
+        return res.status(404).json({ message: "Customer deposit not found" });
+      }
+      
+      notifyHeldPayouts(deposit);
+      res.json(deposit);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof AllocationError || error instanceof AccountingPeriodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error allocating customer deposit:", error);
+      res.status(500).json({ message: "Failed to allocate customer deposit" });
+    }
+  });
+
+  // Reverse a single deposit allocation
+  app.delete(`${apiRouter}/deposits/allocations/:allocationId`, requireAuth, async (req, res) => {
+    try {
+      const allocationId = parseInt(req.params.allocationId);
+      const currentUser = req.user as User;
+      const success = await storage.reverseDepositAllocation(allocationId, webActor(currentUser?.user_id));
+      
+      if (!success) {
+        return res.status(404).json({ message: "Deposit allocation not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof AccountingPeriodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error reversing deposit allocation:", error);
+      res.status(500).json({ message: "Failed to reverse deposit allocation" });
+    }
+  });
+
+  // Delete customer deposit and reverse its allocations
+  app.delete(`${apiRouter}/deposits/:id`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const currentUser = req.user as User;
+      const success = await storage.deleteCustomerDeposit(id, webActor(currentUser?.user_id));
+      
+      if (!success) {
+        return res.status(404).json({ message: "Customer deposit not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof AccountingPeriodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error deleting customer deposit:", error);
+      res.status(500).json({ message: "Failed to delete customer deposit" });
+    }
+  });
+
+  // Get all vendors
+  app.get(`${apiRouter}/vendors`, async (req, res) => {
+    try {
+      const vendors = await storage.getVendors();
+      res.json(vendors);
+    } catch (error) {
+      console.error("Error getting vendors:", error);
+      res.status(500).json({ message: "Failed to get vendors" });
+    }
+  });
+
+  // Rank the vendors for a cheque by their routing rules and the profit it would make
+  app.post(`${apiRouter}/vendors/recommendations`, async (req, res) => {
+    try {
+      const request = vendorRecommendationRequestSchema.parse(req.body);
+      const recommendations = await storage.recommendVendors(request);
+      res.json(recommendations);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof FeeRuleError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error recommending vendors:", error);
+      res.status(500).json({ message: "Failed to recommend vendors" });
+    }
+  });
+
+  // Get vendor by ID
+  app.get(`${apiRouter}/vendors/:id`, async (req, res) => {
+    try {
+      const id = req.params.id;
+      const vendor = await storage.getVendor(id);
+      
+      if (!vendor) {
+        return res.status(404).json({ message: "Vendor not found" });
+      }
+      
+      res.json(vendor);
+    } catch (error) {
+      console.error("Error getting vendor:", error);
+      res.status(500).json({ message: "Failed to get vendor" });
+    }
+  });
+
+  // Create vendor
+  app.post(`${apiRouter}/vendors`, async (req, res) => {
+    try {
+      const validatedData = insertVendorSchema.superRefine(checkChequeAmountRange).parse(req.body);
+      const currentUser = req.user as User;
+      const vendor = await storage.createVendor(validatedData, webActor(currentUser?.user_id));
+      res.status(201).json(vendor);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating vendor:", error);
+      res.status(500).json({ message: "Failed to create vendor" });
+    }
+  });
+
+  // Update vendor
+  app.patch(`${apiRouter}/vendors/:id`, async (req, res) => {
+    try {
+      const id = req.params.id;
+      const validatedData = insertVendorSchema.partial().superRefine(checkChequeAmountRange).parse(req.body);
+      const currentUser = req.user as User;
+      const vendor = await storage.updateVendor(id, validatedData, webActor(currentUser?.user_id));
+      
+      if (!vendor) {
+        return res.status(404).json({ message: "Vendor not found" });
+      }
+      
+      res.json(vendor);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating vendor:", error);
+      res.status(500).json({ message: "Failed to update vendor" });
+    }
+  });
+
+  // Delete vendor
+  app.delete(`${apiRouter}/vendors/:id`, async (req, res) => {
+    try {
+      const id = req.params.id;
+      const currentUser = req.user as User;
+      const success = await storage.deleteVendor(id, webActor(currentUser?.user_id));
+      
+      if (!success) {
+        return res.status(404).json({ message: "Vendor not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting vendor:", error);
+      res.status(500).json({ message: "Failed to delete vendor" });
+    }
+  });
+
+  // Get the fee schedule timeline of a customer
+  app.get(`${apiRouter}/customers/:id/fee-schedules`, async (req, res) => {
+    try {
+      const schedules = await storage.getFeeSchedules("customer", parseInt(req.params.id));
+      res.json(schedules);
+    } catch (error) {
+      console.error("Error getting customer fee schedules:", error);
+      res.status(500).json({ message: "Failed to get fee schedules" });
+    }
+  });
+
+  // Schedule a customer rate change
+  app.post(`${apiRouter}/customers/:id/fee-schedules`, requireAuth, async (req, res) => {
+    try {
+      const validatedData = insertFeeScheduleSchema.parse(req.body);
+      const currentUser = req.user as User;
+      const schedule = await storage.createFeeSchedule("customer", parseInt(req.params.id), validatedData, currentUser?.user_id);
+      res.status(201).json(schedule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof FeeScheduleError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === "Customer not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error creating customer fee schedule:", error);
+      res.status(500).json({ message: "Failed to create fee schedule" });
+    }
+  });
+
+  // The date range of a statement from ?start_date and ?end_date, this month so far by default
+  const statementPeriod = (req: Request) => {
+    const today = toDateString();
+    return statementPeriodSchema.parse({
+      start_date: req.query.start_date || `${today.slice(0, 8)}01`,
+      end_date: req.query.end_date || today
+    });
+  };
+
+  // Get a customer's account statement for a date range
+  app.get(`${apiRouter}/customers/:id/statement`, requireAuth, async (req, res) => {
+    try {
+      const statement = await storage.getCustomerStatement(parseInt(req.params.id), statementPeriod(req));
+      if (!statement) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      res.json(statement);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error getting customer statement:", error);
+      res.status(500).json({ message: "Failed to get customer statement" });
+    }
+  });
+
+  // Get a customer's account statement as a PDF; ?download=true to save it
+  app.get(`${apiRouter}/customers/:id/statement/pdf`, requireAuth, async (req, res) => {
+    try {
+      const statement = await storage.getCustomerStatement(parseInt(req.params.id), statementPeriod(req));
+      if (!statement) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      
+      const pdf = await renderCustomerStatementPdf(statement);
+      const fileName = customerStatementFileName(statement);
+      if (req.query.download === 'true') {
+        res.attachment(fileName);
+      } else {
+        res.setHeader("Content-Disposition", `inline; filename="${fileName}"`);
+      }
+      res.setHeader("Content-Type", "application/pdf");
+      res.send(Buffer.from(pdf));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error generating customer statement:", error);
+      res.status(500).json({ message: "Failed to generate customer statement" });
+    }
+  });
+
+  // Days a vendor's cheque can go unpaid before it is overdue, from ?overdue_days
+  const overdueDays = (req: Request) =>
+    z.coerce.number().int().min(0).max(365).default(VENDOR_OVERDUE_DAYS).parse(req.query.overdue_days || undefined);
+
+  // Get a vendor's settlement for a date range
+  app.get(`${apiRouter}/vendors/:id/settlement`, requireAuth, async (req, res) => {
+    try {
+      const settlement = await storage.getVendorSettlement(req.params.id, statementPeriod(req), overdueDays(req));
+      if (!settlement) {
+        return res.status(404).json({ message: "Vendor not found" });
+      }
+      res.json(settlement);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error getting vendor settlement:", error);
+      res.status(500).json({ message: "Failed to get vendor settlement" });
+    }
+  });
+
+  // Get a vendor's settlement as a PDF remittance report or a CSV; ?download=true to save the PDF
+  app.get(`${apiRouter}/vendors/:id/settlement/:format(pdf|csv)`, requireAuth, async (req, res) => {
+    try {
+      const settlement = await storage.getVendorSettlement(req.params.id, statementPeriod(req), overdueDays(req));
+      if (!settlement) {
+        return res.status(404).json({ message: "Vendor not found" });
+      }
+      
+      if (req.params.format === 'csv') {
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="${vendorSettlementFileName(settlement, 'csv')}"`);
+        return res.send(vendorSettlementToCsv(settlement));
+      }
+      
+      const pdf = await renderVendorSettlementPdf(settlement);
+      const fileName = vendorSettlementFileName(settlement, 'pdf');
+      if (req.query.download === 'true') {
+        res.attachment(fileName);
+      } else {
+        res.setHeader("Content-Disposition", `inline; filename="${fileName}"`);
+      }
+      res.setHeader("Content-Type", "application/pdf");
+      res.send(Buffer.from(pdf));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error generating vendor settlement:", error);
+      res.status(500).json({ message: "Failed to generate vendor settlement" });
+    }
+  });
+
+  // Every vendor's settlement figures for a date range, most overdue first
+  app.get(`${apiRouter}/reports/vendor-settlements`, requireAuth, async (req, res) => {
+    try {
+      const period = statementPeriod(req);
+      const days = overdueDays(req);
+      const vendors = await storage.getVendors();
+      const settlements = await Promise.all(vendors.map(vendor => storage.getVendorSettlement(vendor.vendor_id, period, days)));
+      res.json(settlements
+        .filter(settlement => settlement !== undefined)
+        .map(summarizeVendorSettlement)
+        .sort((a, b) =>
+          parseFloat(b.totals.overdue_amount) - parseFloat(a.totals.overdue_amount) ||
+          parseFloat(b.closing_balance) - parseFloat(a.closing_balance)
+        ));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error retrieving vendor settlements report:", error);
+      res.status(500).json({ error: "Failed to retrieve vendor settlements report" });
+    }
+  });
+
+  // Get the fee schedule timeline of a vendor
+  app.get(`${apiRouter}/vendors/:id/fee-schedules`, async (req, res) => {
+    try {
+      const schedules = await storage.getFeeSchedules("vendor", req.params.id);
+      res.json(schedules);
+    } catch (error) {
+      console.error("Error getting vendor fee schedules:", error);
+      res.status(500).json({ message: "Failed to get fee schedules" });
+    }
+  });
+
+  // Schedule a vendor rate change
+  app.post(`${apiRouter}/vendors/:id/fee-schedules`, requireAuth, async (req, res) => {
+    try {
+      const validatedData = insertFeeScheduleSchema.parse(req.body);
+      const currentUser = req.user as User;
+      const schedule = await storage.createFeeSchedule("vendor", req.params.id, validatedData, currentUser?.user_id);
+      res.status(201).json(schedule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof FeeScheduleError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === "Vendor not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error creating vendor fee schedule:", error);
+      res.status(500).json({ message: "Failed to create fee schedule" });
+    }
+  });
+
+  // Remove an upcoming rate change
+  app.delete(`${apiRouter}/fee-schedules/:id`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteFeeSchedule(id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Fee schedule not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof FeeScheduleError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error deleting fee schedule:", error);
+      res.status(500).json({ message: "Failed to delete fee schedule" });
+    }
+  });
+
+  // Get the customer and vendor rates in force on a date
+  app.get(`${apiRouter}/fee-rates`, async (req, res) => {
+    try {
+      const customerId = parseInt(req.query.customerId as string);
+      const vendorId = req.query.vendorId as string;
+      
+      if (isNaN(customerId) || !vendorId) {
+        return res.status(400).json({ message: "customerId and vendorId are required" });
+      }
+      
+      const rates = await storage.getFeeRates(customerId, vendorId, req.query.date as string | undefined);
+      res.json(rates);
+    } catch (error) {
+      console.error("Error getting fee rates:", error);
+      res.status(500).json({ message: "Failed to get fee rates" });
+    }
+  });
+
+  // Preview recalculating a customer's or vendor's transaction fees with the current rules
+  app.post(`${apiRouter}/fee-recalculations/preview`, requireRole(['superuser', 'admin']), async (req, res) => {
+    try {
+      const validatedData = feeRecalculationRequestSchema.parse(req.body);
+      const preview = await storage.previewFeeRecalculation(validatedData);
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof Error && (error.message === "Customer not found" || error.message === "Vendor not found")) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof FeeRuleError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error previewing fee recalculation:", error);
+      res.status(500).json({ message: "Failed to preview fee recalculation" });
+    }
+  });
+
+  // Apply a fee recalculation and record it
+  app.post(`${apiRouter}/fee-recalculations`, requireRole(['superuser', 'admin']), async (req, res) => {
+    try {
+      const validatedData = feeRecalculationRequestSchema.parse(req.body);
+      const currentUser = req.user as User;
+      const recalculation = await storage.applyFeeRecalculation(validatedData, currentUser.user_id);
+      res.status(201).json(recalculation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof Error && (error.message === "Customer not found" || error.message === "Vendor not found")) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof FeeRuleError || error instanceof AccountingPeriodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error applying fee recalculation:", error);
+      res.status(500).json({ message: "Failed to apply fee recalculation" });
+    }
+  });
+
+  // Get past fee recalculations
+  app.get(`${apiRouter}/fee-recalculations`, requireRole(['superuser', 'admin']), async (req, res) => {
+    try {
+      const recalculations = await storage.getFeeRecalculations();
+      res.json(recalculations);
+    } catch (error) {
+      console.error("Error getting fee recalculations:", error);
+      res.status(500).json({ message: "Failed to get fee recalculations" });
+    }
+  });
+
+  // Get the accounting periods that have been closed, newest first
+  app.get(`${apiRouter}/accounting-periods`, requireAuth, async (req, res) => {
+    try {
+      const periods = await storage.getAccountingPeriods();
+      res.json(periods);
+    } catch (error) {
+      console.error("Error getting accounting periods:", error);
+      res.status(500).json({ message: "Failed to get accounting periods" });
+    }
+  });
+
+  // Close a month so nothing dated in it can be changed
+  app.post(`${apiRouter}/accounting-periods/:period/close`, requireRole(['superuser', 'admin']), async (req, res) => {
+    try {
+      const period = accountingPeriodKeySchema.parse(req.params.period);
+      const currentUser = req.user as User;
+      const closed = await storage.closeAccountingPeriod(period, webActor(currentUser.user_id));
+      res.json(closed);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof AccountingPeriodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error closing accounting period:", error);
+      res.status(500).json({ message: "Failed to close accounting period" });
+    }
+  });
+
+  // Reopen a closed month
+  app.post(`${apiRouter}/accounting-periods/:period/reopen`, requireRole(['superuser']), async (req, res) => {
+    try {
+      const period = accountingPeriodKeySchema.parse(req.params.period);
+      const currentUser = req.user as User;
+      const reopened = await storage.reopenAccountingPeriod(period, webActor(currentUser.user_id));
+      res.json(reopened);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof AccountingPeriodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error reopening accounting period:", error);
+      res.status(500).json({ message: "Failed to reopen accounting period" });
+    }
+  });
+
+  // Get the approval policies
+  app.get(`${apiRouter}/approval-policies`, requireAuth, async (req, res) => {
+    try {
+      const policies = await storage.getApprovalPolicies();
+      res.json(policies);
+    } catch (error) {
+      console.error("Error getting approval policies:", error);
+      res.status(500).json({ message: "Failed to get approval policies" });
+    }
+  });
+
+  // Create an approval policy
+  app.post(`${apiRouter}/approval-policies`, requireRole(['superuser', 'admin']), async (req, res) => {
+    try {
+      const validatedData = insertApprovalPolicySchema.parse(req.body);
+      const policy = await storage.createApprovalPolicy(validatedData);
+      res.status(201).json(policy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating approval policy:", error);
+      res.status(500).json({ message: "Failed to create approval policy" });
+    }
+  });
+
+  // Update an approval policy
+  app.patch(`${apiRouter}/approval-policies/:id`, requireRole(['superuser', 'admin']), async (req, res) => {
+    try {
+      const validatedData = updateApprovalPolicySchema.parse(req.body);
+      const policy = await storage.updateApprovalPolicy(parseInt(req.params.id), validatedData);
+      if (!policy) {
+        return res.status(404).json({ message: "Approval policy not found" });
+      }
+      res.json(policy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating approval policy:", error);
+      res.status(500).json({ message: "Failed to update approval policy" });
+    }
+  });
+
+  // Delete an approval policy; requests made under it keep their history
+  app.delete(`${apiRouter}/approval-policies/:id`, requireRole(['superuser', 'admin']), async (req, res) => {
+    try {
+      const success = await storage.deleteApprovalPolicy(parseInt(req.params.id));
+      if (!success) {
+        return res.status(404).json({ message: "Approval policy not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting approval policy:", error);
+      res.status(500).json({ message: "Failed to delete approval policy" });
+    }
+  });
+
+  // Get approval requests. Admins see everyone's; others see their own.
+  app.get(`${apiRouter}/approvals`, requireAuth, async (req, res) => {
+    try {
+      const status = z.enum(approvalStatusEnum.enumValues).optional().parse(req.query.status || undefined);
+      const currentUser = req.user as User;
+      const requests = await storage.getApprovalRequests({
+        status,
+        requestedBy: canApprove(currentUser) ? undefined : currentUser.user_id
+      });
+      res.json(requests);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error getting approval requests:", error);
+      res.status(500).json({ message: "Failed to get approval requests" });
+    }
+  });
+
+  // Approve a request, applying the change it holds
+  app.post(`${apiRouter}/approvals/:id/approve`, requireRole(['superuser', 'admin']), async (req, res) => {
+    try {
+      const currentUser = req.user as User;
+      const request = await storage.approveApprovalRequest(parseInt(req.params.id), webActor(currentUser.user_id));
+      notifyRequester(request).catch(error => console.error("Error notifying requester:", error));
+      res.json(request);
+    } catch (error) {
+      if (error instanceof Error && error.message.endsWith("not found")) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof ApprovalError || error instanceof CreditLimitError || error instanceof StatusTransitionError || error instanceof AllocationError ||
+          error instanceof FeeRuleError || error instanceof VendorBatchError || error instanceof AccountingPeriodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error approving request:", error);
+      res.status(500).json({ message: "Failed to approve request" });
+    }
+  });
+
+  // Reject a request, leaving everything as it was
+  app.post(`${apiRouter}/approvals/:id/reject`, requireRole(['superuser', 'admin']), async (req, res) => {
+    try {
+      const { note } = approvalDecisionSchema.parse(req.body);
+      const currentUser = req.user as User;
+      const request = await storage.rejectApprovalRequest(parseInt(req.params.id), webActor(currentUser.user_id), note);
+      notifyRequester(request).catch(error => console.error("Error notifying requester:", error));
+      res.json(request);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof Error && error.message === "Approval request not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof ApprovalError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error rejecting request:", error);
+      res.status(500).json({ message: "Failed to reject request" });
+    }
+  });
+
+  // Get the audit trail of a transaction, customer, vendor, deposit or accounting period
+  app.get(`${apiRouter}/audit/:entity/:id`, requireAuth, async (req, res) => {
+    try {
+      const entity = z.enum(auditEntityEnum.enumValues).parse(req.params.entity);
+      const entries = await storage.getAuditEntries(entity, req.params.id);
+      res.json(entries);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error getting audit trail:", error);
+      res.status(500).json({ message: "Failed to get audit trail" });
+    }
+  });
+
+  // Put a record back to the version an audit entry recorded
+  app.post(`${apiRouter}/audit/:auditId/revert`, requireRole(['superuser', 'admin']), async (req, res) => {
+    try {
+      const auditId = parseInt(req.params.auditId);
+      const currentUser = req.user as User;
+      const record = await storage.revertAuditEntry(auditId, webActor(currentUser.user_id));
       
-      try {
-        // Get all transactions with customer and vendor details
-        const transactions = await storage.getTransactions({ limit, offset, customerId, vendorId, status });
-        
-        // Also fetch customer and vendor data and enrich transactions
-        const customers = await storage.getCustomers();
-        const vendors = await storage.getVendors();
-        
-        // Prepare lookup tables for customers and vendors
-        const customerMap = new Map(customers.map(c => [c.customer_id, c]));
-        const vendorMap = new Map(vendors.map(v => [v.vendor_id, v]));
-        
-        // Enrich transactions with detailed customer and vendor data
-        const enrichedTransactions = transactions.map(transaction => {
-          return {
-            ...transaction,
-            customer: customerMap.get(transaction.customer_id) || { customer_name: "Unknown" },
-            vendor: vendorMap.get(transaction.vendor_id) || { vendor_name: "Unknown" }
-          };
-        });
-        
-        res.json(enrichedTransactions);
-      } catch (error) {
-        console.error("Error in transaction processing:", error);
-        res.status(500).json({ message: "Failed to get transactions" });
+      if (!record) {
+        return res.status(404).json({ message: "Audit entry or record not found" });
       }
+      
+      res.json(record);
     } catch (error) {
-      console.error("Error getting transactions:", error);
-      res.status(500).json({ message: "Failed to get transactions" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof AuditError || error instanceof FeeRuleError || error instanceof AccountingPeriodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Error && (error.message === "Customer not found" || error.message === "Vendor not found")) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error reverting audit entry:", error);
+      res.status(500).json({ message: "Failed to revert audit entry" });
     }
   });
 
-  // Get transaction by ID
-  app.get(`${apiRouter}/transactions/:id`, async (req, res) => {
+  // Get the soft-deleted transactions, customers and vendors
+  app.get(`${apiRouter}/trash`, requireAuth, async (req, res) => {
+    try {
+      const trash = await storage.getTrash();
+      res.json(trash);
+    } catch (error) {
+      console.error("Error getting trash:", error);
+      res.status(500).json({ message: "Failed to get trash" });
+    }
+  });
+
+  // Restore a record from the trash
+  app.post(`${apiRouter}/trash/:entity/:id/restore`, requireAuth, async (req, res) => {
+    try {
+      const entity = trashEntitySchema.parse(req.params.entity);
+      const currentUser = req.user as User;
+      const actor = webActor(currentUser.user_id);
+      const record = entity === 'transaction'
+        ? await storage.restoreTransaction(parseInt(req.params.id), actor)
+        : entity === 'customer'
+          ? await storage.restoreCustomer(parseInt(req.params.id), actor)
+          : await storage.restoreVendor(req.params.id, actor);
+      
+      if (!record) {
+        return res.status(404).json({ message: "Record not found in trash" });
+      }
+      
+      res.json(record);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof TrashError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof AccountingPeriodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error restoring from trash:", error);
+      res.status(500).json({ message: "Failed to restore record" });
+    }
+  });
+
+  // Permanently delete a record from the trash
+  app.delete(`${apiRouter}/trash/:entity/:id`, requireRole(['superuser']), async (req, res) => {
+    try {
+      const entity = trashEntitySchema.parse(req.params.entity);
+      const currentUser = req.user as User;
+      const actor = webActor(currentUser.user_id);
+      // Purging a transaction takes its attachments with it
+      const attachments = entity === 'transaction' ? await storage.getTransactionAttachments(parseInt(req.params.id)) : [];
+      const success = entity === 'transaction'
+        ? await storage.purgeTransaction(parseInt(req.params.id), actor)
+        : entity === 'customer'
+          ? await storage.purgeCustomer(parseInt(req.params.id), actor)
+          : await storage.purgeVendor(req.params.id, actor);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Record not found in trash" });
+      }
+      
+      for (const attachment of attachments) {
+        await removeAttachmentFiles(attachment).catch(error => console.error("Error removing attachment files:", error));
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof TrashError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error purging from trash:", error);
+      res.status(500).json({ message: "Failed to permanently delete record" });
+    }
+  });
+
+  // Get vendor payments (optionally for a single vendor)
+  app.get(`${apiRouter}/vendor-payments`, async (req, res) => {
+    try {
+      const vendorId = req.query.vendorId as string | undefined;
+      const payments = await storage.getVendorPayments(vendorId);
+      res.json(payments);
+    } catch (error) {
+      console.error("Error getting vendor payments:", error);
+      res.status(500).json({ message: "Failed to get vendor payments" });
+    }
+  });
+
+  // Get vendor payment by ID, including its allocations
+  app.get(`${apiRouter}/vendor-payments/:id`, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const transaction = await storage.getTransactionWithDetails(id);
+      const payment = await storage.getVendorPayment(id);
       
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
+      if (!payment) {
+        return res.status(404).json({ message: "Vendor payment not found" });
       }
       
-      res.json(transaction);
+      res.json(payment);
     } catch (error) {
-      console.error("Error getting transaction:", error);
-      res.status(500).json({ message: "Failed to get transaction" });
+      console.error("Error getting vendor payment:", error);
+      res.status(500).json({ message: "Failed to get vendor payment" });
     }
   });
 
-  // Create transaction
-  app.post(`${apiRouter}/transactions`, async (req, res) => {
+  // Record a vendor payment and allocate it to the vendor's oldest open transactions
+  app.post(`${apiRouter}/vendor-payments`, requireAuth, async (req, res) => {
     try {
-      const validatedData = insertTransactionSchema.parse(req.body);
-      const transaction = await storage.createTransaction(validatedData);
-      res.status(201).json(transaction);
+      const validatedData = insertVendorPaymentSchema.parse(req.body);
+      const payment = await storage.createVendorPayment(validatedData);
+      res.status(201).json(payment);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      console.error("Error creating transaction:", error);
-      res.status(500).json({ message: "Failed to create transaction" });
+      if (error instanceof Error && error.message === "Vendor not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof AccountingPeriodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating vendor payment:", error);
+      res.status(500).json({ message: "Failed to create vendor payment" });
     }
   });
 
-  // Update transaction
-  app.patch(`${apiRouter}/transactions/:id`, async (req, res) => {
+  // Update vendor payment (re-allocates when amount, vendor or date change)
+  app.patch(`${apiRouter}/vendor-payments/:id`, requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const validatedData = insertTransactionSchema.partial().parse(req.body);
-      const transaction = await storage.updateTransaction(id, validatedData);
+      const validatedData = insertVendorPaymentSchema.partial().parse(req.body);
+      const payment = await storage.updateVendorPayment(id, validatedData);
       
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
+      if (!payment) {
+        return res.status(404).json({ message: "Vendor payment not found" });
       }
       
-      res.json(transaction);
+      res.json(payment);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      console.error("Error updating transaction:", error);
-      res.status(500).json({ message: "Failed to update transaction" });
+      if (error instanceof Error && error.message === "Vendor not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof VendorBatchError || error instanceof AccountingPeriodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error updating vendor payment:", error);
+      res.status(500).json({ message: "Failed to update vendor payment" });
     }
   });
 
-  // Delete transaction
-  app.delete(`${apiRouter}/transactions/:id`, async (req, res) => {
+  // Delete vendor payment and reverse its allocations
+  app.delete(`${apiRouter}/vendor-payments/:id`, requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteTransaction(id);
+      const success = await storage.deleteVendorPayment(id);
       
       if (!success) {
-        return res.status(404).json({ message: "Transaction not found" });
+        return res.status(404).json({ message: "Vendor payment not found" });
       }
       
       res.status(204).send();
     } catch (error) {
-      console.error("Error deleting transaction:", error);
-      res.status(500).json({ message: "Failed to delete transaction" });
+      if (error instanceof AccountingPeriodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error deleting vendor payment:", error);
+      res.status(500).json({ message: "Failed to delete vendor payment" });
     }
   });
 
-  // Get all customers
-  app.get(`${apiRouter}/customers`, async (req, res) => {
+  // Get vendor batches with their totals (optionally for a single vendor)
+  app.get(`${apiRouter}/vendor-batches`, async (req, res) => {
     try {
-      const customers = await storage.getCustomers();
-      res.json(customers);
+      const vendorId = req.query.vendorId as string | undefined;
+      const batches = await storage.getVendorBatches(vendorId);
+      res.json(batches);
     } catch (error) {
-      console.error("Error getting customers:", error);
-      res.status(500).json({ message: "Failed to get customers" });
+      console.error("Error getting vendor batches:", error);
+      res.status(500).json({ message: "Failed to get vendor batches" });
     }
   });
 
-  // Get customer by ID
-  app.get(`${apiRouter}/customers/:id`, async (req, res) => {
+  // Get a vendor batch with its cheques and receipts
+  app.get(`${apiRouter}/vendor-batches/:id`, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const customer = await storage.getCustomer(id);
+      const batch = await storage.getVendorBatch(id);
       
-      if (!customer) {
-        return res.status(404).json({ message: "Customer not found" });
+      if (!batch) {
+        return res.status(404).json({ message: "Vendor batch not found" });
       }
       
-      res.json(customer);
+      res.json(batch);
     } catch (error) {
-      console.error("Error getting customer:", error);
-      res.status(500).json({ message: "Failed to get customer" });
+      console.error("Error getting vendor batch:", error);
+      res.status(500).json({ message: "Failed to get vendor batch" });
     }
   });
 
-  // Create customer
-  app.post(`${apiRouter}/customers`, async (req, res) => {
+  // Printable manifest of a batch's cheques
+  app.get(`${apiRouter}/vendor-batches/:id/manifest`, async (req, res) => {
     try {
-      const validatedData = insertCustomerSchema.parse(req.body);
-      const customer = await storage.createCustomer(validatedData);
-      res.status(201).json(customer);
+      const id = parseInt(req.params.id);
+      const batch = await storage.getVendorBatch(id);
+      
+      if (!batch) {
+        return res.status(404).json({ message: "Vendor batch not found" });
+      }
+      
+      res.type("html").send(renderBatchManifest(batch));
+    } catch (error) {
+      console.error("Error getting vendor batch manifest:", error);
+      res.status(500).json({ message: "Failed to get vendor batch manifest" });
+    }
+  });
+
+  // Create a vendor batch, optionally with its first cheques
+  app.post(`${apiRouter}/vendor-batches`, requireAuth, async (req, res) => {
+    try {
+      const validatedData = insertVendorBatchSchema.parse(req.body);
+      const currentUser = req.user as User;
+      const batch = await storage.createVendorBatch(validatedData, currentUser?.user_id);
+      res.status(201).json(batch);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      console.error("Error creating customer:", error);
-      res.status(500).json({ message: "Failed to create customer" });
+      if (error instanceof Error && error.message === "Vendor not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof VendorBatchError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating vendor batch:", error);
+      res.status(500).json({ message: "Failed to create vendor batch" });
     }
   });
 
-  // Update customer
-  app.patch(`${apiRouter}/customers/:id`, async (req, res) => {
+  // Update a vendor batch, e.g. mark it delivered or reopen it
+  app.patch(`${apiRouter}/vendor-batches/:id`, requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const validatedData = insertCustomerSchema.partial().parse(req.body);
-      const customer = await storage.updateCustomer(id, validatedData);
+      const validatedData = updateVendorBatchSchema.parse(req.body);
+      const batch = await storage.updateVendorBatch(id, validatedData);
       
-      if (!customer) {
-        return res.status(404).json({ message: "Customer not found" });
+      if (!batch) {
+        return res.status(404).json({ message: "Vendor batch not found" });
       }
       
-      res.json(customer);
+      res.json(batch);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      console.error("Error updating customer:", error);
-      res.status(500).json({ message: "Failed to update customer" });
+      if (error instanceof VendorBatchError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error updating vendor batch:", error);
+      res.status(500).json({ message: "Failed to update vendor batch" });
     }
   });
 
-  // Delete customer
-  app.delete(`${apiRouter}/customers/:id`, async (req, res) => {
+  // Delete a vendor batch that has no receipts; its cheques become unbatched
+  app.delete(`${apiRouter}/vendor-batches/:id`, requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteCustomer(id);
+      const success = await storage.deleteVendorBatch(id);
       
       if (!success) {
-        return res.status(404).json({ message: "Customer not found" });
+        return res.status(404).json({ message: "Vendor batch not found" });
       }
       
       res.status(204).send();
     } catch (error) {
-      console.error("Error deleting customer:", error);
-      res.status(500).json({ message: "Failed to delete customer" });
+      if (error instanceof VendorBatchError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error deleting vendor batch:", error);
+      res.status(500).json({ message: "Failed to delete vendor batch" });
     }
   });
-  
-  // Create customer deposit
-  app.post(`${apiRouter}/deposits`, requireAuth, async (req, res) => {
+
+  // Add cheques to an open batch
+  app.post(`${apiRouter}/vendor-batches/:id/transactions`, requireAuth, async (req, res) => {
     try {
-      const validatedData = insertCustomerDepositSchema.parse(req.body);
-      const deposit = await storage.createCustomerDeposit(validatedData);
-      res.status(201).json(deposit);
+      const id = parseInt(req.params.id);
+      const { transaction_ids } = vendorBatchTransactionsSchema.parse(req.body);
+      const batch = await storage.addBatchTransactions(id, transaction_ids);
+      res.json(batch);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      console.error("Error creating customer deposit:", error);
-      res.status(500).json({ message: "Failed to create customer deposit" });
+      if (error instanceof Error && error.message === "Vendor batch not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof VendorBatchError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error adding cheques to vendor batch:", error);
+      res.status(500).json({ message: "Failed to add cheques to vendor batch" });
     }
   });
 
-  // Get all vendors
-  app.get(`${apiRouter}/vendors`, async (req, res) => {
+  // Take cheques out of an open batch
+  app.delete(`${apiRouter}/vendor-batches/:id/transactions`, requireAuth, async (req, res) => {
     try {
-      const vendors = await storage.getVendors();
-      res.json(vendors);
+      const id = parseInt(req.params.id);
+      const { transaction_ids } = vendorBatchTransactionsSchema.parse(req.body);
+      const batch = await storage.removeBatchTransactions(id, transaction_ids);
+      res.json(batch);
     } catch (error) {
-      console.error("Error getting vendors:", error);
-      res.status(500).json({ message: "Failed to get vendors" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof Error && error.message === "Vendor batch not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof VendorBatchError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error removing cheques from vendor batch:", error);
+      res.status(500).json({ message: "Failed to remove cheques from vendor batch" });
     }
   });
 
-  // Get vendor by ID
-  app.get(`${apiRouter}/vendors/:id`, async (req, res) => {
+  // Record what the vendor paid for a batch, spread across its cheques oldest first
+  app.post(`${apiRouter}/vendor-batches/:id/receipts`, requireAuth, async (req, res) => {
     try {
-      const id = req.params.id;
-      const vendor = await storage.getVendor(id);
+      const id = parseInt(req.params.id);
+      const validatedData = vendorBatchReceiptSchema.parse(req.body);
+      const payment = await storage.recordBatchReceipt(id, validatedData);
+      res.status(201).json(payment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof Error && error.message === "Vendor batch not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof VendorBatchError || error instanceof AccountingPeriodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error recording vendor batch receipt:", error);
+      res.status(500).json({ message: "Failed to record vendor batch receipt" });
+    }
+  });
+
+  // Get uploaded bank statements with how far each has been reconciled
+  app.get(`${apiRouter}/bank-statements`, requireAuth, async (req, res) => {
+    try {
+      const statements = await storage.getBankStatements();
+      res.json(statements);
+    } catch (error) {
+      console.error("Error getting bank statements:", error);
+      res.status(500).json({ message: "Failed to get bank statements" });
+    }
+  });
+
+  // Get a bank statement with its lines, their matches and match candidates
+  app.get(`${apiRouter}/bank-statements/:id`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const statement = await storage.getBankStatement(id);
       
-      if (!vendor) {
-        return res.status(404).json({ message: "Vendor not found" });
+      if (!statement) {
+        return res.status(404).json({ message: "Bank statement not found" });
       }
       
-      res.json(vendor);
+      res.json(statement);
     } catch (error) {
-      console.error("Error getting vendor:", error);
-      res.status(500).json({ message: "Failed to get vendor" });
+      console.error("Error getting bank statement:", error);
+      res.status(500).json({ message: "Failed to get bank statement" });
     }
   });
 
-  // Create vendor
-  app.post(`${apiRouter}/vendors`, async (req, res) => {
+  // Import a CSV or OFX bank statement and match what can be matched without asking
+  app.post(`${apiRouter}/bank-statements`, requireAuth, upload.single('file'), async (req, res) => {
     try {
-      const validatedData = insertVendorSchema.parse(req.body);
-      const vendor = await storage.createVendor(validatedData);
-      res.status(201).json(vendor);
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      
+      const parsed = parseBankStatement(req.file.buffer, req.file.originalname);
+      const currentUser = req.user as User;
+      const statement = await storage.importBankStatement(req.file.originalname, parsed, currentUser?.user_id);
+      res.status(201).json(statement);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      if (error instanceof ReconciliationError) {
+        return res.status(400).json({ message: error.message });
       }
-      console.error("Error creating vendor:", error);
-      res.status(500).json({ message: "Failed to create vendor" });
+      console.error("Error importing bank statement:", error);
+      res.status(500).json({ message: "Failed to import bank statement" });
     }
   });
 
-  // Update vendor
-  app.patch(`${apiRouter}/vendors/:id`, async (req, res) => {
+  // Delete a bank statement none of whose lines are matched
+  app.delete(`${apiRouter}/bank-statements/:id`, requireAuth, async (req, res) => {
     try {
-      const id = req.params.id;
-      const validatedData = insertVendorSchema.partial().parse(req.body);
-      const vendor = await storage.updateVendor(id, validatedData);
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteBankStatement(id);
       
-      if (!vendor) {
-        return res.status(404).json({ message: "Vendor not found" });
+      if (!success) {
+        return res.status(404).json({ message: "Bank statement not found" });
       }
       
-      res.json(vendor);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof ReconciliationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error deleting bank statement:", error);
+      res.status(500).json({ message: "Failed to delete bank statement" });
+    }
+  });
+
+  // Match a statement line; matching a cheque or batch records its vendor receipt
+  app.post(`${apiRouter}/bank-statements/lines/:lineId/match`, requireAuth, async (req, res) => {
+    try {
+      const lineId = parseInt(req.params.lineId);
+      const validatedData = bankStatementMatchSchema.parse(req.body);
+      const currentUser = req.user as User;
+      const statement = await storage.matchStatementLine(lineId, validatedData, currentUser?.user_id);
+      res.json(statement);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      console.error("Error updating vendor:", error);
-      res.status(500).json({ message: "Failed to update vendor" });
+      if (error instanceof Error && error.message === "Statement line not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof ReconciliationError || error instanceof VendorBatchError || error instanceof AccountingPeriodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error matching statement line:", error);
+      res.status(500).json({ message: "Failed to match statement line" });
     }
   });
 
-  // Delete vendor
-  app.delete(`${apiRouter}/vendors/:id`, async (req, res) => {
+  // Unmatch a statement line, taking back any vendor receipt matching recorded,
+  // or bring back an ignored one
+  app.delete(`${apiRouter}/bank-statements/lines/:lineId/match`, requireAuth, async (req, res) => {
     try {
-      const id = req.params.id;
-      const success = await storage.deleteVendor(id);
-      
-      if (!success) {
-        return res.status(404).json({ message: "Vendor not found" });
+      const lineId = parseInt(req.params.lineId);
+      const statement = await storage.unmatchStatementLine(lineId);
+      res.json(statement);
+    } catch (error) {
+      if (error instanceof Error && error.message === "Statement line not found") {
+        return res.status(404).json({ message: error.message });
       }
-      
-      res.status(204).send();
+      if (error instanceof ReconciliationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error unmatching statement line:", error);
+      res.status(500).json({ message: "Failed to unmatch statement line" });
+    }
+  });
+
+  // Set aside a statement line that has nothing to match, e.g. bank charges
+  app.post(`${apiRouter}/bank-statements/lines/:lineId/ignore`, requireAuth, async (req, res) => {
+    try {
+      const lineId = parseInt(req.params.lineId);
+      const statement = await storage.ignoreStatementLine(lineId);
+      res.json(statement);
     } catch (error) {
-      console.error("Error deleting vendor:", error);
-      res.status(500).json({ message: "Failed to delete vendor" });
+      if (error instanceof Error && error.message === "Statement line not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof ReconciliationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error ignoring statement line:", error);
+      res.status(500).json({ message: "Failed to ignore statement line" });
     }
   });
 
@@ -491,9 +2371,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // AI-powered document processing using OpenAI vision model
-  app.post(`${apiRouter}/process-cheque`, upload.single('document'), async (req, res) => {
+  // The front of the cheque (or a PDF scan) comes as "document" and the back, if sent, as "back"
+  app.post(`${apiRouter}/process-cheque`, upload.fields([{ name: 'document', maxCount: 1 }, { name: 'back', maxCount: 1 }]), async (req, res) => {
     try {
-      if (!req.file) {
+      const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+      const document = files?.document?.[0];
+      const back = files?.back?.[0];
+      if (!document) {
         return res.status(400).json({ message: "No document uploaded" });
       }
       
@@ -501,12 +2385,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const conversationId = `session-${Date.now()}`;
       
       // Extract file details
-      const fileBuffer = req.file.buffer;
-      const fileType = req.file.mimetype;
+      const fileBuffer = document.buffer;
+      const fileType = document.mimetype;
       
       // Process the document using the OpenAI-based cheque processing function
       const result = await processChequeDocument(fileBuffer, fileType, conversationId);
       
+      // Keep the files until the chat creates the transaction they get linked to
+      const currentUser = req.user as User | undefined;
+      for (const [file, kind] of [[document, undefined], [back, 'back']] as const) {
+        if (!file) continue;
+        await saveAttachment(
+          { buffer: file.buffer, file_name: file.originalname, content_type: file.mimetype },
+          { kind, conversation_id: conversationId, user_id: currentUser?.user_id }
+        ).catch(error => console.error("Error saving cheque attachment:", error));
+      }
+      
       // Return the conversationId to the client so it can fetch the AI assistant responses
       res.json({ 
         success: true, 
@@ -582,7 +2476,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Generate AI response - this function now handles saving the assistant's response
-      const aiResponse = await generateAIResponse(message, finalConversationId);
+      const aiResponse = await generateAIResponse(message, finalConversationId, { user_id: currentUser.user_id, channel: 'ai' });
 
       res.json({ response: aiResponse, conversationId: finalConversationId });
     } catch (error) {
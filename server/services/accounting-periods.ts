@@ -0,0 +1,97 @@
+/**
+ * Accounting periods: calendar months that are locked once reported.
+ *
+ * An admin closes a month after it has gone to the accountant. From then on
+ * transactions dated in it can't be edited or deleted, deposits can't be
+ * recorded in it and fees in it can't be recalculated, whichever channel the
+ * change comes through. Only a superuser can reopen a closed month.
+ */
+
+import { type AccountingPeriod } from "@shared/schema";
+import { toDateString } from "./fee-schedules";
+
+/**
+ * Raised for a change inside a closed period, or a close or reopen that isn't
+ * allowed, so routes can answer with a 400
+ */
+export class AccountingPeriodError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AccountingPeriodError";
+  }
+}
+
+const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December"
+];
+
+/**
+ * The period a date falls in
+ * @param date The date
+ * @returns The month as YYYY-MM
+ */
+export function periodOf(date: Date | string): string {
+  return toDateString(date).slice(0, 7);
+}
+
+/**
+ * A period as people say it, e.g. "September 2026"
+ * @param period The month as YYYY-MM
+ */
+export function periodLabel(period: string): string {
+  const [year, month] = period.split("-");
+  return `${MONTH_NAMES[parseInt(month) - 1]} ${year}`;
+}
+
+/**
+ * Make sure none of the dates a change touches are in a closed period
+ * @param closedPeriods The closed months as YYYY-MM
+ * @param dates The dates the change touches; missing ones are skipped
+ * @param what What can't be changed, e.g. "transactions dated in it can't be changed"
+ * @throws AccountingPeriodError naming the first closed period hit
+ */
+export function assertPeriodsOpen(
+  closedPeriods: string[],
+  dates: (Date | string | null | undefined)[],
+  what: string
+): void {
+  if (closedPeriods.length === 0) return;
+
+  const closed = dates
+    .filter((date): date is Date | string => !!date)
+    .map(periodOf)
+    .filter(period => closedPeriods.includes(period))
+    .sort();
+  if (closed.length > 0) {
+    throw new AccountingPeriodError(`${periodLabel(closed[0])} is closed, so ${what}`);
+  }
+}
+
+/**
+ * Make sure a period can be closed
+ * @param period The month as YYYY-MM
+ * @param existing The period's row, if it has been closed before
+ * @param today Today's date as YYYY-MM-DD
+ * @throws AccountingPeriodError if it is already closed or hasn't started yet
+ */
+export function assertClosable(period: string, existing: AccountingPeriod | undefined, today: string): void {
+  if (existing?.status === 'closed') {
+    throw new AccountingPeriodError(`${periodLabel(period)} is already closed`);
+  }
+  if (period > periodOf(today)) {
+    throw new AccountingPeriodError(`${periodLabel(period)} hasn't started yet, so it can't be closed`);
+  }
+}
+
+/**
+ * Make sure a period can be reopened
+ * @param period The month as YYYY-MM
+ * @param existing The period's row, if it has ever been closed
+ * @throws AccountingPeriodError unless it is closed
+ */
+export function assertReopenable(period: string, existing: AccountingPeriod | undefined): void {
+  if (existing?.status !== 'closed') {
+    throw new AccountingPeriodError(`${periodLabel(period)} isn't closed`);
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Helpers for applying payments (vendor payments, customer deposits) against
+ * the open balances of cheque transactions.
+ *
+ * All arithmetic is done in whole cents so that splitting a payment across
+ * several transactions never leaves rounding residue behind.
+ */
+
+export interface OpenBalance {
+  transaction_id: number;
+  date: string | Date | null;
+  outstanding: string;
+}
+
+export interface AllocationLine {
+  transaction_id: number;
+  amount: string;
+}
+
+export interface AllocationResult {
+  allocations: AllocationLine[];
+  unallocated: string;
+}
+
+/**
+ * Convert a numeric column value (string or number) to integer cents
+ * @param value The amount to convert
+ */
+export function toCents(value: string | number | null | undefined): number {
+  if (value === null || value === undefined || value === "") {
+    return 0;
+  }
+  const parsed = typeof value === "number" ? value : parseFloat(value);
+  return isNaN(parsed) ? 0 : Math.round(parsed * 100);
+}
+
+/**
+ * Convert integer cents back to a 2-decimal string suitable for numeric columns
+ * @param cents The amount in cents
+ */
+export function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+/**
+ * Outstanding balance between an expected amount and what has been settled so far
+ * @param expected Total expected (e.g. amount_to_receive_from_vendor)
+ * @param settled Amount already settled (e.g. received_from_vendor)
+ */
+export function outstandingAmount(
+  expected: string | number | null | undefined,
+  settled: string | number | null | undefined
+): string {
+  return fromCents(Math.max(toCents(expected) - toCents(settled), 0));
+}
+
+/**
+ * Apply an amount to open balances, oldest first (by date, then transaction ID)
+ * @param amount The payment amount to distribute
+ * @param openBalances Transactions with an outstanding balance
+ * @returns The allocation lines and any amount left over
+ */
+export function allocateOldestFirst(amount: string | number, openBalances: OpenBalance[]): AllocationResult {
+  const ordered = [...openBalances].sort((a, b) => {
+    const dateA = a.date ? new Date(a.date).getTime() : 0;
+    const dateB = b.date ? new Date(b.date).getTime() : 0;
+    return dateA !== dateB ? dateA - dateB : a.transaction_id - b.transaction_id;
+  });
+
+  let remaining = toCents(amount);
+  const allocations: AllocationLine[] = [];
+
+  for (const balance of ordered) {
+    if (remaining <= 0) break;
+
+    const outstanding = toCents(balance.outstanding);
+    if (outstanding <= 0) continue;
+
+    const applied = Math.min(outstanding, remaining);
+    allocations.push({ transaction_id: balance.transaction_id, amount: fromCents(applied) });
+    remaining -= applied;
+  }
+
+  return { allocations, unallocated: fromCents(remaining) };
+}
+
+/**
+ * Raised when a requested allocation can't be applied (over-allocation,
+ * unknown transaction, etc.) so routes can answer with a 400
+ */
+export class AllocationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AllocationError";
+  }
+}
+
+/**
+ * Validate user-chosen allocation lines against the available amount and open balances
+ * @param amount The amount still available to allocate
+ * @param requested The lines picked by the user
+ * @param openBalances Transactions the amount may be applied to
+ * @returns The normalized allocation lines and any amount left over
+ */
+export function allocateManually(
+  amount: string | number,
+  requested: AllocationLine[],
+  openBalances: OpenBalance[]
+): AllocationResult {
+  const outstandingById = new Map(openBalances.map(b => [b.transaction_id, toCents(b.outstanding)]));
+  const totals = new Map<number, number>();
+
+  for (const line of requested) {
+    const cents = toCents(line.amount);
+    if (cents <= 0) {
+      throw new AllocationError(`Allocation amount for transaction ${line.transaction_id} must be positive`);
+    }
+    if (!outstandingById.has(line.transaction_id)) {
+      throw new AllocationError(`Transaction ${line.transaction_id} has no open balance for this customer`);
+    }
+    totals.set(line.transaction_id, (totals.get(line.transaction_id) || 0) + cents);
+  }
+
+  let remaining = toCents(amount);
+  const allocations: AllocationLine[] = [];
+
+  for (const [transactionId, cents] of Array.from(totals.entries())) {
+    if (cents > outstandingById.get(transactionId)!) {
+      throw new AllocationError(`Allocation exceeds the outstanding balance of transaction ${transactionId}`);
+    }
+    if (cents > remaining) {
+      throw new AllocationError("Allocations exceed the unallocated amount");
+    }
+    allocations.push({ transaction_id: transactionId, amount: fromCents(cents) });
+    remaining -= cents;
+  }
+
+  return { allocations, unallocated: fromCents(remaining) };
+}
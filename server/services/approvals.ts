@@ -0,0 +1,221 @@
+/**
+ * Maker-checker approvals for high-value and destructive actions, shared by
+ * the storage implementations, the routes and the chat channels.
+ *
+ * An approval policy holds back one kind of action (a new cheque, a deletion,
+ * a fee override or a payout) when the person taking it has one of the
+ * policy's roles and the amount reaches its threshold. The action then waits
+ * in the approval queue until an admin other than the requester approves it,
+ * which applies it through the normal path, or rejects it.
+ */
+
+import {
+  type ApprovalAction,
+  type ApprovalDetails,
+  type ApprovalPolicy,
+  type ApprovalRequest,
+  type ApprovalRequestWithUsers,
+  type AuditChannel,
+  type ChequeTransaction,
+  type InsertTransaction,
+  type User
+} from "@shared/schema";
+import { toCents } from "./allocation";
+
+/**
+ * Raised for an approval that can't be submitted or decided so routes can
+ * answer with a 400
+ */
+export class ApprovalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApprovalError";
+  }
+}
+
+const CHANNEL_LABELS: Record<AuditChannel, string> = {
+  web: "the web app",
+  ai: "the AI assistant",
+  telegram: "Telegram"
+};
+
+// Roles that can approve or reject requests
+export const APPROVER_ROLES: User['role'][] = ['superuser', 'admin'];
+
+/**
+ * Whether a user can approve or reject requests
+ * @param user The user, if any
+ */
+export function canApprove(user: Pick<User, 'role'> | null | undefined): boolean {
+  return !!user && APPROVER_ROLES.includes(user.role);
+}
+
+/**
+ * The policy that holds back an action, if any
+ * @param policies Every approval policy
+ * @param action What is being done
+ * @param amount What it is worth
+ * @param role The role of the person doing it; treated as a plain user when unknown
+ * @returns The matching policy with the highest threshold, so the most specific one is named
+ */
+export function matchApprovalPolicy(
+  policies: ApprovalPolicy[],
+  action: ApprovalAction,
+  amount: string,
+  role: User['role'] | undefined
+): ApprovalPolicy | undefined {
+  const requesterRole = role ?? 'user';
+  const cents = toCents(amount);
+
+  return policies
+    .filter(policy => policy.active && policy.action === action)
+    .filter(policy => policy.roles.length === 0 || policy.roles.includes(requesterRole))
+    .filter(policy => policy.min_amount === null || cents >= toCents(policy.min_amount))
+    .sort((a, b) => toCents(b.min_amount ?? "0") - toCents(a.min_amount ?? "0") || a.policy_id - b.policy_id)[0];
+}
+
+/**
+ * Whether an update sets a fee override the transaction didn't have. Clearing
+ * an override or sending back the one already there doesn't count.
+ * @param existing The transaction as stored
+ * @param update The update
+ */
+export function isFeeOverride(
+  existing: Pick<ChequeTransaction, 'customer_fee_override' | 'vendor_fee_override'>,
+  update: Pick<Partial<InsertTransaction>, 'customer_fee_override' | 'vendor_fee_override'>
+): boolean {
+  const changed = (next: string | null | undefined, current: string | null) =>
+    next !== undefined && next !== null && (current === null || parseFloat(next) !== parseFloat(current));
+  return changed(update.customer_fee_override, existing.customer_fee_override) ||
+    changed(update.vendor_fee_override, existing.vendor_fee_override);
+}
+
+/**
+ * A one-line description of an action for the approval queue
+ * @param action What is being done
+ * @param chequeNumber The cheque it is done to
+ * @param amount What it is worth
+ */
+export function approvalSummary(action: ApprovalAction, chequeNumber: string, amount: string): string {
+  switch (action) {
+    case 'create':
+      return `New cheque #${chequeNumber} for $${amount}`;
+    case 'delete':
+      return `Delete cheque #${chequeNumber} ($${amount})`;
+    case 'fee_override':
+      return `Fee override on cheque #${chequeNumber} ($${amount})`;
+    case 'payout':
+      return `Payout of $${amount} on cheque #${chequeNumber}`;
+  }
+}
+
+/**
+ * What to send for approval for an action on a cheque
+ * @param action What is being done
+ * @param transaction The cheque it is done to, or the new cheque
+ * @param payload What to apply once approved
+ * @param amount What the action is worth when that isn't the cheque amount, as for a payout
+ */
+export function approvalDetails(
+  action: ApprovalAction,
+  transaction: { transaction_id?: number; cheque_number: string; cheque_amount: string },
+  payload: Record<string, unknown> = {},
+  amount: string = transaction.cheque_amount
+): ApprovalDetails {
+  return {
+    amount,
+    transaction_id: transaction.transaction_id ?? null,
+    summary: approvalSummary(action, transaction.cheque_number, amount),
+    payload
+  };
+}
+
+/**
+ * What to send for approval for a payout from a deposit. The amount stays set
+ * aside on the deposit until the request is decided.
+ * @param depositId The deposit paying it
+ * @param transaction The cheque it is paid out on
+ * @param amount The payout
+ */
+export function depositPayoutDetails(
+  depositId: number,
+  transaction: { transaction_id: number; cheque_number: string; cheque_amount: string },
+  amount: string
+): ApprovalDetails {
+  const details = approvalDetails('payout', transaction, { deposit_id: depositId }, amount);
+  return { ...details, summary: `${details.summary} from deposit #${depositId}` };
+}
+
+/**
+ * The deposit a payout request is paid from, if it came from one
+ * @param request The request
+ */
+export function payoutDepositId(request: Pick<ApprovalRequest, 'action' | 'payload'>): number | undefined {
+  const depositId = request.payload.deposit_id;
+  return request.action === 'payout' && typeof depositId === 'number' ? depositId : undefined;
+}
+
+/**
+ * What payouts waiting for approval will pay, so the same money isn't
+ * allocated again while they wait
+ * @param requests The pending payout requests
+ * @param depositId The deposit being allocated
+ * @returns The cents set aside from the deposit, and on each cheque
+ */
+export function heldPayouts(
+  requests: Pick<ApprovalRequest, 'action' | 'payload' | 'transaction_id' | 'amount'>[],
+  depositId: number
+): { fromDeposit: number; byTransaction: Map<number, number> } {
+  const byTransaction = new Map<number, number>();
+  let fromDeposit = 0;
+  for (const request of requests) {
+    if (payoutDepositId(request) === depositId) {
+      fromDeposit += toCents(request.amount);
+    }
+    if (request.transaction_id !== null) {
+      byTransaction.set(request.transaction_id, (byTransaction.get(request.transaction_id) ?? 0) + toCents(request.amount));
+    }
+  }
+  return { fromDeposit, byTransaction };
+}
+
+/**
+ * Make sure a request can be decided by someone
+ * @param request The request
+ * @param deciderId Who is approving or rejecting it
+ * @throws ApprovalError if it has been decided already or they asked for it
+ */
+export function assertDecidable(request: ApprovalRequest, deciderId: number | null): void {
+  if (request.status !== 'pending') {
+    throw new ApprovalError(`Request #${request.approval_id} has already been ${request.status}`);
+  }
+  if (deciderId !== null && request.requested_by === deciderId) {
+    throw new ApprovalError("Someone else has to approve or reject your own request");
+  }
+}
+
+/**
+ * The message sent to approvers when a request arrives
+ * @param request The request
+ */
+export function formatApprovalNotice(request: ApprovalRequestWithUsers): string {
+  return `🔔 Approval needed (request #${request.approval_id})
+
+${request.summary}
+Requested by ${request.requested_by_username ?? "an unknown user"} through ${CHANNEL_LABELS[request.channel]}
+
+Reply /approve ${request.approval_id} or /reject ${request.approval_id} followed by a reason.`;
+}
+
+/**
+ * The message sent to the requester once a request is decided
+ * @param request The decided request
+ */
+export function formatDecisionNotice(request: ApprovalRequestWithUsers): string {
+  const decider = request.decided_by_username ?? "an admin";
+  if (request.status === 'approved') {
+    return `✅ Your request #${request.approval_id} was approved by ${decider} and has been applied: ${request.summary}`;
+  }
+  const reason = request.decision_note ? ` Reason: ${request.decision_note}` : "";
+  return `❌ Your request #${request.approval_id} was rejected by ${decider}: ${request.summary}.${reason}`;
+}
@@ -0,0 +1,147 @@
+/**
+ * Cheque images and scans kept with transactions.
+ *
+ * Files are written to the file store with a preview thumbnail for images,
+ * then recorded in storage. Files sent to the AI assistant or the Telegram
+ * bot are recorded against their conversation and linked to the transaction
+ * the chat goes on to create.
+ */
+
+import { randomUUID } from "crypto";
+import path from "path";
+import sharp from "sharp";
+import { storage } from "../storage";
+import { type AttachmentKind, type TransactionAttachment } from "@shared/schema";
+import { fileStore } from "./file-store";
+
+/**
+ * Raised for a file that can't be attached so routes can answer with a 400
+ */
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
+
+// File types accepted as cheque images or scans
+export const ATTACHMENT_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/tiff', 'image/webp', 'application/pdf'];
+
+// How long a file sent in a chat waits for the chat to create its transaction
+const PENDING_ATTACHMENT_HOURS = 24;
+
+const THUMBNAIL_WIDTH = 320;
+
+export type AttachmentUpload = {
+  buffer: Buffer;
+  file_name: string;
+  content_type: string;
+};
+
+/**
+ * The kind of attachment a file is when it isn't said: PDFs are scanned
+ * documents and images are the front of the cheque
+ * @param contentType The file's MIME type
+ */
+export function defaultAttachmentKind(contentType: string): AttachmentKind {
+  return contentType === 'application/pdf' ? 'document' : 'front';
+}
+
+// A JPEG preview of an image, or null if it can't be read as one
+async function makeThumbnail(upload: AttachmentUpload): Promise<Buffer | null> {
+  if (!upload.content_type.startsWith('image/')) {
+    return null;
+  }
+  try {
+    return await sharp(upload.buffer)
+      .rotate()
+      .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+      .jpeg({ quality: 75 })
+      .toBuffer();
+  } catch (error) {
+    console.error("Error making attachment thumbnail:", error);
+    return null;
+  }
+}
+
+/**
+ * Store a file and record it as an attachment
+ * @param upload The file
+ * @param details The kind of file, and the transaction or chat conversation it belongs to
+ * @throws AttachmentError if the file type isn't accepted
+ */
+export async function saveAttachment(
+  upload: AttachmentUpload,
+  details: {
+    kind?: AttachmentKind;
+    transaction_id?: number;
+    conversation_id?: string;
+    user_id?: number | null;
+  }
+): Promise<TransactionAttachment> {
+  if (!ATTACHMENT_CONTENT_TYPES.includes(upload.content_type)) {
+    throw new AttachmentError("Only JPEG, PNG, TIFF, WebP and PDF files can be attached");
+  }
+
+  const now = new Date();
+  const folder = `attachments/${now.getUTCFullYear()}/${String(now.getUTCMonth() + 1).padStart(2, '0')}`;
+  const id = randomUUID();
+  const extension = path.extname(upload.file_name).toLowerCase().replace(/[^.a-z0-9]/g, '');
+  const storageKey = `${folder}/${id}${extension}`;
+
+  await fileStore.put(storageKey, upload.buffer, upload.content_type);
+
+  const thumbnail = await makeThumbnail(upload);
+  const thumbnailKey = thumbnail ? `${folder}/${id}-thumb.jpg` : null;
+  if (thumbnail && thumbnailKey) {
+    await fileStore.put(thumbnailKey, thumbnail, 'image/jpeg');
+  }
+
+  return await storage.createAttachment({
+    transaction_id: details.transaction_id ?? null,
+    conversation_id: details.conversation_id ?? null,
+    kind: details.kind ?? defaultAttachmentKind(upload.content_type),
+    file_name: upload.file_name.slice(0, 255),
+    content_type: upload.content_type,
+    size: upload.buffer.length,
+    storage_key: storageKey,
+    thumbnail_key: thumbnailKey,
+    user_id: details.user_id ?? null
+  });
+}
+
+/**
+ * Link the files sent in a chat to the transaction it created
+ * @param conversationId The chat conversation
+ * @param transactionId The transaction created from the files
+ */
+export async function linkChatAttachments(conversationId: string, transactionId: number): Promise<TransactionAttachment[]> {
+  const since = new Date(Date.now() - PENDING_ATTACHMENT_HOURS * 60 * 60 * 1000);
+  return await storage.linkConversationAttachments(conversationId, transactionId, since);
+}
+
+/**
+ * Read an attachment's file, or its thumbnail when one was made
+ * @param attachment The attachment
+ * @param thumbnail Whether to read the thumbnail
+ */
+export async function readAttachment(
+  attachment: TransactionAttachment,
+  thumbnail = false
+): Promise<{ data: Buffer; content_type: string }> {
+  if (thumbnail && attachment.thumbnail_key) {
+    return { data: await fileStore.get(attachment.thumbnail_key), content_type: 'image/jpeg' };
+  }
+  return { data: await fileStore.get(attachment.storage_key), content_type: attachment.content_type };
+}
+
+/**
+ * Remove an attachment's files from the file store
+ * @param attachment The attachment
+ */
+export async function removeAttachmentFiles(attachment: TransactionAttachment): Promise<void> {
+  await fileStore.delete(attachment.storage_key);
+  if (attachment.thumbnail_key) {
+    await fileStore.delete(attachment.thumbnail_key);
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Audit trail of changes to transactions, customers, vendors and deposits,
+ * and of accounting periods being closed and reopened, shared by the storage
+ * implementations.
+ *
+ * Every create, update and delete records who made it, through which channel,
+ * the fields that changed and a snapshot of the record afterwards. A revert
+ * puts the editable fields of an earlier snapshot back through the normal
+ * update path, so fees are recalculated and rate changes reach the fee
+ * schedules the same way as a manual edit.
+ */
+
+import { type AuditActor, type AuditAction, type AuditEntity, type AuditEntry, type AuditFieldChange, type InsertAuditEntry } from "@shared/schema";
+
+/**
+ * Raised when an audit entry can't be reverted so routes can answer with a 400
+ */
+export class AuditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuditError";
+  }
+}
+
+// Bookkeeping columns that change on every save
+const IGNORED_FIELDS = ['created_at', 'updated_at'];
+
+// Fields a revert restores. Fees are recalculated from these, a transaction's
+// status is left to its own lifecycle, and deposits only change through their
+// allocations so they can't be reverted. Periods are closed and reopened, not edited.
+const REVERTIBLE_FIELDS: Record<AuditEntity, string[]> = {
+  transaction: [
+    'date',
+    'customer_id',
+    'cheque_number',
+    'cheque_amount',
+    'drawer_bank',
+    'vendor_id',
+    'customer_fee_override',
+    'vendor_fee_override',
+    'fee_override_reason'
+  ],
+  customer: ['customer_name', 'contact_info', 'fee_percentage'],
+  vendor: ['vendor_name', 'contact_info', 'fee_percentage'],
+  deposit: [],
+  period: []
+};
+
+/**
+ * Who made a change through the web app
+ * @param userId The signed in user, if any
+ */
+export function webActor(userId?: number | null): AuditActor {
+  return { user_id: userId ?? null, channel: 'web' };
+}
+
+/**
+ * JSON copy of a record as it is stored in the audit log
+ * @param record The record
+ */
+export function toSnapshot(record: object): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(record));
+}
+
+/**
+ * Fields that differ between two versions of a record
+ * @param before The record before the change, null when it was created
+ * @param after The record after the change, null when it was deleted
+ */
+export function diffRecords(before: object | null, after: object | null): AuditFieldChange[] {
+  const beforeSnapshot = before ? toSnapshot(before) : {};
+  const afterSnapshot = after ? toSnapshot(after) : {};
+  const fields = Array.from(new Set([...Object.keys(beforeSnapshot), ...Object.keys(afterSnapshot)]))
+    .filter(field => !IGNORED_FIELDS.includes(field));
+
+  return fields
+    .filter(field => JSON.stringify(beforeSnapshot[field] ?? null) !== JSON.stringify(afterSnapshot[field] ?? null))
+    .map(field => ({
+      field,
+      before: beforeSnapshot[field] ?? null,
+      after: afterSnapshot[field] ?? null
+    }));
+}
+
+/**
+ * Build the audit row for a change
+ * @param entity The kind of record
+ * @param entityId The record's id
+ * @param action What happened to it
+ * @param before The record before the change, null when it was created
+ * @param after The record after the change, null when it was deleted
+ * @param actor Who made the change and through which channel
+ * @returns The row to insert, or null when an update changed nothing
+ */
+export function buildAuditEntry(
+  entity: AuditEntity,
+  entityId: number | string,
+  action: Exclude<AuditAction, 'revert'>,
+  before: object | null,
+  after: object | null,
+  actor: AuditActor
+): InsertAuditEntry | null {
+  const changes = diffRecords(before, after);
+  if (action === 'update' && changes.length === 0) {
+    return null;
+  }
+
+  return {
+    entity_type: entity,
+    entity_id: String(entityId),
+    action: actor.revert_of !== undefined ? 'revert' : action,
+    channel: actor.channel,
+    user_id: actor.user_id,
+    changes,
+    snapshot: after ? toSnapshot(after) : null,
+    reverted_audit_id: actor.revert_of ?? null
+  };
+}
+
+/**
+ * The values that put a record back to the version an audit entry recorded
+ * @param entry The audit entry to go back to
+ * @throws AuditError if the entry's record kind can't be reverted or it recorded a deletion
+ */
+export function revertValues(entry: AuditEntry): Record<string, unknown> {
+  const fields = REVERTIBLE_FIELDS[entry.entity_type];
+  if (fields.length === 0) {
+    throw new AuditError(`A ${entry.entity_type} can't be reverted`);
+  }
+  if (!entry.snapshot) {
+    throw new AuditError("This entry recorded a deletion and has no version to go back to");
+  }
+
+  const snapshot = entry.snapshot;
+  return Object.fromEntries(fields.filter(field => field in snapshot).map(field => [field, snapshot[field]]));
+}
@@ -0,0 +1,626 @@
+/**
+ * Bank statement import and reconciliation.
+ *
+ * Statements are uploaded as CSV or OFX and read into dated, signed lines
+ * (credits positive). Each credit is compared by amount, date and description
+ * with what we expect or have recorded: what vendors still owe on cheques and
+ * delivered batches, and the vendor payments not yet matched to a line. Each
+ * debit is compared the same way with the customer deposits paid out and not
+ * yet matched. A line whose only candidate, or only candidate named in
+ * its description, is a recorded payment or deposit is matched on import;
+ * other candidates are suggestions until someone confirms one. Confirming a
+ * cheque or batch records the vendor receipt the line paid.
+ */
+
+import {
+  type BankMatchType,
+  type BankStatementLine,
+  type BankStatementLineWithMatches,
+  type BankStatementMatch,
+  type ChequeTransaction,
+  type CustomerDeposit,
+  type ReconciliationCandidate,
+  type ReconciliationStatus,
+  type VendorBatchWithTotals,
+  type VendorPayment
+} from "@shared/schema";
+import { fromCents, outstandingAmount, toCents } from "./allocation";
+import { EXCLUDED_EXPOSURE_STATUSES } from "./credit-limits";
+import { toDateString } from "./fee-schedules";
+import { parseCsv } from "./transaction-import";
+
+/**
+ * Raised when a statement can't be read or a line can't be matched so routes
+ * can answer with a 400
+ */
+export class ReconciliationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReconciliationError";
+  }
+}
+
+// Lines past this are refused rather than matched one by one
+export const MAX_STATEMENT_LINES = 5000;
+
+// How far a line's date may be from a recorded payment or deposit
+const RECORDED_WINDOW_DAYS = 5;
+
+// How long after a cheque or batch date the vendor's payment may arrive
+const RECEIPT_WINDOW_DAYS = 60;
+
+// Candidates listed for each line
+const MAX_CANDIDATES = 5;
+
+// Recorded payments and deposits come first: they are what the bank most likely received
+const MATCH_TYPE_ORDER: BankMatchType[] = ['vendor_payment', 'customer_deposit', 'batch', 'transaction'];
+
+const RECORDED_MATCH_TYPES: BankMatchType[] = ['vendor_payment', 'customer_deposit'];
+
+// A statement line as read from the file
+export type ParsedStatementLine = {
+  date: string;
+  amount: string;
+  description: string | null;
+  reference: string | null;
+};
+
+export type ParsedBankStatement = {
+  format: 'csv' | 'ofx';
+  account: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  lines: ParsedStatementLine[];
+};
+
+// What statement lines can be matched to: cheques and batches the vendor still
+// owes on, and payments and deposits no line has been matched to yet
+export type ReconciliationTargets = {
+  transactions: (ChequeTransaction & { customer_name: string; vendor_name: string })[];
+  batches: VendorBatchWithTotals[];
+  vendorPayments: (VendorPayment & { vendor_name: string })[];
+  deposits: (CustomerDeposit & { customer_name: string })[];
+};
+
+// Header names recognized for each column, compared without case, spaces or punctuation
+const COLUMN_ALIASES = {
+  date: ['date', 'transactiondate', 'posteddate', 'postingdate', 'bookingdate', 'valuedate'],
+  amount: ['amount', 'transactionamount', 'value'],
+  credit: ['credit', 'credits', 'creditamount', 'deposit', 'deposits', 'paidin', 'moneyin'],
+  debit: ['debit', 'debits', 'debitamount', 'withdrawal', 'withdrawals', 'paidout', 'moneyout'],
+  description: ['description', 'memo', 'details', 'narrative', 'payee', 'name', 'particulars', 'transactiondetails'],
+  reference: ['reference', 'ref', 'referencenumber', 'fitid', 'transactionid', 'chequenumber', 'checknumber']
+};
+
+// Bank exports sometimes put account details above the header row
+const MAX_PREAMBLE_ROWS = 10;
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Read an amount as banks print it: with currency symbols, thousands
+ * separators, a leading or trailing minus, brackets or a CR/DR marker
+ * @param value The cell text
+ * @returns The amount in cents, or null if it isn't one
+ */
+export function parseStatementAmount(value: string): number | null {
+  let text = value.trim().toUpperCase();
+  if (text === '') return null;
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('DR')) {
+    sign = -1;
+    text = text.slice(0, -2);
+  } else if (text.endsWith('CR')) {
+    text = text.slice(0, -2);
+  }
+  text = text.replace(/[$£€\s,]/g, '');
+  if (text.endsWith('-')) {
+    sign = -sign;
+    text = text.slice(0, -1);
+  }
+  if (text.startsWith('-')) {
+    sign = -sign;
+    text = text.slice(1);
+  } else if (text.startsWith('+')) {
+    text = text.slice(1);
+  }
+
+  if (!/^\d+(\.\d+)?$|^\.\d+$/.test(text)) return null;
+  return sign * toCents(text);
+}
+
+// Whether a file's numeric dates are day first (31/12/2026), judged from all of them
+function isDayFirst(values: string[]): boolean {
+  for (const value of values) {
+    const match = value.trim().match(/^(\d{1,2})[/.-](\d{1,2})[/.-]\d{2,4}$/);
+    if (match && parseInt(match[1]) > 12) return true;
+    if (match && parseInt(match[2]) > 12) return false;
+  }
+  return false;
+}
+
+/**
+ * Read a statement date
+ * @param value The cell text: YYYY-MM-DD, YYYYMMDD, a numeric day and month
+ * in either order, or a date with the month's name
+ * @param dayFirst Whether numeric dates give the day before the month
+ * @returns The date (YYYY-MM-DD), or null if it isn't one
+ */
+export function parseStatementDate(value: string, dayFirst = false): string | null {
+  const text = value.trim();
+  const pad = (part: number) => String(part).padStart(2, '0');
+  const valid = (year: number, month: number, day: number) => {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? `${year}-${pad(month)}-${pad(day)}` : null;
+  };
+
+  let match = text.match(/^(\d{4})[-/.]?(\d{2})[-/.]?(\d{2})/);
+  if (match) {
+    return valid(parseInt(match[1]), parseInt(match[2]), parseInt(match[3]));
+  }
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (match) {
+    const [first, second] = [parseInt(match[1]), parseInt(match[2])];
+    const year = match[3].length === 2 ? 2000 + parseInt(match[3]) : parseInt(match[3]);
+    return dayFirst ? valid(year, second, first) : valid(year, first, second);
+  }
+
+  // Month names, e.g. "17 Oct 2026" or "Oct 17, 2026"
+  if (/[a-z]/i.test(text)) {
+    const parsed = new Date(text);
+    if (!isNaN(parsed.getTime())) {
+      return valid(parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate());
+    }
+  }
+  return null;
+}
+
+function statementPeriod(lines: ParsedStatementLine[]): { start_date: string | null; end_date: string | null } {
+  const dates = lines.map(line => line.date).sort();
+  return { start_date: dates[0] ?? null, end_date: dates[dates.length - 1] ?? null };
+}
+
+function checkLineCount(lines: ParsedStatementLine[]): void {
+  if (lines.length === 0) {
+    throw new ReconciliationError("The statement has no lines");
+  }
+  if (lines.length > MAX_STATEMENT_LINES) {
+    throw new ReconciliationError(`A statement can have at most ${MAX_STATEMENT_LINES} lines`);
+  }
+}
+
+/**
+ * Read a CSV bank statement. It needs a date column and either an amount
+ * column or credit and debit columns; description and reference are optional.
+ * @param text The file contents
+ * @throws ReconciliationError if the columns can't be found or a row can't be read
+ */
+export function parseCsvStatement(text: string): ParsedBankStatement {
+  const rows = parseCsv(text);
+
+  const headerIndex = rows.slice(0, MAX_PREAMBLE_ROWS).findIndex(row => {
+    const headers = row.map(normalizeHeader);
+    return headers.some(header => COLUMN_ALIASES.date.includes(header)) &&
+      headers.some(header => COLUMN_ALIASES.amount.includes(header) || COLUMN_ALIASES.credit.includes(header));
+  });
+  if (headerIndex === -1) {
+    throw new ReconciliationError("The statement needs a date column and an amount or credit column");
+  }
+
+  const headers = rows[headerIndex].map(normalizeHeader);
+  const columnOf = (aliases: string[]) => headers.findIndex(header => aliases.includes(header));
+  const dateColumn = columnOf(COLUMN_ALIASES.date);
+  const amountColumn = columnOf(COLUMN_ALIASES.amount);
+  const creditColumn = columnOf(COLUMN_ALIASES.credit);
+  const debitColumn = columnOf(COLUMN_ALIASES.debit);
+  const referenceColumn = columnOf(COLUMN_ALIASES.reference);
+  const descriptionColumns = headers
+    .map((header, index) => COLUMN_ALIASES.description.includes(header) ? index : -1)
+    .filter(index => index !== -1);
+
+  const dataRows = rows
+    .map((cells, index) => ({ row_number: index + 1, cells }))
+    .slice(headerIndex + 1)
+    .filter(row => row.cells.some(cell => cell.trim() !== ''));
+  const dayFirst = isDayFirst(dataRows.map(row => row.cells[dateColumn] ?? ''));
+
+  const lines: ParsedStatementLine[] = [];
+  const errors: string[] = [];
+  for (const { row_number, cells } of dataRows) {
+    const cell = (column: number) => column === -1 ? '' : (cells[column] ?? '').trim();
+
+    const date = parseStatementDate(cell(dateColumn), dayFirst);
+    let amount: number | null;
+    if (amountColumn !== -1) {
+      amount = parseStatementAmount(cell(amountColumn));
+    } else {
+      const credit = cell(creditColumn) ? parseStatementAmount(cell(creditColumn)) : 0;
+      const debit = cell(debitColumn) ? parseStatementAmount(cell(debitColumn)) : 0;
+      amount = credit === null || debit === null ? null : Math.abs(credit) - Math.abs(debit);
+    }
+
+    if (!date) {
+      errors.push(`Row ${row_number}: "${cell(dateColumn)}" isn't a date`);
+      continue;
+    }
+    if (amount === null) {
+      errors.push(`Row ${row_number}: the amount can't be read`);
+      continue;
+    }
+    // Balance-only rows carry no money
+    if (amount === 0) continue;
+
+    const description = descriptionColumns.map(cell).filter(Boolean).join(' - ');
+    lines.push({
+      date,
+      amount: fromCents(amount),
+      description: description || null,
+      reference: cell(referenceColumn) || null
+    });
+  }
+
+  if (errors.length > 0) {
+    const more = errors.length > 3 ? ` and ${errors.length - 3} more` : '';
+    throw new ReconciliationError(`${errors.slice(0, 3).join('; ')}${more}`);
+  }
+  checkLineCount(lines);
+
+  return { format: 'csv', account: null, ...statementPeriod(lines), lines };
+}
+
+// The value of an OFX element, whether or not its closing tag is given (SGML OFX leaves them out)
+function ofxValue(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? value : null;
+}
+
+/**
+ * Read an OFX or QFX bank statement
+ * @param text The file contents
+ * @throws ReconciliationError if it has no transactions or one can't be read
+ */
+export function parseOfxStatement(text: string): ParsedBankStatement {
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+
+  const lines: ParsedStatementLine[] = [];
+  blocks.forEach((block, index) => {
+    const posted = ofxValue(block, 'DTPOSTED');
+    const date = posted ? parseStatementDate(posted.slice(0, 8)) : null;
+    const rawAmount = ofxValue(block, 'TRNAMT');
+    // Some banks write OFX amounts with a decimal comma
+    const amount = rawAmount ? parseStatementAmount(rawAmount.includes('.') ? rawAmount : rawAmount.replace(',', '.')) : null;
+    if (!date || amount === null) {
+      throw new ReconciliationError(`Transaction ${index + 1} of the statement has no date or amount`);
+    }
+    if (amount === 0) return;
+
+    const description = [ofxValue(block, 'NAME'), ofxValue(block, 'MEMO')].filter(Boolean).join(' - ');
+    lines.push({
+      date,
+      amount: fromCents(amount),
+      description: description || null,
+      reference: ofxValue(block, 'FITID') ?? ofxValue(block, 'REFNUM') ?? ofxValue(block, 'CHECKNUM')
+    });
+  });
+  checkLineCount(lines);
+
+  const start = ofxValue(text, 'DTSTART');
+  const end = ofxValue(text, 'DTEND');
+  const period = statementPeriod(lines);
+  return {
+    format: 'ofx',
+    account: ofxValue(text, 'ACCTID'),
+    start_date: (start && parseStatementDate(start.slice(0, 8))) || period.start_date,
+    end_date: (end && parseStatementDate(end.slice(0, 8))) || period.end_date,
+    lines
+  };
+}
+
+/**
+ * Read an uploaded bank statement
+ * @param buffer The file contents
+ * @param filename The uploaded file's name, used to tell the formats apart
+ * @throws ReconciliationError if the file can't be read
+ */
+export function parseBankStatement(buffer: Buffer, filename: string): ParsedBankStatement {
+  const extension = filename.toLowerCase().split('.').pop();
+  const text = buffer.toString('utf8');
+  if (extension === 'ofx' || extension === 'qfx' || /<OFX>/i.test(text.slice(0, 2000))) {
+    return parseOfxStatement(text);
+  }
+  if (extension === 'csv') {
+    return parseCsvStatement(text);
+  }
+  throw new ReconciliationError("Only CSV and OFX statements can be imported");
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+}
+
+function shiftDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * The dates what a statement's lines could be matched to can fall within, so
+ * only those need loading
+ * @param startDate The statement's first day (YYYY-MM-DD)
+ * @param endDate Its last day (YYYY-MM-DD)
+ * @returns From when recorded payments and deposits, and cheques and batches
+ * still owed on, can match, and until when either can
+ */
+export function matchingWindow(startDate: string, endDate: string): { recorded_from: string; expected_from: string; to: string } {
+  return {
+    recorded_from: shiftDays(startDate, -RECORDED_WINDOW_DAYS),
+    expected_from: shiftDays(startDate, -RECEIPT_WINDOW_DAYS),
+    to: shiftDays(endDate, RECORDED_WINDOW_DAYS)
+  };
+}
+
+// Whether a line's description names any of the terms: numbers must appear as
+// a whole word, names anywhere
+function namesAny(description: string | null, terms: (string | null | undefined)[]): boolean {
+  if (!description) return false;
+  const text = description.toLowerCase();
+  const words = text.split(/[^a-z0-9]+/);
+  return terms.some(term => {
+    const needle = term?.trim().toLowerCase();
+    if (!needle || needle.length < 3) return false;
+    return /^\d+$/.test(needle) ? words.includes(needle) : text.includes(needle);
+  });
+}
+
+type CandidateSource = {
+  match_type: BankMatchType;
+  id: number;
+  amount: number; // In cents
+  date: string;
+  description: string;
+  terms: (string | null | undefined)[];
+  expected: boolean; // A receipt still to come rather than one recorded
+  outgoing: boolean; // Money paid out, matched to debits
+};
+
+// Everything a line could be matched to, in one shape. Returned and void
+// cheques, open batches and anything with nothing left to receive are left out.
+function candidateSources(targets: ReconciliationTargets): CandidateSource[] {
+  const sources: CandidateSource[] = [
+    ...targets.vendorPayments.map(payment => ({
+      match_type: 'vendor_payment' as const,
+      id: payment.payment_id,
+      amount: toCents(payment.amount),
+      date: toDateString(payment.date),
+      description: `Vendor payment #${payment.payment_id} from ${payment.vendor_name}`,
+      terms: [payment.vendor_name, payment.vendor_id],
+      expected: false,
+      outgoing: false
+    })),
+    ...targets.deposits.map(deposit => ({
+      match_type: 'customer_deposit' as const,
+      id: deposit.deposit_id,
+      amount: toCents(deposit.amount),
+      date: toDateString(deposit.date),
+      description: `Deposit #${deposit.deposit_id} from ${deposit.customer_name}`,
+      terms: [deposit.customer_name],
+      expected: false,
+      outgoing: true
+    })),
+    ...targets.batches.filter(batch => batch.status !== 'open').map(batch => ({
+      match_type: 'batch' as const,
+      id: batch.batch_id,
+      amount: toCents(outstandingAmount(batch.expected_total, batch.received_total)),
+      date: toDateString(batch.batch_date),
+      description: `Batch #${batch.batch_id} for ${batch.vendor_name} (${batch.transaction_count} cheques)`,
+      terms: [batch.vendor_name, batch.vendor_id, `batch ${batch.batch_id}`, `batch #${batch.batch_id}`],
+      expected: true,
+      outgoing: false
+    })),
+    ...targets.transactions.filter(transaction => !EXCLUDED_EXPOSURE_STATUSES.includes(transaction.status ?? 'pending')).map(transaction => ({
+      match_type: 'transaction' as const,
+      id: transaction.transaction_id,
+      amount: toCents(outstandingAmount(transaction.amount_to_receive_from_vendor, transaction.received_from_vendor)),
+      date: toDateString(transaction.date),
+      description: `Cheque #${transaction.cheque_number} for ${transaction.customer_name}, due from ${transaction.vendor_name}`,
+      terms: [transaction.cheque_number, transaction.vendor_name, transaction.vendor_id, transaction.customer_name],
+      expected: true,
+      outgoing: false
+    }))
+  ];
+  return sources.filter(source => !source.expected || source.amount > 0);
+}
+
+function toCandidate(line: Pick<BankStatementLine, 'date' | 'description'>, source: CandidateSource): ReconciliationCandidate {
+  return {
+    match_type: source.match_type,
+    id: source.id,
+    amount: fromCents(source.amount),
+    date: source.date,
+    description: source.description,
+    memo_match: namesAny(line.description, source.terms),
+    days_apart: Math.abs(daysBetween(source.date, toDateString(line.date)))
+  };
+}
+
+/**
+ * Find what a statement line could be matched to: credits of the same amount
+ * as a vendor payment recorded within a few days, or as what a vendor still
+ * owes on a cheque or batch dated shortly before, and debits of the same amount
+ * as a customer deposit recorded within a few days. Those named in the line's
+ * description come first, then the closest in date.
+ * @param line The statement line
+ * @param targets What is open for matching
+ */
+export function findCandidates(
+  line: Pick<BankStatementLine, 'date' | 'amount' | 'description'>,
+  targets: ReconciliationTargets
+): ReconciliationCandidate[] {
+  const amount = toCents(line.amount);
+  if (amount === 0) return [];
+  const lineDate = toDateString(line.date);
+
+  return candidateSources(targets)
+    .filter(source => {
+      if (source.outgoing !== amount < 0 || source.amount !== Math.abs(amount)) return false;
+      const days = daysBetween(source.date, lineDate);
+      return source.expected
+        ? days >= -RECORDED_WINDOW_DAYS && days <= RECEIPT_WINDOW_DAYS
+        : Math.abs(days) <= RECORDED_WINDOW_DAYS;
+    })
+    .map(source => toCandidate(line, source))
+    .sort((a, b) =>
+      Number(b.memo_match) - Number(a.memo_match) ||
+      a.days_apart - b.days_apart ||
+      MATCH_TYPE_ORDER.indexOf(a.match_type) - MATCH_TYPE_ORDER.indexOf(b.match_type) ||
+      a.id - b.id)
+    .slice(0, MAX_CANDIDATES);
+}
+
+/**
+ * Pick the lines of a new statement that can be matched without asking: those
+ * whose only recorded payment or deposit candidate, or only one named in the
+ * description, is not already taken by an earlier line
+ * @param lines The statement's lines
+ * @param targets What is open for matching
+ * @returns The match for each line, or null to leave it for review
+ */
+export function autoMatchLines(
+  lines: Pick<BankStatementLine, 'date' | 'amount' | 'description'>[],
+  targets: ReconciliationTargets
+): (ReconciliationCandidate | null)[] {
+  const taken = new Set<string>();
+  const keyOf = (candidate: ReconciliationCandidate) => `${candidate.match_type}:${candidate.id}`;
+
+  return lines.map(line => {
+    const recorded = findCandidates(line, targets)
+      .filter(candidate => RECORDED_MATCH_TYPES.includes(candidate.match_type) && !taken.has(keyOf(candidate)));
+    const named = recorded.filter(candidate => candidate.memo_match);
+    const match = recorded.length === 1 ? recorded[0] : named.length === 1 ? named[0] : null;
+    if (match) taken.add(keyOf(match));
+    return match;
+  });
+}
+
+const MATCH_LABELS: Record<BankMatchType, string> = {
+  transaction: "Transaction",
+  batch: "Batch",
+  vendor_payment: "Vendor payment",
+  customer_deposit: "Customer deposit"
+};
+
+/**
+ * Check that a line can be matched to what was picked for it. Recorded payments
+ * and deposits must be for the line's amount, received for a payment and paid
+ * out for a deposit; a line can pay part of what a
+ * cheque or batch is owed, but no more. Dates aren't checked, so a late
+ * payment can still be matched by hand.
+ * @param line The statement line
+ * @param match What it is being matched to
+ * @param targets What is open for matching
+ * @returns The match
+ * @throws ReconciliationError if it can't be matched
+ */
+export function checkMatch(
+  line: BankStatementLine,
+  match: BankStatementMatch,
+  targets: ReconciliationTargets
+): ReconciliationCandidate {
+  if (line.status === 'matched') {
+    throw new ReconciliationError("The line is already matched; unmatch it first");
+  }
+  const amount = toCents(line.amount);
+  if (amount === 0) {
+    throw new ReconciliationError("A line for nothing can't be matched");
+  }
+
+  const source = candidateSources(targets).find(candidate => candidate.match_type === match.match_type && candidate.id === match.id);
+  if (!source) {
+    throw new ReconciliationError(RECORDED_MATCH_TYPES.includes(match.match_type)
+      ? `${MATCH_LABELS[match.match_type]} #${match.id} was not found or is already matched to a statement line`
+      : `${MATCH_LABELS[match.match_type]} #${match.id} has nothing left to receive from its vendor`);
+  }
+  // Customer deposits are paid out, so they match money leaving the account
+  if (source.outgoing !== amount < 0) {
+    throw new ReconciliationError(source.outgoing
+      ? `Only money paid out can be matched to a ${MATCH_LABELS[match.match_type].toLowerCase()}`
+      : `Only money received can be matched to a ${MATCH_LABELS[match.match_type].toLowerCase()}`);
+  }
+  const lineAmount = Math.abs(amount);
+  if (source.expected ? lineAmount > source.amount : lineAmount !== source.amount) {
+    throw new ReconciliationError(source.expected
+      ? `The line is for $${fromCents(lineAmount)} but only $${fromCents(source.amount)} is still owed`
+      : `The line is for $${fromCents(lineAmount)} but the ${MATCH_LABELS[match.match_type].toLowerCase()} is for $${fromCents(source.amount)}`);
+  }
+  return toCandidate(line, source);
+}
+
+// Describe what a matched line was matched to
+function describeLineMatch(line: BankStatementLine): string | null {
+  if (line.status !== 'matched' || !line.match_type) return null;
+  const id = {
+    transaction: line.transaction_id,
+    batch: line.batch_id,
+    vendor_payment: line.vendor_payment_id,
+    customer_deposit: line.deposit_id
+  }[line.match_type];
+  return `${MATCH_LABELS[line.match_type]} #${id}`;
+}
+
+/**
+ * The vendor receipt recorded when a line is matched to a cheque or batch
+ * @param line The statement line
+ */
+export function receiptFromLine(line: BankStatementLine): { amount: string; date: string; note: string } {
+  const reference = line.reference ? ` (ref ${line.reference})` : '';
+  return {
+    amount: line.amount,
+    date: toDateString(line.date),
+    note: `Bank statement line #${line.line_id}${reference}`
+  };
+}
+
+/**
+ * A statement line as shown for reconciliation: matched, ignored, suggested
+ * when it has candidates, or unmatched
+ * @param line The statement line
+ * @param targets What is open for matching
+ */
+export function toReconciliationLine(line: BankStatementLine, targets: ReconciliationTargets): BankStatementLineWithMatches {
+  const candidates = line.status === 'unmatched' ? findCandidates(line, targets) : [];
+  const status: ReconciliationStatus = line.status !== 'unmatched'
+    ? line.status
+    : candidates.length > 0 ? 'suggested' : 'unmatched';
+  return {
+    ...line,
+    reconciliation_status: status,
+    match_description: describeLineMatch(line),
+    candidates
+  };
+}
+
+/**
+ * The match columns of a statement line for a match, or for none to clear them
+ * @param match What the line is matched to
+ */
+export function matchColumns(match: BankStatementMatch | null): Pick<
+  BankStatementLine,
+  'match_type' | 'transaction_id' | 'batch_id' | 'vendor_payment_id' | 'deposit_id' | 'transaction_payment_id'
+> {
+  return {
+    match_type: match?.match_type ?? null,
+    transaction_id: match?.match_type === 'transaction' ? match.id : null,
+    batch_id: match?.match_type === 'batch' ? match.id : null,
+    vendor_payment_id: match?.match_type === 'vendor_payment' ? match.id : null,
+    deposit_id: match?.match_type === 'customer_deposit' ? match.id : null,
+    transaction_payment_id: null
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Bulk actions on transactions and the CSV export of selected transactions,
+ * shared by the storage implementations.
+ *
+ * A bulk action is applied to each transaction on its own so one that can't
+ * be changed (a status it can't move to, nothing left to receive) is reported
+ * back without holding up the rest.
+ */
+
+import {
+  type BulkTransactionAction,
+  type BulkTransactionResult,
+  type ChequeTransaction,
+  type InsertTransactionPayment,
+  type TransactionWithDetails
+} from "@shared/schema";
+import { outstandingAmount, toCents } from "./allocation";
+
+/**
+ * An empty summary for a bulk action
+ * @param request The bulk action
+ */
+export function emptyBulkResult(request: BulkTransactionAction): BulkTransactionResult {
+  return { action: request.action, succeeded: [], failed: [], pending_approval: [] };
+}
+
+/**
+ * Why a transaction couldn't be changed, for the summary
+ * @param error What was thrown
+ */
+export function bulkFailureMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Failed to update transaction";
+}
+
+/**
+ * The vendor receipt that settles what is still due from the vendor on a cheque
+ * @param transaction The transaction
+ * @param request The record_vendor_receipt action
+ * @throws Error if nothing is left to receive
+ */
+export function vendorReceiptFor(
+  transaction: ChequeTransaction,
+  request: Extract<BulkTransactionAction, { action: 'record_vendor_receipt' }>
+): InsertTransactionPayment {
+  const amount = outstandingAmount(transaction.amount_to_receive_from_vendor, transaction.received_from_vendor);
+  if (toCents(amount) <= 0) {
+    throw new Error("Nothing left to receive from the vendor");
+  }
+
+  return {
+    type: 'vendor_receipt',
+    amount,
+    date: request.date,
+    method: request.method ?? null,
+    note: request.note ?? null
+  };
+}
+
+// Quote a CSV field if it needs it
+export function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const EXPORT_COLUMNS: [string, (t: TransactionWithDetails) => unknown][] = [
+  ['Transaction ID', t => t.transaction_id],
+  ['Date', t => t.date ? new Date(t.date).toISOString().slice(0, 10) : null],
+  ['Status', t => t.status],
+  ['Customer', t => t.customer?.customer_name],
+  ['Vendor', t => t.vendor?.vendor_name],
+  ['Cheque Number', t => t.cheque_number],
+  ['Drawer Bank', t => t.drawer_bank],
+  ['Cheque Amount', t => t.cheque_amount],
+  ['Customer Fee', t => t.customer_fee],
+  ['Net Payable to Customer', t => t.net_payable_to_customer],
+  ['Paid to Customer', t => t.paid_to_customer],
+  ['Vendor Fee', t => t.vendor_fee],
+  ['Amount to Receive from Vendor', t => t.amount_to_receive_from_vendor],
+  ['Received from Vendor', t => t.received_from_vendor],
+  ['Profit', t => t.profit]
+];
+
+/**
+ * CSV of transactions, one row each with their customer and vendor names
+ * @param transactions The transactions to export
+ */
+export function transactionsToCsv(transactions: TransactionWithDetails[]): string {
+  const lines = [
+    EXPORT_COLUMNS.map(([header]) => header),
+    ...transactions.map(transaction => EXPORT_COLUMNS.map(([, valueOf]) => valueOf(transaction)))
+  ];
+  return lines.map(line => line.map(csvField).join(',')).join('\r\n');
+}
@@ -0,0 +1,44 @@
+/**
+ * Returned (bounced) cheque handling shared by the storage implementations.
+ *
+ * When a cheque comes back unpaid the deal is unwound: the vendor will never
+ * pay what it still owes, we earn no fees on it, nothing more is owed to the
+ * customer, and whatever was already paid out becomes a debt the customer owes
+ * back (together with the bank's chargeback fee).
+ */
+
+import { type ChequeTransaction } from "@shared/schema";
+import { toCents, fromCents, outstandingAmount } from "./allocation";
+
+export interface ReturnReversal {
+  customer_debt: string;
+  vendor_receivable_reversed: string;
+  profit_reversed: string;
+  transactionUpdate: Pick<
+    ChequeTransaction,
+    'status' | 'customer_fee' | 'vendor_fee' | 'profit' | 'net_payable_to_customer' | 'amount_to_receive_from_vendor'
+  >;
+}
+
+/**
+ * Work out what returning a cheque reverses and the resulting transaction values
+ * @param transaction The transaction whose cheque was returned
+ */
+export function computeReturnReversal(transaction: ChequeTransaction): ReturnReversal {
+  const paidOut = fromCents(Math.max(toCents(transaction.paid_to_customer), 0));
+  const received = fromCents(Math.max(toCents(transaction.received_from_vendor), 0));
+
+  return {
+    customer_debt: paidOut,
+    vendor_receivable_reversed: outstandingAmount(transaction.amount_to_receive_from_vendor, transaction.received_from_vendor),
+    profit_reversed: fromCents(toCents(transaction.profit)),
+    transactionUpdate: {
+      status: 'returned',
+      customer_fee: "0.00",
+      vendor_fee: "0.00",
+      profit: "0.00",
+      net_payable_to_customer: paidOut,
+      amount_to_receive_from_vendor: received
+    }
+  };
+}
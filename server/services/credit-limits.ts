@@ -0,0 +1,166 @@
+/**
+ * Customer credit and daily limits, checked whenever a transaction is created
+ * from the web form or the AI assistant, or imported from a spreadsheet.
+ *
+ * A customer's exposure is what vendors still owe on the customer's cheques:
+ * money we have advanced, or promised to advance, before the vendor pays. The
+ * daily volume is the total of the customer's cheques dated the same day.
+ * Returned and void cheques count towards neither.
+ */
+
+import {
+  type ChequeTransaction,
+  type CreditLimitBreach,
+  type Customer,
+  type CustomerExposure,
+  type User
+} from "@shared/schema";
+import { fromCents, outstandingAmount, toCents } from "./allocation";
+import { toDateString } from "./fee-schedules";
+
+/**
+ * Raised when a new cheque would take its customer over a limit and the limit
+ * wasn't overridden, so routes can answer with a 409 listing the breaches
+ */
+export class CreditLimitError extends Error {
+  breaches: CreditLimitBreach[];
+
+  constructor(breaches: CreditLimitBreach[]) {
+    super(describeLimitBreaches(breaches));
+    this.name = "CreditLimitError";
+    this.breaches = breaches;
+  }
+}
+
+// Roles that may create a cheque over its customer's limits
+const OVERRIDE_ROLES = ['superuser', 'admin'];
+
+/**
+ * Check whether a user may override customer limits
+ * @param user The user, if any
+ */
+export function canOverrideLimits(user?: Pick<User, 'role'> | null): boolean {
+  return !!user && OVERRIDE_ROLES.includes(user.role);
+}
+
+// Share of a limit in use at which a customer is reported as near it
+export const NEAR_LIMIT_RATIO = 0.8;
+
+// Statuses whose cheques no longer count towards a customer's limits
+export const EXCLUDED_EXPOSURE_STATUSES = ['returned', 'void'];
+
+// Exposure and daily volume in cents
+export type ExposureAmounts = {
+  outstanding: number;
+  daily_volume: number;
+};
+
+// The fields of a transaction that count towards its customer's limits
+export type ExposureFields = Pick<ChequeTransaction, 'date' | 'cheque_amount' | 'amount_to_receive_from_vendor' | 'received_from_vendor' | 'status'>;
+
+/**
+ * What a transaction adds to its customer's exposure and daily volume
+ * @param transaction The transaction, with its fees calculated
+ * @param date The day whose volume is being counted (YYYY-MM-DD)
+ */
+export function exposureOf(transaction: ExposureFields, date: string): ExposureAmounts {
+  if (EXCLUDED_EXPOSURE_STATUSES.includes(transaction.status ?? 'pending')) {
+    return { outstanding: 0, daily_volume: 0 };
+  }
+  return {
+    outstanding: toCents(outstandingAmount(transaction.amount_to_receive_from_vendor, transaction.received_from_vendor)),
+    daily_volume: toDateString(transaction.date) === date ? toCents(transaction.cheque_amount) : 0
+  };
+}
+
+/**
+ * Add up the exposure of a customer's transactions
+ * @param transactions The customer's transactions, saved or about to be
+ * @param date The day whose volume is being counted (YYYY-MM-DD)
+ */
+export function totalExposure(transactions: ExposureFields[], date: string): ExposureAmounts {
+  return transactions.reduce((total, transaction) => {
+    const amounts = exposureOf(transaction, date);
+    return {
+      outstanding: total.outstanding + amounts.outstanding,
+      daily_volume: total.daily_volume + amounts.daily_volume
+    };
+  }, { outstanding: 0, daily_volume: 0 });
+}
+
+function utilization(amount: number, limit: string | null): number | null {
+  if (limit === null) return null;
+  const limitCents = toCents(limit);
+  // A zero limit allows nothing, so any amount uses all of it
+  if (limitCents === 0) return amount > 0 ? 1 : 0;
+  return Math.round(amount / limitCents * 10000) / 10000;
+}
+
+/**
+ * Describe how much of a customer's limits is in use
+ * @param customer The customer
+ * @param amounts The customer's exposure and daily volume
+ * @param date The day the volume was counted for (YYYY-MM-DD)
+ */
+export function summarizeExposure(customer: Customer, amounts: ExposureAmounts, date: string): CustomerExposure {
+  return {
+    customer_id: customer.customer_id,
+    customer_name: customer.customer_name,
+    credit_limit: customer.credit_limit,
+    outstanding: fromCents(amounts.outstanding),
+    credit_utilization: utilization(amounts.outstanding, customer.credit_limit),
+    daily_limit: customer.daily_limit,
+    daily_volume: fromCents(amounts.daily_volume),
+    daily_utilization: utilization(amounts.daily_volume, customer.daily_limit),
+    date
+  };
+}
+
+/**
+ * Check whether a customer is at or above a share of either limit
+ * @param exposure The customer's exposure
+ * @param ratio The share of the limit, e.g. 0.8 for 80%
+ */
+export function isNearLimit(exposure: CustomerExposure, ratio: number = NEAR_LIMIT_RATIO): boolean {
+  return (exposure.credit_utilization ?? 0) >= ratio || (exposure.daily_utilization ?? 0) >= ratio;
+}
+
+/**
+ * Find the limits a new cheque would take its customer over
+ * @param customer The customer
+ * @param current The customer's exposure before the cheque
+ * @param added What the cheque adds to it
+ */
+export function findLimitBreaches(customer: Customer, current: ExposureAmounts, added: ExposureAmounts): CreditLimitBreach[] {
+  const breaches: CreditLimitBreach[] = [];
+  const check = (limit: CreditLimitBreach['limit'], limitAmount: string | null, before: number, increase: number) => {
+    if (limitAmount === null || increase <= 0) return;
+    const projected = before + increase;
+    if (projected > toCents(limitAmount)) {
+      breaches.push({ limit, limit_amount: limitAmount, current: fromCents(before), projected: fromCents(projected) });
+    }
+  };
+
+  check('credit', customer.credit_limit, current.outstanding, added.outstanding);
+  check('daily', customer.daily_limit, current.daily_volume, added.daily_volume);
+  return breaches;
+}
+
+/**
+ * Describe limit breaches for error messages, chat replies and notes
+ * @param breaches The breaches
+ */
+export function describeLimitBreaches(breaches: CreditLimitBreach[]): string {
+  return breaches.map(breach => {
+    const name = breach.limit === 'credit' ? "credit limit" : "daily limit";
+    return `This cheque would take the customer to $${breach.projected} against a ${name} of $${breach.limit_amount} (currently $${breach.current})`;
+  }).join(". ");
+}
+
+/**
+ * The note left on a cheque an admin created over its customer's limits
+ * @param breaches The limits it went over
+ */
+export function limitOverrideNote(breaches: CreditLimitBreach[]): string {
+  return `Created over the customer's limits with an admin override. ${describeLimitBreaches(breaches)}.`;
+}
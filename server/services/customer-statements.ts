@@ -0,0 +1,250 @@
+/**
+ * Customer account statements shared by the storage implementations.
+ *
+ * A statement lists everything that moved the customer's balance in a date
+ * range: each cheque credits what it nets the customer after fees, deposits
+ * and manual payouts debit what was paid to them, and a returned cheque debits
+ * what was already paid out on it plus the chargeback fee. Payouts made by
+ * allocating a deposit aren't listed separately since the deposit already is.
+ * The opening balance carries everything dated before the range.
+ */
+
+import {
+  type ChequeReturn,
+  type ChequeTransaction,
+  type Customer,
+  type CustomerDeposit,
+  type CustomerStatement,
+  type CustomerStatementLine,
+  type StatementPeriod,
+  type TransactionPayment
+} from "@shared/schema";
+import { TRANSACTION_STATUS_LABELS } from "@shared/transaction-status";
+import { fromCents, toCents } from "./allocation";
+import { toDateString } from "./fee-schedules";
+import { formatAmount, renderPdfReport } from "./pdf";
+
+export interface CustomerStatementActivity {
+  transactions: ChequeTransaction[]; // The customer's cheques, not in the trash
+  deposits: CustomerDeposit[];
+  payouts: TransactionPayment[]; // Payouts on those cheques not made from a deposit
+  returns: ChequeReturn[];
+}
+
+// Same-day entries list credits before debits
+const KIND_ORDER: Record<CustomerStatementLine['kind'], number> = { cheque: 0, deposit: 1, payout: 2, return: 3 };
+
+type StatementEntry = Omit<CustomerStatementLine, 'credit' | 'debit' | 'balance'> & {
+  id: number;
+  credit: number; // In cents
+  debit: number;
+};
+
+/**
+ * Build a customer's statement for a date range
+ * @param customer The customer
+ * @param activity Everything recorded for the customer, whatever its date
+ * @param period The first and last day covered
+ */
+export function buildCustomerStatement(
+  customer: Customer,
+  activity: CustomerStatementActivity,
+  period: StatementPeriod
+): CustomerStatement {
+  const chequeNumbers = new Map(activity.transactions.map(t => [t.transaction_id, t.cheque_number]));
+  const entries: StatementEntry[] = [];
+
+  // Void cheques never earned the customer anything
+  for (const transaction of activity.transactions.filter(t => t.status !== 'void')) {
+    entries.push({
+      id: transaction.transaction_id,
+      date: toDateString(transaction.date ?? transaction.created_at),
+      kind: 'cheque',
+      reference: transaction.cheque_number,
+      description: [
+        `Cheque (${TRANSACTION_STATUS_LABELS[transaction.status ?? 'pending']})`,
+        transaction.drawer_bank
+      ].filter(Boolean).join(" - "),
+      transaction_id: transaction.transaction_id,
+      cheque_amount: fromCents(toCents(transaction.cheque_amount)),
+      customer_fee: fromCents(toCents(transaction.customer_fee)),
+      credit: toCents(transaction.net_payable_to_customer),
+      debit: 0
+    });
+  }
+
+  for (const deposit of activity.deposits) {
+    entries.push({
+      id: deposit.deposit_id,
+      date: toDateString(deposit.date ?? deposit.created_at),
+      kind: 'deposit',
+      reference: `Deposit #${deposit.deposit_id}`,
+      description: deposit.notes || "Deposit to customer",
+      transaction_id: null,
+      cheque_amount: null,
+      customer_fee: null,
+      credit: 0,
+      debit: toCents(deposit.amount)
+    });
+  }
+
+  for (const payout of activity.payouts) {
+    const chequeNumber = chequeNumbers.get(payout.transaction_id);
+    entries.push({
+      id: payout.payment_id,
+      date: toDateString(payout.date ?? payout.created_at),
+      kind: 'payout',
+      reference: chequeNumber ?? `#${payout.transaction_id}`,
+      description: [`Payout${payout.method ? ` (${payout.method})` : ""}`, payout.note].filter(Boolean).join(" - "),
+      transaction_id: payout.transaction_id,
+      cheque_amount: null,
+      customer_fee: null,
+      credit: 0,
+      debit: toCents(payout.amount)
+    });
+  }
+
+  for (const chequeReturn of activity.returns) {
+    const chequeNumber = chequeNumbers.get(chequeReturn.transaction_id);
+    if (chequeNumber === undefined) continue;
+    entries.push({
+      id: chequeReturn.return_id,
+      date: toDateString(chequeReturn.return_date),
+      kind: 'return',
+      reference: chequeNumber,
+      description: [
+        `Returned cheque: ${chequeReturn.reason}`,
+        toCents(chequeReturn.chargeback_fee) > 0 ? `incl. ${formatAmount(chequeReturn.chargeback_fee)} chargeback fee` : null
+      ].filter(Boolean).join(" - "),
+      transaction_id: chequeReturn.transaction_id,
+      cheque_amount: null,
+      customer_fee: null,
+      credit: 0,
+      debit: toCents(chequeReturn.customer_debt) + toCents(chequeReturn.chargeback_fee)
+    });
+  }
+
+  entries.sort((a, b) =>
+    a.date.localeCompare(b.date) || KIND_ORDER[a.kind] - KIND_ORDER[b.kind] || a.id - b.id
+  );
+
+  let balance = 0;
+  for (const entry of entries.filter(e => e.date < period.start_date)) {
+    balance += entry.credit - entry.debit;
+  }
+  const openingBalance = balance;
+
+  const inRange = entries.filter(e => e.date >= period.start_date && e.date <= period.end_date);
+  const chequeIds = new Set(inRange.filter(e => e.kind === 'cheque').map(e => e.transaction_id));
+  const cheques = activity.transactions.filter(t => chequeIds.has(t.transaction_id));
+  const sumOf = (kind: CustomerStatementLine['kind'], field: 'credit' | 'debit') =>
+    fromCents(inRange.filter(e => e.kind === kind).reduce((sum, e) => sum + e[field], 0));
+
+  const lines: CustomerStatementLine[] = inRange.map(({ id, credit, debit, ...entry }) => {
+    balance += credit - debit;
+    return { ...entry, credit: fromCents(credit), debit: fromCents(debit), balance: fromCents(balance) };
+  });
+
+  return {
+    customer,
+    start_date: period.start_date,
+    end_date: period.end_date,
+    opening_balance: fromCents(openingBalance),
+    closing_balance: fromCents(balance),
+    lines,
+    totals: {
+      cheque_count: cheques.length,
+      cheque_amount: fromCents(cheques.reduce((sum, t) => sum + toCents(t.cheque_amount), 0)),
+      customer_fees: fromCents(cheques.reduce((sum, t) => sum + toCents(t.customer_fee), 0)),
+      credits: sumOf('cheque', 'credit'),
+      deposits: sumOf('deposit', 'debit'),
+      payouts: sumOf('payout', 'debit'),
+      returns: sumOf('return', 'debit')
+    }
+  };
+}
+
+/**
+ * The file name a statement is downloaded as
+ * @param statement The statement
+ */
+export function customerStatementFileName(statement: CustomerStatement): string {
+  const name = statement.customer.customer_name.replace(/[^A-Za-z0-9]+/g, "-").replace(/^-|-$/g, "") || "customer";
+  return `statement-${name}-${statement.start_date}-to-${statement.end_date}.pdf`;
+}
+
+// Describe a balance from the customer's side
+function balanceLabel(balance: string): string {
+  const cents = toCents(balance);
+  if (cents === 0) return formatAmount(0);
+  return cents > 0 ? `${formatAmount(balance)} owed to customer` : `${formatAmount(-cents / 100)} owed by customer`;
+}
+
+/**
+ * Render a statement as a branded PDF
+ * @param statement The statement
+ * @returns The PDF file
+ */
+export async function renderCustomerStatementPdf(statement: CustomerStatement): Promise<Uint8Array> {
+  const { customer, totals } = statement;
+  const amountOrBlank = (value: string | null) => value === null || toCents(value) === 0 ? "" : formatAmount(value);
+
+  return renderPdfReport({
+    title: "Customer Statement",
+    subtitle: customer.customer_name,
+    details: [
+      ["Customer", `${customer.customer_name} (#${customer.customer_id})`],
+      ...(customer.contact_info ? [["Contact", customer.contact_info] as [string, string]] : []),
+      ["Period", `${statement.start_date} to ${statement.end_date}`],
+      ["Fee rate", `${customer.fee_percentage}%`]
+    ],
+    summary: [
+      ["Opening balance", formatAmount(statement.opening_balance)],
+      ["Cheques", `${totals.cheque_count} for ${formatAmount(totals.cheque_amount)}`],
+      ["Fees", formatAmount(totals.customer_fees)],
+      ["Net credited", formatAmount(totals.credits)],
+      ["Deposits", formatAmount(totals.deposits)],
+      ["Payouts", formatAmount(totals.payouts)],
+      ["Returned cheques", formatAmount(totals.returns)],
+      ["Closing balance", formatAmount(statement.closing_balance)]
+    ],
+    tables: [{
+      heading: "Activity",
+      columns: [
+        { header: "Date", width: 9 },
+        { header: "Reference", width: 12 },
+        { header: "Description", width: 27 },
+        { header: "Cheque amount", width: 11, align: 'right' },
+        { header: "Fee", width: 9, align: 'right' },
+        { header: "Credit", width: 11, align: 'right' },
+        { header: "Debit", width: 11, align: 'right' },
+        { header: "Balance", width: 12, align: 'right' }
+      ],
+      rows: [
+        [statement.start_date, "", "Opening balance", "", "", "", "", formatAmount(statement.opening_balance)],
+        ...statement.lines.map(line => [
+          line.date,
+          line.reference,
+          line.description,
+          amountOrBlank(line.cheque_amount),
+          amountOrBlank(line.customer_fee),
+          amountOrBlank(line.credit),
+          amountOrBlank(line.debit),
+          formatAmount(line.balance)
+        ])
+      ],
+      totals: [
+        statement.end_date, "", "Closing balance",
+        formatAmount(totals.cheque_amount),
+        formatAmount(totals.customer_fees),
+        formatAmount(totals.credits),
+        formatAmount(fromCents(toCents(totals.deposits) + toCents(totals.payouts) + toCents(totals.returns))),
+        formatAmount(statement.closing_balance)
+      ]
+    }],
+    notes: [
+      `Closing balance: ${balanceLabel(statement.closing_balance)}.`,
+      "Credits are cheque amounts less fees. Debits are deposits and payouts to the customer, and amounts owed back on returned cheques."
+    ]
+  });
+}
@@ -0,0 +1,113 @@
+/**
+ * Detection of cheques that have already been entered, shared by the storage
+ * implementations and run before a transaction is created from the web form,
+ * the AI assistant or the Telegram bot.
+ */
+
+import { type ChequeTransaction, type DuplicateChequeCheck, type DuplicateChequeMatch } from "@shared/schema";
+import { toCents } from "./allocation";
+
+// Cheques with the same customer and amount this many days apart are flagged
+// even when the cheque number differs (likely mistyped)
+export const DUPLICATE_DATE_WINDOW_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Normalize a cheque number for comparison ("000123", "123 ", "12-3" all match "123")
+ * @param chequeNumber The cheque number as entered
+ */
+export function normalizeChequeNumber(chequeNumber: string | null | undefined): string {
+  return (chequeNumber || "").replace(/[^A-Za-z0-9]/g, "").toUpperCase().replace(/^0+/, "");
+}
+
+function normalizeBank(bank: string | null | undefined): string {
+  return (bank || "").trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function toTime(date: string | Date | null | undefined): number | null {
+  if (!date) return null;
+  const time = new Date(date).getTime();
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * Compare a new cheque with an existing transaction
+ * @param candidate The cheque about to be entered
+ * @param existing An existing transaction, or another cheque being entered alongside it
+ * @returns The reasons it looks like the same cheque, or null if it doesn't
+ */
+export function matchDuplicate(
+  candidate: DuplicateChequeCheck,
+  existing: Pick<ChequeTransaction, 'status' | 'drawer_bank' | 'cheque_number' | 'cheque_amount' | 'customer_id' | 'date'>
+): string[] | null {
+  // Voided entries are allowed to be entered again
+  if (existing.status === "void") return null;
+
+  const candidateBank = normalizeBank(candidate.drawer_bank);
+  const existingBank = normalizeBank(existing.drawer_bank);
+  const bothBanksKnown = candidateBank !== "" && existingBank !== "";
+
+  const sameNumber = normalizeChequeNumber(candidate.cheque_number) !== "" &&
+    normalizeChequeNumber(candidate.cheque_number) === normalizeChequeNumber(existing.cheque_number);
+  const sameAmount = toCents(candidate.cheque_amount) === toCents(existing.cheque_amount);
+  const sameCustomer = candidate.customer_id === existing.customer_id;
+  const sameBank = bothBanksKnown && candidateBank === existingBank;
+
+  // Same cheque number from two different banks is two different cheques
+  if (bothBanksKnown && !sameBank) return null;
+
+  const candidateTime = toTime(candidate.date) ?? Date.now();
+  const existingTime = toTime(existing.date);
+  const withinWindow = existingTime === null ||
+    Math.abs(candidateTime - existingTime) <= DUPLICATE_DATE_WINDOW_DAYS * DAY_MS;
+
+  const isDuplicate = sameNumber
+    ? sameAmount || sameCustomer
+    : sameAmount && sameCustomer && withinWindow;
+
+  if (!isDuplicate) return null;
+
+  const reasons: string[] = [];
+  if (sameNumber) reasons.push("Same cheque number");
+  if (sameAmount) reasons.push("Same amount");
+  if (sameCustomer) reasons.push("Same customer");
+  if (sameBank) reasons.push("Same drawer bank");
+  if (withinWindow && existingTime !== null) reasons.push(`Dated within ${DUPLICATE_DATE_WINDOW_DAYS} days`);
+  return reasons;
+}
+
+/**
+ * Find the transactions that look like the same cheque, strongest matches first
+ * @param candidate The cheque about to be entered
+ * @param transactions The transactions to compare against
+ */
+export function findDuplicateCheques(candidate: DuplicateChequeCheck, transactions: ChequeTransaction[]): DuplicateChequeMatch[] {
+  const matches: DuplicateChequeMatch[] = [];
+
+  for (const transaction of transactions) {
+    const reasons = matchDuplicate(candidate, transaction);
+    if (reasons) {
+      matches.push({ transaction, reasons });
+    }
+  }
+
+  return matches.sort((a, b) => b.reasons.length - a.reasons.length || b.transaction.transaction_id - a.transaction.transaction_id);
+}
+
+/**
+ * Plain text warning listing the matching transactions, for the chat channels
+ * @param matches The duplicate matches
+ */
+export function formatDuplicateWarning(matches: DuplicateChequeMatch[]): string {
+  const lines = matches.slice(0, 5).map(({ transaction, reasons }) => {
+    const date = transaction.date ? new Date(transaction.date.toString()).toLocaleDateString() : "no date";
+    return `- Transaction #${transaction.transaction_id}: cheque #${transaction.cheque_number}, $${transaction.cheque_amount}, ${date}, status ${transaction.status || "pending"} (${reasons.join(", ")})`;
+  });
+
+  if (matches.length > 5) {
+    lines.push(`- ...and ${matches.length - 5} more`);
+  }
+
+  return `⚠️ This cheque may already have been entered:\n${lines.join("\n")}`;
+}
@@ -0,0 +1,133 @@
+/**
+ * Recalculation of stored fees after a customer's or vendor's rates are
+ * corrected, shared by the storage implementations.
+ *
+ * Transactions keep the fees they were saved with until an admin recalculates
+ * them. The preview and the applied recalculation are built the same way, so
+ * what gets applied is what was previewed.
+ */
+
+import {
+  type ChequeTransaction,
+  type FeeRecalculationLine,
+  type FeeRecalculationPreview,
+  type FeeRecalculationRequest,
+  type InsertTransaction,
+  type TransactionFeeValues
+} from "@shared/schema";
+import { formatCents, parseCents } from "@shared/fee-engine";
+import { FeeRuleError } from "./fee-rules";
+import { toDateString } from "./fee-schedules";
+
+// Returned cheques have had their fees reversed and void ones never earned any
+const FROZEN_STATUSES = ['returned', 'void'];
+
+const FEE_FIELDS: (keyof TransactionFeeValues)[] = [
+  'customer_fee',
+  'net_payable_to_customer',
+  'vendor_fee',
+  'amount_to_receive_from_vendor',
+  'profit'
+];
+
+/**
+ * Whether a transaction keeps the fees it has, whatever else is edited
+ * @param transaction The transaction
+ */
+export function hasFrozenFees(transaction: Pick<ChequeTransaction, 'status'>): boolean {
+  return FROZEN_STATUSES.includes(transaction.status || 'pending');
+}
+
+/**
+ * Make sure an edit to a returned or void cheque leaves alone everything its
+ * fees depend on. Fields sent back with their stored values don't count.
+ * @param existing The transaction as stored
+ * @param changes The update
+ * @throws FeeRuleError if the update changes the amount, parties, date or fee overrides
+ */
+export function assertFeesUnchanged(existing: ChequeTransaction, changes: Partial<InsertTransaction>): void {
+  const overrideChanged = (next: string | null | undefined, current: string | null) =>
+    next !== undefined && (next === null || current === null ? next !== current : parseCents(next) !== parseCents(current));
+
+  const changed =
+    (changes.cheque_amount !== undefined && parseCents(changes.cheque_amount) !== parseCents(existing.cheque_amount)) ||
+    (changes.customer_id !== undefined && changes.customer_id !== existing.customer_id) ||
+    (changes.vendor_id !== undefined && changes.vendor_id !== existing.vendor_id) ||
+    (changes.date !== undefined && toDateString(changes.date) !== toDateString(existing.date)) ||
+    overrideChanged(changes.customer_fee_override, existing.customer_fee_override) ||
+    overrideChanged(changes.vendor_fee_override, existing.vendor_fee_override);
+
+  if (changed) {
+    throw new FeeRuleError(
+      `Cheque #${existing.cheque_number} is ${existing.status}, so its amount, customer, vendor, date and fee overrides can't be changed`
+    );
+  }
+}
+
+/**
+ * Check whether a transaction is picked up by a recalculation
+ * @param request The party and date range being recalculated
+ * @param transaction The transaction
+ */
+export function isRecalculable(request: FeeRecalculationRequest, transaction: ChequeTransaction): boolean {
+  const belongsToParty = request.party === 'customer'
+    ? String(transaction.customer_id) === request.party_id
+    : transaction.vendor_id === request.party_id;
+  if (!belongsToParty || hasFrozenFees(transaction)) {
+    return false;
+  }
+
+  const date = toDateString(transaction.date);
+  return date >= request.date_from && date <= request.date_to;
+}
+
+/**
+ * The fee columns currently stored on a transaction
+ * @param transaction The transaction
+ */
+export function storedFees(transaction: ChequeTransaction): TransactionFeeValues {
+  return {
+    customer_fee: transaction.customer_fee,
+    net_payable_to_customer: transaction.net_payable_to_customer,
+    vendor_fee: transaction.vendor_fee,
+    amount_to_receive_from_vendor: transaction.amount_to_receive_from_vendor,
+    profit: transaction.profit
+  };
+}
+
+/**
+ * Compare each transaction's stored fees with the recalculated ones
+ * @param recalculated Each transaction with the fees its rules give today
+ * @returns Per-transaction before/after numbers and the total profit impact
+ */
+export function buildRecalculationPreview(
+  recalculated: { transaction: ChequeTransaction; after: TransactionFeeValues }[]
+): FeeRecalculationPreview {
+  const lines: FeeRecalculationLine[] = recalculated
+    .sort((a, b) => toDateString(a.transaction.date).localeCompare(toDateString(b.transaction.date)) ||
+      a.transaction.transaction_id - b.transaction.transaction_id)
+    .map(({ transaction, after }) => {
+      const before = storedFees(transaction);
+      return {
+        transaction_id: transaction.transaction_id,
+        cheque_number: transaction.cheque_number,
+        date: transaction.date ? toDateString(transaction.date) : null,
+        cheque_amount: transaction.cheque_amount,
+        before,
+        after,
+        changed: FEE_FIELDS.some(field => parseCents(before[field]) !== parseCents(after[field]))
+      };
+    });
+
+  const profitBefore = lines.reduce((sum, line) => sum + parseCents(line.before.profit), 0);
+  const profitAfter = lines.reduce((sum, line) => sum + parseCents(line.after.profit), 0);
+
+  return {
+    lines,
+    transaction_count: lines.length,
+    changed_count: lines.filter(line => line.changed).length,
+    profit_before: formatCents(profitBefore),
+    profit_after: formatCents(profitAfter),
+    profit_impact: formatCents(profitAfter - profitBefore)
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Fee rules applied to transactions by the storage implementations and the
+ * chat channels. The arithmetic lives in the shared fee engine so the client
+ * previews agree with what gets stored.
+ *
+ * A rule is the fee schedule in force on the transaction date: a base
+ * percentage, optional amount brackets, a flat fee added on top and a minimum
+ * fee. A transaction can replace either computed fee with an override, which
+ * must come with a reason.
+ */
+
+import { type ChequeTransaction, type FeeRule, type TransactionFeeValues } from "@shared/schema";
+import { calculateFeeBreakdown, parseCents, type FeeBreakdown, type FeeOverrides } from "@shared/fee-engine";
+
+/**
+ * Raised when fees can't be worked out from the given values so routes can
+ * answer with a 400
+ */
+export class FeeRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FeeRuleError";
+  }
+}
+
+/**
+ * Check that an overridden fee has a reason and fits in the cheque amount
+ * @param amount The cheque amount
+ * @param overrides The transaction's overrides
+ * @throws FeeRuleError if an override is missing a reason or exceeds the amount
+ */
+export function assertFeeOverrides(amount: string | number, overrides: FeeOverrides): void {
+  const overridden = [overrides.customer_fee_override, overrides.vendor_fee_override]
+    .filter((value): value is string => value !== null && value !== undefined);
+
+  if (overridden.length > 0 && !overrides.fee_override_reason?.trim()) {
+    throw new FeeRuleError("A reason is required when overriding a fee");
+  }
+
+  if (overridden.some(value => parseCents(value) > parseCents(amount))) {
+    throw new FeeRuleError("A fee override cannot exceed the cheque amount");
+  }
+}
+
+/**
+ * Work out the fee columns stored on a transaction
+ * @param amount The cheque amount
+ * @param customerRule The customer's rule on the transaction date
+ * @param vendorRule The vendor's rule on the transaction date
+ * @param overrides Fees entered in place of the computed ones
+ * @throws FeeRuleError if the overrides are invalid
+ */
+export function calculateTransactionFees(
+  amount: string | number,
+  customerRule: FeeRule,
+  vendorRule: FeeRule,
+  overrides: FeeOverrides = {}
+): TransactionFeeValues {
+  assertFeeOverrides(amount, overrides);
+
+  const breakdown = calculateFeeBreakdown(amount, customerRule, vendorRule, overrides);
+  return {
+    customer_fee: breakdown.customer_fee,
+    net_payable_to_customer: breakdown.net_payable_to_customer,
+    vendor_fee: breakdown.vendor_fee,
+    amount_to_receive_from_vendor: breakdown.amount_to_receive_from_vendor,
+    profit: breakdown.profit
+  };
+}
+
+/**
+ * Check whether an update touches anything the fees depend on
+ * @param changes The fields being updated
+ */
+export function affectsFees(changes: Partial<Pick<ChequeTransaction,
+  'cheque_amount' | 'customer_id' | 'vendor_id' | 'date' | 'customer_fee_override' | 'vendor_fee_override'
+>>): boolean {
+  return !!(changes.cheque_amount || changes.customer_id || changes.vendor_id || changes.date) ||
+    changes.customer_fee_override !== undefined ||
+    changes.vendor_fee_override !== undefined;
+}
+
+/**
+ * Plain text fee breakdown for the chat channels
+ * @param breakdown The breakdown from the fee engine
+ */
+export function formatFeeBreakdown(breakdown: Pick<FeeBreakdown,
+  'customer_fee' | 'net_payable_to_customer' | 'vendor_fee' | 'amount_to_receive_from_vendor' | 'profit'
+> & Partial<Pick<FeeBreakdown, 'customer_fee_source' | 'vendor_fee_source'>>): string {
+  const overridden = (source?: string) => source === "override" ? " (override)" : "";
+  return `Customer Fee: $${breakdown.customer_fee}${overridden(breakdown.customer_fee_source)}
+Net Payable to Customer: $${breakdown.net_payable_to_customer}
+Vendor Fee: $${breakdown.vendor_fee}${overridden(breakdown.vendor_fee_source)}
+Amount from Vendor: $${breakdown.amount_to_receive_from_vendor}
+Profit: $${breakdown.profit}`;
+}
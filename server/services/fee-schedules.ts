@@ -0,0 +1,196 @@
+/**
+ * Effective-dated fee schedules for customers and vendors, shared by the
+ * storage implementations.
+ *
+ * A party's schedules never overlap. Adding a rate change closes (or splits)
+ * the rate in force when it starts, so the timeline stays continuous and past
+ * transactions keep the rate they were dealt at.
+ */
+
+import { type FeeRule, type FeeSchedule } from "@shared/schema";
+import { percentageRule } from "@shared/fee-engine";
+
+// Start of the initial schedule created with a customer or vendor, early
+// enough to cover any back-dated transaction
+export const FEE_SCHEDULE_START = "2000-01-01";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Raised when a rate change can't be applied to the timeline so routes can
+ * answer with a 400
+ */
+export class FeeScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FeeScheduleError";
+  }
+}
+
+export interface ScheduleAdjustment {
+  schedule_id: number;
+  effective_to: string | null;
+}
+
+export interface ScheduleContinuation extends FeeRule {
+  effective_from: string;
+  effective_to: string | null;
+}
+
+export interface ScheduleAdditionPlan {
+  effective_to: string | null;
+  adjustments: ScheduleAdjustment[];
+  continuation?: ScheduleContinuation;
+}
+
+export interface ScheduleRemovalPlan {
+  adjustments: ScheduleAdjustment[];
+}
+
+/**
+ * Format a date as YYYY-MM-DD (today when not given)
+ * @param date The date to format
+ */
+export function toDateString(date?: string | Date | null): string {
+  if (typeof date === "string" && /^\d{4}-\d{2}-\d{2}/.test(date)) {
+    return date.slice(0, 10);
+  }
+  const value = date ? new Date(date) : new Date();
+  return isNaN(value.getTime()) ? new Date().toISOString().split('T')[0] : value.toISOString().split('T')[0];
+}
+
+function shiftDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split('T')[0];
+}
+
+/**
+ * The day before a YYYY-MM-DD date
+ * @param date The date
+ */
+export function dayBefore(date: string): string {
+  return shiftDays(date, -1);
+}
+
+/**
+ * The day after a YYYY-MM-DD date
+ * @param date The date
+ */
+export function dayAfter(date: string): string {
+  return shiftDays(date, 1);
+}
+
+/**
+ * Check whether a schedule is in force on a date
+ * @param schedule The schedule
+ * @param date The date (YYYY-MM-DD)
+ */
+export function scheduleCovers(schedule: Pick<FeeSchedule, 'effective_from' | 'effective_to'>, date: string): boolean {
+  return schedule.effective_from <= date && (schedule.effective_to === null || schedule.effective_to >= date);
+}
+
+/**
+ * The fee rule in force on a date
+ * @param schedules The party's schedules
+ * @param date The transaction date
+ * @param fallback Rate used when no schedule covers the date (the party's fee_percentage)
+ */
+export function ruleOnDate(schedules: FeeSchedule[], date: string | Date | null | undefined, fallback: string | number): FeeRule {
+  const day = toDateString(date);
+  const schedule = schedules.find(s => scheduleCovers(s, day));
+  return schedule ? ruleOf(schedule) : percentageRule(fallback);
+}
+
+/**
+ * The fee rule part of a schedule
+ * @param schedule The schedule
+ */
+export function ruleOf(schedule: FeeRule): FeeRule {
+  return {
+    fee_percentage: schedule.fee_percentage,
+    flat_fee: schedule.flat_fee,
+    min_fee: schedule.min_fee,
+    brackets: schedule.brackets,
+    bracket_mode: schedule.bracket_mode
+  };
+}
+
+function overlaps(aFrom: string, aTo: string | null, bFrom: string, bTo: string | null): boolean {
+  return (bTo === null || aFrom <= bTo) && (aTo === null || bFrom <= aTo);
+}
+
+/**
+ * Work out how adding a rate change affects a party's existing schedules
+ * @param existing The party's current schedules
+ * @param change The new schedule's dates
+ * @returns The new schedule's effective_to and the changes to existing schedules
+ * @throws FeeScheduleError if the change collides with another scheduled change
+ */
+export function planScheduleAddition(
+  existing: FeeSchedule[],
+  change: { effective_from: string; effective_to?: string | null }
+): ScheduleAdditionPlan {
+  const from = change.effective_from;
+  let to = change.effective_to ?? null;
+  const adjustments: ScheduleAdjustment[] = [];
+  let continuation: ScheduleContinuation | undefined;
+
+  const sorted = [...existing].sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+
+  // An open-ended change runs until the next scheduled change
+  if (to === null) {
+    const next = sorted.find(s => s.effective_from > from);
+    if (next) {
+      to = dayBefore(next.effective_from);
+    }
+  }
+
+  for (const schedule of sorted) {
+    if (!overlaps(from, to, schedule.effective_from, schedule.effective_to)) continue;
+
+    // The rate in force when the change starts ends the day before; if it ran
+    // past the change, it resumes afterwards
+    if (schedule.effective_from < from) {
+      adjustments.push({ schedule_id: schedule.schedule_id, effective_to: dayBefore(from) });
+      if (to !== null && (schedule.effective_to === null || schedule.effective_to > to)) {
+        continuation = {
+          ...ruleOf(schedule),
+          effective_from: dayAfter(to),
+          effective_to: schedule.effective_to
+        };
+      }
+      continue;
+    }
+
+    throw new FeeScheduleError(
+      `Overlaps the ${schedule.fee_percentage}% rate effective from ${schedule.effective_from}${schedule.effective_to ? ` to ${schedule.effective_to}` : ""}`
+    );
+  }
+
+  return { effective_to: to, adjustments, continuation };
+}
+
+/**
+ * Work out how removing an upcoming rate change affects the other schedules
+ * @param existing The party's current schedules
+ * @param scheduleId The schedule to remove
+ * @param today Today's date (YYYY-MM-DD)
+ * @returns The changes to the remaining schedules
+ * @throws FeeScheduleError if the schedule has already taken effect
+ */
+export function planScheduleRemoval(existing: FeeSchedule[], scheduleId: number, today: string = toDateString()): ScheduleRemovalPlan {
+  const target = existing.find(s => s.schedule_id === scheduleId);
+  if (!target) {
+    throw new FeeScheduleError("Fee schedule not found");
+  }
+
+  // Rates that have been in force are history that recalculations rely on
+  if (target.effective_from <= today) {
+    throw new FeeScheduleError("Only upcoming rate changes can be removed");
+  }
+
+  // The previous rate takes over the removed period
+  const previous = existing.find(s => s.effective_to === dayBefore(target.effective_from));
+  return {
+    adjustments: previous ? [{ schedule_id: previous.schedule_id, effective_to: target.effective_to }] : []
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Where uploaded files such as cheque images are kept.
+ *
+ * Everything goes through the FileStore interface, so another backend (S3,
+ * Supabase storage, ...) can be added to createFileStore() without touching
+ * the callers. Files are addressed by a key made up of "/"-separated segments.
+ */
+
+import fs from "fs";
+import path from "path";
+
+export interface FileStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Files kept on local disk under a root directory
+ */
+export class LocalFileStore implements FileStore {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  // Resolve a key to a path, refusing keys that would escape the root directory
+  private pathOf(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid file key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.pathOf(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return await fs.promises.readFile(this.pathOf(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.pathOf(key), { force: true });
+  }
+}
+
+/**
+ * The file store picked by FILE_STORE (only "local" for now), with local
+ * files under FILE_STORE_PATH or ./uploads
+ */
+export function createFileStore(): FileStore {
+  const backend = process.env.FILE_STORE || "local";
+  switch (backend) {
+    case "local":
+      return new LocalFileStore(process.env.FILE_STORE_PATH || "uploads");
+    default:
+      throw new Error(`Unknown file store: ${backend}`);
+  }
+}
+
+export const fileStore = createFileStore();
@@ -0,0 +1,45 @@
+/**
+ * Helpers for the transaction payment ledger. The paid_to_customer,
+ * received_from_vendor and profit_withdrawn columns on cheque_transactions
+ * are derived totals of the transaction_payments events of each type.
+ */
+
+import { type TransactionPayment, type TransactionPaymentType } from "@shared/schema";
+import { toCents, fromCents } from "./allocation";
+
+/**
+ * Which cheque_transactions column each payment type rolls up into
+ */
+export const PAYMENT_TYPE_COLUMNS = {
+  payout: "paid_to_customer",
+  vendor_receipt: "received_from_vendor",
+  profit_withdrawal: "profit_withdrawn"
+} as const satisfies Record<TransactionPaymentType, string>;
+
+export type PaymentTotals = {
+  paid_to_customer: string;
+  received_from_vendor: string;
+  profit_withdrawn: string;
+};
+
+/**
+ * Total a transaction's payment events into the three derived columns
+ * @param payments The payment events of a single transaction
+ */
+export function summarizePayments(payments: Pick<TransactionPayment, "type" | "amount">[]): PaymentTotals {
+  const cents: Record<keyof PaymentTotals, number> = {
+    paid_to_customer: 0,
+    received_from_vendor: 0,
+    profit_withdrawn: 0
+  };
+
+  for (const payment of payments) {
+    cents[PAYMENT_TYPE_COLUMNS[payment.type]] += toCents(payment.amount);
+  }
+
+  return {
+    paid_to_customer: fromCents(cents.paid_to_customer),
+    received_from_vendor: fromCents(cents.received_from_vendor),
+    profit_withdrawn: fromCents(cents.profit_withdrawn)
+  };
+}
@@ -1,11 +1,21 @@
 import OpenAI from "openai";
 import { storage } from "../storage";
-import { InsertTransaction, TransactionWithDetails, Customer, Vendor, userConversations } from "@shared/schema";
+import { InsertTransaction, TransactionWithDetails, ChequeTransaction, Customer, Vendor, userConversations, type AuditActor, type CreateTransactionOptions, type CustomerDepositWithAllocations } from "@shared/schema";
 import fs from "fs";
 import path from "path";
 import os from "os";
 import { db } from "../db";
 import { eq } from "drizzle-orm";
+import { TRANSACTION_STATUS_LABELS, TRANSACTION_STATUSES, editableTransitions } from "@shared/transaction-status";
+import { StatusTransitionError, describeStatusEdits } from "./transaction-status";
+import { formatDuplicateWarning } from "./duplicate-cheques";
+import { formatFeeBreakdown } from "./fee-rules";
+import { linkChatAttachments } from "./attachments";
+import { canOverrideLimits, CreditLimitError } from "./credit-limits";
+import { AccountingPeriodError } from "./accounting-periods";
+import { approvalDetails } from "./approvals";
+import { formatVendorRecommendations } from "./vendor-routing";
+import { calculateFeeBreakdown, type FeeBreakdown, type FeeOverrides } from "@shared/fee-engine";
 
 // Initialize OpenAI with the API key from environment variables
 const openai = new OpenAI({ 
@@ -23,6 +33,7 @@ You can use either slash commands or natural language:
   * You can enter customer names or IDs during the deposit process
 - \`/find transaction\` or "find transaction details"
 - \`/modify transaction\` or "modify cheque number 00010572" or "change the amount of cheque 12345"
+- "note on cheque 12345: customer asked to hold payout" to add a note to a transaction
 - \`/summary\` or "show me a business summary" 
 - \`/help\` - Show this help message
 - \`/test\` - Enter test mode (commands will be processed but no changes will be saved to the database)
@@ -104,17 +115,260 @@ async function findVendorByNameOrId(vendorInput: string): Promise<Vendor | undef
     vendor.vendor_name.toLowerCase().includes(vendorInput.toLowerCase()));
 }
 
+/**
+ * List the vendors recommended for a cheque, to go with the question asking for one
+ * @param cheque The cheque's customer, amount and drawer bank
+ * @returns The list, and the IDs of the listed vendors in order so one can be picked by number
+ */
+async function recommendChatVendors(
+  cheque: { customer_id: number; cheque_amount: string; drawer_bank?: string | null }
+): Promise<{ text: string; vendorIds: string[] }> {
+  try {
+    const recommendations = await storage.recommendVendors(cheque);
+    return {
+      text: formatVendorRecommendations(recommendations),
+      vendorIds: recommendations.filter(recommendation => recommendation.eligible).slice(0, 5).map(recommendation => recommendation.vendor_id)
+    };
+  } catch (error) {
+    console.error("Error recommending vendors:", error);
+    return { text: "", vendorIds: [] };
+  }
+}
+
+/**
+ * Find the vendor picked in a chat, by its number in the recommended list or by name or ID
+ * @param vendorInput What the user entered
+ * @param recommendedVendorIds The recommended vendors, in the order they were listed
+ */
+async function findChatVendor(vendorInput: string, recommendedVendorIds: string[] = []): Promise<Vendor | undefined> {
+  const pick = /^\d+$/.test(vendorInput.trim()) ? recommendedVendorIds[parseInt(vendorInput.trim()) - 1] : undefined;
+  return await findVendorByNameOrId(pick ?? vendorInput);
+}
+
+/**
+ * Why a vendor picked in a chat can't take the cheque under its routing rules
+ * @param vendorId The vendor
+ * @param cheque The cheque's customer, amount and drawer bank
+ * @returns The reasons; empty if the vendor can take it
+ */
+async function chatVendorIneligibility(
+  vendorId: string,
+  cheque: { customer_id: number; cheque_amount: string; drawer_bank?: string | null }
+): Promise<string[]> {
+  try {
+    const recommendations = await storage.recommendVendors(cheque);
+    return recommendations.find(recommendation => recommendation.vendor_id === vendorId)?.reasons ?? [];
+  } catch (error) {
+    console.error("Error checking vendor routing rules:", error);
+    return [];
+  }
+}
+
+/**
+ * Work out the fees a transaction would get, with the same engine storage uses
+ * @param transaction The transaction as it would be saved
+ * @returns The fee breakdown
+ */
+async function previewFees(
+  transaction: Pick<InsertTransaction, 'customer_id' | 'vendor_id' | 'cheque_amount' | 'date'> & FeeOverrides
+): Promise<FeeBreakdown> {
+  const rates = await storage.getFeeRates(transaction.customer_id, transaction.vendor_id, transaction.date);
+  return calculateFeeBreakdown(transaction.cheque_amount, rates.customer_rule, rates.vendor_rule, transaction);
+}
+
+/**
+ * Check whether the person chatting may override customer limits
+ * @param actor Who is chatting
+ */
+async function actorCanOverrideLimits(actor: AuditActor): Promise<boolean> {
+  if (actor.user_id === null) return false;
+  return canOverrideLimits(await storage.getUser(actor.user_id));
+}
+
+/**
+ * Explain a cheque that would go over its customer's limits, offering admins an override
+ * @param error The limit error
+ * @param canOverride Whether the person chatting may override it
+ */
+function formatLimitWarning(error: CreditLimitError, canOverride: boolean): string {
+  return canOverride
+    ? `⚠️ ${error.message}.
+
+Type "override limit" to create the transaction anyway or "cancel" to abort.`
+    : `⚠️ ${error.message}.
+
+Only an admin can create a cheque over a customer's limits, so the transaction was not created.`;
+}
+
+/**
+ * Send a new cheque for approval if a policy holds it back. Limits are checked
+ * first so they can still be overridden in the chat.
+ * @param newTransaction The transaction to create
+ * @param actor Who is chatting
+ * @param overrideLimits Whether an admin has overridden the customer's limits
+ * @returns A reply naming the approval request, or undefined to create the transaction
+ */
+async function holdTransactionForApproval(
+  newTransaction: InsertTransaction,
+  actor: AuditActor,
+  overrideLimits: boolean
+): Promise<string | undefined> {
+  const breaches = overrideLimits ? [] : await storage.checkCreditLimits(newTransaction);
+  if (breaches.length > 0) {
+    throw new CreditLimitError(breaches);
+  }
+  
+  const approval = await storage.submitForApproval(
+    'create',
+    approvalDetails('create', newTransaction, { ...newTransaction, override_limits: overrideLimits }),
+    actor
+  );
+  if (!approval) return undefined;
+  
+  // Imported here because the Telegram bot imports this module
+  const { notifyApprovers } = await import("./telegram");
+  notifyApprovers(approval).catch(error => console.error("Error notifying approvers:", error));
+  return `⏳ ${approval.summary} needs an admin's approval, so it was sent for approval as request #${approval.approval_id}. The transaction will be created once it is approved.`;
+}
+
+/**
+ * Let approvers know about the payouts held back when a deposit was allocated
+ * @param deposit The deposit as just created
+ * @returns A note naming the approval requests, or an empty string if there are none
+ */
+async function notifyHeldPayouts(deposit: CustomerDepositWithAllocations): Promise<string> {
+  const requests = deposit.pending_approval ?? [];
+  if (requests.length === 0) return "";
+  
+  // Imported here because the Telegram bot imports this module
+  const { notifyApprovers } = await import("./telegram");
+  for (const request of requests) {
+    notifyApprovers(request).catch(error => console.error("Error notifying approvers:", error));
+  }
+  return `\n\n⏳ These payouts need an admin's approval and will be made once approved:\n${requests.map(request => `${request.summary} (request #${request.approval_id})`).join("\n")}`;
+}
+
+/**
+ * Create a transaction collected by the /new transaction chat flow and report it back
+ * @param newTransaction The transaction to create
+ * @param state Current conversation state
+ * @param actor Who is chatting, recorded in the audit trail
+ * @returns Response message and updated state
+ */
+async function createChatTransaction(
+  newTransaction: InsertTransaction,
+  state: ConversationState[string],
+  actor: AuditActor,
+  options: CreateTransactionOptions = {}
+): Promise<CommandResult> {
+  try {
+    const fees = await previewFees(newTransaction);
+    let transaction;
+    if (state.testMode) {
+      // Limits are still checked so test runs show where a cheque would be stopped
+      const breaches = options.override_limits ? [] : await storage.checkCreditLimits(newTransaction);
+      if (breaches.length > 0) {
+        throw new CreditLimitError(breaches);
+      }
+      // In test mode, create a mock transaction but don't save to database
+      transaction = {
+        ...newTransaction,
+        transaction_id: Math.floor(1000 + Math.random() * 9000), // Random 4-digit ID
+        date: new Date().toISOString().split('T')[0],
+        status: "pending",
+        profit_amount: "0.00"
+      };
+      console.log("TEST MODE: Transaction simulated but not saved to database:", transaction);
+    } else {
+      // Normal mode - save to database, unless it has to be approved first
+      const heldBack = await holdTransactionForApproval(newTransaction, actor, !!options.override_limits);
+      if (heldBack) {
+        return {
+          response: heldBack,
+          updatedState: {
+            currentCommand: undefined,
+            pendingData: undefined,
+            step: undefined,
+            testMode: state.testMode // Preserve test mode flag
+          }
+        };
+      }
+      transaction = await storage.createTransaction(newTransaction, actor, options);
+    }
+
+    // Format response with transaction details
+    const responsePrefix = state.testMode ? "🧪 TEST MODE: " : "";
+    const responseSuffix = state.testMode ? 
+      "This is a simulated transaction and has NOT been saved to the database." : 
+      "The transaction has been added to the database. You can view it in the transactions list.";
+
+    return {
+      response: `${responsePrefix}Transaction created successfully!
+
+\`\`\`json
+{
+  "transaction_id": ${transaction.transaction_id},
+  "chequeNumber": "${transaction.cheque_number}",
+  "chequeAmount": "${transaction.cheque_amount}",
+  "customer_id": ${transaction.customer_id},
+  "vendor_id": "${transaction.vendor_id}",
+  "date": "${transaction.date ? new Date(transaction.date.toString()).toLocaleDateString() : 'N/A'}"
+}
+\`\`\`
+
+${formatFeeBreakdown(fees)}
+
+${responseSuffix}`,
+      updatedState: {
+        currentCommand: undefined,
+        pendingData: undefined,
+        step: undefined,
+        testMode: state.testMode // Preserve test mode flag
+      }
+    };
+  } catch (error) {
+    if (error instanceof CreditLimitError) {
+      const canOverride = await actorCanOverrideLimits(actor);
+      return {
+        response: formatLimitWarning(error, canOverride),
+        updatedState: canOverride ? {
+          ...state,
+          pendingData: { ...state.pendingData, newTransaction },
+          step: "confirmLimitOverride"
+        } : {
+          currentCommand: undefined,
+          pendingData: undefined,
+          step: undefined,
+          testMode: state.testMode // Preserve test mode flag
+        }
+      };
+    }
+    console.error("Error creating transaction:", error);
+    return {
+      response: "Error creating the transaction. Please try again later.",
+      updatedState: {
+        currentCommand: undefined,
+        pendingData: undefined,
+        step: undefined,
+        testMode: state.testMode // Preserve test mode flag
+      }
+    };
+  }
+}
+
 /**
  * Handle the /new transaction command
  * @param userMessage User's message
  * @param conversationId Conversation ID
  * @param state Current conversation state
+ * @param actor Who is chatting, recorded in the audit trail
  * @returns Response message and updated state
  */
 async function handleNewTransactionCommand(
   userMessage: string, 
   conversationId: string, 
-  state: ConversationState[string]
+  state: ConversationState[string],
+  actor: AuditActor
 ): Promise<{ response: string; updatedState: ConversationState[string] }> {
   // Initialize state if not exists
   if (!state.step) {
@@ -208,11 +462,20 @@ async function handleNewTransactionCommand(
         };
       }
 
+      const recommended = await recommendChatVendors({
+        customer_id: state.pendingData!.customerId!,
+        cheque_amount: amountNumber.toString()
+      });
+
       return {
-        response: "Finally, please provide the vendor name or ID:",
+        response: recommended.text
+          ? `${recommended.text}
+
+Finally, please provide the vendor name or ID${recommended.vendorIds.length > 0 ? ", or the number of a recommended vendor" : ""}:`
+          : "Finally, please provide the vendor name or ID:",
         updatedState: {
           ...state,
-          pendingData: { ...state.pendingData, amount: amountNumber.toString() },
+          pendingData: { ...state.pendingData, amount: amountNumber.toString(), recommendedVendorIds: recommended.vendorIds },
           step: "askVendorId"
         }
       };
@@ -228,7 +491,7 @@ async function handleNewTransactionCommand(
 
       // Verify vendor exists
       try {
-        const vendor = await findVendorByNameOrId(vendorInput);
+        const vendor = await findChatVendor(vendorInput, state.pendingData?.recommendedVendorIds);
         if (!vendor) {
           return {
             response: "Vendor not found. Please provide a valid vendor name or ID:",
@@ -239,72 +502,49 @@ async function handleNewTransactionCommand(
         // Store the vendor ID for transaction creation
         const vendorId = vendor.vendor_id;
 
-        // Create the transaction
-        try {
-          // Only include the specified fields as requested
-          const newTransaction: InsertTransaction = {
+        // A vendor whose routing rules rule the cheque out needs picking twice
+        if (state.pendingData?.ineligibleVendorId !== vendorId) {
+          const reasons = await chatVendorIneligibility(vendorId, {
             customer_id: state.pendingData!.customerId!,
-            cheque_number: state.pendingData!.chequeNumber!,
-            cheque_amount: state.pendingData!.amount!,
-            vendor_id: vendorId
-          };
+            cheque_amount: state.pendingData!.amount!
+          });
+          if (reasons.length > 0) {
+            return {
+              response: `⚠️ ${vendor.vendor_name} can't normally take this cheque: ${reasons.join("; ")}.
 
-          let transaction;
-          if (state.testMode) {
-            // In test mode, create a mock transaction but don't save to database
-            transaction = {
-              ...newTransaction,
-              transaction_id: Math.floor(1000 + Math.random() * 9000), // Random 4-digit ID
-              date: new Date().toISOString().split('T')[0],
-              status: "pending",
-              profit_amount: "0.00"
+Enter ${vendor.vendor_name} again to use it anyway, or choose another vendor:`,
+              updatedState: {
+                ...state,
+                pendingData: { ...state.pendingData, ineligibleVendorId: vendorId }
+              }
             };
-            console.log("TEST MODE: Transaction simulated but not saved to database:", transaction);
-          } else {
-            // Normal mode - save to database
-            transaction = await storage.createTransaction(newTransaction);
           }
+        }
 
-          // Format response with transaction details
-          const responsePrefix = state.testMode ? "🧪 TEST MODE: " : "";
-          const responseSuffix = state.testMode ? 
-            "This is a simulated transaction and has NOT been saved to the database." : 
-            "The transaction has been added to the database. You can view it in the transactions list.";
+        // Only include the specified fields as requested
+        const newTransaction: InsertTransaction = {
+          customer_id: state.pendingData!.customerId!,
+          cheque_number: state.pendingData!.chequeNumber!,
+          cheque_amount: state.pendingData!.amount!,
+          vendor_id: vendorId
+        };
 
+        // Ask for an explicit override before entering a cheque that looks like a duplicate
+        const duplicates = await storage.findDuplicateTransactions(newTransaction);
+        if (duplicates.length > 0) {
           return {
-            response: `${responsePrefix}Transaction created successfully!
+            response: `${formatDuplicateWarning(duplicates)}
 
-\`\`\`json
-{
-  "transaction_id": ${transaction.transaction_id},
-  "chequeNumber": "${transaction.cheque_number}",
-  "chequeAmount": "${transaction.cheque_amount}",
-  "customer_id": ${transaction.customer_id},
-  "vendor_id": "${transaction.vendor_id}",
-  "date": "${transaction.date ? new Date(transaction.date.toString()).toLocaleDateString() : 'N/A'}"
-}
-\`\`\`
-
-${responseSuffix}`,
-            updatedState: {
-              currentCommand: undefined,
-              pendingData: undefined,
-              step: undefined,
-              testMode: state.testMode // Preserve test mode flag
-            }
-          };
-        } catch (error) {
-          console.error("Error creating transaction:", error);
-          return {
-            response: "Error creating the transaction. Please try again later.",
+Type "override" to create the transaction anyway or "cancel" to abort.`,
             updatedState: {
-              currentCommand: undefined,
-              pendingData: undefined,
-              step: undefined,
-              testMode: state.testMode // Preserve test mode flag
+              ...state,
+              pendingData: { ...state.pendingData, vendorId, newTransaction },
+              step: "confirmDuplicate"
             }
           };
         }
+
+        return await createChatTransaction(newTransaction, state, actor);
       } catch (error) {
         console.error("Error verifying vendor:", error);
         return {
@@ -313,6 +553,50 @@ ${responseSuffix}`,
         };
       }
 
+    case "confirmDuplicate":
+      const overrideResponse = userMessage.trim().toLowerCase();
+      
+      if (overrideResponse === "override") {
+        return await createChatTransaction(state.pendingData!.newTransaction!, state, actor);
+      } else if (overrideResponse === "cancel" || overrideResponse === "no") {
+        return {
+          response: "Transaction creation cancelled. How can I help you?",
+          updatedState: {
+            currentCommand: undefined,
+            pendingData: undefined,
+            step: undefined,
+            testMode: state.testMode // Preserve test mode flag
+          }
+        };
+      } else {
+        return {
+          response: `Please type "override" to create the transaction anyway or "cancel" to abort.`,
+          updatedState: state
+        };
+      }
+
+    case "confirmLimitOverride":
+      const limitResponse = userMessage.trim().toLowerCase();
+      
+      if (limitResponse === "override limit") {
+        return await createChatTransaction(state.pendingData!.newTransaction!, state, actor, { override_limits: true });
+      } else if (limitResponse === "cancel" || limitResponse === "no") {
+        return {
+          response: "Transaction creation cancelled. How can I help you?",
+          updatedState: {
+            currentCommand: undefined,
+            pendingData: undefined,
+            step: undefined,
+            testMode: state.testMode // Preserve test mode flag
+          }
+        };
+      } else {
+        return {
+          response: `Please type "override limit" to create the transaction anyway or "cancel" to abort.`,
+          updatedState: state
+        };
+      }
+
     default:
       return {
         response: "Something went wrong with the transaction creation process. Let's start over. Please provide the customer name or ID:",
@@ -325,17 +609,37 @@ ${responseSuffix}`,
   }
 }
 
+/**
+ * Display name of a transaction status
+ * @param status The status value
+ */
+function formatStatus(status: string | null | undefined): string {
+  const current = parseStatus(status ?? "pending");
+  return current ? TRANSACTION_STATUS_LABELS[current] : String(status);
+}
+
+/**
+ * Match user input ("paid out", "Paid_Out", "settled"...) to a transaction status
+ * @param input The status typed by the user
+ */
+function parseStatus(input: string): typeof TRANSACTION_STATUSES[number] | undefined {
+  const normalized = input.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  return TRANSACTION_STATUSES.find(status => status === normalized);
+}
+
 /**
  * Handle the /modify transaction command
  * @param userMessage User's message
  * @param conversationId Conversation ID
  * @param state Current conversation state
+ * @param actor Who is chatting, recorded in the audit trail
  * @returns Response message and updated state
  */
 async function handleModifyTransactionCommand(
   userMessage: string, 
   conversationId: string, 
-  state: ConversationState[string]
+  state: ConversationState[string],
+  actor: AuditActor
 ): Promise<{ response: string; updatedState: ConversationState[string] }> {
   // Initialize state if not exists
   if (!state.step) {
@@ -412,14 +716,16 @@ Cheque Amount: $${transaction.cheque_amount}
 Date: ${transaction.date ? new Date(transaction.date.toString()).toLocaleDateString() : 'Not set'}
 Customer: ${transaction.customer?.customer_name || 'Unknown'}
 Vendor: ${transaction.vendor?.vendor_name || 'Unknown'}
+Status: ${formatStatus(transaction.status)}
 
 What would you like to modify? (Type the number):
 1. Date
 2. Cheque Number
 3. Cheque Amount
 4. Vendor ID
+5. Status
 
-Remember, you can only modify the date, cheque number, amount, and vendor ID.`,
+Remember, you can only modify the date, cheque number, amount, vendor ID and status.`,
         updatedState: {
           ...state,
           pendingData: { 
@@ -444,9 +750,11 @@ Remember, you can only modify the date, cheque number, amount, and vendor ID.`,
         selectedField = "cheque_amount";
       } else if (option === "4" || option.toLowerCase() === "vendor id") {
         selectedField = "vendor_id";
+      } else if (option === "5" || option.toLowerCase() === "status") {
+        selectedField = "status";
       } else {
         return {
-          response: "Invalid selection. Please enter a number from 1-4 or the field name:",
+          response: "Invalid selection. Please enter a number from 1-5 or the field name:",
           updatedState: state
         };
       }
@@ -466,6 +774,20 @@ Remember, you can only modify the date, cheque number, amount, and vendor ID.`,
         case "vendor_id":
           promptMessage = "Please enter the new vendor name or ID:";
           break;
+        case "status": {
+          // Only offer the statuses the transaction can legally be edited to
+          const currentStatus = state.pendingData?.originalTransaction?.status;
+          const nextStatuses = editableTransitions(currentStatus);
+          if (nextStatuses.length === 0) {
+            return {
+              response: `This transaction is ${formatStatus(currentStatus)}, which is a final status and can't be changed. What else would you like to modify? (Type the number, or /cancel to cancel):`,
+              updatedState: state
+            };
+          }
+          promptMessage = `The current status is ${formatStatus(currentStatus)}. Please enter the new status:
+${nextStatuses.map(status => `- ${TRANSACTION_STATUS_LABELS[status]}`).join("\n")}`;
+          break;
+        }
         default:
           promptMessage = "Please enter the new value:";
       }
@@ -517,6 +839,21 @@ Remember, you can only modify the date, cheque number, amount, and vendor ID.`,
             updatedState: state
           };
         }
+      } else if (fieldToModify === "status") {
+        const requestedStatus = parseStatus(newValue);
+        if (requestedStatus === 'returned') {
+          return {
+            response: `A cheque can't be marked returned by editing it. Use "Return Cheque" on the transaction in the app so its fees are reversed and what the customer owes is recorded. From ${formatStatus(originalTransaction.status)} the transaction can move to: ${describeStatusEdits(originalTransaction.status)}. Please enter the new status:`,
+            updatedState: state
+          };
+        }
+        if (!requestedStatus || !editableTransitions(originalTransaction.status).includes(requestedStatus)) {
+          return {
+            response: `That status change isn't allowed. From ${formatStatus(originalTransaction.status)} the transaction can move to: ${describeStatusEdits(originalTransaction.status)}. Please enter the new status:`,
+            updatedState: state
+          };
+        }
+        newValue = requestedStatus;
       }
 
       // Prepare update data (only include allowed fields)
@@ -531,6 +868,8 @@ Remember, you can only modify the date, cheque number, amount, and vendor ID.`,
         updateData.cheque_amount = newValue;
       } else if (fieldToModify === "vendor_id") {
         updateData.vendor_id = newValue;
+      } else if (fieldToModify === "status") {
+        updateData.status = parseStatus(newValue);
       }
 
       // Show confirmation with clear before/after information
@@ -561,6 +900,9 @@ Remember, you can only modify the date, cheque number, amount, and vendor ID.`,
         }
         oldValueDisplay = oldVendorName;
         newValueDisplay = newVendorName;
+      } else if (fieldToModify === "status") {
+        oldValueDisplay = formatStatus(originalTransaction.status);
+        newValueDisplay = formatStatus(newValue);
       } else {
         oldValueDisplay = 'Unknown';
         newValueDisplay = newValue;
@@ -570,14 +912,29 @@ Remember, you can only modify the date, cheque number, amount, and vendor ID.`,
         date: "Date",
         cheque_number: "Cheque Number",
         cheque_amount: "Cheque Amount",
-        vendor_id: "Vendor"
+        vendor_id: "Vendor",
+        status: "Status"
       }[fieldToModify];
 
+      // Amount, vendor and date changes can change the fees
+      let feeChangeDisplay = "";
+      if (fieldToModify === "cheque_amount" || fieldToModify === "vendor_id" || fieldToModify === "date") {
+        try {
+          const newFees = await previewFees({ ...originalTransaction, ...updateData });
+          feeChangeDisplay = `
+
+Fees after the change:
+${formatFeeBreakdown(newFees)}`;
+        } catch (error) {
+          console.error("Error previewing fees:", error);
+        }
+      }
+
       return {
         response: `Please confirm the following change to Transaction #${originalTransaction.transaction_id}:
 
 Change ${fieldDisplayName} from: ${oldValueDisplay}
-To: ${newValueDisplay}
+To: ${newValueDisplay}${feeChangeDisplay}
 
 Type "confirm" to proceed or "cancel" to abort.`,
         updatedState: {
@@ -611,7 +968,7 @@ Type "confirm" to proceed or "cancel" to abort.`,
             console.log("TEST MODE: Transaction update simulated but not saved to database:", updatedTransaction);
           } else {
             // Normal mode - save to database
-            updatedTransaction = await storage.updateTransaction(transactionId, updateData);
+            updatedTransaction = await storage.updateTransaction(transactionId, updateData, actor);
           }
           
           if (!updatedTransaction) {
@@ -642,7 +999,8 @@ Type "confirm" to proceed or "cancel" to abort.`,
   "chequeAmount": "${updatedTransaction.cheque_amount}",
   "date": "${updatedTransaction.date ? new Date(updatedTransaction.date.toString()).toLocaleDateString() : 'N/A'}",
   "customer_id": ${updatedTransaction.customer_id},
-  "vendor_id": "${updatedTransaction.vendor_id}"
+  "vendor_id": "${updatedTransaction.vendor_id}",
+  "status": "${updatedTransaction.status}"
 }
 \`\`\`
 
@@ -655,6 +1013,18 @@ ${responseSuffix}`,
             }
           };
         } catch (error) {
+          if (error instanceof StatusTransitionError || error instanceof AccountingPeriodError) {
+            // The status changed or the month was closed since the flow started
+            return {
+              response: `${error.message}. The transaction was not updated.`,
+              updatedState: {
+                currentCommand: undefined,
+                pendingData: undefined,
+                step: undefined,
+                testMode: state.testMode // Preserve test mode flag
+              }
+            };
+          }
           console.error("Error updating transaction:", error);
           return {
             response: "Error updating the transaction. Please try again later.",
@@ -700,12 +1070,14 @@ ${responseSuffix}`,
  * @param userMessage User's message
  * @param conversationId Conversation ID
  * @param state Current conversation state
+ * @param actor Who is chatting, recorded in the audit trail
  * @returns Response message and updated state
  */
 async function handleChequeProcessingCommand(
   userMessage: string,
   conversationId: string,
-  state: ConversationState[string]
+  state: ConversationState[string],
+  actor: AuditActor
 ): Promise<{ response: string; updatedState: ConversationState[string] }> {
   // Check for cancel command
   if (userMessage.trim().toLowerCase() === "/cancel" || userMessage.trim().toLowerCase() === "cancel") {
@@ -801,11 +1173,25 @@ async function handleChequeProcessingCommand(
           };
         }
 
+        const recommended = pendingData.amount
+          ? await recommendChatVendors({
+              customer_id: customer.customer_id,
+              cheque_amount: pendingData.amount.toString().replace(/[$,]/g, ''),
+              drawer_bank: currentCheque?.bankName || null
+            })
+          : { text: "", vendorIds: [] };
+
         return {
-          response: `Customer: ${customer.customer_name}. Now, please provide the vendor name or ID:`,
+          response: recommended.text
+            ? `Customer: ${customer.customer_name}.
+
+${recommended.text}
+
+Now, please provide the vendor name or ID${recommended.vendorIds.length > 0 ? ", or the number of a recommended vendor" : ""}:`
+            : `Customer: ${customer.customer_name}. Now, please provide the vendor name or ID:`,
           updatedState: {
             ...state,
-            pendingData: { ...pendingData, customerId: customer.customer_id },
+            pendingData: { ...pendingData, customerId: customer.customer_id, recommendedVendorIds: recommended.vendorIds },
             step: "askVendorId"
           }
         };
@@ -828,7 +1214,7 @@ async function handleChequeProcessingCommand(
       
       // Verify vendor exists
       try {
-        const vendor = await findVendorByNameOrId(vendorInput);
+        const vendor = await findChatVendor(vendorInput, pendingData.recommendedVendorIds);
         if (!vendor) {
           return {
             response: "Vendor not found. Please provide a valid vendor name or ID:",
@@ -839,6 +1225,26 @@ async function handleChequeProcessingCommand(
         // Store the vendor ID for transaction creation
         const vendorId = vendor.vendor_id;
 
+        // A vendor whose routing rules rule the cheque out needs picking twice
+        if (pendingData.customerId && pendingData.amount && pendingData.ineligibleVendorId !== vendorId) {
+          const reasons = await chatVendorIneligibility(vendorId, {
+            customer_id: pendingData.customerId,
+            cheque_amount: pendingData.amount.toString().replace(/[$,]/g, ''),
+            drawer_bank: currentCheque?.bankName || null
+          });
+          if (reasons.length > 0) {
+            return {
+              response: `⚠️ ${vendor.vendor_name} can't normally take this cheque: ${reasons.join("; ")}.
+
+Enter ${vendor.vendor_name} again to use it anyway, or choose another vendor:`,
+              updatedState: {
+                ...state,
+                pendingData: { ...pendingData, ineligibleVendorId: vendorId }
+              }
+            };
+          }
+        }
+
         // Prepare transaction data
         const customerId = pendingData.customerId;
         const chequeNumber = pendingData.chequeNumber;
@@ -864,10 +1270,16 @@ async function handleChequeProcessingCommand(
           customer_id: customerId,
           cheque_number: chequeNumber,
           cheque_amount: cleanAmount,
-          vendor_id: vendorId
+          vendor_id: vendorId,
+          drawer_bank: currentCheque?.bankName || null
           // Don't include date field at all - let database handle defaults
         };
 
+        // Warn if the cheque looks like one that was already entered
+        const duplicates = await storage.findDuplicateTransactions(newTransaction);
+        const duplicateWarning = duplicates.length > 0;
+        const fees = await previewFees(newTransaction);
+
         // Show transaction summary and ask for confirmation
         return {
           response: `Please confirm the following transaction:
@@ -878,10 +1290,15 @@ Amount: $${newTransaction.cheque_amount}
 Vendor ID: ${newTransaction.vendor_id}
 Status: pending
 
-Type "confirm" to create this transaction or "cancel" to abort.`,
+${formatFeeBreakdown(fees)}
+${duplicateWarning ? `
+${formatDuplicateWarning(duplicates)}
+
+Type "override" to create this transaction anyway or "cancel" to abort.` : `
+Type "confirm" to create this transaction or "cancel" to abort.`}`,
           updatedState: {
             ...state,
-            pendingData: { ...pendingData, vendorId, newTransaction },
+            pendingData: { ...pendingData, vendorId, newTransaction, duplicateWarning },
             step: "confirmTransaction"
           }
         };
@@ -895,14 +1312,24 @@ Type "confirm" to create this transaction or "cancel" to abort.`,
       
     case "confirmTransaction":
       const confirm = userMessage.trim().toLowerCase();
+      // A possible duplicate needs an explicit override rather than a plain confirm,
+      // and going over the customer's limits needs an admin's override
+      const expectedConfirmation = pendingData.limitWarning ? "override limit" : pendingData.duplicateWarning ? "override" : "confirm";
       
-      if (confirm === "confirm") {
+      if (confirm === expectedConfirmation) {
         try {
           // Create the transaction
           if (!pendingData.newTransaction) {
             throw new Error("Missing transaction data");
           }
-          const transaction = await storage.createTransaction(pendingData.newTransaction);
+          let outcome = await holdTransactionForApproval(pendingData.newTransaction, actor, !!pendingData.limitWarning);
+          if (!outcome) {
+            const transaction = await storage.createTransaction(pendingData.newTransaction, actor, { override_limits: !!pendingData.limitWarning });
+            // The cheque image goes with the first transaction made from it
+            await linkChatAttachments(conversationId, transaction.transaction_id)
+              .catch(error => console.error("Error linking cheque attachments:", error));
+            outcome = `Transaction created successfully! Transaction ID: ${transaction.transaction_id}`;
+          }
           
           // Check if there are more cheques to process
           if (extractedCheques.length > currentChequeIndex + 1) {
@@ -911,7 +1338,7 @@ Type "confirm" to create this transaction or "cancel" to abort.`,
             const nextCheque = extractedCheques[nextChequeIndex];
             
             return {
-              response: `Transaction created successfully! Transaction ID: ${transaction.transaction_id}
+              response: `${outcome}
 
 Let's process the next cheque:
 
@@ -937,7 +1364,7 @@ Is this information correct? Would you like to create a new transaction with thi
           
           // No more cheques to process
           return {
-            response: `Transaction created successfully! Transaction ID: ${transaction.transaction_id}
+            response: `${outcome}
 
 All cheques have been processed. Is there anything else you'd like to do?`,
             updatedState: {
@@ -947,6 +1374,17 @@ All cheques have been processed. Is there anything else you'd like to do?`,
             }
           };
         } catch (error) {
+          if (error instanceof CreditLimitError) {
+            const canOverride = await actorCanOverrideLimits(actor);
+            return {
+              response: canOverride
+                ? formatLimitWarning(error, true)
+                : `${formatLimitWarning(error, false)} Type "cancel" to skip this cheque.`,
+              updatedState: canOverride
+                ? { ...state, pendingData: { ...pendingData, limitWarning: true } }
+                : state
+            };
+          }
           console.error("Error creating transaction:", error);
           return {
             response: "There was an error creating the transaction. Please try again.",
@@ -964,7 +1402,7 @@ All cheques have been processed. Is there anything else you'd like to do?`,
         };
       } else {
         return {
-          response: `Please type "confirm" to create the transaction or "cancel" to abort.`,
+          response: `Please type "${expectedConfirmation}" to create the transaction or "cancel" to abort.`,
           updatedState: state
         };
       }
@@ -986,12 +1424,14 @@ All cheques have been processed. Is there anything else you'd like to do?`,
  * @param userMessage User's message
  * @param conversationId Conversation ID
  * @param state Current conversation state
+ * @param actor Who is chatting, recorded in the audit trail
  * @returns Response message and updated state
  */
 async function handleDepositCommand(
   userMessage: string, 
   conversationId: string, 
-  state: ConversationState[string]
+  state: ConversationState[string],
+  actor: AuditActor
 ): Promise<{ response: string; updatedState: ConversationState[string] }> {
   // Initialize state if not exists
   if (!state.step) {
@@ -1070,6 +1510,7 @@ async function handleDepositCommand(
       try {
         let deposit;
         let customer;
+        let heldPayouts = "";
         
         // Check if in test mode
         if (state.testMode) {
@@ -1089,8 +1530,9 @@ async function handleDepositCommand(
           deposit = await storage.createCustomerDeposit({
             customer_id: state.pendingData?.customerId as number,
             amount: amount.toFixed(2)
-          });
+          }, undefined, actor);
           customer = await storage.getCustomer(deposit.customer_id);
+          heldPayouts = await notifyHeldPayouts(deposit);
         }
         
         // Format response with deposit details
@@ -1105,7 +1547,7 @@ async function handleDepositCommand(
 Amount: $${deposit.amount}
 Date: ${new Date().toLocaleDateString()}
 
-${responseSuffix}`,
+${responseSuffix}${heldPayouts}`,
           updatedState: {
             currentCommand: undefined,
             pendingData: undefined,
@@ -1114,6 +1556,17 @@ ${responseSuffix}`,
           }
         };
       } catch (error) {
+        if (error instanceof AccountingPeriodError) {
+          return {
+            response: `${error.message}. The deposit was not created.`,
+            updatedState: {
+              currentCommand: undefined,
+              pendingData: undefined,
+              step: undefined,
+              testMode: state.testMode // Preserve test mode flag
+            }
+          };
+        }
         console.error("Error creating deposit:", error);
         return {
           response: "Error creating the deposit. Please try again later.",
@@ -1138,13 +1591,61 @@ ${responseSuffix}`,
   }
 }
 
+// "note on cheque 12345: ..." or "note on transaction 42: ..."
+const noteCommandRegex = /^(?:add\s+(?:a\s+)?)?note\s+(?:on|for|to)\s+(cheque|check|transaction)\s*(?:number|no\.?|#)?\s*([\w-]+)\s*[:\-]\s*([\s\S]+)$/i;
+
+/**
+ * Add a note to a transaction picked by cheque number or transaction ID
+ * @param target "cheque", "check" or "transaction"
+ * @param reference The cheque number or transaction ID
+ * @param note The text of the note
+ * @param actor Who is chatting, recorded as the note's author
+ * @param testMode Whether to leave the transaction unchanged
+ * @returns Response message
+ */
+async function handleNoteCommand(
+  target: string,
+  reference: string,
+  note: string,
+  actor: AuditActor,
+  testMode?: boolean
+): Promise<string> {
+  let transaction: ChequeTransaction | undefined;
+
+  if (target.toLowerCase() === "transaction") {
+    const transactionId = parseInt(reference);
+    transaction = isNaN(transactionId) ? undefined : await storage.getTransaction(transactionId);
+    if (!transaction) {
+      return `I couldn't find transaction #${reference}.`;
+    }
+  } else {
+    const transactions = (await storage.getTransactions()).filter(t => t.cheque_number === reference);
+    if (transactions.length === 0) {
+      return `I couldn't find a transaction for cheque #${reference}.`;
+    }
+    if (transactions.length > 1) {
+      const ids = transactions.map(t => `#${t.transaction_id}`).join(", ");
+      return `Cheque #${reference} matches more than one transaction (${ids}). Please say which one, e.g. "note on transaction ${transactions[0].transaction_id}: ${note}"`;
+    }
+    transaction = transactions[0];
+  }
+
+  if (testMode) {
+    return `🧪 TEST MODE: Would add this note to transaction #${transaction.transaction_id} (cheque #${transaction.cheque_number}):\n"${note}"\n(No actual database changes were made)`;
+  }
+
+  await storage.createTransactionComment(transaction.transaction_id, { body: note.slice(0, 2000) }, actor);
+  return `📝 Note added to transaction #${transaction.transaction_id} (cheque #${transaction.cheque_number}).`;
+}
+
 /**
  * Handle command-based interactions
  * @param userMessage User's message
  * @param conversationId Conversation ID
+ * @param actor Who is chatting, recorded in the audit trail
  * @returns Response message or null if not a command
  */
-async function handleCommands(userMessage: string, conversationId: string): Promise<string | null> {
+async function handleCommands(userMessage: string, conversationId: string, actor: AuditActor): Promise<string | null> {
   // Get or initialize conversation state
   const state = conversationStates[conversationId] || {};
   
@@ -1386,25 +1887,25 @@ After confirming, I can help you create a new transaction with this cheque.`;
     // Process based on current command
     switch (state.currentCommand) {
       case "/new transaction":
-        const result = await handleNewTransactionCommand(userMessage, conversationId, state);
+        const result = await handleNewTransactionCommand(userMessage, conversationId, state, actor);
         response = result.response;
         updatedState = result.updatedState;
         break;
       
       case "/deposit":
-        const depositResult = await handleDepositCommand(userMessage, conversationId, state);
+        const depositResult = await handleDepositCommand(userMessage, conversationId, state, actor);
         response = depositResult.response;
         updatedState = depositResult.updatedState;
         break;
         
       case "/modify transaction":
-        const modifyResult = await handleModifyTransactionCommand(userMessage, conversationId, state);
+        const modifyResult = await handleModifyTransactionCommand(userMessage, conversationId, state, actor);
         response = modifyResult.response;
         updatedState = modifyResult.updatedState;
         break;
 
       case "process_cheque":
-        const chequeResult = await handleChequeProcessingCommand(userMessage, conversationId, state);
+        const chequeResult = await handleChequeProcessingCommand(userMessage, conversationId, state, actor);
         response = chequeResult.response;
         updatedState = chequeResult.updatedState;
         break;
@@ -1594,6 +2095,29 @@ You have exited test mode. All commands will now perform real actions on the dat
     return response;
   }
   
+  // Check for a note before the other natural language commands, since the
+  // note itself may contain words like "change"
+  const noteMatch = noteCommandRegex.exec(userMessage.trim());
+  if (noteMatch) {
+    const response = await handleNoteCommand(
+      noteMatch[1],
+      noteMatch[2],
+      noteMatch[3].trim(),
+      actor,
+      conversationStates[conversationId]?.testMode
+    );
+    
+    // Save assistant message to conversation history
+    await storage.saveAIMessage({
+      user_id: 0,
+      content: response,
+      role: "assistant",
+      conversation_id: conversationId
+    });
+    
+    return response;
+  }
+  
   // Check for natural language commands
   
   // Check for "modify" or "change" commands
@@ -1656,14 +2180,16 @@ Cheque Amount: $${transaction.cheque_amount}
 Date: ${transaction.date ? new Date(transaction.date.toString()).toLocaleDateString() : 'Not set'}
 ${transaction.customer_id ? `Customer ID: ${transaction.customer_id}` : ''}
 ${transaction.vendor_id ? `Vendor ID: ${transaction.vendor_id}` : ''}
+Status: ${formatStatus(transaction.status)}
 
 What would you like to modify? (Type the number):
 1. Date
 2. Cheque Number
 3. Cheque Amount
 4. Vendor ID
+5. Status
 
-Remember, you can only modify the date, cheque number, amount, and vendor ID.`;
+Remember, you can only modify the date, cheque number, amount, vendor ID and status.`;
           
           // Save assistant message to conversation history
           await storage.saveAIMessage({
@@ -1750,16 +2276,56 @@ Remember, you can only modify the date, cheque number, amount, and vendor ID.`;
   return null;
 }
 
+/**
+ * Work out who is chatting from the conversation, for callers that don't know
+ * @param conversationId The conversation ID
+ * @returns The linked web user and the channel the conversation runs on
+ */
+async function conversationActor(conversationId: string): Promise<AuditActor> {
+  const channel = conversationId.startsWith("telegram-") ? 'telegram' : 'ai';
+  let userId = null;
+  try {
+    // Check if this is a telegram conversation
+    if (channel === 'telegram') {
+      // For telegram conversations, extract the chat ID and look up the user
+      const chatId = conversationId.replace("telegram-", "");
+      const telegramUser = await storage.getTelegramUserByChatId(chatId);
+      if (telegramUser) {
+        // Now we can use user_id which is the link to the web user
+        userId = telegramUser.user_id;
+      }
+    } 
+    // Check if this is a user conversation stored in the database
+    else if (!conversationId.startsWith("session-") && !isNaN(Number(conversationId))) {
+      const convId = parseInt(conversationId);
+      const [userConversation] = await db
+        .select()
+        .from(userConversations)
+        .where(eq(userConversations.conversation_id, convId));
+      
+      if (userConversation) {
+        userId = userConversation.user_id;
+      }
+    }
+  } catch (error) {
+    console.error("Error getting user ID from conversation:", error);
+  }
+  return { user_id: userId, channel };
+}
+
 /**
  * Generates an AI response based on user input and context
  * @param userMessage The message from the user
  * @param conversationId The ID of the conversation for context
+ * @param actor Who is chatting; looked up from the conversation when not given
  * @returns Promise with the AI-generated response
  */
-export async function generateAIResponse(userMessage: string, conversationId: string): Promise<string> {
+export async function generateAIResponse(userMessage: string, conversationId: string, actor?: AuditActor): Promise<string> {
   try {
+    const chatActor = actor ?? await conversationActor(conversationId);
+    
     // First check if this is a command
-    const commandResponse = await handleCommands(userMessage, conversationId);
+    const commandResponse = await handleCommands(userMessage, conversationId, chatActor);
     if (commandResponse !== null) {
       return commandResponse;
     }
@@ -1783,7 +2349,7 @@ export async function generateAIResponse(userMessage: string, conversationId: st
                   - /help - Display help information about available commands
                   - /new transaction - Start the process to create a new transaction
                   - /deposit - Start the process to create a new customer deposit
-                  - /modify transaction - Modify an existing transaction (only date, cheque number, amount or vendor)
+                  - /modify transaction - Modify an existing transaction (only date, cheque number, amount, vendor or status; status changes must follow the allowed transitions)
                   - /find transaction - Find transaction details
                   - /summary - Get business summary
                   
@@ -1890,38 +2456,9 @@ export async function generateAIResponse(userMessage: string, conversationId: st
     
     const assistantResponse = response.choices[0].message.content || "I'm sorry, I couldn't generate a response.";
     
-    // Get user ID from conversation if available
-    let userId = null;
-    try {
-      // Check if this is a telegram conversation
-      if (conversationId.startsWith("telegram-")) {
-        // For telegram conversations, extract the chat ID and look up the user
-        const chatId = conversationId.replace("telegram-", "");
-        const telegramUser = await storage.getTelegramUserByChatId(chatId);
-        if (telegramUser) {
-          // Now we can use user_id which is the link to the web user
-          userId = telegramUser.user_id;
-        }
-      } 
-      // Check if this is a user conversation stored in the database
-      else if (!conversationId.startsWith("session-") && !isNaN(Number(conversationId))) {
-        const convId = parseInt(conversationId);
-        const [userConversation] = await db
-          .select()
-          .from(userConversations)
-          .where(eq(userConversations.conversation_id, convId));
-        
-        if (userConversation) {
-          userId = userConversation.user_id;
-        }
-      }
-    } catch (error) {
-      console.error("Error getting user ID from conversation:", error);
-    }
-    
     // Save assistant message to conversation history
     await storage.saveAIMessage({
-      user_id: userId,
+      user_id: chatActor.user_id,
       content: assistantResponse,
       role: "assistant",
       conversation_id: conversationId
@@ -1939,9 +2476,10 @@ export async function generateAIResponse(userMessage: string, conversationId: st
  * Process a voice message and generate a response
  * @param audioBuffer Buffer containing the voice message audio data
  * @param conversationId The conversation ID for context
+ * @param actor Who is chatting; looked up from the conversation when not given
  * @returns AI-generated response to the voice message
  */
-export async function processVoiceMessage(audioBuffer: Buffer, conversationId: string): Promise<string> {
+export async function processVoiceMessage(audioBuffer: Buffer, conversationId: string, actor?: AuditActor): Promise<string> {
   try {
     // Create a temporary file path
     const tempFilePath = path.join(os.tmpdir(), `voice-${Date.now()}.ogg`);
@@ -1990,7 +2528,7 @@ export async function processVoiceMessage(audioBuffer: Buffer, conversationId: s
       });
       
       // Now process the transcribed text using our normal AI response generation
-      const response = await generateAIResponse(transcribedText, conversationId);
+      const response = await generateAIResponse(transcribedText, conversationId, actor);
       
       return response;
     } finally {
@@ -0,0 +1,214 @@
+/**
+ * Branded PDF documents (customer statements, vendor remittances) laid out
+ * as a header, a few key figures and one or more tables that run over as many
+ * landscape pages as they need.
+ *
+ * Text is set in the standard Helvetica fonts, which only cover Latin-1, so
+ * characters outside it are replaced rather than failing the whole document.
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+
+export const BRAND_NAME = "Cheque Ledger Pro";
+
+// The app's primary colour, hsl(220, 26%, 23%)
+const BRAND_COLOR = rgb(0.17, 0.2, 0.29);
+const MUTED_COLOR = rgb(0.42, 0.45, 0.5);
+const RULE_COLOR = rgb(0.82, 0.84, 0.86);
+const HEADER_FILL = rgb(0.95, 0.96, 0.97);
+
+const PAGE_WIDTH = 792; // US Letter, landscape
+const PAGE_HEIGHT = 612;
+const MARGIN = 36;
+const ROW_HEIGHT = 16;
+const FONT_SIZE = 9;
+
+export interface PdfColumn {
+  header: string;
+  width: number; // Share of the table width; shares are scaled to fit
+  align?: 'left' | 'right';
+}
+
+export interface PdfTable {
+  heading?: string;
+  columns: PdfColumn[];
+  rows: string[][];
+  totals?: string[]; // A bold last row
+  empty?: string; // Shown instead of the rows when there are none
+}
+
+export interface PdfReport {
+  title: string;
+  subtitle?: string;
+  details: [string, string][]; // Label and value pairs under the title
+  summary: [string, string][]; // Key figures in a box
+  tables: PdfTable[];
+  notes?: string[];
+}
+
+/**
+ * Format an amount as dollars with thousands separators, e.g. -$1,234.50
+ * @param value A decimal amount
+ */
+export function formatAmount(value: string | number): string {
+  const amount = typeof value === "number" ? value : parseFloat(value || "0");
+  const [whole, cents] = Math.abs(amount).toFixed(2).split(".");
+  return `${amount < 0 && Math.abs(amount) >= 0.005 ? "-" : ""}$${whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",")}.${cents}`;
+}
+
+/**
+ * Replace characters the standard fonts can't encode
+ * @param text The text
+ */
+function printable(text: string): string {
+  return text.replace(/[‒-―]/g, "-").replace(/[^\x20-\x7E\xA0-\xFF]/g, "?");
+}
+
+/**
+ * Shorten text with an ellipsis until it fits a width
+ * @param text The text
+ * @param font The font it is set in
+ * @param size The font size
+ * @param width The width available
+ */
+function fitText(text: string, font: PDFFont, size: number, width: number): string {
+  let fitted = printable(text);
+  if (font.widthOfTextAtSize(fitted, size) <= width) return fitted;
+  while (fitted.length > 0 && font.widthOfTextAtSize(`${fitted}...`, size) > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}...`;
+}
+
+/**
+ * Render a report as a PDF
+ * @param report What goes in the document
+ * @param generatedAt When it was generated, printed in the footer
+ * @returns The PDF file
+ */
+export async function renderPdfReport(report: PdfReport, generatedAt: Date = new Date()): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(printable(report.subtitle ? `${report.title} - ${report.subtitle}` : report.title));
+  doc.setCreator(BRAND_NAME);
+  doc.setProducer(BRAND_NAME);
+  doc.setCreationDate(generatedAt);
+
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+
+  let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const text = (value: string, x: number, size = FONT_SIZE, options: { font?: PDFFont; color?: ReturnType<typeof rgb> } = {}) =>
+    page.drawText(printable(value), { x, y, size, font: options.font ?? font, color: options.color ?? rgb(0, 0, 0) });
+
+  const newPage = () => {
+    page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  // Brand band and title
+  page.drawRectangle({ x: 0, y: PAGE_HEIGHT - 8, width: PAGE_WIDTH, height: 8, color: BRAND_COLOR });
+  y -= 8;
+  text(BRAND_NAME, MARGIN, 11, { font: bold, color: BRAND_COLOR });
+  y -= 24;
+  text(report.title, MARGIN, 18, { font: bold });
+  if (report.subtitle) {
+    y -= 18;
+    text(report.subtitle, MARGIN, 12);
+  }
+  y -= 18;
+  for (const [label, value] of report.details) {
+    text(`${label}:`, MARGIN, FONT_SIZE, { font: bold, color: MUTED_COLOR });
+    text(value, MARGIN + 90, FONT_SIZE, { color: MUTED_COLOR });
+    y -= 12;
+  }
+
+  // Key figures
+  if (report.summary.length > 0) {
+    const perRow = Math.min(report.summary.length, 4);
+    const boxRows = Math.ceil(report.summary.length / perRow);
+    const cellWidth = contentWidth / perRow;
+    const boxHeight = boxRows * 30 + 8;
+    y -= 6;
+    page.drawRectangle({
+      x: MARGIN, y: y - boxHeight, width: contentWidth, height: boxHeight,
+      color: HEADER_FILL, borderColor: RULE_COLOR, borderWidth: 1
+    });
+    report.summary.forEach(([label, value], index) => {
+      const x = MARGIN + 10 + (index % perRow) * cellWidth;
+      const rowTop = y - 14 - Math.floor(index / perRow) * 30;
+      page.drawText(fitText(label, font, 8, cellWidth - 16), { x, y: rowTop, size: 8, font, color: MUTED_COLOR });
+      page.drawText(fitText(value, bold, 12, cellWidth - 16), { x, y: rowTop - 14, size: 12, font: bold });
+    });
+    y -= boxHeight + 20;
+  }
+
+  for (const table of report.tables) {
+    const totalShare = table.columns.reduce((sum, column) => sum + column.width, 0);
+    const widths = table.columns.map(column => column.width / totalShare * contentWidth);
+
+    const drawRow = (cells: string[], rowFont: PDFFont, fill?: ReturnType<typeof rgb>) => {
+      if (fill) {
+        page.drawRectangle({ x: MARGIN, y: y - 4, width: contentWidth, height: ROW_HEIGHT, color: fill });
+      }
+      let x = MARGIN;
+      cells.forEach((cell, index) => {
+        const width = widths[index] - 8;
+        const value = fitText(cell ?? "", rowFont, FONT_SIZE, width);
+        const offset = table.columns[index].align === 'right' ? width - rowFont.widthOfTextAtSize(value, FONT_SIZE) : 0;
+        page.drawText(value, { x: x + 4 + offset, y, size: FONT_SIZE, font: rowFont });
+        x += widths[index];
+      });
+      page.drawLine({ start: { x: MARGIN, y: y - 4 }, end: { x: MARGIN + contentWidth, y: y - 4 }, thickness: 0.5, color: RULE_COLOR });
+      y -= ROW_HEIGHT;
+    };
+
+    const header = table.columns.map(column => column.header);
+    if (y < MARGIN + 40 + ROW_HEIGHT * 2) newPage();
+    if (table.heading) {
+      text(table.heading, MARGIN, 12, { font: bold });
+      y -= 18;
+    }
+    drawRow(header, bold, HEADER_FILL);
+
+    if (table.rows.length === 0 && table.empty) {
+      text(table.empty, MARGIN + 4, FONT_SIZE, { color: MUTED_COLOR });
+      y -= ROW_HEIGHT;
+    }
+    for (const row of table.rows) {
+      // Leave room for the footer, repeating the header on each new page
+      if (y < MARGIN + 24) {
+        newPage();
+        drawRow(header, bold, HEADER_FILL);
+      }
+      drawRow(row, font);
+    }
+    if (table.totals) {
+      if (y < MARGIN + 24) newPage();
+      drawRow(table.totals, bold, HEADER_FILL);
+    }
+    y -= 16;
+  }
+
+  for (const note of report.notes ?? []) {
+    if (y < MARGIN + 24) newPage();
+    text(note, MARGIN, 8, { color: MUTED_COLOR });
+    y -= 12;
+  }
+
+  // Footer on every page
+  const pages = doc.getPages();
+  const stamp = `Generated ${generatedAt.toISOString().slice(0, 16).replace("T", " ")} UTC by ${BRAND_NAME}`;
+  pages.forEach((footerPage, index) => {
+    footerPage.drawText(stamp, { x: MARGIN, y: MARGIN - 16, size: 7, font, color: MUTED_COLOR });
+    const pageLabel = `Page ${index + 1} of ${pages.length}`;
+    footerPage.drawText(pageLabel, {
+      x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(pageLabel, 7),
+      y: MARGIN - 16, size: 7, font, color: MUTED_COLOR
+    });
+  });
+
+  return await doc.save();
+}
@@ -1,6 +1,16 @@
 import TelegramBot from "node-telegram-bot-api";
 import { generateAIResponse, processVoiceMessage, processChequeDocument } from "./openai";
 import { storage } from "../storage";
+import { saveAttachment } from "./attachments";
+import { ApprovalError, canApprove, formatApprovalNotice, formatDecisionNotice } from "./approvals";
+import { CreditLimitError } from "./credit-limits";
+import { AccountingPeriodError } from "./accounting-periods";
+import { AllocationError } from "./allocation";
+import { StatusTransitionError } from "./transaction-status";
+import { customerStatementFileName, renderCustomerStatementPdf } from "./customer-statements";
+import { formatAmount } from "./pdf";
+import { toDateString } from "./fee-schedules";
+import { statementPeriodSchema, type ApprovalRequestWithUsers, type AuditActor, type Customer } from "@shared/schema";
 
 // Telegram bot token from environment variables
 const telegramToken = process.env.TELEGRAM_BOT_TOKEN || "";
@@ -258,6 +268,113 @@ async function processAuthentication(chatId: string, text: string): Promise<stri
   return "Authentication error. Please try again. Type /login to start the process.";
 }
 
+// Approve or reject a request from the approval queue on behalf of an admin's chat
+async function decideApproval(chatId: string, command: string): Promise<string> {
+  const match = command.match(/^\/(approve|reject)\s+#?(\d+)(?:\s+([\s\S]+))?$/i);
+  if (!match) {
+    return "Usage: /approve <request number>, or /reject <request number> followed by a reason.";
+  }
+  
+  const userId = loginStates.get(chatId)?.userId;
+  const user = userId ? await storage.getUser(userId) : undefined;
+  if (!user || !canApprove(user)) {
+    return "Only an admin can approve or reject requests.";
+  }
+  
+  const decision = match[1].toLowerCase();
+  const approvalId = parseInt(match[2]);
+  const actor: AuditActor = { user_id: user.user_id, channel: 'telegram' };
+  try {
+    const request = decision === 'approve'
+      ? await storage.approveApprovalRequest(approvalId, actor)
+      : await storage.rejectApprovalRequest(approvalId, actor, match[3]?.trim().slice(0, 500));
+    notifyRequester(request).catch(error => console.error("Error notifying requester:", error));
+    return decision === 'approve'
+      ? `✅ Approved request #${approvalId}: ${request.summary}. The change has been applied.`
+      : `❌ Rejected request #${approvalId}: ${request.summary}.`;
+  } catch (error) {
+    // Anything that stops the change leaves the request pending
+    if (error instanceof ApprovalError || error instanceof CreditLimitError || error instanceof AllocationError ||
+        error instanceof AccountingPeriodError || error instanceof StatusTransitionError ||
+        (error instanceof Error && error.message.endsWith("not found"))) {
+      return `Request #${approvalId} was not ${decision}d: ${error.message}.`;
+    }
+    console.error("Error deciding approval request:", error);
+    return `Sorry, I couldn't ${decision} request #${approvalId}. Please try again from the Approvals page.`;
+  }
+}
+
+// List the requests waiting in the approval queue
+async function listPendingApprovals(chatId: string): Promise<string> {
+  const userId = loginStates.get(chatId)?.userId;
+  const user = userId ? await storage.getUser(userId) : undefined;
+  if (!user || !canApprove(user)) {
+    return "Only an admin can see the approval queue.";
+  }
+  
+  const pending = await storage.getApprovalRequests({ status: 'pending' });
+  if (pending.length === 0) {
+    return "Nothing is waiting for approval.";
+  }
+  
+  return "Waiting for approval:\n\n" +
+    pending.slice(0, 20)
+      .map(request => `#${request.approval_id} ${request.summary} (by ${request.requested_by_username ?? "unknown"})`)
+      .join("\n") +
+    "\n\nReply /approve <number> or /reject <number> followed by a reason.";
+}
+
+// Find the customer a /statement command names, by id or by name
+async function findStatementCustomer(query: string): Promise<Customer | Customer[]> {
+  if (/^#?\d+$/.test(query)) {
+    const customer = await storage.getCustomer(parseInt(query.replace("#", "")));
+    return customer ?? [];
+  }
+  
+  const name = query.toLowerCase();
+  const customers = await storage.getCustomers();
+  const exact = customers.find(customer => customer.customer_name.toLowerCase() === name);
+  return exact ?? customers.filter(customer => customer.customer_name.toLowerCase().includes(name));
+}
+
+// Build the PDF statement a /statement command asks for, or the reply explaining why not
+async function buildStatementReply(command: string): Promise<string | { pdf: Buffer; fileName: string; caption: string }> {
+  const match = command.match(/^\/statement(?:@\w+)?\s+(.+?)(?:\s+(\d{4}-\d{2}-\d{2}))?(?:\s+(\d{4}-\d{2}-\d{2}))?$/i);
+  if (!match) {
+    return "Usage: /statement <customer name or number>, optionally followed by a start and end date (YYYY-MM-DD). Without dates the statement covers this month so far.";
+  }
+  
+  const today = toDateString();
+  const period = statementPeriodSchema.safeParse({
+    start_date: match[2] ?? `${today.slice(0, 8)}01`,
+    end_date: match[3] ?? today
+  });
+  if (!period.success) {
+    return period.error.errors[0].message;
+  }
+  
+  const found = await findStatementCustomer(match[1].trim());
+  if (Array.isArray(found)) {
+    if (found.length === 0) {
+      return `No customer matches "${match[1].trim()}".`;
+    }
+    return "Several customers match. Reply with one of these:\n\n" +
+      found.slice(0, 10).map(customer => `/statement ${customer.customer_id} (${customer.customer_name})`).join("\n");
+  }
+  
+  const statement = await storage.getCustomerStatement(found.customer_id, period.data);
+  if (!statement) {
+    return `No customer matches "${match[1].trim()}".`;
+  }
+  
+  return {
+    pdf: Buffer.from(await renderCustomerStatementPdf(statement)),
+    fileName: customerStatementFileName(statement),
+    caption: `Statement for ${statement.customer.customer_name}, ${statement.start_date} to ${statement.end_date}. ` +
+      `Closing balance ${formatAmount(statement.closing_balance)}.`
+  };
+}
+
 function setupBot() {
   if (!bot) return;
   
@@ -319,18 +436,71 @@ function setupBot() {
         "/deposit - Create a new customer deposit\n" +
         "/modify transaction - Modify an existing transaction\n" +
         "/find transaction - Find transaction details\n" +
-        "/summary - Get a business summary\n\n" +
+        "/summary - Get a business summary\n" +
+        "/statement <customer> [start] [end] - Get a customer's statement as a PDF\n" +
+        "/approvals - List requests waiting for approval (admins)\n" +
+        "/approve <number> - Approve a request (admins)\n" +
+        "/reject <number> <reason> - Reject a request (admins)\n\n" +
         "You can also use natural language like:\n" +
         "- \"create a new transaction\"\n" +
         "- \"make a new deposit\"\n" +
         "- \"modify cheque number 00010572\"\n" +
         "- \"change the amount of cheque 12345\"\n" +
         "- \"what's my business summary?\"\n\n" +
+        "If a cheque looks like one that was already entered, I'll show the matching transactions and you'll need to reply \"override\" to enter it anyway.\n\n" +
         "For general questions, just ask about transactions, customers, vendors, or business metrics."
       );
     }
   });
   
+  // Approval queue commands for admins
+  bot.onText(/^\/(approve|reject|approvals)\b/i, async (msg) => {
+    const chatId = msg.chat.id.toString();
+    if (bot) {
+      const authenticated = await isAuthenticated(chatId);
+      
+      if (!authenticated) {
+        bot.sendMessage(chatId, "You need to login first to use this feature. Type /login to authenticate.");
+        return;
+      }
+      
+      const text = (msg.text || "").trim();
+      const response = /^\/approvals$/i.test(text)
+        ? await listPendingApprovals(chatId)
+        : await decideApproval(chatId, text);
+      bot.sendMessage(chatId, response);
+    }
+  });
+  
+  // Customer statement as a PDF
+  bot.onText(/^\/statement\b/i, async (msg) => {
+    const chatId = msg.chat.id.toString();
+    if (bot) {
+      const authenticated = await isAuthenticated(chatId);
+      
+      if (!authenticated) {
+        bot.sendMessage(chatId, "You need to login first to use this feature. Type /login to authenticate.");
+        return;
+      }
+      
+      try {
+        bot.sendChatAction(chatId, "upload_document");
+        const reply = await buildStatementReply((msg.text || "").trim());
+        if (typeof reply === "string") {
+          bot.sendMessage(chatId, reply);
+        } else {
+          await bot.sendDocument(chatId, reply.pdf, { caption: reply.caption }, {
+            filename: reply.fileName,
+            contentType: "application/pdf"
+          });
+        }
+      } catch (error) {
+        console.error("Error sending customer statement:", error);
+        bot.sendMessage(chatId, "Sorry, I couldn't generate that statement. Please try again from the Customers page.");
+      }
+    }
+  });
+  
   // Special handlers for specific commands
   bot.onText(/^\/(start|help|login)$/, (msg) => {
     // Don't do anything here, as these commands are handled by specific handlers above
@@ -342,6 +512,8 @@ function setupBot() {
     
     // Skip start, help, and login commands (they have specific handlers)
     if (msg.text === "/start" || msg.text === "/help" || msg.text === "/login") return;
+    // Approval and statement commands have their own handlers too
+    if (msg.text && /^\/(approve|reject|approvals|statement)\b/i.test(msg.text)) return;
     
     try {
       if (!bot) return;
@@ -372,12 +544,13 @@ function setupBot() {
       }
       
       const conversationId = `telegram-${chatId}`;
+      const actor: AuditActor = { user_id: loginStates.get(chatId)?.userId ?? null, channel: 'telegram' };
       let response: string;
       
       // Handle text messages
       if (msg.text) {
         // Generate response using OpenAI
-        response = await generateAIResponse(msg.text, conversationId);
+        response = await generateAIResponse(msg.text, conversationId, actor);
       }
       // Handle voice messages
       else if (msg.voice) {
@@ -401,7 +574,7 @@ function setupBot() {
           const audioBuffer = await audioResponse.arrayBuffer();
           
           // Process the voice message
-          response = await processVoiceMessage(Buffer.from(audioBuffer), conversationId);
+          response = await processVoiceMessage(Buffer.from(audioBuffer), conversationId, actor);
         } catch (voiceError) {
           console.error("Error processing voice message:", voiceError);
           response = "Sorry, I had trouble processing your voice message. Could you please try sending it as text instead?";
@@ -429,12 +602,24 @@ function setupBot() {
           // Convert to buffer
           const imageBuffer = await imageResponse.arrayBuffer();
           
-          // Process the image (detect and extract cheque information)
-          response = await processChequeDocument(
-            Buffer.from(imageBuffer), 
-            'image/jpeg', // Telegram usually provides JPEGs for photos
-            conversationId
-          );
+          // A photo captioned "back" is the back of a cheque sent before, so it
+          // is only kept for the transaction rather than read for cheque details
+          const isBack = /\bback\b/i.test(msg.caption || '');
+          if (isBack) {
+            response = "Got the back of the cheque. It will be attached to the transaction created from the front.";
+          } else {
+            // Process the image (detect and extract cheque information)
+            response = await processChequeDocument(
+              Buffer.from(imageBuffer), 
+              'image/jpeg', // Telegram usually provides JPEGs for photos
+              conversationId
+            );
+          }
+          
+          await saveAttachment(
+            { buffer: Buffer.from(imageBuffer), file_name: `telegram-${photo.file_unique_id}.jpg`, content_type: 'image/jpeg' },
+            { kind: isBack ? 'back' : 'front', conversation_id: conversationId, user_id: actor.user_id }
+          ).catch(error => console.error("Error saving cheque attachment:", error));
         } catch (imageError) {
           console.error("Error processing image:", imageError);
           response = "Sorry, I had trouble processing your image. Please ensure it contains a clear picture of a cheque and try again.";
@@ -474,6 +659,11 @@ function setupBot() {
               mimeType,
               conversationId
             );
+            
+            await saveAttachment(
+              { buffer: Buffer.from(docBuffer), file_name: msg.document.file_name || `telegram-${msg.document.file_unique_id}`, content_type: mimeType },
+              { conversation_id: conversationId, user_id: actor.user_id }
+            ).catch(error => console.error("Error saving cheque attachment:", error));
           } catch (docError) {
             console.error("Error processing document:", docError);
             response = "Sorry, I had trouble processing your document. Please ensure it contains a clear scan of a cheque and try again.";
@@ -596,4 +786,26 @@ export async function sendTelegramMessage(chatId: string, message: string) {
     
     return { success: false, error: "Failed to send message" };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Let every admin linked to Telegram know a request is waiting for approval
+ * @param request The new approval request
+ */
+export async function notifyApprovers(request: ApprovalRequestWithUsers) {
+  const approverIds = (await storage.getUsers())
+    .filter(user => canApprove(user) && user.is_active !== false && user.user_id !== request.requested_by)
+    .map(user => user.user_id);
+  const chats = await storage.getTelegramUsersByUserIds(approverIds);
+  await Promise.all(chats.map(chat => sendTelegramMessage(chat.telegram_id.toString(), formatApprovalNotice(request))));
+}
+
+/**
+ * Tell the requester on Telegram, if they are linked, that their request was decided
+ * @param request The decided approval request
+ */
+export async function notifyRequester(request: ApprovalRequestWithUsers) {
+  if (!request.requested_by) return;
+  const chats = await storage.getTelegramUsersByUserIds([request.requested_by]);
+  await Promise.all(chats.map(chat => sendTelegramMessage(chat.telegram_id.toString(), formatDecisionNotice(request))));
+}
@@ -0,0 +1,405 @@
+/**
+ * Bulk import of transactions from CSV or XLSX spreadsheets.
+ *
+ * A sheet is read into rows keyed by header, each row is mapped onto the
+ * transaction fields, its customer and vendor are matched by name or id and
+ * the result is checked against insertTransactionSchema and for duplicate
+ * cheques, both already entered and earlier in the same sheet. Nothing is
+ * saved until the checked rows are committed.
+ */
+
+import ExcelJS from "exceljs";
+import {
+  insertTransactionSchema,
+  TRANSACTION_IMPORT_FIELDS,
+  type ChequeTransaction,
+  type CreditLimitBreach,
+  type Customer,
+  type InsertTransaction,
+  type TransactionImportField,
+  type TransactionImportMapping,
+  type TransactionImportPreview,
+  type TransactionImportRow,
+  type Vendor
+} from "@shared/schema";
+import { findDuplicateCheques, matchDuplicate } from "./duplicate-cheques";
+
+/**
+ * Raised when a spreadsheet can't be read so routes can answer with a 400
+ */
+export class TransactionImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransactionImportError";
+  }
+}
+
+// A spreadsheet as header names and the cell text of each non-blank row,
+// numbered as in the sheet (the header is row 1)
+export type ImportSheet = {
+  headers: string[];
+  rows: { row_number: number; values: Record<string, string> }[];
+};
+
+// Rows past this are refused rather than checked one by one
+export const MAX_IMPORT_ROWS = 5000;
+
+// Header names recognized for each field, compared without case, spaces or punctuation
+const FIELD_ALIASES: Record<TransactionImportField, string[]> = {
+  date: ['date', 'chequedate', 'transactiondate'],
+  customer: ['customer', 'customername', 'customerid', 'client'],
+  vendor: ['vendor', 'vendorname', 'vendorid', 'supplier'],
+  cheque_number: ['chequenumber', 'chequeno', 'cheque', 'checknumber', 'checkno'],
+  cheque_amount: ['chequeamount', 'amount', 'checkamount'],
+  drawer_bank: ['drawerbank', 'bank'],
+  status: ['status'],
+  customer_fee_override: ['customerfeeoverride', 'customerfee'],
+  vendor_fee_override: ['vendorfeeoverride', 'vendorfee'],
+  fee_override_reason: ['feeoverridereason', 'overridereason']
+};
+
+const FIELD_LABELS: Record<TransactionImportField, string> = {
+  date: 'Date',
+  customer: 'Customer',
+  vendor: 'Vendor',
+  cheque_number: 'Cheque number',
+  cheque_amount: 'Cheque amount',
+  drawer_bank: 'Drawer bank',
+  status: 'Status',
+  customer_fee_override: 'Customer fee override',
+  vendor_fee_override: 'Vendor fee override',
+  fee_override_reason: 'Fee override reason'
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Split CSV text into rows of fields, honouring quoted fields with commas,
+ * escaped quotes and line breaks
+ * @param text The file contents
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Excel prefixes UTF-8 CSV exports with a byte order mark
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Cell text as the sheet shows it, with dates as YYYY-MM-DD
+function cellText(cell: ExcelJS.Cell): string {
+  const value = cell.value;
+  if (value instanceof Date) {
+    return value.toISOString().split('T')[0];
+  }
+  if (value && typeof value === 'object' && 'result' in value && value.result instanceof Date) {
+    return value.result.toISOString().split('T')[0];
+  }
+  return cell.text ?? '';
+}
+
+async function readXlsx(buffer: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer);
+  } catch {
+    throw new TransactionImportError("The file could not be read as an XLSX workbook");
+  }
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) {
+    throw new TransactionImportError("The workbook has no sheets");
+  }
+
+  const rows: string[][] = [];
+  worksheet.eachRow({ includeEmpty: true }, (row) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= worksheet.columnCount; column++) {
+      cells.push(cellText(row.getCell(column)));
+    }
+    rows.push(cells);
+  });
+  return rows;
+}
+
+/**
+ * Read the first sheet of an uploaded CSV or XLSX file
+ * @param buffer The file contents
+ * @param filename The uploaded file's name, used to tell the formats apart
+ * @throws TransactionImportError if the file can't be read, has no header row or is too long
+ */
+export async function readSpreadsheet(buffer: Buffer, filename: string): Promise<ImportSheet> {
+  const extension = filename.toLowerCase().split('.').pop();
+  let cells: string[][];
+  if (extension === 'csv') {
+    cells = parseCsv(buffer.toString('utf8'));
+  } else if (extension === 'xlsx') {
+    cells = await readXlsx(buffer);
+  } else {
+    throw new TransactionImportError("Only CSV and XLSX files can be imported");
+  }
+
+  const [headerCells = [], ...dataCells] = cells;
+  const headers = headerCells.map(header => header.trim());
+  if (headers.every(header => header === '')) {
+    throw new TransactionImportError("The first row must hold the column headers");
+  }
+
+  // Rows keep their number in the sheet so errors can be traced back; blank rows are dropped
+  const rows = dataCells
+    .map((rowCells, index) => ({
+      row_number: index + 2,
+      values: Object.fromEntries(headers.map((header, column) => [header, (rowCells[column] ?? '').trim()]))
+    }))
+    .filter(row => Object.values(row.values).some(value => value !== ''));
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new TransactionImportError(`A sheet can have at most ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  return { headers, rows };
+}
+
+/**
+ * Guess which column holds each field from the header names
+ * @param headers The sheet's column headers
+ */
+export function suggestImportMapping(headers: string[]): TransactionImportMapping {
+  const mapping: TransactionImportMapping = {};
+  for (const field of TRANSACTION_IMPORT_FIELDS) {
+    const header = headers.find(h => FIELD_ALIASES[field].includes(normalizeHeader(h)));
+    if (header) {
+      mapping[field] = header;
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Find a record by id or name: an id or exact name wins, otherwise a name
+ * containing the input is used when only one does
+ * @param input The id or name from the sheet
+ * @param records The records to search
+ * @param idOf The record's id
+ * @param nameOf The record's name
+ * @returns The record, or an error describing why none could be picked
+ */
+function matchByNameOrId<T>(
+  input: string,
+  records: T[],
+  idOf: (record: T) => string,
+  nameOf: (record: T) => string
+): { record: T } | { error: string } {
+  const needle = input.trim().toLowerCase();
+  const exact = records.find(record => idOf(record).toLowerCase() === needle || nameOf(record).toLowerCase() === needle);
+  if (exact) {
+    return { record: exact };
+  }
+
+  const partial = records.filter(record => nameOf(record).toLowerCase().includes(needle));
+  if (partial.length === 1) {
+    return { record: partial[0] };
+  }
+  return partial.length === 0
+    ? { error: `no match for "${input}"` }
+    : { error: `"${input}" matches ${partial.map(nameOf).join(", ")}` };
+}
+
+// An earlier row of the sheet in the shape duplicate detection compares against
+function asEntered(transaction: InsertTransaction) {
+  return {
+    ...transaction,
+    status: transaction.status ?? null,
+    drawer_bank: transaction.drawer_bank ?? null,
+    date: transaction.date ?? null
+  };
+}
+
+// Amounts are often exported with currency symbols and thousands separators
+function cleanAmount(value: string): string {
+  return value.replace(/[$,\s]/g, '');
+}
+
+/**
+ * Map, match and check every row of a sheet
+ * @param sheet The sheet to import
+ * @param mapping Which column holds each field
+ * @param customers The customers rows can refer to
+ * @param vendors The vendors rows can refer to
+ * @param existing The transactions already entered, to flag duplicate cheques
+ */
+export function buildImportPreview(
+  sheet: ImportSheet,
+  mapping: TransactionImportMapping,
+  customers: Customer[],
+  vendors: Vendor[],
+  existing: ChequeTransaction[]
+): TransactionImportPreview {
+  const checked: TransactionImportRow[] = [];
+
+  for (const { row_number, values } of sheet.rows) {
+    const errors: string[] = [];
+    const valueOf = (field: TransactionImportField) => {
+      const header = mapping[field];
+      return header ? values[header] ?? '' : '';
+    };
+
+    let customerId: number | undefined;
+    if (valueOf('customer')) {
+      const match = matchByNameOrId(valueOf('customer'), customers, c => String(c.customer_id), c => c.customer_name);
+      if ('record' in match) customerId = match.record.customer_id;
+      else errors.push(`Customer: ${match.error}`);
+    } else {
+      errors.push("Customer is required");
+    }
+
+    let vendorId: string | undefined;
+    if (valueOf('vendor')) {
+      const match = matchByNameOrId(valueOf('vendor'), vendors, v => v.vendor_id, v => v.vendor_name);
+      if ('record' in match) vendorId = match.record.vendor_id;
+      else errors.push(`Vendor: ${match.error}`);
+    } else {
+      errors.push("Vendor is required");
+    }
+
+    const date = valueOf('date');
+    if (date && isNaN(new Date(date).getTime())) {
+      errors.push(`Date: "${date}" is not a date`);
+    }
+
+    const parsed = insertTransactionSchema.safeParse({
+      date: date && !isNaN(new Date(date).getTime()) ? new Date(date).toISOString().split('T')[0] : undefined,
+      customer_id: customerId ?? 0,
+      vendor_id: vendorId ?? '',
+      cheque_number: valueOf('cheque_number'),
+      cheque_amount: cleanAmount(valueOf('cheque_amount')),
+      drawer_bank: valueOf('drawer_bank') || null,
+      status: valueOf('status').toLowerCase() || undefined,
+      customer_fee_override: valueOf('customer_fee_override') ? cleanAmount(valueOf('customer_fee_override')) : null,
+      vendor_fee_override: valueOf('vendor_fee_override') ? cleanAmount(valueOf('vendor_fee_override')) : null,
+      fee_override_reason: valueOf('fee_override_reason') || null
+    });
+
+    if (!parsed.success) {
+      for (const issue of parsed.error.errors) {
+        const field = String(issue.path[0]);
+        // Missing customers and vendors were reported when they were matched
+        if (field === 'customer_id' || field === 'vendor_id') continue;
+        const label = FIELD_LABELS[field as TransactionImportField] ?? field;
+        errors.push(`${label}: ${issue.message}`);
+      }
+    }
+    // Imported cheques are new ones, which the lifecycle starts as pending
+    if (parsed.success && parsed.data.status && parsed.data.status !== 'pending') {
+      errors.push(`Status: New transactions must start as pending, not "${valueOf('status')}"`);
+    }
+    if (!valueOf('cheque_number')) {
+      errors.push("Cheque number is required");
+    }
+    if (valueOf('cheque_amount') && isNaN(parseFloat(cleanAmount(valueOf('cheque_amount'))))) {
+      errors.push(`Cheque amount: "${valueOf('cheque_amount')}" is not a number`);
+    } else if (!valueOf('cheque_amount')) {
+      errors.push("Cheque amount is required");
+    }
+
+    const transaction = parsed.success && errors.length === 0 ? parsed.data : null;
+    const candidate = transaction && {
+      cheque_number: transaction.cheque_number,
+      cheque_amount: transaction.cheque_amount,
+      customer_id: transaction.customer_id,
+      drawer_bank: transaction.drawer_bank,
+      date: transaction.date
+    };
+
+    const earlier = candidate
+      ? checked.find(row => row.transaction && matchDuplicate(candidate, asEntered(row.transaction)))
+      : undefined;
+
+    checked.push({
+      row_number,
+      values,
+      transaction,
+      errors: Array.from(new Set(errors)),
+      duplicates: candidate ? findDuplicateCheques(candidate, existing) : [],
+      duplicate_of_row: earlier ? earlier.row_number : null,
+      limit_breaches: []
+    });
+  }
+
+  return countRows({ headers: sheet.headers, mapping, rows: checked, can_override_limits: false });
+}
+
+/**
+ * Add the customer limits each row would go over to a checked sheet
+ * @param preview The checked sheet
+ * @param breaches The breaches of each row that has a transaction, in sheet order
+ * @param canOverride Whether the current user may import rows over the limits
+ */
+export function addLimitBreaches(
+  preview: TransactionImportPreview,
+  breaches: CreditLimitBreach[][],
+  canOverride: boolean
+): TransactionImportPreview {
+  let index = 0;
+  const rows = preview.rows.map(row => row.transaction ? { ...row, limit_breaches: breaches[index++] } : row);
+  return countRows({ ...preview, rows, can_override_limits: canOverride });
+}
+
+// Whether a row may be a cheque already entered
+function isDuplicateRow(row: TransactionImportRow): boolean {
+  return row.duplicates.length > 0 || row.duplicate_of_row !== null;
+}
+
+// Count the rows ready to import and those held back, and why
+function countRows(
+  preview: Omit<TransactionImportPreview, 'valid_count' | 'error_count' | 'duplicate_count' | 'over_limit_count'>
+): TransactionImportPreview {
+  const { rows } = preview;
+  const clean = rows.filter(row => row.errors.length === 0 && !isDuplicateRow(row));
+  return {
+    ...preview,
+    valid_count: clean.filter(row => row.limit_breaches.length === 0).length,
+    error_count: rows.filter(row => row.errors.length > 0).length,
+    duplicate_count: rows.filter(row => row.errors.length === 0 && isDuplicateRow(row)).length,
+    over_limit_count: clean.filter(row => row.limit_breaches.length > 0).length
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * Searching, sorting and paging the transaction list, shared by the storage
+ * implementations.
+ *
+ * Pages are keyset-paginated: the cursor holds the sort values of the last
+ * transaction on a page and the next page starts after it, so paging stays
+ * cheap however deep it goes and doesn't skip or repeat rows when
+ * transactions are added in between.
+ */
+
+import {
+  type TransactionSearchQuery,
+  type TransactionSort,
+  type TransactionSortField,
+  type TransactionWithDetails
+} from "@shared/schema";
+import { fromCents, outstandingAmount, toCents } from "./allocation";
+import { toDateString } from "./fee-schedules";
+
+/**
+ * Raised for a cursor that doesn't belong to the query so routes can answer with a 400
+ */
+export class TransactionSearchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransactionSearchError";
+  }
+}
+
+export type SortValue = string | number;
+
+// Stands in for a missing date so undated transactions still have a place in the order
+export const NO_DATE = '0001-01-01';
+
+// Compared as whole cents so the cursor doesn't depend on how amounts were formatted
+const CENTS_FIELDS: TransactionSortField[] = ['cheque_amount', 'profit'];
+
+/**
+ * The sort with the transaction id appended, so every transaction has a distinct position
+ * @param sort The requested sort
+ */
+export function withTieBreaker(sort: TransactionSort[]): TransactionSort[] {
+  return sort.some(({ field }) => field === 'transaction_id')
+    ? sort
+    : [...sort, { field: 'transaction_id', direction: 'asc' }];
+}
+
+/**
+ * Where a transaction falls on one sort field
+ * @param transaction The transaction with its customer and vendor names
+ * @param field The sort field
+ */
+export function sortValueOf(transaction: TransactionWithDetails, field: TransactionSortField): SortValue {
+  switch (field) {
+    case 'date':
+      return transaction.date ? toDateString(transaction.date) : NO_DATE;
+    case 'cheque_amount':
+      return toCents(transaction.cheque_amount);
+    case 'profit':
+      return toCents(transaction.profit);
+    case 'cheque_number':
+      return transaction.cheque_number;
+    case 'customer_name':
+      return transaction.customer.customer_name;
+    case 'vendor_name':
+      return transaction.vendor.vendor_name;
+    case 'status':
+      return transaction.status ?? 'pending';
+    case 'transaction_id':
+      return transaction.transaction_id;
+  }
+}
+
+/**
+ * Order two transactions by a sort
+ * @param sort The sort, including its tie-breaker
+ */
+export function compareBySort(sort: TransactionSort[]) {
+  return (a: TransactionWithDetails, b: TransactionWithDetails): number => {
+    for (const { field, direction } of sort) {
+      const order = compareSortValues(sortValueOf(a, field), sortValueOf(b, field));
+      if (order !== 0) {
+        return direction === 'asc' ? order : -order;
+      }
+    }
+    return 0;
+  };
+}
+
+function compareSortValues(a: SortValue, b: SortValue): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function sortKey(sort: TransactionSort[]): string {
+  return sort.map(({ field, direction }) => `${field}:${direction}`).join(',');
+}
+
+/**
+ * A sort value as it compares in SQL, where amounts are decimals rather than cents
+ * @param field The sort field
+ * @param value The sort value
+ */
+export function sqlSortValue(field: TransactionSortField, value: SortValue): SortValue {
+  return CENTS_FIELDS.includes(field) ? fromCents(value as number) : value;
+}
+
+/**
+ * The cursor for the page after a transaction
+ * @param sort The sort, including its tie-breaker
+ * @param transaction The last transaction on the page
+ */
+export function encodeSearchCursor(sort: TransactionSort[], transaction: TransactionWithDetails): string {
+  const values = sort.map(({ field }) => sortValueOf(transaction, field));
+  return Buffer.from(JSON.stringify({ sort: sortKey(sort), values })).toString('base64url');
+}
+
+/**
+ * The sort values of the transaction a page starts after
+ * @param sort The sort, including its tie-breaker
+ * @param cursor The cursor from the previous page
+ * @throws TransactionSearchError if the cursor is malformed or was made for a different sort
+ */
+export function decodeSearchCursor(sort: TransactionSort[], cursor: string): SortValue[] {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new TransactionSearchError("Invalid cursor");
+  }
+
+  const { sort: cursorSort, values } = (decoded ?? {}) as { sort?: unknown; values?: unknown };
+  if (cursorSort !== sortKey(sort)) {
+    throw new TransactionSearchError("Cursor doesn't match the requested sort");
+  }
+  const valid = Array.isArray(values) && values.length === sort.length && sort.every(({ field }, i) =>
+    CENTS_FIELDS.includes(field) || field === 'transaction_id'
+      ? Number.isInteger(values[i])
+      : typeof values[i] === 'string'
+  );
+  if (!valid) {
+    throw new TransactionSearchError("Invalid cursor");
+  }
+  return values as SortValue[];
+}
+
+/**
+ * Check whether a transaction comes after the cursor position
+ * @param sort The sort, including its tie-breaker
+ * @param after The sort values decoded from the cursor
+ * @param transaction The transaction
+ */
+export function isAfterCursor(sort: TransactionSort[], after: SortValue[], transaction: TransactionWithDetails): boolean {
+  for (let i = 0; i < sort.length; i++) {
+    const order = compareSortValues(sortValueOf(transaction, sort[i].field), after[i]);
+    if (order !== 0) {
+      return sort[i].direction === 'asc' ? order > 0 : order < 0;
+    }
+  }
+  return false;
+}
+
+/**
+ * Escape the LIKE wildcards in text typed by the user
+ * @param text The search text
+ */
+export function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+ * Check whether a transaction matches the filters of a search
+ * @param transaction The transaction with its customer and vendor names and its tags
+ * @param query The search
+ */
+export function matchesTransactionSearch(transaction: TransactionWithDetails, query: TransactionSearchQuery): boolean {
+  const chequeNumber = transaction.cheque_number.toLowerCase();
+
+  if (query.q) {
+    const text = query.q.toLowerCase();
+    const matchesText = transaction.customer.customer_name.toLowerCase().includes(text) ||
+      transaction.vendor.vendor_name.toLowerCase().includes(text) ||
+      chequeNumber.startsWith(text);
+    if (!matchesText) return false;
+  }
+  if (query.cheque_number && !chequeNumber.startsWith(query.cheque_number.toLowerCase())) return false;
+  if (query.customer_id && transaction.customer_id !== query.customer_id) return false;
+  if (query.vendor_id && transaction.vendor_id !== query.vendor_id) return false;
+  if (query.status && !query.status.includes(transaction.status ?? 'pending')) return false;
+
+  const date = transaction.date ? toDateString(transaction.date) : NO_DATE;
+  if (query.date_from && date < query.date_from) return false;
+  if (query.date_to && date > query.date_to) return false;
+
+  const amount = toCents(transaction.cheque_amount);
+  if (query.min_amount && amount < toCents(query.min_amount)) return false;
+  if (query.max_amount && amount > toCents(query.max_amount)) return false;
+
+  if (query.outstanding_customer &&
+    toCents(outstandingAmount(transaction.net_payable_to_customer, transaction.paid_to_customer)) <= 0) return false;
+  if (query.outstanding_vendor &&
+    toCents(outstandingAmount(transaction.amount_to_receive_from_vendor, transaction.received_from_vendor)) <= 0) return false;
+
+  if (query.tag_ids && !(transaction.tags ?? []).some(tag => query.tag_ids!.includes(tag.tag_id))) return false;
+
+  return true;
+}
@@ -0,0 +1,92 @@
+/**
+ * Enforcement of the transaction status lifecycle defined in
+ * shared/transaction-status.ts, shared by the storage implementations.
+ */
+
+import {
+  TRANSACTION_STATUS_LABELS,
+  allowedTransitions,
+  canTransition,
+  editableTransitions,
+  isTransactionStatus,
+  type TransactionStatus
+} from "@shared/transaction-status";
+
+/**
+ * Raised when a status change isn't allowed by the lifecycle so routes can
+ * answer with a 409
+ */
+export class StatusTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StatusTransitionError";
+  }
+}
+
+/**
+ * Human readable list of the statuses a transaction can move to next
+ * @param from The current status
+ */
+export function describeAllowedTransitions(from: string | null | undefined): string {
+  const next = allowedTransitions(from);
+  return next.length > 0
+    ? next.map(status => TRANSACTION_STATUS_LABELS[status]).join(", ")
+    : "none (final status)";
+}
+
+/**
+ * Check that a transaction may move from one status to another
+ * @param from The current status
+ * @param to The requested status
+ * @throws StatusTransitionError if the move isn't allowed
+ */
+export function assertStatusTransition(from: string | null | undefined, to: string): TransactionStatus {
+  if (!isTransactionStatus(to)) {
+    throw new StatusTransitionError(`Unknown status "${to}"`);
+  }
+  if (!canTransition(from, to)) {
+    throw new StatusTransitionError(
+      `Cannot change status from ${from ?? "pending"} to ${to}. Allowed: ${describeAllowedTransitions(from)}`
+    );
+  }
+  return to;
+}
+
+/**
+ * Human readable list of the statuses a transaction can be edited to next
+ * @param from The current status
+ */
+export function describeStatusEdits(from: string | null | undefined): string {
+  const next = editableTransitions(from);
+  return next.length > 0
+    ? next.map(status => TRANSACTION_STATUS_LABELS[status]).join(", ")
+    : "none";
+}
+
+/**
+ * Check a status change made by editing a transaction
+ * @param from The current status
+ * @param to The requested status
+ * @throws StatusTransitionError if the move isn't allowed, or is to returned,
+ * which only the return flow may set
+ */
+export function assertStatusEdit(from: string | null | undefined, to: string): TransactionStatus {
+  if (to === 'returned') {
+    throw new StatusTransitionError(
+      "A cheque can't be edited to returned. Record the return with POST /transactions/:id/return so its fees are reversed and what the customer owes is recorded"
+    );
+  }
+  return assertStatusTransition(from, to);
+}
+
+/**
+ * Check the status a new transaction is created with
+ * @param status The requested initial status
+ * @throws StatusTransitionError unless it is pending
+ */
+export function assertInitialStatus(status: string | null | undefined): TransactionStatus {
+  if (status && status !== "pending") {
+    throw new StatusTransitionError("New transactions must start as pending");
+  }
+  return "pending";
+}
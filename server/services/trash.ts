@@ -0,0 +1,35 @@
+/**
+ * Soft deletion of transactions, customers and vendors, shared by the storage
+ * implementations.
+ *
+ * Deleting a record only sets its deleted_at, which hides it from every
+ * storage query until it is restored from the trash. Purging removes it for
+ * good and is refused while other records still point at it, so financial
+ * history is never orphaned.
+ */
+
+/**
+ * Raised when a record can't be purged so routes can answer with a 409
+ */
+export class TrashError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TrashError";
+  }
+}
+
+/**
+ * Check that nothing still refers to a record before it is purged
+ * @param label What the record is, e.g. "customer"
+ * @param references How many of each kind of record still point at it
+ * @throws TrashError listing the references if there are any
+ */
+export function assertPurgeable(label: string, references: Record<string, number>): void {
+  const remaining = Object.entries(references)
+    .filter(([, count]) => count > 0)
+    .map(([kind, count]) => `${count} ${kind}`);
+
+  if (remaining.length > 0) {
+    throw new TrashError(`This ${label} can't be permanently deleted while it has ${remaining.join(", ")}`);
+  }
+}
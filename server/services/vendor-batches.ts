@@ -0,0 +1,209 @@
+/**
+ * Vendor batches: bundles of cheques handed to a vendor together.
+ *
+ * A batch is open while cheques are gathered into it and delivered once it is
+ * handed over. Only cheques for the batch's vendor that aren't in another
+ * batch, returned or void can go in, and only while it is open. A receipt
+ * recorded against a delivered batch is a vendor payment spread across the
+ * batch's cheques, oldest first; the batch then counts as partially or fully
+ * received from the totals of its cheques.
+ */
+
+import {
+  type ChequeTransaction,
+  type UpdateVendorBatch,
+  type VendorBatch,
+  type VendorBatchDetails,
+  type VendorBatchStatus,
+  type VendorBatchWithTotals
+} from "@shared/schema";
+import { TRANSACTION_STATUS_LABELS } from "@shared/transaction-status";
+import { fromCents, toCents } from "./allocation";
+import { toDateString } from "./fee-schedules";
+
+/**
+ * Raised for a batch change that isn't allowed so routes can answer with a 400
+ */
+export class VendorBatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VendorBatchError";
+  }
+}
+
+// Cheques that can't be handed to a vendor
+const UNBATCHABLE_STATUSES = ['returned', 'void'];
+
+/**
+ * Make sure a batch's cheques can still be changed
+ * @param batch The batch
+ * @throws VendorBatchError unless the batch is open
+ */
+export function assertBatchOpen(batch: VendorBatch): void {
+  if (batch.status !== 'open') {
+    throw new VendorBatchError(`Batch #${batch.batch_id} has been delivered, so its cheques can't be changed`);
+  }
+}
+
+/**
+ * Make sure a cheque can go in a batch
+ * @param batch The batch
+ * @param transaction The cheque
+ * @throws VendorBatchError if it can't
+ */
+export function assertBatchable(batch: VendorBatch, transaction: ChequeTransaction): void {
+  if (transaction.vendor_id !== batch.vendor_id) {
+    throw new VendorBatchError(`Transaction #${transaction.transaction_id} is for another vendor`);
+  }
+  if (transaction.batch_id !== null && transaction.batch_id !== batch.batch_id) {
+    throw new VendorBatchError(`Transaction #${transaction.transaction_id} is already in batch #${transaction.batch_id}`);
+  }
+  const status = transaction.status ?? 'pending';
+  if (UNBATCHABLE_STATUSES.includes(status)) {
+    throw new VendorBatchError(`Transaction #${transaction.transaction_id} is ${TRANSACTION_STATUS_LABELS[status].toLowerCase()}`);
+  }
+}
+
+/**
+ * Make sure a batch can be given a status by hand
+ * @param batch The batch
+ * @param update The change
+ * @param hasReceipts Whether any receipts have been recorded against the batch
+ * @throws VendorBatchError if it can't
+ */
+export function assertBatchStatusChange(batch: VendorBatch, update: UpdateVendorBatch, hasReceipts: boolean): void {
+  if (!update.status || update.status === batch.status) return;
+  if (update.status === 'open' && hasReceipts) {
+    throw new VendorBatchError("A batch with receipts can't be reopened");
+  }
+  if (batch.status === 'partially_received' || batch.status === 'received') {
+    throw new VendorBatchError(`Batch #${batch.batch_id} has receipts, so its status follows them`);
+  }
+}
+
+/**
+ * Make sure a receipt can be recorded against a batch
+ * @param batch The batch with its totals
+ * @throws VendorBatchError if it can't
+ */
+export function assertBatchReceivable(batch: VendorBatchWithTotals): void {
+  if (batch.status === 'open') {
+    throw new VendorBatchError("Mark the batch as delivered before recording a receipt");
+  }
+  if (batch.transaction_count === 0) {
+    throw new VendorBatchError(`Batch #${batch.batch_id} has no cheques`);
+  }
+}
+
+/**
+ * The status a batch has from what has been received on its cheques. Open
+ * batches stay open until they are delivered.
+ * @param status The batch's status
+ * @param expected What the vendor owes on the cheques, in cents
+ * @param received What has been received on them, in cents
+ */
+export function batchStatusOf(status: VendorBatchStatus, expected: number, received: number): VendorBatchStatus {
+  if (status === 'open') return 'open';
+  if (received > 0 && received >= expected) return 'received';
+  if (received > 0) return 'partially_received';
+  return 'delivered';
+}
+
+/**
+ * Add up a batch's cheques
+ * @param batch The batch
+ * @param vendorName The batch's vendor
+ * @param transactions The cheques in the batch
+ */
+export function summarizeBatch(batch: VendorBatch, vendorName: string, transactions: ChequeTransaction[]): VendorBatchWithTotals {
+  const total = (amount: (transaction: ChequeTransaction) => string | null) =>
+    transactions.reduce((sum, transaction) => sum + toCents(amount(transaction) ?? "0"), 0);
+  const expected = total(t => t.amount_to_receive_from_vendor);
+  const received = total(t => t.received_from_vendor);
+
+  return {
+    ...batch,
+    status: batchStatusOf(batch.status, expected, received),
+    vendor_name: vendorName,
+    transaction_count: transactions.length,
+    cheque_total: fromCents(total(t => t.cheque_amount)),
+    expected_total: fromCents(expected),
+    received_total: fromCents(received)
+  };
+}
+
+const BATCH_STATUS_LABELS: Record<VendorBatchStatus, string> = {
+  open: "Open",
+  delivered: "Delivered",
+  partially_received: "Partially received",
+  received: "Received"
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * A printable manifest of a batch's cheques to hand over with the bundle
+ * @param batch The batch with its cheques
+ * @returns An HTML page
+ */
+export function renderBatchManifest(batch: VendorBatchDetails): string {
+  const rows = batch.transactions.map((transaction, index) => `
+      <tr>
+        <td>${index + 1}</td>
+        <td>${escapeHtml(transaction.cheque_number)}</td>
+        <td>${escapeHtml(transaction.drawer_bank ?? "")}</td>
+        <td>${escapeHtml(transaction.customer_name)}</td>
+        <td>${transaction.date ? toDateString(transaction.date) : ""}</td>
+        <td class="amount">$${escapeHtml(transaction.cheque_amount)}</td>
+      </tr>`).join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Batch #${batch.batch_id} manifest</title>
+  <style>
+    body { font-family: Arial, Helvetica, sans-serif; margin: 32px; color: #111827; }
+    h1 { font-size: 20px; margin-bottom: 4px; }
+    .meta { color: #4b5563; font-size: 13px; margin-bottom: 16px; }
+    table { border-collapse: collapse; width: 100%; font-size: 13px; }
+    th, td { border: 1px solid #d1d5db; padding: 6px 8px; text-align: left; }
+    th { background: #f3f4f6; }
+    .amount { text-align: right; }
+    tfoot td { font-weight: bold; }
+    .signatures { display: flex; gap: 48px; margin-top: 48px; font-size: 13px; }
+    .signatures div { flex: 1; border-top: 1px solid #111827; padding-top: 4px; }
+    @media print { button { display: none; } body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <button onclick="window.print()">Print</button>
+  <h1>Cheque batch #${batch.batch_id}</h1>
+  <div class="meta">
+    Vendor: ${escapeHtml(batch.vendor_name)} (${escapeHtml(batch.vendor_id)})<br>
+    Date: ${batch.batch_date ? toDateString(batch.batch_date) : ""}<br>
+    Status: ${BATCH_STATUS_LABELS[batch.status]}${batch.notes ? `<br>Notes: ${escapeHtml(batch.notes)}` : ""}
+  </div>
+  <table>
+    <thead>
+      <tr><th>#</th><th>Cheque number</th><th>Drawer bank</th><th>Customer</th><th>Date</th><th class="amount">Amount</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+    <tfoot>
+      <tr><td colspan="5">${batch.transaction_count} cheque${batch.transaction_count === 1 ? "" : "s"}</td><td class="amount">$${batch.cheque_total}</td></tr>
+    </tfoot>
+  </table>
+  <div class="signatures">
+    <div>Handed over by</div>
+    <div>Received by</div>
+  </div>
+</body>
+</html>`;
+}
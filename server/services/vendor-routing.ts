@@ -0,0 +1,175 @@
+/**
+ * Vendor routing: which vendors can take a cheque, and which of them earns the
+ * most on it.
+ *
+ * Each vendor may cap the cheque volume it takes in a day and in a week
+ * (Monday to Sunday), take cheques only within a size range, and take them
+ * only from certain drawer banks. Vendors that pass every rule are ranked by
+ * the profit the cheque would make with their fee rule in force on the
+ * cheque's date. Returned and void cheques don't use up a vendor's capacity.
+ */
+
+import {
+  type ChequeTransaction,
+  type FeeRates,
+  type Vendor,
+  type VendorRecommendation,
+  type VendorRecommendationRequest,
+  type VendorVolume
+} from "@shared/schema";
+import { calculateFeeBreakdown } from "@shared/fee-engine";
+import { fromCents, toCents } from "./allocation";
+import { EXCLUDED_EXPOSURE_STATUSES } from "./credit-limits";
+import { toDateString } from "./fee-schedules";
+
+/**
+ * The Monday to Sunday week a day falls in
+ * @param date The day (YYYY-MM-DD)
+ * @returns The first and last day of the week (YYYY-MM-DD)
+ */
+export function weekOf(date: string): { start: string; end: string } {
+  const day = new Date(`${date}T00:00:00Z`);
+  const sinceMonday = (day.getUTCDay() + 6) % 7;
+  const start = new Date(day.getTime() - sinceMonday * 24 * 60 * 60 * 1000);
+  const end = new Date(start.getTime() + 6 * 24 * 60 * 60 * 1000);
+  return { start: start.toISOString().slice(0, 10), end: end.toISOString().slice(0, 10) };
+}
+
+/**
+ * Add up the cheque volume each vendor has taken on a day and in its week
+ * @param transactions The transactions to count
+ * @param date The day (YYYY-MM-DD)
+ */
+export function totalVendorVolumes(transactions: ChequeTransaction[], date: string): VendorVolume[] {
+  const week = weekOf(date);
+  const volumes = new Map<string, { daily: number; weekly: number }>();
+  for (const transaction of transactions) {
+    if (EXCLUDED_EXPOSURE_STATUSES.includes(transaction.status ?? 'pending')) continue;
+    const day = toDateString(transaction.date);
+    if (day < week.start || day > week.end) continue;
+
+    const volume = volumes.get(transaction.vendor_id) ?? { daily: 0, weekly: 0 };
+    const amount = toCents(transaction.cheque_amount);
+    volume.weekly += amount;
+    if (day === date) volume.daily += amount;
+    volumes.set(transaction.vendor_id, volume);
+  }
+  return Array.from(volumes, ([vendor_id, volume]) => ({
+    vendor_id,
+    daily_volume: fromCents(volume.daily),
+    weekly_volume: fromCents(volume.weekly)
+  }));
+}
+
+// Compare bank names loosely, ignoring case and spacing
+function normalizeBank(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Find the routing rules that stop a vendor from taking a cheque
+ * @param vendor The vendor
+ * @param cheque The cheque's amount and drawer bank
+ * @param volume The vendor's volume so far on the cheque's day and week
+ * @returns Why the vendor can't take the cheque; empty if it can
+ */
+export function vendorIneligibility(
+  vendor: Vendor,
+  cheque: { cheque_amount: string; drawer_bank?: string | null },
+  volume?: VendorVolume
+): string[] {
+  const reasons: string[] = [];
+  const amount = toCents(cheque.cheque_amount);
+
+  if (vendor.min_cheque_amount !== null && amount < toCents(vendor.min_cheque_amount)) {
+    reasons.push(`Takes cheques of $${vendor.min_cheque_amount} or more`);
+  }
+  if (vendor.max_cheque_amount !== null && amount > toCents(vendor.max_cheque_amount)) {
+    reasons.push(`Takes cheques of up to $${vendor.max_cheque_amount}`);
+  }
+
+  // Without a drawer bank there is nothing to check the accepted banks against
+  const banks = vendor.accepted_banks ?? [];
+  if (banks.length > 0 && cheque.drawer_bank?.trim()) {
+    const bank = normalizeBank(cheque.drawer_bank);
+    if (!banks.some(accepted => normalizeBank(accepted) === bank)) {
+      reasons.push(`Doesn't take cheques drawn on ${cheque.drawer_bank.trim()}`);
+    }
+  }
+
+  const daily = toCents(volume?.daily_volume ?? "0");
+  if (vendor.daily_capacity !== null && daily + amount > toCents(vendor.daily_capacity)) {
+    reasons.push(`Daily capacity of $${vendor.daily_capacity} would be exceeded ($${fromCents(daily)} taken)`);
+  }
+  const weekly = toCents(volume?.weekly_volume ?? "0");
+  if (vendor.weekly_capacity !== null && weekly + amount > toCents(vendor.weekly_capacity)) {
+    reasons.push(`Weekly capacity of $${vendor.weekly_capacity} would be exceeded ($${fromCents(weekly)} taken)`);
+  }
+
+  return reasons;
+}
+
+// A vendor being considered for a cheque, with its fee rules on the cheque's date
+export type VendorCandidate = {
+  vendor: Vendor;
+  rates: FeeRates;
+  volume?: VendorVolume;
+};
+
+/**
+ * Rank the vendors for a cheque: eligible vendors first, each group by the
+ * profit the cheque would make, highest first
+ * @param request The cheque's customer, amount, date and drawer bank
+ * @param candidates The vendors with their fee rules and volume so far
+ */
+export function rankVendors(request: VendorRecommendationRequest, candidates: VendorCandidate[]): VendorRecommendation[] {
+  const ranked = candidates.map(({ vendor, rates, volume }) => {
+    const fees = calculateFeeBreakdown(request.cheque_amount, rates.customer_rule, rates.vendor_rule);
+    return {
+      vendor,
+      reasons: vendorIneligibility(vendor, request, volume),
+      vendor_fee: fees.vendor_fee,
+      profit: toCents(fees.profit),
+      daily_volume: volume?.daily_volume ?? "0.00",
+      weekly_volume: volume?.weekly_volume ?? "0.00"
+    };
+  });
+
+  ranked.sort((a, b) =>
+    Number(a.reasons.length > 0) - Number(b.reasons.length > 0) ||
+    b.profit - a.profit ||
+    a.vendor.vendor_name.localeCompare(b.vendor.vendor_name));
+
+  const best = ranked.find(candidate => candidate.reasons.length === 0) ?? ranked[0];
+  return ranked.map(candidate => ({
+    vendor_id: candidate.vendor.vendor_id,
+    vendor_name: candidate.vendor.vendor_name,
+    eligible: candidate.reasons.length === 0,
+    reasons: candidate.reasons,
+    vendor_fee: candidate.vendor_fee,
+    profit: fromCents(candidate.profit),
+    profit_difference: fromCents(candidate.profit - (best?.profit ?? 0)),
+    daily_volume: candidate.daily_volume,
+    weekly_volume: candidate.weekly_volume
+  }));
+}
+
+/**
+ * Describe the recommended vendors for a chat reply, numbered so one can be
+ * picked by its number
+ * @param recommendations The ranked vendors
+ * @param limit How many to list
+ */
+export function formatVendorRecommendations(recommendations: VendorRecommendation[], limit = 5): string {
+  const eligible = recommendations.filter(recommendation => recommendation.eligible).slice(0, limit);
+  if (eligible.length === 0) {
+    return "No vendor's routing rules allow this cheque.";
+  }
+  const lines = eligible.map((recommendation, index) => {
+    const difference = index === 0
+      ? "best"
+      : `$${fromCents(-toCents(recommendation.profit_difference))} less`;
+    return `${index + 1}. ${recommendation.vendor_name} (${recommendation.vendor_id}): profit $${recommendation.profit} (${difference})`;
+  });
+  return `Recommended vendors:\n${lines.join("\n")}`;
+}
@@ -0,0 +1,307 @@
+/**
+ * Vendor remittance and settlement reports shared by the storage
+ * implementations.
+ *
+ * A settlement covers the cheques handed to a vendor in a date range, what
+ * the vendor should pay on each after its fee, what it has paid and what it
+ * still owes. Receipts are vendor payments plus receipts recorded straight
+ * against the vendor's cheques; receipts made by allocating a vendor payment
+ * aren't counted again. The balance the vendor owes runs over all its cheques,
+ * so the opening balance carries whatever was still owed when the range began.
+ */
+
+import {
+  type ChequeTransaction,
+  type StatementPeriod,
+  type TransactionPayment,
+  type Vendor,
+  type VendorPayment,
+  type VendorSettlement,
+  type VendorSettlementCheque,
+  type VendorSettlementReceipt,
+  type VendorSettlementSummary
+} from "@shared/schema";
+import { TRANSACTION_STATUS_LABELS } from "@shared/transaction-status";
+import { fromCents, toCents } from "./allocation";
+import { toDateString } from "./fee-schedules";
+import { csvField } from "./bulk-transactions";
+import { formatAmount, renderPdfReport } from "./pdf";
+
+// Days a cheque can go unpaid before the vendor's balance on it is overdue
+export const VENDOR_OVERDUE_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface VendorSettlementActivity {
+  transactions: (ChequeTransaction & { customer_name: string })[]; // The vendor's cheques, not in the trash
+  payments: VendorPayment[];
+  receipts: TransactionPayment[]; // Vendor receipts on those cheques not made from a vendor payment
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.max(Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS), 0);
+}
+
+/**
+ * Build a vendor's settlement for a date range
+ * @param vendor The vendor
+ * @param activity Everything recorded for the vendor, whatever its date
+ * @param period The first and last day covered
+ * @param overdueDays Days a cheque can go unpaid before it is overdue
+ * @param today Today's date, so cheques aren't aged past it
+ */
+export function buildVendorSettlement(
+  vendor: Vendor,
+  activity: VendorSettlementActivity,
+  period: StatementPeriod,
+  overdueDays: number = VENDOR_OVERDUE_DAYS,
+  today: string = toDateString()
+): VendorSettlement {
+  const asOf = period.end_date < today ? period.end_date : today;
+  const chequeNumbers = new Map(activity.transactions.map(t => [t.transaction_id, t.cheque_number]));
+
+  // Void cheques were never sent for payment
+  const cheques: VendorSettlementCheque[] = activity.transactions
+    .filter(t => t.status !== 'void')
+    .map(t => {
+      const date = toDateString(t.date ?? t.created_at);
+      const expected = toCents(t.amount_to_receive_from_vendor);
+      const received = toCents(t.received_from_vendor);
+      const outstanding = Math.max(expected - received, 0);
+      const daysOutstanding = outstanding > 0 ? daysBetween(date, asOf) : 0;
+      return {
+        transaction_id: t.transaction_id,
+        date,
+        cheque_number: t.cheque_number,
+        customer_name: t.customer_name,
+        drawer_bank: t.drawer_bank,
+        status: t.status ?? 'pending',
+        batch_id: t.batch_id,
+        cheque_amount: fromCents(toCents(t.cheque_amount)),
+        vendor_fee: fromCents(toCents(t.vendor_fee)),
+        expected: fromCents(expected),
+        received: fromCents(received),
+        outstanding: fromCents(outstanding),
+        days_outstanding: daysOutstanding,
+        overdue: outstanding > 0 && date <= period.end_date && daysOutstanding > overdueDays
+      };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date) || a.transaction_id - b.transaction_id);
+
+  const receipts: VendorSettlementReceipt[] = [
+    ...activity.payments.map(payment => ({
+      date: toDateString(payment.date ?? payment.created_at),
+      kind: 'payment' as const,
+      reference: `Payment #${payment.payment_id}`,
+      description: [payment.batch_id ? `Batch #${payment.batch_id}` : null, payment.notes].filter(Boolean).join(" - ") || "Vendor payment",
+      amount: fromCents(toCents(payment.amount))
+    })),
+    ...activity.receipts.map(receipt => ({
+      date: toDateString(receipt.date ?? receipt.created_at),
+      kind: 'receipt' as const,
+      reference: chequeNumbers.get(receipt.transaction_id) ?? `#${receipt.transaction_id}`,
+      description: [`Receipt${receipt.method ? ` (${receipt.method})` : ""}`, receipt.note].filter(Boolean).join(" - "),
+      amount: fromCents(toCents(receipt.amount))
+    }))
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  // What the vendor owed on the cheques and receipts with dates that count
+  const balanceOf = (counts: (date: string) => boolean) =>
+    cheques.filter(c => counts(c.date)).reduce((sum, c) => sum + toCents(c.expected), 0) -
+    receipts.filter(r => counts(r.date)).reduce((sum, r) => sum + toCents(r.amount), 0);
+
+  const inRange = cheques.filter(c => c.date >= period.start_date && c.date <= period.end_date);
+  const receiptsInRange = receipts.filter(r => r.date >= period.start_date && r.date <= period.end_date);
+  const overdue = cheques.filter(c => c.overdue);
+  const sumOf = <T>(items: T[], valueOf: (item: T) => string) => items.reduce((sum, item) => sum + toCents(valueOf(item)), 0);
+  const expected = sumOf(inRange, c => c.expected);
+  const receiptTotal = sumOf(receiptsInRange, r => r.amount);
+
+  return {
+    vendor,
+    start_date: period.start_date,
+    end_date: period.end_date,
+    overdue_days: overdueDays,
+    opening_balance: fromCents(balanceOf(date => date < period.start_date)),
+    closing_balance: fromCents(balanceOf(date => date <= period.end_date)),
+    totals: {
+      cheque_count: inRange.length,
+      cheque_amount: fromCents(sumOf(inRange, c => c.cheque_amount)),
+      vendor_fees: fromCents(sumOf(inRange, c => c.vendor_fee)),
+      expected: fromCents(expected),
+      received_on_cheques: fromCents(sumOf(inRange, c => c.received)),
+      receipts: fromCents(receiptTotal),
+      variance: fromCents(receiptTotal - expected),
+      outstanding: fromCents(sumOf(inRange, c => c.outstanding)),
+      overdue_count: overdue.length,
+      overdue_amount: fromCents(sumOf(overdue, c => c.outstanding))
+    },
+    cheques: inRange,
+    receipts: receiptsInRange,
+    overdue
+  };
+}
+
+/**
+ * A settlement's figures without its cheques and receipts
+ * @param settlement The settlement
+ */
+export function summarizeVendorSettlement({ cheques, receipts, overdue, ...summary }: VendorSettlement): VendorSettlementSummary {
+  return summary;
+}
+
+/**
+ * The file name a settlement is downloaded as
+ * @param settlement The settlement
+ * @param extension The file type
+ */
+export function vendorSettlementFileName(settlement: VendorSettlementSummary, extension: 'pdf' | 'csv'): string {
+  const name = settlement.vendor.vendor_name.replace(/[^A-Za-z0-9]+/g, "-").replace(/^-|-$/g, "") || settlement.vendor.vendor_id;
+  return `settlement-${name}-${settlement.start_date}-to-${settlement.end_date}.${extension}`;
+}
+
+// The settlement's figures as label and value pairs
+function settlementFigures(settlement: VendorSettlementSummary): [string, string][] {
+  const { totals } = settlement;
+  return [
+    ["Opening balance", settlement.opening_balance],
+    ["Cheques submitted", String(totals.cheque_count)],
+    ["Cheque amount", totals.cheque_amount],
+    ["Vendor fees", totals.vendor_fees],
+    ["Expected", totals.expected],
+    ["Received in period", totals.receipts],
+    ["Variance", totals.variance],
+    ["Still owed on period's cheques", totals.outstanding],
+    ["Closing balance", settlement.closing_balance],
+    [`Overdue cheques (over ${settlement.overdue_days} days)`, String(totals.overdue_count)],
+    ["Overdue amount", totals.overdue_amount]
+  ];
+}
+
+const CHEQUE_COLUMNS: [string, (cheque: VendorSettlementCheque) => string | number][] = [
+  ['Date', c => c.date],
+  ['Cheque Number', c => c.cheque_number],
+  ['Customer', c => c.customer_name],
+  ['Drawer Bank', c => c.drawer_bank ?? ""],
+  ['Status', c => TRANSACTION_STATUS_LABELS[c.status]],
+  ['Batch', c => c.batch_id ?? ""],
+  ['Cheque Amount', c => c.cheque_amount],
+  ['Vendor Fee', c => c.vendor_fee],
+  ['Expected', c => c.expected],
+  ['Received', c => c.received],
+  ['Outstanding', c => c.outstanding],
+  ['Days Outstanding', c => c.days_outstanding],
+  ['Overdue', c => c.overdue ? "Yes" : ""]
+];
+
+/**
+ * CSV of a settlement: its figures, then its cheques, then its receipts
+ * @param settlement The settlement
+ */
+export function vendorSettlementToCsv(settlement: VendorSettlement): string {
+  const lines: unknown[][] = [
+    ['Vendor', `${settlement.vendor.vendor_name} (${settlement.vendor.vendor_id})`],
+    ['Period', `${settlement.start_date} to ${settlement.end_date}`],
+    ...settlementFigures(settlement),
+    [],
+    CHEQUE_COLUMNS.map(([header]) => header),
+    ...settlement.cheques.map(cheque => CHEQUE_COLUMNS.map(([, valueOf]) => valueOf(cheque))),
+    [],
+    ['Receipt Date', 'Reference', 'Description', 'Amount'],
+    ...settlement.receipts.map(receipt => [receipt.date, receipt.reference, receipt.description, receipt.amount])
+  ];
+  return lines.map(line => line.map(csvField).join(',')).join('\r\n');
+}
+
+/**
+ * Render a settlement as a branded PDF remittance report
+ * @param settlement The settlement
+ * @returns The PDF file
+ */
+export async function renderVendorSettlementPdf(settlement: VendorSettlement): Promise<Uint8Array> {
+  const { vendor, totals } = settlement;
+  const chequeRow = (cheque: VendorSettlementCheque) => [
+    cheque.date,
+    cheque.cheque_number,
+    cheque.customer_name,
+    TRANSACTION_STATUS_LABELS[cheque.status],
+    formatAmount(cheque.cheque_amount),
+    formatAmount(cheque.vendor_fee),
+    formatAmount(cheque.expected),
+    formatAmount(cheque.received),
+    formatAmount(cheque.outstanding),
+    cheque.overdue ? `${cheque.days_outstanding} days` : ""
+  ];
+  const chequeColumns = [
+    { header: "Date", width: 9 },
+    { header: "Cheque", width: 10 },
+    { header: "Customer", width: 16 },
+    { header: "Status", width: 8 },
+    { header: "Amount", width: 10, align: 'right' as const },
+    { header: "Vendor fee", width: 9, align: 'right' as const },
+    { header: "Expected", width: 10, align: 'right' as const },
+    { header: "Received", width: 10, align: 'right' as const },
+    { header: "Outstanding", width: 10, align: 'right' as const },
+    { header: "Overdue", width: 8, align: 'right' as const }
+  ];
+
+  return renderPdfReport({
+    title: "Vendor Settlement",
+    subtitle: vendor.vendor_name,
+    details: [
+      ["Vendor", `${vendor.vendor_name} (${vendor.vendor_id})`],
+      ...(vendor.contact_info ? [["Contact", vendor.contact_info] as [string, string]] : []),
+      ["Period", `${settlement.start_date} to ${settlement.end_date}`],
+      ["Fee rate", `${vendor.fee_percentage}%`]
+    ],
+    summary: [
+      ["Opening balance", formatAmount(settlement.opening_balance)],
+      ["Cheques submitted", `${totals.cheque_count} for ${formatAmount(totals.cheque_amount)}`],
+      ["Vendor fees", formatAmount(totals.vendor_fees)],
+      ["Expected", formatAmount(totals.expected)],
+      ["Received in period", formatAmount(totals.receipts)],
+      ["Variance", formatAmount(totals.variance)],
+      [`Overdue (over ${settlement.overdue_days} days)`, formatAmount(totals.overdue_amount)],
+      ["Closing balance owed", formatAmount(settlement.closing_balance)]
+    ],
+    tables: [
+      {
+        heading: "Cheques submitted",
+        columns: chequeColumns,
+        rows: settlement.cheques.map(chequeRow),
+        totals: [
+          "", `${totals.cheque_count} cheques`, "", "",
+          formatAmount(totals.cheque_amount),
+          formatAmount(totals.vendor_fees),
+          formatAmount(totals.expected),
+          formatAmount(totals.received_on_cheques),
+          formatAmount(totals.outstanding),
+          ""
+        ],
+        empty: "No cheques were submitted in this period."
+      },
+      {
+        heading: "Payments received",
+        columns: [
+          { header: "Date", width: 10 },
+          { header: "Reference", width: 14 },
+          { header: "Description", width: 50 },
+          { header: "Amount", width: 12, align: 'right' }
+        ],
+        rows: settlement.receipts.map(receipt => [receipt.date, receipt.reference, receipt.description, formatAmount(receipt.amount)]),
+        totals: ["", "", "Total received", formatAmount(totals.receipts)],
+        empty: "No payments were received in this period."
+      },
+      ...(settlement.overdue.length > 0 ? [{
+        heading: `Overdue cheques (unpaid for over ${settlement.overdue_days} days)`,
+        columns: chequeColumns,
+        rows: settlement.overdue.map(chequeRow),
+        totals: ["", `${totals.overdue_count} cheques`, "", "", "", "", "", "", formatAmount(totals.overdue_amount), ""]
+      }] : [])
+    ],
+    notes: [
+      "Expected is each cheque's amount less the vendor fee. Received and outstanding amounts are as they stand today.",
+      "Variance compares payments received in the period with what the period's cheques are expected to pay."
+    ]
+  });
+}
@@ -11,6 +11,82 @@ import {
   type InsertAIMessage,
   type CustomerDeposit,
   type InsertCustomerDeposit,
+  type DepositAllocation,
+  type CustomerDepositWithAllocations,
+  type AllocateDeposit,
+  type TransactionPayment,
+  type InsertTransactionPayment,
+  type ChequeReturn,
+  type InsertChequeReturn,
+  type TransactionStatusChange,
+  type TransactionStatusChangeWithUser,
+  type DuplicateChequeCheck,
+  type DuplicateChequeMatch,
+  type FeeSchedule,
+  type FeeParty,
+  type FeeRates,
+  type InsertFeeSchedule,
+  type FeeRecalculation,
+  type FeeRecalculationPreview,
+  type FeeRecalculationRequest,
+  type TransactionFeeValues,
+  type AuditActor,
+  type AuditEntity,
+  type AuditEntry,
+  type AuditEntryWithUser,
+  type AuditAction,
+  type Trash,
+  type BulkTransactionAction,
+  type BulkTransactionResult,
+  type TransactionSearchQuery,
+  type TransactionSearchResult,
+  type TransactionAttachment,
+  type InsertTransactionAttachment,
+  type TransactionComment,
+  type TransactionCommentWithUser,
+  type InsertTransactionComment,
+  type Tag,
+  type InsertTag,
+  type UpdateTag,
+  type TransactionTag,
+  type CreateTransactionOptions,
+  type CreditLimitBreach,
+  type CustomerExposure,
+  type VendorRecommendation,
+  type VendorRecommendationRequest,
+  type VendorVolume,
+  type VendorBatch,
+  type VendorBatchDetails,
+  type VendorBatchReceipt,
+  type VendorBatchWithTotals,
+  type InsertVendorBatch,
+  type UpdateVendorBatch,
+  type BankStatement,
+  type BankStatementLine,
+  type BankStatementMatch,
+  type BankStatementSummary,
+  type BankStatementDetails,
+  type AccountingPeriod,
+  type AccountingPeriodWithUsers,
+  type ApprovalAction,
+  type ApprovalDetails,
+  type ApprovalPolicy,
+  type ApprovalRequest,
+  type ApprovalRequestWithUsers,
+  type ApprovalStatus,
+  type InsertApprovalPolicy,
+  type UpdateApprovalPolicy,
+  type CustomerStatement,
+  type StatementPeriod,
+  type VendorSettlement,
+  insertTransactionSchema,
+  insertTransactionPaymentSchema,
+  insertCustomerSchema,
+  insertVendorSchema,
+  type VendorPayment,
+  type InsertVendorPayment,
+  type VendorPaymentAllocation,
+  type VendorPaymentWithAllocations,
   type User,
   type InsertUser,
   type UpdateUser,
@@ -21,6 +97,27 @@ import {
 } from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
+import { allocateOldestFirst, allocateManually, outstandingAmount, toCents, fromCents, type OpenBalance } from "./services/allocation";
+import { summarizePayments } from "./services/ledger";
+import { computeReturnReversal } from "./services/cheque-returns";
+import { assertInitialStatus, assertStatusEdit, assertStatusTransition } from "./services/transaction-status";
+import { findDuplicateCheques } from "./services/duplicate-cheques";
+import { FEE_SCHEDULE_START, planScheduleAddition, planScheduleRemoval, ruleOf, ruleOnDate, scheduleCovers, toDateString } from "./services/fee-schedules";
+import { affectsFees, calculateTransactionFees } from "./services/fee-rules";
+import { percentageRule } from "@shared/fee-engine";
+import { assertFeesUnchanged, buildRecalculationPreview, hasFrozenFees, isRecalculable } from "./services/fee-recalculation";
+import { buildAuditEntry, revertValues, webActor } from "./services/audit";
+import { assertPurgeable, TrashError } from "./services/trash";
+import { bulkFailureMessage, emptyBulkResult, vendorReceiptFor } from "./services/bulk-transactions";
+import { compareBySort, decodeSearchCursor, encodeSearchCursor, isAfterCursor, matchesTransactionSearch, withTieBreaker } from "./services/transaction-search";
+import { CreditLimitError, exposureOf, findLimitBreaches, limitOverrideNote, summarizeExposure, totalExposure, type ExposureFields } from "./services/credit-limits";
+import { rankVendors, totalVendorVolumes } from "./services/vendor-routing";
+import { assertBatchable, assertBatchOpen, assertBatchReceivable, assertBatchStatusChange, batchStatusOf, summarizeBatch, VendorBatchError } from "./services/vendor-batches";
+import { assertClosable, assertPeriodsOpen, assertReopenable } from "./services/accounting-periods";
+import { assertDecidable, depositPayoutDetails, heldPayouts, matchApprovalPolicy, payoutDepositId } from "./services/approvals";
+import { buildCustomerStatement } from "./services/customer-statements";
+import { buildVendorSettlement } from "./services/vendor-settlements";
+import { autoMatchLines, checkMatch, matchColumns, ReconciliationError, receiptFromLine, toReconciliationLine, type ParsedBankStatement, type ReconciliationTargets } from "./services/bank-reconciliation";
 
 export interface IStorage {
   // Session store
@@ -34,28 +131,145 @@ export interface IStorage {
     vendorId?: string;
     status?: string;
   }): Promise<ChequeTransaction[]>;
+  searchTransactions(query: TransactionSearchQuery): Promise<TransactionSearchResult>;
   getTransaction(id: number): Promise<ChequeTransaction | undefined>;
   getTransactionWithDetails(id: number): Promise<TransactionWithDetails | undefined>;
-  createTransaction(transaction: InsertTransaction): Promise<ChequeTransaction>;
-  updateTransaction(id: number, transaction: Partial<InsertTransaction>): Promise<ChequeTransaction | undefined>;
-  deleteTransaction(id: number): Promise<boolean>;
+  createTransaction(transaction: InsertTransaction, actor?: AuditActor, options?: CreateTransactionOptions): Promise<ChequeTransaction>;
+  checkCreditLimits(transaction: InsertTransaction): Promise<CreditLimitBreach[]>;
+  checkImportLimits(transactions: InsertTransaction[]): Promise<CreditLimitBreach[][]>;
+  importTransactions(transactions: InsertTransaction[], actor?: AuditActor, options?: CreateTransactionOptions): Promise<ChequeTransaction[]>;
+  updateTransaction(id: number, transaction: Partial<InsertTransaction>, actor?: AuditActor): Promise<ChequeTransaction | undefined>;
+  deleteTransaction(id: number, actor?: AuditActor): Promise<boolean>;
+  bulkUpdateTransactions(request: BulkTransactionAction, actor?: AuditActor): Promise<BulkTransactionResult>;
+  getTransactionStatusHistory(transactionId: number): Promise<TransactionStatusChangeWithUser[]>;
+  findDuplicateTransactions(candidate: DuplicateChequeCheck): Promise<DuplicateChequeMatch[]>;
+  
+  // Attachment methods
+  getTransactionAttachments(transactionId: number): Promise<TransactionAttachment[]>;
+  getAttachment(id: number): Promise<TransactionAttachment | undefined>;
+  createAttachment(attachment: InsertTransactionAttachment): Promise<TransactionAttachment>;
+  linkConversationAttachments(conversationId: string, transactionId: number, since: Date): Promise<TransactionAttachment[]>;
+  deleteAttachment(id: number): Promise<boolean>;
+  
+  // Comment methods
+  getTransactionComments(transactionId: number): Promise<TransactionCommentWithUser[]>;
+  getTransactionComment(id: number): Promise<TransactionComment | undefined>;
+  createTransactionComment(transactionId: number, comment: InsertTransactionComment, actor: AuditActor): Promise<TransactionComment>;
+  deleteTransactionComment(id: number): Promise<boolean>;
+  
+  // Tag methods
+  getTags(): Promise<Tag[]>;
+  createTag(tag: InsertTag): Promise<Tag>;
+  updateTag(id: number, tag: UpdateTag): Promise<Tag | undefined>;
+  deleteTag(id: number): Promise<boolean>;
+  getTransactionTags(transactionId: number): Promise<Tag[]>;
+  setTransactionTags(transactionId: number, tagIds: number[]): Promise<Tag[]>;
   
   // Customer methods
   getCustomers(): Promise<Customer[]>;
   getCustomer(id: number): Promise<Customer | undefined>;
-  createCustomer(customer: InsertCustomer): Promise<Customer>;
-  updateCustomer(id: number, customer: Partial<InsertCustomer>): Promise<Customer | undefined>;
-  deleteCustomer(id: number): Promise<boolean>;
+  createCustomer(customer: InsertCustomer, actor?: AuditActor): Promise<Customer>;
+  updateCustomer(id: number, customer: Partial<InsertCustomer>, actor?: AuditActor): Promise<Customer | undefined>;
+  deleteCustomer(id: number, actor?: AuditActor): Promise<boolean>;
+  getCustomerExposures(date?: string): Promise<CustomerExposure[]>;
+  getCustomerExposure(customerId: number, date?: string): Promise<CustomerExposure | undefined>;
   
   // Vendor methods
   getVendors(): Promise<Vendor[]>;
   getVendor(id: string): Promise<Vendor | undefined>;
-  createVendor(vendor: InsertVendor): Promise<Vendor>;
-  updateVendor(id: string, vendor: Partial<InsertVendor>): Promise<Vendor | undefined>;
-  deleteVendor(id: string): Promise<boolean>;
+  createVendor(vendor: InsertVendor, actor?: AuditActor): Promise<Vendor>;
+  updateVendor(id: string, vendor: Partial<InsertVendor>, actor?: AuditActor): Promise<Vendor | undefined>;
+  deleteVendor(id: string, actor?: AuditActor): Promise<boolean>;
+  getVendorVolumes(date?: string): Promise<VendorVolume[]>;
+  recommendVendors(request: VendorRecommendationRequest): Promise<VendorRecommendation[]>;
+  
+  // Fee schedule methods
+  getFeeSchedules(party: FeeParty, partyId: number | string): Promise<FeeSchedule[]>;
+  createFeeSchedule(party: FeeParty, partyId: number | string, schedule: InsertFeeSchedule, userId?: number): Promise<FeeSchedule>;
+  deleteFeeSchedule(scheduleId: number): Promise<boolean>;
+  getFeeRates(customerId: number, vendorId: string, date?: string | Date | null): Promise<FeeRates>;
+  
+  // Fee recalculation methods
+  previewFeeRecalculation(request: FeeRecalculationRequest): Promise<FeeRecalculationPreview>;
+  applyFeeRecalculation(request: FeeRecalculationRequest, userId?: number): Promise<FeeRecalculation>;
+  getFeeRecalculations(): Promise<FeeRecalculation[]>;
+  
+  // Audit trail methods
+  getAuditEntries(entity: AuditEntity, entityId: number | string): Promise<AuditEntryWithUser[]>;
+  getAuditEntry(auditId: number): Promise<AuditEntry | undefined>;
+  revertAuditEntry(auditId: number, actor: AuditActor): Promise<ChequeTransaction | Customer | Vendor | undefined>;
+  
+  // Trash methods (deleted records are hidden from every other query)
+  getTrash(): Promise<Trash>;
+  restoreTransaction(id: number, actor?: AuditActor): Promise<ChequeTransaction | undefined>;
+  restoreCustomer(id: number, actor?: AuditActor): Promise<Customer | undefined>;
+  restoreVendor(id: string, actor?: AuditActor): Promise<Vendor | undefined>;
+  purgeTransaction(id: number, actor?: AuditActor): Promise<boolean>;
+  purgeCustomer(id: number, actor?: AuditActor): Promise<boolean>;
+  purgeVendor(id: string, actor?: AuditActor): Promise<boolean>;
+  
+  // Transaction payment ledger methods
+  getTransactionPayments(transactionId: number): Promise<TransactionPayment[]>;
+  createTransactionPayment(transactionId: number, payment: InsertTransactionPayment, userId?: number): Promise<TransactionPayment>;
+  deleteTransactionPayment(paymentId: number): Promise<boolean>;
+  
+  // Returned cheque methods
+  getChequeReturn(transactionId: number): Promise<ChequeReturn | undefined>;
+  returnCheque(transactionId: number, details: InsertChequeReturn, userId?: number): Promise<ChequeReturn>;
   
   // Customer Deposits methods
-  createCustomerDeposit(deposit: InsertCustomerDeposit): Promise<CustomerDeposit>;
+  getCustomerDeposits(customerId?: number): Promise<CustomerDeposit[]>;
+  getCustomerDeposit(id: number): Promise<CustomerDepositWithAllocations | undefined>;
+  createCustomerDeposit(deposit: InsertCustomerDeposit, allocation?: AllocateDeposit, actor?: AuditActor): Promise<CustomerDepositWithAllocations>;
+  allocateCustomerDeposit(id: number, allocation: AllocateDeposit, actor?: AuditActor): Promise<CustomerDepositWithAllocations | undefined>;
+  reverseDepositAllocation(allocationId: number, actor?: AuditActor): Promise<boolean>;
+  deleteCustomerDeposit(id: number, actor?: AuditActor): Promise<boolean>;
+  
+  // Vendor Payments methods
+  getVendorPayments(vendorId?: string): Promise<VendorPayment[]>;
+  getVendorPayment(id: number): Promise<VendorPaymentWithAllocations | undefined>;
+  createVendorPayment(payment: InsertVendorPayment): Promise<VendorPaymentWithAllocations>;
+  updateVendorPayment(id: number, payment: Partial<InsertVendorPayment>): Promise<VendorPaymentWithAllocations | undefined>;
+  deleteVendorPayment(id: number): Promise<boolean>;
+  
+  // Vendor batch methods
+  getVendorBatches(vendorId?: string): Promise<VendorBatchWithTotals[]>;
+  getVendorBatch(id: number): Promise<VendorBatchDetails | undefined>;
+  createVendorBatch(batch: InsertVendorBatch, userId?: number): Promise<VendorBatchDetails>;
+  updateVendorBatch(id: number, batch: UpdateVendorBatch): Promise<VendorBatchDetails | undefined>;
+  deleteVendorBatch(id: number): Promise<boolean>;
+  addBatchTransactions(id: number, transactionIds: number[]): Promise<VendorBatchDetails>;
+  removeBatchTransactions(id: number, transactionIds: number[]): Promise<VendorBatchDetails>;
+  recordBatchReceipt(id: number, receipt: VendorBatchReceipt): Promise<VendorPaymentWithAllocations>;
+  
+  // Bank reconciliation methods
+  getBankStatements(): Promise<BankStatementSummary[]>;
+  getBankStatement(id: number): Promise<BankStatementDetails | undefined>;
+  importBankStatement(fileName: string, statement: ParsedBankStatement, userId?: number): Promise<BankStatementDetails>;
+  deleteBankStatement(id: number): Promise<boolean>;
+  matchStatementLine(lineId: number, match: BankStatementMatch, userId?: number): Promise<BankStatementDetails>;
+  unmatchStatementLine(lineId: number): Promise<BankStatementDetails>;
+  ignoreStatementLine(lineId: number): Promise<BankStatementDetails>;
+  
+  // Accounting period methods
+  getAccountingPeriods(): Promise<AccountingPeriodWithUsers[]>;
+  closeAccountingPeriod(period: string, actor?: AuditActor): Promise<AccountingPeriod>;
+  reopenAccountingPeriod(period: string, actor?: AuditActor): Promise<AccountingPeriod>;
+  
+  // Approval methods
+  getApprovalPolicies(): Promise<ApprovalPolicy[]>;
+  createApprovalPolicy(policy: InsertApprovalPolicy): Promise<ApprovalPolicy>;
+  updateApprovalPolicy(id: number, policy: UpdateApprovalPolicy): Promise<ApprovalPolicy | undefined>;
+  deleteApprovalPolicy(id: number): Promise<boolean>;
+  submitForApproval(action: ApprovalAction, details: ApprovalDetails, actor?: AuditActor): Promise<ApprovalRequestWithUsers | undefined>;
+  getApprovalRequests(filters?: { status?: ApprovalStatus; requestedBy?: number }): Promise<ApprovalRequestWithUsers[]>;
+  getApprovalRequest(id: number): Promise<ApprovalRequestWithUsers | undefined>;
+  approveApprovalRequest(id: number, actor?: AuditActor): Promise<ApprovalRequestWithUsers>;
+  rejectApprovalRequest(id: number, actor?: AuditActor, note?: string): Promise<ApprovalRequestWithUsers>;
+  
+  // Customer statements and vendor settlements
+  getCustomerStatement(customerId: number, period: StatementPeriod): Promise<CustomerStatement | undefined>;
+  getVendorSettlement(vendorId: string, period: StatementPeriod, overdueDays?: number): Promise<VendorSettlement | undefined>;
   
   // Business summary
   getBusinessSummary(): Promise<BusinessSummary>;
@@ -88,6 +302,7 @@ export interface IStorage {
   
   // Telegram user methods
   getTelegramUserByChatId(chatId: string): Promise<TelegramUser | undefined>;
+  getTelegramUsersByUserIds(userIds: number[]): Promise<TelegramUser[]>;
   createTelegramUser(telegramUser: InsertTelegramUser): Promise<TelegramUser>;
   deleteTelegramUser(chatId: string): Promise<boolean>;
   updateTelegramUserLastActive(chatId: string): Promise<TelegramUser | undefined>;
@@ -101,11 +316,49 @@ export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private userConversations: Map<number, UserConversation>;
   private telegramUsers: Map<string, TelegramUser>;
+  private transactionPayments: TransactionPayment[];
+  private chequeReturns: Map<number, ChequeReturn>;
+  private statusHistory: TransactionStatusChange[];
+  private attachments: Map<number, TransactionAttachment>;
+  private transactionComments: TransactionComment[];
+  private tags: Map<number, Tag>;
+  private transactionTags: TransactionTag[];
+  private feeSchedules: FeeSchedule[];
+  private feeRecalculations: FeeRecalculation[];
+  private auditLog: AuditEntry[];
+  private customerDeposits: Map<number, CustomerDeposit>;
+  private depositAllocations: DepositAllocation[];
+  private vendorPayments: Map<number, VendorPayment>;
+  private vendorPaymentAllocations: VendorPaymentAllocation[];
+  private vendorBatches: Map<number, VendorBatch>;
+  private bankStatements: Map<number, BankStatement>;
+  private bankStatementLines: BankStatementLine[];
+  private accountingPeriods: Map<string, AccountingPeriod>;
+  private approvalPolicies: Map<number, ApprovalPolicy>;
+  private approvalRequests: Map<number, ApprovalRequest>;
   private nextTransactionId: number;
   private nextCustomerId: number;
   private nextMessageId: number;
   private nextUserId: number;
   private nextConversationId: number;
+  private nextTransactionPaymentId: number;
+  private nextReturnId: number;
+  private nextStatusHistoryId: number;
+  private nextAttachmentId: number;
+  private nextCommentId: number;
+  private nextTagId: number;
+  private nextFeeScheduleId: number;
+  private nextFeeRecalculationId: number;
+  private nextAuditId: number;
+  private nextDepositId: number;
+  private nextDepositAllocationId: number;
+  private nextVendorPaymentId: number;
+  private nextAllocationId: number;
+  private nextBatchId: number;
+  private nextStatementId: number;
+  private nextStatementLineId: number;
+  private nextApprovalPolicyId: number;
+  private nextApprovalId: number;
   
   // Session store for memory storage
   sessionStore: session.Store;
@@ -118,11 +371,49 @@ export class MemStorage implements IStorage {
     this.users = new Map();
     this.userConversations = new Map();
     this.telegramUsers = new Map();
+    this.transactionPayments = [];
+    this.chequeReturns = new Map();
+    this.statusHistory = [];
+    this.attachments = new Map();
+    this.transactionComments = [];
+    this.tags = new Map();
+    this.transactionTags = [];
+    this.feeSchedules = [];
+    this.feeRecalculations = [];
+    this.auditLog = [];
+    this.customerDeposits = new Map();
+    this.depositAllocations = [];
+    this.vendorPayments = new Map();
+    this.vendorPaymentAllocations = [];
+    this.vendorBatches = new Map();
+    this.bankStatements = new Map();
+    this.bankStatementLines = [];
+    this.accountingPeriods = new Map();
+    this.approvalPolicies = new Map();
+    this.approvalRequests = new Map();
     this.nextTransactionId = 1;
     this.nextCustomerId = 1;
     this.nextMessageId = 1;
     this.nextUserId = 1;
     this.nextConversationId = 1;
+    this.nextTransactionPaymentId = 1;
+    this.nextReturnId = 1;
+    this.nextStatusHistoryId = 1;
+    this.nextAttachmentId = 1;
+    this.nextCommentId = 1;
+    this.nextTagId = 1;
+    this.nextFeeScheduleId = 1;
+    this.nextFeeRecalculationId = 1;
+    this.nextAuditId = 1;
+    this.nextDepositId = 1;
+    this.nextDepositAllocationId = 1;
+    this.nextVendorPaymentId = 1;
+    this.nextAllocationId = 1;
+    this.nextBatchId = 1;
+    this.nextStatementId = 1;
+    this.nextStatementLineId = 1;
+    this.nextApprovalPolicyId = 1;
+    this.nextApprovalId = 1;
     
     // Create memory store for session data (not for production)
     const MemoryStore = createMemoryStore(session);
@@ -158,8 +449,11 @@ export class MemStorage implements IStorage {
       customer_name: "Atlas Construction Co.",
       contact_info: "contact@atlasconstruction.com",
       fee_percentage: "2.00" as any,
+      credit_limit: null,
+      daily_limit: null,
       created_at: new Date(),
-      updated_at: new Date()
+      updated_at: new Date(),
+      deleted_at: null
     };
     
     const customer2: Customer = {
@@ -167,8 +461,11 @@ export class MemStorage implements IStorage {
       customer_name: "Martinez Landscaping",
       contact_info: "info@martinezlandscaping.com",
       fee_percentage: "3.00" as any,
+      credit_limit: null,
+      daily_limit: null,
       created_at: new Date(),
-      updated_at: new Date()
+      updated_at: new Date(),
+      deleted_at: null
     };
     
     this.customers.set(customer1.customer_id, customer1);
@@ -180,8 +477,14 @@ export class MemStorage implements IStorage {
       vendor_name: "Central Bank Inc.",
       fee_percentage: "1.00" as any,
       contact_info: "support@centralbank.com",
+      daily_capacity: null,
+      weekly_capacity: null,
+      min_cheque_amount: null,
+      max_cheque_amount: null,
+      accepted_banks: null,
       created_at: new Date(),
-      updated_at: new Date()
+      updated_at: new Date(),
+      deleted_at: null
     };
     
     const vendor2: Vendor = {
@@ -189,13 +492,25 @@ export class MemStorage implements IStorage {
       vendor_name: "First National",
       fee_percentage: "1.50" as any,
       contact_info: "info@firstnational.com",
+      daily_capacity: null,
+      weekly_capacity: null,
+      min_cheque_amount: null,
+      max_cheque_amount: null,
+      accepted_banks: null,
       created_at: new Date(),
-      updated_at: new Date()
+      updated_at: new Date(),
+      deleted_at: null
     };
     
     this.vendors.set(vendor1.vendor_id, vendor1);
     this.vendors.set(vendor2.vendor_id, vendor2);
     
+    // Initial fee schedules
+    this.insertFeeSchedule('customer', customer1.customer_id, { fee_percentage: customer1.fee_percentage, effective_from: FEE_SCHEDULE_START });
+    this.insertFeeSchedule('customer', customer2.customer_id, { fee_percentage: customer2.fee_percentage, effective_from: FEE_SCHEDULE_START });
+    this.insertFeeSchedule('vendor', vendor1.vendor_id, { fee_percentage: vendor1.fee_percentage, effective_from: FEE_SCHEDULE_START });
+    this.insertFeeSchedule('vendor', vendor2.vendor_id, { fee_percentage: vendor2.fee_percentage, effective_from: FEE_SCHEDULE_START });
+    
     // Add sample transactions
     const transaction1: ChequeTransaction = {
       transaction_id: this.nextTransactionId++,
@@ -203,18 +518,23 @@ export class MemStorage implements IStorage {
       customer_id: customer1.customer_id,
       cheque_number: "43672",
       cheque_amount: "4850.00" as any,
+      drawer_bank: null,
       customer_fee: "97.00" as any,
       net_payable_to_customer: "4753.00" as any,
       vendor_id: vendor1.vendor_id,
       vendor_fee: "48.50" as any,
       amount_to_receive_from_vendor: "4801.50" as any,
       profit: "48.50" as any,
+      customer_fee_override: null,
+      vendor_fee_override: null,
+      fee_override_reason: null,
       paid_to_customer: "4753.00" as any,
       received_from_vendor: "4801.50" as any,
       profit_withdrawn: "0.00" as any,
+      batch_id: null,
       created_at: new Date(),
       updated_at: new Date(),
-      status: "completed"
+      status: "settled"
     };
     
     const transaction2: ChequeTransaction = {
@@ -223,24 +543,68 @@ export class MemStorage implements IStorage {
       customer_id: customer2.customer_id,
       cheque_number: "98752",
       cheque_amount: "2340.00" as any,
+      drawer_bank: null,
       customer_fee: "70.20" as any,
       net_payable_to_customer: "2269.80" as any,
       vendor_id: vendor2.vendor_id,
       vendor_fee: "35.10" as any,
       amount_to_receive_from_vendor: "2304.90" as any,
       profit: "35.10" as any,
+      customer_fee_override: null,
+      vendor_fee_override: null,
+      fee_override_reason: null,
       paid_to_customer: "0.00" as any,
       received_from_vendor: "0.00" as any,
       profit_withdrawn: "0.00" as any,
+      batch_id: null,
       created_at: new Date(),
       updated_at: new Date(),
+      deleted_at: null,
       status: "pending"
     };
     
     this.transactions.set(transaction1.transaction_id, transaction1);
     this.transactions.set(transaction2.transaction_id, transaction2);
+    this.recordStatusChange(transaction1.transaction_id, null, "pending");
+    this.recordStatusChange(transaction1.transaction_id, "pending", "paid_out");
+    this.recordStatusChange(transaction1.transaction_id, "paid_out", "settled");
+    this.recordStatusChange(transaction2.transaction_id, null, "pending");
+    
+    // Ledger events behind the paid/received totals of the settled sample transaction
+    this.recordPaymentEvent({
+      transaction_id: transaction1.transaction_id,
+      type: 'payout',
+      amount: "4753.00",
+      method: "cash"
+    });
+    this.recordPaymentEvent({
+      transaction_id: transaction1.transaction_id,
+      type: 'vendor_receipt',
+      amount: "4801.50",
+      method: "wire"
+    });
   }
 
+  // Records that haven't been moved to the trash
+  private activeTransactions(): ChequeTransaction[] {
+    return Array.from(this.transactions.values()).filter(t => !t.deleted_at);
+  }
+  
+  private activeTransaction(id: number): ChequeTransaction | undefined {
+    const transaction = this.transactions.get(id);
+    return transaction && !transaction.deleted_at ? transaction : undefined;
+  }
+  
+  private activeCustomer(id: number): Customer | undefined {
+    const customer = this.customers.get(id);
+    return customer && !customer.deleted_at ? customer : undefined;
+  }
+  
+  private activeVendor(id: string): Vendor | undefined {
+    const vendor = this.vendors.get(id);
+    return vendor && !vendor.deleted_at ? vendor : undefined;
+  }
+  
   // Transaction methods
   async getTransactions(options?: {
     limit?: number;
@@ -249,7 +613,7 @@ export class MemStorage implements IStorage {
     vendorId?: string;
     status?: string;
   }): Promise<ChequeTransaction[]> {
-    let transactions = Array.from(this.transactions.values());
+    let transactions = this.activeTransactions();
     
     // Apply filters
     if (options?.customerId) {
@@ -272,300 +636,2198 @@ export class MemStorage implements IStorage {
       transactions = transactions.slice(options.offset);
     }
     
-    if (options?.limit) {
-      transactions = transactions.slice(0, options.limit);
+    if (options?.limit) {
+      transactions = transactions.slice(0, options.limit);
+    }
+    
+    return transactions;
+  }
+
+  async searchTransactions(query: TransactionSearchQuery): Promise<TransactionSearchResult> {
+    const sort = withTieBreaker(query.sort);
+    const after = query.cursor ? decodeSearchCursor(sort, query.cursor) : undefined;
+
+    const matching = this.activeTransactions()
+      .map(transaction => ({
+        ...transaction,
+        customer: { customer_name: this.customers.get(transaction.customer_id)?.customer_name ?? "Unknown" },
+        vendor: { vendor_name: this.vendors.get(transaction.vendor_id)?.vendor_name ?? "Unknown" },
+        tags: this.tagsOf(transaction.transaction_id)
+      }))
+      .filter(transaction => matchesTransactionSearch(transaction, query))
+      .sort(compareBySort(sort));
+
+    const remaining = after ? matching.filter(transaction => isAfterCursor(sort, after, transaction)) : matching;
+    const transactions = remaining.slice(0, query.limit);
+    const hasMore = remaining.length > query.limit;
+
+    return {
+      transactions,
+      total: matching.length,
+      next_cursor: hasMore ? encodeSearchCursor(sort, transactions[transactions.length - 1]) : null
+    };
+  }
+
+  async getTransaction(id: number): Promise<ChequeTransaction | undefined> {
+    return this.activeTransaction(id);
+  }
+
+  async getTransactionWithDetails(id: number): Promise<TransactionWithDetails | undefined> {
+    const transaction = this.activeTransaction(id);
+    
+    if (!transaction) {
+      return undefined;
+    }
+    
+    const customer = this.customers.get(transaction.customer_id);
+    const vendor = this.vendors.get(transaction.vendor_id);
+    
+    if (!customer || !vendor) {
+      return undefined;
+    }
+    
+    return {
+      ...transaction,
+      customer: {
+        customer_name: customer.customer_name
+      },
+      vendor: {
+        vendor_name: vendor.vendor_name
+      }
+    };
+  }
+
+  async createTransaction(
+    transaction: InsertTransaction,
+    actor: AuditActor = webActor(),
+    options: CreateTransactionOptions = {}
+  ): Promise<ChequeTransaction> {
+    // Cheques over the customer's limits need an admin override
+    const breaches = await this.checkCreditLimits(transaction);
+    if (breaches.length > 0 && !options.override_limits) {
+      throw new CreditLimitError(breaches);
+    }
+    
+    const newTransaction = await this.insertTransaction(transaction, actor);
+    if (breaches.length > 0) {
+      await this.createTransactionComment(newTransaction.transaction_id, { body: limitOverrideNote(breaches) }, actor);
+    }
+    return newTransaction;
+  }
+
+  async checkCreditLimits(transaction: InsertTransaction): Promise<CreditLimitBreach[]> {
+    const customer = this.activeCustomer(transaction.customer_id);
+    if (!customer || !this.activeVendor(transaction.vendor_id)) {
+      return [];
+    }
+    
+    const rates = await this.getFeeRates(customer.customer_id, transaction.vendor_id, transaction.date);
+    const fees = calculateTransactionFees(transaction.cheque_amount, rates.customer_rule, rates.vendor_rule, transaction);
+    const date = toDateString(transaction.date);
+    const current = totalExposure(this.activeTransactions().filter(t => t.customer_id === customer.customer_id), date);
+    const added = exposureOf({ ...transaction, ...fees, date, received_from_vendor: null, status: transaction.status ?? null }, date);
+    return findLimitBreaches(customer, current, added);
+  }
+
+  async checkImportLimits(transactions: InsertTransaction[]): Promise<CreditLimitBreach[][]> {
+    // Rows count towards the limits of the rows below them
+    const earlier: (ExposureFields & { customer_id: number })[] = [];
+    const breaches: CreditLimitBreach[][] = [];
+    for (const transaction of transactions) {
+      const customer = this.activeCustomer(transaction.customer_id);
+      if (!customer || !this.activeVendor(transaction.vendor_id)) {
+        breaches.push([]);
+        continue;
+      }
+      
+      const rates = await this.getFeeRates(customer.customer_id, transaction.vendor_id, transaction.date);
+      const fees = calculateTransactionFees(transaction.cheque_amount, rates.customer_rule, rates.vendor_rule, transaction);
+      const date = toDateString(transaction.date);
+      const row = { ...transaction, ...fees, date, received_from_vendor: null, status: transaction.status ?? null };
+      const current = totalExposure([
+        ...this.activeTransactions().filter(t => t.customer_id === customer.customer_id),
+        ...earlier.filter(t => t.customer_id === customer.customer_id)
+      ], date);
+      breaches.push(findLimitBreaches(customer, current, exposureOf(row, date)));
+      earlier.push(row);
+    }
+    return breaches;
+  }
+
+  // Insert a transaction with its fees, first status and audit entry
+  private async insertTransaction(transaction: InsertTransaction, actor: AuditActor): Promise<ChequeTransaction> {
+    const customer = this.activeCustomer(transaction.customer_id);
+    if (!customer) {
+      throw new Error("Customer not found");
+    }
+    
+    const vendor = this.activeVendor(transaction.vendor_id);
+    if (!vendor) {
+      throw new Error("Vendor not found");
+    }
+    
+    const status = assertInitialStatus(transaction.status);
+    assertPeriodsOpen(this.closedPeriods(), [transaction.date], "transactions can't be entered in it");
+    
+    // Calculate fees and profit from the rules in force on the transaction date
+    const rates = await this.getFeeRates(customer.customer_id, vendor.vendor_id, transaction.date);
+    const fees = calculateTransactionFees(transaction.cheque_amount, rates.customer_rule, rates.vendor_rule, transaction);
+    
+    const newTransaction: ChequeTransaction = {
+      transaction_id: this.nextTransactionId++,
+      date: transaction.date || new Date(),
+      customer_id: transaction.customer_id,
+      cheque_number: transaction.cheque_number,
+      cheque_amount: transaction.cheque_amount,
+      drawer_bank: transaction.drawer_bank ?? null,
+      customer_fee: fees.customer_fee,
+      net_payable_to_customer: fees.net_payable_to_customer,
+      vendor_id: transaction.vendor_id,
+      vendor_fee: fees.vendor_fee,
+      amount_to_receive_from_vendor: fees.amount_to_receive_from_vendor,
+      profit: fees.profit,
+      customer_fee_override: transaction.customer_fee_override ?? null,
+      vendor_fee_override: transaction.vendor_fee_override ?? null,
+      fee_override_reason: transaction.fee_override_reason ?? null,
+      paid_to_customer: "0.00" as any,
+      received_from_vendor: "0.00" as any,
+      profit_withdrawn: "0.00" as any,
+      batch_id: null,
+      created_at: new Date(),
+      updated_at: new Date(),
+      deleted_at: null,
+      status
+    };
+    
+    this.transactions.set(newTransaction.transaction_id, newTransaction);
+    this.recordStatusChange(newTransaction.transaction_id, null, status, actor.user_id ?? undefined);
+    this.recordAudit('transaction', newTransaction.transaction_id, 'create', null, newTransaction, actor);
+    return newTransaction;
+  }
+
+  async importTransactions(
+    transactions: InsertTransaction[],
+    actor: AuditActor = webActor(),
+    options: CreateTransactionOptions = {}
+  ): Promise<ChequeTransaction[]> {
+    // Check every row before saving any so the import is all or nothing
+    for (const transaction of transactions) {
+      if (!this.activeCustomer(transaction.customer_id)) {
+        throw new Error("Customer not found");
+      }
+      if (!this.activeVendor(transaction.vendor_id)) {
+        throw new Error("Vendor not found");
+      }
+      assertInitialStatus(transaction.status);
+      assertPeriodsOpen(this.closedPeriods(), [transaction.date], "transactions can't be entered in it");
+    }
+    
+    // Rows over their customer's limits need an admin override
+    const breaches = await this.checkImportLimits(transactions);
+    const overLimit = breaches.find(rowBreaches => rowBreaches.length > 0);
+    if (overLimit && !options.override_limits) {
+      throw new CreditLimitError(overLimit);
+    }
+    
+    const imported: ChequeTransaction[] = [];
+    for (let index = 0; index < transactions.length; index++) {
+      const newTransaction = await this.insertTransaction(transactions[index], actor);
+      if (breaches[index].length > 0) {
+        await this.createTransactionComment(newTransaction.transaction_id, { body: limitOverrideNote(breaches[index]) }, actor);
+      }
+      imported.push(newTransaction);
+    }
+    return imported;
+  }
+
+  async updateTransaction(id: number, transaction: Partial<InsertTransaction>, actor: AuditActor = webActor()): Promise<ChequeTransaction | undefined> {
+    const existingTransaction = this.activeTransaction(id);
+    
+    if (!existingTransaction) {
+      return undefined;
+    }
+    
+    assertPeriodsOpen(this.closedPeriods(), [existingTransaction.date, transaction.date], "transactions dated in it can't be changed");
+    
+    let updatedTransaction = { ...existingTransaction };
+    
+    // Update fields
+    if (transaction.date) {
+      updatedTransaction.date = transaction.date;
+    }
+    
+    if (transaction.customer_id) {
+      updatedTransaction.customer_id = transaction.customer_id;
+    }
+    
+    if (transaction.cheque_number) {
+      updatedTransaction.cheque_number = transaction.cheque_number;
+    }
+    
+    if (transaction.cheque_amount) {
+      updatedTransaction.cheque_amount = transaction.cheque_amount;
+    }
+    
+    if (transaction.vendor_id) {
+      // A batch only holds its vendor's cheques
+      if (transaction.vendor_id !== existingTransaction.vendor_id && existingTransaction.batch_id !== null) {
+        throw new VendorBatchError(`Remove the cheque from batch #${existingTransaction.batch_id} before changing its vendor`);
+      }
+      updatedTransaction.vendor_id = transaction.vendor_id;
+    }
+    
+    if (transaction.drawer_bank !== undefined) {
+      updatedTransaction.drawer_bank = transaction.drawer_bank;
+    }
+    
+    if (transaction.customer_fee_override !== undefined) {
+      updatedTransaction.customer_fee_override = transaction.customer_fee_override;
+    }
+    
+    if (transaction.vendor_fee_override !== undefined) {
+      updatedTransaction.vendor_fee_override = transaction.vendor_fee_override;
+    }
+    
+    if (transaction.fee_override_reason !== undefined) {
+      updatedTransaction.fee_override_reason = transaction.fee_override_reason;
+    }
+    
+    const statusChanged = !!transaction.status && transaction.status !== existingTransaction.status;
+    if (statusChanged) {
+      updatedTransaction.status = assertStatusEdit(existingTransaction.status, transaction.status!);
+    }
+    
+    // Recalculate fees and profit if necessary; returned and void cheques keep theirs
+    if (hasFrozenFees(existingTransaction)) {
+      assertFeesUnchanged(existingTransaction, transaction);
+    } else if (affectsFees(transaction) || transaction.fee_override_reason !== undefined) {
+      const customer = this.activeCustomer(updatedTransaction.customer_id);
+      if (!customer) {
+        throw new Error("Customer not found");
+      }
+      
+      const vendor = this.activeVendor(updatedTransaction.vendor_id);
+      if (!vendor) {
+        throw new Error("Vendor not found");
+      }
+      
+      const rates = await this.getFeeRates(customer.customer_id, vendor.vendor_id, updatedTransaction.date);
+      const fees = calculateTransactionFees(updatedTransaction.cheque_amount, rates.customer_rule, rates.vendor_rule, updatedTransaction);
+      updatedTransaction = { ...updatedTransaction, ...fees };
+    }
+    
+    updatedTransaction.updated_at = new Date();
+    
+    this.transactions.set(id, updatedTransaction);
+    if (statusChanged) {
+      this.recordStatusChange(id, existingTransaction.status, updatedTransaction.status!, actor.user_id ?? undefined);
+    }
+    this.recordAudit('transaction', id, 'update', existingTransaction, updatedTransaction, actor);
+    return updatedTransaction;
+  }
+
+  async deleteTransaction(id: number, actor: AuditActor = webActor()): Promise<boolean> {
+    const existingTransaction = this.activeTransaction(id);
+    if (!existingTransaction) {
+      return false;
+    }
+    
+    assertPeriodsOpen(this.closedPeriods(), [existingTransaction.date], "transactions dated in it can't be deleted");
+    
+    this.transactions.set(id, { ...existingTransaction, deleted_at: new Date() });
+    this.recordAudit('transaction', id, 'delete', existingTransaction, null, actor);
+    return true;
+  }
+  
+  async bulkUpdateTransactions(request: BulkTransactionAction, actor: AuditActor = webActor()): Promise<BulkTransactionResult> {
+    if (request.action === 'reassign_vendor' && !this.activeVendor(request.vendor_id)) {
+      throw new Error("Vendor not found");
+    }
+    
+    const result = emptyBulkResult(request);
+    for (const id of request.transaction_ids) {
+      try {
+        let applied: unknown;
+        switch (request.action) {
+          case 'set_status':
+            applied = await this.updateTransaction(id, { status: request.status }, actor);
+            break;
+          case 'reassign_vendor':
+            applied = await this.updateTransaction(id, { vendor_id: request.vendor_id }, actor);
+            break;
+          case 'record_vendor_receipt': {
+            const transaction = this.activeTransaction(id);
+            applied = transaction && await this.createTransactionPayment(id, vendorReceiptFor(transaction, request), actor.user_id ?? undefined);
+            break;
+          }
+          case 'delete':
+            applied = await this.deleteTransaction(id, actor);
+            break;
+        }
+        if (!applied) {
+          throw new Error("Transaction not found");
+        }
+        result.succeeded.push(id);
+      } catch (error) {
+        result.failed.push({ transaction_id: id, error: bulkFailureMessage(error) });
+      }
+    }
+    return result;
+  }
+
+  async getTransactionStatusHistory(transactionId: number): Promise<TransactionStatusChangeWithUser[]> {
+    return this.statusHistory
+      .filter(h => h.transaction_id === transactionId)
+      .sort((a, b) => a.history_id - b.history_id)
+      .map(h => ({ ...h, username: h.user_id ? this.users.get(h.user_id)?.username ?? null : null }));
+  }
+  
+  async findDuplicateTransactions(candidate: DuplicateChequeCheck): Promise<DuplicateChequeMatch[]> {
+    return findDuplicateCheques(candidate, this.activeTransactions());
+  }
+  
+  // Attachment methods
+  async getTransactionAttachments(transactionId: number): Promise<TransactionAttachment[]> {
+    return Array.from(this.attachments.values())
+      .filter(a => a.transaction_id === transactionId)
+      .sort((a, b) => a.attachment_id - b.attachment_id);
+  }
+  
+  async getAttachment(id: number): Promise<TransactionAttachment | undefined> {
+    return this.attachments.get(id);
+  }
+  
+  async createAttachment(attachment: InsertTransactionAttachment): Promise<TransactionAttachment> {
+    const newAttachment: TransactionAttachment = {
+      attachment_id: this.nextAttachmentId++,
+      transaction_id: attachment.transaction_id ?? null,
+      conversation_id: attachment.conversation_id ?? null,
+      kind: attachment.kind,
+      file_name: attachment.file_name,
+      content_type: attachment.content_type,
+      size: attachment.size,
+      storage_key: attachment.storage_key,
+      thumbnail_key: attachment.thumbnail_key ?? null,
+      user_id: attachment.user_id ?? null,
+      created_at: new Date()
+    };
+    this.attachments.set(newAttachment.attachment_id, newAttachment);
+    return newAttachment;
+  }
+  
+  async linkConversationAttachments(conversationId: string, transactionId: number, since: Date): Promise<TransactionAttachment[]> {
+    const linked: TransactionAttachment[] = [];
+    for (const attachment of Array.from(this.attachments.values())) {
+      if (attachment.conversation_id === conversationId && attachment.transaction_id === null &&
+          attachment.created_at && attachment.created_at >= since) {
+        const updated = { ...attachment, transaction_id: transactionId };
+        this.attachments.set(attachment.attachment_id, updated);
+        linked.push(updated);
+      }
+    }
+    return linked;
+  }
+  
+  async deleteAttachment(id: number): Promise<boolean> {
+    return this.attachments.delete(id);
+  }
+  
+  // Comment methods
+  async getTransactionComments(transactionId: number): Promise<TransactionCommentWithUser[]> {
+    return this.transactionComments
+      .filter(c => c.transaction_id === transactionId)
+      .sort((a, b) => a.comment_id - b.comment_id)
+      .map(c => ({ ...c, username: c.user_id ? this.users.get(c.user_id)?.username ?? null : null }));
+  }
+  
+  async getTransactionComment(id: number): Promise<TransactionComment | undefined> {
+    return this.transactionComments.find(c => c.comment_id === id);
+  }
+  
+  async createTransactionComment(transactionId: number, comment: InsertTransactionComment, actor: AuditActor): Promise<TransactionComment> {
+    if (!this.activeTransaction(transactionId)) {
+      throw new Error("Transaction not found");
+    }
+    
+    const newComment: TransactionComment = {
+      comment_id: this.nextCommentId++,
+      transaction_id: transactionId,
+      body: comment.body,
+      user_id: actor.user_id,
+      channel: actor.channel,
+      created_at: new Date()
+    };
+    this.transactionComments.push(newComment);
+    return newComment;
+  }
+  
+  async deleteTransactionComment(id: number): Promise<boolean> {
+    const before = this.transactionComments.length;
+    this.transactionComments = this.transactionComments.filter(c => c.comment_id !== id);
+    return this.transactionComments.length < before;
+  }
+  
+  // Tag methods
+  private tagsOf(transactionId: number): Tag[] {
+    return this.transactionTags
+      .filter(t => t.transaction_id === transactionId)
+      .map(t => this.tags.get(t.tag_id))
+      .filter((tag): tag is Tag => !!tag)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  private assertTagNameFree(name: string, exceptId?: number) {
+    const taken = Array.from(this.tags.values())
+      .some(tag => tag.tag_id !== exceptId && tag.name.toLowerCase() === name.toLowerCase());
+    if (taken) {
+      throw new Error("A tag with this name already exists");
+    }
+  }
+  
+  async getTags(): Promise<Tag[]> {
+    return Array.from(this.tags.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async createTag(tag: InsertTag): Promise<Tag> {
+    this.assertTagNameFree(tag.name);
+    const newTag: Tag = {
+      tag_id: this.nextTagId++,
+      name: tag.name,
+      color: tag.color ?? '#6b7280',
+      created_at: new Date()
+    };
+    this.tags.set(newTag.tag_id, newTag);
+    return newTag;
+  }
+  
+  async updateTag(id: number, tag: UpdateTag): Promise<Tag | undefined> {
+    const existing = this.tags.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    if (tag.name !== undefined) {
+      this.assertTagNameFree(tag.name, id);
+    }
+    
+    const updated: Tag = {
+      ...existing,
+      name: tag.name ?? existing.name,
+      color: tag.color ?? existing.color
+    };
+    this.tags.set(id, updated);
+    return updated;
+  }
+  
+  async deleteTag(id: number): Promise<boolean> {
+    this.transactionTags = this.transactionTags.filter(t => t.tag_id !== id);
+    return this.tags.delete(id);
+  }
+  
+  async getTransactionTags(transactionId: number): Promise<Tag[]> {
+    return this.tagsOf(transactionId);
+  }
+  
+  async setTransactionTags(transactionId: number, tagIds: number[]): Promise<Tag[]> {
+    if (!this.activeTransaction(transactionId)) {
+      throw new Error("Transaction not found");
+    }
+    const wanted = Array.from(new Set(tagIds));
+    if (wanted.some(tagId => !this.tags.has(tagId))) {
+      throw new Error("Tag not found");
+    }
+    
+    const kept = this.transactionTags.filter(t => t.transaction_id === transactionId && wanted.includes(t.tag_id));
+    const added = wanted
+      .filter(tagId => !kept.some(t => t.tag_id === tagId))
+      .map(tagId => ({ transaction_id: transactionId, tag_id: tagId, created_at: new Date() }));
+    this.transactionTags = [
+      ...this.transactionTags.filter(t => t.transaction_id !== transactionId),
+      ...kept,
+      ...added
+    ];
+    return this.tagsOf(transactionId);
+  }
+  
+  // Append an entry to the status history
+  private recordStatusChange(
+    transactionId: number,
+    fromStatus: ChequeTransaction['status'],
+    toStatus: NonNullable<ChequeTransaction['status']>,
+    userId?: number,
+    note?: string
+  ): void {
+    this.statusHistory.push({
+      history_id: this.nextStatusHistoryId++,
+      transaction_id: transactionId,
+      from_status: fromStatus,
+      to_status: toStatus,
+      user_id: userId ?? null,
+      note: note ?? null,
+      changed_at: new Date()
+    });
+  }
+
+  // Customer methods
+  async getCustomers(): Promise<Customer[]> {
+    return Array.from(this.customers.values()).filter(c => !c.deleted_at);
+  }
+
+  async getCustomer(id: number): Promise<Customer | undefined> {
+    return this.activeCustomer(id);
+  }
+
+  async createCustomer(customer: InsertCustomer, actor: AuditActor = webActor()): Promise<Customer> {
+    const newCustomer: Customer = {
+      ...customer,
+      credit_limit: customer.credit_limit ?? null,
+      daily_limit: customer.daily_limit ?? null,
+      customer_id: this.nextCustomerId++,
+      created_at: new Date(),
+      updated_at: new Date(),
+      deleted_at: null
+    };
+    
+    this.customers.set(newCustomer.customer_id, newCustomer);
+    this.insertFeeSchedule('customer', newCustomer.customer_id, { fee_percentage: newCustomer.fee_percentage, effective_from: FEE_SCHEDULE_START });
+    this.recordAudit('customer', newCustomer.customer_id, 'create', null, newCustomer, actor);
+    return newCustomer;
+  }
+
+  async updateCustomer(id: number, customer: Partial<InsertCustomer>, actor: AuditActor = webActor()): Promise<Customer | undefined> {
+    const existingCustomer = this.activeCustomer(id);
+    
+    if (!existingCustomer) {
+      return undefined;
+    }
+    
+    const updatedCustomer: Customer = {
+      ...existingCustomer,
+      ...customer,
+      updated_at: new Date()
+    };
+    
+    this.customers.set(id, updatedCustomer);
+    if (customer.fee_percentage !== undefined && toCents(customer.fee_percentage) !== toCents(existingCustomer.fee_percentage)) {
+      this.recordRateChange('customer', id, customer.fee_percentage);
+    }
+    this.recordAudit('customer', id, 'update', existingCustomer, updatedCustomer, actor);
+    return updatedCustomer;
+  }
+
+  async getCustomerExposures(date: string = toDateString()): Promise<CustomerExposure[]> {
+    const customers = await this.getCustomers();
+    return customers.map(customer => summarizeExposure(
+      customer,
+      totalExposure(this.activeTransactions().filter(t => t.customer_id === customer.customer_id), date),
+      date
+    ));
+  }
+
+  async getCustomerExposure(customerId: number, date: string = toDateString()): Promise<CustomerExposure | undefined> {
+    const customer = this.activeCustomer(customerId);
+    if (!customer) {
+      return undefined;
+    }
+    return summarizeExposure(
+      customer,
+      totalExposure(this.activeTransactions().filter(t => t.customer_id === customerId), date),
+      date
+    );
+  }
+
+  async deleteCustomer(id: number, actor: AuditActor = webActor()): Promise<boolean> {
+    const existingCustomer = this.activeCustomer(id);
+    if (!existingCustomer) {
+      return false;
+    }
+    
+    // The customer's transactions and fee schedules are kept for when it is restored
+    this.customers.set(id, { ...existingCustomer, deleted_at: new Date() });
+    this.recordAudit('customer', id, 'delete', existingCustomer, null, actor);
+    return true;
+  }
+
+  // Vendor methods
+  async getVendors(): Promise<Vendor[]> {
+    return Array.from(this.vendors.values()).filter(v => !v.deleted_at);
+  }
+
+  async getVendor(id: string): Promise<Vendor | undefined> {
+    return this.activeVendor(id);
+  }
+
+  async createVendor(vendor: InsertVendor, actor: AuditActor = webActor()): Promise<Vendor> {
+    // Generate vendor ID (simplified version of the function in database)
+    const prefix = vendor.vendor_name.substring(0, 3).toUpperCase().replace(/[^A-Z]/g, '').padEnd(3, 'X');
+    const vendorId = `${prefix}${Math.floor(Math.random() * 1000)}`;
+    
+    const newVendor: Vendor = {
+      ...vendor,
+      daily_capacity: vendor.daily_capacity ?? null,
+      weekly_capacity: vendor.weekly_capacity ?? null,
+      min_cheque_amount: vendor.min_cheque_amount ?? null,
+      max_cheque_amount: vendor.max_cheque_amount ?? null,
+      accepted_banks: vendor.accepted_banks ?? null,
+      vendor_id: vendorId,
+      created_at: new Date(),
+      updated_at: new Date(),
+      deleted_at: null
+    };
+    
+    this.vendors.set(vendorId, newVendor);
+    this.insertFeeSchedule('vendor', vendorId, { fee_percentage: newVendor.fee_percentage, effective_from: FEE_SCHEDULE_START });
+    this.recordAudit('vendor', vendorId, 'create', null, newVendor, actor);
+    return newVendor;
+  }
+
+  async updateVendor(id: string, vendor: Partial<InsertVendor>, actor: AuditActor = webActor()): Promise<Vendor | undefined> {
+    const existingVendor = this.activeVendor(id);
+    
+    if (!existingVendor) {
+      return undefined;
+    }
+    
+    const updatedVendor: Vendor = {
+      ...existingVendor,
+      ...vendor,
+      vendor_id: id, // Ensure ID doesn't change
+      updated_at: new Date()
+    };
+    
+    this.vendors.set(id, updatedVendor);
+    if (vendor.fee_percentage !== undefined && toCents(vendor.fee_percentage) !== toCents(existingVendor.fee_percentage)) {
+      this.recordRateChange('vendor', id, vendor.fee_percentage);
+    }
+    this.recordAudit('vendor', id, 'update', existingVendor, updatedVendor, actor);
+    return updatedVendor;
+  }
+
+  async getVendorVolumes(date: string = toDateString()): Promise<VendorVolume[]> {
+    return totalVendorVolumes(this.activeTransactions(), date);
+  }
+
+  async recommendVendors(request: VendorRecommendationRequest): Promise<VendorRecommendation[]> {
+    const date = toDateString(request.date);
+    const volumes = new Map((await this.getVendorVolumes(date)).map(volume => [volume.vendor_id, volume]));
+    const candidates = await Promise.all((await this.getVendors()).map(async vendor => ({
+      vendor,
+      rates: await this.getFeeRates(request.customer_id, vendor.vendor_id, date),
+      volume: volumes.get(vendor.vendor_id)
+    })));
+    return rankVendors(request, candidates);
+  }
+
+  async deleteVendor(id: string, actor: AuditActor = webActor()): Promise<boolean> {
+    const existingVendor = this.activeVendor(id);
+    if (!existingVendor) {
+      return false;
+    }
+    
+    // The vendor's transactions and fee schedules are kept for when it is restored
+    this.vendors.set(id, { ...existingVendor, deleted_at: new Date() });
+    this.recordAudit('vendor', id, 'delete', existingVendor, null, actor);
+    return true;
+  }
+  
+  // Fee schedules
+  async getFeeSchedules(party: FeeParty, partyId: number | string): Promise<FeeSchedule[]> {
+    return this.feeSchedules
+      .filter(s => party === 'customer' ? s.party_type === 'customer' && s.customer_id === partyId : s.party_type === 'vendor' && s.vendor_id === partyId)
+      .sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+  }
+
+  async createFeeSchedule(party: FeeParty, partyId: number | string, schedule: InsertFeeSchedule, userId?: number): Promise<FeeSchedule> {
+    const exists = party === 'customer' ? this.activeCustomer(partyId as number) : this.activeVendor(partyId as string);
+    if (!exists) {
+      throw new Error(party === 'customer' ? "Customer not found" : "Vendor not found");
+    }
+    
+    const plan = planScheduleAddition(await this.getFeeSchedules(party, partyId), schedule);
+    
+    for (const adjustment of plan.adjustments) {
+      const existing = this.feeSchedules.find(s => s.schedule_id === adjustment.schedule_id)!;
+      existing.effective_to = adjustment.effective_to;
+    }
+    
+    const newSchedule = this.insertFeeSchedule(party, partyId, { ...schedule, effective_to: plan.effective_to }, userId);
+    if (plan.continuation) {
+      this.insertFeeSchedule(party, partyId, plan.continuation, userId);
+    }
+    
+    return newSchedule;
+  }
+
+  async deleteFeeSchedule(scheduleId: number): Promise<boolean> {
+    const schedule = this.feeSchedules.find(s => s.schedule_id === scheduleId);
+    if (!schedule) {
+      return false;
+    }
+    
+    const partyId = schedule.party_type === 'customer' ? schedule.customer_id! : schedule.vendor_id!;
+    const plan = planScheduleRemoval(await this.getFeeSchedules(schedule.party_type, partyId), scheduleId);
+    
+    for (const adjustment of plan.adjustments) {
+      const existing = this.feeSchedules.find(s => s.schedule_id === adjustment.schedule_id)!;
+      existing.effective_to = adjustment.effective_to;
+    }
+    
+    this.feeSchedules = this.feeSchedules.filter(s => s.schedule_id !== scheduleId);
+    return true;
+  }
+
+  async getFeeRates(customerId: number, vendorId: string, date?: string | Date | null): Promise<FeeRates> {
+    const customer = this.customers.get(customerId);
+    const vendor = this.vendors.get(vendorId);
+    
+    const customerRule = ruleOnDate(await this.getFeeSchedules('customer', customerId), date, customer?.fee_percentage ?? 0);
+    const vendorRule = ruleOnDate(await this.getFeeSchedules('vendor', vendorId), date, vendor?.fee_percentage ?? 0);
+    
+    return {
+      customer_fee_percentage: customerRule.fee_percentage,
+      vendor_fee_percentage: vendorRule.fee_percentage,
+      customer_rule: customerRule,
+      vendor_rule: vendorRule
+    };
+  }
+  
+  // Append a schedule without checking the timeline
+  private insertFeeSchedule(
+    party: FeeParty,
+    partyId: number | string,
+    schedule: Pick<FeeSchedule, 'fee_percentage' | 'effective_from'> & Partial<Pick<FeeSchedule, 'flat_fee' | 'min_fee' | 'brackets' | 'bracket_mode' | 'effective_to' | 'note'>>,
+    userId?: number
+  ): FeeSchedule {
+    const newSchedule: FeeSchedule = {
+      schedule_id: this.nextFeeScheduleId++,
+      party_type: party,
+      customer_id: party === 'customer' ? partyId as number : null,
+      vendor_id: party === 'vendor' ? partyId as string : null,
+      fee_percentage: schedule.fee_percentage,
+      flat_fee: schedule.flat_fee ?? "0",
+      min_fee: schedule.min_fee ?? null,
+      brackets: schedule.brackets ?? null,
+      bracket_mode: schedule.bracket_mode ?? 'bracket',
+      effective_from: schedule.effective_from,
+      effective_to: schedule.effective_to ?? null,
+      note: schedule.note ?? null,
+      user_id: userId ?? null,
+      created_at: new Date()
+    };
+    
+    this.feeSchedules.push(newSchedule);
+    return newSchedule;
+  }
+  
+  // A rate edited on the customer/vendor itself applies from today onwards,
+  // keeping the flat fee, minimum and brackets of the rule it replaces
+  private recordRateChange(party: FeeParty, partyId: number | string, feePercentage: string): void {
+    const today = toDateString();
+    const existing = this.feeSchedules.filter(s => party === 'customer' ? s.customer_id === partyId : s.vendor_id === partyId);
+    const startingToday = existing.find(s => s.effective_from === today);
+    
+    if (startingToday) {
+      startingToday.fee_percentage = feePercentage;
+      return;
+    }
+    
+    const current = existing.find(s => scheduleCovers(s, today));
+    const rule = current ? ruleOf(current) : percentageRule(feePercentage);
+    const plan = planScheduleAddition(existing, { effective_from: today });
+    for (const adjustment of plan.adjustments) {
+      this.feeSchedules.find(s => s.schedule_id === adjustment.schedule_id)!.effective_to = adjustment.effective_to;
+    }
+    this.insertFeeSchedule(party, partyId, { ...rule, fee_percentage: feePercentage, effective_from: today, effective_to: plan.effective_to, note: "Rate changed" });
+  }
+  
+  // Fee recalculation
+  async previewFeeRecalculation(request: FeeRecalculationRequest): Promise<FeeRecalculationPreview> {
+    const exists = request.party === 'customer' ? this.activeCustomer(parseInt(request.party_id)) : this.activeVendor(request.party_id);
+    if (!exists) {
+      throw new Error(request.party === 'customer' ? "Customer not found" : "Vendor not found");
+    }
+    
+    const transactions = this.activeTransactions().filter(t => isRecalculable(request, t));
+    const recalculated = await Promise.all(transactions.map(async transaction => ({
+      transaction,
+      after: await this.recalculatedFees(transaction)
+    })));
+    
+    return buildRecalculationPreview(recalculated);
+  }
+
+  async applyFeeRecalculation(request: FeeRecalculationRequest, userId?: number): Promise<FeeRecalculation> {
+    const preview = await this.previewFeeRecalculation(request);
+    const changes = preview.lines.filter(line => line.changed);
+    assertPeriodsOpen(this.closedPeriods(), changes.map(line => line.date), "fees dated in it can't be recalculated");
+    
+    for (const line of changes) {
+      const transaction = this.transactions.get(line.transaction_id)!;
+      const updated = { ...transaction, ...line.after, updated_at: new Date() };
+      this.transactions.set(line.transaction_id, updated);
+      this.recordAudit('transaction', line.transaction_id, 'update', transaction, updated, webActor(userId));
+    }
+    
+    const recalculation: FeeRecalculation = {
+      recalculation_id: this.nextFeeRecalculationId++,
+      party_type: request.party,
+      customer_id: request.party === 'customer' ? parseInt(request.party_id) : null,
+      vendor_id: request.party === 'vendor' ? request.party_id : null,
+      date_from: request.date_from,
+      date_to: request.date_to,
+      transaction_count: changes.length,
+      profit_before: preview.profit_before,
+      profit_after: preview.profit_after,
+      changes,
+      user_id: userId ?? null,
+      created_at: new Date()
+    };
+    
+    this.feeRecalculations.push(recalculation);
+    return recalculation;
+  }
+
+  async getFeeRecalculations(): Promise<FeeRecalculation[]> {
+    return [...this.feeRecalculations].sort((a, b) => b.recalculation_id - a.recalculation_id);
+  }
+  
+  // Fees a transaction gets from the rules in force on its date
+  private async recalculatedFees(transaction: ChequeTransaction): Promise<TransactionFeeValues> {
+    const rates = await this.getFeeRates(transaction.customer_id, transaction.vendor_id, transaction.date);
+    return calculateTransactionFees(transaction.cheque_amount, rates.customer_rule, rates.vendor_rule, transaction);
+  }
+
+  // Audit trail
+  async getAuditEntries(entity: AuditEntity, entityId: number | string): Promise<AuditEntryWithUser[]> {
+    return this.auditLog
+      .filter(entry => entry.entity_type === entity && entry.entity_id === String(entityId))
+      .sort((a, b) => b.audit_id - a.audit_id)
+      .map(entry => ({ ...entry, username: entry.user_id ? this.users.get(entry.user_id)?.username ?? null : null }));
+  }
+  
+  async getAuditEntry(auditId: number): Promise<AuditEntry | undefined> {
+    return this.auditLog.find(entry => entry.audit_id === auditId);
+  }
+  
+  async revertAuditEntry(auditId: number, actor: AuditActor): Promise<ChequeTransaction | Customer | Vendor | undefined> {
+    const entry = await this.getAuditEntry(auditId);
+    if (!entry) {
+      return undefined;
+    }
+    
+    const values = revertValues(entry);
+    const revertActor = { ...actor, revert_of: entry.audit_id };
+    switch (entry.entity_type) {
+      case 'transaction':
+        return this.updateTransaction(parseInt(entry.entity_id), insertTransactionSchema.partial().parse(values), revertActor);
+      case 'customer':
+        return this.updateCustomer(parseInt(entry.entity_id), insertCustomerSchema.partial().parse(values), revertActor);
+      case 'vendor':
+        return this.updateVendor(entry.entity_id, insertVendorSchema.partial().parse(values), revertActor);
+      default:
+        return undefined;
+    }
+  }
+  
+  // Append an entry to the audit trail unless an update changed nothing
+  private recordAudit(
+    entity: AuditEntity,
+    entityId: number | string,
+    action: Exclude<AuditAction, 'revert'>,
+    before: object | null,
+    after: object | null,
+    actor: AuditActor
+  ): void {
+    const entry = buildAuditEntry(entity, entityId, action, before, after, actor);
+    if (!entry) {
+      return;
+    }
+    
+    this.auditLog.push({
+      audit_id: this.nextAuditId++,
+      entity_type: entry.entity_type,
+      entity_id: entry.entity_id,
+      action: entry.action,
+      channel: entry.channel ?? 'web',
+      user_id: entry.user_id ?? null,
+      changes: entry.changes,
+      snapshot: entry.snapshot ?? null,
+      reverted_audit_id: entry.reverted_audit_id ?? null,
+      created_at: new Date()
+    });
+  }
+  
+  // Trash
+  async getTrash(): Promise<Trash> {
+    const newestFirst = (a: { deleted_at: Date | null }, b: { deleted_at: Date | null }) =>
+      new Date(b.deleted_at || 0).getTime() - new Date(a.deleted_at || 0).getTime();
+    
+    return {
+      transactions: Array.from(this.transactions.values()).filter(t => t.deleted_at).sort(newestFirst),
+      customers: Array.from(this.customers.values()).filter(c => c.deleted_at).sort(newestFirst),
+      vendors: Array.from(this.vendors.values()).filter(v => v.deleted_at).sort(newestFirst)
+    };
+  }
+  
+  async restoreTransaction(id: number, actor: AuditActor = webActor()): Promise<ChequeTransaction | undefined> {
+    const transaction = this.transactions.get(id);
+    if (!transaction?.deleted_at) {
+      return undefined;
+    }
+    if (!this.activeCustomer(transaction.customer_id) || !this.activeVendor(transaction.vendor_id)) {
+      throw new TrashError("Restore this transaction's customer and vendor first");
+    }
+    
+    assertPeriodsOpen(this.closedPeriods(), [transaction.date], "transactions dated in it can't be restored");
+    
+    const restoredTransaction: ChequeTransaction = { ...transaction, deleted_at: null, updated_at: new Date() };
+    this.transactions.set(id, restoredTransaction);
+    this.recordAudit('transaction', id, 'restore', null, restoredTransaction, actor);
+    return restoredTransaction;
+  }
+  
+  async restoreCustomer(id: number, actor: AuditActor = webActor()): Promise<Customer | undefined> {
+    const customer = this.customers.get(id);
+    if (!customer?.deleted_at) {
+      return undefined;
+    }
+    
+    const restoredCustomer: Customer = { ...customer, deleted_at: null, updated_at: new Date() };
+    this.customers.set(id, restoredCustomer);
+    this.recordAudit('customer', id, 'restore', null, restoredCustomer, actor);
+    return restoredCustomer;
+  }
+  
+  async restoreVendor(id: string, actor: AuditActor = webActor()): Promise<Vendor | undefined> {
+    const vendor = this.vendors.get(id);
+    if (!vendor?.deleted_at) {
+      return undefined;
+    }
+    
+    const restoredVendor: Vendor = { ...vendor, deleted_at: null, updated_at: new Date() };
+    this.vendors.set(id, restoredVendor);
+    this.recordAudit('vendor', id, 'restore', null, restoredVendor, actor);
+    return restoredVendor;
+  }
+  
+  async purgeTransaction(id: number, actor: AuditActor = webActor()): Promise<boolean> {
+    const transaction = this.transactions.get(id);
+    if (!transaction?.deleted_at) {
+      return false;
+    }
+    
+    assertPurgeable("transaction", {
+      "payment(s)": this.transactionPayments.filter(p => p.transaction_id === id).length,
+      "return(s)": this.chequeReturns.has(id) ? 1 : 0,
+      "deposit allocation(s)": this.depositAllocations.filter(a => a.transaction_id === id).length,
+      "vendor payment allocation(s)": this.vendorPaymentAllocations.filter(a => a.transaction_id === id).length,
+      "pending approval request(s)": Array.from(this.approvalRequests.values())
+        .filter(r => r.transaction_id === id && r.status === 'pending').length
+    });
+    
+    // Decided requests stay in the approval history without the cheque
+    this.approvalRequests.forEach((request, approvalId) => {
+      if (request.transaction_id === id) {
+        this.approvalRequests.set(approvalId, { ...request, transaction_id: null });
+      }
+    });
+    this.statusHistory = this.statusHistory.filter(h => h.transaction_id !== id);
+    this.transactionComments = this.transactionComments.filter(c => c.transaction_id !== id);
+    this.transactionTags = this.transactionTags.filter(t => t.transaction_id !== id);
+    for (const attachment of Array.from(this.attachments.values())) {
+      if (attachment.transaction_id === id) {
+        this.attachments.delete(attachment.attachment_id);
+      }
+    }
+    this.transactions.delete(id);
+    this.recordAudit('transaction', id, 'purge', transaction, null, actor);
+    return true;
+  }
+  
+  async purgeCustomer(id: number, actor: AuditActor = webActor()): Promise<boolean> {
+    const customer = this.customers.get(id);
+    if (!customer?.deleted_at) {
+      return false;
+    }
+    
+    assertPurgeable("customer", {
+      "transaction(s)": Array.from(this.transactions.values()).filter(t => t.customer_id === id).length,
+      "deposit(s)": Array.from(this.customerDeposits.values()).filter(d => d.customer_id === id).length,
+      "fee recalculation(s)": this.feeRecalculations.filter(r => r.customer_id === id).length
+    });
+    
+    this.feeSchedules = this.feeSchedules.filter(s => s.customer_id !== id);
+    this.customers.delete(id);
+    this.recordAudit('customer', id, 'purge', customer, null, actor);
+    return true;
+  }
+  
+  async purgeVendor(id: string, actor: AuditActor = webActor()): Promise<boolean> {
+    const vendor = this.vendors.get(id);
+    if (!vendor?.deleted_at) {
+      return false;
+    }
+    
+    assertPurgeable("vendor", {
+      "transaction(s)": Array.from(this.transactions.values()).filter(t => t.vendor_id === id).length,
+      "payment(s)": Array.from(this.vendorPayments.values()).filter(p => p.vendor_id === id).length,
+      "fee recalculation(s)": this.feeRecalculations.filter(r => r.vendor_id === id).length
+    });
+    
+    this.feeSchedules = this.feeSchedules.filter(s => s.vendor_id !== id);
+    this.vendors.delete(id);
+    this.recordAudit('vendor', id, 'purge', vendor, null, actor);
+    return true;
+  }
+  
+  // Transaction payment ledger
+  async getTransactionPayments(transactionId: number): Promise<TransactionPayment[]> {
+    return this.transactionPayments
+      .filter(p => p.transaction_id === transactionId)
+      .sort((a, b) => new Date(a.date || 0).getTime() - new Date(b.date || 0).getTime() || a.payment_id - b.payment_id);
+  }
+
+  async createTransactionPayment(transactionId: number, payment: InsertTransactionPayment, userId?: number): Promise<TransactionPayment> {
+    if (!this.activeTransaction(transactionId)) {
+      throw new Error("Transaction not found");
+    }
+    
+    // A payment without a date is recorded today
+    assertPeriodsOpen(this.closedPeriods(), [payment.date || toDateString()], "payments can't be recorded in it");
+    
+    const newPayment = this.recordPaymentEvent({
+      transaction_id: transactionId,
+      type: payment.type,
+      amount: payment.amount,
+      date: payment.date,
+      method: payment.method,
+      note: payment.note,
+      user_id: userId ?? null
+    });
+    
+    this.syncPaymentTotals(transactionId);
+    return newPayment;
+  }
+
+  async deleteTransactionPayment(paymentId: number): Promise<boolean> {
+    const payment = this.transactionPayments.find(p => p.payment_id === paymentId);
+    
+    if (!payment) {
+      return false;
+    }
+    
+    if (payment.deposit_allocation_id || payment.vendor_payment_allocation_id) {
+      throw new Error("Payment is managed by an allocation");
+    }
+    
+    assertPeriodsOpen(this.closedPeriods(), [payment.date], "payments dated in it can't be removed");
+    
+    this.releaseStatementLines(line => line.transaction_payment_id === paymentId);
+    this.transactionPayments = this.transactionPayments.filter(p => p.payment_id !== paymentId);
+    this.syncPaymentTotals(payment.transaction_id);
+    return true;
+  }
+  
+  // Append an event to the payment ledger
+  private recordPaymentEvent(event: Partial<TransactionPayment> & Pick<TransactionPayment, 'transaction_id' | 'type' | 'amount'>): TransactionPayment {
+    const newPayment: TransactionPayment = {
+      payment_id: this.nextTransactionPaymentId++,
+      transaction_id: event.transaction_id,
+      type: event.type,
+      amount: event.amount,
+      date: event.date || new Date().toISOString().split('T')[0],
+      method: event.method ?? null,
+      user_id: event.user_id ?? null,
+      note: event.note ?? null,
+      deposit_allocation_id: event.deposit_allocation_id ?? null,
+      vendor_payment_allocation_id: event.vendor_payment_allocation_id ?? null,
+      created_at: new Date()
+    };
+    
+    this.transactionPayments.push(newPayment);
+    return newPayment;
+  }
+  
+  // Re-derive paid_to_customer, received_from_vendor and profit_withdrawn from the ledger
+  private syncPaymentTotals(transactionId: number): void {
+    const transaction = this.transactions.get(transactionId);
+    if (!transaction) return;
+    
+    this.transactions.set(transactionId, {
+      ...transaction,
+      ...summarizePayments(this.transactionPayments.filter(p => p.transaction_id === transactionId)),
+      updated_at: new Date()
+    });
+  }
+
+  // Returned cheques
+  async getChequeReturn(transactionId: number): Promise<ChequeReturn | undefined> {
+    return this.chequeReturns.get(transactionId);
+  }
+
+  async returnCheque(transactionId: number, details: InsertChequeReturn, userId?: number): Promise<ChequeReturn> {
+    const transaction = this.activeTransaction(transactionId);
+    if (!transaction) {
+      throw new Error("Transaction not found");
+    }
+    
+    if (this.chequeReturns.has(transactionId)) {
+      throw new Error("Cheque has already been returned");
+    }
+    
+    assertPeriodsOpen(this.closedPeriods(), [transaction.date, details.return_date], "cheques dated in it can't be returned and returns can't be recorded in it");
+    assertStatusTransition(transaction.status, "returned");
+    const { transactionUpdate, ...reversal } = computeReturnReversal(transaction);
+    
+    const chequeReturn: ChequeReturn = {
+      return_id: this.nextReturnId++,
+      transaction_id: transactionId,
+      return_date: details.return_date,
+      reason: details.reason,
+      chargeback_fee: details.chargeback_fee || "0.00",
+      ...reversal,
+      user_id: userId ?? null,
+      created_at: new Date()
+    };
+    
+    const returnedTransaction: ChequeTransaction = {
+      ...transaction,
+      ...transactionUpdate,
+      updated_at: new Date()
+    };
+    
+    this.chequeReturns.set(transactionId, chequeReturn);
+    this.transactions.set(transactionId, returnedTransaction);
+    this.recordStatusChange(transactionId, transaction.status, "returned", userId, details.reason);
+    this.recordAudit('transaction', transactionId, 'update', transaction, returnedTransaction, webActor(userId));
+    
+    return chequeReturn;
+  }
+
+  // Customer Deposits
+  async getCustomerDeposits(customerId?: number): Promise<CustomerDeposit[]> {
+    let deposits = Array.from(this.customerDeposits.values());
+    
+    if (customerId) {
+      deposits = deposits.filter(d => d.customer_id === customerId);
+    }
+    
+    // Sort by date (newest first)
+    return deposits.sort((a, b) => new Date(b.date || 0).getTime() - new Date(a.date || 0).getTime());
+  }
+
+  async getCustomerDeposit(id: number): Promise<CustomerDepositWithAllocations | undefined> {
+    const deposit = this.customerDeposits.get(id);
+    
+    if (!deposit) {
+      return undefined;
+    }
+    
+    const allocations = this.depositAllocations.filter(a => a.deposit_id === id);
+    const allocated = allocations.reduce((sum, a) => sum + toCents(a.amount), 0);
+    
+    return {
+      ...deposit,
+      allocations,
+      unallocated: fromCents(toCents(deposit.amount) - allocated)
+    };
+  }
+
+  async createCustomerDeposit(deposit: InsertCustomerDeposit, allocation: AllocateDeposit = { mode: 'auto' }, actor: AuditActor = webActor()): Promise<CustomerDepositWithAllocations> {
+    const customer = await this.getCustomer(deposit.customer_id);
+    if (!customer) {
+      throw new Error("Customer not found");
+    }
+    
+    const newDeposit: CustomerDeposit = {
+      deposit_id: this.nextDepositId++,
+      customer_id: deposit.customer_id,
+      amount: deposit.amount,
+      date: deposit.date || new Date().toISOString().split('T')[0],
+      fully_allocated: false,
+      notes: deposit.notes ?? null,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+    assertPeriodsOpen(this.closedPeriods(), [newDeposit.date], "deposits can't be recorded in it");
+    
+    this.customerDeposits.set(newDeposit.deposit_id, newDeposit);
+    
+    let requested: ApprovalRequestWithUsers[];
+    try {
+      requested = this.applyDepositAllocation(newDeposit.deposit_id, allocation, actor);
+    } catch (error) {
+      // Don't keep a deposit whose requested allocation was rejected
+      this.customerDeposits.delete(newDeposit.deposit_id);
+      throw error;
+    }
+    
+    this.recordAudit('deposit', newDeposit.deposit_id, 'create', null, this.depositVersion(newDeposit.deposit_id), actor);
+    return { ...(await this.getCustomerDeposit(newDeposit.deposit_id))!, pending_approval: requested };
+  }
+
+  async allocateCustomerDeposit(id: number, allocation: AllocateDeposit, actor: AuditActor = webActor()): Promise<CustomerDepositWithAllocations | undefined> {
+    if (!this.customerDeposits.has(id)) {
+      return undefined;
+    }
+    
+    const before = this.depositVersion(id);
+    assertPeriodsOpen(this.closedPeriods(), [before.date], "deposits dated in it can't be allocated");
+    const requested = this.applyDepositAllocation(id, allocation, actor);
+    this.recordAudit('deposit', id, 'update', before, this.depositVersion(id), actor);
+    return { ...(await this.getCustomerDeposit(id))!, pending_approval: requested };
+  }
+
+  async reverseDepositAllocation(allocationId: number, actor: AuditActor = webActor()): Promise<boolean> {
+    const allocation = this.depositAllocations.find(a => a.allocation_id === allocationId);
+    
+    if (!allocation) {
+      return false;
+    }
+    
+    const before = this.depositVersion(allocation.deposit_id);
+    assertPeriodsOpen(this.closedPeriods(), [before.date], "deposits dated in it can't be reallocated");
+    this.releaseDepositAllocations([allocation]);
+    this.refreshDepositAllocatedFlag(allocation.deposit_id);
+    this.recordAudit('deposit', allocation.deposit_id, 'update', before, this.depositVersion(allocation.deposit_id), actor);
+    return true;
+  }
+
+  async deleteCustomerDeposit(id: number, actor: AuditActor = webActor()): Promise<boolean> {
+    if (!this.customerDeposits.has(id)) {
+      return false;
+    }
+    
+    const before = this.depositVersion(id);
+    assertPeriodsOpen(this.closedPeriods(), [before.date], "deposits dated in it can't be deleted");
+    this.releaseDepositAllocations(this.depositAllocations.filter(a => a.deposit_id === id));
+    this.releaseStatementLines(line => line.deposit_id === id);
+    this.customerDeposits.delete(id);
+    this.recordAudit('deposit', id, 'delete', before, null, actor);
+    return true;
+  }
+  
+  // A deposit as recorded in the audit trail, with what is still unallocated
+  private depositVersion(id: number): CustomerDeposit & { unallocated: string } {
+    const deposit = this.customerDeposits.get(id)!;
+    const allocated = this.depositAllocations
+      .filter(a => a.deposit_id === id)
+      .reduce((sum, a) => sum + toCents(a.amount), 0);
+    
+    return { ...deposit, unallocated: fromCents(toCents(deposit.amount) - allocated) };
+  }
+  
+  // Apply the unallocated part of a deposit, either oldest first or to the chosen
+  // transactions. Payouts a policy holds back are sent for approval instead and
+  // keep their share of the deposit and the cheque until decided;
+  // approvedRequestId is the request being approved when applying one of them.
+  private applyDepositAllocation(
+    depositId: number,
+    allocation: AllocateDeposit,
+    actor: AuditActor,
+    approvedRequestId?: number
+  ): ApprovalRequestWithUsers[] {
+    const deposit = this.customerDeposits.get(depositId)!;
+    const allocated = this.depositAllocations
+      .filter(a => a.deposit_id === depositId)
+      .reduce((sum, a) => sum + toCents(a.amount), 0);
+    const held = heldPayouts(Array.from(this.approvalRequests.values()).filter(request =>
+      request.status === 'pending' && request.action === 'payout' && request.approval_id !== approvedRequestId
+    ), depositId);
+    const available = fromCents(toCents(deposit.amount) - allocated - held.fromDeposit);
+    
+    const openBalances: OpenBalance[] = this.activeTransactions()
+      .filter(t => t.customer_id === deposit.customer_id)
+      .map(t => ({
+        transaction_id: t.transaction_id,
+        date: t.date,
+        outstanding: outstandingAmount(t.net_payable_to_customer, fromCents(toCents(t.paid_to_customer) + (held.byTransaction.get(t.transaction_id) ?? 0)))
+      }))
+      .filter(b => toCents(b.outstanding) > 0);
+    
+    const { allocations } = allocation.mode === 'manual'
+      ? allocateManually(available, allocation.allocations || [], openBalances)
+      : allocateOldestFirst(available, openBalances);
+    
+    // Each allocation pays the customer out, which a policy may hold back
+    const requester = actor.user_id ? this.users.get(actor.user_id) : undefined;
+    const policies = Array.from(this.approvalPolicies.values());
+    const requested: ApprovalRequestWithUsers[] = [];
+    for (const line of allocations) {
+      const policy = approvedRequestId === undefined
+        ? matchApprovalPolicy(policies, 'payout', line.amount, requester?.role)
+        : undefined;
+      if (policy) {
+        const transaction = this.transactions.get(line.transaction_id)!;
+        requested.push(this.queueApprovalRequest(policy, 'payout', depositPayoutDetails(depositId, transaction, line.amount), actor));
+        continue;
+      }
+      
+      const allocationId = this.nextDepositAllocationId++;
+      
+      this.depositAllocations.push({
+        allocation_id: allocationId,
+        deposit_id: depositId,
+        transaction_id: line.transaction_id,
+        amount: line.amount,
+        created_at: new Date()
+      });
+      
+      this.recordPaymentEvent({
+        transaction_id: line.transaction_id,
+        type: 'payout',
+        amount: line.amount,
+        date: deposit.date,
+        method: 'deposit',
+        note: `Deposit #${depositId}`,
+        deposit_allocation_id: allocationId
+      });
+      this.syncPaymentTotals(line.transaction_id);
+    }
+    
+    this.refreshDepositAllocatedFlag(depositId);
+    return requested;
+  }
+  
+  // Take deposit allocations back off their transactions
+  private releaseDepositAllocations(allocations: DepositAllocation[]): void {
+    const released = new Set(allocations.map(a => a.allocation_id));
+    
+    this.transactionPayments = this.transactionPayments.filter(
+      p => !p.deposit_allocation_id || !released.has(p.deposit_allocation_id)
+    );
+    this.depositAllocations = this.depositAllocations.filter(a => !released.has(a.allocation_id));
+    
+    for (const allocation of allocations) {
+      this.syncPaymentTotals(allocation.transaction_id);
+    }
+  }
+  
+  // Keep fully_allocated in step with the deposit's allocations
+  private refreshDepositAllocatedFlag(depositId: number): void {
+    const deposit = this.customerDeposits.get(depositId);
+    if (!deposit) return;
+    
+    const allocated = this.depositAllocations
+      .filter(a => a.deposit_id === depositId)
+      .reduce((sum, a) => sum + toCents(a.amount), 0);
+    
+    this.customerDeposits.set(depositId, {
+      ...deposit,
+      fully_allocated: allocated >= toCents(deposit.amount),
+      updated_at: new Date()
+    });
+  }
+
+  // Vendor Payments
+  async getVendorPayments(vendorId?: string): Promise<VendorPayment[]> {
+    let payments = Array.from(this.vendorPayments.values());
+    
+    if (vendorId) {
+      payments = payments.filter(p => p.vendor_id === vendorId);
+    }
+    
+    // Sort by date (newest first)
+    return payments.sort((a, b) => new Date(b.date || 0).getTime() - new Date(a.date || 0).getTime());
+  }
+
+  async getVendorPayment(id: number): Promise<VendorPaymentWithAllocations | undefined> {
+    const payment = this.vendorPayments.get(id);
+    
+    if (!payment) {
+      return undefined;
+    }
+    
+    return {
+      ...payment,
+      allocations: this.vendorPaymentAllocations.filter(a => a.payment_id === id)
+    };
+  }
+
+  async createVendorPayment(payment: InsertVendorPayment): Promise<VendorPaymentWithAllocations> {
+    const vendor = this.activeVendor(payment.vendor_id);
+    if (!vendor) {
+      throw new Error("Vendor not found");
+    }
+    
+    const newPayment: VendorPayment = {
+      payment_id: this.nextVendorPaymentId++,
+      vendor_id: payment.vendor_id,
+      date: payment.date || new Date().toISOString().split('T')[0],
+      amount: payment.amount,
+      fully_allocated: false,
+      notes: payment.notes ?? null,
+      batch_id: null,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+    
+    assertPeriodsOpen(this.closedPeriods(), [newPayment.date], "vendor payments can't be recorded in it");
+    this.vendorPayments.set(newPayment.payment_id, newPayment);
+    this.allocateVendorPayment(newPayment);
+    
+    return (await this.getVendorPayment(newPayment.payment_id))!;
+  }
+
+  async updateVendorPayment(id: number, payment: Partial<InsertVendorPayment>): Promise<VendorPaymentWithAllocations | undefined> {
+    const existingPayment = this.vendorPayments.get(id);
+    
+    if (!existingPayment) {
+      return undefined;
+    }
+    
+    if (payment.vendor_id && !this.activeVendor(payment.vendor_id)) {
+      throw new Error("Vendor not found");
+    }
+    
+    if (payment.vendor_id && payment.vendor_id !== existingPayment.vendor_id && existingPayment.batch_id !== null) {
+      throw new VendorBatchError("A batch receipt stays with the batch's vendor");
+    }
+    
+    const updatedPayment: VendorPayment = {
+      ...existingPayment,
+      ...payment,
+      payment_id: id,
+      updated_at: new Date()
+    };
+    
+    // Re-run the allocation when anything affecting it changed
+    const needsReallocation = payment.amount !== undefined || payment.vendor_id !== undefined || payment.date !== undefined;
+    if (needsReallocation) {
+      assertPeriodsOpen(this.closedPeriods(), [existingPayment.date], "vendor payments dated in it can't be changed or removed");
+      assertPeriodsOpen(this.closedPeriods(), [updatedPayment.date], "vendor payments can't be recorded in it");
+      this.releaseVendorPaymentAllocations(id);
+    }
+    
+    this.vendorPayments.set(id, updatedPayment);
+    
+    if (needsReallocation) {
+      this.allocateVendorPayment(updatedPayment);
+    }
+    
+    return this.getVendorPayment(id);
+  }
+
+  async deleteVendorPayment(id: number): Promise<boolean> {
+    const payment = this.vendorPayments.get(id);
+    if (!payment) {
+      return false;
+    }
+    
+    assertPeriodsOpen(this.closedPeriods(), [payment.date], "vendor payments dated in it can't be changed or removed");
+    this.releaseVendorPaymentAllocations(id);
+    this.releaseStatementLines(line => line.vendor_payment_id === id);
+    return this.vendorPayments.delete(id);
+  }
+  
+  // Vendor batches
+  private batchWithTotals(batch: VendorBatch): VendorBatchWithTotals {
+    const vendor = this.vendors.get(batch.vendor_id);
+    return summarizeBatch(batch, vendor?.vendor_name ?? batch.vendor_id, this.activeTransactions().filter(t => t.batch_id === batch.batch_id));
+  }
+
+  async getVendorBatches(vendorId?: string): Promise<VendorBatchWithTotals[]> {
+    return Array.from(this.vendorBatches.values())
+      .filter(batch => !vendorId || batch.vendor_id === vendorId)
+      .sort((a, b) => String(b.batch_date).localeCompare(String(a.batch_date)) || b.batch_id - a.batch_id)
+      .map(batch => this.batchWithTotals(batch));
+  }
+
+  async getVendorBatch(id: number): Promise<VendorBatchDetails | undefined> {
+    const batch = this.vendorBatches.get(id);
+    if (!batch) {
+      return undefined;
+    }
+    
+    return {
+      ...this.batchWithTotals(batch),
+      transactions: this.activeTransactions()
+        .filter(t => t.batch_id === id)
+        .sort((a, b) => String(a.date).localeCompare(String(b.date)) || a.transaction_id - b.transaction_id)
+        .map(t => ({ ...t, customer_name: this.customers.get(t.customer_id)?.customer_name ?? "" })),
+      receipts: Array.from(this.vendorPayments.values()).filter(p => p.batch_id === id)
+    };
+  }
+
+  async createVendorBatch(batch: InsertVendorBatch, userId?: number): Promise<VendorBatchDetails> {
+    if (!this.activeVendor(batch.vendor_id)) {
+      throw new Error("Vendor not found");
+    }
+    
+    const newBatch: VendorBatch = {
+      batch_id: this.nextBatchId++,
+      vendor_id: batch.vendor_id,
+      batch_date: batch.batch_date || toDateString(),
+      status: 'open',
+      notes: batch.notes ?? null,
+      user_id: userId ?? null,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+    
+    // Check every cheque before saving anything
+    const transactions = (batch.transaction_ids ?? []).map(id => this.batchableTransaction(newBatch, id));
+    this.vendorBatches.set(newBatch.batch_id, newBatch);
+    for (const transaction of transactions) {
+      this.transactions.set(transaction.transaction_id, { ...transaction, batch_id: newBatch.batch_id, updated_at: new Date() });
     }
     
-    return transactions;
+    return (await this.getVendorBatch(newBatch.batch_id))!;
   }
 
-  async getTransaction(id: number): Promise<ChequeTransaction | undefined> {
-    return this.transactions.get(id);
+  // A cheque that can go in a batch
+  private batchableTransaction(batch: VendorBatch, transactionId: number): ChequeTransaction {
+    const transaction = this.activeTransaction(transactionId);
+    if (!transaction) {
+      throw new VendorBatchError(`Transaction #${transactionId} not found`);
+    }
+    assertBatchable(batch, transaction);
+    return transaction;
   }
 
-  async getTransactionWithDetails(id: number): Promise<TransactionWithDetails | undefined> {
-    const transaction = this.transactions.get(id);
-    
-    if (!transaction) {
+  async updateVendorBatch(id: number, batch: UpdateVendorBatch): Promise<VendorBatchDetails | undefined> {
+    const existingBatch = this.vendorBatches.get(id);
+    if (!existingBatch) {
       return undefined;
     }
     
-    const customer = this.customers.get(transaction.customer_id);
-    const vendor = this.vendors.get(transaction.vendor_id);
+    const hasReceipts = Array.from(this.vendorPayments.values()).some(p => p.batch_id === id);
+    const current = this.batchWithTotals(existingBatch);
+    assertBatchStatusChange({ ...existingBatch, status: current.status }, batch, hasReceipts);
     
-    if (!customer || !vendor) {
-      return undefined;
+    this.vendorBatches.set(id, {
+      ...existingBatch,
+      ...(batch.batch_date !== undefined && { batch_date: batch.batch_date }),
+      ...(batch.notes !== undefined && { notes: batch.notes }),
+      ...(batch.status !== undefined && { status: batch.status }),
+      updated_at: new Date()
+    });
+    
+    return this.getVendorBatch(id);
+  }
+
+  async deleteVendorBatch(id: number): Promise<boolean> {
+    const batch = this.vendorBatches.get(id);
+    if (!batch) {
+      return false;
     }
     
-    return {
-      ...transaction,
-      customer: {
-        customer_name: customer.customer_name
-      },
-      vendor: {
-        vendor_name: vendor.vendor_name
+    if (Array.from(this.vendorPayments.values()).some(p => p.batch_id === id)) {
+      throw new VendorBatchError("Delete the batch's receipts before deleting the batch");
+    }
+    
+    // The cheques go back to being unbatched
+    for (const transaction of Array.from(this.transactions.values())) {
+      if (transaction.batch_id === id) {
+        this.transactions.set(transaction.transaction_id, { ...transaction, batch_id: null, updated_at: new Date() });
       }
-    };
+    }
+    return this.vendorBatches.delete(id);
   }
 
-  async createTransaction(transaction: InsertTransaction): Promise<ChequeTransaction> {
-    const customer = this.customers.get(transaction.customer_id);
-    if (!customer) {
-      throw new Error("Customer not found");
+  async addBatchTransactions(id: number, transactionIds: number[]): Promise<VendorBatchDetails> {
+    const batch = this.vendorBatches.get(id);
+    if (!batch) {
+      throw new Error("Vendor batch not found");
     }
+    assertBatchOpen(batch);
     
-    const vendor = this.vendors.get(transaction.vendor_id);
-    if (!vendor) {
-      throw new Error("Vendor not found");
+    const transactions = transactionIds.map(transactionId => this.batchableTransaction(batch, transactionId));
+    for (const transaction of transactions) {
+      this.transactions.set(transaction.transaction_id, { ...transaction, batch_id: id, updated_at: new Date() });
+    }
+    
+    return (await this.getVendorBatch(id))!;
+  }
+
+  async removeBatchTransactions(id: number, transactionIds: number[]): Promise<VendorBatchDetails> {
+    const batch = this.vendorBatches.get(id);
+    if (!batch) {
+      throw new Error("Vendor batch not found");
     }
+    assertBatchOpen(batch);
     
-    // Calculate fees and profit
-    const chequeAmount = parseFloat(transaction.cheque_amount as any);
-    const customerFeePercentage = parseFloat(customer.fee_percentage as any);
-    const vendorFeePercentage = parseFloat(vendor.fee_percentage as any);
+    for (const transactionId of transactionIds) {
+      const transaction = this.transactions.get(transactionId);
+      if (transaction?.batch_id === id) {
+        this.transactions.set(transactionId, { ...transaction, batch_id: null, updated_at: new Date() });
+      }
+    }
     
-    const customerFee = (chequeAmount * customerFeePercentage / 100).toFixed(2);
-    const netPayableToCustomer = (chequeAmount - parseFloat(customerFee)).toFixed(2);
-    const vendorFee = (chequeAmount * vendorFeePercentage / 100).toFixed(2);
-    const amountToReceiveFromVendor = (chequeAmount - parseFloat(vendorFee)).toFixed(2);
-    const profit = (parseFloat(customerFee) - parseFloat(vendorFee)).toFixed(2);
+    return (await this.getVendorBatch(id))!;
+  }
+
+  async recordBatchReceipt(id: number, receipt: VendorBatchReceipt): Promise<VendorPaymentWithAllocations> {
+    const batch = this.vendorBatches.get(id);
+    if (!batch) {
+      throw new Error("Vendor batch not found");
+    }
+    assertBatchReceivable(this.batchWithTotals(batch));
     
-    const newTransaction: ChequeTransaction = {
-      transaction_id: this.nextTransactionId++,
-      date: transaction.date || new Date(),
-      customer_id: transaction.customer_id,
-      cheque_number: transaction.cheque_number,
-      cheque_amount: transaction.cheque_amount,
-      customer_fee: customerFee as any,
-      net_payable_to_customer: netPayableToCustomer as any,
-      vendor_id: transaction.vendor_id,
-      vendor_fee: vendorFee as any,
-      amount_to_receive_from_vendor: amountToReceiveFromVendor as any,
-      profit: profit as any,
-      paid_to_customer: "0.00" as any,
-      received_from_vendor: "0.00" as any,
-      profit_withdrawn: "0.00" as any,
+    const payment: VendorPayment = {
+      payment_id: this.nextVendorPaymentId++,
+      vendor_id: batch.vendor_id,
+      date: receipt.date || toDateString(),
+      amount: receipt.amount,
+      fully_allocated: false,
+      notes: receipt.notes ?? `Batch #${id}`,
+      batch_id: id,
       created_at: new Date(),
-      updated_at: new Date(),
-      status: transaction.status || "pending"
+      updated_at: new Date()
     };
     
-    this.transactions.set(newTransaction.transaction_id, newTransaction);
-    return newTransaction;
+    assertPeriodsOpen(this.closedPeriods(), [payment.date], "vendor payments can't be recorded in it");
+    this.vendorPayments.set(payment.payment_id, payment);
+    this.allocateVendorPayment(payment);
+    
+    // Keep the stored status in step with what has now been received
+    const totals = this.batchWithTotals(batch);
+    this.vendorBatches.set(id, {
+      ...batch,
+      status: batchStatusOf(batch.status, toCents(totals.expected_total), toCents(totals.received_total)),
+      updated_at: new Date()
+    });
+    
+    return (await this.getVendorPayment(payment.payment_id))!;
+  }
+  
+  // Apply a vendor payment to the vendor's open transactions, oldest first.
+  // A batch receipt only goes to the batch's cheques.
+  private allocateVendorPayment(payment: VendorPayment): void {
+    const openBalances = this.activeTransactions()
+      .filter(t => t.vendor_id === payment.vendor_id && (payment.batch_id === null || t.batch_id === payment.batch_id))
+      .map(t => ({
+        transaction_id: t.transaction_id,
+        date: t.date,
+        outstanding: outstandingAmount(t.amount_to_receive_from_vendor, t.received_from_vendor)
+      }));
+    
+    const { allocations, unallocated } = allocateOldestFirst(payment.amount, openBalances);
+    
+    for (const allocation of allocations) {
+      const allocationId = this.nextAllocationId++;
+      
+      this.vendorPaymentAllocations.push({
+        allocation_id: allocationId,
+        payment_id: payment.payment_id,
+        transaction_id: allocation.transaction_id,
+        amount: allocation.amount,
+        created_at: new Date()
+      });
+      
+      this.recordPaymentEvent({
+        transaction_id: allocation.transaction_id,
+        type: 'vendor_receipt',
+        amount: allocation.amount,
+        date: payment.date,
+        method: 'vendor_payment',
+        note: `Vendor payment #${payment.payment_id}`,
+        vendor_payment_allocation_id: allocationId
+      });
+      this.syncPaymentTotals(allocation.transaction_id);
+    }
+    
+    this.vendorPayments.set(payment.payment_id, {
+      ...payment,
+      fully_allocated: toCents(unallocated) === 0
+    });
+  }
+  
+  // Undo everything a vendor payment applied to its transactions
+  private releaseVendorPaymentAllocations(paymentId: number): void {
+    const allocations = this.vendorPaymentAllocations.filter(a => a.payment_id === paymentId);
+    const released = new Set(allocations.map(a => a.allocation_id));
+    
+    this.transactionPayments = this.transactionPayments.filter(
+      p => !p.vendor_payment_allocation_id || !released.has(p.vendor_payment_allocation_id)
+    );
+    this.vendorPaymentAllocations = this.vendorPaymentAllocations.filter(a => a.payment_id !== paymentId);
+    
+    for (const allocation of allocations) {
+      this.syncPaymentTotals(allocation.transaction_id);
+    }
+  }
+
+  // Bank reconciliation
+  private statementSummary(statement: BankStatement): BankStatementSummary {
+    const lines = this.bankStatementLines.filter(l => l.statement_id === statement.statement_id);
+    return {
+      ...statement,
+      line_count: lines.length,
+      matched_count: lines.filter(l => l.status === 'matched').length,
+      ignored_count: lines.filter(l => l.status === 'ignored').length
+    };
   }
 
-  async updateTransaction(id: number, transaction: Partial<InsertTransaction>): Promise<ChequeTransaction | undefined> {
-    const existingTransaction = this.transactions.get(id);
+  // What statement lines can still be matched to
+  private reconciliationTargets(): ReconciliationTargets {
+    const matched = this.bankStatementLines.filter(l => l.status === 'matched');
+    const matchedPayments = new Set(matched.map(l => l.vendor_payment_id));
+    const matchedDeposits = new Set(matched.map(l => l.deposit_id));
+    const vendorName = (vendorId: string) => this.vendors.get(vendorId)?.vendor_name ?? vendorId;
+    const customerName = (customerId: number) => this.customers.get(customerId)?.customer_name ?? "";
     
-    if (!existingTransaction) {
+    return {
+      transactions: this.activeTransactions()
+        .filter(t => toCents(outstandingAmount(t.amount_to_receive_from_vendor, t.received_from_vendor)) > 0)
+        .map(t => ({ ...t, customer_name: customerName(t.customer_id), vendor_name: vendorName(t.vendor_id) })),
+      batches: Array.from(this.vendorBatches.values()).map(batch => this.batchWithTotals(batch)),
+      vendorPayments: Array.from(this.vendorPayments.values())
+        .filter(p => !matchedPayments.has(p.payment_id))
+        .map(p => ({ ...p, vendor_name: vendorName(p.vendor_id) })),
+      deposits: Array.from(this.customerDeposits.values())
+        .filter(d => !matchedDeposits.has(d.deposit_id))
+        .map(d => ({ ...d, customer_name: customerName(d.customer_id) }))
+    };
+  }
+
+  private statementLine(lineId: number): BankStatementLine {
+    const line = this.bankStatementLines.find(l => l.line_id === lineId);
+    if (!line) {
+      throw new Error("Statement line not found");
+    }
+    return line;
+  }
+
+  private updateStatementLine(lineId: number, changes: Partial<BankStatementLine>): void {
+    this.bankStatementLines = this.bankStatementLines.map(l => l.line_id === lineId ? { ...l, ...changes } : l);
+  }
+
+  // Put lines matched to something being deleted back up for matching
+  private releaseStatementLines(matchedTo: (line: BankStatementLine) => boolean): void {
+    this.bankStatementLines = this.bankStatementLines.map(l => l.status === 'matched' && matchedTo(l)
+      ? { ...l, ...matchColumns(null), status: 'unmatched', matched_by: null, matched_at: null }
+      : l);
+  }
+
+  async getBankStatements(): Promise<BankStatementSummary[]> {
+    return Array.from(this.bankStatements.values())
+      .sort((a, b) => b.statement_id - a.statement_id)
+      .map(statement => this.statementSummary(statement));
+  }
+
+  async getBankStatement(id: number): Promise<BankStatementDetails | undefined> {
+    const statement = this.bankStatements.get(id);
+    if (!statement) {
       return undefined;
     }
     
-    let updatedTransaction = { ...existingTransaction };
-    
-    // Update fields
-    if (transaction.date) {
-      updatedTransaction.date = transaction.date;
+    const targets = this.reconciliationTargets();
+    return {
+      ...this.statementSummary(statement),
+      lines: this.bankStatementLines
+        .filter(l => l.statement_id === id)
+        .sort((a, b) => a.date.localeCompare(b.date) || a.line_id - b.line_id)
+        .map(line => toReconciliationLine(line, targets))
+    };
+  }
+
+  async importBankStatement(fileName: string, parsed: ParsedBankStatement, userId?: number): Promise<BankStatementDetails> {
+    // A line the bank gave a reference is only imported once
+    const lineKey = (line: Pick<BankStatementLine, 'date' | 'amount' | 'reference'>) =>
+      `${line.date}|${toCents(line.amount)}|${line.reference}`;
+    const imported = new Set(this.bankStatementLines.filter(l => l.reference).map(lineKey));
+    const lines = parsed.lines.filter(line => !line.reference || !imported.has(lineKey(line)));
+    if (lines.length === 0) {
+      throw new ReconciliationError("Every line of this statement has already been imported");
     }
     
-    if (transaction.customer_id) {
-      updatedTransaction.customer_id = transaction.customer_id;
-    }
+    const statement: BankStatement = {
+      statement_id: this.nextStatementId++,
+      file_name: fileName,
+      format: parsed.format,
+      account: parsed.account,
+      start_date: parsed.start_date,
+      end_date: parsed.end_date,
+      user_id: userId ?? null,
+      created_at: new Date()
+    };
+    this.bankStatements.set(statement.statement_id, statement);
+    
+    const matches = autoMatchLines(lines, this.reconciliationTargets());
+    lines.forEach((line, index) => {
+      const match = matches[index];
+      this.bankStatementLines.push({
+        line_id: this.nextStatementLineId++,
+        statement_id: statement.statement_id,
+        date: line.date,
+        amount: line.amount,
+        description: line.description,
+        reference: line.reference,
+        status: match ? 'matched' : 'unmatched',
+        ...matchColumns(match),
+        matched_by: null,
+        matched_at: match ? new Date() : null,
+        created_at: new Date()
+      });
+    });
     
-    if (transaction.cheque_number) {
-      updatedTransaction.cheque_number = transaction.cheque_number;
+    return (await this.getBankStatement(statement.statement_id))!;
+  }
+
+  async deleteBankStatement(id: number): Promise<boolean> {
+    if (!this.bankStatements.has(id)) {
+      return false;
     }
     
-    if (transaction.cheque_amount) {
-      updatedTransaction.cheque_amount = transaction.cheque_amount;
+    if (this.bankStatementLines.some(l => l.statement_id === id && l.status === 'matched')) {
+      throw new ReconciliationError("Unmatch the statement's lines before deleting it");
     }
     
-    if (transaction.vendor_id) {
-      updatedTransaction.vendor_id = transaction.vendor_id;
+    this.bankStatementLines = this.bankStatementLines.filter(l => l.statement_id !== id);
+    return this.bankStatements.delete(id);
+  }
+
+  async matchStatementLine(lineId: number, match: BankStatementMatch, userId?: number): Promise<BankStatementDetails> {
+    const line = this.statementLine(lineId);
+    checkMatch(line, match, this.reconciliationTargets());
+    
+    // Matching a cheque or batch records the vendor receipt the line paid
+    const columns = matchColumns(match);
+    const receipt = receiptFromLine(line);
+    if (match.match_type === 'transaction') {
+      const payment = await this.createTransactionPayment(match.id, {
+        type: 'vendor_receipt',
+        amount: receipt.amount,
+        date: receipt.date,
+        method: 'bank_statement',
+        note: receipt.note
+      }, userId);
+      columns.transaction_payment_id = payment.payment_id;
+    } else if (match.match_type === 'batch') {
+      const payment = await this.recordBatchReceipt(match.id, { amount: receipt.amount, date: receipt.date, notes: receipt.note });
+      columns.vendor_payment_id = payment.payment_id;
     }
     
-    if (transaction.status) {
-      updatedTransaction.status = transaction.status;
+    this.updateStatementLine(lineId, { ...columns, status: 'matched', matched_by: userId ?? null, matched_at: new Date() });
+    return (await this.getBankStatement(line.statement_id))!;
+  }
+
+  async unmatchStatementLine(lineId: number): Promise<BankStatementDetails> {
+    const line = this.statementLine(lineId);
+    if (line.status === 'unmatched') {
+      throw new ReconciliationError("The line isn't matched or ignored");
     }
     
-    // Recalculate fees and profit if necessary
-    if (transaction.cheque_amount || transaction.customer_id || transaction.vendor_id) {
-      const customer = this.customers.get(updatedTransaction.customer_id);
-      if (!customer) {
-        throw new Error("Customer not found");
-      }
-      
-      const vendor = this.vendors.get(updatedTransaction.vendor_id);
-      if (!vendor) {
-        throw new Error("Vendor not found");
-      }
-      
-      const chequeAmount = parseFloat(updatedTransaction.cheque_amount as any);
-      const customerFeePercentage = parseFloat(customer.fee_percentage as any);
-      const vendorFeePercentage = parseFloat(vendor.fee_percentage as any);
-      
-      const customerFee = (chequeAmount * customerFeePercentage / 100).toFixed(2);
-      const netPayableToCustomer = (chequeAmount - parseFloat(customerFee)).toFixed(2);
-      const vendorFee = (chequeAmount * vendorFeePercentage / 100).toFixed(2);
-      const amountToReceiveFromVendor = (chequeAmount - parseFloat(vendorFee)).toFixed(2);
-      const profit = (parseFloat(customerFee) - parseFloat(vendorFee)).toFixed(2);
-      
-      updatedTransaction.customer_fee = customerFee as any;
-      updatedTransaction.net_payable_to_customer = netPayableToCustomer as any;
-      updatedTransaction.vendor_fee = vendorFee as any;
-      updatedTransaction.amount_to_receive_from_vendor = amountToReceiveFromVendor as any;
-      updatedTransaction.profit = profit as any;
+    // Take back the vendor receipt matching recorded
+    if (line.match_type === 'transaction' && line.transaction_payment_id !== null) {
+      await this.deleteTransactionPayment(line.transaction_payment_id);
+    } else if (line.match_type === 'batch' && line.vendor_payment_id !== null) {
+      await this.deleteVendorPayment(line.vendor_payment_id);
     }
     
-    updatedTransaction.updated_at = new Date();
+    this.updateStatementLine(lineId, { ...matchColumns(null), status: 'unmatched', matched_by: null, matched_at: null });
+    return (await this.getBankStatement(line.statement_id))!;
+  }
+
+  async ignoreStatementLine(lineId: number): Promise<BankStatementDetails> {
+    const line = this.statementLine(lineId);
+    if (line.status === 'matched') {
+      throw new ReconciliationError("Unmatch the line before ignoring it");
+    }
     
-    this.transactions.set(id, updatedTransaction);
-    return updatedTransaction;
+    this.updateStatementLine(lineId, { status: 'ignored' });
+    return (await this.getBankStatement(line.statement_id))!;
   }
 
-  async deleteTransaction(id: number): Promise<boolean> {
-    return this.transactions.delete(id);
+  // Accounting periods
+  async getAccountingPeriods(): Promise<AccountingPeriodWithUsers[]> {
+    const username = (userId: number | null) => userId ? this.users.get(userId)?.username ?? null : null;
+    return Array.from(this.accountingPeriods.values())
+      .sort((a, b) => b.period.localeCompare(a.period))
+      .map(period => ({
+        ...period,
+        closed_by_username: username(period.closed_by),
+        reopened_by_username: username(period.reopened_by)
+      }));
   }
 
-  // Customer methods
-  async getCustomers(): Promise<Customer[]> {
-    return Array.from(this.customers.values());
+  async closeAccountingPeriod(period: string, actor: AuditActor = webActor()): Promise<AccountingPeriod> {
+    const existing = this.accountingPeriods.get(period);
+    assertClosable(period, existing, toDateString());
+    
+    const closed: AccountingPeriod = {
+      period,
+      status: 'closed',
+      closed_by: actor.user_id,
+      closed_at: new Date(),
+      reopened_by: existing?.reopened_by ?? null,
+      reopened_at: existing?.reopened_at ?? null
+    };
+    this.accountingPeriods.set(period, closed);
+    this.recordAudit('period', period, 'close', existing ?? null, closed, actor);
+    return closed;
   }
 
-  async getCustomer(id: number): Promise<Customer | undefined> {
-    return this.customers.get(id);
+  async reopenAccountingPeriod(period: string, actor: AuditActor = webActor()): Promise<AccountingPeriod> {
+    const existing = this.accountingPeriods.get(period);
+    assertReopenable(period, existing);
+    
+    const reopened: AccountingPeriod = {
+      ...existing!,
+      status: 'open',
+      reopened_by: actor.user_id,
+      reopened_at: new Date()
+    };
+    this.accountingPeriods.set(period, reopened);
+    this.recordAudit('period', period, 'reopen', existing!, reopened, actor);
+    return reopened;
+  }
+  
+  // The months that are closed, as YYYY-MM
+  private closedPeriods(): string[] {
+    return Array.from(this.accountingPeriods.values())
+      .filter(period => period.status === 'closed')
+      .map(period => period.period);
   }
 
-  async createCustomer(customer: InsertCustomer): Promise<Customer> {
-    const newCustomer: Customer = {
-      ...customer,
-      customer_id: this.nextCustomerId++,
+  // Approvals
+  async getApprovalPolicies(): Promise<ApprovalPolicy[]> {
+    return Array.from(this.approvalPolicies.values())
+      .sort((a, b) => a.action.localeCompare(b.action) || a.policy_id - b.policy_id);
+  }
+
+  async createApprovalPolicy(policy: InsertApprovalPolicy): Promise<ApprovalPolicy> {
+    const newPolicy: ApprovalPolicy = {
+      policy_id: this.nextApprovalPolicyId++,
+      name: policy.name,
+      action: policy.action,
+      min_amount: policy.min_amount ?? null,
+      roles: policy.roles ?? [],
+      active: policy.active ?? true,
       created_at: new Date(),
       updated_at: new Date()
     };
-    
-    this.customers.set(newCustomer.customer_id, newCustomer);
-    return newCustomer;
+    this.approvalPolicies.set(newPolicy.policy_id, newPolicy);
+    return newPolicy;
   }
 
-  async updateCustomer(id: number, customer: Partial<InsertCustomer>): Promise<Customer | undefined> {
-    const existingCustomer = this.customers.get(id);
-    
-    if (!existingCustomer) {
+  async updateApprovalPolicy(id: number, policy: UpdateApprovalPolicy): Promise<ApprovalPolicy | undefined> {
+    const existing = this.approvalPolicies.get(id);
+    if (!existing) {
       return undefined;
     }
     
-    const updatedCustomer: Customer = {
-      ...existingCustomer,
-      ...customer,
+    const updated: ApprovalPolicy = {
+      ...existing,
+      name: policy.name ?? existing.name,
+      action: policy.action ?? existing.action,
+      min_amount: policy.min_amount !== undefined ? policy.min_amount : existing.min_amount,
+      roles: policy.roles ?? existing.roles,
+      active: policy.active ?? existing.active,
       updated_at: new Date()
     };
+    this.approvalPolicies.set(id, updated);
+    return updated;
+  }
+
+  async deleteApprovalPolicy(id: number): Promise<boolean> {
+    if (!this.approvalPolicies.delete(id)) {
+      return false;
+    }
     
-    this.customers.set(id, updatedCustomer);
-    return updatedCustomer;
+    // Requests made under the policy keep their record
+    this.approvalRequests.forEach((request, approvalId) => {
+      if (request.policy_id === id) {
+        this.approvalRequests.set(approvalId, { ...request, policy_id: null });
+      }
+    });
+    return true;
   }
 
-  async deleteCustomer(id: number): Promise<boolean> {
-    // Check if customer has transactions
-    const hasTransactions = Array.from(this.transactions.values()).some(
-      transaction => transaction.customer_id === id
-    );
+  async submitForApproval(
+    action: ApprovalAction,
+    details: ApprovalDetails,
+    actor: AuditActor = webActor()
+  ): Promise<ApprovalRequestWithUsers | undefined> {
+    const requester = actor.user_id ? this.users.get(actor.user_id) : undefined;
+    const policy = matchApprovalPolicy(Array.from(this.approvalPolicies.values()), action, details.amount, requester?.role);
+    if (!policy) {
+      return undefined;
+    }
     
-    if (hasTransactions) {
-      throw new Error("Cannot delete customer with existing transactions");
+    // A cheque waiting to be deleted only needs one request
+    const pending = Array.from(this.approvalRequests.values()).find(request =>
+      request.status === 'pending' && request.action === 'delete' &&
+      action === 'delete' && request.transaction_id === details.transaction_id
+    );
+    if (pending) {
+      return this.withApprovalUsers(pending);
     }
     
-    return this.customers.delete(id);
+    return this.queueApprovalRequest(policy, action, details, actor);
   }
 
-  // Vendor methods
-  async getVendors(): Promise<Vendor[]> {
-    return Array.from(this.vendors.values());
+  // Add a request to the approval queue under the policy that holds it back
+  private queueApprovalRequest(
+    policy: ApprovalPolicy,
+    action: ApprovalAction,
+    details: ApprovalDetails,
+    actor: AuditActor
+  ): ApprovalRequestWithUsers {
+    const request: ApprovalRequest = {
+      approval_id: this.nextApprovalId++,
+      policy_id: policy.policy_id,
+      action,
+      transaction_id: details.transaction_id ?? null,
+      amount: details.amount,
+      summary: details.summary,
+      payload: details.payload,
+      status: 'pending',
+      requested_by: actor.user_id,
+      channel: actor.channel,
+      decided_by: null,
+      decided_at: null,
+      decision_note: null,
+      created_at: new Date()
+    };
+    this.approvalRequests.set(request.approval_id, request);
+    return this.withApprovalUsers(request);
   }
 
-  async getVendor(id: string): Promise<Vendor | undefined> {
-    return this.vendors.get(id);
+  async getApprovalRequests(filters: { status?: ApprovalStatus; requestedBy?: number } = {}): Promise<ApprovalRequestWithUsers[]> {
+    return Array.from(this.approvalRequests.values())
+      .filter(request => !filters.status || request.status === filters.status)
+      .filter(request => filters.requestedBy === undefined || request.requested_by === filters.requestedBy)
+      .sort((a, b) => b.approval_id - a.approval_id)
+      .map(request => this.withApprovalUsers(request));
   }
 
-  async createVendor(vendor: InsertVendor): Promise<Vendor> {
-    // Generate vendor ID (simplified version of the function in database)
-    const prefix = vendor.vendor_name.substring(0, 3).toUpperCase().replace(/[^A-Z]/g, '').padEnd(3, 'X');
-    const vendorId = `${prefix}${Math.floor(Math.random() * 1000)}`;
-    
-    const newVendor: Vendor = {
-      ...vendor,
-      vendor_id: vendorId,
-      created_at: new Date(),
-      updated_at: new Date()
-    };
-    
-    this.vendors.set(vendorId, newVendor);
-    return newVendor;
+  async getApprovalRequest(id: number): Promise<ApprovalRequestWithUsers | undefined> {
+    const request = this.approvalRequests.get(id);
+    return request ? this.withApprovalUsers(request) : undefined;
   }
 
-  async updateVendor(id: string, vendor: Partial<InsertVendor>): Promise<Vendor | undefined> {
-    const existingVendor = this.vendors.get(id);
-    
-    if (!existingVendor) {
-      return undefined;
+  async approveApprovalRequest(id: number, actor: AuditActor = webActor()): Promise<ApprovalRequestWithUsers> {
+    const request = this.approvalRequests.get(id);
+    if (!request) {
+      throw new Error("Approval request not found");
+    }
+    assertDecidable(request, actor.user_id);
+    
+    // The change is applied as the requester's, through the channel they used
+    const requester: AuditActor = { user_id: request.requested_by, channel: request.channel };
+    let transactionId = request.transaction_id;
+    switch (request.action) {
+      case 'create': {
+        const { override_limits, ...transaction } = request.payload;
+        const created = await this.createTransaction(insertTransactionSchema.parse(transaction), requester, { override_limits: override_limits === true });
+        transactionId = created.transaction_id;
+        break;
+      }
+      case 'delete':
+        if (!(await this.deleteTransaction(request.transaction_id!, requester))) {
+          throw new Error("Transaction not found");
+        }
+        break;
+      case 'fee_override':
+        if (!(await this.updateTransaction(request.transaction_id!, insertTransactionSchema.partial().parse(request.payload), requester))) {
+          throw new Error("Transaction not found");
+        }
+        break;
+      case 'payout': {
+        // A payout held back from a deposit is allocated from that deposit
+        const depositId = payoutDepositId(request);
+        if (depositId !== undefined) {
+          const before = this.customerDeposits.has(depositId) ? this.depositVersion(depositId) : undefined;
+          if (!before) {
+            throw new Error("Customer deposit not found");
+          }
+          assertPeriodsOpen(this.closedPeriods(), [before.date], "deposits dated in it can't be allocated");
+          this.applyDepositAllocation(depositId, {
+            mode: 'manual',
+            allocations: [{ transaction_id: request.transaction_id!, amount: request.amount }]
+          }, requester, request.approval_id);
+          this.recordAudit('deposit', depositId, 'update', before, this.depositVersion(depositId), requester);
+          break;
+        }
+        
+        await this.createTransactionPayment(request.transaction_id!, insertTransactionPaymentSchema.parse(request.payload), request.requested_by ?? undefined);
+        break;
+      }
     }
     
-    const updatedVendor: Vendor = {
-      ...existingVendor,
-      ...vendor,
-      vendor_id: id, // Ensure ID doesn't change
-      updated_at: new Date()
+    const approved: ApprovalRequest = {
+      ...request,
+      transaction_id: transactionId,
+      status: 'approved',
+      decided_by: actor.user_id,
+      decided_at: new Date()
     };
-    
-    this.vendors.set(id, updatedVendor);
-    return updatedVendor;
+    this.approvalRequests.set(id, approved);
+    return this.withApprovalUsers(approved);
   }
 
-  async deleteVendor(id: string): Promise<boolean> {
-    // Check if vendor has transactions
-    const hasTransactions = Array.from(this.transactions.values()).some(
-      transaction => transaction.vendor_id === id
-    );
-    
-    if (hasTransactions) {
-      throw new Error("Cannot delete vendor with existing transactions");
+  async rejectApprovalRequest(id: number, actor: AuditActor = webActor(), note?: string): Promise<ApprovalRequestWithUsers> {
+    const request = this.approvalRequests.get(id);
+    if (!request) {
+      throw new Error("Approval request not found");
     }
-    
-    return this.vendors.delete(id);
+    assertDecidable(request, actor.user_id);
+    
+    const rejected: ApprovalRequest = {
+      ...request,
+      status: 'rejected',
+      decided_by: actor.user_id,
+      decided_at: new Date(),
+      decision_note: note || null
+    };
+    this.approvalRequests.set(id, rejected);
+    return this.withApprovalUsers(rejected);
   }
   
-  // Customer Deposits
-  async createCustomerDeposit(deposit: InsertCustomerDeposit): Promise<CustomerDeposit> {
-    const customer = await this.getCustomer(deposit.customer_id);
-    if (!customer) {
-      throw new Error("Customer not found");
-    }
-    
-    // Only include customer_id and amount as specified
-    const newDeposit: CustomerDeposit = {
-      deposit_id: 1, // In a real implementation, this would be auto-generated by the database
-      customer_id: deposit.customer_id,
-      amount: deposit.amount,
-      date: new Date(),
-      fully_allocated: false,
-      notes: null,
-      created_at: new Date(),
-      updated_at: new Date()
+  private withApprovalUsers(request: ApprovalRequest): ApprovalRequestWithUsers {
+    const username = (userId: number | null) => userId ? this.users.get(userId)?.username ?? null : null;
+    return {
+      ...request,
+      requested_by_username: username(request.requested_by),
+      decided_by_username: username(request.decided_by)
     };
-    
-    return newDeposit;
+  }
+
+  // Customer statements and vendor settlements
+  async getCustomerStatement(customerId: number, period: StatementPeriod): Promise<CustomerStatement | undefined> {
+    const customer = this.activeCustomer(customerId);
+    if (!customer) return undefined;
+    
+    const transactions = this.activeTransactions().filter(t => t.customer_id === customerId);
+    const ids = new Set(transactions.map(t => t.transaction_id));
+    return buildCustomerStatement(customer, {
+      transactions,
+      deposits: Array.from(this.customerDeposits.values()).filter(d => d.customer_id === customerId),
+      payouts: this.transactionPayments.filter(p =>
+        ids.has(p.transaction_id) && p.type === 'payout' && p.deposit_allocation_id === null
+      ),
+      returns: Array.from(this.chequeReturns.values()).filter(r => ids.has(r.transaction_id))
+    }, period);
+  }
+  
+  async getVendorSettlement(vendorId: string, period: StatementPeriod, overdueDays?: number): Promise<VendorSettlement | undefined> {
+    const vendor = this.activeVendor(vendorId);
+    if (!vendor) return undefined;
+    
+    const transactions = this.activeTransactions()
+      .filter(t => t.vendor_id === vendorId)
+      .map(t => ({ ...t, customer_name: this.customers.get(t.customer_id)?.customer_name || 'Unknown' }));
+    const ids = new Set(transactions.map(t => t.transaction_id));
+    return buildVendorSettlement(vendor, {
+      transactions,
+      payments: Array.from(this.vendorPayments.values()).filter(p => p.vendor_id === vendorId),
+      receipts: this.transactionPayments.filter(p =>
+        ids.has(p.transaction_id) && p.type === 'vendor_receipt' && p.vendor_payment_allocation_id === null
+      )
+    }, period, overdueDays);
   }
 
   // Business summary
   async getBusinessSummary(): Promise<BusinessSummary> {
-    const transactions = Array.from(this.transactions.values());
+    const transactions = this.activeTransactions();
     
     const totalTransactions = transactions.length;
     const totalAmount = transactions.reduce((sum, t) => sum + parseFloat(t.cheque_amount as any), 0).toFixed(2);
     const totalProfit = transactions.reduce((sum, t) => sum + parseFloat(t.profit as any), 0).toFixed(2);
     
     const pendingTransactions = transactions.filter(t => t.status === "pending").length;
-    const completedTransactions = transactions.filter(t => t.status === "completed").length;
+    const completedTransactions = transactions.filter(t => t.status === "settled").length;
     
     // Calculate outstanding balance (net payable - paid to customer)
     const outstandingBalance = transactions
@@ -594,9 +2856,9 @@ export class MemStorage implements IStorage {
     // This is a simplified implementation for memory storage
     // In a real implementation, we would have proper SQL views
     
-    const transactions = Array.from(this.transactions.values());
-    const customers = Array.from(this.customers.values());
-    const vendors = Array.from(this.vendors.values());
+    const transactions = this.activeTransactions();
+    const customers = Array.from(this.customers.values()).filter(c => !c.deleted_at);
+    const vendors = Array.from(this.vendors.values()).filter(v => !v.deleted_at);
     
     // Apply filters
     let filteredTransactions = [...transactions];
@@ -770,6 +3032,51 @@ export class MemStorage implements IStorage {
             };
           });
       
+      case "returned_cheques":
+        return filteredTransactions
+          .filter(t => this.chequeReturns.has(t.transaction_id))
+          .map(t => {
+            const chequeReturn = this.chequeReturns.get(t.transaction_id)!;
+            const customer = this.customers.get(t.customer_id);
+            const vendor = this.vendors.get(t.vendor_id);
+            
+            return {
+              return_id: chequeReturn.return_id,
+              transaction_id: t.transaction_id,
+              date: t.date ? new Date(t.date).toISOString().split('T')[0] : null,
+              return_date: chequeReturn.return_date,
+              cheque_number: t.cheque_number,
+              cheque_amount: t.cheque_amount,
+              customer_id: t.customer_id,
+              customer_name: customer?.customer_name || 'Unknown',
+              vendor_id: t.vendor_id,
+              vendor_name: vendor?.vendor_name || 'Unknown',
+              reason: chequeReturn.reason,
+              chargeback_fee: chequeReturn.chargeback_fee,
+              customer_debt: chequeReturn.customer_debt,
+              total_owed_by_customer: fromCents(toCents(chequeReturn.customer_debt) + toCents(chequeReturn.chargeback_fee)),
+              vendor_receivable_reversed: chequeReturn.vendor_receivable_reversed,
+              profit_reversed: chequeReturn.profit_reversed
+            };
+          });
+        
+      case "customer_return_counts":
+        return customers.map(customer => {
+          const returns = transactions
+            .filter(t => t.customer_id === customer.customer_id && this.chequeReturns.has(t.transaction_id))
+            .map(t => ({ transaction: t, chequeReturn: this.chequeReturns.get(t.transaction_id)! }));
+          
+          return {
+            customer_id: customer.customer_id,
+            customer_name: customer.customer_name,
+            return_count: returns.length,
+            total_returned: fromCents(returns.reduce((sum, r) => sum + toCents(r.transaction.cheque_amount), 0)),
+            total_owed_by_customer: fromCents(returns.reduce(
+              (sum, r) => sum + toCents(r.chequeReturn.customer_debt) + toCents(r.chequeReturn.chargeback_fee), 0
+            ))
+          };
+        });
+      
       default:
         // For other reports, return empty array
         return [];
@@ -922,6 +3229,10 @@ export class MemStorage implements IStorage {
     return this.telegramUsers.get(chatId);
   }
 
+  async getTelegramUsersByUserIds(userIds: number[]): Promise<TelegramUser[]> {
+    return Array.from(this.telegramUsers.values()).filter(telegramUser => userIds.includes(telegramUser.user_id));
+  }
+
   async createTelegramUser(telegramUser: InsertTelegramUser): Promise<TelegramUser> {
     const newTelegramUser: TelegramUser = {
       ...telegramUser,
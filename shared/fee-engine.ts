@@ -0,0 +1,196 @@
+/**
+ * Fee calculation shared by the server, the AI assistant and the client
+ * previews so every channel shows the same numbers.
+ *
+ * Amounts are parsed from their decimal strings into whole cents and rates
+ * into hundredths of a percent, so no step goes through floating point. Each
+ * fee is rounded half-up to the cent once; net payable, amount to receive and
+ * profit are exact differences of those rounded fees.
+ */
+
+import type { FeeRule } from "./schema";
+
+export type FeeSource = "rule" | "override";
+
+export interface FeeOverrides {
+  customer_fee_override?: string | null;
+  vendor_fee_override?: string | null;
+  fee_override_reason?: string | null;
+}
+
+export interface FeeBreakdown {
+  cheque_amount: string;
+  customer_fee: string;
+  customer_fee_source: FeeSource;
+  net_payable_to_customer: string;
+  vendor_fee: string;
+  vendor_fee_source: FeeSource;
+  amount_to_receive_from_vendor: string;
+  profit: string;
+}
+
+// Parse a decimal into an integer count of 10^-scale units, rounding half-up
+function toScaled(value: string | number | null | undefined, scale: number): number {
+  if (value === null || value === undefined || value === "") {
+    return 0;
+  }
+
+  const text = typeof value === "number" ? value.toFixed(scale + 4) : value.trim();
+  const match = /^([+-])?(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || (match[2] === "" && !match[3])) {
+    return 0;
+  }
+
+  const [, sign, whole, fraction = ""] = match;
+  const digits = fraction.padEnd(scale + 1, "0");
+  let scaled = parseInt(whole || "0", 10) * 10 ** scale + parseInt(digits.slice(0, scale) || "0", 10);
+  if (parseInt(digits[scale], 10) >= 5) {
+    scaled += 1;
+  }
+
+  return sign === "-" ? -scaled : scaled;
+}
+
+/**
+ * Parse an amount into whole cents without floating point error
+ * @param value The amount ("1234.56", 1234.56, null)
+ */
+export function parseCents(value: string | number | null | undefined): number {
+  return toScaled(value, 2);
+}
+
+/**
+ * Format whole cents as a decimal string ("1234.56")
+ * @param cents The amount in cents
+ */
+export function formatCents(cents: number): string {
+  const sign = cents < 0 ? "-" : "";
+  const absolute = Math.abs(cents);
+  return `${sign}${Math.floor(absolute / 100)}.${String(absolute % 100).padStart(2, "0")}`;
+}
+
+// Percentage of an amount in cents, rounded half-up to the cent. Rates are
+// held in hundredths of a percent, so the product stays a safe integer for
+// any amount that fits in a numeric(10, 2) column.
+function percentOf(cents: number, feePercentage: string | number): number {
+  const product = cents * toScaled(feePercentage, 2);
+  const quotient = Math.floor(product / 10000);
+  return product - quotient * 10000 >= 5000 ? quotient + 1 : quotient;
+}
+
+/**
+ * A rule that only charges a percentage (parties without a schedule)
+ * @param feePercentage The percentage
+ */
+export function percentageRule(feePercentage: string | number): FeeRule {
+  return {
+    fee_percentage: String(feePercentage),
+    flat_fee: "0",
+    min_fee: null,
+    brackets: null,
+    bracket_mode: "bracket"
+  };
+}
+
+function percentageFeeCents(rule: FeeRule, amountCents: number): number {
+  const brackets = rule.brackets || [];
+  if (brackets.length === 0) {
+    return percentOf(amountCents, rule.fee_percentage);
+  }
+
+  if (rule.bracket_mode === "tiered") {
+    // Each slice of the amount is charged at its own bracket's rate, and
+    // anything above the last bracket at the base rate
+    let fee = 0;
+    let lower = 0;
+    for (const bracket of brackets) {
+      const upper = parseCents(bracket.up_to);
+      if (amountCents <= lower) break;
+      fee += percentOf(Math.min(amountCents, upper) - lower, bracket.fee_percentage);
+      lower = upper;
+    }
+    if (amountCents > lower) {
+      fee += percentOf(amountCents - lower, rule.fee_percentage);
+    }
+    return fee;
+  }
+
+  // The first bracket the amount fits in sets the rate for the whole amount
+  const bracket = brackets.find(b => amountCents <= parseCents(b.up_to));
+  return percentOf(amountCents, bracket ? bracket.fee_percentage : rule.fee_percentage);
+}
+
+function feeCents(rule: FeeRule, amountCents: number): number {
+  let fee = parseCents(rule.flat_fee) + percentageFeeCents(rule, amountCents);
+
+  if (rule.min_fee !== null && rule.min_fee !== undefined) {
+    fee = Math.max(fee, parseCents(rule.min_fee));
+  }
+
+  return Math.min(fee, Math.max(amountCents, 0));
+}
+
+/**
+ * The fee a rule charges on a cheque amount, never more than the amount itself
+ * @param rule The fee rule
+ * @param amount The cheque amount
+ */
+export function calculateFee(rule: FeeRule, amount: string | number): string {
+  return formatCents(feeCents(rule, parseCents(amount)));
+}
+
+/**
+ * Work out a cheque's fees, payable amounts and profit
+ * @param amount The cheque amount
+ * @param customerRule The customer's rule on the transaction date
+ * @param vendorRule The vendor's rule on the transaction date
+ * @param overrides Fees entered in place of the computed ones
+ */
+export function calculateFeeBreakdown(
+  amount: string | number,
+  customerRule: FeeRule,
+  vendorRule: FeeRule,
+  overrides: FeeOverrides = {}
+): FeeBreakdown {
+  const amountCents = parseCents(amount);
+  const customerOverride = overrides.customer_fee_override ?? null;
+  const vendorOverride = overrides.vendor_fee_override ?? null;
+
+  const customerFee = customerOverride !== null ? parseCents(customerOverride) : feeCents(customerRule, amountCents);
+  const vendorFee = vendorOverride !== null ? parseCents(vendorOverride) : feeCents(vendorRule, amountCents);
+
+  return {
+    cheque_amount: formatCents(amountCents),
+    customer_fee: formatCents(customerFee),
+    customer_fee_source: customerOverride !== null ? "override" : "rule",
+    net_payable_to_customer: formatCents(amountCents - customerFee),
+    vendor_fee: formatCents(vendorFee),
+    vendor_fee_source: vendorOverride !== null ? "override" : "rule",
+    amount_to_receive_from_vendor: formatCents(amountCents - vendorFee),
+    profit: formatCents(customerFee - vendorFee)
+  };
+}
+
+/**
+ * Short description of a rule, e.g. "2.00% + $5.00 flat, min $10.00, 1.50% up to $10000.00"
+ * @param rule The fee rule
+ */
+export function describeFeeRule(rule: FeeRule): string {
+  const formatRate = (rate: string) => formatCents(toScaled(rate, 2));
+  const parts = [`${formatRate(rule.fee_percentage)}%`];
+
+  if (parseCents(rule.flat_fee) > 0) {
+    parts[0] += ` + $${formatCents(parseCents(rule.flat_fee))} flat`;
+  }
+  if (rule.min_fee !== null && rule.min_fee !== undefined && parseCents(rule.min_fee) > 0) {
+    parts.push(`min $${formatCents(parseCents(rule.min_fee))}`);
+  }
+  if (rule.brackets && rule.brackets.length > 0) {
+    const brackets = rule.brackets
+      .map(b => `${formatRate(b.fee_percentage)}% up to $${formatCents(parseCents(b.up_to))}`)
+      .join(", ");
+    parts.push(rule.bracket_mode === "tiered" ? `tiered: ${brackets}` : brackets);
+  }
+
+  return parts.join(", ");
+}
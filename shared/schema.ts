@@ -1,10 +1,54 @@
-import { pgTable, text, integer, numeric, date, boolean, timestamp, serial, varchar, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, integer, numeric, date, boolean, timestamp, serial, varchar, pgEnum, jsonb, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { TRANSACTION_STATUSES } from "./transaction-status";
 
 // User Role Enum
 export const userRoleEnum = pgEnum('user_role', ['superuser', 'admin', 'user']);
 
+// Transaction Status Enum
+export const transactionStatusEnum = pgEnum('transaction_status', TRANSACTION_STATUSES);
+
+// Fee Schedule Party Enum
+export const feePartyEnum = pgEnum('fee_party', ['customer', 'vendor']);
+
+// Fee Bracket Mode Enum ('bracket' applies the matching bracket's rate to the whole
+// amount, 'tiered' charges each slice of the amount at its own bracket's rate)
+export const feeBracketModeEnum = pgEnum('fee_bracket_mode', ['bracket', 'tiered']);
+
+// Transaction Payment Type Enum
+export const transactionPaymentTypeEnum = pgEnum('transaction_payment_type', ['payout', 'vendor_receipt', 'profit_withdrawal']);
+
+// Attachment Kind Enum (front and back images of a cheque, or a scanned document such as a PDF)
+export const attachmentKindEnum = pgEnum('attachment_kind', ['front', 'back', 'document']);
+
+// Audit Enums (the channel is where a change was made: the web app, the AI
+// assistant or the Telegram bot). Closing and reopening an accounting period is
+// audited against the period.
+export const auditEntityEnum = pgEnum('audit_entity', ['transaction', 'customer', 'vendor', 'deposit', 'period']);
+export const auditActionEnum = pgEnum('audit_action', ['create', 'update', 'delete', 'revert', 'restore', 'purge', 'close', 'reopen']);
+export const auditChannelEnum = pgEnum('audit_channel', ['web', 'ai', 'telegram']);
+
+// Vendor Batch Status Enum (open while cheques are being gathered, delivered once
+// handed to the vendor, then partially or fully received as the vendor pays)
+export const vendorBatchStatusEnum = pgEnum('vendor_batch_status', ['open', 'delivered', 'partially_received', 'received']);
+
+// Bank Statement Enums (a line is unmatched until it is matched to what it paid
+// for or ignored, e.g. bank charges; what a line can be matched to is its match type)
+export const bankStatementFormatEnum = pgEnum('bank_statement_format', ['csv', 'ofx']);
+export const bankLineStatusEnum = pgEnum('bank_line_status', ['unmatched', 'matched', 'ignored']);
+export const BANK_MATCH_TYPES = ['transaction', 'batch', 'vendor_payment', 'customer_deposit'] as const;
+export const bankMatchTypeEnum = pgEnum('bank_match_type', BANK_MATCH_TYPES);
+
+// Accounting Period Status Enum (a closed month can't be changed until a superuser reopens it)
+export const accountingPeriodStatusEnum = pgEnum('accounting_period_status', ['closed', 'open']);
+
+// Approval Enums (the actions an approval policy can hold back for a second
+// person, and where a held-back action stands)
+export const APPROVAL_ACTIONS = ['create', 'delete', 'fee_override', 'payout'] as const;
+export const approvalActionEnum = pgEnum('approval_action', APPROVAL_ACTIONS);
+export const approvalStatusEnum = pgEnum('approval_status', ['pending', 'approved', 'rejected']);
+
 // Users Table
 export const users = pgTable("users", {
   user_id: serial("user_id").primaryKey(),
@@ -35,8 +79,11 @@ export const customers = pgTable("customers", {
   customer_name: varchar("customer_name", { length: 255 }).notNull(),
   contact_info: varchar("contact_info", { length: 255 }),
   fee_percentage: numeric("fee_percentage", { precision: 5, scale: 2 }).notNull(),
+  credit_limit: numeric("credit_limit", { precision: 12, scale: 2 }), // Most that vendors may still owe on the customer's cheques; null for no limit
+  daily_limit: numeric("daily_limit", { precision: 12, scale: 2 }), // Most cheque volume taken from the customer in a day; null for no limit
   created_at: timestamp("created_at").defaultNow(),
-  updated_at: timestamp("updated_at").defaultNow()
+  updated_at: timestamp("updated_at").defaultNow(),
+  deleted_at: timestamp("deleted_at") // Set while the customer is in the trash
 });
 
 // Vendors Table
@@ -45,8 +92,34 @@ export const vendors = pgTable("vendors", {
   vendor_name: varchar("vendor_name", { length: 255 }).notNull(),
   fee_percentage: numeric("fee_percentage", { precision: 5, scale: 2 }).notNull(),
   contact_info: varchar("contact_info", { length: 255 }),
+  // Routing rules used to recommend a vendor for a cheque; null for no rule
+  daily_capacity: numeric("daily_capacity", { precision: 12, scale: 2 }), // Most cheque volume the vendor takes in a day
+  weekly_capacity: numeric("weekly_capacity", { precision: 12, scale: 2 }), // Most cheque volume the vendor takes Monday to Sunday
+  min_cheque_amount: numeric("min_cheque_amount", { precision: 12, scale: 2 }),
+  max_cheque_amount: numeric("max_cheque_amount", { precision: 12, scale: 2 }),
+  accepted_banks: jsonb("accepted_banks").$type<string[]>(), // Drawer banks the vendor takes cheques from
   created_at: timestamp("created_at").defaultNow(),
-  updated_at: timestamp("updated_at").defaultNow()
+  updated_at: timestamp("updated_at").defaultNow(),
+  deleted_at: timestamp("deleted_at") // Set while the vendor is in the trash
+});
+
+// Fee rates over time for customers and vendors. effective_to is inclusive and
+// null while the rate is open-ended. Fees use the rate in force on the transaction date.
+export const feeSchedules = pgTable("fee_schedules", {
+  schedule_id: serial("schedule_id").primaryKey(),
+  party_type: feePartyEnum("party_type").notNull(),
+  customer_id: integer("customer_id").references(() => customers.customer_id),
+  vendor_id: varchar("vendor_id", { length: 20 }).references(() => vendors.vendor_id),
+  fee_percentage: numeric("fee_percentage", { precision: 5, scale: 2 }).notNull(), // Base rate, and the rate above the last bracket
+  flat_fee: numeric("flat_fee", { precision: 10, scale: 2 }).notNull().default("0"),
+  min_fee: numeric("min_fee", { precision: 10, scale: 2 }),
+  brackets: jsonb("brackets").$type<FeeBracket[]>(),
+  bracket_mode: feeBracketModeEnum("bracket_mode").notNull().default('bracket'),
+  effective_from: date("effective_from").notNull(),
+  effective_to: date("effective_to"),
+  note: text("note"),
+  user_id: integer("user_id").references(() => users.user_id),
+  created_at: timestamp("created_at").defaultNow()
 });
 
 // Transactions Table
@@ -56,17 +129,24 @@ export const chequeTransactions = pgTable("cheque_transactions", {
   customer_id: integer("customer_id").notNull().references(() => customers.customer_id),
   cheque_number: varchar("cheque_number", { length: 50 }).notNull(),
   cheque_amount: numeric("cheque_amount", { precision: 10, scale: 2 }).notNull(),
+  drawer_bank: varchar("drawer_bank", { length: 100 }), // Bank the cheque is drawn on
   customer_fee: numeric("customer_fee", { precision: 10, scale: 2 }),
   net_payable_to_customer: numeric("net_payable_to_customer", { precision: 10, scale: 2 }),
   vendor_id: varchar("vendor_id", { length: 20 }).notNull().references(() => vendors.vendor_id),
   vendor_fee: numeric("vendor_fee", { precision: 10, scale: 2 }),
   amount_to_receive_from_vendor: numeric("amount_to_receive_from_vendor", { precision: 10, scale: 2 }),
   profit: numeric("profit", { precision: 10, scale: 2 }),
+  customer_fee_override: numeric("customer_fee_override", { precision: 10, scale: 2 }), // Replaces the customer's fee rule for this cheque
+  vendor_fee_override: numeric("vendor_fee_override", { precision: 10, scale: 2 }), // Replaces the vendor's fee rule for this cheque
+  fee_override_reason: text("fee_override_reason"),
   paid_to_customer: numeric("paid_to_customer", { precision: 10, scale: 2 }).default("0"),
   received_from_vendor: numeric("received_from_vendor", { precision: 10, scale: 2 }).default("0"),
   profit_withdrawn: numeric("profit_withdrawn", { precision: 10, scale: 2 }).default("0"),
+  status: transactionStatusEnum("status").default('pending'),
+  batch_id: integer("batch_id").references(() => vendorBatches.batch_id), // Bundle of cheques the cheque was handed to the vendor in
   created_at: timestamp("created_at").defaultNow(),
-  updated_at: timestamp("updated_at").defaultNow()
+  updated_at: timestamp("updated_at").defaultNow(),
+  deleted_at: timestamp("deleted_at") // Set while the transaction is in the trash
 });
 
 // Customer deposits
@@ -81,6 +161,15 @@ export const customerDeposits = pgTable("customer_deposits", {
   updated_at: timestamp("updated_at").defaultNow()
 });
 
+// Customer deposit allocations (portion of a deposit applied to a transaction)
+export const depositAllocations = pgTable("deposit_allocations", {
+  allocation_id: serial("allocation_id").primaryKey(),
+  deposit_id: integer("deposit_id").notNull().references(() => customerDeposits.deposit_id),
+  transaction_id: integer("transaction_id").notNull().references(() => chequeTransactions.transaction_id),
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+  created_at: timestamp("created_at").defaultNow()
+});
+
 // Vendor payments
 export const vendorPayments = pgTable("vendor_payments", {
   payment_id: serial("payment_id").primaryKey(),
@@ -89,10 +178,230 @@ export const vendorPayments = pgTable("vendor_payments", {
   amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
   fully_allocated: boolean("fully_allocated").default(false),
   notes: text("notes"),
+  batch_id: integer("batch_id").references(() => vendorBatches.batch_id), // Only spread across this batch's cheques
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow()
+});
+
+// Vendor payment allocations (portion of a vendor payment applied to a transaction)
+export const vendorPaymentAllocations = pgTable("vendor_payment_allocations", {
+  allocation_id: serial("allocation_id").primaryKey(),
+  payment_id: integer("payment_id").notNull().references(() => vendorPayments.payment_id),
+  transaction_id: integer("transaction_id").notNull().references(() => chequeTransactions.transaction_id),
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+  created_at: timestamp("created_at").defaultNow()
+});
+
+// Vendor batches: bundles of cheques handed to a vendor together. The expected
+// and received totals are summed from the batch's cheques.
+export const vendorBatches = pgTable("vendor_batches", {
+  batch_id: serial("batch_id").primaryKey(),
+  vendor_id: varchar("vendor_id", { length: 20 }).notNull().references(() => vendors.vendor_id),
+  batch_date: date("batch_date").defaultNow(),
+  status: vendorBatchStatusEnum("status").notNull().default('open'),
+  notes: text("notes"),
+  user_id: integer("user_id").references(() => users.user_id),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow()
+});
+
+// Transaction payment events (payouts, vendor receipts, profit withdrawals).
+// paid_to_customer, received_from_vendor and profit_withdrawn are derived from these rows.
+export const transactionPayments = pgTable("transaction_payments", {
+  payment_id: serial("payment_id").primaryKey(),
+  transaction_id: integer("transaction_id").notNull().references(() => chequeTransactions.transaction_id),
+  type: transactionPaymentTypeEnum("type").notNull(),
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+  date: date("date").defaultNow(),
+  method: varchar("method", { length: 50 }),
+  user_id: integer("user_id").references(() => users.user_id),
+  note: text("note"),
+  // Set when the event was generated by a deposit or vendor payment allocation
+  deposit_allocation_id: integer("deposit_allocation_id").references(() => depositAllocations.allocation_id),
+  vendor_payment_allocation_id: integer("vendor_payment_allocation_id").references(() => vendorPaymentAllocations.allocation_id),
+  created_at: timestamp("created_at").defaultNow()
+});
+
+// Returned (bounced) cheques and what the return reversed
+export const chequeReturns = pgTable("cheque_returns", {
+  return_id: serial("return_id").primaryKey(),
+  transaction_id: integer("transaction_id").notNull().unique().references(() => chequeTransactions.transaction_id),
+  return_date: date("return_date").notNull(),
+  reason: text("reason").notNull(),
+  chargeback_fee: numeric("chargeback_fee", { precision: 10, scale: 2 }).notNull().default("0"),
+  customer_debt: numeric("customer_debt", { precision: 10, scale: 2 }).notNull().default("0"), // Already paid out, now owed back
+  vendor_receivable_reversed: numeric("vendor_receivable_reversed", { precision: 10, scale: 2 }).notNull().default("0"),
+  profit_reversed: numeric("profit_reversed", { precision: 10, scale: 2 }).notNull().default("0"),
+  user_id: integer("user_id").references(() => users.user_id),
+  created_at: timestamp("created_at").defaultNow()
+});
+
+// Status changes of a transaction, one row per transition
+export const transactionStatusHistory = pgTable("transaction_status_history", {
+  history_id: serial("history_id").primaryKey(),
+  transaction_id: integer("transaction_id").notNull().references(() => chequeTransactions.transaction_id),
+  from_status: transactionStatusEnum("from_status"), // null for the initial status
+  to_status: transactionStatusEnum("to_status").notNull(),
+  user_id: integer("user_id").references(() => users.user_id),
+  note: text("note"),
+  changed_at: timestamp("changed_at").defaultNow()
+});
+
+// Cheque images and scans kept with a transaction. The file itself lives in
+// the file store under storage_key. Files sent to the AI assistant or the
+// Telegram bot are saved with their conversation_id and no transaction until
+// the chat creates the transaction.
+export const transactionAttachments = pgTable("transaction_attachments", {
+  attachment_id: serial("attachment_id").primaryKey(),
+  transaction_id: integer("transaction_id").references(() => chequeTransactions.transaction_id),
+  conversation_id: varchar("conversation_id", { length: 100 }),
+  kind: attachmentKindEnum("kind").notNull(),
+  file_name: varchar("file_name", { length: 255 }).notNull(),
+  content_type: varchar("content_type", { length: 100 }).notNull(),
+  size: integer("size").notNull(),
+  storage_key: varchar("storage_key", { length: 255 }).notNull(),
+  thumbnail_key: varchar("thumbnail_key", { length: 255 }), // null when no preview could be made, e.g. for PDFs
+  user_id: integer("user_id").references(() => users.user_id),
+  created_at: timestamp("created_at").defaultNow()
+});
+
+// Notes left on a transaction by staff or through the AI assistant or Telegram bot
+export const transactionComments = pgTable("transaction_comments", {
+  comment_id: serial("comment_id").primaryKey(),
+  transaction_id: integer("transaction_id").notNull().references(() => chequeTransactions.transaction_id),
+  body: text("body").notNull(),
+  user_id: integer("user_id").references(() => users.user_id),
+  channel: auditChannelEnum("channel").notNull().default('web'),
+  created_at: timestamp("created_at").defaultNow()
+});
+
+// Free-form labels for transactions, such as "hold payout" or "VIP"
+export const tags = pgTable("tags", {
+  tag_id: serial("tag_id").primaryKey(),
+  name: varchar("name", { length: 50 }).notNull().unique(),
+  color: varchar("color", { length: 7 }).notNull().default('#6b7280'), // #rrggbb
+  created_at: timestamp("created_at").defaultNow()
+});
+
+export const transactionTags = pgTable("transaction_tags", {
+  transaction_id: integer("transaction_id").notNull().references(() => chequeTransactions.transaction_id),
+  tag_id: integer("tag_id").notNull().references(() => tags.tag_id),
+  created_at: timestamp("created_at").defaultNow()
+}, (table) => [primaryKey({ columns: [table.transaction_id, table.tag_id] })]);
+
+// Fee recalculations applied to a customer's or vendor's transactions, with the
+// before and after numbers of every transaction that changed
+export const feeRecalculations = pgTable("fee_recalculations", {
+  recalculation_id: serial("recalculation_id").primaryKey(),
+  party_type: feePartyEnum("party_type").notNull(),
+  customer_id: integer("customer_id").references(() => customers.customer_id),
+  vendor_id: varchar("vendor_id", { length: 20 }).references(() => vendors.vendor_id),
+  date_from: date("date_from").notNull(),
+  date_to: date("date_to").notNull(),
+  transaction_count: integer("transaction_count").notNull(),
+  profit_before: numeric("profit_before", { precision: 12, scale: 2 }).notNull(),
+  profit_after: numeric("profit_after", { precision: 12, scale: 2 }).notNull(),
+  changes: jsonb("changes").$type<FeeRecalculationLine[]>().notNull(),
+  user_id: integer("user_id").references(() => users.user_id),
+  created_at: timestamp("created_at").defaultNow()
+});
+
+// Bank statements uploaded for reconciliation
+export const bankStatements = pgTable("bank_statements", {
+  statement_id: serial("statement_id").primaryKey(),
+  file_name: varchar("file_name", { length: 255 }).notNull(),
+  format: bankStatementFormatEnum("format").notNull(),
+  account: varchar("account", { length: 100 }), // From the OFX file, if given
+  start_date: date("start_date"),
+  end_date: date("end_date"),
+  user_id: integer("user_id").references(() => users.user_id),
+  created_at: timestamp("created_at").defaultNow()
+});
+
+// Bank statement lines and what each was matched to. Matching a line to a cheque
+// or a batch records the vendor receipt it paid, kept in transaction_payment_id
+// or vendor_payment_id so unmatching can take it back out.
+export const bankStatementLines = pgTable("bank_statement_lines", {
+  line_id: serial("line_id").primaryKey(),
+  statement_id: integer("statement_id").notNull().references(() => bankStatements.statement_id),
+  date: date("date").notNull(),
+  amount: numeric("amount", { precision: 12, scale: 2 }).notNull(), // Credits are positive, debits negative
+  description: text("description"),
+  reference: varchar("reference", { length: 100 }), // The bank's id for the line (FITID in OFX)
+  status: bankLineStatusEnum("status").notNull().default('unmatched'),
+  match_type: bankMatchTypeEnum("match_type"),
+  transaction_id: integer("transaction_id").references(() => chequeTransactions.transaction_id),
+  batch_id: integer("batch_id").references(() => vendorBatches.batch_id),
+  vendor_payment_id: integer("vendor_payment_id").references(() => vendorPayments.payment_id),
+  deposit_id: integer("deposit_id").references(() => customerDeposits.deposit_id),
+  transaction_payment_id: integer("transaction_payment_id").references(() => transactionPayments.payment_id),
+  matched_by: integer("matched_by").references(() => users.user_id), // Null when matched on import
+  matched_at: timestamp("matched_at"),
+  created_at: timestamp("created_at").defaultNow()
+});
+
+// Accounting periods that have been closed, one row per month. Reopening keeps
+// the row so it shows who closed and reopened it last; closing it again
+// flips it back.
+export const accountingPeriods = pgTable("accounting_periods", {
+  period: varchar("period", { length: 7 }).primaryKey(), // YYYY-MM
+  status: accountingPeriodStatusEnum("status").notNull().default('closed'),
+  closed_by: integer("closed_by").references(() => users.user_id),
+  closed_at: timestamp("closed_at").defaultNow(),
+  reopened_by: integer("reopened_by").references(() => users.user_id),
+  reopened_at: timestamp("reopened_at")
+});
+
+// Approval policies. An action of the policy's kind by someone with one of its
+// roles (any role when empty) whose amount is at least min_amount (any amount
+// when null) waits in the approval queue instead of being applied.
+export const approvalPolicies = pgTable("approval_policies", {
+  policy_id: serial("policy_id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  action: approvalActionEnum("action").notNull(),
+  min_amount: numeric("min_amount", { precision: 12, scale: 2 }),
+  roles: jsonb("roles").$type<User['role'][]>().notNull().default([]),
+  active: boolean("active").notNull().default(true),
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow()
 });
 
+// Actions waiting for, or decided by, a second person. payload is what the
+// requester submitted and is applied through the normal path once approved;
+// a new cheque's transaction_id is filled in then.
+export const approvalRequests = pgTable("approval_requests", {
+  approval_id: serial("approval_id").primaryKey(),
+  policy_id: integer("policy_id").references(() => approvalPolicies.policy_id, { onDelete: 'set null' }),
+  action: approvalActionEnum("action").notNull(),
+  transaction_id: integer("transaction_id").references(() => chequeTransactions.transaction_id),
+  amount: numeric("amount", { precision: 12, scale: 2 }).notNull(),
+  summary: text("summary").notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  status: approvalStatusEnum("status").notNull().default('pending'),
+  requested_by: integer("requested_by").references(() => users.user_id),
+  channel: auditChannelEnum("channel").notNull().default('web'),
+  decided_by: integer("decided_by").references(() => users.user_id),
+  decided_at: timestamp("decided_at"),
+  decision_note: text("decision_note"),
+  created_at: timestamp("created_at").defaultNow()
+});
+
+// Audit trail of changes to transactions, customers, vendors and deposits.
+// snapshot is the record after the change (null once deleted) and is what a
+// revert restores. Rows are kept after the record itself is deleted.
+export const auditLog = pgTable("audit_log", {
+  audit_id: serial("audit_id").primaryKey(),
+  entity_type: auditEntityEnum("entity_type").notNull(),
+  entity_id: varchar("entity_id", { length: 50 }).notNull(),
+  action: auditActionEnum("action").notNull(),
+  channel: auditChannelEnum("channel").notNull().default('web'),
+  user_id: integer("user_id").references(() => users.user_id),
+  changes: jsonb("changes").$type<AuditFieldChange[]>().notNull(),
+  snapshot: jsonb("snapshot").$type<Record<string, unknown>>(),
+  reverted_audit_id: integer("reverted_audit_id"), // The entry whose version a revert restored
+  created_at: timestamp("created_at").defaultNow()
+});
+
 // Telegram Users Table
 export const telegramUsers = pgTable("telegram_users", {
   telegram_id: integer("telegram_id").primaryKey(),
@@ -115,21 +424,73 @@ export const aiMessages = pgTable("ai_messages", {
 });
 
 // Create insert schemas
+// Customer limit or vendor routing amount; null or empty for no limit
+const limitAmountField = z.union([z.string(), z.number()])
+  .transform(val => String(val).trim() === "" ? null : String(val))
+  .refine(val => val === null || (!isNaN(parseFloat(val)) && parseFloat(val) >= 0), "Limit must be zero or more")
+  .nullable();
+
 export const insertCustomerSchema = createInsertSchema(customers).omit({ 
   created_at: true,
-  updated_at: true 
+  updated_at: true,
+  deleted_at: true
+}).extend({
+  credit_limit: limitAmountField.optional(),
+  daily_limit: limitAmountField.optional()
 });
 
 export const insertVendorSchema = createInsertSchema(vendors).omit({ 
   created_at: true,
   updated_at: true,
+  deleted_at: true,
   vendor_id: true // Auto-generated by trigger
+}).extend({
+  daily_capacity: limitAmountField.optional(),
+  weekly_capacity: limitAmountField.optional(),
+  min_cheque_amount: limitAmountField.optional(),
+  max_cheque_amount: limitAmountField.optional(),
+  // Empty for any bank
+  accepted_banks: z.array(z.string().trim().min(1).max(100)).max(50)
+    .transform(banks => banks.length > 0 ? banks : null)
+    .nullable()
+    .optional()
+});
+
+// Refuse a vendor cheque size range whose minimum is above its maximum
+export function checkChequeAmountRange(
+  vendor: { min_cheque_amount?: string | null; max_cheque_amount?: string | null },
+  ctx: z.RefinementCtx
+) {
+  if (vendor.min_cheque_amount && vendor.max_cheque_amount &&
+      parseFloat(vendor.min_cheque_amount) > parseFloat(vendor.max_cheque_amount)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Minimum cheque amount can't be more than the maximum",
+      path: ["max_cheque_amount"]
+    });
+  }
+}
+
+// Cheque details used to recommend a vendor
+export const vendorRecommendationRequestSchema = z.object({
+  customer_id: z.coerce.number().int().positive(),
+  cheque_amount: z.union([z.string(), z.number()])
+    .transform(val => String(val))
+    .refine(val => !isNaN(parseFloat(val)) && parseFloat(val) > 0, "Cheque amount must be more than zero"),
+  date: z.coerce.date().optional(),
+  drawer_bank: z.string().nullable().optional()
 });
 
+// Fee amount entered in place of the computed fee
+const feeOverrideField = z.union([z.string(), z.number()])
+  .transform(val => String(val))
+  .refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, "Fee override must be zero or more");
+
 export const insertTransactionSchema = createInsertSchema(chequeTransactions).omit({ 
   transaction_id: true, // Auto-generated field
   created_at: true,
   updated_at: true,
+  deleted_at: true,
   customer_fee: true,
   net_payable_to_customer: true,
   vendor_fee: true,
@@ -137,7 +498,12 @@ export const insertTransactionSchema = createInsertSchema(chequeTransactions).om
   profit: true,
   paid_to_customer: true,
   received_from_vendor: true,
-  profit_withdrawn: true
+  profit_withdrawn: true,
+  batch_id: true // Set through the vendor batch
+}).extend({
+  customer_fee_override: feeOverrideField.nullable().optional(),
+  vendor_fee_override: feeOverrideField.nullable().optional(),
+  fee_override_reason: z.string().trim().nullable().optional()
 });
 
 export const insertCustomerDepositSchema = createInsertSchema(customerDeposits).omit({
@@ -147,13 +513,317 @@ export const insertCustomerDepositSchema = createInsertSchema(customerDeposits).
   fully_allocated: true
 });
 
+// Allocation lines a user picks when applying a deposit manually
+export const depositAllocationLineSchema = z.object({
+  transaction_id: z.number().int().positive(),
+  amount: z.union([z.string(), z.number()]).transform(val => String(val))
+});
+
+export const allocateDepositSchema = z.object({
+  mode: z.enum(['auto', 'manual']).default('auto'),
+  allocations: z.array(depositAllocationLineSchema).optional()
+}).refine(data => data.mode !== 'manual' || (data.allocations && data.allocations.length > 0), {
+  message: "Manual allocation requires at least one transaction",
+  path: ["allocations"]
+});
+
 export const insertVendorPaymentSchema = createInsertSchema(vendorPayments).omit({
   payment_id: true,
   created_at: true,
   updated_at: true,
-  fully_allocated: true
+  fully_allocated: true,
+  batch_id: true // Set by recording a batch receipt
+});
+
+// Statuses a batch can be given by hand; the received statuses follow its receipts
+export const MANUAL_VENDOR_BATCH_STATUSES = ['open', 'delivered'] as const;
+
+export const insertVendorBatchSchema = createInsertSchema(vendorBatches).omit({
+  batch_id: true,
+  status: true,
+  user_id: true, // Taken from the session
+  created_at: true,
+  updated_at: true
+}).extend({
+  transaction_ids: z.array(z.number().int().positive()).max(500).optional()
+});
+
+export const updateVendorBatchSchema = z.object({
+  batch_date: z.string().optional(),
+  status: z.enum(MANUAL_VENDOR_BATCH_STATUSES).optional(),
+  notes: z.string().nullable().optional()
+});
+
+export const vendorBatchTransactionsSchema = z.object({
+  transaction_ids: z.array(z.number().int().positive()).min(1, "Select at least one transaction").max(500)
+});
+
+export const vendorBatchReceiptSchema = z.object({
+  amount: z.union([z.string(), z.number()])
+    .transform(val => String(val))
+    .refine(val => !isNaN(parseFloat(val)) && parseFloat(val) > 0, "Amount must be more than zero"),
+  date: z.string().optional(),
+  notes: z.string().nullable().optional()
+});
+
+// What a bank statement line is being matched to
+export const bankStatementMatchSchema = z.object({
+  match_type: z.enum(BANK_MATCH_TYPES),
+  id: z.number().int().positive()
+});
+
+// An accounting period is a calendar month
+export const accountingPeriodKeySchema = z.string()
+  .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Period must be a month in YYYY-MM format");
+
+export const insertApprovalPolicySchema = createInsertSchema(approvalPolicies).omit({
+  policy_id: true,
+  created_at: true,
+  updated_at: true
+}).extend({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  min_amount: limitAmountField.optional(),
+  roles: z.array(z.enum(userRoleEnum.enumValues)).max(3).optional()
+});
+
+export const updateApprovalPolicySchema = insertApprovalPolicySchema.partial();
+
+// An approver's decision; a note is only kept for rejections
+export const approvalDecisionSchema = z.object({
+  note: z.string().trim().max(500).optional()
+});
+
+export const insertTransactionPaymentSchema = createInsertSchema(transactionPayments).omit({
+  payment_id: true,
+  transaction_id: true, // Taken from the route
+  user_id: true, // Taken from the session
+  deposit_allocation_id: true,
+  vendor_payment_allocation_id: true,
+  created_at: true
+}).extend({
+  amount: z.union([z.string(), z.number()])
+    .transform(val => String(val))
+    .refine(val => !isNaN(parseFloat(val)) && parseFloat(val) > 0, "Amount must be a positive number")
+});
+
+export const insertChequeReturnSchema = createInsertSchema(chequeReturns).pick({
+  return_date: true,
+  reason: true,
+  chargeback_fee: true
+}).extend({
+  reason: z.string().min(1, "Return reason is required"),
+  chargeback_fee: z.union([z.string(), z.number()])
+    .transform(val => String(val))
+    .refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, "Chargeback fee must be zero or more")
+    .optional()
+});
+
+// Transactions picked for a bulk action, each at most once
+const bulkTransactionIdsSchema = z.array(z.number().int().positive())
+  .min(1, "Select at least one transaction")
+  .max(500, "At most 500 transactions can be changed at once")
+  .transform(ids => Array.from(new Set(ids)));
+
+// A change applied to many transactions at once. Returns go through the
+// return dialog, which needs a reason for each cheque.
+export const bulkTransactionActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('set_status'),
+    transaction_ids: bulkTransactionIdsSchema,
+    status: z.enum(TRANSACTION_STATUSES).exclude(['returned'])
+  }),
+  z.object({
+    action: z.literal('record_vendor_receipt'),
+    transaction_ids: bulkTransactionIdsSchema,
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be a date (YYYY-MM-DD)").optional(),
+    method: z.string().max(50).optional(),
+    note: z.string().optional()
+  }),
+  z.object({
+    action: z.literal('reassign_vendor'),
+    transaction_ids: bulkTransactionIdsSchema,
+    vendor_id: z.string().min(1, "Vendor is required")
+  }),
+  z.object({
+    action: z.literal('delete'),
+    transaction_ids: bulkTransactionIdsSchema
+  })
+]);
+
+export const transactionExportSchema = z.object({
+  transaction_ids: bulkTransactionIdsSchema
+});
+
+// Columns the transaction list can be sorted on
+export const TRANSACTION_SORT_FIELDS = [
+  'date',
+  'cheque_amount',
+  'cheque_number',
+  'customer_name',
+  'vendor_name',
+  'profit',
+  'status',
+  'transaction_id'
+] as const;
+
+const searchDateField = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+const searchAmountField = z.string()
+  .refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, "Amounts must be zero or more");
+
+const searchFlagField = z.enum(['true', 'false']).transform(val => val === 'true');
+
+// Comma-separated list of tag ids
+const searchTagsField = z.string()
+  .transform(val => val.split(',').filter(Boolean).map(Number))
+  .pipe(z.array(z.number().int().positive()).min(1));
+
+// Transaction list query string. q matches customer and vendor names anywhere
+// and cheque numbers from the start; sort is "field:direction,..." with the
+// transaction id added as the final tie-breaker; cursor is next_cursor from the previous page.
+export const transactionSearchSchema = z.object({
+  q: z.string().trim().min(1).optional(),
+  cheque_number: z.string().trim().min(1).optional(),
+  customer_id: z.coerce.number().int().positive().optional(),
+  vendor_id: z.string().min(1).optional(),
+  status: z.string()
+    .transform(val => val.split(',').filter(Boolean))
+    .pipe(z.array(z.enum(TRANSACTION_STATUSES)).min(1))
+    .optional(),
+  date_from: searchDateField.optional(),
+  date_to: searchDateField.optional(),
+  min_amount: searchAmountField.optional(),
+  max_amount: searchAmountField.optional(),
+  outstanding_customer: searchFlagField.optional(),
+  outstanding_vendor: searchFlagField.optional(),
+  tag_ids: searchTagsField.optional(), // Transactions with any of these tags
+  sort: z.string().default('date:desc')
+    .transform(val => val.split(',').filter(Boolean).map(part => {
+      const [field, direction = 'asc'] = part.split(':');
+      return { field, direction };
+    }))
+    .pipe(z.array(z.object({
+      field: z.enum(TRANSACTION_SORT_FIELDS),
+      direction: z.enum(['asc', 'desc'])
+    })).min(1).max(4)),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  cursor: z.string().min(1).optional()
+}).refine(data => !data.date_from || !data.date_to || data.date_to >= data.date_from, {
+  message: "Date to must not be before date from",
+  path: ["date_to"]
+}).refine(data => !data.min_amount || !data.max_amount || parseFloat(data.max_amount) >= parseFloat(data.min_amount), {
+  message: "Maximum amount must not be below minimum amount",
+  path: ["max_amount"]
+});
+
+export const insertTransactionCommentSchema = z.object({
+  body: z.string().trim().min(1, "Comment is required").max(2000, "Comment must be 2000 characters or fewer")
+});
+
+export const insertTagSchema = createInsertSchema(tags).pick({
+  name: true,
+  color: true
+}).extend({
+  name: z.string().trim().min(1, "Tag name is required").max(50, "Tag name must be 50 characters or fewer"),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Colour must be a hex colour such as #3b82f6").transform(val => val.toLowerCase()).optional()
+});
+
+export const updateTagSchema = insertTagSchema.partial();
+
+export const transactionTagsSchema = z.object({
+  tag_ids: z.array(z.number().int().positive()).max(20, "A transaction can have at most 20 tags")
+});
+
+// Fee percentage between 0 and 100
+const feePercentageField = z.union([z.string(), z.number()])
+  .transform(val => String(val))
+  .refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0 && parseFloat(val) <= 100, "Fee percentage must be between 0 and 100");
+
+// Fixed fee amount
+const feeAmountField = z.union([z.string(), z.number()])
+  .transform(val => String(val))
+  .refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, "Fee amount must be zero or more");
+
+export const feeBracketSchema = z.object({
+  up_to: feeAmountField,
+  fee_percentage: feePercentageField
+});
+
+export const insertFeeScheduleSchema = createInsertSchema(feeSchedules).pick({
+  fee_percentage: true,
+  flat_fee: true,
+  min_fee: true,
+  bracket_mode: true,
+  effective_from: true,
+  effective_to: true,
+  note: true
+}).extend({
+  fee_percentage: feePercentageField,
+  flat_fee: feeAmountField.optional(),
+  min_fee: feeAmountField.nullable().optional(),
+  brackets: z.array(feeBracketSchema).nullable().optional()
+    .refine(
+      brackets => !brackets || brackets.every((b, i) => i === 0 || parseFloat(b.up_to) > parseFloat(brackets[i - 1].up_to)),
+      "Bracket limits must increase"
+    ),
+  effective_from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Effective from must be a date (YYYY-MM-DD)"),
+  effective_to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Effective to must be a date (YYYY-MM-DD)").nullable().optional()
+}).refine(data => !data.effective_to || data.effective_to >= data.effective_from, {
+  message: "Effective to must not be before effective from",
+  path: ["effective_to"]
+});
+
+// Fields compared when looking for a cheque that was already entered
+export const duplicateChequeCheckSchema = createInsertSchema(chequeTransactions).pick({
+  cheque_number: true,
+  cheque_amount: true,
+  customer_id: true,
+  drawer_bank: true,
+  date: true
+}).extend({
+  customer_id: z.coerce.number().int().positive()
+});
+
+// Customer or vendor and date range whose transactions get their fees recalculated
+export const feeRecalculationRequestSchema = z.object({
+  party: z.enum(feePartyEnum.enumValues),
+  party_id: z.union([z.string(), z.number()]).transform(val => String(val)),
+  date_from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date from must be a date (YYYY-MM-DD)"),
+  date_to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date to must be a date (YYYY-MM-DD)")
+}).refine(data => data.date_to >= data.date_from, {
+  message: "Date to must not be before date from",
+  path: ["date_to"]
 });
 
+// Date range covered by a customer statement or vendor remittance report
+export const statementPeriodSchema = z.object({
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Start date must be a date (YYYY-MM-DD)"),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "End date must be a date (YYYY-MM-DD)")
+}).refine(data => data.end_date >= data.start_date, {
+  message: "End date must not be before start date",
+  path: ["end_date"]
+});
+
+// Which spreadsheet column holds each transaction field in a bulk import.
+// Customers and vendors are matched by name or id.
+export const TRANSACTION_IMPORT_FIELDS = [
+  'date',
+  'customer',
+  'vendor',
+  'cheque_number',
+  'cheque_amount',
+  'drawer_bank',
+  'status',
+  'customer_fee_override',
+  'vendor_fee_override',
+  'fee_override_reason'
+] as const;
+
+export const transactionImportMappingSchema = z.object(
+  Object.fromEntries(TRANSACTION_IMPORT_FIELDS.map(field => [field, z.string().optional()])) as
+    Record<typeof TRANSACTION_IMPORT_FIELDS[number], z.ZodOptional<z.ZodString>>
+);
+
 export const insertAIMessageSchema = createInsertSchema(aiMessages).omit({
   message_id: true,
   created_at: true
@@ -212,6 +882,34 @@ export type Vendor = typeof vendors.$inferSelect;
 export type ChequeTransaction = typeof chequeTransactions.$inferSelect;
 export type CustomerDeposit = typeof customerDeposits.$inferSelect;
 export type VendorPayment = typeof vendorPayments.$inferSelect;
+export type VendorBatch = typeof vendorBatches.$inferSelect;
+export type VendorBatchStatus = VendorBatch['status'];
+export type VendorPaymentAllocation = typeof vendorPaymentAllocations.$inferSelect;
+export type DepositAllocation = typeof depositAllocations.$inferSelect;
+export type TransactionPayment = typeof transactionPayments.$inferSelect;
+export type TransactionPaymentType = TransactionPayment['type'];
+export type ChequeReturn = typeof chequeReturns.$inferSelect;
+export type TransactionStatusChange = typeof transactionStatusHistory.$inferSelect;
+export type TransactionAttachment = typeof transactionAttachments.$inferSelect;
+export type AttachmentKind = TransactionAttachment['kind'];
+export type TransactionComment = typeof transactionComments.$inferSelect;
+export type Tag = typeof tags.$inferSelect;
+export type TransactionTag = typeof transactionTags.$inferSelect;
+export type FeeSchedule = typeof feeSchedules.$inferSelect;
+export type FeeParty = FeeSchedule['party_type'];
+export type FeeRecalculation = typeof feeRecalculations.$inferSelect;
+export type BankStatement = typeof bankStatements.$inferSelect;
+export type BankStatementLine = typeof bankStatementLines.$inferSelect;
+export type BankMatchType = typeof BANK_MATCH_TYPES[number];
+export type AccountingPeriod = typeof accountingPeriods.$inferSelect;
+export type ApprovalPolicy = typeof approvalPolicies.$inferSelect;
+export type ApprovalRequest = typeof approvalRequests.$inferSelect;
+export type ApprovalAction = typeof APPROVAL_ACTIONS[number];
+export type ApprovalStatus = ApprovalRequest['status'];
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type AuditEntity = AuditEntry['entity_type'];
+export type AuditAction = AuditEntry['action'];
+export type AuditChannel = AuditEntry['channel'];
 export type AIMessage = typeof aiMessages.$inferSelect;
 export type TelegramUser = typeof telegramUsers.$inferSelect;
 
@@ -222,10 +920,37 @@ export type UpdateUser = z.infer<typeof updateUserSchema>;
 export type ChangePassword = z.infer<typeof changePasswordSchema>;
 export type InsertUserConversation = z.infer<typeof insertUserConversationSchema>;
 export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
+export type VendorRecommendationRequest = z.infer<typeof vendorRecommendationRequestSchema>;
 export type InsertVendor = z.infer<typeof insertVendorSchema>;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 export type InsertCustomerDeposit = z.infer<typeof insertCustomerDepositSchema>;
 export type InsertVendorPayment = z.infer<typeof insertVendorPaymentSchema>;
+export type InsertVendorBatch = z.infer<typeof insertVendorBatchSchema>;
+export type UpdateVendorBatch = z.infer<typeof updateVendorBatchSchema>;
+export type VendorBatchReceipt = z.infer<typeof vendorBatchReceiptSchema>;
+export type BankStatementMatch = z.infer<typeof bankStatementMatchSchema>;
+export type InsertApprovalPolicy = z.infer<typeof insertApprovalPolicySchema>;
+export type UpdateApprovalPolicy = z.infer<typeof updateApprovalPolicySchema>;
+export type ApprovalDecision = z.infer<typeof approvalDecisionSchema>;
+export type AllocateDeposit = z.infer<typeof allocateDepositSchema>;
+export type InsertTransactionPayment = z.infer<typeof insertTransactionPaymentSchema>;
+export type InsertChequeReturn = z.infer<typeof insertChequeReturnSchema>;
+export type DuplicateChequeCheck = z.infer<typeof duplicateChequeCheckSchema>;
+export type InsertFeeSchedule = z.infer<typeof insertFeeScheduleSchema>;
+export type FeeBracket = z.infer<typeof feeBracketSchema>;
+export type FeeRecalculationRequest = z.infer<typeof feeRecalculationRequestSchema>;
+export type StatementPeriod = z.infer<typeof statementPeriodSchema>;
+export type BulkTransactionAction = z.infer<typeof bulkTransactionActionSchema>;
+export type TransactionSortField = typeof TRANSACTION_SORT_FIELDS[number];
+export type TransactionSearchQuery = z.infer<typeof transactionSearchSchema>;
+export type TransactionSort = TransactionSearchQuery['sort'][number];
+export type TransactionImportField = typeof TRANSACTION_IMPORT_FIELDS[number];
+export type TransactionImportMapping = z.infer<typeof transactionImportMappingSchema>;
+export type InsertAuditEntry = typeof auditLog.$inferInsert;
+export type InsertTransactionAttachment = typeof transactionAttachments.$inferInsert;
+export type InsertTransactionComment = z.infer<typeof insertTransactionCommentSchema>;
+export type InsertTag = z.infer<typeof insertTagSchema>;
+export type UpdateTag = z.infer<typeof updateTagSchema>;
 export type InsertAIMessage = z.infer<typeof insertAIMessageSchema>;
 export type InsertTelegramUser = z.infer<typeof insertTelegramUserSchema>;
 
@@ -233,6 +958,372 @@ export type InsertTelegramUser = z.infer<typeof insertTelegramUserSchema>;
 export type TransactionWithDetails = ChequeTransaction & {
   customer: Pick<Customer, 'customer_name'>;
   vendor: Pick<Vendor, 'vendor_name'>;
+  tags?: Tag[]; // Set on transaction list pages
+};
+
+// Create a type for a comment with the name of the user who left it
+export type TransactionCommentWithUser = TransactionComment & {
+  username: string | null;
+};
+
+// Create a type for a customer deposit with the transactions it was applied to
+export type CustomerDepositWithAllocations = CustomerDeposit & {
+  allocations: DepositAllocation[];
+  unallocated: string;
+  pending_approval?: ApprovalRequestWithUsers[]; // Payouts held back when it was just allocated
+};
+
+// Create a type for a status change with the name of the user who made it
+export type TransactionStatusChangeWithUser = TransactionStatusChange & {
+  username: string | null;
+};
+
+// Create a type for an audit entry with the name of the user who made the change
+export type AuditEntryWithUser = AuditEntry & {
+  username: string | null;
+};
+
+// Create a type for one field's value before and after an audited change
+export type AuditFieldChange = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+// Create a type for who made a change and through which channel. revert_of is
+// set when the change restores the version recorded by an earlier audit entry.
+export type AuditActor = {
+  user_id: number | null;
+  channel: AuditChannel;
+  revert_of?: number;
+};
+
+// Create a type for the options of creating a transaction. override_limits lets
+// an admin create a cheque that goes over the customer's credit or daily limit.
+export type CreateTransactionOptions = {
+  override_limits?: boolean;
+};
+
+// Create a type for a customer limit a new cheque would go over
+export type CreditLimitBreach = {
+  limit: 'credit' | 'daily';
+  limit_amount: string;
+  current: string; // Before the cheque
+  projected: string; // With the cheque
+};
+
+// Create a type for the outcome of checking a new cheque against its customer's limits
+export type CreditLimitCheck = {
+  breaches: CreditLimitBreach[];
+  can_override: boolean; // Whether the current user may create the cheque anyway
+};
+
+// Create a type for how much of a customer's limits is in use. Utilizations are
+// fractions of the limit (1 is at the limit) and null when there is no limit.
+export type CustomerExposure = {
+  customer_id: number;
+  customer_name: string;
+  credit_limit: string | null;
+  outstanding: string;
+  credit_utilization: number | null;
+  daily_limit: string | null;
+  daily_volume: string; // Cheques dated `date`
+  daily_utilization: number | null;
+  date: string;
+};
+
+// Create a type for the cheque volume a vendor has taken on a day and in its week
+export type VendorVolume = {
+  vendor_id: string;
+  daily_volume: string;
+  weekly_volume: string;
+};
+
+// Create a type for a vendor considered for a cheque. profit_difference is the
+// profit compared with the best eligible vendor, so zero or less for eligible ones.
+export type VendorRecommendation = {
+  vendor_id: string;
+  vendor_name: string;
+  eligible: boolean;
+  reasons: string[]; // Why the vendor can't take the cheque
+  vendor_fee: string;
+  profit: string;
+  profit_difference: string;
+  daily_volume: string;
+  weekly_volume: string;
+};
+
+// Kinds of file attached to a transaction
+export const attachmentKindSchema = z.enum(attachmentKindEnum.enumValues);
+
+// Kinds of record that are soft-deleted to the trash
+export const trashEntitySchema = z.enum(['transaction', 'customer', 'vendor']);
+export type TrashEntity = z.infer<typeof trashEntitySchema>;
+
+// Create a type for the soft-deleted records waiting in the trash
+export type Trash = {
+  transactions: ChequeTransaction[];
+  customers: Customer[];
+  vendors: Vendor[];
+};
+
+// Create a type for an existing transaction that looks like the same cheque
+export type DuplicateChequeMatch = {
+  transaction: ChequeTransaction;
+  reasons: string[];
+};
+
+// Create a type for the fee rule a schedule applies to a cheque amount
+export type FeeRule = Pick<FeeSchedule, 'fee_percentage' | 'flat_fee' | 'min_fee' | 'brackets' | 'bracket_mode'>;
+
+// Create a type for the customer and vendor rates in force on a date
+export type FeeRates = {
+  customer_fee_percentage: string;
+  vendor_fee_percentage: string;
+  customer_rule: FeeRule;
+  vendor_rule: FeeRule;
+};
+
+// Create a type for the fee columns a recalculation can change
+export type TransactionFeeValues = Pick<ChequeTransaction,
+  'customer_fee' | 'net_payable_to_customer' | 'vendor_fee' | 'amount_to_receive_from_vendor' | 'profit'
+>;
+
+// Create a type for one transaction's numbers before and after a fee recalculation
+export type FeeRecalculationLine = {
+  transaction_id: number;
+  cheque_number: string;
+  date: string | null;
+  cheque_amount: string;
+  before: TransactionFeeValues;
+  after: TransactionFeeValues;
+  changed: boolean;
+};
+
+// Create a type for the preview of a fee recalculation
+export type FeeRecalculationPreview = {
+  lines: FeeRecalculationLine[];
+  transaction_count: number;
+  changed_count: number;
+  profit_before: string;
+  profit_after: string;
+  profit_impact: string;
+};
+
+// Create a type for the outcome of a bulk action: the transactions it changed
+// and why the others couldn't be changed
+export type BulkTransactionResult = {
+  action: BulkTransactionAction['action'];
+  succeeded: number[];
+  failed: { transaction_id: number; error: string }[];
+  pending_approval: { transaction_id: number; approval_id: number }[]; // Held back by an approval policy
+};
+
+// Create a type for one page of the transaction list
+export type TransactionSearchResult = {
+  transactions: (TransactionWithDetails & { tags: Tag[] })[];
+  total: number; // Matching transactions across all pages
+  next_cursor: string | null;
+};
+
+// Create a type for one spreadsheet row checked before a bulk import.
+// row_number is the row in the sheet, counting the header as row 1.
+export type TransactionImportRow = {
+  row_number: number;
+  values: Record<string, string>;
+  transaction: InsertTransaction | null;
+  errors: string[];
+  duplicates: DuplicateChequeMatch[];
+  duplicate_of_row: number | null;
+  limit_breaches: CreditLimitBreach[]; // Customer limits it would go over, counting the rows above it
+};
+
+// Create a type for the checked rows of a spreadsheet about to be imported
+export type TransactionImportPreview = {
+  headers: string[];
+  mapping: TransactionImportMapping;
+  rows: TransactionImportRow[];
+  valid_count: number;
+  error_count: number;
+  duplicate_count: number;
+  over_limit_count: number; // Rows only held back by their customer's limits
+  can_override_limits: boolean; // Whether the current user may import those anyway
+};
+
+// Create a type for the outcome of a bulk import
+export type TransactionImportResult = {
+  imported: ChequeTransaction[];
+  skipped: TransactionImportRow[];
+  pending_approval: { row_number: number; approval_id: number }[]; // Held back by an approval policy
+};
+
+// Create a type for a vendor payment with the transactions it was applied to
+export type VendorPaymentWithAllocations = VendorPayment & {
+  allocations: VendorPaymentAllocation[];
+};
+
+// Create a type for a vendor batch with the totals of its cheques
+export type VendorBatchWithTotals = VendorBatch & {
+  vendor_name: string;
+  transaction_count: number;
+  cheque_total: string;
+  expected_total: string; // What the vendor owes on the cheques
+  received_total: string;
+};
+
+// Create a type for a vendor batch with its cheques and the receipts recorded against it
+export type VendorBatchDetails = VendorBatchWithTotals & {
+  transactions: (ChequeTransaction & { customer_name: string })[];
+  receipts: VendorPayment[];
+};
+
+// Create a type for something a bank statement line could be matched to
+export type ReconciliationCandidate = {
+  match_type: BankMatchType;
+  id: number;
+  amount: string; // What is still expected, or what was recorded
+  date: string;
+  description: string;
+  memo_match: boolean; // The line's description names it
+  days_apart: number;
+};
+
+// Create a type for a bank statement line as shown for reconciliation. A line
+// with candidates but no match yet is suggested.
+export type ReconciliationStatus = 'matched' | 'suggested' | 'unmatched' | 'ignored';
+
+export type BankStatementLineWithMatches = BankStatementLine & {
+  reconciliation_status: ReconciliationStatus;
+  match_description: string | null;
+  candidates: ReconciliationCandidate[];
+};
+
+// Create a type for a bank statement with how far it has been reconciled
+export type BankStatementSummary = BankStatement & {
+  line_count: number;
+  matched_count: number;
+  ignored_count: number;
+};
+
+// Create a type for a bank statement with its lines
+export type BankStatementDetails = BankStatementSummary & {
+  lines: BankStatementLineWithMatches[];
+};
+
+// Create a type for an action being sent for approval: what it is worth, the
+// cheque it acts on (none for a new cheque), a one-line description and what
+// to apply once approved
+export type ApprovalDetails = {
+  amount: string;
+  transaction_id?: number | null;
+  summary: string;
+  payload: Record<string, unknown>;
+};
+
+// Create a type for an approval request with who asked for and decided it
+export type ApprovalRequestWithUsers = ApprovalRequest & {
+  requested_by_username: string | null;
+  decided_by_username: string | null;
+};
+
+// Create a type for an accounting period with who closed and reopened it
+export type AccountingPeriodWithUsers = AccountingPeriod & {
+  closed_by_username: string | null;
+  reopened_by_username: string | null;
+};
+
+// Create a type for one entry on a customer statement. Credits are what the
+// customer's cheques earned them, debits what was paid to them or is owed back
+// for a returned cheque. A positive balance is owed to the customer.
+export type CustomerStatementLine = {
+  date: string;
+  kind: 'cheque' | 'deposit' | 'payout' | 'return';
+  reference: string;
+  description: string;
+  transaction_id: number | null;
+  cheque_amount: string | null;
+  customer_fee: string | null;
+  credit: string;
+  debit: string;
+  balance: string;
+};
+
+// Create a type for a customer statement over a date range
+export type CustomerStatement = {
+  customer: Customer;
+  start_date: string;
+  end_date: string;
+  opening_balance: string;
+  closing_balance: string;
+  lines: CustomerStatementLine[];
+  totals: {
+    cheque_count: number;
+    cheque_amount: string;
+    customer_fees: string;
+    credits: string;
+    deposits: string;
+    payouts: string;
+    returns: string;
+  };
+};
+
+// Create a type for a cheque on a vendor settlement report. Received and
+// outstanding are as they stand now; a cheque is overdue once it has been
+// outstanding for longer than the report allows.
+export type VendorSettlementCheque = {
+  transaction_id: number;
+  date: string;
+  cheque_number: string;
+  customer_name: string;
+  drawer_bank: string | null;
+  status: NonNullable<ChequeTransaction['status']>;
+  batch_id: number | null;
+  cheque_amount: string;
+  vendor_fee: string;
+  expected: string;
+  received: string;
+  outstanding: string;
+  days_outstanding: number;
+  overdue: boolean;
+};
+
+// Create a type for money received from a vendor: a vendor payment, or a
+// receipt recorded straight against one of its cheques
+export type VendorSettlementReceipt = {
+  date: string;
+  kind: 'payment' | 'receipt';
+  reference: string;
+  description: string;
+  amount: string;
+};
+
+// Create a type for a vendor's settlement over a date range. Balances are
+// what the vendor owes: expected amounts less receipts dated up to that day.
+export type VendorSettlementSummary = {
+  vendor: Vendor;
+  start_date: string;
+  end_date: string;
+  overdue_days: number;
+  opening_balance: string;
+  closing_balance: string;
+  totals: {
+    cheque_count: number;
+    cheque_amount: string;
+    vendor_fees: string;
+    expected: string;
+    received_on_cheques: string; // Received so far on the period's cheques
+    receipts: string; // Received in the period, whichever cheques it went to
+    variance: string; // Receipts less expected; negative when the vendor is behind
+    outstanding: string; // Still owed on the period's cheques
+    overdue_count: number;
+    overdue_amount: string; // Still owed on overdue cheques of any date
+  };
+};
+
+export type VendorSettlement = VendorSettlementSummary & {
+  cheques: VendorSettlementCheque[];
+  receipts: VendorSettlementReceipt[];
+  overdue: VendorSettlementCheque[]; // Includes cheques from before the period
 };
 
 // Create a type for business summary
@@ -0,0 +1,73 @@
+// Transaction status lifecycle shared by the server (enforcement) and the
+// client (which next states to offer in the UI).
+
+export const TRANSACTION_STATUSES = [
+  'pending',
+  'deposited',
+  'cleared',
+  'paid_out',
+  'settled',
+  'returned',
+  'void'
+] as const;
+
+export type TransactionStatus = typeof TRANSACTION_STATUSES[number];
+
+export const TRANSACTION_STATUS_LABELS: Record<TransactionStatus, string> = {
+  pending: 'Pending',
+  deposited: 'Deposited',
+  cleared: 'Cleared',
+  paid_out: 'Paid Out',
+  settled: 'Settled',
+  returned: 'Returned',
+  void: 'Void'
+};
+
+// Legal next states for each status. A cheque can be paid out to the customer
+// before or after it is deposited/cleared, and can bounce at any point once it
+// has been deposited or paid out. Returned and void are terminal.
+export const TRANSACTION_STATUS_TRANSITIONS: Record<TransactionStatus, readonly TransactionStatus[]> = {
+  pending: ['deposited', 'paid_out', 'void'],
+  deposited: ['cleared', 'paid_out', 'returned'],
+  cleared: ['paid_out', 'settled', 'returned'],
+  paid_out: ['deposited', 'cleared', 'settled', 'returned'],
+  settled: ['returned'],
+  returned: [],
+  void: []
+};
+
+/**
+ * Check whether a value is one of the defined transaction statuses
+ * @param value The value to check
+ */
+export function isTransactionStatus(value: unknown): value is TransactionStatus {
+  return typeof value === 'string' && (TRANSACTION_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Statuses a transaction may move to from its current status
+ * @param from The current status (null/undefined is treated as pending)
+ */
+export function allowedTransitions(from: string | null | undefined): readonly TransactionStatus[] {
+  const current = from ?? 'pending';
+  return isTransactionStatus(current) ? TRANSACTION_STATUS_TRANSITIONS[current] : [];
+}
+
+/**
+ * Statuses a transaction may be edited to from its current status. A cheque
+ * only becomes returned through the return flow, which records the return and
+ * reverses its fees, so editing can't set it.
+ * @param from The current status (null/undefined is treated as pending)
+ */
+export function editableTransitions(from: string | null | undefined): readonly TransactionStatus[] {
+  return allowedTransitions(from).filter(status => status !== 'returned');
+}
+
+/**
+ * Check whether moving from one status to another is allowed
+ * @param from The current status
+ * @param to The requested status
+ */
+export function canTransition(from: string | null | undefined, to: string): boolean {
+  return allowedTransitions(from).some(status => status === to);
+}